@@ -20,10 +20,19 @@ import { lazy, Suspense, useEffect } from 'react';
 import { usePatientStore } from './stores/patientStore';
 import { useSessionStore } from './stores/sessionStore';
 import { loadPatients } from './services/patientLoader';
+import { useScenarioRunner } from './hooks/useScenarioRunner';
+import { useInstructorSync } from './hooks/useInstructorSync';
+import { useActionLog, recordAction } from './hooks/useActionLog';
+import { useObsWatcher } from './hooks/useObsWatcher';
+import { useAlertWatcher } from './hooks/useAlertWatcher';
+import { useEscalationTimers } from './hooks/useEscalationTimers';
+import { useAlertStore } from './stores/alertStore';
+import { useSepsisStore } from './stores/sepsisStore';
 import { TopNav, PatientBanner, Sidebar, StatusBar } from './components/layout';
 import PatientSearch from './components/search/PatientSearch';
 import OfflineIndicator from './components/common/OfflineIndicator';
 import InstallPrompt from './components/common/InstallPrompt';
+import { AlertDialog } from './components/deterioration/AlertDialog';
 import './styles/components/layout.css';
 
 // ---------------------------------------------------------------------------
@@ -40,6 +49,9 @@ const ResultsView = lazy(() => import('./components/results/ResultsView'));
 const DocumentationView = lazy(() => import('./components/documentation/DocumentationView'));
 const InteractiveView = lazy(() => import('./components/iview/InteractiveView'));
 const SBARSummary = lazy(() => import('./components/common/SBARSummary'));
+const DebriefView = lazy(() => import('./components/debrief/DebriefView'));
+const WardCensus = lazy(() => import('./components/census/WardCensus'));
+const SiteSettings = lazy(() => import('./components/settings/SiteSettings'));
 
 // ---------------------------------------------------------------------------
 // Placeholder view components
@@ -81,6 +93,9 @@ const VIEW_LABELS: Record<string, string> = {
   'iview': 'Interactive View',
   'deterioration': 'Deterioration Dashboard',
   'handover': 'Handover Summary',
+  'debrief': 'Simulation Debrief',
+  'census': 'Ward Census',
+  'settings': 'Site Settings',
 };
 
 /**
@@ -110,6 +125,12 @@ function renderCurrentView(currentView: string): React.ReactNode {
       return <InteractiveView />;
     case 'handover':
       return <SBARSummary asView />;
+    case 'debrief':
+      return <DebriefView />;
+    case 'census':
+      return <WardCensus />;
+    case 'settings':
+      return <SiteSettings />;
     default:
       const label = VIEW_LABELS[currentView] ?? currentView;
       return <PlaceholderView name={label} />;
@@ -125,11 +146,19 @@ function renderCurrentView(currentView: string): React.ReactNode {
  *
  * Lifecycle:
  * 1. On mount, loads patients from the external manifest (or falls back
- *    to defaults) and populates the patient store.
+ *    to defaults) and populates the patient store, unless a roster was
+ *    restored from the saved session.
  * 2. If no patient is selected (currentPatient is null), renders the
  *    PatientSearch screen.
  * 3. Once a patient is selected, renders the full EMR chrome: TopNav,
  *    PatientBanner, Sidebar + content area, and StatusBar.
+ *
+ * The scenario runner, instructor console link, action log, overdue
+ * observation watcher, and alert escalation timers are mounted here so
+ * scripted events, facilitator commands, the audit trail, overdue obs
+ * alerts, and escalations apply whichever view (or patient) is on screen. The Discern alert dialog is rendered here too,
+ * so an alert stays up until acknowledged even if the learner navigates; it
+ * shows the open patient's pending alert only.
  */
 export default function App() {
   const currentPatient = usePatientStore((s) => s.currentPatient);
@@ -139,12 +168,38 @@ export default function App() {
   const loading = usePatientStore((s) => s.loading);
   const error = usePatientStore((s) => s.error);
   const currentView = useSessionStore((s) => s.currentView);
+  const activeAlert = useAlertStore((s) =>
+    currentPatient ? s.activeAlerts[currentPatient.mrn] : undefined,
+  );
+  const acknowledgeAlert = useAlertStore((s) => s.acknowledgeAlert);
+  const setActiveAlert = useAlertStore((s) => s.setActiveAlert);
+  const setCurrentView = useSessionStore((s) => s.setCurrentView);
+  const openSepsisScreen = useSepsisStore((s) => s.openScreenForm);
+
+  /* Replay scripted scenario events as the simulation clock advances. */
+  useScenarioRunner();
+
+  /* Apply commands from an instructor console in another window. */
+  useInstructorSync();
+
+  /* Persist learner actions to the audit trail. */
+  useActionLog();
 
-  /* Load patients on mount. */
+  /* Raise an alert when a patient's next set of obs falls overdue. */
+  useObsWatcher();
+
+  /* Raise Discern alerts as any patient's obs, orders or chart change. */
+  useAlertWatcher();
+
+  /* Escalate alerts whose review deadline passes without a review. */
+  useEscalationTimers();
+
+  /* Load patients on mount, unless the saved session restored them. */
   useEffect(() => {
     let cancelled = false;
 
     async function init() {
+      if (Object.keys(usePatientStore.getState().patients).length > 0) return;
       setLoading(true);
       setError(null);
       try {
@@ -194,6 +249,19 @@ export default function App() {
     return <PatientSearch />;
   }
 
+  /** Acknowledge the active Discern alert and close it. */
+  const dismissAlert = () => {
+    if (!activeAlert) return;
+    acknowledgeAlert(currentPatient.mrn, activeAlert.id);
+    recordAction('alert/acknowledged', {
+      alertId: activeAlert.id,
+      title: activeAlert.title,
+      ewsRange: activeAlert.ewsRange,
+      risk: activeAlert.risk,
+    });
+    setActiveAlert(currentPatient.mrn, null);
+  };
+
   /* ---- Full EMR layout with selected patient ---- */
   return (
     <>
@@ -203,7 +271,8 @@ export default function App() {
       <PatientBanner patient={currentPatient} />
       <div className="main-container">
         <Sidebar />
-        <main className="content-area">
+        {/* Keyed by MRN so view-local state never carries over to another patient. */}
+        <main className="content-area" key={currentPatient.mrn}>
           <Suspense
             fallback={
               <div className="loading-overlay">
@@ -217,6 +286,19 @@ export default function App() {
         </main>
       </div>
       <StatusBar />
+
+      {/* Discern Alert Dialog */}
+      {activeAlert && (
+        <AlertDialog
+          alert={activeAlert}
+          onDismiss={dismissAlert}
+          onOpenSepsisScreen={() => {
+            dismissAlert();
+            setCurrentView('deterioration');
+            openSepsisScreen();
+          }}
+        />
+      )}
     </>
   );
 }
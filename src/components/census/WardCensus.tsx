@@ -0,0 +1,124 @@
+/**
+ * @file WardCensus.tsx
+ * @description Ward census (Patient List) for multi-patient simulations.
+ *
+ * Lists every loaded patient with location, latest Q-ADDS total and risk
+ * colour, MAR doses due or overdue, unsigned orders, and active MET-MEO
+ * plans, as summarised by {@link buildWardCensus}. Selecting a row opens
+ * that patient's chart; each patient's record stays in the patient store
+ * roster, so nothing charted for one patient is lost on switching.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { usePatientStore } from '../../stores/patientStore';
+import { useSessionStore } from '../../stores/sessionStore';
+import { useClockStore } from '../../stores/clockStore';
+import { useMeoStore } from '../../stores/meoStore';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { getSessionActions, subscribeActions } from '../../services/actionLog';
+import { buildWardCensus } from '../../services/wardCensus';
+import { getRiskColor } from '../../services/qaddsCalculator';
+import '../../styles/components/views.css';
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/**
+ * WardCensus renders one row per loaded patient and switches the chart to
+ * the patient selected.
+ */
+export default function WardCensus() {
+  const patients = usePatientStore((s) => s.patients);
+  const currentMrn = usePatientStore((s) => s.currentPatient?.mrn ?? null);
+  const selectPatient = usePatientStore((s) => s.selectPatient);
+  const setCurrentView = useSessionStore((s) => s.setCurrentView);
+  const now = useClockStore((s) => s.currentTime);
+  const metMeoOrders = useMeoStore((s) => s.metMeoOrders);
+  const scoringSystem = useSettingsStore((s) => s.scoringSystem);
+  const [actions, setActions] = useState(getSessionActions);
+
+  useEffect(() => subscribeActions(() => setActions(getSessionActions())), []);
+
+  const rows = useMemo(
+    () =>
+      buildWardCensus({ patients: Object.values(patients), actions, metMeoOrders, now, scoringSystem }),
+    [patients, actions, metMeoOrders, now, scoringSystem],
+  );
+
+  /** Open the selected patient's chart at the Doctor View. */
+  const handleSelect = (mrn: string) => {
+    selectPatient(mrn);
+    setCurrentView('doctor-view');
+  };
+
+  return (
+    <>
+      <div className="content-header">
+        <h2>Ward Census</h2>
+        <span className="text-muted">
+          {rows.length} patient{rows.length === 1 ? '' : 's'}
+        </span>
+      </div>
+      <div className="content-body">
+        {rows.length > 0 ? (
+          <table className="data-table census">
+            <thead>
+              <tr>
+                <th>Location</th>
+                <th>Patient</th>
+                <th>{scoringSystem === 'news2' ? 'NEWS2' : 'Q-ADDS'}</th>
+                <th>Last obs</th>
+                <th>Meds due</th>
+                <th>Meds overdue</th>
+                <th>Unsigned orders</th>
+                <th>MET-MEO</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr
+                  key={row.mrn}
+                  className={`clickable${row.mrn === currentMrn ? ' census__row--current' : ''}`}
+                  onClick={() => handleSelect(row.mrn)}
+                  tabIndex={0}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ' ') {
+                      e.preventDefault();
+                      handleSelect(row.mrn);
+                    }
+                  }}
+                >
+                  <td>{row.location}</td>
+                  <td>
+                    <div className="census__name">{row.name}</div>
+                    <div className="census__detail">
+                      MRN: {row.mrn} | {row.age} | {row.gender}
+                    </div>
+                  </td>
+                  <td
+                    className="census__score"
+                    style={row.risk ? { backgroundColor: getRiskColor(row.risk) } : undefined}
+                    title={row.risk ?? undefined}
+                  >
+                    {row.ewsScore ?? '—'}
+                    {row.hasEZone && <span className="census__ezone">E</span>}
+                  </td>
+                  <td>{row.lastObsAt ?? '—'}</td>
+                  <td>{row.medsDue || ''}</td>
+                  <td className={row.medsOverdue > 0 ? 'census__alert' : undefined}>
+                    {row.medsOverdue || ''}
+                  </td>
+                  <td>{row.unsignedOrders || ''}</td>
+                  <td>{row.activeMetMeoPlans > 0 ? 'Active' : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="text-muted">No patients loaded</div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,45 @@
+/**
+ * @file HydrationGate.tsx
+ * @description Holds the learner EMR back until saved state is restored.
+ *
+ * Restores the persisted stores from IndexedDB (see `hydrateStores`)
+ * before rendering its children, so the app mounts on the restored clock,
+ * patients, orders and alerts. Watchers subscribed to the clock therefore
+ * never see the restore as time passing.
+ */
+
+import { useEffect, useState, type ReactNode } from 'react';
+import { hydrateStores } from '../../stores/hydrate';
+
+interface HydrationGateProps {
+  children: ReactNode;
+}
+
+export default function HydrationGate({ children }: HydrationGateProps) {
+  const [hydrated, setHydrated] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    hydrateStores()
+      .catch((err) => {
+        console.warn('[HydrationGate] Failed to restore saved state:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setHydrated(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!hydrated) {
+    return (
+      <div className="loading-overlay">
+        <div className="loading-spinner loading-spinner--lg" />
+        <span>Restoring session…</span>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -11,8 +11,15 @@
 import { useState, useMemo, useCallback, useRef } from 'react';
 import { usePatientStore } from '../../stores/patientStore';
 import { useClockStore } from '../../stores/clockStore';
-import { calculateQADDS, getEscalationRecommendation } from '../../services/newsCalculator';
-import type { Patient, VitalSign, LabResult } from '../../types';
+import { useSettingsStore } from '../../stores/settingsStore';
+import {
+  calculateQadds,
+  getChartForm,
+  getEscalationText,
+  getPatientChartVariant,
+} from '../../services/qaddsCalculator';
+import { formatDose, formatFrequency, formatRoute } from '../../services/medicationOrders';
+import type { Patient, VitalSign, LabResult, ScoringSystem } from '../../types';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -77,7 +84,7 @@ interface SBARData {
   generatedAt: string;
 }
 
-function generateSBAR(patient: Patient, simTime: Date): SBARData {
+function generateSBAR(patient: Patient, simTime: Date, scoringSystem: ScoringSystem): SBARData {
   const generatedAt = formatDateTime(simTime);
 
   // -- Situation --
@@ -106,7 +113,7 @@ function generateSBAR(patient: Patient, simTime: Date): SBARData {
   const activeMeds = patient.medications.filter((m) => m.status === 'active');
   if (activeMeds.length > 0) {
     background.push(
-      `Current Medications (${activeMeds.length}): ${activeMeds.map((m) => `${m.name} ${m.dose} ${m.route} ${m.frequency}`).join('; ')}`,
+      `Current Medications (${activeMeds.length}): ${activeMeds.map((m) => `${m.name} ${formatDose(m.dose)} ${formatRoute(m.route)} ${formatFrequency(m)}`).join('; ')}`,
     );
   } else {
     background.push('Current Medications: Nil regular');
@@ -124,16 +131,18 @@ function generateSBAR(patient: Patient, simTime: Date): SBARData {
 
   // -- Assessment --
   const assessment: string[] = [];
-  const latestVital = patient.vitals.length > 0
-    ? patient.vitals[patient.vitals.length - 1]
-    : undefined;
+  const variant = getPatientChartVariant(patient, scoringSystem, simTime);
+  const form = getChartForm(variant);
+  const { tool } = form;
+  // Vitals are stored newest-first.
+  const latestVital: VitalSign | undefined = patient.vitals[0];
 
   if (latestVital) {
     assessment.push(`Latest Vitals (${latestVital.datetime}):`);
     assessment.push(`  ${formatVitals(latestVital)}`);
 
-    const qadds = calculateQADDS(latestVital);
-    assessment.push(`Q-ADDS EWS: ${qadds.totalScore} — Clinical Risk: ${qadds.riskLevel}`);
+    const qadds = calculateQadds(latestVital, variant);
+    assessment.push(`${tool} EWS: ${qadds.totalScore} — Clinical Risk: ${qadds.clinicalRisk}`);
 
     if (latestVital.supplementalO2) {
       assessment.push('  Patient on supplemental oxygen');
@@ -158,9 +167,9 @@ function generateSBAR(patient: Patient, simTime: Date): SBARData {
   const recommendation: string[] = [];
 
   if (latestVital) {
-    const qadds = calculateQADDS(latestVital);
-    const escalation = getEscalationRecommendation(qadds.riskLevel);
-    recommendation.push(`Q-ADDS Escalation: ${escalation}`);
+    const qadds = calculateQadds(latestVital, variant);
+    const escalation = getEscalationText(qadds.clinicalRisk, undefined, variant);
+    recommendation.push(`${tool} Escalation: ${escalation}`);
   }
 
   const pendingOrders = patient.orders.filter(
@@ -177,7 +186,7 @@ function generateSBAR(patient: Patient, simTime: Date): SBARData {
   if (dueMeds.length > 0) {
     recommendation.push(`Scheduled Medications Due:`);
     for (const med of dueMeds) {
-      recommendation.push(`  - ${med.name} ${med.dose} ${med.route} (${med.frequency}) — times: ${med.times.join(', ')}`);
+      recommendation.push(`  - ${med.name} ${formatDose(med.dose)} ${formatRoute(med.route)} (${formatFrequency(med)}) — times: ${med.times.join(', ')}`);
     }
   }
 
@@ -238,13 +247,14 @@ interface SBARSummaryProps {
 export default function SBARSummary({ asView = false }: SBARSummaryProps) {
   const patient = usePatientStore((s) => s.currentPatient);
   const simTime = useClockStore((s) => s.currentTime);
+  const scoringSystem = useSettingsStore((s) => s.scoringSystem);
   const [showModal, setShowModal] = useState(false);
   const printRef = useRef<HTMLDivElement>(null);
 
   const sbar = useMemo(() => {
     if (!patient) return null;
-    return generateSBAR(patient, simTime);
-  }, [patient, simTime]);
+    return generateSBAR(patient, simTime, scoringSystem);
+  }, [patient, simTime, scoringSystem]);
 
   const handlePrint = useCallback(() => {
     if (!printRef.current) return;
@@ -0,0 +1,118 @@
+/**
+ * @file ScenarioControl.tsx
+ * @description Compact scenario picker for the status bar.
+ *
+ * Lists the scripted scenarios from `public/scenarios/scenario-list.json`,
+ * lets the facilitator start or stop one, and shows progress through the
+ * scenario's event timeline. Starting a scenario sets the simulation clock
+ * to the scenario's start time (if any) and starts the clock ticking; the
+ * {@link useScenarioRunner} hook then applies events as they fall due.
+ */
+
+import { useEffect, useState } from 'react';
+import { useClockStore } from '../../stores/clockStore';
+import { usePatientStore } from '../../stores/patientStore';
+import { useScenarioStore } from '../../stores/scenarioStore';
+import { loadScenarioManifest, loadScenario } from '../../services/scenarioEngine';
+import type { ScenarioDefinition } from '../../types/scenario';
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/**
+ * ScenarioControl renders a scenario selector with Start/Stop and an
+ * "n/m events" progress indicator.
+ */
+export default function ScenarioControl() {
+  const [available, setAvailable] = useState<ScenarioDefinition[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const patients = usePatientStore((s) => s.patients);
+  const scenario = useScenarioStore((s) => s.scenario);
+  const status = useScenarioStore((s) => s.status);
+  const firedCount = useScenarioStore((s) => s.firedEventIds.length);
+  const startScenario = useScenarioStore((s) => s.startScenario);
+  const stopScenario = useScenarioStore((s) => s.stopScenario);
+
+  /* Load the scenario catalogue once. */
+  useEffect(() => {
+    let cancelled = false;
+
+    async function init() {
+      try {
+        const files = await loadScenarioManifest();
+        const results = await Promise.allSettled(files.map((f) => loadScenario(f)));
+        if (cancelled) return;
+        const loaded = results
+          .filter((r): r is PromiseFulfilledResult<ScenarioDefinition> => r.status === 'fulfilled')
+          .map((r) => r.value);
+        setAvailable(loaded);
+        if (loaded.length > 0) setSelectedId(loaded[0].id);
+      } catch {
+        if (!cancelled) setAvailable([]);
+      }
+    }
+
+    init();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleStart = () => {
+    const selected = available.find((s) => s.id === selectedId);
+    if (!selected) return;
+    if (!patients[selected.patientMrn]) {
+      setError(`Patient ${selected.patientMrn} is not loaded`);
+      return;
+    }
+
+    const clock = useClockStore.getState();
+    const startTime = selected.startTime ? new Date(selected.startTime) : clock.currentTime;
+    clock.setTime(startTime);
+    clock.start();
+    setError(null);
+    startScenario(selected, startTime);
+  };
+
+  if (available.length === 0 && !scenario) return null;
+
+  return (
+    <div className="scenario-control" title={error ?? scenario?.description}>
+      <span className="status-bar-label">Scenario:</span>
+      {scenario ? (
+        <>
+          <span className="scenario-control__title">{scenario.title}</span>
+          <span className="scenario-control__progress">
+            {status === 'completed'
+              ? 'Complete'
+              : `${firedCount}/${scenario.events.length} events`}
+          </span>
+          <button className="sim-clock__btn" onClick={stopScenario} type="button">
+            Stop
+          </button>
+        </>
+      ) : (
+        <>
+          <select
+            className="scenario-control__select"
+            value={selectedId}
+            onChange={(e) => setSelectedId(e.target.value)}
+          >
+            {available.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.title}
+              </option>
+            ))}
+          </select>
+          <button className="sim-clock__btn" onClick={handleStart} type="button">
+            Start
+          </button>
+          {error && <span className="scenario-control__error">{error}</span>}
+        </>
+      )}
+    </div>
+  );
+}
@@ -8,7 +8,7 @@
  */
 
 import { useCallback } from 'react';
-import { useClockStore } from '../../stores/clockStore';
+import { useClock } from '../../hooks/useClock';
 import type { PlaybackSpeed } from '../../stores/clockStore';
 
 // ---------------------------------------------------------------------------
@@ -52,17 +52,20 @@ function formatDate(d: Date): string {
  * - Reset to current time
  */
 export default function SimulationClock() {
-  const currentTime = useClockStore((s) => s.currentTime);
-  const isRunning = useClockStore((s) => s.isRunning);
-  const isPaused = useClockStore((s) => s.isPaused);
-  const playbackSpeed = useClockStore((s) => s.playbackSpeed);
-  const start = useClockStore((s) => s.start);
-  const pause = useClockStore((s) => s.pause);
-  const resume = useClockStore((s) => s.resume);
-  const setPlaybackSpeed = useClockStore((s) => s.setPlaybackSpeed);
-  const advanceMinutes = useClockStore((s) => s.advanceMinutes);
-  const advanceHours = useClockStore((s) => s.advanceHours);
-  const setTime = useClockStore((s) => s.setTime);
+  // useClock drives the auto-tick interval while the clock is running.
+  const {
+    currentTime,
+    isRunning,
+    isPaused,
+    playbackSpeed,
+    start,
+    pause,
+    resume,
+    setPlaybackSpeed,
+    advanceMinutes,
+    advanceHours,
+    setTime,
+  } = useClock();
 
   const ticking = isRunning && !isPaused;
 
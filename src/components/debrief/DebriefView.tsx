@@ -0,0 +1,304 @@
+/**
+ * @file DebriefView.tsx
+ * @description Post-simulation debrief report for the current patient.
+ *
+ * Shows the performance metrics and merged timeline built by
+ * {@link buildDebriefReport} from the patient's observations, the alerts
+ * they raise, and the learner actions recorded this session. The report
+ * window opens when the running scenario started (or at the first
+ * recorded action) and closes at the current simulation time.
+ *
+ * When the running scenario declares objectives, a competency checklist
+ * scored by {@link evaluateObjectives} is shown above the metrics.
+ *
+ * The report can be printed for the facilitator's records.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { usePatientStore } from '../../stores/patientStore';
+import { useClockStore } from '../../stores/clockStore';
+import { useAlertStore } from '../../stores/alertStore';
+import { useScenarioStore } from '../../stores/scenarioStore';
+import { useMeoStore, forPatient } from '../../stores/meoStore';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { getSessionActions, subscribeActions } from '../../services/actionLog';
+import { buildDebriefReport, type DebriefTimelineEntry } from '../../services/debrief';
+import { evaluateObjectives, type ObjectiveStatus } from '../../services/objectiveEvaluator';
+import { formatChartDateTime } from '../../services/scenarioEngine';
+import { getPatientChartVariant, getRiskColor } from '../../services/qaddsCalculator';
+import '../../styles/components/views.css';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Window used when no scenario has run and nothing has been recorded. */
+const DEFAULT_WINDOW_HOURS = 8;
+
+const KIND_LABELS: Record<DebriefTimelineEntry['kind'], string> = {
+  physiology: 'Obs',
+  alert: 'Alert',
+  action: 'Learner',
+};
+
+const STATUS_LABELS: Record<ObjectiveStatus, string> = {
+  pass: 'Pass',
+  late: 'Late',
+  fail: 'Fail',
+  pending: 'Pending',
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function formatIso(iso: string | null): string {
+  return iso ? formatChartDateTime(new Date(iso)) : '—';
+}
+
+function formatLatency(triggerAt: string | null, responseAt: string | null, minutes: number | null): string {
+  if (!triggerAt) return 'Not triggered';
+  if (!responseAt || minutes === null) return 'No response documented';
+  return `${minutes} min`;
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/**
+ * DebriefView renders the debrief report for the current patient and
+ * refreshes it as further actions are recorded.
+ */
+export default function DebriefView() {
+  const patient = usePatientStore((s) => s.currentPatient);
+  const now = useClockStore((s) => s.currentTime);
+  const alerts = useAlertStore((s) => (patient ? s.alerts[patient.mrn] : undefined));
+  const scenario = useScenarioStore((s) => s.scenario);
+  const scenarioStartedAt = useScenarioStore((s) => s.startedAt);
+  const metMeoOrders = useMeoStore((s) => forPatient(s.metMeoOrders, patient?.mrn));
+  const sedationAssessments = useMeoStore((s) => forPatient(s.sedationAssessments, patient?.mrn));
+  const scoringSystem = useSettingsStore((s) => s.scoringSystem);
+  const [actions, setActions] = useState(getSessionActions);
+  const printRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => subscribeActions(() => setActions(getSessionActions())), []);
+
+  const report = useMemo(() => {
+    if (!patient) return null;
+    const firstAction = actions.find((a) => a.patientMrn === patient.mrn);
+    const from = scenarioStartedAt
+      ? new Date(scenarioStartedAt)
+      : firstAction
+        ? new Date(firstAction.simTime)
+        : new Date(now.getTime() - DEFAULT_WINDOW_HOURS * 3_600_000);
+    const variant = getPatientChartVariant(patient, scoringSystem, now);
+    return buildDebriefReport({ patient, actions, alerts: alerts ?? [], from, to: now, variant });
+  }, [patient, actions, alerts, scenarioStartedAt, now, scoringSystem]);
+
+  const checklist = useMemo(() => {
+    if (!patient || !scenario?.objectives?.length || !scenarioStartedAt) return null;
+    if (scenario.patientMrn !== patient.mrn) return null;
+    return evaluateObjectives({
+      objectives: scenario.objectives,
+      patient,
+      actions,
+      metMeoOrders,
+      sedationAssessments,
+      startedAt: new Date(scenarioStartedAt),
+      now,
+      variant: getPatientChartVariant(patient, scoringSystem, now),
+    });
+  }, [
+    patient,
+    scenario,
+    scenarioStartedAt,
+    actions,
+    metMeoOrders,
+    sedationAssessments,
+    now,
+    scoringSystem,
+  ]);
+
+  const handlePrint = useCallback(() => {
+    if (!printRef.current) return;
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+    printWindow.document.write(`
+      <html><head><title>Simulation Debrief - ${patient?.name ?? 'Patient'}</title>
+      <style>
+        body { font-family: 'Segoe UI', Tahoma, sans-serif; padding: 20px; font-size: 12px; }
+        h2, h3 { margin: 0 0 6px 0; }
+        .debrief__meta { color: #666; font-size: 11px; margin-bottom: 12px; }
+        .debrief__metrics { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; margin-bottom: 16px; }
+        .debrief__metric { border: 1px solid #ccc; padding: 6px 8px; }
+        .debrief__metric-value { font-size: 16px; font-weight: 700; }
+        .debrief__metric-label, .debrief__metric-detail { font-size: 10px; color: #555; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { border: 1px solid #ccc; padding: 3px 6px; text-align: left; vertical-align: top; }
+        .debrief__section { margin-bottom: 16px; }
+        .debrief__status { font-weight: 700; }
+      </style></head><body>
+      ${printRef.current.innerHTML}
+      </body></html>
+    `);
+    printWindow.document.close();
+    printWindow.print();
+  }, [patient?.name]);
+
+  if (!patient || !report) {
+    return (
+      <div className="content-body text-muted" style={{ padding: 20 }}>
+        No patient selected
+      </div>
+    );
+  }
+
+  const { metrics } = report;
+
+  return (
+    <>
+      <div className="content-header">
+        <h2>Simulation Debrief</h2>
+        <button className="btn btn-primary btn-sm" onClick={handlePrint} type="button">
+          Print
+        </button>
+      </div>
+      <div className="content-body">
+        <div ref={printRef} className="debrief">
+          <div className="debrief__meta">
+            {patient.name} | MRN: {patient.mrn} | {formatIso(report.from)} to {formatIso(report.to)}
+          </div>
+
+          {/* Competency checklist */}
+          {checklist && (
+            <div className="debrief__section">
+              <h3>Competency Checklist — {scenario?.title}</h3>
+              <table className="data-table debrief__checklist">
+                <thead>
+                  <tr>
+                    <th>Objective</th>
+                    <th>Result</th>
+                    <th>Triggered</th>
+                    <th>Due by</th>
+                    <th>Done</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {checklist.map((result) => (
+                    <tr key={result.objective.id}>
+                      <td>{result.description}</td>
+                      <td>
+                        <span className={`debrief__status debrief__status--${result.status}`}>
+                          {STATUS_LABELS[result.status]}
+                        </span>
+                      </td>
+                      <td>{formatIso(result.triggeredAt)}</td>
+                      <td>{formatIso(result.dueAt)}</td>
+                      <td>{formatIso(result.completedAt)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Metrics */}
+          <div className="debrief__metrics">
+            <div className="debrief__metric">
+              <div className="debrief__metric-value">
+                {formatLatency(metrics.firstEwsTriggerAt, metrics.escalationAt, metrics.escalationMinutes)}
+              </div>
+              <div className="debrief__metric-label">Escalation criteria to documented escalation</div>
+              <div className="debrief__metric-detail">
+                Trigger {formatIso(metrics.firstEwsTriggerAt)} · Escalated {formatIso(metrics.escalationAt)}
+              </div>
+            </div>
+            <div className="debrief__metric">
+              <div className="debrief__metric-value">
+                {formatLatency(metrics.firstEZoneAt, metrics.metResponseAt, metrics.metResponseMinutes)}
+              </div>
+              <div className="debrief__metric-label">E-zone to MET call / MET-MEO</div>
+              <div className="debrief__metric-detail">
+                Trigger {formatIso(metrics.firstEZoneAt)} · Response {formatIso(metrics.metResponseAt)}
+              </div>
+            </div>
+            <div className="debrief__metric">
+              <div className="debrief__metric-value">{metrics.overdueDoses.length}</div>
+              <div className="debrief__metric-label">Overdue doses on the MAR</div>
+            </div>
+            <div className="debrief__metric">
+              <div className="debrief__metric-value">{metrics.unacknowledgedAlerts.length}</div>
+              <div className="debrief__metric-label">Unacknowledged alerts</div>
+            </div>
+          </div>
+
+          {/* Overdue doses */}
+          {metrics.overdueDoses.length > 0 && (
+            <div className="debrief__section">
+              <h3>Overdue Doses</h3>
+              <table className="data-table">
+                <thead>
+                  <tr>
+                    <th>Medication</th>
+                    <th>Scheduled</th>
+                    <th>Actioned</th>
+                    <th>Minutes late</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {metrics.overdueDoses.map((dose) => (
+                    <tr key={`${dose.medicationName}-${dose.scheduledAt}`}>
+                      <td>{dose.medicationName}</td>
+                      <td>{formatIso(dose.scheduledAt)}</td>
+                      <td>{dose.actionedAt ? formatIso(dose.actionedAt) : 'Not actioned'}</td>
+                      <td>{dose.minutesLate}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Timeline */}
+          <div className="debrief__section">
+            <h3>Timeline</h3>
+            {report.timeline.length > 0 ? (
+              <table className="data-table debrief__timeline">
+                <thead>
+                  <tr>
+                    <th>Sim time</th>
+                    <th>Source</th>
+                    <th>Event</th>
+                    <th>Detail</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.timeline.map((entry, i) => (
+                    <tr key={i} className={`debrief__row debrief__row--${entry.kind}`}>
+                      <td>{formatIso(entry.simTime)}</td>
+                      <td>
+                        {entry.risk && (
+                          <span
+                            className="debrief__risk"
+                            style={{ backgroundColor: getRiskColor(entry.risk) }}
+                            title={entry.risk}
+                          />
+                        )}
+                        {KIND_LABELS[entry.kind]}
+                      </td>
+                      <td>{entry.title}</td>
+                      <td>{entry.detail ?? ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div className="text-muted">Nothing recorded in this window</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -7,18 +7,23 @@
  *   - Title coloured by risk level
  *   - Bold instruction to navigate to Managing Deterioration graph page
  *   - Two-column table: Clinical status | Required actions
- *     - Deteriorating row with 3 deterioration criteria
+ *     - Deteriorating row with the deterioration criteria, or those the
+ *       observation trend met
  *     - Stable row
- *   - Optional SEPSIS screening prompt in bold red
+ *   - Review deadline, for tiers that call for a review within a set time
+ *   - Optional SEPSIS screening prompt in bold red, with a link to the
+ *     structured sepsis screen
  *   - Acknowledge button
  */
 
-import type { AlertData } from '@/services/alertEngine'
+import { getEscalationStep, type AlertData } from '@/services/alertEngine'
 import { getRiskColor } from '@/services/qaddsCalculator'
 
 interface AlertDialogProps {
   alert: AlertData
   onDismiss: () => void
+  /** Acknowledge the alert and open the structured sepsis screen */
+  onOpenSepsisScreen?: () => void
 }
 
 const FONT_FAMILY = "'Segoe UI', Tahoma, Geneva, Verdana, sans-serif"
@@ -32,12 +37,14 @@ const HEADER_TEXT_COLORS: Record<string, string> = {
   Emergency: '#4a1a6b',
 }
 
-export function AlertDialog({ alert, onDismiss }: AlertDialogProps) {
+export function AlertDialog({ alert, onDismiss, onOpenSepsisScreen }: AlertDialogProps) {
   const headerBg = getRiskColor(alert.risk)
   const headerTextColor = HEADER_TEXT_COLORS[alert.risk] ?? '#333333'
 
   // Split multi-line messages (e.g. EW Score 4-5 has an additional instruction)
   const messageLines = alert.message.split('\n').filter((line) => line.trim() !== '')
+  const step = getEscalationStep(alert.ewsRange)
+  const deadline = alert.responseDeadline ? new Date(alert.responseDeadline) : null
 
   return (
     <div
@@ -135,6 +142,23 @@ export function AlertDialog({ alert, onDismiss }: AlertDialogProps) {
             </div>
           )}
 
+          {/* Review deadline on the simulation clock */}
+          {step && deadline && (
+            <div
+              style={{
+                marginBottom: '10px',
+                fontSize: '11px',
+                color: '#333333',
+                fontFamily: FONT_FAMILY,
+              }}
+            >
+              <span style={{ fontWeight: 600 }}>{step.reviewer} review required by: </span>
+              {String(deadline.getHours()).padStart(2, '0')}:{String(deadline.getMinutes()).padStart(2, '0')}
+              {' '}(document it under Alert Review on the Managing Deterioration page, or the alert
+              escalates)
+            </div>
+          )}
+
           {/* Two-column clinical status / required actions table */}
           <table
             style={{
@@ -261,6 +285,26 @@ export function AlertDialog({ alert, onDismiss }: AlertDialogProps) {
               }}
             >
               Could it be SEPSIS? If yes: follow Queensland Sepsis Care Pathway
+              {onOpenSepsisScreen && (
+                <button
+                  type="button"
+                  onClick={onOpenSepsisScreen}
+                  style={{
+                    display: 'block',
+                    background: 'none',
+                    border: 'none',
+                    cursor: 'pointer',
+                    padding: 0,
+                    marginTop: '4px',
+                    fontFamily: FONT_FAMILY,
+                    fontSize: '11px',
+                    color: '#0066b2',
+                    textDecoration: 'underline',
+                  }}
+                >
+                  Start adult sepsis screen
+                </button>
+              )}
             </div>
           )}
         </div>
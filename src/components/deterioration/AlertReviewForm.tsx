@@ -0,0 +1,213 @@
+/**
+ * Alert Review Form — documents the medical review a Discern alert called
+ * for, stopping its escalation timer.
+ *
+ * Opened from the Alert Review section. Records who reviewed the patient,
+ * their level (RMO, Registrar or MET team; defaults to the level the alert
+ * requires) and optional notes, stamped with the simulation time.
+ */
+
+import { useState } from 'react'
+import { getEscalationStep, type AlertData, type AlertReview } from '@/services/alertEngine'
+import type { EscalationTier } from '@/types/actionLog'
+
+interface AlertReviewFormProps {
+  /** The alert being reviewed */
+  alert: AlertData
+  /** Current simulation time, stamped on the review */
+  now: Date
+  onClose: () => void
+  onSubmit: (review: AlertReview) => void
+}
+
+const FONT_FAMILY = "'Segoe UI', Tahoma, Geneva, Verdana, sans-serif"
+
+const TIERS: Array<{ value: EscalationTier; label: string }> = [
+  { value: 'RMO', label: 'RMO' },
+  { value: 'Registrar', label: 'Registrar' },
+  { value: 'MET', label: 'MET team' },
+]
+
+const inputStyle: React.CSSProperties = {
+  fontFamily: FONT_FAMILY,
+  fontSize: '11px',
+  padding: '4px 6px',
+  border: '1px solid var(--cerner-border, #ccc)',
+  borderRadius: '3px',
+  boxSizing: 'border-box' as const,
+  backgroundColor: '#fffde7',
+}
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  fontWeight: 700,
+  fontSize: '11px',
+  color: '#333333',
+  marginBottom: '4px',
+}
+
+export function AlertReviewForm({ alert, now, onClose, onSubmit }: AlertReviewFormProps) {
+  const required = getEscalationStep(alert.ewsRange)?.reviewer ?? 'RMO'
+  const [reviewedBy, setReviewedBy] = useState('')
+  const [tier, setTier] = useState<EscalationTier>(required)
+  const [notes, setNotes] = useState('')
+
+  const allValid = reviewedBy.trim().length > 0
+
+  function handleSubmit() {
+    if (!allValid) return
+
+    onSubmit({
+      reviewedBy: reviewedBy.trim(),
+      tier,
+      reviewedAt: now.toISOString(),
+      notes: notes.trim() || null,
+    })
+  }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 9999,
+        fontFamily: FONT_FAMILY,
+        fontSize: '11px',
+      }}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="alert-review-title"
+    >
+      <div
+        style={{
+          backgroundColor: '#ffffff',
+          borderRadius: '4px',
+          boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)',
+          width: '440px',
+          maxWidth: '95vw',
+          overflow: 'hidden',
+          display: 'flex',
+          flexDirection: 'column',
+        }}
+      >
+        {/* ── Header ── */}
+        <div style={{ padding: '14px 20px', borderBottom: '1px solid var(--cerner-border, #ccc)' }}>
+          <h2
+            id="alert-review-title"
+            style={{
+              margin: 0,
+              fontSize: '14px',
+              fontWeight: 700,
+              color: 'var(--cerner-dark-blue, #004578)',
+              fontFamily: FONT_FAMILY,
+            }}
+          >
+            Document review — {alert.title}
+          </h2>
+        </div>
+
+        {/* ── Body ── */}
+        <div style={{ padding: '16px 20px' }}>
+          <div style={{ color: '#666666', marginBottom: '12px', lineHeight: '16px' }}>
+            {required} review required. Documenting the review stops the escalation timer.
+          </div>
+
+          <label htmlFor="alert-reviewed-by" style={labelStyle}>
+            Reviewed by:
+          </label>
+          <input
+            id="alert-reviewed-by"
+            type="text"
+            value={reviewedBy}
+            onChange={(e) => setReviewedBy(e.target.value)}
+            style={{ ...inputStyle, width: '100%', marginBottom: '12px' }}
+          />
+
+          <label htmlFor="alert-review-tier" style={labelStyle}>
+            Level:
+          </label>
+          <select
+            id="alert-review-tier"
+            value={tier}
+            onChange={(e) => setTier(e.target.value as EscalationTier)}
+            style={{ ...inputStyle, width: '100%', marginBottom: '12px' }}
+          >
+            {TIERS.map((t) => (
+              <option key={t.value} value={t.value}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+
+          <label htmlFor="alert-review-notes" style={labelStyle}>
+            Notes:
+          </label>
+          <textarea
+            id="alert-review-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+            style={{ ...inputStyle, width: '100%', resize: 'vertical' }}
+          />
+        </div>
+
+        {/* ── Footer ── */}
+        <div
+          style={{
+            padding: '10px 20px',
+            borderTop: '1px solid var(--cerner-border, #ccc)',
+            display: 'flex',
+            justifyContent: 'flex-end',
+            gap: '8px',
+            backgroundColor: '#f5f5f5',
+          }}
+        >
+          <button
+            type="button"
+            onClick={onClose}
+            style={{
+              padding: '6px 20px',
+              fontSize: '11px',
+              fontFamily: FONT_FAMILY,
+              fontWeight: 600,
+              color: '#333333',
+              backgroundColor: '#e0e0e0',
+              border: '1px solid var(--cerner-border, #ccc)',
+              borderRadius: '3px',
+              cursor: 'pointer',
+              lineHeight: '18px',
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={!allValid}
+            style={{
+              padding: '6px 20px',
+              fontSize: '11px',
+              fontFamily: FONT_FAMILY,
+              fontWeight: 600,
+              color: '#ffffff',
+              backgroundColor: allValid ? 'var(--cerner-dark-blue, #004578)' : '#a0b4c8',
+              border: allValid ? '1px solid #003460' : '1px solid #8899aa',
+              borderRadius: '3px',
+              cursor: allValid ? 'pointer' : 'not-allowed',
+              lineHeight: '18px',
+            }}
+          >
+            Sign Review
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
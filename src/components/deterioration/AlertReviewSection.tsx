@@ -0,0 +1,156 @@
+/**
+ * Alert Review Section — response deadlines for the patient's Discern
+ * alerts on the Managing Deterioration page.
+ *
+ * Shows a collapsible section listing each alert whose tier calls for a
+ * medical review within a set time, newest first, with:
+ *   - The reviewer required and the deadline, counting down on the
+ *     simulation clock
+ *   - The documented review (who, level, when), or the alert it escalated
+ *     to when the deadline passed without one
+ *   - A hyperlink to document the review while the deadline is open
+ */
+
+import { useState } from 'react'
+import { getEscalationStep, isAwaitingReview, type AlertData } from '@/services/alertEngine'
+
+interface AlertReviewSectionProps {
+  /** The patient's alerts, oldest first */
+  alerts: AlertData[]
+  /** Current simulation time */
+  now: Date
+  onDocumentReview: (alert: AlertData) => void
+}
+
+const FONT_FAMILY = "'Segoe UI', Tahoma, Geneva, Verdana, sans-serif"
+
+const cellStyle: React.CSSProperties = {
+  border: '1px solid #ccc',
+  padding: '4px 10px',
+  color: '#333333',
+  whiteSpace: 'nowrap',
+}
+
+const linkStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  cursor: 'pointer',
+  padding: 0,
+  fontFamily: FONT_FAMILY,
+  fontSize: '11px',
+  color: '#0066b2',
+  textDecoration: 'underline',
+  textAlign: 'left',
+  lineHeight: '16px',
+}
+
+/** Formats an ISO datetime as "HH:mm" */
+function formatTime(iso: string): string {
+  const date = new Date(iso)
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+}
+
+/** Status text and colour for one alert's review */
+function reviewStatus(
+  alert: AlertData,
+  byId: Map<string, AlertData>,
+  now: Date,
+): { text: string; color: string } {
+  if (alert.review) {
+    const late = alert.responseDeadline !== null && alert.review.reviewedAt > alert.responseDeadline
+    return {
+      text: `Reviewed ${formatTime(alert.review.reviewedAt)} by ${alert.review.reviewedBy} (${alert.review.tier})${late ? ' — late' : ''}`,
+      color: late ? '#b45309' : '#2e7d32',
+    }
+  }
+  if (alert.escalatedTo) {
+    return {
+      text: `No review — escalated to ${byId.get(alert.escalatedTo)?.title ?? 'next tier'}`,
+      color: '#dc3545',
+    }
+  }
+  const minutes = Math.floor((new Date(alert.responseDeadline as string).getTime() - now.getTime()) / 60_000)
+  if (minutes < 0) return { text: `Review overdue by ${-minutes} min`, color: '#dc3545' }
+  return { text: `Awaiting review — ${minutes} min remaining`, color: minutes <= 10 ? '#dc3545' : '#333333' }
+}
+
+export function AlertReviewSection({ alerts, now, onDocumentReview }: AlertReviewSectionProps) {
+  const [collapsed, setCollapsed] = useState(false)
+  const byId = new Map(alerts.map((a) => [a.id, a]))
+  const timed = alerts.filter((a) => a.responseDeadline !== null).reverse()
+
+  return (
+    <div
+      style={{
+        borderBottom: '1px solid #ddd',
+        fontFamily: FONT_FAMILY,
+        fontSize: '11px',
+        marginBottom: '12px',
+      }}
+    >
+      {/* Header row with toggle */}
+      <div style={{ display: 'flex', alignItems: 'flex-start', gap: '6px', padding: '8px 0' }}>
+        <button
+          type="button"
+          onClick={() => setCollapsed(!collapsed)}
+          style={{
+            background: 'none',
+            border: 'none',
+            cursor: 'pointer',
+            padding: 0,
+            fontFamily: FONT_FAMILY,
+            fontSize: '11px',
+            fontWeight: 700,
+            color: 'var(--cerner-dark-blue, #004578)',
+            lineHeight: '16px',
+            flexShrink: 0,
+          }}
+          aria-expanded={!collapsed}
+          aria-label={collapsed ? 'Expand Alert Review section' : 'Collapse Alert Review section'}
+        >
+          {collapsed ? '\u25B6' : '\u25BC'} Alert Review
+        </button>
+      </div>
+
+      {!collapsed && (
+        <div style={{ padding: '0 0 10px 18px' }}>
+          {timed.length === 0 ? (
+            <div style={{ color: '#666666' }}>No alerts awaiting a medical review.</div>
+          ) : (
+            <table style={{ borderCollapse: 'collapse', fontSize: '11px', fontFamily: FONT_FAMILY }}>
+              <thead>
+                <tr>
+                  {['Alert', 'Review by', 'Due', 'Status', ''].map((heading, i) => (
+                    <th key={i} style={{ ...cellStyle, textAlign: 'left', fontWeight: 700 }}>
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {timed.map((alert) => {
+                  const status = reviewStatus(alert, byId, now)
+                  return (
+                    <tr key={alert.id}>
+                      <td style={{ ...cellStyle, fontWeight: 600 }}>{alert.title}</td>
+                      <td style={cellStyle}>{getEscalationStep(alert.ewsRange)?.reviewer ?? ''}</td>
+                      <td style={cellStyle}>{formatTime(alert.responseDeadline as string)}</td>
+                      <td style={{ ...cellStyle, color: status.color }}>{status.text}</td>
+                      <td style={cellStyle}>
+                        {isAwaitingReview(alert) && (
+                          <button type="button" onClick={() => onDocumentReview(alert)} style={linkStyle}>
+                            Document review
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -10,15 +10,50 @@
  * Track B integration adds MEO Plan management (MeoPlanSection, MeoPlanDialog,
  * MetMeoPlanOrderForm, ModifiedObsFrequencyForm), sedation scoring, Q-ADDS
  * score card, and the Discern Alert system.
+ *
+ * On adult charts that carry sepsis screening, the Sepsis Pathway section
+ * scores the screening criteria, opens the structured screen and tracks
+ * the one-hour bundle against the simulation clock.
+ *
+ * The Alert Review section counts down each alert's response deadline and
+ * documents the review it calls for; unreviewed alerts escalate on their
+ * own (see useEscalationTimers).
+ *
+ * Alerts are raised for every patient by the app-level alert watcher (see
+ * useAlertWatcher), against their active MET-MEO and MOF orders and the
+ * latest nursing assessment signed in the MEO Plan dialog; this view only
+ * displays them.
+ *
+ * Everything on the page scores on the patient's chart form, which is
+ * chosen from the header and stored on the patient record. The forms
+ * offered follow the site's scoring system (Q-ADDS or NEWS2). Children are
+ * scored on the CEWT chart for their age band instead, shown read-only.
  */
 
-import { useEffect, useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { usePatientStore } from '../../stores/patientStore';
-import { useMeoStore } from '../../stores/meoStore';
+import { useMeoStore, forPatient } from '../../stores/meoStore';
+import { useClockStore } from '../../stores/clockStore';
 import { useAlertStore } from '../../stores/alertStore';
-import { calculateQADDS } from '../../services/newsCalculator';
-import { evaluateAlerts } from '../../services/alertEngine';
-import type { QADDSResult } from '../../types';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { useSepsisStore } from '../../stores/sepsisStore';
+import {
+  CHART_FORMS,
+  calculateQadds,
+  getChartForm,
+  getParameterLabel,
+  getPatientChartVariant,
+} from '../../services/qaddsCalculator';
+import type { AlertData } from '../../services/alertEngine';
+import { detectTrends } from '../../services/observationTrends';
+import {
+  evaluateSepsisBundle,
+  getLatestLactate,
+  getSepsisCriteria,
+} from '../../services/sepsisPathway';
+import { getSessionActions, subscribeActions } from '../../services/actionLog';
+import { recordAction } from '../../hooks/useActionLog';
+import type { ChartFormCode, QaddsScore } from '../../types';
 import NewsScoreCard from './NewsScoreCard';
 import VitalSignsFlowsheet from './VitalSignsFlowsheet';
 import EscalationProtocol from './EscalationProtocol';
@@ -29,9 +64,11 @@ import { MeoPlanDialog } from './MeoPlanDialog';
 import { MetMeoPlanOrderForm } from './MetMeoPlanOrderForm';
 import { ModifiedObsFrequencyForm } from './ModifiedObsFrequencyForm';
 import { SedationScore } from './SedationScore';
-import { AlertDialog } from './AlertDialog';
+import { SepsisPathwaySection } from './SepsisPathwaySection';
+import { SepsisScreenForm } from './SepsisScreenForm';
+import { AlertReviewSection } from './AlertReviewSection';
+import { AlertReviewForm } from './AlertReviewForm';
 import METCallBanner from '../met-meo/METCallBanner';
-import METMEOPanel from '../met-meo/METMEOPanel';
 import '../../styles/components/views.css';
 
 // ---------------------------------------------------------------------------
@@ -47,29 +84,37 @@ import '../../styles/components/views.css';
  * 1. {@link METCallBanner} — MET call alert banner
  * 2. {@link NewsScoreCard} — aggregate score with risk badge
  * 3. {@link EscalationProtocol} — recommended clinical response
- * 4. {@link METMEOPanel} — MET-MEO Plan panel (conditional)
- * 5. {@link VitalSignsFlowsheet} — colour-coded flowsheet grid
- * 6. {@link ScoreTrendGraph} — score trend over time
+ * 4. {@link VitalSignsFlowsheet} — colour-coded flowsheet grid
+ * 5. {@link ScoreTrendGraph} — score trend over time
  *
  * Track B (integrated):
- * 7. {@link QaddsScoreCard} — Q-ADDS score card alongside NewsScoreCard
- * 8. {@link MeoPlanSection} — MEO Plan status section
- * 9. {@link SedationScore} — sedation score reference and assessments
- * 10. {@link MeoPlanDialog} — modal for MEO Plan management
- * 11. {@link MetMeoPlanOrderForm} — modal for MET-MEO Plan ordering
- * 12. {@link ModifiedObsFrequencyForm} — modal for modified obs frequency ordering
- * 13. {@link AlertDialog} — Discern Alert modal
+ * 6. {@link QaddsScoreCard} — Q-ADDS score card alongside NewsScoreCard
+ * 7. {@link MeoPlanSection} — MEO Plan status section; MET-MEO plans are
+ *    ordered, shown and cancelled only through it and the MEO store
+ * 8. {@link SedationScore} — sedation score reference and assessments
+ * 9. {@link MeoPlanDialog} — modal for MEO Plan management
+ * 10. {@link MetMeoPlanOrderForm} — modal for MET-MEO Plan ordering
+ * 11. {@link ModifiedObsFrequencyForm} — modal for modified obs frequency ordering
+ * 12. {@link SepsisPathwaySection} — sepsis screening criteria and bundle tracker
+ * 13. {@link SepsisScreenForm} — modal for the structured sepsis screen
+ * 14. {@link AlertReviewSection} — alert response deadlines and reviews
+ * 15. {@link AlertReviewForm} — modal for documenting an alert review
  */
 export default function DeteriorationView() {
   const patient = usePatientStore((s) => s.currentPatient);
+  const updatePatient = usePatientStore((s) => s.updatePatient);
+  const mrn = patient?.mrn;
+  const scoringSystem = useSettingsStore((s) => s.scoringSystem);
+  const now = useClockStore((s) => s.currentTime);
+  const chartVariant = patient ? getPatientChartVariant(patient, scoringSystem, now) : undefined;
+  const chartForm = getChartForm(chartVariant);
 
   // ---------------------------------------------------------------------------
   // Alert store selectors
   // ---------------------------------------------------------------------------
-  const addAlerts = useAlertStore((s) => s.addAlerts);
-  const setActiveAlert = useAlertStore((s) => s.setActiveAlert);
-  const activeAlert = useAlertStore((s) => s.activeAlert);
-  const acknowledgeAlert = useAlertStore((s) => s.acknowledgeAlert);
+  const patientAlerts = useAlertStore((s) => forPatient(s.alerts, mrn));
+  const documentReview = useAlertStore((s) => s.documentReview);
+  const [reviewing, setReviewing] = useState<AlertData | null>(null);
 
   // ---------------------------------------------------------------------------
   // MEO store selectors
@@ -89,29 +134,46 @@ export default function DeteriorationView() {
   const cancelMetMeoOrder = useMeoStore((s) => s.cancelMetMeoOrder);
   const addMofOrder = useMeoStore((s) => s.addMofOrder);
   const cancelMofOrder = useMeoStore((s) => s.cancelMofOrder);
-  const sedationAssessments = useMeoStore((s) => s.sedationAssessments);
-
-  /** Q-ADDS result from the most recent vital sign set. */
-  const latestResult: QADDSResult | null = useMemo(() => {
-    if (!patient?.vitals?.length) return null;
-    return calculateQADDS(patient.vitals[0]);
-  }, [patient?.vitals]);
+  const sedationAssessments = useMeoStore((s) => forPatient(s.sedationAssessments, mrn));
+  const addNursingAssessment = useMeoStore((s) => s.addNursingAssessment);
+  const addSedationAssessment = useMeoStore((s) => s.addSedationAssessment);
 
   // ---------------------------------------------------------------------------
-  // Alert evaluation — runs when patient vitals change
+  // Sepsis pathway
   // ---------------------------------------------------------------------------
-  useEffect(() => {
-    if (!patient?.vitals?.length) return;
-    const alerts = evaluateAlerts(patient.vitals[0]);
-    if (alerts.length > 0) {
-      addAlerts(alerts);
-      // Show the first unacknowledged alert
-      const firstUnacked = alerts.find((a) => !a.acknowledged);
-      if (firstUnacked && !activeAlert) {
-        setActiveAlert(firstUnacked);
-      }
-    }
-  }, [patient?.vitals]); // eslint-disable-line react-hooks/exhaustive-deps
+  const sepsisScreens = useSepsisStore((s) => forPatient(s.screens, mrn));
+  const sepsisBundles = useSepsisStore((s) => forPatient(s.bundles, mrn));
+  const showSepsisScreen = useSepsisStore((s) => s.showScreenForm);
+  const openSepsisScreen = useSepsisStore((s) => s.openScreenForm);
+  const closeSepsisScreen = useSepsisStore((s) => s.closeScreenForm);
+  const addSepsisScreen = useSepsisStore((s) => s.addScreen);
+  const [actions, setActions] = useState(getSessionActions);
+
+  useEffect(() => subscribeActions(() => setActions(getSessionActions())), []);
+
+  const latestVitals = patient?.vitals?.[0];
+  const lactate = getLatestLactate(patient?.results);
+  const sepsisCriteria = useMemo(
+    () => (latestVitals ? getSepsisCriteria(latestVitals, lactate) : []),
+    [latestVitals, lactate],
+  );
+  const sepsisBundle = sepsisBundles.at(-1);
+  const bundleProgress = useMemo(
+    () => (patient && sepsisBundle ? evaluateSepsisBundle({ bundle: sepsisBundle, patient, actions, now }) : null),
+    [patient, sepsisBundle, actions, now],
+  );
+
+  /** Q-ADDS score from the most recent vital sign set. */
+  const vitals = patient?.vitals;
+  const latestResult: QaddsScore | null = useMemo(() => {
+    if (!vitals?.length) return null;
+    return calculateQadds(vitals[0], chartVariant);
+  }, [vitals, chartVariant]);
+  const hasEZone = (latestResult?.emergencyParameters.length ?? 0) > 0;
+  const eZoneParameters = useMemo(
+    () => latestResult?.emergencyParameters.map(getParameterLabel) ?? [],
+    [latestResult],
+  );
 
   if (!patient) {
     return (
@@ -123,57 +185,102 @@ export default function DeteriorationView() {
 
   return (
     <>
-      <div className="content-header">Managing Deterioration</div>
+      <div className="content-header">
+        Managing Deterioration
+        {chartForm.paediatric ? (
+          <span className="chart-form-select">Chart: {chartForm.label}</span>
+        ) : (
+          <label className="chart-form-select">
+            Chart:
+            <select
+              className="form-control"
+              value={chartForm.code}
+              onChange={(e) =>
+                updatePatient(patient.mrn, { chartVariant: e.target.value as ChartFormCode })
+              }
+            >
+              {Object.values(CHART_FORMS)
+                .filter((form) => form.system === scoringSystem && !form.paediatric)
+                .map((form) => (
+                  <option key={form.code} value={form.code}>
+                    {form.label}
+                  </option>
+                ))}
+            </select>
+          </label>
+        )}
+      </div>
       <div className="content-body">
         {latestResult ? (
           <>
-            {/* MET Call Banner — shown when EWS >= 8 or E-zone */}
+            {/* MET Call Banner — shown at the chart's emergency score or E-zone */}
             <METCallBanner
               ewsScore={latestResult.totalScore}
-              hasEZone={latestResult.hasEZone}
-              eZoneParameters={latestResult.eZoneParameters}
+              emergencyScore={chartForm.emergencyScore}
+              hasEZone={hasEZone}
+              eZoneParameters={eZoneParameters}
             />
 
             {/* Score card + Q-ADDS card + escalation side-by-side on wide screens */}
             <div className="deterioration-top-row">
-              <QaddsScoreCard vitals={patient.vitals[0]} />
+              <QaddsScoreCard vitals={patient.vitals[0]} variant={chartVariant} />
               <NewsScoreCard result={latestResult} />
               <EscalationProtocol
                 score={latestResult.totalScore}
-                clinicalRisk={latestResult.riskLevel}
+                clinicalRisk={latestResult.clinicalRisk}
+                paediatric={chartForm.paediatric}
+                system={chartForm.system}
+                onDocumentEscalation={(tier) =>
+                  recordAction('escalation/documented', { tier, score: latestResult.totalScore })
+                }
               />
             </div>
 
-            {/* MET-MEO Plan panel — below escalation protocol (threshold lowered to >= 4) */}
-            {(latestResult.hasEZone || latestResult.totalScore >= 4) && (
-              <METMEOPanel
-                patientId={patient.mrn}
-                ewsScore={latestResult.totalScore}
-                hasEZone={latestResult.hasEZone}
-                eZoneParameters={latestResult.eZoneParameters}
-              />
-            )}
-
             {/* Colour-coded vital signs flowsheet */}
             <div className="vitals-chart mb-10">
               <div className="chart-header">Vital Signs Flowsheet</div>
-              <VitalSignsFlowsheet vitals={patient.vitals} />
+              <VitalSignsFlowsheet vitals={patient.vitals} variant={chartVariant} />
             </div>
 
             {/* Score trend graph */}
             <div className="vitals-chart mb-10">
               <div className="chart-header">Score Trend</div>
-              <ScoreTrendGraph vitals={patient.vitals} />
+              <ScoreTrendGraph vitals={patient.vitals} variant={chartVariant} />
             </div>
 
             {/* MEO Plan Section — Track B */}
             <MeoPlanSection
-              activeMetMeo={getActiveMetMeo()}
+              activeMetMeo={getActiveMetMeo(patient.mrn, now)}
               onOpenDialog={openMeoDialog}
             />
 
+            {/* Sepsis Pathway — adult charts with sepsis screening */}
+            {chartForm.sepsisScreening && (
+              <SepsisPathwaySection
+                criteria={sepsisCriteria}
+                lastScreen={sepsisScreens.at(-1) ?? null}
+                bundleProgress={bundleProgress}
+                onOpenScreen={openSepsisScreen}
+              />
+            )}
+
+            {/* Alert Review — response deadlines and escalation */}
+            <AlertReviewSection alerts={patientAlerts} now={now} onDocumentReview={setReviewing} />
+
             {/* Sedation Score — Track B */}
-            <SedationScore assessments={sedationAssessments} />
+            <SedationScore
+              assessments={sedationAssessments}
+              onAdd={(score, comments) => {
+                addSedationAssessment({
+                  assessmentId: crypto.randomUUID(),
+                  patientMrn: patient.mrn,
+                  assessmentTime: useClockStore.getState().currentTime.toISOString(),
+                  score,
+                  comments,
+                });
+                recordAction('sedation/assessed', { score });
+              }}
+            />
           </>
         ) : (
           <div className="text-muted" style={{ padding: 20, textAlign: 'center' }}>
@@ -193,50 +300,112 @@ export default function DeteriorationView() {
           onOpenMetMeoForm={openMetMeoForm}
           onOpenMofForm={openMofForm}
           onCancelMetMeo={() => {
-            const active = getActiveMetMeo();
-            if (active) cancelMetMeoOrder(active.orderId);
+            const active = getActiveMetMeo(patient.mrn, now);
+            if (!active) return;
+            cancelMetMeoOrder(patient.mrn, active.orderId);
+            recordAction('meo/cancelled', { orderId: active.orderId, orderType: active.orderType });
           }}
           onCancelMof={() => {
-            const active = getActiveMof();
-            if (active) cancelMofOrder(active.orderId);
+            const active = getActiveMof(patient.mrn);
+            if (!active) return;
+            cancelMofOrder(patient.mrn, active.orderId);
+            recordAction('meo/cancelled', { orderId: active.orderId, orderType: active.orderType });
+          }}
+          onSignAssessment={(status, comments) => {
+            const trendIds = detectTrends(patient.vitals, chartVariant).map((t) => t.id);
+            const metMeoOrderId = getActiveMetMeo(patient.mrn, now)?.orderId ?? null;
+            addNursingAssessment({
+              assessmentId: crypto.randomUUID(),
+              patientMrn: patient.mrn,
+              metMeoOrderId,
+              assessmentTime: useClockStore.getState().currentTime.toISOString(),
+              patientStatus: status,
+              observationComments: comments,
+              criterionConcernWorse: patient.vitals[0]?.nurseConcern === true,
+              criterionNewVitalSigns:
+                trendIds.includes('new-parameter') || trendIds.includes('worse-parameter'),
+              criterionScoreHigher: trendIds.includes('score-higher'),
+            });
+            recordAction('meo/assessed', { metMeoOrderId, status });
           }}
-          hasActiveMetMeo={!!getActiveMetMeo()}
-          hasActiveMof={!!getActiveMof()}
+          hasActiveMetMeo={!!getActiveMetMeo(patient.mrn, now)}
+          hasActiveMof={!!getActiveMof(patient.mrn)}
         />
       )}
 
       {/* MET-MEO Plan Order Form */}
       {showMetMeoForm && (
         <MetMeoPlanOrderForm
+          patientMrn={patient.mrn}
           onClose={closeMetMeoForm}
           onSubmit={(order) => {
             addMetMeoOrder(order);
+            recordAction('meo/ordered', {
+              orderId: order.orderId,
+              orderType: order.orderType,
+              summary: `MET-MEO plan (${order.triggerType}) for ${order.durationHours}h`,
+            });
             closeMetMeoForm();
           }}
-          chartVariant="standard"
+          chartVariant={chartVariant}
         />
       )}
 
       {/* Modified Observation Frequency Order Form */}
       {showMofForm && (
         <ModifiedObsFrequencyForm
+          patientMrn={patient.mrn}
           onClose={closeMofForm}
           onSubmit={(order) => {
             addMofOrder(order);
+            recordAction('meo/ordered', {
+              orderId: order.orderId,
+              orderType: order.orderType,
+              summary: `Obs every ${order.frequencyHours}h (${order.optionSelected})`,
+            });
             closeMofForm();
           }}
         />
       )}
 
-      {/* Discern Alert Dialog */}
-      {activeAlert && (
-        <AlertDialog
-          alert={activeAlert}
-          onDismiss={() => {
-            if (activeAlert) {
-              acknowledgeAlert(activeAlert.id);
-              setActiveAlert(null);
-            }
+      {/* Structured Sepsis Screen */}
+      {showSepsisScreen && patient.vitals.length > 0 && (
+        <SepsisScreenForm
+          patientMrn={patient.mrn}
+          vitals={patient.vitals[0]}
+          lactate={lactate}
+          now={now}
+          onClose={closeSepsisScreen}
+          onSubmit={(screen) => {
+            addSepsisScreen(screen);
+            recordAction('sepsis/screened', {
+              screenId: screen.screenId,
+              positive: screen.positive,
+              infectionSource: screen.infectionSource,
+              redFlags: screen.redFlags,
+            });
+            closeSepsisScreen();
+          }}
+        />
+      )}
+
+      {/* Alert Review Form */}
+      {reviewing && (
+        <AlertReviewForm
+          alert={reviewing}
+          now={now}
+          onClose={() => setReviewing(null)}
+          onSubmit={(review) => {
+            documentReview(patient.mrn, reviewing.id, review);
+            recordAction('alert/reviewed', {
+              alertId: reviewing.id,
+              title: reviewing.title,
+              ewsRange: reviewing.ewsRange,
+              reviewedBy: review.reviewedBy,
+              tier: review.tier,
+              late: reviewing.responseDeadline !== null && review.reviewedAt > reviewing.responseDeadline,
+            });
+            setReviewing(null);
           }}
         />
       )}
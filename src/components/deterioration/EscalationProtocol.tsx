@@ -4,14 +4,23 @@
  *
  * Shows a set of escalation cards coloured by severity, each describing the
  * recommended monitoring frequency and escalation actions (Q-ADDS 5-tier):
- * - Normal (0):     Routine 8-hourly observations
- * - Low (1–3):      Increased observation, 4-hourly / 1-hourly
- * - Moderate (4–5): RMO review within 30 minutes
- * - High (6–7):     Registrar review within 30 minutes
- * - MET (>=8 or E): MET call — emergency response
+ * - Routine (0):     Routine 8-hourly observations
+ * - Low (1–3):        Increased observation, 4-hourly / 1-hourly
+ * - Moderate (4–5):   RMO review within 30 minutes
+ * - High (6–7):       Registrar review within 30 minutes
+ * - Emergency (>=8 or E): MET call — emergency response
+ *
+ * The active card for the Moderate, High, and MET tiers offers a button to
+ * document that the escalation was made; the time is shown once recorded.
+ *
+ * Children on a CEWT chart see the paediatric version of each card, which
+ * escalates to the paediatric team and includes parent or carer concern.
+ * Sites on NEWS2 see the RCP NEWS2 clinical response for each band.
  */
 
-import type { ClinicalRisk } from '../../types';
+import { useState } from 'react';
+import { useClockStore } from '../../stores/clockStore';
+import type { ClinicalRisk, EscalationTier, ScoringSystem } from '../../types';
 import '../../styles/components/views.css';
 
 // ---------------------------------------------------------------------------
@@ -24,6 +33,12 @@ export interface EscalationProtocolProps {
   score: number;
   /** The derived clinical risk level. */
   clinicalRisk: ClinicalRisk;
+  /** Show the paediatric (CEWT) escalation cards. */
+  paediatric?: boolean;
+  /** Scoring system whose response to show (default Q-ADDS). */
+  system?: ScoringSystem;
+  /** Called when the learner documents an escalation from the active card. */
+  onDocumentEscalation?: (tier: EscalationTier) => void;
 }
 
 // ---------------------------------------------------------------------------
@@ -39,11 +54,13 @@ interface EscalationCard {
   title: string;
   frequency: string;
   actions: string[];
+  /** Escalation the learner can document from this card, if any. */
+  escalation?: { tier: EscalationTier; label: string };
 }
 
 const ESCALATION_CARDS: EscalationCard[] = [
   {
-    risk: 'Normal',
+    risk: 'Routine',
     scoreRange: '0',
     icon: '✓',
     colour: '#2e7d32',
@@ -80,6 +97,7 @@ const ESCALATION_CARDS: EscalationCard[] = [
       'Nurse escort required',
       'If no RMO review → escalate to Registrar',
     ],
+    escalation: { tier: 'RMO', label: 'Document RMO notified' },
   },
   {
     risk: 'High',
@@ -95,9 +113,10 @@ const ESCALATION_CARDS: EscalationCard[] = [
       'Nurse escort required',
       'If no Registrar review → initiate MET call or escalate to SMO',
     ],
+    escalation: { tier: 'Registrar', label: 'Document Registrar notified' },
   },
   {
-    risk: 'MET',
+    risk: 'Emergency',
     scoreRange: '≥ 8 or E-zone',
     icon: '🚨',
     colour: '#7b1fa2',
@@ -110,6 +129,108 @@ const ESCALATION_CARDS: EscalationCard[] = [
       'Registrar and Nurse escort required',
       'If MET-MEO plan active and stable: ½-hourly observations minimum',
     ],
+    escalation: { tier: 'MET', label: 'Document MET call' },
+  },
+];
+
+const PAEDIATRIC_ESCALATION_CARDS: EscalationCard[] = [
+  {
+    ...ESCALATION_CARDS[0],
+    frequency: '4-hourly observations (minimum)',
+    actions: ['Continue routine CEWT monitoring', 'Involve parents or carers in observations'],
+  },
+  {
+    ...ESCALATION_CARDS[1],
+    frequency: '2-hourly (stable) / 1-hourly (deteriorating)',
+    actions: [
+      'Notify Team Leader',
+      'Review if parent or carer is concerned',
+      'If deteriorating: increase to 1-hourly observations',
+    ],
+  },
+  {
+    ...ESCALATION_CARDS[2],
+    title: 'Paediatric RMO Review Required',
+    frequency: '1-hourly observations',
+    actions: [
+      'Notify Team Leader',
+      'Notify Paediatric RMO to review within 30 minutes',
+      'Nurse escort required',
+      'If no RMO review → escalate to Paediatric Registrar',
+    ],
+  },
+  {
+    ...ESCALATION_CARDS[3],
+    title: 'Paediatric Registrar Review Required',
+    frequency: '1-hourly (stable) / ½-hourly (deteriorating)',
+    actions: [
+      'Notify Team Leader',
+      'Notify Paediatric Registrar to review within 30 minutes',
+      'Nurse escort required',
+      'If no Registrar review → initiate paediatric MET call or escalate to Consultant',
+    ],
+  },
+  {
+    ...ESCALATION_CARDS[4],
+    title: 'Paediatric MET Call — Emergency Response',
+    frequency: 'Continuous monitoring, 10-minutely observations',
+    actions: [
+      'Initiate paediatric MET Call immediately',
+      'Paediatric Registrar to ensure Consultant notified',
+      'Consider retrieval advice',
+      'Registrar and Nurse escort required',
+    ],
+  },
+];
+
+const NEWS2_ESCALATION_CARDS: EscalationCard[] = [
+  {
+    ...ESCALATION_CARDS[0],
+    title: 'Routine NEWS Monitoring',
+    frequency: '12-hourly observations (minimum)',
+    actions: ['Continue routine NEWS monitoring'],
+  },
+  {
+    ...ESCALATION_CARDS[1],
+    scoreRange: '1–4',
+    title: 'Registered Nurse Assessment',
+    frequency: '4–6-hourly observations (minimum)',
+    actions: [
+      'Inform registered nurse, who must assess the patient',
+      'Registered nurse decides whether increased monitoring or escalation is required',
+    ],
+  },
+  {
+    ...ESCALATION_CARDS[2],
+    scoreRange: '3 in one parameter',
+    title: 'Urgent Ward-based Response',
+    frequency: '1-hourly observations (minimum)',
+    actions: [
+      'Registered nurse to inform the medical team caring for the patient',
+      'Medical team to review and decide whether escalation of care is necessary',
+    ],
+  },
+  {
+    ...ESCALATION_CARDS[3],
+    scoreRange: '5–6',
+    title: 'Urgent Response',
+    frequency: '1-hourly observations (minimum)',
+    actions: [
+      'Registered nurse to immediately inform the medical team',
+      'Urgent assessment by a clinician competent in acute illness',
+      'Provide care in an environment with monitoring facilities',
+    ],
+  },
+  {
+    ...ESCALATION_CARDS[4],
+    scoreRange: '≥ 7',
+    title: 'Emergency Response',
+    frequency: 'Continuous monitoring of vital signs',
+    actions: [
+      'Immediately inform the medical team — at least specialist registrar',
+      'Emergency assessment by a team with critical care competencies',
+      'Consider transfer to level 2 or 3 care',
+    ],
   },
 ];
 
@@ -124,12 +245,32 @@ const ESCALATION_CARDS: EscalationCard[] = [
  */
 export default function EscalationProtocol({
   clinicalRisk,
+  paediatric = false,
+  system = 'qadds',
+  onDocumentEscalation,
 }: EscalationProtocolProps) {
+  const [documented, setDocumented] = useState<Partial<Record<EscalationTier, string>>>({});
+
+  const handleDocument = (tier: EscalationTier) => {
+    onDocumentEscalation?.(tier);
+    setDocumented((prev) => ({
+      ...prev,
+      [tier]: useClockStore
+        .getState()
+        .currentTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+    }));
+  };
+
   return (
     <div className="escalation-protocol">
       <div className="escalation-protocol__title">Escalation Protocol</div>
       <div className="escalation-protocol__cards">
-        {ESCALATION_CARDS.map((card) => {
+        {(paediatric
+          ? PAEDIATRIC_ESCALATION_CARDS
+          : system === 'news2'
+            ? NEWS2_ESCALATION_CARDS
+            : ESCALATION_CARDS
+        ).map((card) => {
           const isActive = card.risk === clinicalRisk;
           return (
             <div
@@ -158,6 +299,21 @@ export default function EscalationProtocol({
                   <li key={i}>{action}</li>
                 ))}
               </ul>
+              {isActive && card.escalation && onDocumentEscalation && (
+                <div className="escalation-card__document">
+                  {documented[card.escalation.tier] ? (
+                    <span>✓ Documented {documented[card.escalation.tier]}</span>
+                  ) : (
+                    <button
+                      type="button"
+                      className="btn btn-sm"
+                      onClick={() => handleDocument(card.escalation!.tier)}
+                    >
+                      {card.escalation.label}
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           );
         })}
@@ -7,7 +7,8 @@
  *   - Medical Officer Order Section (order buttons for MET-MEO Plan and
  *     Modified Observation Frequency, plus cancel actions)
  *   - Nursing Section with reference tables for EWS-based and E-zone-based
- *     deterioration criteria, plus observation comments and patient status
+ *     deterioration criteria, plus observation comments and patient status,
+ *     signed as a nursing assessment under the active MET-MEO plan
  *
  * Matches the official Cerner ieMR dialog layout used in Queensland Health.
  */
@@ -20,6 +21,8 @@ interface MeoPlanDialogProps {
   onOpenMofForm: () => void
   onCancelMetMeo: () => void
   onCancelMof: () => void
+  /** Record the nursing assessment; a deteriorating patient lifts the plan's MET alert hold */
+  onSignAssessment: (status: 'STABLE' | 'DETERIORATING', comments: string | null) => void
   hasActiveMetMeo: boolean
   hasActiveMof: boolean
 }
@@ -57,6 +60,7 @@ export function MeoPlanDialog({
   onOpenMofForm,
   onCancelMetMeo,
   onCancelMof,
+  onSignAssessment,
   hasActiveMetMeo,
   hasActiveMof,
 }: MeoPlanDialogProps) {
@@ -654,10 +658,36 @@ export function MeoPlanDialog({
           style={{
             padding: '10px 20px',
             borderTop: '1px solid var(--cerner-border, #ccc)',
-            textAlign: 'right',
+            display: 'flex',
+            justifyContent: 'flex-end',
+            gap: '8px',
             backgroundColor: '#f5f5f5',
           }}
         >
+          <button
+            type="button"
+            onClick={() => {
+              if (!patientStatus) return
+              onSignAssessment(patientStatus, observationComments.trim() || null)
+              setPatientStatus(null)
+              setObservationComments('')
+            }}
+            disabled={!patientStatus}
+            style={{
+              padding: '6px 20px',
+              fontSize: '11px',
+              fontFamily: FONT_FAMILY,
+              fontWeight: 600,
+              color: '#ffffff',
+              backgroundColor: patientStatus ? 'var(--cerner-dark-blue, #004578)' : '#a0b4c8',
+              border: patientStatus ? '1px solid #003460' : '1px solid #8899aa',
+              borderRadius: '3px',
+              cursor: patientStatus ? 'pointer' : 'not-allowed',
+              lineHeight: '18px',
+            }}
+          >
+            Sign Assessment
+          </button>
           <button
             type="button"
             onClick={onClose}
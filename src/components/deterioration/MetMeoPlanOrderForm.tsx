@@ -17,11 +17,16 @@ import { useState, useMemo } from 'react'
 import type { MetMeoOrder } from '@/types/meo'
 import type { ChartVariant } from '@/types/vitals'
 import { E_ZONE_VITAL_SIGN_OPTIONS } from '@/types/meo'
+import { getChartForm } from '@/services/qaddsCalculator'
+import { useClockStore } from '@/stores/clockStore'
 
 interface MetMeoPlanOrderFormProps {
+  /** MRN of the patient the plan is ordered for */
+  patientMrn: string
   onClose: () => void
   onSubmit: (order: MetMeoOrder) => void
-  chartVariant: ChartVariant
+  /** Patient's chart form; sets the longest plan that can be ordered */
+  chartVariant?: ChartVariant
 }
 
 const FONT_FAMILY = "'Segoe UI', Tahoma, Geneva, Verdana, sans-serif"
@@ -89,6 +94,7 @@ function generateOrderId(): string {
 const CAVPU_OPTIONS = ['Alert', 'Confusion', 'Voice', 'Pain', 'Unresponsive']
 
 export function MetMeoPlanOrderForm({
+  patientMrn,
   onClose,
   onSubmit,
   chartVariant,
@@ -111,7 +117,7 @@ export function MetMeoPlanOrderForm({
   const [clinicianName, setClinicianName] = useState('')
   const [clinicianRole, setClinicianRole] = useState<'REGISTRAR' | 'SMO'>('REGISTRAR')
 
-  const maxDuration = chartVariant === 'standard' ? 12 : 24
+  const maxDuration = getChartForm(chartVariant).metMeoMaxHours
 
   const selectedOption = useMemo(
     () => E_ZONE_VITAL_SIGN_OPTIONS.find((opt) => opt.value === selectedVitalSign) ?? null,
@@ -143,7 +149,7 @@ export function MetMeoPlanOrderForm({
   function handleSubmit() {
     if (!allValid) return
 
-    const now = new Date()
+    const now = useClockStore.getState().currentTime
     const dur = Number(durationHours)
     const expiresAt = new Date(now.getTime() + dur * 60 * 60 * 1000)
 
@@ -156,6 +162,7 @@ export function MetMeoPlanOrderForm({
 
     const order: MetMeoOrder = {
       orderId: generateOrderId(),
+      patientMrn,
       orderType: 'MET_MEO_PLAN',
       triggerType,
       eZoneVitalSign: eZoneChecked && selectedVitalSign
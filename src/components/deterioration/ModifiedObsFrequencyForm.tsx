@@ -18,6 +18,8 @@ import type { ModifiedObsFrequencyOrder } from '@/types/meo'
 import { MOF_OPTION_LABELS } from '@/types/meo'
 
 interface ModifiedObsFrequencyFormProps {
+  /** MRN of the patient the order is for */
+  patientMrn: string
   onClose: () => void
   onSubmit: (order: ModifiedObsFrequencyOrder) => void
 }
@@ -67,6 +69,7 @@ function generateOrderId(): string {
 }
 
 export function ModifiedObsFrequencyForm({
+  patientMrn,
   onClose,
   onSubmit,
 }: ModifiedObsFrequencyFormProps) {
@@ -89,6 +92,7 @@ export function ModifiedObsFrequencyForm({
 
     const order: ModifiedObsFrequencyOrder = {
       orderId: generateOrderId(),
+      patientMrn,
       orderType: 'MODIFIED_OBS_FREQUENCY',
       optionSelected: selectedOption,
       frequencyHours: Number(frequencyHours),
@@ -5,14 +5,15 @@
  * individual sub-score breakdown.
  *
  * Colour mapping (Q-ADDS 5-tier):
- * - Green   (0):   Normal
+ * - Green   (0):   Routine
  * - Yellow  (1–3): Low
  * - Orange  (4–5): Moderate
  * - Deep-orange (6–7): High
- * - Purple  (≥8 or E-zone): MET
+ * - Purple  (≥8 or E-zone): Emergency
  */
 
-import type { QADDSResult, QADDSSubScore, QADDSScore } from '../../types';
+import type { QaddsScore, QaddsSubScoreValue } from '../../types';
+import { getParameterLabel } from '../../services/qaddsCalculator';
 import '../../styles/components/views.css';
 
 // ---------------------------------------------------------------------------
@@ -21,8 +22,8 @@ import '../../styles/components/views.css';
 
 /** Props accepted by the NewsScoreCard component. */
 export interface NewsScoreCardProps {
-  /** Computed Q-ADDS result for the most recent vital signs. */
-  result: QADDSResult;
+  /** Computed Q-ADDS score for the most recent vital signs. */
+  result: QaddsScore;
 }
 
 // ---------------------------------------------------------------------------
@@ -53,7 +54,7 @@ function getScoreTextColour(score: number): string {
  * Map a Q-ADDS sub-score to a CSS variable level for background colouring.
  * 0→0 (green), 1→1 (yellow), 2→2 (orange), 3→3 (deep-orange), 4→4 (purple), E→4 (purple)
  */
-function getSubScoreLevel(score: QADDSScore): number {
+function getSubScoreLevel(score: QaddsSubScoreValue): number {
   if (score === 'E') return 4;
   return score;
 }
@@ -69,6 +70,9 @@ function getSubScoreLevel(score: QADDSScore): number {
 export default function NewsScoreCard({ result }: NewsScoreCardProps) {
   const bgColour = getScoreColour(result.totalScore);
   const textColour = getScoreTextColour(result.totalScore);
+  const charted = Object.values(result.subScores).filter(
+    (sub) => !result.missingParameters.includes(sub.parameter),
+  );
 
   return (
     <div className="news-score-card">
@@ -79,12 +83,12 @@ export default function NewsScoreCard({ result }: NewsScoreCardProps) {
       >
         <span className="news-score-card__number">{result.totalScore}</span>
         <span className="news-score-card__risk-badge">
-          {result.riskLevel}
+          {result.clinicalRisk}
         </span>
       </div>
 
       {/* E-zone indicator */}
-      {result.hasEZone && (
+      {result.emergencyParameters.length > 0 && (
         <div
           className="news-score-card__ezone-badge"
           style={{
@@ -106,11 +110,11 @@ export default function NewsScoreCard({ result }: NewsScoreCardProps) {
       <div className="news-score-card__breakdown">
         <div className="news-score-card__breakdown-title">Sub-Score Breakdown</div>
         <ul className="news-score-card__breakdown-list">
-          {result.subScores.map((sub: QADDSSubScore) => {
+          {charted.map((sub) => {
             const level = getSubScoreLevel(sub.score);
             return (
               <li key={sub.parameter} className="news-score-card__breakdown-item">
-                <span className="news-score-card__param-name">{sub.parameter}</span>
+                <span className="news-score-card__param-name">{getParameterLabel(sub.parameter)}</span>
                 <span className="news-score-card__param-value">
                   {String(sub.value)}
                 </span>
@@ -1,7 +1,12 @@
 import { useMemo } from 'react'
 import type { VitalSign } from '@/types/patient'
 import type { ChartVariant } from '@/types/vitals'
-import { calculateQadds, getRiskColor, getEscalationText } from '@/services/qaddsCalculator'
+import {
+  calculateQadds,
+  getChartForm,
+  getRiskColor,
+  getEscalationText,
+} from '@/services/qaddsCalculator'
 
 interface QaddsScoreCardProps {
   vitals: VitalSign
@@ -26,8 +31,9 @@ const RISK_TEXT_COLORS: Record<string, string> = {
 
 export function QaddsScoreCard({ vitals, variant }: QaddsScoreCardProps) {
   const qaddsScore = useMemo(() => calculateQadds(vitals, variant), [vitals, variant])
+  const form = getChartForm(variant)
   const riskColor = getRiskColor(qaddsScore.clinicalRisk)
-  const escalationText = getEscalationText(qaddsScore.clinicalRisk)
+  const escalationText = getEscalationText(qaddsScore.clinicalRisk, undefined, variant)
   const badgeBg = RISK_BADGE_COLORS[qaddsScore.clinicalRisk] ?? '#ffffff'
   const badgeText = RISK_TEXT_COLORS[qaddsScore.clinicalRisk] ?? '#333333'
 
@@ -53,7 +59,7 @@ export function QaddsScoreCard({ vitals, variant }: QaddsScoreCardProps) {
           color: 'var(--cerner-dark-blue, #004578)',
         }}
       >
-        Q-ADDS Score
+        {form.tool} Score
       </div>
 
       {/* Body */}
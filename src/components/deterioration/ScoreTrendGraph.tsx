@@ -6,7 +6,8 @@
  * - X-axis: observation date/time
  * - Y-axis: EWS score (0–20)
  * - Colour zones (Q-ADDS): green (0–1), yellow (1–4), orange (4–6),
- *   deep-orange (6–8), purple (8–20)
+ *   deep-orange (6–8), purple (8–20); on NEWS2: green (0), yellow (1–4),
+ *   deep-orange (5–6), purple (7–20)
  * - Data points from patient vital signs history
  */
 
@@ -21,8 +22,8 @@ import {
   ReferenceArea,
   ResponsiveContainer,
 } from 'recharts';
-import type { VitalSign } from '../../types';
-import { calculateQADDS } from '../../services/newsCalculator';
+import type { ChartVariant, VitalSign } from '../../types';
+import { calculateQaddsTrend, getChartForm } from '../../services/qaddsCalculator';
 import '../../styles/components/views.css';
 
 // ---------------------------------------------------------------------------
@@ -33,6 +34,8 @@ import '../../styles/components/views.css';
 export interface ScoreTrendGraphProps {
   /** Vital sign observations (most recent first). */
   vitals: VitalSign[];
+  /** Chart variant to score against (default 'standard'). */
+  variant?: ChartVariant;
 }
 
 /** Internal data point for the chart. */
@@ -41,6 +44,32 @@ interface TrendDataPoint {
   score: number;
 }
 
+/** A background risk zone on the score axis. */
+interface RiskZone {
+  from: number;
+  to: number;
+  fill: string;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const QADDS_ZONES: RiskZone[] = [
+  { from: 0, to: 0.5, fill: '#e8f5e9' },
+  { from: 0.5, to: 3.5, fill: '#fff8e1' },
+  { from: 3.5, to: 5.5, fill: '#fff3e0' },
+  { from: 5.5, to: 7.5, fill: '#ffe0b2' },
+  { from: 7.5, to: 20, fill: '#f3e5f5' },
+];
+
+const NEWS2_ZONES: RiskZone[] = [
+  { from: 0, to: 0.5, fill: '#e8f5e9' },
+  { from: 0.5, to: 4.5, fill: '#fff8e1' },
+  { from: 4.5, to: 6.5, fill: '#ffe0b2' },
+  { from: 6.5, to: 20, fill: '#f3e5f5' },
+];
+
 // ---------------------------------------------------------------------------
 // Component
 // ---------------------------------------------------------------------------
@@ -49,17 +78,16 @@ interface TrendDataPoint {
  * ScoreTrendGraph renders a line chart of EWS aggregate scores over time
  * with colour-coded background zones indicating Q-ADDS clinical risk tiers.
  */
-export default function ScoreTrendGraph({ vitals }: ScoreTrendGraphProps) {
+export default function ScoreTrendGraph({ vitals, variant }: ScoreTrendGraphProps) {
   /** Transform vitals into chronological chart data. */
   const data = useMemo<TrendDataPoint[]>(() => {
     if (!vitals?.length) return [];
-    return [...vitals]
-      .reverse()
-      .map((v) => ({
-        time: v.datetime,
-        score: calculateQADDS(v).totalScore,
-      }));
-  }, [vitals]);
+    return calculateQaddsTrend([...vitals].reverse(), variant).map((point) => ({
+      time: point.datetime,
+      score: point.score.totalScore,
+    }));
+  }, [vitals, variant]);
+  const zones = getChartForm(variant).system === 'news2' ? NEWS2_ZONES : QADDS_ZONES;
 
   if (data.length === 0) {
     return (
@@ -76,12 +104,16 @@ export default function ScoreTrendGraph({ vitals }: ScoreTrendGraphProps) {
         <LineChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 5 }}>
           <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
 
-          {/* Q-ADDS risk zone backgrounds */}
-          <ReferenceArea y1={0} y2={0.5} fill="#e8f5e9" fillOpacity={0.5} />
-          <ReferenceArea y1={0.5} y2={3.5} fill="#fff8e1" fillOpacity={0.5} />
-          <ReferenceArea y1={3.5} y2={5.5} fill="#fff3e0" fillOpacity={0.5} />
-          <ReferenceArea y1={5.5} y2={7.5} fill="#ffe0b2" fillOpacity={0.5} />
-          <ReferenceArea y1={7.5} y2={20} fill="#f3e5f5" fillOpacity={0.5} />
+          {/* Risk zone backgrounds */}
+          {zones.map((zone) => (
+            <ReferenceArea
+              key={zone.from}
+              y1={zone.from}
+              y2={zone.to}
+              fill={zone.fill}
+              fillOpacity={0.5}
+            />
+          ))}
 
           <XAxis
             dataKey="time"
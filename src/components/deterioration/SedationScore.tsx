@@ -3,7 +3,8 @@
  * assessment timeline on the Managing Deterioration page.
  *
  * Shows:
- *   - Collapsible section header with "[Add]" link
+ *   - Collapsible section header with "[Add]" link, which opens an inline
+ *     form to record a score when `onAdd` is supplied
  *   - Reference table of all 4 sedation levels with labels, actions, and colour coding
  *   - Warning about sedation score not being added to Q-ADDS
  *   - Timeline of recorded assessments (most recent first)
@@ -19,6 +20,8 @@ interface SedationScoreProps {
     score: 0 | 1 | 2 | 3
     comments: string | null
   }>
+  /** Called when the learner records a new sedation score */
+  onAdd?: (score: SedationLevel, comments: string | null) => void
 }
 
 const FONT_FAMILY = "'Segoe UI', Tahoma, Geneva, Verdana, sans-serif"
@@ -54,8 +57,18 @@ function formatAssessmentTime(iso: string): string {
   return `${hours}:${minutes} ${day}/${month}/${year}`
 }
 
-export function SedationScore({ assessments }: SedationScoreProps) {
+export function SedationScore({ assessments, onAdd }: SedationScoreProps) {
   const [collapsed, setCollapsed] = useState(false)
+  const [adding, setAdding] = useState(false)
+  const [newScore, setNewScore] = useState<SedationLevel>(0)
+  const [newComments, setNewComments] = useState('')
+
+  const handleSave = () => {
+    onAdd?.(newScore, newComments.trim() || null)
+    setAdding(false)
+    setNewScore(0)
+    setNewComments('')
+  }
 
   // Sort assessments by time, most recent first
   const sortedAssessments = [...assessments].sort(
@@ -102,9 +115,14 @@ export function SedationScore({ assessments }: SedationScoreProps) {
           {collapsed ? '\u25B6' : '\u25BC'} Sedation Score
         </button>
 
-        {/* Add link (non-functional placeholder) */}
+        {/* Add link */}
         <button
           type="button"
+          onClick={() => {
+            setAdding(onAdd !== undefined && !adding)
+            setCollapsed(false)
+          }}
+          disabled={!onAdd}
           style={{
             background: 'none',
             border: 'none',
@@ -124,6 +142,49 @@ export function SedationScore({ assessments }: SedationScoreProps) {
       {/* Collapsible content */}
       {!collapsed && (
         <div style={{ padding: '0 0 10px 0' }}>
+          {/* Inline entry form */}
+          {adding && (
+            <div
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                padding: '6px 8px',
+                marginBottom: '10px',
+                border: '1px solid #999',
+                backgroundColor: '#f7f7f7',
+              }}
+            >
+              <label style={{ fontWeight: 600 }}>
+                Score{' '}
+                <select
+                  value={newScore}
+                  onChange={(e) => setNewScore(Number(e.target.value) as SedationLevel)}
+                  style={{ fontFamily: FONT_FAMILY, fontSize: '11px' }}
+                >
+                  {ALL_LEVELS.map((level) => (
+                    <option key={level} value={level}>
+                      {level} — {LEVEL_SHORT_LABELS[level]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <input
+                type="text"
+                placeholder="Comments"
+                value={newComments}
+                onChange={(e) => setNewComments(e.target.value)}
+                style={{ flex: 1, fontFamily: FONT_FAMILY, fontSize: '11px' }}
+              />
+              <button type="button" className="btn btn-primary btn-sm" onClick={handleSave}>
+                Save
+              </button>
+              <button type="button" className="btn btn-sm" onClick={() => setAdding(false)}>
+                Cancel
+              </button>
+            </div>
+          )}
+
           {/* Reference table: all 4 sedation levels */}
           <table
             style={{
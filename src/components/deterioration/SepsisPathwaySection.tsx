@@ -0,0 +1,181 @@
+/**
+ * Sepsis Pathway Section — adult sepsis screening and bundle tracker on the
+ * Managing Deterioration page.
+ *
+ * Shows a collapsible section with:
+ *   - The screening criteria met by the latest obs and lactate
+ *   - A hyperlink to open the structured sepsis screen
+ *   - The result of the last screen
+ *   - When a bundle has started: a 60-minute countdown and the four bundle
+ *     elements, ticked off from orders and MAR administrations
+ */
+
+import { useState } from 'react'
+import type { SepsisBundleProgress } from '@/services/sepsisPathway'
+import type { SepsisCriterion, SepsisScreen } from '@/types/sepsis'
+
+interface SepsisPathwaySectionProps {
+  /** Screening criteria met by the latest obs and lactate */
+  criteria: SepsisCriterion[]
+  /** The patient's most recent screen, or null if never screened */
+  lastScreen: SepsisScreen | null
+  /** Progress of the patient's sepsis bundle, or null if none started */
+  bundleProgress: SepsisBundleProgress | null
+  onOpenScreen: () => void
+}
+
+const FONT_FAMILY = "'Segoe UI', Tahoma, Geneva, Verdana, sans-serif"
+
+const cellStyle: React.CSSProperties = {
+  border: '1px solid #ccc',
+  padding: '4px 10px',
+  color: '#333333',
+  whiteSpace: 'nowrap',
+}
+
+/** Formats an ISO datetime as "HH:mm" */
+function formatTime(iso: string): string {
+  const date = new Date(iso)
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+}
+
+/** Countdown text and colour for the bundle clock */
+function bundleClock(progress: SepsisBundleProgress): { text: string; color: string } {
+  if (progress.complete) {
+    const late = progress.elements.some((e) => e.late)
+    return { text: late ? 'Bundle complete (late)' : 'Bundle complete', color: late ? '#b45309' : '#2e7d32' }
+  }
+  if (progress.overdue) {
+    return { text: `Bundle OVERDUE by ${-progress.minutesRemaining} min`, color: '#dc3545' }
+  }
+  return {
+    text: `${progress.minutesRemaining} min remaining (due ${formatTime(progress.dueAt)})`,
+    color: progress.minutesRemaining <= 15 ? '#dc3545' : '#333333',
+  }
+}
+
+export function SepsisPathwaySection({
+  criteria,
+  lastScreen,
+  bundleProgress,
+  onOpenScreen,
+}: SepsisPathwaySectionProps) {
+  const [collapsed, setCollapsed] = useState(false)
+  const clock = bundleProgress ? bundleClock(bundleProgress) : null
+
+  return (
+    <div
+      style={{
+        borderBottom: '1px solid #ddd',
+        fontFamily: FONT_FAMILY,
+        fontSize: '11px',
+        marginBottom: '12px',
+      }}
+    >
+      {/* Header row with toggle and link */}
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'flex-start',
+          gap: '6px',
+          padding: '8px 0',
+        }}
+      >
+        <button
+          type="button"
+          onClick={() => setCollapsed(!collapsed)}
+          style={{
+            background: 'none',
+            border: 'none',
+            cursor: 'pointer',
+            padding: 0,
+            fontFamily: FONT_FAMILY,
+            fontSize: '11px',
+            fontWeight: 700,
+            color: 'var(--cerner-dark-blue, #004578)',
+            lineHeight: '16px',
+            flexShrink: 0,
+          }}
+          aria-expanded={!collapsed}
+          aria-label={collapsed ? 'Expand Sepsis Pathway section' : 'Collapse Sepsis Pathway section'}
+        >
+          {collapsed ? '\u25B6' : '\u25BC'} Sepsis Pathway
+        </button>
+
+        <button
+          type="button"
+          onClick={onOpenScreen}
+          style={{
+            background: 'none',
+            border: 'none',
+            cursor: 'pointer',
+            padding: 0,
+            fontFamily: FONT_FAMILY,
+            fontSize: '11px',
+            color: '#0066b2',
+            textDecoration: 'underline',
+            textAlign: 'left',
+            lineHeight: '16px',
+          }}
+        >
+          Complete adult sepsis screen
+        </button>
+      </div>
+
+      {!collapsed && (
+        <div style={{ padding: '0 0 10px 18px' }}>
+          {/* Screening criteria */}
+          {criteria.length > 0 ? (
+            <div style={{ fontWeight: 700, color: '#dc3545', marginBottom: '6px' }}>
+              Could it be SEPSIS? Screening criteria met: {criteria.map((c) => c.label).join(', ')}
+            </div>
+          ) : (
+            <div style={{ color: '#666666', marginBottom: '6px' }}>No sepsis screening criteria met.</div>
+          )}
+
+          {/* Last screen */}
+          {lastScreen && (
+            <div style={{ color: '#333333', marginBottom: '6px' }}>
+              Last screen {formatTime(lastScreen.screenedAt)} by {lastScreen.screenedBy}:{' '}
+              <strong style={{ color: lastScreen.positive ? '#dc3545' : '#333333' }}>
+                {lastScreen.positive ? 'POSITIVE' : 'negative'}
+              </strong>
+            </div>
+          )}
+
+          {/* Bundle tracker */}
+          {bundleProgress && clock && (
+            <table style={{ borderCollapse: 'collapse', fontSize: '11px', fontFamily: FONT_FAMILY }}>
+              <thead>
+                <tr>
+                  <th colSpan={3} style={{ ...cellStyle, textAlign: 'left', color: clock.color }}>
+                    Sepsis bundle — {clock.text}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {bundleProgress.elements.map((element) => (
+                  <tr key={element.id}>
+                    <td style={{ ...cellStyle, fontWeight: 600 }}>
+                      {element.completedAt ? '\u2611' : '\u2610'} {element.label}
+                    </td>
+                    <td style={{ ...cellStyle, color: element.late ? '#b45309' : '#333333' }}>
+                      {element.completedAt
+                        ? `${formatTime(element.completedAt)}${element.late ? ' (late)' : ''}`
+                        : 'Outstanding'}
+                    </td>
+                    <td style={{ ...cellStyle, color: '#666666' }}>
+                      {element.detail
+                        ? `${element.source === 'mar' ? 'Given' : 'Ordered'}: ${element.detail}`
+                        : ''}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,306 @@
+/**
+ * Sepsis Screen Form — structured adult sepsis screen.
+ *
+ * Opened from the Sepsis Pathway section or the "Could it be SEPSIS?"
+ * prompt on a Discern alert. Features:
+ *
+ *   - Screening criteria met by the latest obs and lactate (read only)
+ *   - Suspected infection source
+ *   - Red flag checklist, pre-ticked from the obs and lactate
+ *   - Live positive / negative result
+ *
+ * On submission creates a SepsisScreen with generated ID; a positive screen
+ * starts the sepsis bundle clock.
+ */
+
+import { useState } from 'react'
+import {
+  INFECTION_SOURCES,
+  SEPSIS_RED_FLAGS,
+  getObservedRedFlags,
+  getSepsisCriteria,
+  isScreenPositive,
+} from '@/services/sepsisPathway'
+import type { VitalSign } from '@/types/patient'
+import type { InfectionSource, SepsisRedFlagId, SepsisScreen } from '@/types/sepsis'
+
+interface SepsisScreenFormProps {
+  /** MRN of the patient being screened */
+  patientMrn: string
+  /** Latest observation set */
+  vitals: VitalSign
+  /** Latest lactate in mmol/L, or null if none resulted */
+  lactate: number | null
+  /** Current simulation time, stamped on the screen */
+  now: Date
+  onClose: () => void
+  onSubmit: (screen: SepsisScreen) => void
+}
+
+const FONT_FAMILY = "'Segoe UI', Tahoma, Geneva, Verdana, sans-serif"
+
+const inputStyle: React.CSSProperties = {
+  fontFamily: FONT_FAMILY,
+  fontSize: '11px',
+  padding: '4px 6px',
+  border: '1px solid var(--cerner-border, #ccc)',
+  borderRadius: '3px',
+  boxSizing: 'border-box' as const,
+  backgroundColor: '#fffde7',
+}
+
+const sectionHeadingStyle: React.CSSProperties = {
+  fontWeight: 700,
+  fontSize: '11px',
+  color: 'var(--cerner-dark-blue, #004578)',
+  marginBottom: '6px',
+}
+
+export function SepsisScreenForm({
+  patientMrn,
+  vitals,
+  lactate,
+  now,
+  onClose,
+  onSubmit,
+}: SepsisScreenFormProps) {
+  const criteria = getSepsisCriteria(vitals, lactate)
+  const [infectionSource, setInfectionSource] = useState<InfectionSource | ''>('')
+  const [redFlags, setRedFlags] = useState<SepsisRedFlagId[]>(() => getObservedRedFlags(vitals, lactate))
+  const [screenedBy, setScreenedBy] = useState('RN Simulation User')
+
+  const allValid = infectionSource !== '' && screenedBy.trim().length > 0
+  const positive = infectionSource !== '' && isScreenPositive(infectionSource, redFlags)
+
+  function toggleRedFlag(id: SepsisRedFlagId) {
+    setRedFlags((flags) => (flags.includes(id) ? flags.filter((f) => f !== id) : [...flags, id]))
+  }
+
+  function handleSubmit() {
+    if (!allValid) return
+
+    onSubmit({
+      screenId: crypto.randomUUID(),
+      patientMrn,
+      screenedAt: now.toISOString(),
+      criteria,
+      lactate,
+      infectionSource,
+      redFlags: SEPSIS_RED_FLAGS.map((f) => f.id).filter((id) => redFlags.includes(id)),
+      positive,
+      screenedBy: screenedBy.trim(),
+    })
+  }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 9999,
+        fontFamily: FONT_FAMILY,
+        fontSize: '11px',
+      }}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="sepsis-screen-title"
+    >
+      <div
+        style={{
+          backgroundColor: '#ffffff',
+          borderRadius: '4px',
+          boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)',
+          width: '560px',
+          maxWidth: '95vw',
+          maxHeight: '90vh',
+          overflow: 'hidden',
+          display: 'flex',
+          flexDirection: 'column',
+        }}
+      >
+        {/* ── Header ── */}
+        <div
+          style={{
+            padding: '14px 20px',
+            borderBottom: '1px solid var(--cerner-border, #ccc)',
+          }}
+        >
+          <h2
+            id="sepsis-screen-title"
+            style={{
+              margin: 0,
+              fontSize: '14px',
+              fontWeight: 700,
+              color: 'var(--cerner-dark-blue, #004578)',
+              fontFamily: FONT_FAMILY,
+            }}
+          >
+            Adult sepsis screen
+          </h2>
+        </div>
+
+        {/* ── Scrollable body ── */}
+        <div
+          style={{
+            padding: '16px 20px',
+            overflowY: 'auto',
+            flex: 1,
+          }}
+        >
+          {/* ── Step 1: screening criteria ── */}
+          <div style={sectionHeadingStyle}>1. Screening criteria (from latest obs and lactate)</div>
+          {criteria.length > 0 ? (
+            <ul style={{ margin: '0 0 14px 18px', padding: 0, color: '#333333', lineHeight: '16px' }}>
+              {criteria.map((c) => (
+                <li key={c.id}>
+                  {c.label} <span style={{ color: '#666666' }}>({c.value})</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div style={{ color: '#666666', fontStyle: 'italic', marginBottom: '14px' }}>
+              No screening criteria met. Screen if there is clinical concern for sepsis.
+            </div>
+          )}
+
+          {/* ── Step 2: infection source ── */}
+          <label htmlFor="sepsis-infection-source" style={{ ...sectionHeadingStyle, display: 'block' }}>
+            2. Could this be due to an infection?
+          </label>
+          <select
+            id="sepsis-infection-source"
+            value={infectionSource}
+            onChange={(e) => setInfectionSource(e.target.value as InfectionSource)}
+            style={{ ...inputStyle, width: '100%', marginBottom: '14px' }}
+          >
+            <option value="">Select suspected source...</option>
+            {INFECTION_SOURCES.map((source) => (
+              <option key={source.value} value={source.value}>
+                {source.label}
+              </option>
+            ))}
+          </select>
+
+          {/* ── Step 3: red flags ── */}
+          <div style={sectionHeadingStyle}>3. Red flags present</div>
+          <div style={{ marginBottom: '14px' }}>
+            {SEPSIS_RED_FLAGS.map((flag) => (
+              <label
+                key={flag.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                  marginBottom: '4px',
+                  color: '#333333',
+                  cursor: 'pointer',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={redFlags.includes(flag.id)}
+                  onChange={() => toggleRedFlag(flag.id)}
+                />
+                {flag.label}
+              </label>
+            ))}
+          </div>
+
+          {/* ── Result ── */}
+          {infectionSource !== '' && (
+            <div
+              style={{
+                fontWeight: 700,
+                fontSize: '11px',
+                color: positive ? '#dc3545' : '#333333',
+                marginBottom: '14px',
+                lineHeight: '16px',
+                padding: '8px 0',
+                borderTop: '1px solid var(--cerner-border, #ccc)',
+                borderBottom: '1px solid var(--cerner-border, #ccc)',
+              }}
+            >
+              {positive
+                ? 'SCREEN POSITIVE — Sepsis likely. Start the sepsis bundle: complete within 60 minutes and notify the medical officer.'
+                : 'Screen negative — continue observations and re-screen if the patient deteriorates.'}
+            </div>
+          )}
+
+          {/* ── Screened by ── */}
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <label
+              htmlFor="sepsis-screened-by"
+              style={{ fontWeight: 700, fontSize: '11px', color: '#333333', whiteSpace: 'nowrap' }}
+            >
+              Screened by:
+            </label>
+            <input
+              id="sepsis-screened-by"
+              type="text"
+              value={screenedBy}
+              onChange={(e) => setScreenedBy(e.target.value)}
+              style={{ ...inputStyle, width: '260px' }}
+            />
+          </div>
+        </div>
+
+        {/* ── Footer ── */}
+        <div
+          style={{
+            padding: '10px 20px',
+            borderTop: '1px solid var(--cerner-border, #ccc)',
+            display: 'flex',
+            justifyContent: 'flex-end',
+            gap: '8px',
+            backgroundColor: '#f5f5f5',
+          }}
+        >
+          <button
+            type="button"
+            onClick={onClose}
+            style={{
+              padding: '6px 20px',
+              fontSize: '11px',
+              fontFamily: FONT_FAMILY,
+              fontWeight: 600,
+              color: '#333333',
+              backgroundColor: '#e0e0e0',
+              border: '1px solid var(--cerner-border, #ccc)',
+              borderRadius: '3px',
+              cursor: 'pointer',
+              lineHeight: '18px',
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={!allValid}
+            style={{
+              padding: '6px 20px',
+              fontSize: '11px',
+              fontFamily: FONT_FAMILY,
+              fontWeight: 600,
+              color: '#ffffff',
+              backgroundColor: allValid ? 'var(--cerner-dark-blue, #004578)' : '#a0b4c8',
+              border: allValid ? '1px solid #003460' : '1px solid #8899aa',
+              borderRadius: '3px',
+              cursor: allValid ? 'pointer' : 'not-allowed',
+              lineHeight: '18px',
+            }}
+          >
+            Sign Screen
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
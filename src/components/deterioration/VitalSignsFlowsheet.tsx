@@ -10,9 +10,14 @@
  */
 
 import { useMemo } from 'react';
-import type { VitalSign, QADDSSubScore, QADDSScore } from '../../types';
-import { calculateQADDS } from '../../services/newsCalculator';
-import type { QADDSResult } from '../../types';
+import type {
+  ChartVariant,
+  VitalSign,
+  QaddsParameter,
+  QaddsScore,
+  QaddsSubScoreValue,
+} from '../../types';
+import { calculateQadds } from '../../services/qaddsCalculator';
 import '../../styles/components/views.css';
 
 // ---------------------------------------------------------------------------
@@ -25,6 +30,8 @@ export interface VitalSignsFlowsheetProps {
   vitals: VitalSign[];
   /** Maximum number of time columns to display. */
   maxColumns?: number;
+  /** Chart variant to score against (default 'standard'). */
+  variant?: ChartVariant;
 }
 
 // ---------------------------------------------------------------------------
@@ -35,7 +42,7 @@ export interface VitalSignsFlowsheetProps {
  * Map a Q-ADDS sub-score to a CSS variable level.
  * 0→0, 1→1, 2→2, 3→3, 4→4, E→4
  */
-function subScoreToLevel(score: QADDSScore): number {
+function subScoreToLevel(score: QaddsSubScoreValue): number {
   if (score === 'E') return 4;
   return score;
 }
@@ -55,19 +62,22 @@ function totalScoreToLevel(score: number): number {
 // Configuration
 // ---------------------------------------------------------------------------
 
-/** Parameter row definitions mapping vital fields to display labels. */
+/**
+ * Parameter row definitions mapping vital fields to display labels. Rows
+ * without a Q-ADDS parameter are shown uncoloured.
+ */
 const FLOWSHEET_PARAMS: Array<{
   label: string;
-  newsParam: string;
+  newsParam: QaddsParameter | null;
   render: (v: VitalSign) => string;
 }> = [
-  { label: 'Temperature (°C)', newsParam: 'Temperature', render: (v) => (v.temp != null ? String(v.temp) : '—') },
-  { label: 'Heart Rate (bpm)', newsParam: 'Heart Rate', render: (v) => (v.hr != null ? String(v.hr) : '—') },
-  { label: 'Resp Rate (/min)', newsParam: 'Respiratory Rate', render: (v) => (v.rr != null ? String(v.rr) : '—') },
-  { label: 'Systolic BP (mmHg)', newsParam: 'Systolic BP', render: (v) => (v.bp_sys != null ? String(v.bp_sys) : '—') },
-  { label: 'SpO2 (%)', newsParam: 'SpO2', render: (v) => (v.spo2 != null ? String(v.spo2) : '—') },
-  { label: 'AVPU', newsParam: 'Consciousness', render: (v) => (v.avpu ?? '—') },
-  { label: 'Supplemental O2', newsParam: 'Supplemental O2', render: (v) => (v.supplementalO2 ? 'Yes' : 'No') },
+  { label: 'Temperature (°C)', newsParam: 'temperature', render: (v) => (v.temp != null ? String(v.temp) : '—') },
+  { label: 'Heart Rate (bpm)', newsParam: 'heartRate', render: (v) => (v.hr != null ? String(v.hr) : '—') },
+  { label: 'Resp Rate (/min)', newsParam: 'rr', render: (v) => (v.rr != null ? String(v.rr) : '—') },
+  { label: 'Systolic BP (mmHg)', newsParam: 'systolicBP', render: (v) => (v.bp_sys != null ? String(v.bp_sys) : '—') },
+  { label: 'SpO2 (%)', newsParam: 'spo2', render: (v) => (v.spo2 != null ? String(v.spo2) : '—') },
+  { label: 'AVPU', newsParam: 'consciousness', render: (v) => (v.avpu ?? '—') },
+  { label: 'Supplemental O2', newsParam: null, render: (v) => (v.supplementalO2 ? 'Yes' : 'No') },
 ];
 
 // ---------------------------------------------------------------------------
@@ -81,13 +91,14 @@ const FLOWSHEET_PARAMS: Array<{
 export default function VitalSignsFlowsheet({
   vitals,
   maxColumns = 8,
+  variant,
 }: VitalSignsFlowsheetProps) {
   const displayVitals = vitals.slice(0, maxColumns);
 
   /** Pre-compute Q-ADDS results for each vital observation. */
-  const newsResults = useMemo<QADDSResult[]>(
-    () => displayVitals.map((v) => calculateQADDS(v)),
-    [displayVitals],
+  const newsResults = useMemo<QaddsScore[]>(
+    () => displayVitals.map((v) => calculateQadds(v, variant)),
+    [displayVitals, variant],
   );
 
   if (displayVitals.length === 0) {
@@ -99,13 +110,10 @@ export default function VitalSignsFlowsheet({
   }
 
   /**
-   * Look up the sub-score for a given parameter name from a Q-ADDS result.
+   * Look up the sub-score for a given parameter from a Q-ADDS score.
    */
-  function getSubScore(result: QADDSResult, paramName: string): QADDSScore {
-    const sub = result.subScores.find(
-      (s: QADDSSubScore) => s.parameter === paramName,
-    );
-    return sub?.score ?? 0;
+  function getSubScore(result: QaddsScore, param: QaddsParameter | null): QaddsSubScoreValue {
+    return param ? result.subScores[param].score : 0;
   }
 
   return (
@@ -178,11 +186,11 @@ function FlowsheetRow({
   getSubScore,
 }: {
   label: string;
-  newsParam: string;
+  newsParam: QaddsParameter | null;
   vitals: VitalSign[];
-  newsResults: QADDSResult[];
+  newsResults: QaddsScore[];
   render: (v: VitalSign) => string;
-  getSubScore: (result: QADDSResult, param: string) => QADDSScore;
+  getSubScore: (result: QaddsScore, param: QaddsParameter | null) => QaddsSubScoreValue;
 }) {
   return (
     <>
@@ -13,8 +13,10 @@
 
 import { useState, useMemo } from 'react';
 import { usePatientStore } from '../../stores/patientStore';
-import { calculateQADDS } from '../../services/newsCalculator';
-import type { VitalSign, ClinicalNote, QADDSResult } from '../../types';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { useClockStore } from '../../stores/clockStore';
+import { calculateQadds, getPatientChartVariant } from '../../services/qaddsCalculator';
+import type { VitalSign, ClinicalNote, QaddsScore } from '../../types';
 import '../../styles/components/views.css';
 
 // ---------------------------------------------------------------------------
@@ -56,10 +58,14 @@ export default function DoctorView() {
   const [expandedNoteId, setExpandedNoteId] = useState<string | null>(null);
 
   /** Compute Q-ADDS score from the most recent vital sign observation. */
-  const latestNews: QADDSResult | null = useMemo(() => {
-    if (!patient?.vitals?.length) return null;
-    return calculateQADDS(patient.vitals[0]);
-  }, [patient?.vitals]);
+  const vitals = patient?.vitals;
+  const scoringSystem = useSettingsStore((s) => s.scoringSystem);
+  const now = useClockStore((s) => s.currentTime);
+  const chartVariant = patient ? getPatientChartVariant(patient, scoringSystem, now) : undefined;
+  const latestNews: QaddsScore | null = useMemo(() => {
+    if (!vitals?.length) return null;
+    return calculateQadds(vitals[0], chartVariant);
+  }, [vitals, chartVariant]);
 
   if (!patient) {
     return <div className="text-muted" style={{ padding: 20 }}>No patient selected</div>;
@@ -106,13 +112,13 @@ export default function DoctorView() {
                 <>
                   <div className="chart-cell label" title="Q-ADDS Early Warning Score">EWS</div>
                   {recentVitals.map((v, i) => {
-                    const result = calculateQADDS(v);
+                    const result = calculateQadds(v, chartVariant);
                     return (
                       <div
                         key={i}
-                        className={`chart-cell${result.totalScore >= 8 || result.hasEZone ? ' abnormal' : ''}`}
+                        className={`chart-cell${result.clinicalRisk === 'Emergency' ? ' abnormal' : ''}`}
                       >
-                        {result.totalScore} ({result.riskLevel})
+                        {result.totalScore} ({result.clinicalRisk})
                       </div>
                     );
                   })}
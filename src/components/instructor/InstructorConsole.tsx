@@ -0,0 +1,360 @@
+/**
+ * @file InstructorConsole.tsx
+ * @description Facilitator console served at `/instructor`.
+ *
+ * Opened in a second browser window alongside the learner's EMR tab. The
+ * two windows talk over a BroadcastChannel (see instructorChannel.ts), so
+ * the facilitator can, without touching the learner's screen:
+ * - Start, pause, resume, or advance the simulation clock
+ * - Inject a set of vital signs
+ * - Set or clear staff concern on the latest vitals set
+ * - Fire a Discern alert
+ * - Add a clinical note
+ *
+ * The console shows the learner's clock, current patient, and view from the
+ * status snapshots the learner tab broadcasts.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { openInstructorChannel, type InstructorChannel } from '../../services/instructorChannel';
+import type { AlertData } from '../../services/alertEngine';
+import { formatChartDateTime } from '../../services/scenarioEngine';
+import type { AVPUScale, NoteType, VitalSign } from '../../types';
+import type { InstructorCommand, LearnerStatus } from '../../types/instructor';
+import '../../styles/components/common.css';
+import '../../styles/components/instructor.css';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Numeric vitals fields offered in the inject form. */
+const VITAL_FIELDS: Array<{ key: keyof VitalSign; label: string }> = [
+  { key: 'rr', label: 'RR' },
+  { key: 'spo2', label: 'SpO₂ %' },
+  { key: 'o2FlowRate', label: 'O₂ L/min' },
+  { key: 'bp_sys', label: 'SBP' },
+  { key: 'bp_dia', label: 'DBP' },
+  { key: 'hr', label: 'HR' },
+  { key: 'temp', label: 'Temp °C' },
+];
+
+const AVPU_OPTIONS: AVPUScale[] = ['Alert', 'Voice', 'Pain', 'Unresponsive'];
+
+const ALERT_RANGES: Array<{ value: AlertData['ewsRange']; label: string }> = [
+  { value: '1-3', label: 'EW Score 1-3' },
+  { value: '4-5', label: 'EW Score 4-5' },
+  { value: '6-7', label: 'EW Score 6-7' },
+  { value: '>=8', label: 'MET Call Criteria (EWS ≥ 8)' },
+  { value: 'E', label: 'E Zone Response' },
+  { value: 'nurse-concern', label: 'Staff Member Concern' },
+  { value: 'trend', label: 'Deteriorating Trend' },
+  { value: 'overdue-obs', label: 'Observations Overdue' },
+];
+
+const NOTE_TYPES: NoteType[] = ['Nursing', 'Progress', 'Consultation', 'Handover', 'Other'];
+
+/** Clock jumps offered as quick buttons, in minutes. */
+const ADVANCE_STEPS = [5, 15, 60];
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/**
+ * InstructorConsole renders the facilitator control panel and keeps it in
+ * sync with the learner's tab.
+ */
+export default function InstructorConsole() {
+  const channelRef = useRef<InstructorChannel | null>(null);
+  const [status, setStatus] = useState<LearnerStatus | null>(null);
+  const [selectedMrn, setSelectedMrn] = useState('');
+
+  const [vitals, setVitals] = useState<Record<string, string>>({});
+  const [avpu, setAvpu] = useState<AVPUScale>('Alert');
+  const [alertRange, setAlertRange] = useState<AlertData['ewsRange']>('>=8');
+  const [sepsisPrompt, setSepsisPrompt] = useState(false);
+  const [noteType, setNoteType] = useState<NoteType>('Nursing');
+  const [noteTitle, setNoteTitle] = useState('');
+  const [noteContent, setNoteContent] = useState('');
+  const [lastAction, setLastAction] = useState<string | null>(null);
+
+  /* Open the channel and ask any learner tab for its status. */
+  useEffect(() => {
+    const channel = openInstructorChannel();
+    channelRef.current = channel;
+    const unsubscribe = channel.subscribe((message) => {
+      if (message.type === 'status') setStatus(message);
+    });
+    channel.post({ type: 'status/request' });
+
+    return () => {
+      unsubscribe();
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  const patientMrn = selectedMrn || status?.currentPatientMrn || status?.patients[0]?.mrn || '';
+  const patient = status?.patients.find((p) => p.mrn === patientMrn) ?? null;
+  const latest = patient?.latestVitals ?? null;
+
+  /** Send a command and note it in the action log line. */
+  const send = (command: InstructorCommand, description: string) => {
+    channelRef.current?.post(command);
+    setLastAction(description);
+  };
+
+  const handleCopyLatest = () => {
+    if (!latest) return;
+    const next: Record<string, string> = {};
+    for (const { key } of VITAL_FIELDS) {
+      const value = latest[key];
+      if (value !== undefined && value !== '') next[key] = String(value);
+    }
+    setVitals(next);
+    if (latest.avpu) setAvpu(latest.avpu);
+  };
+
+  const handleInjectVitals = () => {
+    if (!patientMrn) return;
+    const charted: Omit<VitalSign, 'datetime'> = { avpu };
+    for (const { key } of VITAL_FIELDS) {
+      const value = Number(vitals[key]);
+      if (vitals[key]?.trim() && Number.isFinite(value)) {
+        (charted as Record<string, unknown>)[key] = value;
+      }
+    }
+    charted.supplementalO2 = Number(charted.o2FlowRate ?? 0) > 0;
+    send({ type: 'vitals/inject', patientMrn, vitals: charted }, 'Vitals injected');
+  };
+
+  const handleFireAlert = () => {
+    if (!patientMrn) return;
+    send(
+      {
+        type: 'alert/fire',
+        patientMrn,
+        ewsRange: alertRange,
+        showSepsisPrompt: sepsisPrompt,
+      },
+      `Alert fired: ${ALERT_RANGES.find((r) => r.value === alertRange)?.label}`,
+    );
+  };
+
+  const handleAddNote = () => {
+    if (!patientMrn || !noteContent.trim()) return;
+    send(
+      {
+        type: 'note/add',
+        patientMrn,
+        note: {
+          type: noteType,
+          title: noteTitle.trim() || `${noteType} Note`,
+          author: 'SIM FACILITATOR',
+          content: noteContent.trim(),
+        },
+      },
+      'Note added',
+    );
+    setNoteTitle('');
+    setNoteContent('');
+  };
+
+  return (
+    <div className="instructor-console">
+      <header className="instructor-console__header">
+        <span>Instructor Console</span>
+        <span className={`instructor-console__link${status ? ' instructor-console__link--connected' : ''}`}>
+          {status ? '● Learner connected' : '○ Waiting for learner window…'}
+        </span>
+      </header>
+
+      <div className="instructor-console__grid">
+        {/* Clock */}
+        <section className="instructor-console__panel">
+          <h3>Simulation Clock</h3>
+          <div className="instructor-console__readout">
+            {status ? formatChartDateTime(new Date(status.clock.currentTime)) : '--'}
+            {status && (
+              <span className="text-muted">
+                {' '}
+                {!status.clock.isRunning ? 'Stopped' : status.clock.isPaused ? 'Paused' : `Running ${status.clock.playbackSpeed}×`}
+              </span>
+            )}
+          </div>
+          <div className="instructor-console__row">
+            {!status?.clock.isRunning ? (
+              <button className="btn btn-primary btn-sm" type="button" onClick={() => send({ type: 'clock/start' }, 'Clock started')}>
+                Start
+              </button>
+            ) : status.clock.isPaused ? (
+              <button className="btn btn-primary btn-sm" type="button" onClick={() => send({ type: 'clock/resume' }, 'Clock resumed')}>
+                Resume
+              </button>
+            ) : (
+              <button className="btn btn-sm" type="button" onClick={() => send({ type: 'clock/pause' }, 'Clock paused')}>
+                Pause
+              </button>
+            )}
+            {ADVANCE_STEPS.map((minutes) => (
+              <button
+                key={minutes}
+                className="btn btn-sm"
+                type="button"
+                onClick={() => send({ type: 'clock/advance', minutes }, `Clock advanced ${minutes} min`)}
+              >
+                +{minutes >= 60 ? `${minutes / 60}h` : `${minutes}m`}
+              </button>
+            ))}
+          </div>
+          {status && (
+            <div className="text-muted mt-10">
+              Learner view: {status.currentView}
+              {status.currentPatientMrn ? ` — ${status.currentPatientMrn}` : ''}
+            </div>
+          )}
+        </section>
+
+        {/* Patient */}
+        <section className="instructor-console__panel">
+          <h3>Patient</h3>
+          <select
+            className="form-control"
+            value={patientMrn}
+            onChange={(e) => setSelectedMrn(e.target.value)}
+            disabled={!status}
+          >
+            {status?.patients.map((p) => (
+              <option key={p.mrn} value={p.mrn}>
+                {p.name} ({p.mrn})
+              </option>
+            ))}
+          </select>
+          {latest ? (
+            <div className="text-muted mt-10">
+              Latest obs {latest.datetime}: HR {latest.hr ?? '-'}, RR {latest.rr ?? '-'}, BP{' '}
+              {latest.bp_sys ?? '-'}/{latest.bp_dia ?? '-'}, SpO₂ {latest.spo2 ?? '-'}%
+            </div>
+          ) : (
+            <div className="text-muted mt-10">No observations charted</div>
+          )}
+          <label className="instructor-console__check mt-10">
+            <input
+              type="checkbox"
+              checked={latest?.nurseConcern === true}
+              disabled={!latest}
+              onChange={(e) =>
+                send(
+                  { type: 'vitals/nurse-concern', patientMrn, nurseConcern: e.target.checked },
+                  e.target.checked ? 'Staff concern set' : 'Staff concern cleared',
+                )
+              }
+            />
+            Staff concern on latest vitals
+          </label>
+        </section>
+
+        {/* Vitals */}
+        <section className="instructor-console__panel">
+          <h3>Inject Vitals</h3>
+          <div className="instructor-console__vitals">
+            {VITAL_FIELDS.map(({ key, label }) => (
+              <label key={key} className="form-group">
+                <span className="form-label">{label}</span>
+                <input
+                  className="form-control"
+                  inputMode="decimal"
+                  value={vitals[key] ?? ''}
+                  onChange={(e) => setVitals((prev) => ({ ...prev, [key]: e.target.value }))}
+                />
+              </label>
+            ))}
+            <label className="form-group">
+              <span className="form-label">AVPU</span>
+              <select className="form-control" value={avpu} onChange={(e) => setAvpu(e.target.value as AVPUScale)}>
+                {AVPU_OPTIONS.map((a) => (
+                  <option key={a} value={a}>
+                    {a}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="instructor-console__row">
+            <button className="btn btn-sm" type="button" onClick={handleCopyLatest} disabled={!latest}>
+              Copy latest
+            </button>
+            <button className="btn btn-primary btn-sm" type="button" onClick={handleInjectVitals} disabled={!patientMrn}>
+              Chart vitals
+            </button>
+          </div>
+        </section>
+
+        {/* Alert */}
+        <section className="instructor-console__panel">
+          <h3>Fire Alert</h3>
+          <select
+            className="form-control"
+            value={alertRange}
+            onChange={(e) => setAlertRange(e.target.value as AlertData['ewsRange'])}
+          >
+            {ALERT_RANGES.map((r) => (
+              <option key={r.value} value={r.value}>
+                {r.label}
+              </option>
+            ))}
+          </select>
+          <label className="instructor-console__check mt-10">
+            <input type="checkbox" checked={sepsisPrompt} onChange={(e) => setSepsisPrompt(e.target.checked)} />
+            Show sepsis screening prompt
+          </label>
+          <div className="instructor-console__row">
+            <button className="btn btn-danger btn-sm" type="button" onClick={handleFireAlert} disabled={!patientMrn}>
+              Fire alert
+            </button>
+          </div>
+        </section>
+
+        {/* Note */}
+        <section className="instructor-console__panel instructor-console__panel--wide">
+          <h3>Add Clinical Note</h3>
+          <div className="instructor-console__row">
+            <select className="form-control" value={noteType} onChange={(e) => setNoteType(e.target.value as NoteType)}>
+              {NOTE_TYPES.map((t) => (
+                <option key={t} value={t}>
+                  {t}
+                </option>
+              ))}
+            </select>
+            <input
+              className="form-control"
+              placeholder="Title"
+              value={noteTitle}
+              onChange={(e) => setNoteTitle(e.target.value)}
+            />
+          </div>
+          <textarea
+            className="form-control mt-10"
+            rows={4}
+            placeholder="Note content"
+            value={noteContent}
+            onChange={(e) => setNoteContent(e.target.value)}
+          />
+          <div className="instructor-console__row">
+            <button
+              className="btn btn-primary btn-sm"
+              type="button"
+              onClick={handleAddNote}
+              disabled={!patientMrn || !noteContent.trim()}
+            >
+              Add note
+            </button>
+          </div>
+        </section>
+      </div>
+
+      {lastAction && <div className="instructor-console__log">Last action: {lastAction}</div>}
+    </div>
+  );
+}
@@ -20,8 +20,8 @@ import type {
   AssessmentEntry,
   TimeInterval,
 } from '../../types/iview';
-import type { VitalSign, QADDSResult } from '../../types';
-import { calculateQADDS } from '../../services/newsCalculator';
+import type { ChartVariant, VitalSign, QaddsScore } from '../../types';
+import { calculateQadds } from '../../services/qaddsCalculator';
 
 // ---------------------------------------------------------------------------
 // Props
@@ -50,6 +50,9 @@ export interface FlowsheetSectionProps {
   /** Patient vital signs for pre-populating the Vital Signs section. */
   vitals: VitalSign[];
 
+  /** Patient's Q-ADDS chart form, used to score the EWS row. */
+  chartVariant?: ChartVariant;
+
   /** Callback when a flowsheet cell is clicked. */
   onCellClick: (parameterId: string, timeSlot: string) => void;
 }
@@ -173,6 +176,7 @@ export default function FlowsheetSection({
   timeRangeEnd,
   showEmptyRows,
   vitals,
+  chartVariant,
   onCellClick,
 }: FlowsheetSectionProps) {
   /** Generate time slot columns. */
@@ -203,13 +207,13 @@ export default function FlowsheetSection({
 
   /** Q-ADDS results by time slot for the aggregate row. */
   const newsResultsBySlot = useMemo(() => {
-    if (!isVitalsSection) return new Map<string, QADDSResult>();
-    const map = new Map<string, QADDSResult>();
+    if (!isVitalsSection) return new Map<string, QaddsScore>();
+    const map = new Map<string, QaddsScore>();
     for (const [slot, vital] of vitalsBySlot) {
-      map.set(slot, calculateQADDS(vital));
+      map.set(slot, calculateQadds(vital, chartVariant));
     }
     return map;
-  }, [isVitalsSection, vitalsBySlot]);
+  }, [isVitalsSection, vitalsBySlot, chartVariant]);
 
   /** Look up a cell value from entries or pre-populated vitals. */
   function getCellValue(
@@ -413,7 +417,7 @@ function NewsScoreRow({
 }: {
   timeSlots: string[];
   currentSlot: string;
-  newsResultsBySlot: Map<string, QADDSResult>;
+  newsResultsBySlot: Map<string, QaddsScore>;
 }) {
   return (
     <>
@@ -439,9 +443,9 @@ function NewsScoreRow({
           );
         }
 
-        const { totalScore } = result;
+        const { totalScore, clinicalRisk } = result;
         const scoreLevel =
-          totalScore >= 8 ? 4 : totalScore >= 6 ? 3 : totalScore >= 4 ? 2 : totalScore >= 1 ? 1 : 0;
+          clinicalRisk === 'Emergency' ? 4 : totalScore >= 6 ? 3 : totalScore >= 4 ? 2 : totalScore >= 1 ? 1 : 0;
 
         return (
           <div
@@ -456,7 +460,7 @@ function NewsScoreRow({
                   ? 'var(--news-score-text-light)'
                   : 'var(--news-score-text-dark)',
             }}
-            title={`EWS: ${totalScore} (${result.riskLevel} risk)`}
+            title={`EWS: ${totalScore} (${clinicalRisk} risk)`}
           >
             {totalScore}
           </div>
@@ -27,6 +27,8 @@
 
 import { useState, useCallback, useMemo } from 'react';
 import { usePatientStore } from '../../stores/patientStore';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { useClockStore } from '../../stores/clockStore';
 import type {
   IViewBand,
   IViewSection,
@@ -34,10 +36,14 @@ import type {
   TimeInterval,
   AssessmentParameter,
 } from '../../types/iview';
+import type { VitalSign } from '../../types';
 import NavigatorPanel from './NavigatorPanel';
 import IViewToolbar from './IViewToolbar';
 import FlowsheetSection from './FlowsheetSection';
 import AssessmentForm from './AssessmentForm';
+import { recordAction } from '../../hooks/useActionLog';
+import { applyScenarioIntervention } from '../../hooks/useScenarioRunner';
+import { getPatientChartVariant, parseValue } from '../../services/qaddsCalculator';
 import '../../styles/components/iview.css';
 
 // ---------------------------------------------------------------------------
@@ -301,6 +307,19 @@ function createDefaultBands(): IViewBand[] {
 // Helpers
 // ---------------------------------------------------------------------------
 
+/**
+ * The O₂ flow rate (L/min) the patient is on before a new entry: the last
+ * flow documented in iView, else the latest observation set, else room air.
+ */
+function getCurrentO2Flow(entries: AssessmentEntry[], vitals: VitalSign[] | undefined): number {
+  const documented = entries
+    .filter((e) => e.parameterId === 'o2-flow')
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .at(-1);
+  const flow = parseValue(documented?.value as string | number | undefined);
+  return flow ?? parseValue(vitals?.[0]?.o2FlowRate) ?? 0;
+}
+
 /** Get a sensible default time range: current day 00:00 to 23:59. */
 function getDefaultTimeRange(): { start: Date; end: Date } {
   const now = new Date();
@@ -323,6 +342,8 @@ export default function InteractiveView() {
   // -- Patient data from store -----------------------------------------------
 
   const currentPatient = usePatientStore((s) => s.currentPatient);
+  const scoringSystem = useSettingsStore((s) => s.scoringSystem);
+  const simTime = useClockStore((s) => s.currentTime);
 
   // -- iView state -----------------------------------------------------------
 
@@ -413,6 +434,17 @@ export default function InteractiveView() {
         }),
       );
 
+      // Turning up the O₂ can branch the running scenario.
+      const flowRate = parseValue(values['o2-flow'] as string | number | undefined);
+      if (currentPatient && flowRate !== null) {
+        applyScenarioIntervention({
+          kind: 'oxygen',
+          patientMrn: currentPatient.mrn,
+          flowRate,
+          previousFlowRate: getCurrentO2Flow(entries, currentPatient.vitals),
+        });
+      }
+
       setEntries((prev) => {
         const filtered = prev.filter(
           (e) =>
@@ -427,7 +459,7 @@ export default function InteractiveView() {
 
       setFormState({ open: false, parameterId: '', timeSlot: '' });
     },
-    [activeSectionId, activeBandId, formState],
+    [activeSectionId, activeBandId, formState, currentPatient, entries],
   );
 
   /** Close the assessment form. */
@@ -437,10 +469,17 @@ export default function InteractiveView() {
 
   /** Sign all unsigned entries. */
   const handleSign = useCallback(() => {
+    const unsigned = entries.filter((e) => !e.signed);
     setEntries((prev) => prev.map((e) => ({ ...e, signed: true })));
     setSignBanner(true);
     setTimeout(() => setSignBanner(false), 3000);
-  }, []);
+    if (unsigned.length > 0) {
+      recordAction('iview/signed', {
+        entryCount: unsigned.length,
+        sectionIds: [...new Set(unsigned.map((e) => e.sectionId))],
+      });
+    }
+  }, [entries]);
 
   /** Refresh handler (re-initialises time range). */
   const handleRefresh = useCallback(() => {
@@ -517,6 +556,7 @@ export default function InteractiveView() {
             timeRangeEnd={timeRange.end}
             showEmptyRows={showEmptyRows}
             vitals={patientVitals}
+            chartVariant={currentPatient ? getPatientChartVariant(currentPatient, scoringSystem, simTime) : undefined}
             onCellClick={handleCellClick}
           />
         </div>
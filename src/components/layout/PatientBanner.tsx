@@ -4,12 +4,15 @@
  *
  * Migrated from the PatientBanner section of emr-sim-v2.html. Shows the
  * patient's name, MRN (formatted as URN-PAH), DOB, age on the left side,
- * admission date, location, and attending clinician on the right side,
- * and an integrated AllergyBanner strip beneath.
+ * admission date, location, attending clinician, and a countdown to the
+ * next set of observations on the right side, and an integrated
+ * AllergyBanner strip beneath.
  */
 
 import type { Patient } from '../../types';
 import AllergyBanner from '../common/AllergyBanner';
+import { useObsSchedule } from '../../hooks/useObsWatcher';
+import type { ObsSchedule } from '../../services/observationSchedule';
 import '../../styles/components/layout.css';
 
 /** Props accepted by PatientBanner. */
@@ -30,12 +33,26 @@ function formatMRN(mrn: string): string {
   return mrn;
 }
 
+/**
+ * Formats the obs countdown, e.g. "14:30 (in 1 h 5 min)" or
+ * "OVERDUE 12 min (due 14:30)".
+ */
+function formatObsDue(schedule: ObsSchedule): string {
+  const due = new Date(schedule.dueAt);
+  const time = `${String(due.getHours()).padStart(2, '0')}:${String(due.getMinutes()).padStart(2, '0')}`;
+  const minutes = Math.abs(schedule.minutesRemaining);
+  const span = minutes >= 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes} min`;
+  return schedule.overdue ? `OVERDUE ${span} (due ${time})` : `${time} (in ${span})`;
+}
+
 /**
  * PatientBanner displays key patient identification and admission information
  * in a prominent strip below the top navigation bar, with an integrated
  * allergy banner showing colour-coded allergy status.
  */
 export default function PatientBanner({ patient, activeAlerts }: PatientBannerProps) {
+  const obsSchedule = useObsSchedule(patient);
+
   return (
     <div className="patient-banner-wrapper">
       <div className="patient-banner">
@@ -76,6 +93,17 @@ export default function PatientBanner({ patient, activeAlerts }: PatientBannerPr
             <span className="patient-banner-detail-label">Attending:</span>
             <span>{patient.attending}</span>
           </div>
+          {obsSchedule && (
+            <div
+              className={`patient-banner-right-item patient-banner-obs-due${
+                obsSchedule.overdue ? ' patient-banner-obs-due--overdue' : ''
+              }`}
+              title={`Obs frequency: ${obsSchedule.description}`}
+            >
+              <span className="patient-banner-detail-label">Next obs:</span>
+              <span>{formatObsDue(obsSchedule)}</span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -52,7 +52,10 @@ const SIDEBAR_SECTIONS: SidebarSection[] = [
   {
     header: 'Tools',
     items: [
+      { id: 'census', label: 'Ward Census' },
       { id: 'handover', label: 'Handover Summary' },
+      { id: 'debrief', label: 'Simulation Debrief' },
+      { id: 'settings', label: 'Site Settings' },
     ],
   },
 ];
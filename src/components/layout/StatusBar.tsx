@@ -3,16 +3,18 @@
  * @description Footer status bar showing simulation clock controls and training mode indicator.
  *
  * Integrates the SimulationClock component for interactive time controls
- * alongside the ward code and training mode badge.
+ * and the ScenarioControl picker alongside the ward code and training
+ * mode badge.
  */
 
 import { usePatientStore } from '../../stores/patientStore';
 import SimulationClock from '../common/SimulationClock';
+import ScenarioControl from '../common/ScenarioControl';
 import '../../styles/components/layout.css';
 
 /**
  * StatusBar renders the footer strip with ward location, the simulation
- * clock control panel, and the training mode indicator.
+ * clock control panel, the scenario picker, and the training mode indicator.
  */
 export default function StatusBar() {
   const currentPatient = usePatientStore((s) => s.currentPatient);
@@ -27,6 +29,7 @@ export default function StatusBar() {
           <span>{wardCode}</span>
         </span>
         <SimulationClock />
+        <ScenarioControl />
       </div>
       <div className="status-bar-right">
         EMR Simulation - Training Mode
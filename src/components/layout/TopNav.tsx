@@ -3,9 +3,10 @@
  * @description Top navigation bar for the SimCerner EMR application.
  *
  * Migrated from the TopNav section of emr-sim-v2.html. Provides the
- * main menu items (Task, Edit, View, Patient, Chart, etc.) and wires
- * the "Patient" item to clear the current patient selection and return
- * to the patient search screen.
+ * main menu items (Task, Edit, View, Patient, Chart, etc.), wires the
+ * "Patient List" item to the ward census and "Options" to site settings,
+ * and wires the "Patient" item to clear the current patient selection and
+ * return to the patient search screen.
  */
 
 import { usePatientStore } from '../../stores/patientStore';
@@ -39,10 +40,11 @@ export default function TopNav() {
     { label: 'Task' },
     { label: 'Edit' },
     { label: 'View' },
+    { label: 'Patient List', onClick: () => setCurrentView('census') },
     { label: 'Patient', onClick: handlePatientClick },
     { label: 'Chart' },
     { label: 'Notifications' },
-    { label: 'Options' },
+    { label: 'Options', onClick: () => setCurrentView('settings') },
     { label: 'Help' },
   ];
 
@@ -6,28 +6,51 @@
  * event. Provides:
  * - Medication name, dose, route display
  * - Action buttons: Give, Hold, Refuse, Not Given
+ * - Barcode scan step (for Give, see {@link BcmaScanStep}): a hard stop
+ *   blocks the dose; a soft stop allows it with a documented override reason
  * - Reason selection dropdown (for Hold/Refuse/Not Given)
+ * - Site and witness fields (for Give)
  * - Nurse name field (auto-filled from session)
+ * - What was previously documented for the dose, if anything
  * - Confirm button
  */
 
 import { useState } from 'react';
-import type { Medication } from '../../types';
+import type { AdministrationStatus, Medication, MedicationAdministration } from '../../types';
 import { MedicationDoseStatus } from '../../types';
+import BcmaScanStep, { type BcmaScanResult } from './BcmaScanStep';
+import { formatDose, formatRoute } from '../../services/medicationOrders';
+import type { BcmaScanner } from '../../services/bcma';
+import { formatChartDateTime } from '../../services/scenarioEngine';
 import '../../styles/components/views.css';
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
+/** What the nurse documented in the dialog; blank fields are empty strings. */
+export interface AdministrationEntry {
+  status: AdministrationStatus;
+  reason: string;
+  site: string;
+  nurse: string;
+  witness: string;
+  /** Why a Give went ahead despite a soft stop at the scan. */
+  overrideReason: string;
+}
+
 /** Props accepted by AdminDialog. */
 export interface AdminDialogProps {
   /** The medication being administered. */
   medication: Medication;
   /** The scheduled time slot being actioned. */
   scheduledTime: string;
+  /** The latest record already documented for this dose, if any. */
+  previous?: MedicationAdministration;
+  /** Scanner a Give must pass through. */
+  scanner: BcmaScanner;
   /** Callback when the dialog is confirmed with an action. */
-  onConfirm: (action: MedicationDoseStatus, reason: string, nurse: string) => void;
+  onConfirm: (entry: AdministrationEntry) => void;
   /** Callback to close the dialog without acting. */
   onCancel: () => void;
 }
@@ -61,14 +84,11 @@ const NOT_GIVEN_REASONS = [
   'Other (specify in notes)',
 ];
 
-/** Action options for the administration dialog. */
-type AdminAction =
-  | typeof MedicationDoseStatus.GIVEN
-  | typeof MedicationDoseStatus.HELD
-  | typeof MedicationDoseStatus.REFUSED
-  | typeof MedicationDoseStatus.NOT_GIVEN;
+/** Scan step outcome before a scan has been verified. */
+const NOT_SCANNED: BcmaScanResult = { passed: false, overrideReason: '' };
 
-const ACTIONS: Array<{ label: string; status: AdminAction; colour: string }> = [
+/** Action options for the administration dialog. */
+const ACTIONS: Array<{ label: string; status: AdministrationStatus; colour: string }> = [
   { label: 'Give', status: MedicationDoseStatus.GIVEN, colour: '#4caf50' },
   { label: 'Hold', status: MedicationDoseStatus.HELD, colour: '#ff9800' },
   { label: 'Refuse', status: MedicationDoseStatus.REFUSED, colour: '#9c27b0' },
@@ -81,17 +101,23 @@ const ACTIONS: Array<{ label: string; status: AdminAction; colour: string }> = [
 
 /**
  * AdminDialog renders a modal for recording a medication administration
- * action (give, hold, refuse, not given) with reason and nurse details.
+ * action (give, hold, refuse, not given) with reason, site, nurse and
+ * witness details, scanning the wristband and medication before a Give.
  */
 export default function AdminDialog({
   medication,
   scheduledTime,
+  previous,
+  scanner,
   onConfirm,
   onCancel,
 }: AdminDialogProps) {
-  const [selectedAction, setSelectedAction] = useState<AdminAction | null>(null);
+  const [selectedAction, setSelectedAction] = useState<AdministrationStatus | null>(null);
   const [reason, setReason] = useState('');
+  const [site, setSite] = useState('');
   const [nurse, setNurse] = useState('RN Simulation User');
+  const [witness, setWitness] = useState('');
+  const [scan, setScan] = useState<BcmaScanResult>(NOT_SCANNED);
 
   /** Get the relevant reason list for the selected action. */
   const getReasons = (): string[] => {
@@ -110,14 +136,24 @@ export default function AdminDialog({
   const needsReason =
     selectedAction != null && selectedAction !== MedicationDoseStatus.GIVEN;
 
+  const isGive = selectedAction === MedicationDoseStatus.GIVEN;
+
   const canConfirm =
     selectedAction != null &&
     nurse.trim().length > 0 &&
-    (!needsReason || reason.trim().length > 0);
+    (!needsReason || reason.trim().length > 0) &&
+    (!isGive || scan.passed);
 
   const handleConfirm = () => {
     if (!selectedAction) return;
-    onConfirm(selectedAction, reason, nurse);
+    onConfirm({
+      status: selectedAction,
+      reason,
+      site: isGive ? site.trim() : '',
+      nurse,
+      witness: witness.trim(),
+      overrideReason: isGive ? scan.overrideReason : '',
+    });
   };
 
   return (
@@ -136,10 +172,19 @@ export default function AdminDialog({
           <div className="admin-dialog__med-info">
             <div className="admin-dialog__med-name">{medication.name}</div>
             <div className="admin-dialog__med-detail">
-              {medication.dose} — {medication.route} — {scheduledTime}
+              {formatDose(medication.dose)} — {formatRoute(medication.route)} — {scheduledTime}
             </div>
           </div>
 
+          {/* Previous documentation for this dose */}
+          {previous && (
+            <div className="admin-dialog__previous">
+              Documented {previous.status.replace('_', ' ')} at{' '}
+              {formatChartDateTime(new Date(previous.timestamp))} by {previous.nurse}
+              {previous.reason && ` — ${previous.reason}`}
+            </div>
+          )}
+
           {/* Action selection */}
           <div className="admin-dialog__actions">
             {ACTIONS.map((action) => (
@@ -156,6 +201,7 @@ export default function AdminDialog({
                 onClick={() => {
                   setSelectedAction(action.status);
                   setReason('');
+                  setScan(NOT_SCANNED);
                 }}
               >
                 {action.label}
@@ -182,6 +228,23 @@ export default function AdminDialog({
             </div>
           )}
 
+          {/* Barcode scan (for Give) */}
+          {isGive && <BcmaScanStep scanner={scanner} onChange={setScan} />}
+
+          {/* Site (for Give) */}
+          {isGive && (
+            <div className="form-group">
+              <label className="form-label">Site:</label>
+              <input
+                className="form-control"
+                type="text"
+                placeholder="e.g. Left deltoid"
+                value={site}
+                onChange={(e) => setSite(e.target.value)}
+              />
+            </div>
+          )}
+
           {/* Nurse name */}
           <div className="form-group">
             <label className="form-label">Nurse:</label>
@@ -192,6 +255,18 @@ export default function AdminDialog({
               onChange={(e) => setNurse(e.target.value)}
             />
           </div>
+
+          {/* Witness */}
+          <div className="form-group">
+            <label className="form-label">Witness:</label>
+            <input
+              className="form-control"
+              type="text"
+              placeholder="Second nurse, if required"
+              value={witness}
+              onChange={(e) => setWitness(e.target.value)}
+            />
+          </div>
         </div>
 
         {/* Footer */}
@@ -0,0 +1,195 @@
+/**
+ * @file BcmaScanStep.tsx
+ * @description Barcode scan step of the MAR administration dialogs.
+ *
+ * The nurse scans (or types) the patient's wristband and the medication
+ * barcode, then verifies the scan against the order for the five rights
+ * (see `bcma`). Shows each right as passed, failed or not checked. A hard
+ * stop blocks the dose; a soft stop allows it once an override reason is
+ * documented. Shared by {@link AdminDialog} for scheduled doses and
+ * {@link PRNDialog} for PRN doses.
+ */
+
+import { useState } from 'react';
+import type { BcmaEntryMethod, BcmaScanEntry, BcmaStop, FiveRight } from '../../types';
+import { getStopLevel, type BcmaScan, type BcmaScanner } from '../../services/bcma';
+import '../../styles/components/views.css';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Outcome of the scan step, reported on every change. */
+export interface BcmaScanResult {
+  /** A verified scan with no hard stop, and an override reason for any soft stop. */
+  passed: boolean;
+  /** Why the dose goes ahead despite a soft stop; empty without one. */
+  overrideReason: string;
+}
+
+/** Props accepted by BcmaScanStep. */
+export interface BcmaScanStepProps {
+  /** The scanner at the bedside for the dose. */
+  scanner: BcmaScanner;
+  /** Callback with the outcome whenever the scan or override changes. */
+  onChange: (result: BcmaScanResult) => void;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Labels for the five rights, in checking order. */
+const FIVE_RIGHTS: Array<{ right: FiveRight; label: string }> = [
+  { right: 'patient', label: 'Right patient' },
+  { right: 'drug', label: 'Right drug' },
+  { right: 'dose', label: 'Right dose' },
+  { right: 'route', label: 'Right route' },
+  { right: 'time', label: 'Right time' },
+];
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/** BcmaScanStep renders the wristband and medication scan with its five-rights result. */
+export default function BcmaScanStep({ scanner, onChange }: BcmaScanStepProps) {
+  const [wristband, setWristband] = useState('');
+  const [barcode, setBarcode] = useState('');
+  const [entry, setEntry] = useState<BcmaScanEntry>({ wristband: 'typed', barcode: 'typed' });
+  /** Stops raised by the last verified scan; null until verified. */
+  const [stops, setStops] = useState<BcmaStop[] | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
+
+  const stopLevel = stops ? getStopLevel(stops) : null;
+
+  /** Any change to what was scanned needs verifying again. */
+  const changeScan = (update: Partial<BcmaScan>, method: BcmaEntryMethod) => {
+    if (update.wristband !== undefined) setWristband(update.wristband);
+    if (update.barcode !== undefined) setBarcode(update.barcode);
+    setEntry((prev) => ({
+      wristband: update.wristband !== undefined ? method : prev.wristband,
+      barcode: update.barcode !== undefined ? method : prev.barcode,
+    }));
+    setStops(null);
+    setOverrideReason('');
+    onChange({ passed: false, overrideReason: '' });
+  };
+
+  const handleVerify = () => {
+    const result = scanner.verify({ wristband, barcode }, entry);
+    setStops(result);
+    setOverrideReason('');
+    onChange({ passed: getStopLevel(result) === null, overrideReason: '' });
+  };
+
+  const handleOverride = (text: string) => {
+    setOverrideReason(text);
+    onChange({ passed: text.trim().length > 0, overrideReason: text.trim() });
+  };
+
+  return (
+    <div className="bcma-scan">
+      <div className="form-group">
+        <label className="form-label">Patient wristband:</label>
+        <div className="bcma-scan__field">
+          <input
+            className="form-control"
+            type="text"
+            placeholder="Scan or type MRN"
+            value={wristband}
+            onChange={(e) => changeScan({ wristband: e.target.value }, 'typed')}
+          />
+          <button
+            type="button"
+            className="btn"
+            onClick={() => changeScan({ wristband: scanner.wristband }, 'scanned')}
+          >
+            Scan
+          </button>
+        </div>
+      </div>
+      <div className="form-group">
+        <label className="form-label">Medication barcode:</label>
+        <div className="bcma-scan__field">
+          <input
+            className="form-control"
+            type="text"
+            placeholder="Scan or type barcode"
+            value={barcode}
+            onChange={(e) => changeScan({ barcode: e.target.value }, 'typed')}
+          />
+          <button
+            type="button"
+            className="btn"
+            onClick={() => changeScan({ barcode: scanner.barcode }, 'scanned')}
+          >
+            Scan
+          </button>
+        </div>
+      </div>
+      <button
+        type="button"
+        className="btn btn-primary"
+        disabled={!wristband.trim() || !barcode.trim()}
+        onClick={handleVerify}
+      >
+        Verify
+      </button>
+
+      {/* Five-rights result */}
+      {stops && (
+        <div
+          className={`bcma-result bcma-result--${stopLevel ?? 'pass'}`}
+          role={stopLevel ? 'alert' : 'status'}
+        >
+          <strong>
+            {stopLevel === 'hard'
+              ? 'Hard stop — do not give'
+              : stopLevel === 'soft'
+                ? 'Soft stop — override reason required'
+                : 'Five rights verified'}
+          </strong>
+          <ul>
+            {FIVE_RIGHTS.map(({ right, label }) => {
+              const failed = stops.filter((s) => s.right === right);
+              // Dose and route are only checked against the right drug.
+              if (
+                (right === 'dose' || right === 'route') &&
+                stops.some((s) => s.right === 'drug')
+              ) {
+                return <li key={right}>– {label} not checked</li>;
+              }
+              // A PRN dose's timing is checked against its interval instead.
+              if (right === 'time' && !scanner.scheduledAt) {
+                return <li key={right}>– {label}: PRN, see the interval check</li>;
+              }
+              return failed.length === 0 ? (
+                <li key={right}>✓ {label}</li>
+              ) : (
+                failed.map((stop) => (
+                  <li key={stop.message} className={`bcma-result__stop--${stop.level}`}>
+                    {stop.level === 'hard' ? '⛔' : '⚠'} {stop.message}
+                  </li>
+                ))
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {stopLevel === 'soft' && (
+        <div className="form-group">
+          <label className="form-label">Override reason:</label>
+          <input
+            className="form-control"
+            type="text"
+            placeholder="e.g. Dose confirmed with pharmacy"
+            value={overrideReason}
+            onChange={(e) => handleOverride(e.target.value)}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
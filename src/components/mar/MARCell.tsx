@@ -11,9 +11,14 @@
  * - HELD:      orange tint, ✋ icon
  * - NOT_GIVEN: grey, — icon
  * - FUTURE:    light grey dithered, no icon
+ *
+ * A dose that has been documented also shows the time it was documented,
+ * with who documented it and why in the tooltip.
  */
 
+import type { MedicationAdministration } from '../../types';
 import { MedicationDoseStatus } from '../../types';
+import { formatChartDateTime } from '../../services/scenarioEngine';
 import '../../styles/components/views.css';
 
 // ---------------------------------------------------------------------------
@@ -26,6 +31,8 @@ export interface MARCellProps {
   status: MedicationDoseStatus;
   /** Scheduled time label (e.g. "08:00"). */
   time: string;
+  /** The record documenting this dose, if it has been actioned. */
+  administration?: MedicationAdministration;
   /** Click handler for opening the administration dialog. */
   onClick?: () => void;
 }
@@ -56,6 +63,23 @@ function getStatusIcon(status: MedicationDoseStatus): string {
   }
 }
 
+/** Tooltip text: the slot and status, then what was documented. */
+function getTitle(
+  time: string,
+  status: MedicationDoseStatus,
+  administration?: MedicationAdministration,
+): string {
+  if (!administration) return `${time} — ${status}`;
+  const details = [
+    `${formatChartDateTime(new Date(administration.timestamp))} by ${administration.nurse}`,
+    administration.witness && `witness ${administration.witness}`,
+    administration.site,
+    administration.reason,
+    administration.overrideReason && `scan override: ${administration.overrideReason}`,
+  ].filter(Boolean);
+  return `${time} — ${status} — ${details.join(' — ')}`;
+}
+
 /** Map dose status to a CSS variable name for background colour. */
 function getStatusCssVar(status: MedicationDoseStatus): string {
   switch (status) {
@@ -88,7 +112,7 @@ function getStatusCssVar(status: MedicationDoseStatus): string {
  * MARCell renders a single time-slot cell in the MAR grid, colour-coded
  * by administration status with an appropriate icon.
  */
-export default function MARCell({ status, time, onClick }: MARCellProps) {
+export default function MARCell({ status, time, administration, onClick }: MARCellProps) {
   const icon = getStatusIcon(status);
   const bg = getStatusCssVar(status);
 
@@ -97,7 +121,7 @@ export default function MARCell({ status, time, onClick }: MARCellProps) {
       className={`mar-cell mar-cell--${status.toLowerCase()}`}
       style={{ backgroundColor: bg }}
       onClick={onClick}
-      title={`${time} — ${status}`}
+      title={getTitle(time, status, administration)}
       role="button"
       tabIndex={0}
       onKeyDown={(e) => {
@@ -105,6 +129,11 @@ export default function MARCell({ status, time, onClick }: MARCellProps) {
       }}
     >
       {icon && <span className="mar-cell__icon">{icon}</span>}
+      {administration && (
+        <span className="mar-cell__time">
+          {formatChartDateTime(new Date(administration.timestamp)).slice(-5)}
+        </span>
+      )}
     </div>
   );
 }
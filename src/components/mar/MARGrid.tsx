@@ -2,19 +2,41 @@
  * @file MARGrid.tsx
  * @description Time-based grid component for the Medication Administration Record.
  *
- * Generates time columns from 0000–2300 in configurable intervals (default 2 hours)
- * and maps medication scheduled times to the appropriate columns. Each cell is
- * rendered by {@link MARCell} with status determined by comparing scheduled times
- * against the current time and last-given timestamps.
+ * Shows a window of the simulation timeline — a 12-hour nursing shift, a
+ * day or three days — anchored on the simulation clock, with previous/next
+ * navigation back to admission and beyond now. Each scheduled dose falls in
+ * the column covering its date-time and is rendered by {@link MARCell} with
+ * a status rebuilt from that date-time, the clock and the medication's
+ * administration history (see `marSchedule`). Documenting a dose appends to
+ * that history in the patient store, so it survives navigation and reload.
+ * Giving a dose first passes the barcode scan (see `bcma`), which sees any
+ * wrong wristband or look-alike drug the running scenario has planted.
  */
 
-import { useMemo, useState } from 'react';
-import type { Medication } from '../../types';
+import { useEffect, useRef, useState } from 'react';
+import type { Medication, MedicationAdministration } from '../../types';
 import { MedicationDoseStatus } from '../../types';
 import MARCell from './MARCell';
-import AdminDialog from './AdminDialog';
+import AdminDialog, { type AdministrationEntry } from './AdminDialog';
+import { useClockStore } from '../../stores/clockStore';
 import { usePatientStore } from '../../stores/patientStore';
-import { saveAdministration } from '../../services/persistence';
+import { saveMedicationAdministration } from '../../services/db';
+import { formatDose, formatFrequency, formatRoute } from '../../services/medicationOrders';
+import {
+  MAR_WINDOW_OPTIONS,
+  findDoseAdministration,
+  getColumnIndex,
+  getDosesByColumn,
+  getDoseStatus,
+  getMarColumns,
+  getMarWindow,
+  type MarWindow,
+  type MarWindowHours,
+} from '../../services/marSchedule';
+import { formatChartDateTime, parseChartDateTime } from '../../services/scenarioEngine';
+import { applyScenarioIntervention } from '../../hooks/useScenarioRunner';
+import { recordAction } from '../../hooks/useActionLog';
+import { useBcmaScanner } from '../../hooks/useBcmaScanner';
 import '../../styles/components/views.css';
 
 // ---------------------------------------------------------------------------
@@ -25,82 +47,28 @@ import '../../styles/components/views.css';
 export interface MARGridProps {
   /** Array of medications to display in the grid. */
   medications: Medication[];
-  /** Current time used for determining cell status. Defaults to now. */
+  /** Current time used for determining cell status. Defaults to the simulation clock. */
   currentTime?: Date;
-  /** Interval between time columns in hours. Default 2. */
-  intervalHours?: number;
 }
 
 /** Internal representation of a dialog state. */
 interface DialogState {
   medication: Medication;
-  time: string;
+  scheduledAt: Date;
 }
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-/**
- * Generate an array of time-slot labels from 0000 to 2300 at the given
- * hour interval (e.g. ["00:00", "02:00", "04:00", ...]).
- */
-function generateTimeSlots(intervalHours: number): string[] {
-  const slots: string[] = [];
-  for (let h = 0; h < 24; h += intervalHours) {
-    slots.push(`${String(h).padStart(2, '0')}:00`);
-  }
-  return slots;
+/** Format a date as "HH:mm". */
+function formatClockTime(date: Date): string {
+  return formatChartDateTime(date).slice(-5);
 }
 
-/**
- * Parse a time string in "HH:mm" or "HHmm" format to total minutes since midnight.
- */
-function parseTimeToMinutes(time: string): number {
-  const cleaned = time.replace(':', '');
-  const hours = parseInt(cleaned.substring(0, 2), 10);
-  const minutes = parseInt(cleaned.substring(2, 4), 10) || 0;
-  return hours * 60 + minutes;
-}
-
-/**
- * Determine the dose status for a medication at a given time slot.
- */
-function getCellStatus(
-  medication: Medication,
-  slotTime: string,
-  currentMinutes: number,
-  isScheduledSlot: boolean,
-): MedicationDoseStatus {
-  if (!isScheduledSlot) {
-    return MedicationDoseStatus.FUTURE;
-  }
-
-  const slotMinutes = parseTimeToMinutes(slotTime);
-
-  // If medication has a lastGiven timestamp, check if this slot was covered
-  if (medication.lastGiven) {
-    const lastGivenDate = new Date(medication.lastGiven);
-    const lastGivenMinutes = lastGivenDate.getHours() * 60 + lastGivenDate.getMinutes();
-    if (slotMinutes <= lastGivenMinutes) {
-      return MedicationDoseStatus.GIVEN;
-    }
-  }
-
-  // Window: ±60 minutes from current time
-  if (slotMinutes <= currentMinutes - 60) {
-    return MedicationDoseStatus.OVERDUE;
-  }
-
-  if (Math.abs(slotMinutes - currentMinutes) <= 60) {
-    return MedicationDoseStatus.DUE;
-  }
-
-  if (slotMinutes > currentMinutes) {
-    return MedicationDoseStatus.PENDING;
-  }
-
-  return MedicationDoseStatus.PENDING;
+/** Format a date as "DD-Mon". */
+function formatDay(date: Date): string {
+  return formatChartDateTime(date).slice(0, 6);
 }
 
 // ---------------------------------------------------------------------------
@@ -109,45 +77,92 @@ function getCellStatus(
 
 /**
  * MARGrid renders the time-based medication administration grid with
- * medication rows, time-slot columns, and colour-coded status cells.
+ * window controls, medication rows, time columns, and colour-coded status
+ * cells.
  */
-export default function MARGrid({
-  medications,
-  currentTime,
-  intervalHours = 2,
-}: MARGridProps) {
+export default function MARGrid({ medications, currentTime }: MARGridProps) {
   const [dialog, setDialog] = useState<DialogState | null>(null);
+  const [windowHours, setWindowHours] = useState<MarWindowHours>(24);
+  /** Windows moved from the one containing now; negative is earlier. */
+  const [offset, setOffset] = useState(0);
   const patientMrn = usePatientStore((s) => s.currentPatient?.mrn ?? 'unknown');
+  const admission = usePatientStore((s) => s.currentPatient?.admission);
+  const recordAdministration = usePatientStore((s) => s.recordAdministration);
+  const clockTime = useClockStore((s) => s.currentTime);
+  const getScanner = useBcmaScanner();
+  const nowCellRef = useRef<HTMLDivElement>(null);
 
-  const now = currentTime ?? new Date();
-  const currentMinutes = now.getHours() * 60 + now.getMinutes();
+  const now = currentTime ?? clockTime;
+  const marWindow = getMarWindow(now, windowHours, offset);
+  const columns = getMarColumns(marWindow);
+  const nowColumn = getColumnIndex(columns, marWindow, now);
+  const admittedAt = admission ? parseChartDateTime(admission) : null;
+  const canGoBack = !admittedAt || marWindow.start > admittedAt;
 
-  /** Handle confirmed administration action — persist to IndexedDB. */
-  function handleAdminConfirm(
-    action: MedicationDoseStatus,
-    reason: string,
-    nurse: string,
-  ) {
+  // Bring the current time into view when the window changes.
+  useEffect(() => {
+    nowCellRef.current?.scrollIntoView?.({ block: 'nearest', inline: 'center' });
+  }, [windowHours, offset]);
+
+  /**
+   * Handle confirmed administration action — add it to the medication's
+   * history, persist it to IndexedDB and report GIVEN doses to the running
+   * scenario.
+   */
+  function handleAdminConfirm({
+    status: action,
+    reason,
+    site,
+    nurse,
+    witness,
+    overrideReason,
+  }: AdministrationEntry) {
     if (!dialog) return;
-    const id = crypto.randomUUID();
-    saveAdministration({
-      id,
-      patientMrn,
-      medicationName: dialog.medication.name,
-      timestamp: new Date().toISOString(),
-      nurse,
+    const simTime = useClockStore.getState().currentTime.toISOString();
+    const scheduledAt = dialog.scheduledAt.toISOString();
+    const administration: MedicationAdministration = {
+      id: crypto.randomUUID(),
+      scheduledAt,
+      timestamp: simTime,
       status: action,
-      notes: reason || undefined,
-    }).catch((err: unknown) => {
-      // Log persistence errors for debugging without blocking the UI
-      console.warn('[MARGrid] Failed to persist administration record:', err);
-    });
+      nurse,
+      reason: reason || undefined,
+      site: site || undefined,
+      witness: witness || undefined,
+      overrideReason: overrideReason || undefined,
+    };
+    recordAdministration(patientMrn, dialog.medication.name, administration);
+    saveMedicationAdministration(patientMrn, dialog.medication.name, administration).catch(
+      (err: unknown) => {
+        // Log persistence errors for debugging without blocking the UI
+        console.warn('[MARGrid] Failed to persist administration record:', err);
+      },
+    );
+    recordAction(
+      'mar/administered',
+      {
+        medicationName: dialog.medication.name,
+        route: dialog.medication.route,
+        scheduledTime: formatClockTime(dialog.scheduledAt),
+        scheduledAt,
+        status: action,
+        reason: reason || undefined,
+        nurse,
+        overrideReason: overrideReason || undefined,
+      },
+      patientMrn,
+    );
+    if (action === MedicationDoseStatus.GIVEN) {
+      applyScenarioIntervention({
+        kind: 'medication',
+        patientMrn,
+        name: dialog.medication.name,
+        route: dialog.medication.route,
+      });
+    }
     setDialog(null);
   }
 
-  /** Generate the set of time-slot labels. */
-  const timeSlots = useMemo(() => generateTimeSlots(intervalHours), [intervalHours]);
-
   /** Only show scheduled (non-PRN) medications in the grid. */
   const scheduled = medications.filter((m) => m.scheduled);
 
@@ -161,42 +176,84 @@ export default function MARGrid({
 
   return (
     <>
+      {/* Window controls */}
+      <div className="mar-toolbar">
+        <div className="mar-toolbar__window-group" role="group" aria-label="MAR time window">
+          {MAR_WINDOW_OPTIONS.map((option) => (
+            <button
+              key={option.hours}
+              type="button"
+              className={`mar-toolbar__window-btn${
+                option.hours === windowHours ? ' mar-toolbar__window-btn--active' : ''
+              }`}
+              onClick={() => {
+                setWindowHours(option.hours);
+                setOffset(0);
+              }}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <button
+          type="button"
+          className="mar-toolbar__btn"
+          onClick={() => setOffset(offset - 1)}
+          disabled={!canGoBack}
+        >
+          ◀ Previous
+        </button>
+        <button
+          type="button"
+          className="mar-toolbar__btn"
+          onClick={() => setOffset(0)}
+          disabled={offset === 0}
+        >
+          Now
+        </button>
+        <button type="button" className="mar-toolbar__btn" onClick={() => setOffset(offset + 1)}>
+          Next ▶
+        </button>
+        <span className="mar-toolbar__range">
+          {formatChartDateTime(marWindow.start)} – {formatChartDateTime(marWindow.end)}
+        </span>
+      </div>
+
       <div className="mar-grid-wrapper">
         <div
           className="mar-grid"
           style={{
-            gridTemplateColumns: `200px repeat(${timeSlots.length}, minmax(48px, 1fr))`,
+            gridTemplateColumns: `200px repeat(${columns.length}, minmax(48px, 1fr))`,
           }}
         >
           {/* Header row */}
-          <div className="mar-grid__header-cell">Medication</div>
-          {timeSlots.map((slot) => (
-            <div key={slot} className="mar-grid__header-cell mar-grid__header-cell--time">
-              {slot}
+          <div className="mar-grid__header-cell mar-grid__header-cell--med">Medication</div>
+          {columns.map((column, idx) => (
+            <div
+              key={column.toISOString()}
+              ref={idx === nowColumn ? nowCellRef : undefined}
+              className={`mar-grid__header-cell mar-grid__header-cell--time${
+                idx === nowColumn ? ' mar-grid__header-cell--now' : ''
+              }`}
+            >
+              <div className="mar-grid__header-day">
+                {idx === 0 || column.getHours() < marWindow.columnHours ? formatDay(column) : ' '}
+              </div>
+              {formatClockTime(column)}
             </div>
           ))}
 
           {/* Medication rows */}
-          {scheduled.map((med, medIdx) => {
-            const scheduledTimes = new Set(
-              med.times.map((t) => {
-                const mins = parseTimeToMinutes(t);
-                const roundedHour = Math.round(mins / (intervalHours * 60)) * intervalHours;
-                return `${String(roundedHour).padStart(2, '0')}:00`;
-              }),
-            );
-
-            return (
-              <MedRow
-                key={medIdx}
-                medication={med}
-                timeSlots={timeSlots}
-                scheduledTimes={scheduledTimes}
-                currentMinutes={currentMinutes}
-                onCellClick={(time) => setDialog({ medication: med, time })}
-              />
-            );
-          })}
+          {scheduled.map((med, medIdx) => (
+            <MedRow
+              key={medIdx}
+              medication={med}
+              marWindow={marWindow}
+              columns={columns}
+              now={now}
+              onCellClick={(scheduledAt) => setDialog({ medication: med, scheduledAt })}
+            />
+          ))}
         </div>
       </div>
 
@@ -204,7 +261,12 @@ export default function MARGrid({
       {dialog && (
         <AdminDialog
           medication={dialog.medication}
-          scheduledTime={dialog.time}
+          scheduledTime={formatChartDateTime(dialog.scheduledAt)}
+          previous={findDoseAdministration(
+            dialog.medication.administrations,
+            dialog.scheduledAt,
+          )}
+          scanner={getScanner(dialog.medication, dialog.scheduledAt)}
           onConfirm={handleAdminConfirm}
           onCancel={() => setDialog(null)}
         />
@@ -220,35 +282,54 @@ export default function MARGrid({
 /** A single medication row in the MAR grid. */
 function MedRow({
   medication,
-  timeSlots,
-  scheduledTimes,
-  currentMinutes,
+  marWindow,
+  columns,
+  now,
   onCellClick,
 }: {
   medication: Medication;
-  timeSlots: string[];
-  scheduledTimes: Set<string>;
-  currentMinutes: number;
-  onCellClick: (time: string) => void;
+  marWindow: MarWindow;
+  columns: Date[];
+  now: Date;
+  onCellClick: (scheduledAt: Date) => void;
 }) {
+  // Every dose falling in each column; a 2-hourly column can hold two.
+  const dosesByColumn = getDosesByColumn(medication, marWindow, columns);
+
+  const renderDose = (dose: Date) => (
+    <MARCell
+      key={dose.toISOString()}
+      status={getDoseStatus(dose, now, medication.administrations)}
+      time={formatClockTime(dose)}
+      administration={findDoseAdministration(medication.administrations, dose)}
+      onClick={() => onCellClick(dose)}
+    />
+  );
+
   return (
     <>
       <div className="mar-grid__med-cell">
         <div className="mar-grid__med-name">{medication.name}</div>
         <div className="mar-grid__med-detail">
-          {medication.dose} | {medication.route} | {medication.frequency}
+          {formatDose(medication.dose)} | {formatRoute(medication.route)} | {formatFrequency(medication)}
         </div>
       </div>
-      {timeSlots.map((slot) => {
-        const isScheduled = scheduledTimes.has(slot);
-        const status = getCellStatus(medication, slot, currentMinutes, isScheduled);
+      {columns.map((column, idx) => {
+        const doses = dosesByColumn[idx];
+        if (doses.length === 0) {
+          return (
+            <MARCell
+              key={column.toISOString()}
+              status={MedicationDoseStatus.FUTURE}
+              time={formatClockTime(column)}
+            />
+          );
+        }
+        if (doses.length === 1) return renderDose(doses[0]);
         return (
-          <MARCell
-            key={slot}
-            status={status}
-            time={slot}
-            onClick={isScheduled ? () => onCellClick(slot) : undefined}
-          />
+          <div key={column.toISOString()} className="mar-grid__cell-stack">
+            {doses.map(renderDose)}
+          </div>
         );
       })}
     </>
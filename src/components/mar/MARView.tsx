@@ -4,15 +4,20 @@
  *
  * Displays medications in two sections:
  * 1. Time-based MAR grid for scheduled medications (via {@link MARGrid})
- * 2. PRN (as-needed) medications in a separate table
+ * 2. PRN (as-needed) medications with the Give PRN workflow (via
+ *    {@link PRNPanel})
  *
  * Falls back to a simple table if patient has basic medication data
  * without time grid scheduling information.
  */
 
 import { usePatientStore } from '../../stores/patientStore';
+import { formatDose, formatFrequency, formatRoute } from '../../services/medicationOrders';
+import { getLastGiven } from '../../services/marSchedule';
+import { formatChartDateTime } from '../../services/scenarioEngine';
 import type { Medication } from '../../types';
 import MARGrid from './MARGrid';
+import PRNPanel from './PRNPanel';
 import '../../styles/components/views.css';
 
 // ---------------------------------------------------------------------------
@@ -80,7 +85,7 @@ export default function MARView() {
         {prn.length > 0 && (
           <div className="vitals-chart">
             <div className="chart-header">PRN (As Needed) Medications</div>
-            <SimpleMedTable medications={prn} />
+            <PRNPanel medications={prn} />
           </div>
         )}
       </div>
@@ -92,6 +97,12 @@ export default function MARView() {
 // Sub-components
 // ---------------------------------------------------------------------------
 
+/** When the medication was last given, as a chart date-time. */
+function formatLastGiven(med: Medication): string {
+  const lastGiven = getLastGiven(med.administrations);
+  return lastGiven ? formatChartDateTime(lastGiven) : '—';
+}
+
 /**
  * Fallback simple table for medications without time-grid scheduling data.
  * Migrated from the original MARView in emr-sim-v2.html.
@@ -122,11 +133,11 @@ function SimpleMedTable({ medications }: { medications: Medication[] }) {
         {medications.map((med, idx) => (
           <tr key={idx}>
             <td style={{ fontWeight: 600 }}>{med.name}</td>
-            <td>{med.dose}</td>
-            <td>{med.route}</td>
-            <td>{med.frequency}</td>
+            <td>{formatDose(med.dose)}</td>
+            <td>{formatRoute(med.route)}</td>
+            <td>{formatFrequency(med)}</td>
             <td>{med.scheduled ? med.times.join(', ') : 'PRN'}</td>
-            <td>{med.lastGiven ?? '—'}</td>
+            <td>{formatLastGiven(med)}</td>
             <td>
               <span className={med.status === 'active' ? 'text-success' : ''}>
                 {med.status === 'active' ? '● Active' : med.status}
@@ -0,0 +1,260 @@
+/**
+ * @file PRNDialog.tsx
+ * @description PRN (as-needed) dose dialog (modal).
+ *
+ * Presented when a nurse clicks "Give PRN" on the MAR. Provides:
+ * - Medication name, dose, route and PRN frequency display
+ * - The result of checking the dose against the order (see `prnRules`):
+ *   blocked when the 24-hour maximum would be exceeded, or a warning that
+ *   needs a documented reason when the minimum interval has not elapsed
+ * - Barcode scan of the wristband and medication (see {@link BcmaScanStep})
+ * - Indication, score scale and pre-dose score
+ * - Site, nurse and witness fields
+ * - When the post-dose reassessment will fall due
+ */
+
+import { useState } from 'react';
+import type { Medication, PrnScoreScale } from '../../types';
+import BcmaScanStep, { type BcmaScanResult } from './BcmaScanStep';
+import { formatDose, formatFrequency, formatRoute } from '../../services/medicationOrders';
+import type { BcmaScanner } from '../../services/bcma';
+import { PRN_SCORE_SCALES, type PrnDoseCheck } from '../../services/prnRules';
+import '../../styles/components/views.css';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** What the nurse documented in the dialog; blank fields are empty strings. */
+export interface PrnDoseEntry {
+  indication: string;
+  scale: PrnScoreScale;
+  preDoseScore: number;
+  /** Why the dose is given before the minimum interval has elapsed. */
+  reason: string;
+  site: string;
+  nurse: string;
+  witness: string;
+  /** Why the dose went ahead despite a soft stop at the scan. */
+  overrideReason: string;
+}
+
+/** Props accepted by PRNDialog. */
+export interface PRNDialogProps {
+  /** The PRN medication being given. */
+  medication: Medication;
+  /** The dose checked against the order at the current simulation time. */
+  check: PrnDoseCheck;
+  /** Minutes after the dose that its reassessment falls due. */
+  reassessMinutes: number;
+  /** Scanner the dose must pass through. */
+  scanner: BcmaScanner;
+  /** Callback when the dose is confirmed. */
+  onConfirm: (entry: PrnDoseEntry) => void;
+  /** Callback to close the dialog without giving the dose. */
+  onCancel: () => void;
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/**
+ * PRNDialog renders a modal for giving a PRN dose, enforcing the order's
+ * minimum interval and 24-hour maximum.
+ */
+export default function PRNDialog({
+  medication,
+  check,
+  reassessMinutes,
+  scanner,
+  onConfirm,
+  onCancel,
+}: PRNDialogProps) {
+  const [indication, setIndication] = useState(medication.indication ?? '');
+  const [scale, setScale] = useState<PrnScoreScale>('PAIN');
+  const [preDoseScore, setPreDoseScore] = useState<number | null>(null);
+  const [reason, setReason] = useState('');
+  const [site, setSite] = useState('');
+  const [nurse, setNurse] = useState('RN Simulation User');
+  const [witness, setWitness] = useState('');
+  const [scan, setScan] = useState<BcmaScanResult>({ passed: false, overrideReason: '' });
+
+  const blocked = check.level === 'block';
+  const needsReason = check.level === 'warn';
+
+  const canConfirm =
+    !blocked &&
+    indication.trim().length > 0 &&
+    preDoseScore !== null &&
+    nurse.trim().length > 0 &&
+    (!needsReason || reason.trim().length > 0) &&
+    scan.passed;
+
+  const handleConfirm = () => {
+    if (!canConfirm || preDoseScore === null) return;
+    onConfirm({
+      indication: indication.trim(),
+      scale,
+      preDoseScore,
+      reason: needsReason ? reason.trim() : '',
+      site: site.trim(),
+      nurse,
+      witness: witness.trim(),
+      overrideReason: scan.overrideReason,
+    });
+  };
+
+  return (
+    <div className="alert-overlay" onClick={onCancel}>
+      <div className="admin-dialog" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="admin-dialog__header">
+          <span className="admin-dialog__title">Give PRN Medication</span>
+          <button className="admin-dialog__close" onClick={onCancel}>
+            ✕
+          </button>
+        </div>
+
+        <div className="admin-dialog__body">
+          {/* Medication info */}
+          <div className="admin-dialog__med-info">
+            <div className="admin-dialog__med-name">{medication.name}</div>
+            <div className="admin-dialog__med-detail">
+              {formatDose(medication.dose)} — {formatRoute(medication.route)} —{' '}
+              {formatFrequency(medication)}
+            </div>
+          </div>
+
+          {/* Interval and maximum checks */}
+          {check.messages.length > 0 && (
+            <div className={`prn-check prn-check--${check.level}`} role="alert">
+              <strong>{blocked ? 'Dose not permitted' : 'Minimum interval not reached'}</strong>
+              <ul>
+                {check.messages.map((message) => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {!blocked && (
+            <>
+              {/* Early-dose reason */}
+              {needsReason && (
+                <div className="form-group">
+                  <label className="form-label">Reason for giving early:</label>
+                  <input
+                    className="form-control"
+                    type="text"
+                    placeholder="e.g. Discussed with medical officer"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                  />
+                </div>
+              )}
+
+              {/* Barcode scan */}
+              <BcmaScanStep scanner={scanner} onChange={setScan} />
+
+              {/* Indication */}
+              <div className="form-group">
+                <label className="form-label">Indication:</label>
+                <input
+                  className="form-control"
+                  type="text"
+                  value={indication}
+                  onChange={(e) => setIndication(e.target.value)}
+                />
+              </div>
+
+              {/* Pre-dose score */}
+              <div className="form-group">
+                <label className="form-label">Pre-dose score:</label>
+                <div className="prn-score">
+                  <select
+                    className="form-control"
+                    value={scale}
+                    onChange={(e) => {
+                      setScale(e.target.value as PrnScoreScale);
+                      setPreDoseScore(null);
+                    }}
+                  >
+                    {Object.entries(PRN_SCORE_SCALES).map(([value, { label }]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    className="form-control"
+                    value={preDoseScore ?? ''}
+                    onChange={(e) =>
+                      setPreDoseScore(e.target.value === '' ? null : Number(e.target.value))
+                    }
+                  >
+                    <option value="">— Score —</option>
+                    {Array.from({ length: PRN_SCORE_SCALES[scale].max + 1 }, (_, score) => (
+                      <option key={score} value={score}>
+                        {score}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* Site */}
+              <div className="form-group">
+                <label className="form-label">Site:</label>
+                <input
+                  className="form-control"
+                  type="text"
+                  placeholder="e.g. Left deltoid"
+                  value={site}
+                  onChange={(e) => setSite(e.target.value)}
+                />
+              </div>
+
+              {/* Nurse name */}
+              <div className="form-group">
+                <label className="form-label">Nurse:</label>
+                <input
+                  className="form-control"
+                  type="text"
+                  value={nurse}
+                  onChange={(e) => setNurse(e.target.value)}
+                />
+              </div>
+
+              {/* Witness */}
+              <div className="form-group">
+                <label className="form-label">Witness:</label>
+                <input
+                  className="form-control"
+                  type="text"
+                  placeholder="Second nurse, if required"
+                  value={witness}
+                  onChange={(e) => setWitness(e.target.value)}
+                />
+              </div>
+
+              <div className="admin-dialog__previous">
+                Post-dose reassessment due {reassessMinutes} minutes after the dose.
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="admin-dialog__footer">
+          <button className="btn" onClick={onCancel}>
+            Cancel
+          </button>
+          <button className="btn btn-primary" disabled={!canConfirm} onClick={handleConfirm}>
+            Give
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
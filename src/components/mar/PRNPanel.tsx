@@ -0,0 +1,288 @@
+/**
+ * @file PRNPanel.tsx
+ * @description PRN (as-needed) section of the Medication Administration Record.
+ *
+ * Lists each PRN medication with when it was last given, the doses given
+ * in the last 24 hours against the order's maximum, and when the minimum
+ * interval next allows a dose, all on the simulation clock. "Give PRN"
+ * opens {@link PRNDialog}, which scans the wristband and medication like a
+ * scheduled dose, blocks a dose over the 24-hour maximum and asks for a
+ * reason when the minimum interval has not elapsed. Once a
+ * dose's reassessment falls due (see the site's PRN reassessment setting)
+ * the row prompts for it through {@link PRNReassessDialog}.
+ */
+
+import { useState } from 'react';
+import type { Medication, MedicationAdministration, PrnDoseDetails } from '../../types';
+import { MedicationDoseStatus } from '../../types';
+import PRNDialog, { type PrnDoseEntry } from './PRNDialog';
+import PRNReassessDialog from './PRNReassessDialog';
+import { useClockStore } from '../../stores/clockStore';
+import { usePatientStore } from '../../stores/patientStore';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { saveMedicationAdministration } from '../../services/db';
+import { formatDose, formatFrequency, formatRoute } from '../../services/medicationOrders';
+import { getLastGiven } from '../../services/marSchedule';
+import {
+  PRN_SCORE_SCALES,
+  checkPrnDose,
+  getDueReassessments,
+  getReassessDueAt,
+} from '../../services/prnRules';
+import { formatChartDateTime } from '../../services/scenarioEngine';
+import { applyScenarioIntervention } from '../../hooks/useScenarioRunner';
+import { recordAction } from '../../hooks/useActionLog';
+import { useBcmaScanner } from '../../hooks/useBcmaScanner';
+import '../../styles/components/views.css';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Props accepted by PRNPanel. */
+export interface PRNPanelProps {
+  /** PRN medications to list. */
+  medications: Medication[];
+}
+
+/** A PRN dose with its details, as awaiting reassessment. */
+type PrnAdministration = MedicationAdministration & { prn: PrnDoseDetails };
+
+/** Which dialog is open, if any. */
+type DialogState =
+  | { kind: 'give'; medication: Medication }
+  | { kind: 'reassess'; medication: Medication; administration: PrnAdministration };
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/**
+ * PRNPanel renders the PRN medication table with the Give PRN workflow
+ * and post-dose reassessment prompts.
+ */
+export default function PRNPanel({ medications }: PRNPanelProps) {
+  const [dialog, setDialog] = useState<DialogState | null>(null);
+  const now = useClockStore((s) => s.currentTime);
+  const patientMrn = usePatientStore((s) => s.currentPatient?.mrn ?? 'unknown');
+  const recordAdministration = usePatientStore((s) => s.recordAdministration);
+  const updateAdministration = usePatientStore((s) => s.updateAdministration);
+  const reassessMinutes = useSettingsStore((s) => s.prnReassessMinutes);
+  const getScanner = useBcmaScanner();
+
+  /** Save a PRN dose to the IndexedDB audit. */
+  function persist(medication: Medication, administration: MedicationAdministration) {
+    saveMedicationAdministration(patientMrn, medication.name, administration).catch(
+      (err: unknown) => {
+        // Log persistence errors for debugging without blocking the UI
+        console.warn('[PRNPanel] Failed to persist administration record:', err);
+      },
+    );
+  }
+
+  /** Record a PRN dose — history, IndexedDB audit, action log and scenario. */
+  function handleGive(medication: Medication, entry: PrnDoseEntry) {
+    const givenAt = useClockStore.getState().currentTime;
+    const administration: MedicationAdministration = {
+      id: crypto.randomUUID(),
+      scheduledAt: null,
+      timestamp: givenAt.toISOString(),
+      status: MedicationDoseStatus.GIVEN,
+      nurse: entry.nurse,
+      reason: entry.reason || undefined,
+      site: entry.site || undefined,
+      witness: entry.witness || undefined,
+      overrideReason: entry.overrideReason || undefined,
+      prn: {
+        indication: entry.indication,
+        scale: entry.scale,
+        preDoseScore: entry.preDoseScore,
+        postDoseScore: null,
+        reassessDueAt: getReassessDueAt(givenAt, reassessMinutes).toISOString(),
+        reassessedAt: null,
+      },
+    };
+    recordAdministration(patientMrn, medication.name, administration);
+    persist(medication, administration);
+    recordAction(
+      'mar/administered',
+      {
+        medicationName: medication.name,
+        route: medication.route,
+        scheduledTime: 'PRN',
+        status: MedicationDoseStatus.GIVEN,
+        reason: entry.reason || undefined,
+        nurse: entry.nurse,
+        prn: { indication: entry.indication, scale: entry.scale, preDoseScore: entry.preDoseScore },
+        overrideReason: entry.overrideReason || undefined,
+      },
+      patientMrn,
+    );
+    applyScenarioIntervention({
+      kind: 'medication',
+      patientMrn,
+      name: medication.name,
+      route: medication.route,
+    });
+    setDialog(null);
+  }
+
+  /** Record the post-dose score against the dose. */
+  function handleReassess(
+    medication: Medication,
+    administration: PrnAdministration,
+    postDoseScore: number,
+  ) {
+    const reassessedAt = useClockStore.getState().currentTime;
+    const prn = { ...administration.prn, postDoseScore, reassessedAt: reassessedAt.toISOString() };
+    updateAdministration(patientMrn, medication.name, administration.id, { prn });
+    persist(medication, { ...administration, prn });
+    recordAction(
+      'mar/prnReassessed',
+      {
+        medicationName: medication.name,
+        scale: administration.prn.scale,
+        preDoseScore: administration.prn.preDoseScore,
+        postDoseScore,
+        minutesAfterDose: Math.round(
+          (reassessedAt.getTime() - new Date(administration.timestamp).getTime()) / 60_000,
+        ),
+      },
+      patientMrn,
+    );
+    setDialog(null);
+  }
+
+  if (medications.length === 0) {
+    return (
+      <div className="text-muted" style={{ padding: 10, textAlign: 'center' }}>
+        No PRN medications
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <table className="data-table">
+        <thead>
+          <tr>
+            <th>Medication</th>
+            <th>Dose</th>
+            <th>Route</th>
+            <th>Frequency</th>
+            <th>Last Given</th>
+            <th>Last 24 h</th>
+            <th>Next Dose</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {medications.map((med) => {
+            const check = checkPrnDose(med, med.administrations, now);
+            const lastGiven = getLastGiven(med.administrations);
+            const due = getDueReassessments(med.administrations, now) as PrnAdministration[];
+            return (
+              <PrnRow
+                key={med.name}
+                medication={med}
+                lastGiven={lastGiven}
+                dosesLast24h={check.dosesLast24h}
+                nextDoseAt={check.maxClearsAt ?? check.nextDoseAt}
+                now={now}
+                dueReassessments={due}
+                onGive={() => setDialog({ kind: 'give', medication: med })}
+                onReassess={(administration) =>
+                  setDialog({ kind: 'reassess', medication: med, administration })
+                }
+              />
+            );
+          })}
+        </tbody>
+      </table>
+
+      {dialog?.kind === 'give' && (
+        <PRNDialog
+          medication={dialog.medication}
+          check={checkPrnDose(dialog.medication, dialog.medication.administrations, now)}
+          reassessMinutes={reassessMinutes}
+          scanner={getScanner(dialog.medication, null)}
+          onConfirm={(entry) => handleGive(dialog.medication, entry)}
+          onCancel={() => setDialog(null)}
+        />
+      )}
+      {dialog?.kind === 'reassess' && (
+        <PRNReassessDialog
+          medication={dialog.medication}
+          administration={dialog.administration}
+          onConfirm={(score) => handleReassess(dialog.medication, dialog.administration, score)}
+          onCancel={() => setDialog(null)}
+        />
+      )}
+    </>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+/** A PRN medication row, followed by a prompt for each reassessment due. */
+function PrnRow({
+  medication,
+  lastGiven,
+  dosesLast24h,
+  nextDoseAt,
+  now,
+  dueReassessments,
+  onGive,
+  onReassess,
+}: {
+  medication: Medication;
+  lastGiven: Date | null;
+  dosesLast24h: number;
+  nextDoseAt: Date | null;
+  now: Date;
+  dueReassessments: PrnAdministration[];
+  onGive: () => void;
+  onReassess: (administration: PrnAdministration) => void;
+}) {
+  const max = medication.maxPrnDosesPer24h;
+  const canGiveNow = !nextDoseAt || nextDoseAt <= now;
+
+  return (
+    <>
+      <tr>
+        <td style={{ fontWeight: 600 }}>{medication.name}</td>
+        <td>{formatDose(medication.dose)}</td>
+        <td>{formatRoute(medication.route)}</td>
+        <td>{formatFrequency(medication)}</td>
+        <td>{lastGiven ? formatChartDateTime(lastGiven) : '—'}</td>
+        <td>{max !== null ? `${dosesLast24h} / ${max}` : dosesLast24h}</td>
+        <td className={canGiveNow ? 'text-success' : ''}>
+          {canGiveNow || !nextDoseAt ? 'Now' : formatChartDateTime(nextDoseAt)}
+        </td>
+        <td>
+          <button type="button" className="btn" onClick={onGive}>
+            Give PRN
+          </button>
+        </td>
+      </tr>
+      {dueReassessments.map((administration) => (
+        <tr key={administration.id} className="prn-reassess-row">
+          <td colSpan={7}>
+            ⚠ Post-dose reassessment due — given{' '}
+            {formatChartDateTime(new Date(administration.timestamp))} for{' '}
+            {administration.prn.indication},{' '}
+            {PRN_SCORE_SCALES[administration.prn.scale].label.toLowerCase()}{' '}
+            {administration.prn.preDoseScore}
+          </td>
+          <td>
+            <button type="button" className="btn btn-primary" onClick={() => onReassess(administration)}>
+              Reassess
+            </button>
+          </td>
+        </tr>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * @file PRNReassessDialog.tsx
+ * @description Post-dose reassessment dialog for a PRN dose (modal).
+ *
+ * Presented from the PRN section of the MAR once a PRN dose's
+ * reassessment falls due. Shows when the dose was given, for what and the
+ * pre-dose score, and records the post-dose score on the same scale.
+ */
+
+import { useState } from 'react';
+import type { Medication, MedicationAdministration, PrnDoseDetails } from '../../types';
+import { PRN_SCORE_SCALES } from '../../services/prnRules';
+import { formatChartDateTime } from '../../services/scenarioEngine';
+import '../../styles/components/views.css';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Props accepted by PRNReassessDialog. */
+export interface PRNReassessDialogProps {
+  /** The PRN medication that was given. */
+  medication: Medication;
+  /** The dose being reassessed. */
+  administration: MedicationAdministration & { prn: PrnDoseDetails };
+  /** Callback with the post-dose score. */
+  onConfirm: (postDoseScore: number) => void;
+  /** Callback to close the dialog without recording a score. */
+  onCancel: () => void;
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/** PRNReassessDialog renders a modal for recording a PRN post-dose score. */
+export default function PRNReassessDialog({
+  medication,
+  administration,
+  onConfirm,
+  onCancel,
+}: PRNReassessDialogProps) {
+  const [postDoseScore, setPostDoseScore] = useState<number | null>(null);
+  const { prn } = administration;
+  const scale = PRN_SCORE_SCALES[prn.scale];
+
+  return (
+    <div className="alert-overlay" onClick={onCancel}>
+      <div className="admin-dialog" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="admin-dialog__header">
+          <span className="admin-dialog__title">PRN Reassessment</span>
+          <button className="admin-dialog__close" onClick={onCancel}>
+            ✕
+          </button>
+        </div>
+
+        <div className="admin-dialog__body">
+          <div className="admin-dialog__med-info">
+            <div className="admin-dialog__med-name">{medication.name}</div>
+            <div className="admin-dialog__med-detail">
+              Given {formatChartDateTime(new Date(administration.timestamp))} by{' '}
+              {administration.nurse} for {prn.indication}
+            </div>
+          </div>
+
+          <div className="admin-dialog__previous">
+            Pre-dose {scale.label.toLowerCase()}: {prn.preDoseScore}
+          </div>
+
+          <div className="form-group">
+            <label className="form-label">Post-dose score:</label>
+            <select
+              className="form-control"
+              value={postDoseScore ?? ''}
+              onChange={(e) =>
+                setPostDoseScore(e.target.value === '' ? null : Number(e.target.value))
+              }
+            >
+              <option value="">— Score —</option>
+              {Array.from({ length: scale.max + 1 }, (_, score) => (
+                <option key={score} value={score}>
+                  {score}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="admin-dialog__footer">
+          <button className="btn" onClick={onCancel}>
+            Cancel
+          </button>
+          <button
+            className="btn btn-primary"
+            disabled={postDoseScore === null}
+            onClick={() => postDoseScore !== null && onConfirm(postDoseScore)}
+          >
+            Confirm
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
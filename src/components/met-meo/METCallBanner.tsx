@@ -1,7 +1,7 @@
 /**
  * @file METCallBanner.tsx
  * @description Prominent banner displayed when a patient meets MET call criteria
- * (EWS >= 8 or any vital sign in the E-zone).
+ * (EWS >= 8, or >= 7 on NEWS2, or any vital sign in the E-zone).
  *
  * Renders a purple/red banner with white text showing the triggering reason(s).
  * Returns null when MET call criteria are not met.
@@ -15,6 +15,8 @@
 export interface METCallBannerProps {
   /** Current aggregate EWS score. */
   ewsScore: number;
+  /** Aggregate score that calls for a MET call (default 8, Q-ADDS). */
+  emergencyScore?: number;
   /** Whether any vital sign parameter is in the E-zone. */
   hasEZone: boolean;
   /** Which parameters triggered E-zone (e.g. ['Respiratory Rate', 'SpO2']). */
@@ -30,17 +32,19 @@ export interface METCallBannerProps {
  * are met. It displays the triggering reason(s): high EWS score and/or E-zone
  * parameters.
  *
- * If neither criterion is met (ewsScore < 8 and no E-zone), returns null.
+ * If neither criterion is met (ewsScore below `emergencyScore` and no
+ * E-zone), returns null.
  */
 export default function METCallBanner({
   ewsScore,
+  emergencyScore = 8,
   hasEZone,
   eZoneParameters,
 }: METCallBannerProps) {
-  if (ewsScore < 8 && !hasEZone) return null;
+  if (ewsScore < emergencyScore && !hasEZone) return null;
 
   const reasons: string[] = [];
-  if (ewsScore >= 8) reasons.push(`EWS Score: ${ewsScore} (>=8)`);
+  if (ewsScore >= emergencyScore) reasons.push(`EWS Score: ${ewsScore} (>=${emergencyScore})`);
   if (hasEZone && eZoneParameters.length > 0) {
     reasons.push(`E-Zone: ${eZoneParameters.join(', ')}`);
   }
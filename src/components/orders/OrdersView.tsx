@@ -16,6 +16,8 @@ import { useState, useCallback } from 'react';
 import { usePatientStore } from '../../stores/patientStore';
 import Autocomplete from '../common/Autocomplete';
 import { LAB_TESTS } from '../../services/labTests';
+import { applyScenarioIntervention } from '../../hooks/useScenarioRunner';
+import { recordAction } from '../../hooks/useActionLog';
 import type { Order, OrderPriority, OrderType } from '../../types';
 import '../../styles/components/views.css';
 
@@ -61,16 +63,35 @@ export default function OrdersView() {
     };
 
     addOrder(patient.mrn, order);
+    recordAction(
+      'order/placed',
+      { orderId: order.id, name: order.name, type: order.type, priority: order.priority },
+      patient.mrn,
+    );
     setOrderName('');
     setSearchQuery('');
     setPriority('Routine');
   }, [patient, orderName, orderType, priority, addOrder]);
 
-  /** Sign an unsigned order. */
+  /** Sign an unsigned order and report it to the running scenario. */
   const handleSignOrder = useCallback(
     (orderId: string) => {
       if (!patient) return;
       signOrder(patient.mrn, orderId);
+      const order = patient.orders.find((o) => o.id === orderId);
+      if (order) {
+        recordAction(
+          'order/signed',
+          { orderId: order.id, name: order.name, type: order.type },
+          patient.mrn,
+        );
+        applyScenarioIntervention({
+          kind: 'order',
+          patientMrn: patient.mrn,
+          name: order.name,
+          type: order.type,
+        });
+      }
     },
     [patient, signOrder],
   );
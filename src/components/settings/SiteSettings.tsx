@@ -0,0 +1,95 @@
+/**
+ * @file SiteSettings.tsx
+ * @description Site settings view (Options menu).
+ *
+ * Lets the facilitator set options that apply across the whole app: the
+ * early warning system adults are scored on, and when PRN doses fall due
+ * for reassessment on the MAR. Switching between Q-ADDS and NEWS2
+ * re-scores every view, alert and escalation protocol on the next render;
+ * children stay on their CEWT chart either way.
+ */
+
+import { useSettingsStore } from '../../stores/settingsStore';
+import { PRN_REASSESS_OPTIONS } from '../../services/prnRules';
+import type { ScoringSystem } from '../../types';
+import '../../styles/components/views.css';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Scoring systems a site can choose, with a short description of each. */
+const SCORING_SYSTEMS: { value: ScoringSystem; label: string; description: string }[] = [
+  {
+    value: 'qadds',
+    label: 'Q-ADDS',
+    description: 'Queensland Adult Deterioration Detection System. MET call at 8 or any E-zone parameter.',
+  },
+  {
+    value: 'news2',
+    label: 'NEWS2',
+    description:
+      'Royal College of Physicians National Early Warning Score 2. Urgent review at 5 or a single parameter scoring 3; emergency response at 7.',
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/** SiteSettings renders the site-level options form. */
+export default function SiteSettings() {
+  const scoringSystem = useSettingsStore((s) => s.scoringSystem);
+  const setScoringSystem = useSettingsStore((s) => s.setScoringSystem);
+  const prnReassessMinutes = useSettingsStore((s) => s.prnReassessMinutes);
+  const setPrnReassessMinutes = useSettingsStore((s) => s.setPrnReassessMinutes);
+  const selected = SCORING_SYSTEMS.find((s) => s.value === scoringSystem);
+
+  return (
+    <>
+      <div className="content-header">
+        <h2>Site Settings</h2>
+      </div>
+      <div className="content-body">
+        <div className="form-group">
+          <label className="form-label" htmlFor="site-scoring-system">
+            Adult early warning score
+          </label>
+          <select
+            id="site-scoring-system"
+            className="form-control"
+            value={scoringSystem}
+            onChange={(e) => setScoringSystem(e.target.value as ScoringSystem)}
+          >
+            {SCORING_SYSTEMS.map((system) => (
+              <option key={system.value} value={system.value}>
+                {system.label}
+              </option>
+            ))}
+          </select>
+          <p className="text-muted">{selected?.description}</p>
+        </div>
+        <div className="form-group">
+          <label className="form-label" htmlFor="site-prn-reassess">
+            PRN reassessment
+          </label>
+          <select
+            id="site-prn-reassess"
+            className="form-control"
+            value={prnReassessMinutes}
+            onChange={(e) => setPrnReassessMinutes(Number(e.target.value))}
+          >
+            {PRN_REASSESS_OPTIONS.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {minutes} minutes after the dose
+              </option>
+            ))}
+          </select>
+          <p className="text-muted">
+            When the MAR prompts for a post-dose pain or sedation score after a PRN dose.
+          </p>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * @file useActionLog.ts
+ * @description Records learner actions to the audit trail.
+ *
+ * {@link recordAction} stamps an action with the wall-clock time, the
+ * simulation-clock time, the open patient and the running scenario, then publishes it on the
+ * action bus. {@link useActionLog} persists every published action to
+ * IndexedDB and records view changes on its own, since those happen in
+ * many places (sidebar, top nav, instructor commands).
+ */
+
+import { useEffect } from 'react';
+import { useClockStore } from '../stores/clockStore';
+import { usePatientStore } from '../stores/patientStore';
+import { useScenarioStore } from '../stores/scenarioStore';
+import { useSessionStore } from '../stores/sessionStore';
+import { SESSION_ID, publishAction, subscribeActions } from '../services/actionLog';
+import { logAction } from '../services/db';
+import type { LearnerAction, LearnerActionPayloads, LearnerActionType } from '../types/actionLog';
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/**
+ * Record a learner action.
+ *
+ * @param type - What the learner did.
+ * @param payload - Details of the action.
+ * @param patientMrn - Patient the action concerns; defaults to the open patient.
+ * @returns The published action.
+ *
+ * @example
+ * ```ts
+ * recordAction('order/signed', { orderId: order.id, name: order.name, type: order.type });
+ * ```
+ */
+export function recordAction<T extends LearnerActionType>(
+  type: T,
+  payload: LearnerActionPayloads[T],
+  patientMrn?: string | null,
+): LearnerAction {
+  const action = {
+    sessionId: SESSION_ID,
+    type,
+    patientMrn:
+      patientMrn !== undefined ? patientMrn : usePatientStore.getState().currentPatient?.mrn ?? null,
+    wallTime: new Date().toISOString(),
+    simTime: useClockStore.getState().currentTime.toISOString(),
+    scenarioRunId: useScenarioStore.getState().runId,
+    payload,
+  } as LearnerAction;
+
+  publishAction(action);
+  return action;
+}
+
+// ---------------------------------------------------------------------------
+// Hook
+// ---------------------------------------------------------------------------
+
+/**
+ * Persists learner actions for the lifetime of the calling component and
+ * records view changes. Should be mounted once, at the application root.
+ */
+export function useActionLog(): void {
+  useEffect(() => {
+    const unsubscribeBus = subscribeActions((action) => {
+      logAction(action).catch((err) => {
+        console.warn('[actionLog] Failed to persist action:', err);
+      });
+    });
+
+    const unsubscribeSession = useSessionStore.subscribe((state, prev) => {
+      if (state.currentView !== prev.currentView) {
+        recordAction('view/changed', { from: prev.currentView, to: state.currentView });
+      }
+    });
+
+    return () => {
+      unsubscribeBus();
+      unsubscribeSession();
+    };
+  }, []);
+}
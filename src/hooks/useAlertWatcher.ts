@@ -0,0 +1,116 @@
+/**
+ * @file useAlertWatcher.ts
+ * @description Discern alert evaluation for every patient on the ward.
+ *
+ * {@link useAlertWatcher} evaluates a patient's alerts (see
+ * `evaluateAlerts`) as soon as anything they depend on changes: a set of
+ * observations charted by the learner, the scenario runner or the
+ * instructor, a lactate resulted, the chart form or the site's scoring
+ * system changed, a MET-MEO or MOF order placed, cancelled or expired, or a
+ * nursing assessment signed. Views only display the alerts raised.
+ */
+
+import { useEffect } from 'react';
+import { useAlertStore } from '../stores/alertStore';
+import { useClockStore } from '../stores/clockStore';
+import { useMeoStore, forPatient } from '../stores/meoStore';
+import { usePatientStore } from '../stores/patientStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { evaluateAlerts } from '../services/alertEngine';
+import { getPatientChartVariant } from '../services/qaddsCalculator';
+import { getLatestLactate } from '../services/sepsisPathway';
+import type { ChartVariant, VitalSign } from '../types';
+import type { MetMeoOrder, ModifiedObsFrequencyOrder, NursingAssessment } from '../types/meo';
+
+// ---------------------------------------------------------------------------
+// Watcher
+// ---------------------------------------------------------------------------
+
+/** What a patient's alerts are evaluated from. */
+export interface AlertInputs {
+  vitals: VitalSign[];
+  variant: ChartVariant | undefined;
+  metMeoOrder: MetMeoOrder | null;
+  mofOrder: ModifiedObsFrequencyOrder | null;
+  nursingAssessment: NursingAssessment | null;
+  lactate: number | null;
+}
+
+/**
+ * Evaluate the alerts of each patient whose observations, chart form,
+ * orders, nursing assessment or lactate changed since they were last
+ * evaluated, and raise any new ones. Alerts already raised for the same
+ * observation set are not raised again. The first new alert is shown
+ * straight away unless the patient already has a pending alert.
+ *
+ * @param now       - Current simulation time.
+ * @param evaluated - What each patient was last evaluated from, by MRN;
+ *                    updated in place.
+ * @returns MRNs of the patients alerted.
+ */
+export function raiseVitalsAlerts(
+  now: Date,
+  evaluated: Map<string, AlertInputs> = new Map(),
+): string[] {
+  const { patients } = usePatientStore.getState();
+  const { scoringSystem } = useSettingsStore.getState();
+  const { getActiveMetMeo, getActiveMof, nursingAssessments } = useMeoStore.getState();
+  const alerted: string[] = [];
+
+  for (const patient of Object.values(patients)) {
+    if (!patient.vitals?.length) continue;
+
+    const inputs: AlertInputs = {
+      vitals: patient.vitals,
+      variant: getPatientChartVariant(patient, scoringSystem, now),
+      metMeoOrder: getActiveMetMeo(patient.mrn, now),
+      mofOrder: getActiveMof(patient.mrn),
+      nursingAssessment: forPatient(nursingAssessments, patient.mrn).at(-1) ?? null,
+      lactate: getLatestLactate(patient.results),
+    };
+    const last = evaluated.get(patient.mrn);
+    const unchanged =
+      last && (Object.keys(inputs) as Array<keyof AlertInputs>).every((k) => inputs[k] === last[k]);
+    if (unchanged) continue;
+    evaluated.set(patient.mrn, inputs);
+
+    const { addAlerts, getAlerts, getActiveAlert, setActiveAlert } = useAlertStore.getState();
+    const alerts = evaluateAlerts(inputs.vitals, inputs.variant, {
+      metMeoOrder: inputs.metMeoOrder,
+      mofOrder: inputs.mofOrder,
+      nursingAssessment: inputs.nursingAssessment,
+      existing: getAlerts(patient.mrn),
+      lactate: inputs.lactate,
+    });
+    if (alerts.length === 0) continue;
+
+    addAlerts(patient.mrn, alerts);
+    const firstUnacked = alerts.find((a) => !a.acknowledged);
+    if (firstUnacked && !getActiveAlert(patient.mrn)) setActiveAlert(patient.mrn, firstUnacked);
+    alerted.push(patient.mrn);
+  }
+
+  return alerted;
+}
+
+/**
+ * Mounts the alert watcher for the lifetime of the calling component.
+ * Should be mounted once, at the application root.
+ */
+export function useAlertWatcher(): void {
+  useEffect(() => {
+    const evaluated = new Map<string, AlertInputs>();
+    const check = () => {
+      raiseVitalsAlerts(useClockStore.getState().currentTime, evaluated);
+    };
+    check();
+    // The clock moves a child's age band on and lets MET-MEO plans expire.
+    const unsubscribes = [
+      usePatientStore.subscribe(check),
+      useMeoStore.subscribe(check),
+      useSettingsStore.subscribe(check),
+      useClockStore.subscribe(check),
+    ];
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, []);
+}
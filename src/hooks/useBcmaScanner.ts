@@ -0,0 +1,68 @@
+/**
+ * @file useBcmaScanner.ts
+ * @description The simulated barcode scanner at the bedside.
+ *
+ * {@link useBcmaScanner} gives the MAR a scanner for each dose: what the
+ * patient's wristband and the medication at the bedside read, including
+ * any wrong wristband or look-alike drug the running scenario has planted
+ * for the open patient, and a five-rights check (see `bcma`) that records
+ * every scan, stops and all, to the action log.
+ */
+
+import { useClockStore } from '../stores/clockStore';
+import { usePatientStore } from '../stores/patientStore';
+import { useScenarioStore } from '../stores/scenarioStore';
+import {
+  buildProductCatalogue,
+  checkFiveRights,
+  getProductBarcode,
+  getSuppliedProduct,
+  getSuppliedWristband,
+  type BcmaScanner,
+} from '../services/bcma';
+import { formatChartDateTime } from '../services/scenarioEngine';
+import { recordAction } from './useActionLog';
+import type { Medication } from '../types';
+
+/**
+ * Scanners for the open patient's doses.
+ *
+ * @returns A function giving the scanner for a medication's dose at
+ *          `scheduledAt`, or its PRN dose when `scheduledAt` is null.
+ */
+export function useBcmaScanner(): (medication: Medication, scheduledAt: Date | null) => BcmaScanner {
+  const patientMrn = usePatientStore((s) => s.currentPatient?.mrn ?? 'unknown');
+  const medications = usePatientStore((s) => s.currentPatient?.medications);
+  const scenario = useScenarioStore((s) => s.scenario);
+  const errors = scenario?.patientMrn === patientMrn ? scenario.bcma : undefined;
+
+  return (medication, scheduledAt) => ({
+    wristband: getSuppliedWristband(patientMrn, errors),
+    barcode: getProductBarcode(getSuppliedProduct(medication, errors)),
+    scheduledAt,
+    verify: (scan, entry) => {
+      const catalogue = buildProductCatalogue(medications ?? [medication], errors);
+      const stops = checkFiveRights(
+        scan,
+        { patientMrn, order: medication, scheduledAt },
+        catalogue,
+        useClockStore.getState().currentTime,
+      );
+      recordAction(
+        'mar/scanned',
+        {
+          medicationName: medication.name,
+          scheduledTime: scheduledAt ? formatChartDateTime(scheduledAt).slice(-5) : 'PRN',
+          scheduledAt: scheduledAt?.toISOString() ?? null,
+          wristband: scan.wristband.trim(),
+          barcode: scan.barcode.trim(),
+          entry,
+          scannedProduct: catalogue.get(scan.barcode.trim())?.name ?? null,
+          stops,
+        },
+        patientMrn,
+      );
+      return stops;
+    },
+  });
+}
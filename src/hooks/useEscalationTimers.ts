@@ -0,0 +1,78 @@
+/**
+ * @file useEscalationTimers.ts
+ * @description Alert response deadlines on the simulation clock.
+ *
+ * Alerts for tiers that call for a medical review within a set time carry
+ * a response deadline. {@link useEscalationTimers} watches the clock and,
+ * when a deadline passes without a documented review, escalates the alert
+ * to the next tier ("If no review after 30 min → call Registrar") and
+ * raises the new alert.
+ */
+
+import { useEffect } from 'react';
+import { useAlertStore } from '../stores/alertStore';
+import { useClockStore } from '../stores/clockStore';
+import { usePatientStore } from '../stores/patientStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { escalateAlert, isAwaitingReview } from '../services/alertEngine';
+import { getChartForm, getPatientChartVariant } from '../services/qaddsCalculator';
+
+// ---------------------------------------------------------------------------
+// Escalation
+// ---------------------------------------------------------------------------
+
+/**
+ * Escalate every alert whose response deadline has passed without a
+ * review documented, however long ago (e.g. the clock jumped forward, or
+ * the session was restored). Each alert escalates once; the alert it
+ * raises has its own deadline if its tier has one.
+ *
+ * @param now - Current simulation time.
+ * @returns Ids of the alerts raised.
+ */
+export function escalateUnreviewedAlerts(now: Date): string[] {
+  const { alerts } = useAlertStore.getState();
+  const { patients } = usePatientStore.getState();
+  const { scoringSystem } = useSettingsStore.getState();
+  const raised: string[] = [];
+
+  for (const [mrn, patientAlerts] of Object.entries(alerts)) {
+    const patient = patients[mrn];
+    const system = patient
+      ? getChartForm(getPatientChartVariant(patient, scoringSystem, now)).system
+      : scoringSystem;
+
+    for (const alert of patientAlerts) {
+      if (!isAwaitingReview(alert)) continue;
+      const deadline = new Date(alert.responseDeadline as string).getTime();
+      if (deadline >= now.getTime()) continue;
+
+      const next = escalateAlert(alert, now, system);
+      if (!next) continue;
+      useAlertStore.getState().escalateAlert(mrn, alert.id, next);
+      raised.push(next.id);
+    }
+  }
+
+  return raised;
+}
+
+// ---------------------------------------------------------------------------
+// Hook
+// ---------------------------------------------------------------------------
+
+/**
+ * Mounts the alert escalation timers for the lifetime of the calling
+ * component. Should be mounted once, at the application root.
+ */
+export function useEscalationTimers(): void {
+  useEffect(() => {
+    // Deadlines that passed before a restored session was closed.
+    escalateUnreviewedAlerts(useClockStore.getState().currentTime);
+    return useClockStore.subscribe((state, prev) => {
+      if (state.currentTime !== prev.currentTime) {
+        escalateUnreviewedAlerts(state.currentTime);
+      }
+    });
+  }, []);
+}
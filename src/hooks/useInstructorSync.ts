@@ -0,0 +1,171 @@
+/**
+ * @file useInstructorSync.ts
+ * @description Learner-side half of the instructor console link.
+ *
+ * Listens on the instructor BroadcastChannel and applies incoming
+ * commands (clock control, injected vitals, alerts, notes, staff concern)
+ * to the learner's stores. Broadcasts a {@link LearnerStatus} snapshot
+ * whenever the clock, patients, or current view change so the console
+ * mirrors what the learner is seeing.
+ */
+
+import { useEffect } from 'react';
+import { useClockStore } from '../stores/clockStore';
+import { usePatientStore } from '../stores/patientStore';
+import { useSessionStore } from '../stores/sessionStore';
+import { useAlertStore } from '../stores/alertStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { createAlert } from '../services/alertEngine';
+import { openInstructorChannel } from '../services/instructorChannel';
+import { getChartForm, getPatientChartVariant } from '../services/qaddsCalculator';
+import { formatChartDateTime } from '../services/scenarioEngine';
+import type { InstructorCommand, LearnerStatus } from '../types/instructor';
+
+// ---------------------------------------------------------------------------
+// Commands
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply an instructor command to the learner's stores. Commands naming a
+ * patient who is not loaded are ignored.
+ *
+ * @param command - The command received from the instructor console.
+ */
+export function applyInstructorCommand(command: InstructorCommand): void {
+  const clock = useClockStore.getState();
+  const { patients, updatePatient } = usePatientStore.getState();
+
+  switch (command.type) {
+    case 'clock/start':
+      clock.start();
+      return;
+
+    case 'clock/pause':
+      clock.pause();
+      return;
+
+    case 'clock/resume':
+      clock.resume();
+      return;
+
+    case 'clock/advance':
+      clock.advanceMinutes(command.minutes);
+      return;
+
+    case 'vitals/inject': {
+      const patient = patients[command.patientMrn];
+      if (!patient) return;
+      const charted = { ...command.vitals, datetime: formatChartDateTime(clock.currentTime) };
+      updatePatient(patient.mrn, { vitals: [charted, ...patient.vitals] });
+      return;
+    }
+
+    case 'vitals/nurse-concern': {
+      const patient = patients[command.patientMrn];
+      if (!patient || patient.vitals.length === 0) return;
+      const [latest, ...rest] = patient.vitals;
+      updatePatient(patient.mrn, {
+        vitals: [{ ...latest, nurseConcern: command.nurseConcern }, ...rest],
+      });
+      return;
+    }
+
+    case 'alert/fire': {
+      const patient = patients[command.patientMrn];
+      if (!patient) return;
+      const { scoringSystem } = useSettingsStore.getState();
+      const variant = getPatientChartVariant(patient, scoringSystem, clock.currentTime);
+      const alert = createAlert(command.ewsRange, {
+        showSepsisPrompt: command.showSepsisPrompt,
+        raisedAt: clock.currentTime,
+        system: getChartForm(variant).system,
+      });
+      const { addAlerts, setActiveAlert } = useAlertStore.getState();
+      addAlerts(patient.mrn, [alert]);
+      setActiveAlert(patient.mrn, alert);
+      return;
+    }
+
+    case 'note/add': {
+      const patient = patients[command.patientMrn];
+      if (!patient) return;
+      const note = {
+        ...command.note,
+        id: `INS-${clock.currentTime.getTime()}`,
+        datetime: formatChartDateTime(clock.currentTime),
+      };
+      updatePatient(patient.mrn, { notes: [...patient.notes, note] });
+      return;
+    }
+
+    case 'status/request':
+      // Answered by the hook, which owns the channel.
+      return;
+  }
+}
+
+/** Snapshot the learner's clock, patients, and view for the console. */
+export function buildLearnerStatus(): LearnerStatus {
+  const { currentTime, isRunning, isPaused, playbackSpeed } = useClockStore.getState();
+  const { patients, currentPatient } = usePatientStore.getState();
+
+  return {
+    type: 'status',
+    clock: {
+      currentTime: currentTime.toISOString(),
+      isRunning,
+      isPaused,
+      playbackSpeed,
+    },
+    patients: Object.values(patients).map((p) => ({
+      mrn: p.mrn,
+      name: p.name,
+      latestVitals: p.vitals[0] ?? null,
+    })),
+    currentPatientMrn: currentPatient?.mrn ?? null,
+    currentView: useSessionStore.getState().currentView,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Hook
+// ---------------------------------------------------------------------------
+
+/**
+ * Connects the learner tab to any open instructor console for the
+ * lifetime of the calling component. Should be mounted once, at the
+ * application root.
+ */
+export function useInstructorSync(): void {
+  useEffect(() => {
+    const channel = openInstructorChannel();
+    const broadcastStatus = () => channel.post(buildLearnerStatus());
+
+    const unsubscribeChannel = channel.subscribe((message) => {
+      if (message.type === 'status') return;
+      applyInstructorCommand(message);
+      broadcastStatus();
+    });
+
+    const unsubscribeClock = useClockStore.subscribe(broadcastStatus);
+    const unsubscribePatients = usePatientStore.subscribe((state, prev) => {
+      if (state.patients !== prev.patients || state.currentPatient !== prev.currentPatient) {
+        broadcastStatus();
+      }
+    });
+    const unsubscribeSession = useSessionStore.subscribe((state, prev) => {
+      if (state.currentView !== prev.currentView) broadcastStatus();
+    });
+
+    // Announce ourselves to a console that opened first.
+    broadcastStatus();
+
+    return () => {
+      unsubscribeChannel();
+      unsubscribeClock();
+      unsubscribePatients();
+      unsubscribeSession();
+      channel.close();
+    };
+  }, []);
+}
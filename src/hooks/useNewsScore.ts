@@ -3,14 +3,16 @@
  * @description React hook for Q-ADDS EWS score calculations.
  *
  * Accepts a patient's vital sign history and returns the latest Q-ADDS EWS
- * score, clinical risk level, and a trend indicator showing whether the
- * patient's condition is improving, stable, or worsening.
+ * score, clinical risk level, a trend indicator showing whether the
+ * patient's condition is improving, stable, or worsening, and the
+ * deterioration trends detected across the history.
  */
 
 import { useMemo } from 'react';
 import type { VitalSign } from '../types/patient';
-import type { QADDSResult, QADDSRiskLevel } from '../types/news';
-import { calculateQADDS } from '../services/newsCalculator';
+import type { ChartVariant, ClinicalRisk, QaddsParameter, QaddsScore } from '../types/vitals';
+import { calculateQadds } from '../services/qaddsCalculator';
+import { detectTrends, type ObservationTrend } from '../services/observationTrends';
 
 // ---------------------------------------------------------------------------
 // Trend Type
@@ -26,22 +28,25 @@ export type NewsTrend = 'improving' | 'stable' | 'worsening';
 /** Shape returned by the {@link useNewsScore} hook. */
 export interface UseNewsScoreResult {
   /** Q-ADDS EWS result for the most recent observation, or null if no vitals. */
-  latestScore: QADDSResult | null;
+  latestScore: QaddsScore | null;
 
   /** Clinical risk level for the most recent observation. */
-  riskLevel: QADDSRiskLevel | null;
+  riskLevel: ClinicalRisk | null;
 
   /** Trend direction over the last two observations. */
   trend: NewsTrend;
 
+  /** Deterioration trends the latest observation meets (see `detectTrends`). */
+  trends: ObservationTrend[];
+
   /** Q-ADDS EWS results for all vitals (newest first), for charting. */
-  scoreHistory: QADDSResult[];
+  scoreHistory: QaddsScore[];
 
   /** Whether any vital sign parameter triggered the E-zone (MET call criteria). */
   hasEZone: boolean;
 
-  /** Names of parameters that are in the E-zone, if any. */
-  eZoneParameters: string[];
+  /** Parameters that are in the E-zone, if any. */
+  eZoneParameters: QaddsParameter[];
 }
 
 // ---------------------------------------------------------------------------
@@ -52,9 +57,10 @@ export interface UseNewsScoreResult {
  * React hook that computes Q-ADDS EWS scores from a patient's vital signs.
  *
  * All calculations are memoised — results only recompute when the
- * `vitals` array reference changes.
+ * `vitals` array reference or chart variant changes.
  *
- * @param vitals - Array of vital sign observations (newest first).
+ * @param vitals  - Array of vital sign observations (newest first).
+ * @param variant - Chart variant to score against (default 'standard').
  * @returns Latest score, risk level, trend, full score history, and E-zone flags.
  *
  * @example
@@ -62,13 +68,17 @@ export interface UseNewsScoreResult {
  * const { latestScore, riskLevel, trend, hasEZone } = useNewsScore(patient.vitals);
  * ```
  */
-export function useNewsScore(vitals: VitalSign[]): UseNewsScoreResult {
+export function useNewsScore(
+  vitals: VitalSign[],
+  variant: ChartVariant = 'standard',
+): UseNewsScoreResult {
   return useMemo(() => {
     if (!vitals || vitals.length === 0) {
       return {
         latestScore: null,
         riskLevel: null,
         trend: 'stable' as NewsTrend,
+        trends: [],
         scoreHistory: [],
         hasEZone: false,
         eZoneParameters: [],
@@ -76,10 +86,10 @@ export function useNewsScore(vitals: VitalSign[]): UseNewsScoreResult {
     }
 
     // Calculate Q-ADDS EWS for every observation set
-    const scoreHistory = vitals.map((v) => calculateQADDS(v));
+    const scoreHistory = vitals.map((v) => calculateQadds(v, variant));
 
     const latestScore = scoreHistory[0];
-    const riskLevel = latestScore.riskLevel;
+    const riskLevel = latestScore.clinicalRisk;
 
     // Derive trend from the two most recent scores
     let trend: NewsTrend = 'stable';
@@ -100,11 +110,12 @@ export function useNewsScore(vitals: VitalSign[]): UseNewsScoreResult {
       latestScore,
       riskLevel,
       trend,
+      trends: detectTrends(vitals, variant),
       scoreHistory,
-      hasEZone: latestScore.hasEZone,
-      eZoneParameters: latestScore.eZoneParameters,
+      hasEZone: latestScore.emergencyParameters.length > 0,
+      eZoneParameters: latestScore.emergencyParameters,
     };
-  }, [vitals]);
+  }, [vitals, variant]);
 }
 
 /** Alias for {@link useNewsScore} using Q-ADDS EWS naming. */
@@ -0,0 +1,120 @@
+/**
+ * @file useObsWatcher.ts
+ * @description Overdue observation monitoring on the simulation clock.
+ *
+ * {@link useObsWatcher} watches every patient's observation schedule as
+ * the clock moves and raises an "Observations Overdue" Discern alert when
+ * the next set falls due without being charted. {@link useObsSchedule}
+ * gives one patient's schedule for display (the PatientBanner countdown).
+ *
+ * The schedule comes from `getObsSchedule`: the last set's score, any
+ * active MOF order and any active MET-MEO plan.
+ */
+
+import { useEffect } from 'react';
+import { useAlertStore } from '../stores/alertStore';
+import { useClockStore } from '../stores/clockStore';
+import { useMeoStore } from '../stores/meoStore';
+import { usePatientStore } from '../stores/patientStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { createAlert } from '../services/alertEngine';
+import { getObsSchedule, type ObsSchedule } from '../services/observationSchedule';
+import { getChartForm, getPatientChartVariant } from '../services/qaddsCalculator';
+import { formatChartDateTime } from '../services/scenarioEngine';
+import type { Patient } from '../types';
+
+// ---------------------------------------------------------------------------
+// Watcher
+// ---------------------------------------------------------------------------
+
+/**
+ * Raise an overdue alert for each patient whose next set of observations
+ * fell due between two clock readings. An alert is raised once, as the due
+ * time passes; it is shown straight away unless the patient already has a
+ * pending alert.
+ *
+ * @param previous - Clock time at the last check.
+ * @param now      - Current simulation time.
+ * @returns MRNs of the patients alerted.
+ */
+export function raiseOverdueObsAlerts(previous: Date, now: Date): string[] {
+  const { patients } = usePatientStore.getState();
+  const { scoringSystem } = useSettingsStore.getState();
+  const { getActiveMof, getActiveMetMeo } = useMeoStore.getState();
+  const alerted: string[] = [];
+
+  for (const patient of Object.values(patients)) {
+    const variant = getPatientChartVariant(patient, scoringSystem, now);
+    const schedule = getObsSchedule({
+      vitals: patient.vitals,
+      variant,
+      mofOrder: getActiveMof(patient.mrn),
+      metMeoOrder: getActiveMetMeo(patient.mrn, now),
+      now,
+    });
+    if (!schedule) continue;
+
+    // Only when the due time passed since the last check.
+    const due = new Date(schedule.dueAt).getTime();
+    if (due < previous.getTime() || due >= now.getTime()) continue;
+
+    const alert = createAlert('overdue-obs', {
+      detail: `Observations were due ${formatChartDateTime(new Date(schedule.dueAt))}: ${schedule.description}.`,
+      system: getChartForm(variant).system,
+    });
+    const { addAlerts, getActiveAlert, setActiveAlert } = useAlertStore.getState();
+    addAlerts(patient.mrn, [alert]);
+    if (!getActiveAlert(patient.mrn)) setActiveAlert(patient.mrn, alert);
+    alerted.push(patient.mrn);
+  }
+
+  return alerted;
+}
+
+/**
+ * Mounts the overdue observation watcher for the lifetime of the calling
+ * component. Should be mounted once, at the application root.
+ */
+export function useObsWatcher(): void {
+  useEffect(
+    () =>
+      useClockStore.subscribe((state, prev) => {
+        if (state.currentTime !== prev.currentTime) {
+          raiseOverdueObsAlerts(prev.currentTime, state.currentTime);
+        }
+      }),
+    [],
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Schedule for display
+// ---------------------------------------------------------------------------
+
+/**
+ * A patient's observation schedule against the simulation clock, updated
+ * as the clock ticks and as MOF or MET-MEO orders change.
+ *
+ * @param patient - The patient to schedule.
+ * @returns The schedule, or null if the patient has no dated observations.
+ *
+ * @example
+ * ```tsx
+ * const schedule = useObsSchedule(patient);
+ * if (schedule?.overdue) { ... }
+ * ```
+ */
+export function useObsSchedule(patient: Patient): ObsSchedule | null {
+  const now = useClockStore((s) => s.currentTime);
+  const scoringSystem = useSettingsStore((s) => s.scoringSystem);
+  const mofOrder = useMeoStore((s) => s.getActiveMof(patient.mrn));
+  const metMeoOrder = useMeoStore((s) => s.getActiveMetMeo(patient.mrn, now));
+
+  return getObsSchedule({
+    vitals: patient.vitals,
+    variant: getPatientChartVariant(patient, scoringSystem, now),
+    mofOrder,
+    metMeoOrder,
+    now,
+  });
+}
@@ -0,0 +1,123 @@
+/**
+ * @file useScenarioRunner.ts
+ * @description React hook that replays the active scenario against the
+ * simulation clock.
+ *
+ * Subscribes to `useClockStore.currentTime`; whenever the clock moves (by
+ * ticking, time travel, or a jump) any scenario events that have become
+ * due are applied to the target patient via `usePatientStore.updatePatient`
+ * and recorded as fired in the scenario store.
+ *
+ * Learner interventions (doses given, orders signed) are reported through
+ * {@link applyScenarioIntervention}, which branches the scenario when one
+ * of its response rules matches.
+ */
+
+import { useEffect } from 'react';
+import { useClockStore } from '../stores/clockStore';
+import { usePatientStore } from '../stores/patientStore';
+import { useScenarioStore } from '../stores/scenarioStore';
+import {
+  getDueEvents,
+  applyScenarioEvent,
+  findTriggeredResponses,
+  applyScenarioResponse,
+} from '../services/scenarioEngine';
+import type { ScenarioIntervention } from '../types/scenario';
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply every scenario event due at `now` to the scenario's patient.
+ * Events are applied one at a time so each sees the previous update.
+ *
+ * @param now - Current simulation time.
+ * @returns Number of events applied.
+ */
+export function runDueScenarioEvents(now: Date): number {
+  const { scenario, startedAt, firedEventIds, status, markEventsFired } =
+    useScenarioStore.getState();
+  if (!scenario || !startedAt || status !== 'running') return 0;
+
+  const due = getDueEvents(scenario, new Date(startedAt), now, firedEventIds);
+  if (due.length === 0) return 0;
+
+  for (const { event, scheduledAt } of due) {
+    const { patients, updatePatient } = usePatientStore.getState();
+    const patient = patients[scenario.patientMrn];
+    if (!patient) break;
+    updatePatient(patient.mrn, applyScenarioEvent(patient, event, scheduledAt));
+  }
+
+  markEventsFired(due.map((d) => d.event.id));
+  return due.length;
+}
+
+/**
+ * Report a learner intervention to the running scenario. Any matching
+ * response rules branch the scenario, and events the branch makes due
+ * straight away are applied.
+ *
+ * @param intervention - The dose given or order signed.
+ * @param now          - Current simulation time (defaults to the clock).
+ * @returns Ids of the responses that fired.
+ */
+export function applyScenarioIntervention(
+  intervention: ScenarioIntervention,
+  now: Date = useClockStore.getState().currentTime,
+): string[] {
+  const { scenario, startedAt, status, triggeredResponseIds } = useScenarioStore.getState();
+  if (!scenario || !startedAt || status === 'idle') return [];
+
+  const offset = (now.getTime() - new Date(startedAt).getTime()) / 60_000;
+  const responses = findTriggeredResponses(scenario, intervention, offset, triggeredResponseIds);
+
+  for (const response of responses) {
+    const { scenario: current, firedEventIds, branchScenario } = useScenarioStore.getState();
+    if (!current) break;
+    branchScenario(applyScenarioResponse(current, response, offset, firedEventIds), response.id);
+  }
+
+  if (responses.length > 0) runDueScenarioEvents(now);
+  return responses.map((r) => r.id);
+}
+
+// ---------------------------------------------------------------------------
+// Hook
+// ---------------------------------------------------------------------------
+
+/**
+ * Mounts the scenario runner for the lifetime of the calling component.
+ * Should be mounted once, at the application root.
+ *
+ * @example
+ * ```tsx
+ * export default function App() {
+ *   useScenarioRunner();
+ *   // ...
+ * }
+ * ```
+ */
+export function useScenarioRunner(): void {
+  useEffect(() => {
+    const tick = () => {
+      runDueScenarioEvents(useClockStore.getState().currentTime);
+    };
+
+    const unsubscribeClock = useClockStore.subscribe((state, prev) => {
+      if (state.currentTime !== prev.currentTime) tick();
+    });
+
+    // Fire T+0 events as soon as a scenario is started.
+    const unsubscribeScenario = useScenarioStore.subscribe((state, prev) => {
+      if (state.startedAt !== prev.startedAt) tick();
+    });
+
+    return () => {
+      unsubscribeClock();
+      unsubscribeScenario();
+    };
+  }, []);
+}
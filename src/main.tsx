@@ -3,20 +3,42 @@
  * @description Application entry point for the SimCerner EMR.
  *
  * Mounts the React root, wraps the App in StrictMode and BrowserRouter,
- * and imports global + theme stylesheets.
+ * and imports global + theme stylesheets. `/instructor` serves the
+ * facilitator console; every other path renders the learner EMR, once its
+ * saved state has been restored.
  */
 
-import React from 'react';
+import React, { lazy, Suspense } from 'react';
 import ReactDOM from 'react-dom/client';
-import { BrowserRouter } from 'react-router-dom';
+import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import App from './App';
+import HydrationGate from './components/common/HydrationGate';
 import './styles/global.css';
 import './styles/cerner-theme.css';
 
+const InstructorConsole = lazy(() => import('./components/instructor/InstructorConsole'));
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <BrowserRouter>
-      <App />
+      <Routes>
+        <Route
+          path="/instructor"
+          element={
+            <Suspense fallback={null}>
+              <InstructorConsole />
+            </Suspense>
+          }
+        />
+        <Route
+          path="*"
+          element={
+            <HydrationGate>
+              <App />
+            </HydrationGate>
+          }
+        />
+      </Routes>
     </BrowserRouter>
   </React.StrictMode>,
 );
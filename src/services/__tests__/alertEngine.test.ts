@@ -8,7 +8,13 @@
 
 import { describe, it, expect } from 'vitest'
 import type { VitalSign } from '@/types/patient'
-import { evaluateAlerts } from '@/services/alertEngine'
+import type { MetMeoOrder, ModifiedObsFrequencyOrder, NursingAssessment } from '@/types/meo'
+import {
+  evaluateAlerts,
+  createAlert,
+  escalateAlert,
+  isAwaitingReview,
+} from '@/services/alertEngine'
 
 /** Helper: create a baseline VitalSign with all normal values (score 0) */
 function normalVitals(overrides: Partial<VitalSign> = {}): VitalSign {
@@ -424,6 +430,12 @@ describe('Sepsis screening', () => {
     expect(alerts[0].showSepsisPrompt).toBe(false)
   })
 
+  it('a lactate of 2 or more triggers showSepsisPrompt', () => {
+    // RR=21 scores 1; no sepsis vitals, but the lactate is raised
+    expect(evaluateAlerts(normalVitals({ rr: '21' }), undefined, { lactate: 1.9 })[0].showSepsisPrompt).toBe(false)
+    expect(evaluateAlerts(normalVitals({ rr: '21' }), undefined, { lactate: 2.4 })[0].showSepsisPrompt).toBe(true)
+  })
+
   it('sepsis prompt is propagated to E-zone alerts', () => {
     // RR=5 -> E (and RR < 25, no other sepsis criteria)
     const alertsNoSepsis = evaluateAlerts(normalVitals({ rr: '5' }))
@@ -531,6 +543,25 @@ describe('Chart variant support', () => {
     expect(chronicAlerts[0].risk).toBe('Low')
   })
 
+  it('SW1171 scores SpO2 on the chronic scale, like chronic_respiratory', () => {
+    const alerts = evaluateAlerts(normalVitals({ spo2: '84' }), 'SW1171')
+    expect(alerts[0].ewsRange).toBe('1-3')
+    expect(alerts[0].risk).toBe('Low')
+  })
+
+  it('SW626 scores SpO2 on the standard scale', () => {
+    const alerts = evaluateAlerts(normalVitals({ spo2: '84' }), 'SW626')
+    expect(alerts[0].ewsRange).toBe('4-5')
+  })
+
+  it('SW626 has no sepsis screening prompt', () => {
+    const cardiac = evaluateAlerts(normalVitals({ hr: '135' }), 'SW626')
+    const general = evaluateAlerts(normalVitals({ hr: '135' }), 'SW150')
+    expect(cardiac[0].ewsRange).toBe(general[0].ewsRange)
+    expect(cardiac[0].showSepsisPrompt).toBe(false)
+    expect(general[0].showSepsisPrompt).toBe(true)
+  })
+
   it('variant is passed through — default (undefined) behaves as standard', () => {
     const defaultAlerts = evaluateAlerts(normalVitals({ spo2: '84' }))
     const standardAlerts = evaluateAlerts(normalVitals({ spo2: '84' }), 'standard')
@@ -565,3 +596,273 @@ describe('Alert metadata', () => {
     }
   })
 })
+
+// ---------------------------------------------------------------------------
+// createAlert (instructor-fired alerts)
+// ---------------------------------------------------------------------------
+describe('createAlert', () => {
+  it('matches the alert evaluateAlerts raises for the same range', () => {
+    const [evaluated] = evaluateAlerts(normalVitals({ rr: '26', hr: '125' }))
+    const built = createAlert(evaluated.ewsRange, {
+      showSepsisPrompt: evaluated.showSepsisPrompt,
+      raisedAt: new Date(2026, 0, 1, 8, 0),
+      observationSet: '01-Jan-2026 08:00',
+    })
+    expect({ ...built, id: '', timestamp: 0 }).toEqual({ ...evaluated, id: '', timestamp: 0 })
+  })
+
+  it('uses E-zone criteria and the given parameters for E alerts', () => {
+    const alert = createAlert('E', { parameters: ['Heart Rate'], showSepsisPrompt: true })
+    expect(alert.risk).toBe('Emergency')
+    expect(alert.parameters).toEqual(['Heart Rate'])
+    expect(alert.deterioratingCriteria).toContain('E zone vital sign outside accepted range')
+    expect(alert.showSepsisPrompt).toBe(true)
+  })
+
+  it('builds a staff concern alert', () => {
+    const alert = createAlert('nurse-concern')
+    expect(alert.title).toMatch(/Staff Member Concern/)
+    expect(alert.risk).toBe('High')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Response deadlines and escalation
+// ---------------------------------------------------------------------------
+describe('Response deadlines', () => {
+  it('gives EW Score 4-5 a 30 minute deadline from the obs date-time', () => {
+    const [alert] = evaluateAlerts(normalVitals({ rr: '31' }))
+    expect(alert.responseDeadline).toBe(new Date(2026, 0, 1, 8, 30).toISOString())
+    expect(alert.review).toBeNull()
+    expect(isAwaitingReview(alert)).toBe(true)
+  })
+
+  it('sets no deadline for EW Score 1-3 or a MET call', () => {
+    expect(evaluateAlerts(normalVitals({ rr: '9' }))[0].responseDeadline).toBeNull()
+    expect(evaluateAlerts(normalVitals({ rr: '5' }))[0].responseDeadline).toBeNull()
+  })
+
+  it('sets no deadline when the alert is not timed', () => {
+    expect(createAlert('4-5').responseDeadline).toBeNull()
+  })
+})
+
+describe('escalateAlert', () => {
+  const now = new Date(2026, 0, 1, 8, 31)
+
+  it('escalates EW Score 4-5 to 6-7 with its own deadline', () => {
+    const [alert] = evaluateAlerts(normalVitals({ rr: '31' }))
+    const next = escalateAlert(alert, now)!
+    expect(next.ewsRange).toBe('6-7')
+    expect(next.escalatedFrom).toBe(alert.id)
+    expect(next.responseDeadline).toBe(new Date(2026, 0, 1, 9, 1).toISOString())
+    expect(next.message).toContain(
+      'no RMO review documented within 30 minutes of the "EW Score 4-5" alert',
+    )
+  })
+
+  it('escalates EW Score 6-7 to a MET call', () => {
+    const next = escalateAlert(createAlert('6-7', { raisedAt: now }), now)!
+    expect(next.ewsRange).toBe('>=8')
+    expect(next.title).toBe('MET Call Criteria Met')
+    expect(next.responseDeadline).toBeNull()
+  })
+
+  it('does not escalate tiers without a review deadline', () => {
+    expect(escalateAlert(createAlert('>=8'), now)).toBeNull()
+    expect(escalateAlert(createAlert('1-3'), now)).toBeNull()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Active orders and de-duplication
+// ---------------------------------------------------------------------------
+
+/** Helper: an active MET-MEO plan accepting RR 5-8 in the E zone */
+function metMeoPlan(overrides: Partial<MetMeoOrder> = {}): MetMeoOrder {
+  return {
+    orderId: 'metmeo-1',
+    patientMrn: 'MRN-001',
+    orderType: 'MET_MEO_PLAN',
+    triggerType: 'E_ZONE',
+    eZoneVitalSign: 'rr',
+    eZoneLowerBound: 5,
+    eZoneUpperBound: 8,
+    eZoneCavpuLevel: null,
+    rationale: 'Chronic respiratory failure',
+    durationHours: 12,
+    authorisingClinicianName: 'Dr Smith',
+    authorisingClinicianRole: 'SMO',
+    signedAt: '2026-01-01T07:00:00.000Z',
+    expiresAt: '2026-01-01T19:00:00.000Z',
+    cancelledAt: null,
+    status: 'ACTIVE',
+    ...overrides,
+  }
+}
+
+/** Helper: a nursing assessment under the plan */
+function assessment(
+  patientStatus: NursingAssessment['patientStatus'],
+  metMeoOrderId = 'metmeo-1',
+): NursingAssessment {
+  return {
+    assessmentId: 'na-1',
+    patientMrn: 'MRN-001',
+    metMeoOrderId,
+    assessmentTime: '2026-01-01T08:05:00.000Z',
+    patientStatus,
+    observationComments: null,
+    criterionConcernWorse: false,
+    criterionNewVitalSigns: false,
+    criterionScoreHigher: false,
+  }
+}
+
+const mofOrder: ModifiedObsFrequencyOrder = {
+  orderId: 'mof-1',
+  patientMrn: 'MRN-001',
+  orderType: 'MODIFIED_OBS_FREQUENCY',
+  optionSelected: 'LONG_STAY_RESPITE',
+  frequencyHours: 8,
+  otherFreeText: null,
+  authorisingSmoName: 'Dr Smith',
+  signedAt: '2026-01-01T07:00:00.000Z',
+  cancelledAt: null,
+  status: 'ACTIVE',
+}
+
+describe('MET-MEO plan', () => {
+  it('holds back the MET call while the E zone vital sign is within the accepted range', () => {
+    expect(
+      evaluateAlerts(normalVitals({ rr: '5' }), undefined, { metMeoOrder: metMeoPlan() }),
+    ).toEqual([])
+  })
+
+  it('raises the MET call when the vital sign leaves the accepted range', () => {
+    const alerts = evaluateAlerts(normalVitals({ rr: '4' }), undefined, {
+      metMeoOrder: metMeoPlan(),
+    })
+    expect(alerts).toHaveLength(1)
+    expect(alerts[0].ewsRange).toBe('E')
+    expect(alerts[0].message).toContain('Escalate despite the MET-MEO plan')
+    expect(alerts[0].message).toContain('4 is outside the accepted range (5–8)')
+  })
+
+  it('raises the MET call for an E zone vital sign the plan does not cover', () => {
+    const alerts = evaluateAlerts(normalVitals({ rr: '5', avpu: 'Pain' }), undefined, {
+      metMeoOrder: metMeoPlan(),
+    })
+    expect(alerts[0].ewsRange).toBe('E')
+    expect(alerts[0].message).toContain(
+      'Consciousness (AVPU) in the E zone is not covered by the plan',
+    )
+  })
+
+  it('raises the MET call when the patient is assessed as deteriorating under the plan', () => {
+    const alerts = evaluateAlerts(normalVitals({ rr: '5' }), undefined, {
+      metMeoOrder: metMeoPlan(),
+      nursingAssessment: assessment('DETERIORATING'),
+    })
+    expect(alerts[0].ewsRange).toBe('E')
+    expect(alerts[0].message).toContain('patient assessed as deteriorating')
+  })
+
+  it('ignores assessments recorded under another plan or as stable', () => {
+    const plan = metMeoPlan()
+    const vitals = normalVitals({ rr: '5' })
+    expect(
+      evaluateAlerts(vitals, undefined, {
+        metMeoOrder: plan,
+        nursingAssessment: assessment('DETERIORATING', 'old'),
+      }),
+    ).toEqual([])
+    expect(
+      evaluateAlerts(vitals, undefined, {
+        metMeoOrder: plan,
+        nursingAssessment: assessment('STABLE'),
+      }),
+    ).toEqual([])
+  })
+
+  it('holds back a score of 8 or more under an EWS plan unless the score is higher than last', () => {
+    const plan = metMeoPlan({
+      triggerType: 'EWS_GTE_8',
+      eZoneVitalSign: null,
+      eZoneLowerBound: null,
+      eZoneUpperBound: null,
+    })
+    const latest = normalVitals({ temp: '33.0', bp_sys: '80' })
+    const same = normalVitals({ datetime: '01-Jan-2026 07:00', temp: '33.0', bp_sys: '80' })
+    const lower = normalVitals({ datetime: '01-Jan-2026 07:00', temp: '33.0', bp_sys: '90' })
+
+    expect(evaluateAlerts([latest, same], undefined, { metMeoOrder: plan })).toEqual([])
+
+    const alerts = evaluateAlerts([latest, lower], undefined, { metMeoOrder: plan })
+    expect(alerts[0].ewsRange).toBe('>=8')
+    expect(alerts[0].message).toContain('Score higher than last score')
+  })
+
+  it('raises a score of 8 or more under a plan that only covers the E zone', () => {
+    const alerts = evaluateAlerts(normalVitals({ temp: '33.0', bp_sys: '80' }), undefined, {
+      metMeoOrder: metMeoPlan(),
+    })
+    expect(alerts[0].ewsRange).toBe('>=8')
+    expect(alerts[0].message).toContain('EWS 8 is not covered by the plan')
+  })
+
+  it('still raises a staff concern alert', () => {
+    const alerts = evaluateAlerts(normalVitals({ rr: '5', nurseConcern: true }), undefined, {
+      metMeoOrder: metMeoPlan(),
+    })
+    expect(alerts.map((a) => a.ewsRange)).toEqual(['nurse-concern'])
+  })
+})
+
+describe('MOF order', () => {
+  it('holds back EW Score 1-3 alerts without a deteriorating trend', () => {
+    expect(evaluateAlerts(normalVitals({ rr: '9' }), undefined, { mofOrder })).toEqual([])
+  })
+
+  it('raises EW Score 1-3 alerts that carry a trend', () => {
+    const previous = normalVitals({ datetime: '01-Jan-2026 07:00' })
+    const alerts = evaluateAlerts([normalVitals({ rr: '9' }), previous], undefined, { mofOrder })
+    expect(alerts[0].ewsRange).toBe('1-3')
+  })
+
+  it('raises higher tiers as normal', () => {
+    expect(evaluateAlerts(normalVitals({ rr: '31' }), undefined, { mofOrder })[0].ewsRange).toBe(
+      '4-5',
+    )
+  })
+})
+
+describe('De-duplication', () => {
+  it('records the observation set on each alert', () => {
+    expect(evaluateAlerts(normalVitals({ rr: '31' }))[0].observationSet).toBe('01-Jan-2026 08:00')
+  })
+
+  it('does not raise an alert again for the same observation set', () => {
+    const vitals = normalVitals({ rr: '31' })
+    const existing = evaluateAlerts(vitals)
+    expect(evaluateAlerts(vitals, undefined, { existing })).toEqual([])
+  })
+
+  it('raises the same tier for a new observation set', () => {
+    const existing = evaluateAlerts(normalVitals({ rr: '31' }))
+    const alerts = evaluateAlerts(
+      normalVitals({ datetime: '01-Jan-2026 09:00', rr: '31' }),
+      undefined,
+      { existing },
+    )
+    expect(alerts.map((a) => a.ewsRange)).toEqual(['4-5'])
+  })
+
+  it('raises other tiers for the same observation set', () => {
+    const existing = evaluateAlerts(normalVitals({ rr: '9' }))
+    const alerts = evaluateAlerts(normalVitals({ rr: '9', nurseConcern: true }), undefined, {
+      existing,
+    })
+    expect(alerts.map((a) => a.ewsRange)).toEqual(['nurse-concern'])
+  })
+})
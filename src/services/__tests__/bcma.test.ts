@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest'
+import type { ScenarioBcmaErrors } from '@/types/scenario'
+import {
+  buildProductCatalogue,
+  checkFiveRights,
+  getProductBarcode,
+  getStopLevel,
+  getSuppliedProduct,
+  getSuppliedWristband,
+} from '@/services/bcma'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const MRN = 'RBWH789456'
+const NOW = new Date(2026, 2, 1, 8, 10)
+const DUE = new Date(2026, 2, 1, 8, 0)
+
+const hydroxyzine = {
+  name: 'Hydroxyzine',
+  dose: { amount: 25, unit: 'mg' as const },
+  route: 'PO' as const,
+}
+const metoprolol = {
+  name: 'Metoprolol',
+  dose: { amount: 50, unit: 'mg' as const },
+  route: 'PO' as const,
+}
+
+const LOOK_ALIKE: ScenarioBcmaErrors = {
+  wristbandMrn: 'RBWH000111',
+  substitutions: [{ medication: 'hydroxyzine', name: 'Hydralazine' }],
+}
+
+/** Scan `wristband` and the barcode of what is at the bedside for `order` */
+function scanOf(
+  order: typeof hydroxyzine,
+  errors?: ScenarioBcmaErrors,
+  wristband = getSuppliedWristband(MRN, errors),
+) {
+  return { wristband, barcode: getProductBarcode(getSuppliedProduct(order, errors)) }
+}
+
+function check(
+  order: typeof hydroxyzine,
+  errors?: ScenarioBcmaErrors,
+  wristband?: string,
+  now = NOW,
+) {
+  return checkFiveRights(
+    scanOf(order, errors, wristband),
+    { patientMrn: MRN, order: hydroxyzine, scheduledAt: DUE },
+    buildProductCatalogue([hydroxyzine, metoprolol], errors),
+    now,
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Barcodes
+// ---------------------------------------------------------------------------
+
+describe('getProductBarcode', () => {
+  it('issues a stable EAN-13 per product', () => {
+    const code = getProductBarcode(hydroxyzine)
+    expect(code).toMatch(/^930\d{10}$/)
+    expect(getProductBarcode({ ...hydroxyzine, name: ' hydroxyzine ' })).toBe(code)
+
+    // EAN-13 check digit
+    const sum = [...code.slice(0, 12)].reduce((acc, d, i) => acc + Number(d) * (i % 2 ? 3 : 1), 0)
+    expect(Number(code[12])).toBe((10 - (sum % 10)) % 10)
+  })
+
+  it('differs by name, strength and route', () => {
+    const codes = new Set([
+      getProductBarcode(hydroxyzine),
+      getProductBarcode({ ...hydroxyzine, name: 'Hydralazine' }),
+      getProductBarcode({ ...hydroxyzine, dose: { amount: 10, unit: 'mg' } }),
+      getProductBarcode({ ...hydroxyzine, route: 'IM' }),
+    ])
+    expect(codes.size).toBe(4)
+  })
+})
+
+describe('getSuppliedProduct', () => {
+  it('supplies the ordered product unless the scenario substitutes one', () => {
+    expect(getSuppliedProduct(hydroxyzine)).toEqual(hydroxyzine)
+    expect(getSuppliedProduct(metoprolol, LOOK_ALIKE)).toEqual(metoprolol)
+    expect(getSuppliedProduct(hydroxyzine, LOOK_ALIKE)).toEqual({
+      ...hydroxyzine,
+      name: 'Hydralazine',
+    })
+  })
+
+  it('reads a substitute strength and route written as on a chart', () => {
+    const errors = {
+      substitutions: [
+        { medication: 'Hydroxyzine', name: 'Hydroxyzine', dose: '10mg', route: 'IM' },
+      ],
+    }
+    expect(getSuppliedProduct(hydroxyzine, errors)).toEqual({
+      name: 'Hydroxyzine',
+      dose: { amount: 10, unit: 'mg' },
+      route: 'IM',
+    })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Five rights
+// ---------------------------------------------------------------------------
+
+describe('checkFiveRights', () => {
+  it('passes the right product for the right patient on time', () => {
+    expect(check(hydroxyzine)).toEqual([])
+    expect(check(hydroxyzine, undefined, ` ${MRN.toLowerCase()} `)).toEqual([])
+  })
+
+  it('hard-stops a planted wrong-patient wristband', () => {
+    expect(check(hydroxyzine, { wristbandMrn: 'RBWH000111' })).toEqual([
+      {
+        right: 'patient',
+        level: 'hard',
+        message: 'Wrong patient: wristband RBWH000111, chart RBWH789456',
+      },
+    ])
+  })
+
+  it('hard-stops a look-alike drug without checking its dose or route', () => {
+    const stops = check(hydroxyzine, { substitutions: LOOK_ALIKE.substitutions })
+    expect(stops).toEqual([
+      {
+        right: 'drug',
+        level: 'hard',
+        message: 'Wrong drug: scanned Hydralazine, ordered Hydroxyzine',
+      },
+    ])
+  })
+
+  it('hard-stops another order and an unknown barcode', () => {
+    expect(check(metoprolol).map((s) => s.message)).toEqual([
+      'Wrong drug: scanned Metoprolol, ordered Hydroxyzine',
+    ])
+    const unknown = checkFiveRights(
+      { wristband: MRN, barcode: '9300000000000' },
+      { patientMrn: MRN, order: hydroxyzine, scheduledAt: DUE },
+      buildProductCatalogue([hydroxyzine]),
+      NOW,
+    )
+    expect(unknown).toEqual([
+      { right: 'drug', level: 'hard', message: 'Barcode 9300000000000 not recognised' },
+    ])
+  })
+
+  it('soft-stops a different strength and hard-stops a different unit or route', () => {
+    const strength = {
+      substitutions: [{ medication: 'Hydroxyzine', name: 'Hydroxyzine', dose: '10 mg' }],
+    }
+    expect(check(hydroxyzine, strength)).toEqual([
+      { right: 'dose', level: 'soft', message: 'Dose differs: scanned 10 mg, ordered 25 mg' },
+    ])
+
+    const unit = {
+      substitutions: [{ medication: 'Hydroxyzine', name: 'Hydroxyzine', dose: '25 mL' }],
+    }
+    expect(check(hydroxyzine, unit).map((s) => [s.right, s.level])).toEqual([['dose', 'hard']])
+
+    const route = {
+      substitutions: [{ medication: 'Hydroxyzine', name: 'Hydroxyzine', route: 'IV' }],
+    }
+    expect(check(hydroxyzine, route).map((s) => [s.right, s.level])).toEqual([['route', 'hard']])
+  })
+
+  it('soft-stops a scan more than an hour from the scheduled time', () => {
+    expect(check(hydroxyzine, undefined, undefined, new Date(2026, 2, 1, 9, 0))).toEqual([])
+    expect(check(hydroxyzine, undefined, undefined, new Date(2026, 2, 1, 9, 30))).toEqual([
+      {
+        right: 'time',
+        level: 'soft',
+        message: 'Not due: scheduled 01-Mar-2026 08:00, 90 min late',
+      },
+    ])
+    expect(check(hydroxyzine, undefined, undefined, new Date(2026, 2, 1, 6, 0))[0].message).toMatch(
+      /120 min early$/,
+    )
+  })
+
+  it('has no time check for a PRN dose', () => {
+    const stops = checkFiveRights(
+      scanOf(hydroxyzine),
+      { patientMrn: MRN, order: hydroxyzine, scheduledAt: null },
+      buildProductCatalogue([hydroxyzine]),
+      new Date(2026, 2, 1, 23, 0),
+    )
+    expect(stops).toEqual([])
+  })
+
+  it('reports every right that fails', () => {
+    const stops = check(hydroxyzine, LOOK_ALIKE, undefined, new Date(2026, 2, 1, 12, 0))
+    expect(stops.map((s) => s.right)).toEqual(['patient', 'drug', 'time'])
+    expect(getStopLevel(stops)).toBe('hard')
+  })
+})
+
+describe('getStopLevel', () => {
+  it('is the strictest stop, or null when the scan matched', () => {
+    expect(getStopLevel([])).toBeNull()
+    expect(getStopLevel([{ right: 'time', level: 'soft', message: '' }])).toBe('soft')
+  })
+})
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest'
+import { getCewtAgeBand, getCewtEscalationText, getCewtThresholds } from '@/services/cewt'
+import {
+  calculateQadds,
+  getChartForm,
+  getEscalationText,
+  getPatientChartVariant,
+} from '@/services/qaddsCalculator'
+import { evaluateAlerts } from '@/services/alertEngine'
+import type { VitalSign } from '@/types/patient'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** A toddler's normal obs set; override individual fields as needed. */
+function toddlerVitals(overrides: Partial<VitalSign> = {}): VitalSign {
+  return {
+    datetime: '01-Mar-2026 08:00',
+    temp: '37.0',
+    hr: '120',
+    rr: '30',
+    bp_sys: '95',
+    bp_dia: '60',
+    spo2: '98',
+    avpu: 'Alert',
+    o2FlowRate: '0',
+    ...overrides,
+  }
+}
+
+const ADMITTED = new Date(2026, 2, 1)
+
+// ---------------------------------------------------------------------------
+// Age bands
+// ---------------------------------------------------------------------------
+describe('getCewtAgeBand', () => {
+  it('Picks the band for each age', () => {
+    expect(getCewtAgeBand(2)?.code).toBe('CEWT-1-4Y')
+    expect(getCewtAgeBand(5)?.code).toBe('CEWT-5-11Y')
+    expect(getCewtAgeBand(11)?.code).toBe('CEWT-5-11Y')
+    expect(getCewtAgeBand(12)?.code).toBe('CEWT-12Y')
+    expect(getCewtAgeBand(15)?.code).toBe('CEWT-12Y')
+  })
+
+  it('Counts an infant\'s months from the date of birth', () => {
+    expect(getCewtAgeBand(0, '2026-01-10', ADMITTED)?.code).toBe('CEWT-0-3M')
+    expect(getCewtAgeBand(0, '2025-10-15', ADMITTED)?.code).toBe('CEWT-4-11M')
+  })
+
+  it('Uses a fractional age when there is no date of birth', () => {
+    expect(getCewtAgeBand(0.25)?.code).toBe('CEWT-0-3M')
+    expect(getCewtAgeBand(0.5)?.code).toBe('CEWT-4-11M')
+  })
+
+  it('Returns null at 16 and over, or when the age is not recorded', () => {
+    expect(getCewtAgeBand(16)).toBeNull()
+    expect(getCewtAgeBand(71)).toBeNull()
+    expect(getCewtAgeBand(0)).toBeNull()
+    expect(getCewtAgeBand(Number.NaN)).toBeNull()
+  })
+
+  it('Has no thresholds for adult chart forms', () => {
+    expect(getCewtThresholds('SW150')).toBeNull()
+    expect(getCewtThresholds('CEWT-1-4Y')).not.toBeNull()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Engine selection
+// ---------------------------------------------------------------------------
+describe('getPatientChartVariant', () => {
+  it('Puts children on the CEWT chart for their age', () => {
+    expect(getPatientChartVariant({ age: 3, dob: '2023-01-01', admission: '2026-03-01' })).toBe(
+      'CEWT-1-4Y',
+    )
+  })
+
+  it('Takes an infant\'s age at the simulation time', () => {
+    const infant = { age: 0, dob: '2021-02-20', admission: '2021-04-08T08:00:00' }
+    expect(getPatientChartVariant(infant, 'qadds', new Date(2021, 5, 19))).toBe('CEWT-0-3M')
+    expect(getPatientChartVariant(infant, 'qadds', new Date(2021, 5, 20))).toBe('CEWT-4-11M')
+  })
+
+  it('Takes an infant\'s age at admission without a clock', () => {
+    const infant = { age: 0, dob: '2021-02-20', admission: '2021-04-08T08:00:00' }
+    expect(getPatientChartVariant(infant)).toBe('CEWT-0-3M')
+  })
+
+  it('Keeps adults on their own Q-ADDS chart form', () => {
+    const adult = { age: 63, dob: '07-Apr-1963', admission: '2026-03-01' }
+    expect(getPatientChartVariant(adult)).toBeUndefined()
+    expect(getPatientChartVariant({ ...adult, chartVariant: 'SW626' })).toBe('SW626')
+  })
+
+  it('Ignores an adult chart form set on a child', () => {
+    const child = { age: 8, dob: '2018-01-01', admission: '2026-03-01', chartVariant: 'SW626' as const }
+    expect(getPatientChartVariant(child)).toBe('CEWT-5-11Y')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+describe('Scoring on a CEWT chart', () => {
+  it('Normal toddler obs score 0 on CEWT but trigger on the adult chart', () => {
+    expect(calculateQadds(toddlerVitals(), 'CEWT-1-4Y').totalScore).toBe(0)
+    expect(calculateQadds(toddlerVitals(), 'SW150').totalScore).toBe(6)
+  })
+
+  it('Scores RR, HR and SBP on the age band tables', () => {
+    const result = calculateQadds(toddlerVitals({ rr: '46', hr: '155', bp_sys: '72' }), 'CEWT-1-4Y')
+    expect(result.subScores.rr.score).toBe(2)
+    expect(result.subScores.heartRate.score).toBe(2)
+    expect(result.subScores.systolicBP.score).toBe(2)
+    expect(result.totalScore).toBe(6)
+    expect(result.clinicalRisk).toBe('High')
+  })
+
+  it('E-zones are age-specific', () => {
+    const neonate = calculateQadds(toddlerVitals({ hr: '85' }), 'CEWT-0-3M')
+    const school = calculateQadds(toddlerVitals({ hr: '85' }), 'CEWT-5-11Y')
+    expect(neonate.emergencyParameters).toEqual(['heartRate'])
+    expect(neonate.clinicalRisk).toBe('Emergency')
+    expect(school.subScores.heartRate.score).toBe(0)
+  })
+
+  it('SpO₂, temperature and consciousness score as on the adult chart', () => {
+    const vitals = toddlerVitals({ spo2: '88', temp: '38.6', avpu: 'Voice' })
+    const result = calculateQadds(vitals, 'CEWT-1-4Y')
+    expect(result.subScores.spo2.score).toBe(2)
+    expect(result.subScores.temperature.score).toBe(2)
+    expect(result.subScores.consciousness.score).toBe(1)
+  })
+
+  it('Drives the alert engine with the same result shape', () => {
+    const alerts = evaluateAlerts(toddlerVitals({ rr: '65' }), 'CEWT-1-4Y')
+    expect(alerts[0].ewsRange).toBe('E')
+    expect(alerts[0].parameters).toEqual(['Respiratory Rate'])
+    expect(alerts[0].showSepsisPrompt).toBe(false)
+    expect(evaluateAlerts(toddlerVitals(), 'CEWT-1-4Y')).toEqual([])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Escalation
+// ---------------------------------------------------------------------------
+describe('Paediatric escalation', () => {
+  it('CEWT charts are paediatric with no sepsis prompt', () => {
+    expect(getChartForm('CEWT-0-3M')).toMatchObject({ paediatric: true, sepsisScreening: false })
+    expect(getChartForm('SW150').paediatric).toBe(false)
+  })
+
+  it('Escalates to the paediatric team', () => {
+    expect(getCewtEscalationText('Emergency')).toContain('paediatric MET call')
+    expect(getCewtEscalationText('High', 'deteriorating')).toContain('Paediatric Registrar')
+    expect(getCewtEscalationText('Low', 'stable')).toContain('parent or carer')
+  })
+
+  it('getEscalationText returns paediatric text on a CEWT chart', () => {
+    expect(getEscalationText('Moderate', 'deteriorating', 'CEWT-5-11Y')).toBe(
+      getCewtEscalationText('Moderate', 'deteriorating'),
+    )
+    expect(getEscalationText('Moderate', 'deteriorating', 'SW150')).toContain('Notify RMO')
+  })
+})
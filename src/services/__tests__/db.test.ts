@@ -0,0 +1,170 @@
+/**
+ * @file db.test.ts
+ * @description Tests for the IndexedDB repository's lookups.
+ *
+ * Covers the audit trail by patient, scenario run and simulation time,
+ * the alert history by patient, and administrations by patient and read
+ * back as medication history records. Runs on the in-memory fallback, as
+ * jsdom has no IndexedDB.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  clearAll,
+  clearSessionLog,
+  getActionsBetween,
+  getAdministrations,
+  getAlertHistory,
+  getPatientActions,
+  getScenarioRunActions,
+  getSessionLog,
+  logAction,
+  saveAdministration,
+  saveAlert,
+  saveMedicationAdministration,
+  toMedicationAdministration,
+} from '../db';
+import { createAlert } from '../alertEngine';
+import type { LearnerAction, MedicationAdministration } from '../../types';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const START = new Date(2026, 2, 1, 8, 0);
+
+/** Sim time `minutes` after START, as ISO. */
+function at(minutes: number): string {
+  return new Date(START.getTime() + minutes * 60_000).toISOString();
+}
+
+function action(minutes: number, patientMrn: string | null, scenarioRunId: string | null = null): LearnerAction {
+  return {
+    sessionId: 'test',
+    type: 'view/changed',
+    payload: { from: 'search', to: 'mar' },
+    patientMrn,
+    wallTime: at(0),
+    simTime: at(minutes),
+    scenarioRunId,
+  };
+}
+
+function administration(id: string, patientMrn: string, minutes: number) {
+  return {
+    id,
+    patientMrn,
+    medicationName: 'Paracetamol',
+    timestamp: at(0),
+    simTime: at(minutes),
+    nurse: 'RN Lee',
+    status: 'given',
+  };
+}
+
+beforeEach(async () => {
+  await clearSessionLog();
+  await clearAll();
+});
+
+// ---------------------------------------------------------------------------
+// Audit trail
+// ---------------------------------------------------------------------------
+
+describe('audit trail', () => {
+  it('assigns increasing keys and reads the log in recorded order', async () => {
+    const first = await logAction(action(10, 'MRN-001'));
+    const second = await logAction(action(5, 'MRN-002'));
+
+    expect(second).toBeGreaterThan(first);
+    expect((await getSessionLog('test')).map((a) => a.id)).toEqual([first, second]);
+  });
+
+  it('finds the actions concerning one patient', async () => {
+    await logAction(action(0, 'MRN-001'));
+    await logAction(action(5, 'MRN-002'));
+    await logAction(action(10, 'MRN-001'));
+    await logAction(action(15, null));
+
+    const actions = await getPatientActions('MRN-001');
+    expect(actions.map((a) => a.simTime)).toEqual([at(0), at(10)]);
+  });
+
+  it('finds the actions recorded during one scenario run', async () => {
+    await logAction(action(0, 'MRN-001', 'run-1'));
+    await logAction(action(5, 'MRN-001'));
+    await logAction(action(10, 'MRN-001', 'run-2'));
+    await logAction(action(15, 'MRN-001', 'run-1'));
+
+    const actions = await getScenarioRunActions('run-1');
+    expect(actions.map((a) => a.simTime)).toEqual([at(0), at(15)]);
+  });
+
+  it('finds actions by simulation time, inclusive, in time order', async () => {
+    await logAction(action(30, 'MRN-001'));
+    await logAction(action(0, 'MRN-001'));
+    await logAction(action(10, 'MRN-001'));
+    await logAction(action(45, 'MRN-001'));
+
+    const actions = await getActionsBetween(new Date(at(10)), new Date(at(30)));
+    expect(actions.map((a) => a.simTime)).toEqual([at(10), at(30)]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Alerts and administrations
+// ---------------------------------------------------------------------------
+
+describe('alert history', () => {
+  it('records the patient and filters by it', async () => {
+    const first = createAlert('4-5');
+    const second = createAlert('>=8');
+    await saveAlert('MRN-001', first);
+    await saveAlert('MRN-002', second);
+
+    const history = await getAlertHistory('MRN-001');
+    expect(history).toEqual([{ ...first, patientMrn: 'MRN-001' }]);
+    expect(await getAlertHistory()).toHaveLength(2);
+  });
+});
+
+describe('administrations', () => {
+  it('reads one patient\'s administrations in simulation-time order', async () => {
+    await saveAdministration(administration('a', 'MRN-001', 60));
+    await saveAdministration(administration('b', 'MRN-002', 0));
+    await saveAdministration(administration('c', 'MRN-001', 0));
+
+    const records = await getAdministrations('MRN-001');
+    expect(records.map((r) => r.id)).toEqual(['c', 'a']);
+  });
+
+  it('reads back a MAR dose with its PRN details and scan override', async () => {
+    const prn = {
+      indication: 'Pain',
+      scale: 'PAIN' as const,
+      preDoseScore: 7,
+      postDoseScore: null,
+      reassessDueAt: at(60),
+      reassessedAt: null,
+    };
+    const dose: MedicationAdministration = {
+      id: 'prn-1',
+      scheduledAt: null,
+      timestamp: at(0),
+      status: 'GIVEN',
+      nurse: 'RN Lee',
+      overrideReason: 'Dose confirmed with pharmacy',
+      prn,
+    };
+    await saveMedicationAdministration('MRN-001', 'oxycodone', dose);
+    const [charted] = await getAdministrations('MRN-001');
+
+    const reassessed = { ...dose, prn: { ...prn, postDoseScore: 3, reassessedAt: at(60) } };
+    await saveMedicationAdministration('MRN-001', 'oxycodone', reassessed);
+    const [record] = await getAdministrations('MRN-001');
+
+    expect(record).toMatchObject({ medicationName: 'oxycodone', simTime: at(0), notes: undefined });
+    expect(record.timestamp).toBe(charted.timestamp);
+    expect(toMedicationAdministration(record)).toEqual(reassessed);
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * @file dbMigrations.test.ts
+ * @description Tests for upgrading the IndexedDB database.
+ *
+ * Covers the numbered migrations from a version 1 and a version 2
+ * database and a failed data step rolling the upgrade back, and importing
+ * the old `simcerner-db` database: alerts filed under the patient the alert
+ * store saved them for and unplaced alerts dropped, and administrations
+ * timed from the doses logged to the audit trail or else from when they
+ * were charted. Runs on fake-indexeddb, a fresh database per test.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { openDB } from 'idb';
+import { createAlert } from '../alertEngine';
+import type { LearnerAction, Patient } from '../../types';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const MRN = 'MRN-001';
+const CHARTED_AT = '2026-03-01T09:30:00.000Z';
+const SIM_TIME = '2026-03-01T08:05:00.000Z';
+
+const patient = { mrn: MRN, name: 'DOE, JANE' } as Patient;
+
+/** A dose logged to the audit trail before scenario runs were recorded. */
+const loggedDose = {
+  sessionId: 'earlier-session',
+  type: 'mar/administered',
+  patientMrn: MRN,
+  wallTime: CHARTED_AT,
+  simTime: SIM_TIME,
+  payload: {
+    medicationName: 'ramipril',
+    route: 'PO',
+    scheduledTime: '08:00',
+    status: 'GIVEN',
+    nurse: 'RN Lee',
+  },
+} as Omit<LearnerAction, 'scenarioRunId'>;
+
+/** The repository, loaded fresh so it opens the database anew. */
+function loadDb() {
+  return import('../db');
+}
+
+/** Create the database as version 1 of the repository left it. */
+async function seedVersion1(): Promise<void> {
+  const db = await openDB('simcerner', 1, {
+    upgrade(db) {
+      db.createObjectStore('patients', { keyPath: 'mrn' }).createIndex('by-name', 'name');
+    },
+  });
+  await db.put('patients', patient);
+  db.close();
+}
+
+/** Create the database as version 2 of the repository left it. */
+async function seedVersion2(actions: object[] = []): Promise<void> {
+  const db = await openDB('simcerner', 2, {
+    upgrade(db) {
+      db.createObjectStore('patients', { keyPath: 'mrn' }).createIndex('by-name', 'name');
+      const log = db.createObjectStore('sessionLog', { keyPath: 'id', autoIncrement: true });
+      log.createIndex('by-session', 'sessionId');
+      log.createIndex('by-type', 'type');
+    },
+  });
+  for (const action of actions) await db.add('sessionLog', action);
+  db.close();
+}
+
+/** Create the old database with the given records in each store. */
+async function seedLegacy(records: Record<string, object[]>): Promise<void> {
+  const db = await openDB('simcerner-db', 1, {
+    upgrade(db) {
+      for (const store of ['patients', 'sessions', 'alerts', 'administrations', 'storeState']) {
+        db.createObjectStore(store, { keyPath: store === 'patients' ? 'mrn' : 'id' });
+      }
+    },
+  });
+  for (const [store, values] of Object.entries(records)) {
+    for (const value of values) await db.put(store, value);
+  }
+  db.close();
+}
+
+beforeEach(() => {
+  vi.resetModules();
+  vi.stubGlobal('indexedDB', new IDBFactory());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Migrations
+// ---------------------------------------------------------------------------
+
+describe('MIGRATIONS', () => {
+  it('creates every object store in a new database', async () => {
+    const { getSessionLog } = await loadDb();
+    expect(await getSessionLog()).toEqual([]);
+
+    const db = await openDB('simcerner');
+    expect(db.version).toBe(3);
+    expect([...db.objectStoreNames].sort()).toEqual([
+      'administrations',
+      'alerts',
+      'patients',
+      'sessionLog',
+      'sessions',
+      'storeState',
+    ]);
+    db.close();
+  });
+
+  it('upgrades a version 1 database, keeping its patients', async () => {
+    await seedVersion1();
+    const { getPatient, getPatientActions, logAction } = await loadDb();
+
+    expect(await getPatient(MRN)).toEqual(patient);
+    await logAction({ ...loggedDose, scenarioRunId: null } as LearnerAction);
+    expect(await getPatientActions(MRN)).toHaveLength(1);
+  });
+
+  it('gives actions logged by version 2 no scenario run and indexes them', async () => {
+    await seedVersion2([loggedDose]);
+    const { getActionsBetween, getSessionLog } = await loadDb();
+
+    expect(await getSessionLog()).toEqual([
+      expect.objectContaining({ type: 'mar/administered', scenarioRunId: null }),
+    ]);
+    expect(
+      await getActionsBetween(new Date(SIM_TIME), new Date('2026-03-01T09:00:00.000Z')),
+    ).toHaveLength(1);
+  });
+
+  it('rejects with the error of a failed data step and leaves the database as it was', async () => {
+    await seedVersion2([loggedDose]);
+    const failure = new Error('disk full');
+    vi.spyOn(IDBCursor.prototype, 'update').mockImplementation(() => {
+      throw failure;
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { getSessionLog } = await loadDb();
+
+    await expect(getSessionLog()).rejects.toBe(failure);
+    const db = await openDB('simcerner');
+    expect(db.version).toBe(2);
+    expect(await db.getAll('sessionLog')).toEqual([{ ...loggedDose, id: 1 }]);
+    db.close();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// importLegacyDatabase
+// ---------------------------------------------------------------------------
+
+describe('importLegacyDatabase', () => {
+  const attributed = createAlert('4-5');
+  const unattributed = createAlert('6-7');
+  const alertStore = {
+    id: 'alerts',
+    version: 1,
+    state: { alerts: { [MRN]: [attributed] }, activeAlerts: {} },
+    savedAt: CHARTED_AT,
+  };
+  const given = {
+    id: 'dose-1',
+    patientMrn: MRN,
+    medicationName: 'ramipril',
+    timestamp: '2026-03-01T09:30:00.400Z',
+    nurse: 'RN Lee',
+    status: 'GIVEN',
+  };
+  const unlogged = { ...given, id: 'dose-2', timestamp: '2026-03-01T11:00:00.000Z' };
+
+  beforeEach(async () => {
+    await seedVersion2([loggedDose]);
+    await seedLegacy({
+      patients: [patient],
+      alerts: [attributed, unattributed],
+      administrations: [given, unlogged],
+      storeState: [alertStore],
+    });
+  });
+
+  it('copies the old records in and deletes the old database', async () => {
+    const { getPatient, getStoreState } = await loadDb();
+
+    expect(await getPatient(MRN)).toEqual(patient);
+    expect(await getStoreState('alerts')).toEqual(alertStore);
+    const names = (await indexedDB.databases()).map((d) => d.name);
+    expect(names).toEqual(['simcerner']);
+  });
+
+  it('files alerts under the patient the alert store saved them for', async () => {
+    const { getAlertHistory } = await loadDb();
+    expect(await getAlertHistory()).toEqual([{ ...attributed, patientMrn: MRN }]);
+  });
+
+  it('times administrations from the dose logged with them, else from their charting', async () => {
+    const { getAdministrations } = await loadDb();
+    expect(await getAdministrations(MRN)).toEqual([
+      { ...given, simTime: SIM_TIME },
+      { ...unlogged, simTime: unlogged.timestamp },
+    ]);
+  });
+
+  it('keeps every dose the MAR saved when nothing was logged to the audit trail', async () => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    // As the MAR grid saved a dose before the audit trail was kept
+    const held = {
+      id: 'dose-3',
+      patientMrn: MRN,
+      medicationName: 'ramipril',
+      timestamp: '2026-03-01T09:45:00.000Z',
+      nurse: 'RN Lee',
+      status: 'HELD',
+      notes: 'SBP 88',
+    };
+    await seedLegacy({ patients: [patient], administrations: [given, held] });
+    const { getAdministrations } = await loadDb();
+
+    expect(await getAdministrations(MRN)).toEqual([
+      { ...given, simTime: given.timestamp },
+      { ...held, simTime: held.timestamp },
+    ]);
+    expect((await indexedDB.databases()).map((d) => d.name)).toEqual(['simcerner']);
+  });
+
+  it('keeps records already in the database', async () => {
+    const db = await openDB('simcerner', 2);
+    await db.put('patients', { ...patient, name: 'DOE, JANE M' });
+    db.close();
+
+    const { getPatient } = await loadDb();
+    expect((await getPatient(MRN))?.name).toBe('DOE, JANE M');
+  });
+});
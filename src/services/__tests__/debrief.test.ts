@@ -0,0 +1,493 @@
+/**
+ * @file debrief.test.ts
+ * @description Unit tests for the post-simulation debrief report.
+ *
+ * Covers the merged timeline (observations scored on the chart form,
+ * replayed alerts, learner actions), escalation and MET response latencies, overdue MAR doses,
+ * unacknowledged alerts, and chart date-time parsing.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildDebriefReport, describeAction, listScheduledDoses } from '../debrief';
+import { createAlert } from '../alertEngine';
+import { parseChartDateTime } from '../scenarioEngine';
+import type { LearnerAction, LearnerActionPayloads, LearnerActionType, Medication, Patient } from '../../types';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const MRN = 'MRN-001';
+const FROM = new Date(2026, 2, 1, 8, 0);
+const TO = new Date(2026, 2, 1, 10, 0);
+
+/** Sim time `minutes` after FROM, as ISO. */
+function at(minutes: number): string {
+  return new Date(FROM.getTime() + minutes * 60_000).toISOString();
+}
+
+function action<T extends LearnerActionType>(
+  minutes: number,
+  type: T,
+  payload: LearnerActionPayloads[T],
+  patientMrn: string = MRN,
+): LearnerAction {
+  return {
+    sessionId: 'test',
+    type,
+    payload,
+    patientMrn,
+    wallTime: at(minutes),
+    simTime: at(minutes),
+  } as LearnerAction;
+}
+
+function makeMedication(overrides: Partial<Medication> = {}): Medication {
+  return {
+    name: 'Metoprolol',
+    dose: { amount: 25, unit: 'mg' },
+    route: 'PO',
+    frequency: { code: 'BD', intervalHours: 12 },
+    scheduled: true,
+    times: ['0800'],
+    administrations: [],
+    ...overrides,
+  } as Medication;
+}
+
+function makePatient(overrides: Partial<Patient> = {}): Patient {
+  return {
+    mrn: MRN,
+    name: 'DOE, JANE',
+    dob: '1990-01-15',
+    age: 36,
+    gender: 'Female',
+    allergies: [],
+    location: 'Ward 3A',
+    attending: 'Dr. Smith',
+    admission: '2026-02-15',
+    medicalHistory: [],
+    // Newest first, as stored: Q-ADDS 14 (RR in E-zone), 6, then 0.
+    vitals: [
+      { datetime: '01-Mar-2026 09:00', rr: 36, spo2: 90, bp_sys: 85, bp_dia: 50, hr: 135, temp: 39, avpu: 'Alert' },
+      { datetime: '01-Mar-2026 08:30', rr: 24, spo2: 94, bp_sys: 105, bp_dia: 60, hr: 118, temp: 38.6, avpu: 'Alert' },
+      { datetime: '01-Mar-2026 08:00', rr: 16, spo2: 97, bp_sys: 125, bp_dia: 80, hr: 78, temp: 37, avpu: 'Alert' },
+      { datetime: '28-Feb-2026 20:00', rr: 16, spo2: 97, bp_sys: 125, bp_dia: 80, hr: 78, temp: 37, avpu: 'Alert' },
+    ],
+    fluidBalance: [],
+    medications: [],
+    orders: [],
+    results: {
+      haematology: [],
+      biochemistry: [],
+      bloodGas: [],
+      coagulation: [],
+      urinalysis: [],
+      cardiac: [],
+    },
+    notes: [],
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Timeline
+// ---------------------------------------------------------------------------
+
+describe('buildDebriefReport timeline', () => {
+  it('merges obs, replayed alerts, and learner actions in sim-time order', () => {
+    const report = buildDebriefReport({
+      patient: makePatient(),
+      actions: [
+        action(45, 'escalation/documented', { tier: 'Registrar', score: 6 }),
+        action(10, 'order/placed', { orderId: 'ORD001', name: 'Lactate', type: 'Laboratory', priority: 'STAT' }),
+      ],
+      alerts: [],
+      from: FROM,
+      to: TO,
+    });
+
+    expect(report.timeline.map((e) => [e.simTime, e.kind])).toEqual([
+      [at(0), 'physiology'],
+      [at(10), 'action'],
+      [at(30), 'physiology'],
+      [at(30), 'alert'],
+      [at(45), 'action'],
+      [at(60), 'physiology'],
+      [at(60), 'alert'],
+    ]);
+    expect(report.timeline[0].title).toBe('Obs charted — Q-ADDS 0');
+    expect(report.timeline[3].title).toBe('EW Score 6-7');
+    expect(report.timeline[6].detail).toContain('Respiratory');
+  });
+
+  it('scores obs on the chart form given', () => {
+    const report = buildDebriefReport({
+      patient: makePatient(),
+      actions: [],
+      alerts: [],
+      from: FROM,
+      to: TO,
+      variant: 'NEWS2',
+    });
+
+    const physiology = report.timeline.filter((e) => e.kind === 'physiology');
+    expect(physiology.map((e) => e.title)).toEqual([
+      'Obs charted — NEWS2 0',
+      'Obs charted — NEWS2 7',
+      'Obs charted — NEWS2 13',
+    ]);
+  });
+
+  it('leaves out obs and actions outside the window, view changes, and other patients', () => {
+    const report = buildDebriefReport({
+      patient: makePatient(),
+      actions: [
+        action(5, 'view/changed', { from: 'doctor-view', to: 'mar' }),
+        action(6, 'order/signed', { orderId: 'ORD009', name: 'FBC', type: 'Laboratory' }, 'OTHER'),
+        action(180, 'order/signed', { orderId: 'ORD001', name: 'Lactate', type: 'Laboratory' }),
+      ],
+      alerts: [],
+      from: FROM,
+      to: TO,
+    });
+
+    expect(report.timeline.filter((e) => e.kind === 'action')).toEqual([]);
+    expect(report.timeline.filter((e) => e.kind === 'physiology')).toHaveLength(3);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+describe('buildDebriefReport metrics', () => {
+  it('times escalation from the first EW Score 4-5 or higher', () => {
+    const { metrics } = buildDebriefReport({
+      patient: makePatient(),
+      actions: [
+        // Before the trigger: does not count.
+        action(20, 'escalation/documented', { tier: 'RMO', score: 0 }),
+        action(42, 'escalation/documented', { tier: 'Registrar', score: 6 }),
+      ],
+      alerts: [],
+      from: FROM,
+      to: TO,
+    });
+
+    expect(metrics.firstEwsTriggerAt).toBe(at(30));
+    expect(metrics.escalationAt).toBe(at(42));
+    expect(metrics.escalationMinutes).toBe(12);
+  });
+
+  it('times the MET response from the first E-zone trigger', () => {
+    const { metrics } = buildDebriefReport({
+      patient: makePatient(),
+      actions: [
+        action(62, 'escalation/documented', { tier: 'Registrar', score: 14 }),
+        action(67, 'meo/ordered', { orderId: 'M1', orderType: 'MET_MEO_PLAN', summary: 'MET-MEO plan' }),
+      ],
+      alerts: [],
+      from: FROM,
+      to: TO,
+    });
+
+    expect(metrics.firstEZoneAt).toBe(at(60));
+    expect(metrics.metResponseAt).toBe(at(67));
+    expect(metrics.metResponseMinutes).toBe(7);
+  });
+
+  it('reports missing responses as null', () => {
+    const { metrics } = buildDebriefReport({
+      patient: makePatient(),
+      actions: [],
+      alerts: [],
+      from: FROM,
+      to: TO,
+    });
+
+    expect(metrics.firstEwsTriggerAt).toBe(at(30));
+    expect(metrics.escalationAt).toBeNull();
+    expect(metrics.escalationMinutes).toBeNull();
+    expect(metrics.metResponseMinutes).toBeNull();
+  });
+
+  it('finds scheduled doses actioned late or not at all', () => {
+    const patient = makePatient({
+      medications: [
+        makeMedication({ name: 'Metoprolol', times: ['0800'] }),
+        makeMedication({ name: 'Paracetamol', times: ['08:30'] }),
+        makeMedication({ name: 'Insulin', times: ['0900'] }),
+        makeMedication({ name: 'Ondansetron', scheduled: false, times: ['0800'] }),
+      ],
+    });
+    const mar = (minutes: number, medicationName: string, scheduledTime: string) =>
+      action(minutes, 'mar/administered', {
+        medicationName,
+        route: 'Oral',
+        scheduledTime,
+        status: 'GIVEN',
+        nurse: 'RN Test',
+      });
+
+    const { metrics } = buildDebriefReport({
+      patient,
+      actions: [
+        mar(95, 'Metoprolol', '08:00'), // 95 min late
+        mar(40, 'Paracetamol', '08:30'), // on time
+      ],
+      alerts: [],
+      from: FROM,
+      to: TO,
+    });
+
+    // Insulin at 09:00 is only due until 10:00, so it is not yet overdue.
+    expect(metrics.overdueDoses).toEqual([
+      { medicationName: 'Metoprolol', scheduledAt: at(0), actionedAt: at(95), minutesLate: 95 },
+    ]);
+
+    const later = buildDebriefReport({
+      patient,
+      actions: [],
+      alerts: [],
+      from: FROM,
+      to: new Date(TO.getTime() + 30 * 60_000),
+    });
+    expect(later.metrics.overdueDoses.map((d) => [d.medicationName, d.actionedAt])).toEqual([
+      ['Metoprolol', null],
+      ['Paracetamol', null],
+      ['Insulin', null],
+    ]);
+  });
+
+  it('matches MAR actions to the dose date-time they were recorded against', () => {
+    const patient = makePatient({
+      medications: [makeMedication({ name: 'Metoprolol', times: ['0800'] })],
+    });
+    const mar = (minutes: number, scheduledAt: string) =>
+      action(minutes, 'mar/administered', {
+        medicationName: 'Metoprolol',
+        route: 'PO',
+        scheduledTime: '08:00',
+        scheduledAt,
+        status: 'GIVEN',
+        nurse: 'RN Test',
+      });
+
+    // Charting yesterday's 08:00 dose does not action today's.
+    const yesterday = buildDebriefReport({
+      patient,
+      actions: [mar(10, at(-24 * 60))],
+      alerts: [],
+      from: FROM,
+      to: TO,
+    });
+    expect(yesterday.metrics.overdueDoses).toEqual([
+      { medicationName: 'Metoprolol', scheduledAt: at(0), actionedAt: null, minutesLate: 120 },
+    ]);
+
+    const today = buildDebriefReport({
+      patient,
+      actions: [mar(10, at(0))],
+      alerts: [],
+      from: FROM,
+      to: TO,
+    });
+    expect(today.metrics.overdueDoses).toEqual([]);
+  });
+
+  it('takes when a dose was actioned from the administration history', () => {
+    const { metrics } = buildDebriefReport({
+      patient: makePatient({
+        medications: [
+          makeMedication({
+            times: ['0800'],
+            administrations: [
+              { id: 'a1', scheduledAt: at(0), timestamp: at(95), status: 'HELD', nurse: 'RN Test' },
+            ],
+          }),
+        ],
+      }),
+      actions: [],
+      alerts: [],
+      from: FROM,
+      to: TO,
+    });
+    expect(metrics.overdueDoses).toEqual([
+      { medicationName: 'Metoprolol', scheduledAt: at(0), actionedAt: at(95), minutesLate: 95 },
+    ]);
+  });
+
+  it('counts a dose covered by a last-given time not tied to a slot as actioned', () => {
+    const { metrics } = buildDebriefReport({
+      patient: makePatient({
+        medications: [
+          makeMedication({
+            times: ['0800'],
+            administrations: [
+              { id: 'a1', scheduledAt: null, timestamp: at(10), status: 'GIVEN', nurse: 'RN Test' },
+            ],
+          }),
+        ],
+      }),
+      actions: [],
+      alerts: [],
+      from: FROM,
+      to: TO,
+    });
+    expect(metrics.overdueDoses).toEqual([]);
+  });
+
+  it('counts a dose not tied to a slot only from the dose time, as the MAR does', () => {
+    const given = (minutes: number) =>
+      makeMedication({
+        times: ['0900'],
+        administrations: [{ id: 'a1', scheduledAt: null, timestamp: at(minutes), status: 'GIVEN', nurse: 'RN Test' }],
+      });
+    const actionedAt = (minutes: number) =>
+      listScheduledDoses(makePatient({ medications: [given(minutes)] }), [], FROM, TO)[0].actionedAt;
+
+    expect(actionedAt(30)).toBeNull();
+    expect(actionedAt(60)).toBe(at(60));
+  });
+
+  it('lists unacknowledged alerts', () => {
+    const open = createAlert('6-7');
+    const acknowledged = { ...createAlert('4-5'), acknowledged: true };
+
+    const { metrics } = buildDebriefReport({
+      patient: makePatient(),
+      actions: [],
+      alerts: [open, acknowledged],
+      from: FROM,
+      to: TO,
+    });
+    expect(metrics.unacknowledgedAlerts).toEqual([open]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+describe('describeAction', () => {
+  it('describes MAR actions with the due time and nurse', () => {
+    const described = describeAction(
+      action(0, 'mar/administered', {
+        medicationName: 'Metoprolol',
+        route: 'Oral',
+        scheduledTime: '08:00',
+        status: 'NOT_GIVEN',
+        reason: 'Nil by mouth',
+        nurse: 'RN Test',
+      }),
+    );
+    expect(described).toEqual({
+      title: 'Metoprolol (Oral) not given',
+      detail: 'Due 08:00 — Nil by mouth — RN Test',
+    });
+  });
+
+  it('describes PRN doses with the indication and scores', () => {
+    expect(
+      describeAction(
+        action(0, 'mar/administered', {
+          medicationName: 'Oxycodone',
+          route: 'PO',
+          scheduledTime: 'PRN',
+          status: 'GIVEN',
+          nurse: 'RN Test',
+          prn: { indication: 'Wound pain', scale: 'PAIN', preDoseScore: 7 },
+        }),
+      ),
+    ).toEqual({
+      title: 'Oxycodone (PO) given PRN',
+      detail: 'For Wound pain — pain 7 — RN Test',
+    });
+    expect(
+      describeAction(
+        action(30, 'mar/prnReassessed', {
+          medicationName: 'Oxycodone',
+          scale: 'PAIN',
+          preDoseScore: 7,
+          postDoseScore: 3,
+          minutesAfterDose: 32,
+        }),
+      ).detail,
+    ).toBe('pain 7 → 3, 32 min after the dose');
+  });
+
+  it('describes barcode scans by their strictest stop', () => {
+    const scan = {
+      medicationName: 'Hydroxyzine',
+      scheduledTime: '08:00',
+      scheduledAt: '2026-03-01T08:00:00.000Z',
+      wristband: 'RBWH789456',
+      barcode: '9300000000000',
+      entry: { wristband: 'scanned', barcode: 'scanned' } as const,
+      scannedProduct: 'Hydralazine',
+    };
+    expect(
+      describeAction(
+        action(0, 'mar/scanned', {
+          ...scan,
+          stops: [
+            { right: 'drug', level: 'hard', message: 'Wrong drug: scanned Hydralazine, ordered Hydroxyzine' },
+            { right: 'time', level: 'soft', message: 'Not due' },
+          ],
+        }),
+      ),
+    ).toEqual({
+      title: 'Hard stop scanning Hydroxyzine',
+      detail: 'Due 08:00 — Wrong drug: scanned Hydralazine, ordered Hydroxyzine — Not due',
+    });
+    expect(describeAction(action(0, 'mar/scanned', { ...scan, stops: [] })).title).toBe(
+      'Scanned Hydroxyzine — five rights matched',
+    );
+  });
+
+  it('flags codes typed in place of scanning', () => {
+    expect(
+      describeAction(
+        action(0, 'mar/scanned', {
+          medicationName: 'Hydroxyzine',
+          scheduledTime: '08:00',
+          scheduledAt: '2026-03-01T08:00:00.000Z',
+          wristband: 'RBWH789456',
+          barcode: '9300000000000',
+          entry: { wristband: 'typed', barcode: 'scanned' },
+          scannedProduct: 'Hydroxyzine',
+          stops: [],
+        }),
+      ).detail,
+    ).toBe('Due 08:00 — wristband typed');
+  });
+
+  it('notes a scan override on the dose', () => {
+    expect(
+      describeAction(
+        action(0, 'mar/administered', {
+          medicationName: 'Metoprolol',
+          route: 'PO',
+          scheduledTime: '08:00',
+          status: 'GIVEN',
+          nurse: 'RN Test',
+          overrideReason: 'Late dose confirmed with RMO',
+        }),
+      ).detail,
+    ).toBe('Due 08:00 — Override: Late dose confirmed with RMO — RN Test');
+  });
+});
+
+describe('parseChartDateTime', () => {
+  it('parses chart date-times as local time', () => {
+    expect(parseChartDateTime('01-Mar-2026 09:05')).toEqual(new Date(2026, 2, 1, 9, 5));
+    expect(parseChartDateTime('07-Apr-2021 06:30:00 AEST')).toEqual(new Date(2021, 3, 7, 6, 30));
+  });
+
+  it('falls back to ISO parsing and rejects other text', () => {
+    expect(parseChartDateTime('2026-03-01T09:05:00.000Z')).toEqual(new Date('2026-03-01T09:05:00.000Z'));
+    expect(parseChartDateTime('')).toBeNull();
+    expect(parseChartDateTime('DD-MMM-YYYY HH:MM or empty string')).toBeNull();
+  });
+});
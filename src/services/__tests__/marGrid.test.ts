@@ -2,252 +2,344 @@
  * @file marGrid.test.ts
  * @description Unit tests for MAR time grid logic.
  *
- * Tests the helper functions extracted from MARGrid.tsx that determine
- * time slot generation and dose status calculation.
+ * Tests the schedule helpers behind MARGrid.tsx: the shift, day and
+ * three-day windows and their columns, placing doses on real date-times,
+ * and rebuilding dose status from the administration history across
+ * midnight and earlier days.
  */
 
 import { describe, it, expect } from 'vitest';
 import { MedicationDoseStatus } from '../../types';
+import type { MedicationAdministration } from '../../types';
+import {
+  findDoseAdministration,
+  getColumnIndex,
+  getDosesByColumn,
+  getDoseStatus,
+  getLastGiven,
+  getMarColumns,
+  getMarWindow,
+  getScheduledDoses,
+  timeToMinutes,
+} from '../marSchedule';
 
 // ---------------------------------------------------------------------------
-// Helper functions mirrored from MARGrid.tsx for testing
-// (These are pure functions that are inlined in MARGrid — we test them here
-//  by reimplementing them, which also validates their intended logic.)
+// Fixtures
 // ---------------------------------------------------------------------------
 
-/**
- * Generate time-slot labels from 0000 to 2300 at the given hour interval.
- */
-function generateTimeSlots(intervalHours: number): string[] {
-  const slots: string[] = [];
-  for (let h = 0; h < 24; h += intervalHours) {
-    slots.push(`${String(h).padStart(2, '0')}:00`);
-  }
-  return slots;
+/** Local date-time on 01-Mar-2026, or `dayOffset` days from it. */
+function t(hours: number, minutes = 0, dayOffset = 0): Date {
+  return new Date(2026, 2, 1 + dayOffset, hours, minutes);
 }
 
-/**
- * Parse a time string in "HH:mm" or "HHmm" format to total minutes since midnight.
- */
-function parseTimeToMinutes(time: string): number {
-  const cleaned = time.replace(':', '');
-  const hours = parseInt(cleaned.substring(0, 2), 10);
-  const minutes = parseInt(cleaned.substring(2, 4), 10) || 0;
-  return hours * 60 + minutes;
-}
+const NOON = t(12);
 
-/**
- * Determine the dose status for a medication at a given time slot.
- */
-function getCellStatus(
-  lastGiven: string | undefined,
-  slotTime: string,
-  currentMinutes: number,
-  isScheduledSlot: boolean,
-): MedicationDoseStatus {
-  if (!isScheduledSlot) {
-    return MedicationDoseStatus.FUTURE;
-  }
-
-  const slotMinutes = parseTimeToMinutes(slotTime);
-
-  if (lastGiven) {
-    const lastGivenDate = new Date(lastGiven);
-    const lastGivenMinutes = lastGivenDate.getHours() * 60 + lastGivenDate.getMinutes();
-    if (slotMinutes <= lastGivenMinutes) {
-      return MedicationDoseStatus.GIVEN;
-    }
-  }
-
-  // Window: ±60 minutes from current time
-  if (slotMinutes <= currentMinutes - 60) {
-    return MedicationDoseStatus.OVERDUE;
-  }
-
-  if (Math.abs(slotMinutes - currentMinutes) <= 60) {
-    return MedicationDoseStatus.DUE;
-  }
-
-  return MedicationDoseStatus.PENDING;
+/** A dose given at `at`, not tied to a MAR slot (as carried over from the patient file). */
+function given(at: Date): MedicationAdministration[] {
+  return [{ id: 'g', scheduledAt: null, timestamp: at.toISOString(), status: 'GIVEN', nurse: 'RN Test' }];
 }
 
 // ---------------------------------------------------------------------------
-// generateTimeSlots
+// getMarWindow
 // ---------------------------------------------------------------------------
 
-describe('generateTimeSlots', () => {
-  it('generates 12 slots for 2-hour interval', () => {
-    const slots = generateTimeSlots(2);
-    expect(slots).toHaveLength(12);
-    expect(slots[0]).toBe('00:00');
-    expect(slots[slots.length - 1]).toBe('22:00');
+describe('getMarWindow', () => {
+  it('uses the day shift for a 12-hour window during the day', () => {
+    const window = getMarWindow(t(10, 30), 12);
+    expect(window.start).toEqual(t(7));
+    expect(window.end).toEqual(t(19));
+    expect(window.columnHours).toBe(1);
   });
 
-  it('generates 24 slots for 1-hour interval', () => {
-    const slots = generateTimeSlots(1);
-    expect(slots).toHaveLength(24);
-    expect(slots[0]).toBe('00:00');
-    expect(slots[23]).toBe('23:00');
+  it('uses the night shift across midnight for a 12-hour window at night', () => {
+    expect(getMarWindow(t(22), 12).start).toEqual(t(19));
+    expect(getMarWindow(t(3), 12).start).toEqual(t(19, 0, -1));
+    expect(getMarWindow(t(3), 12).end).toEqual(t(7));
   });
 
-  it('generates 6 slots for 4-hour interval', () => {
-    const slots = generateTimeSlots(4);
-    expect(slots).toHaveLength(6);
-    expect(slots).toEqual(['00:00', '04:00', '08:00', '12:00', '16:00', '20:00']);
+  it('uses the calendar day for a 24-hour window', () => {
+    const window = getMarWindow(NOON, 24);
+    expect(window.start).toEqual(t(0));
+    expect(window.end).toEqual(t(0, 0, 1));
   });
 
-  it('generates 3 slots for 8-hour interval', () => {
-    const slots = generateTimeSlots(8);
-    expect(slots).toHaveLength(3);
-    expect(slots).toEqual(['00:00', '08:00', '16:00']);
+  it('spans the day before to the day after for a 72-hour window', () => {
+    const window = getMarWindow(NOON, 72);
+    expect(window.start).toEqual(t(0, 0, -1));
+    expect(window.end).toEqual(t(0, 0, 2));
   });
 
-  it('generates correct slot labels with zero-padding', () => {
-    const slots = generateTimeSlots(2);
-    expect(slots[0]).toBe('00:00');
-    expect(slots[1]).toBe('02:00');
-    expect(slots[5]).toBe('10:00');
+  it('moves whole windows earlier and later', () => {
+    expect(getMarWindow(t(10), 12, -1).start).toEqual(t(19, 0, -1));
+    expect(getMarWindow(t(10), 12, 1).start).toEqual(t(19));
+    expect(getMarWindow(NOON, 24, -2).start).toEqual(t(0, 0, -2));
+    expect(getMarWindow(NOON, 72, 1).start).toEqual(t(0, 0, 2));
   });
 });
 
 // ---------------------------------------------------------------------------
-// parseTimeToMinutes
+// getMarColumns / getColumnIndex
 // ---------------------------------------------------------------------------
 
-describe('parseTimeToMinutes', () => {
-  it('parses HH:mm format', () => {
-    expect(parseTimeToMinutes('00:00')).toBe(0);
-    expect(parseTimeToMinutes('08:00')).toBe(480);
-    expect(parseTimeToMinutes('12:30')).toBe(750);
-    expect(parseTimeToMinutes('23:59')).toBe(1439);
+describe('getMarColumns', () => {
+  it('has hourly columns for a shift', () => {
+    const columns = getMarColumns(getMarWindow(t(22), 12));
+    expect(columns).toHaveLength(12);
+    expect(columns[0]).toEqual(t(19));
+    expect(columns[5]).toEqual(t(0, 0, 1));
+    expect(columns[11]).toEqual(t(6, 0, 1));
   });
 
-  it('parses HHmm format (no colon)', () => {
-    expect(parseTimeToMinutes('0800')).toBe(480);
-    expect(parseTimeToMinutes('1400')).toBe(840);
+  it('has 2-hourly columns for a day and three days', () => {
+    expect(getMarColumns(getMarWindow(NOON, 24))).toHaveLength(12);
+    expect(getMarColumns(getMarWindow(NOON, 72))).toHaveLength(36);
   });
+});
 
-  it('handles midnight as zero', () => {
-    expect(parseTimeToMinutes('00:00')).toBe(0);
+describe('getColumnIndex', () => {
+  const window = getMarWindow(NOON, 24);
+  const columns = getMarColumns(window);
+
+  it('finds the column covering a time', () => {
+    expect(getColumnIndex(columns, window, t(0))).toBe(0);
+    expect(getColumnIndex(columns, window, t(8, 30))).toBe(4);
+    expect(getColumnIndex(columns, window, t(23, 59))).toBe(11);
   });
 
-  it('handles noon correctly', () => {
-    expect(parseTimeToMinutes('12:00')).toBe(720);
+  it('returns -1 outside the window', () => {
+    expect(getColumnIndex(columns, window, t(23, 59, -1))).toBe(-1);
+    expect(getColumnIndex(columns, window, t(0, 0, 1))).toBe(-1);
   });
 });
 
 // ---------------------------------------------------------------------------
-// getCellStatus — non-scheduled slots
+// timeToMinutes
 // ---------------------------------------------------------------------------
 
-describe('getCellStatus — non-scheduled slot', () => {
-  it('returns FUTURE for any non-scheduled slot regardless of time', () => {
-    // Even if current time is 10:00, a non-scheduled slot should be FUTURE
-    expect(getCellStatus(undefined, '08:00', 600, false)).toBe(MedicationDoseStatus.FUTURE);
-    expect(getCellStatus(undefined, '00:00', 600, false)).toBe(MedicationDoseStatus.FUTURE);
-    expect(getCellStatus(undefined, '22:00', 600, false)).toBe(MedicationDoseStatus.FUTURE);
+describe('timeToMinutes', () => {
+  it('parses HH:mm format', () => {
+    expect(timeToMinutes('00:00')).toBe(0);
+    expect(timeToMinutes('08:00')).toBe(480);
+    expect(timeToMinutes('12:30')).toBe(750);
+    expect(timeToMinutes('23:59')).toBe(1439);
+  });
+
+  it('parses HHmm format (no colon)', () => {
+    expect(timeToMinutes('0800')).toBe(480);
+    expect(timeToMinutes('1400')).toBe(840);
+  });
+
+  it('returns null for text that is not a time', () => {
+    expect(timeToMinutes('noon')).toBeNull();
   });
 });
 
 // ---------------------------------------------------------------------------
-// getCellStatus — GIVEN (based on lastGiven timestamp)
+// getScheduledDoses
 // ---------------------------------------------------------------------------
 
-describe('getCellStatus — GIVEN', () => {
-  it('returns GIVEN when slot time is before or equal to lastGiven time', () => {
-    // lastGiven at 10:00, slot at 08:00 → 08:00 <= 10:00 → GIVEN
-    const lastGiven = '2026-01-01T10:00:00';
-    expect(getCellStatus(lastGiven, '08:00', 720, true)).toBe(MedicationDoseStatus.GIVEN);
+describe('getScheduledDoses', () => {
+  const order = {
+    scheduled: true,
+    times: ['2000', '0800'],
+    startAt: null,
+    stopAt: null,
+  };
+
+  it('places each time on every day of the range, oldest first', () => {
+    expect(getScheduledDoses(order, t(0, 0, -1), t(0, 0, 1))).toEqual([
+      t(8, 0, -1),
+      t(20, 0, -1),
+      t(8),
+      t(20),
+    ]);
+  });
+
+  it('includes doses across midnight in a night shift', () => {
+    const window = getMarWindow(t(3), 12);
+    expect(getScheduledDoses({ ...order, times: ['2200', '0600'] }, window.start, window.end)).toEqual([
+      t(22, 0, -1),
+      t(6),
+    ]);
+  });
+
+  it('leaves out doses before the order starts or after it stops', () => {
+    const limited = { ...order, startAt: t(12, 0, -1).toISOString(), stopAt: t(12).toISOString() };
+    expect(getScheduledDoses(limited, t(0, 0, -1), t(0, 0, 1))).toEqual([t(20, 0, -1), t(8)]);
+  });
+
+  it('has none for unscheduled medications', () => {
+    expect(getScheduledDoses({ ...order, scheduled: false }, t(0), t(0, 0, 1))).toEqual([]);
   });
+});
 
-  it('returns GIVEN when slot time equals lastGiven time', () => {
-    const lastGiven = '2026-01-01T08:00:00';
-    expect(getCellStatus(lastGiven, '08:00', 720, true)).toBe(MedicationDoseStatus.GIVEN);
+describe('getDosesByColumn', () => {
+  const order = {
+    scheduled: true,
+    times: ['0800', '0900', '1400'],
+    startAt: null,
+    stopAt: null,
+  };
+
+  it('keeps every dose that shares a 2-hourly column', () => {
+    const window = getMarWindow(NOON, 24);
+    const byColumn = getDosesByColumn(order, window, getMarColumns(window));
+    expect(byColumn).toHaveLength(12);
+    expect(byColumn[4]).toEqual([t(8), t(9)]);
+    expect(byColumn[7]).toEqual([t(14)]);
+    expect(byColumn.flat()).toHaveLength(3);
   });
 
-  it('does not return GIVEN when slot time is after lastGiven time', () => {
-    // lastGiven at 06:00, slot at 10:00 → 10:00 > 06:00 → not GIVEN
-    const lastGiven = '2026-01-01T06:00:00';
-    const status = getCellStatus(lastGiven, '10:00', 720, true);
-    expect(status).not.toBe(MedicationDoseStatus.GIVEN);
+  it('has one dose per column in an hourly shift', () => {
+    const window = getMarWindow(t(10), 12);
+    const byColumn = getDosesByColumn(order, window, getMarColumns(window));
+    expect(byColumn[1]).toEqual([t(8)]);
+    expect(byColumn[2]).toEqual([t(9)]);
   });
 });
 
 // ---------------------------------------------------------------------------
-// getCellStatus — OVERDUE
+// getDoseStatus — GIVEN (from a dose not tied to a slot)
 // ---------------------------------------------------------------------------
 
-describe('getCellStatus — OVERDUE', () => {
-  it('returns OVERDUE when slot is more than 60 min in the past', () => {
-    // Current time: 12:00 (720 min), slot: 10:00 (600 min)
-    // 600 <= 720 - 60 = 660 → OVERDUE
-    expect(getCellStatus(undefined, '10:00', 720, true)).toBe(MedicationDoseStatus.OVERDUE);
+describe('getDoseStatus — GIVEN', () => {
+  it('returns GIVEN when the dose is before the last-given time', () => {
+    expect(getDoseStatus(t(8), NOON, given(t(10)))).toBe(MedicationDoseStatus.GIVEN);
+  });
+
+  it('returns GIVEN when the dose equals the last-given time', () => {
+    expect(getDoseStatus(t(8), NOON, given(t(8)))).toBe(MedicationDoseStatus.GIVEN);
   });
 
-  it('returns OVERDUE when slot is exactly 61 min in the past', () => {
-    // Current time: 12:01 (721 min), slot: 11:00 (660 min)
-    // 660 <= 721 - 60 = 661 → OVERDUE
-    expect(getCellStatus(undefined, '11:00', 721, true)).toBe(MedicationDoseStatus.OVERDUE);
+  it('does not return GIVEN when the dose is after the last-given time', () => {
+    expect(getDoseStatus(t(10), NOON, given(t(6)))).not.toBe(MedicationDoseStatus.GIVEN);
   });
 
-  it('does not return OVERDUE when within 60-min window', () => {
-    // Current time: 12:00 (720 min), slot: 11:15 (675 min)
-    // 675 > 720 - 60 = 660 → not OVERDUE
-    const status = getCellStatus(undefined, '11:15', 720, true);
-    expect(status).not.toBe(MedicationDoseStatus.OVERDUE);
+  it('does not treat a dose given yesterday at a later time as covering today', () => {
+    // Given 22:00 yesterday; today's 08:00 dose is still outstanding.
+    expect(getDoseStatus(t(8), NOON, given(t(22, 0, -1)))).toBe(MedicationDoseStatus.OVERDUE);
   });
 });
 
 // ---------------------------------------------------------------------------
-// getCellStatus — DUE
+// getDoseStatus — OVERDUE
 // ---------------------------------------------------------------------------
 
-describe('getCellStatus — DUE', () => {
-  it('returns DUE when slot is within ±60 min of current time', () => {
-    // Current time: 12:00 (720 min), slot: 12:00 — exact match
-    expect(getCellStatus(undefined, '12:00', 720, true)).toBe(MedicationDoseStatus.DUE);
+describe('getDoseStatus — OVERDUE', () => {
+  it('returns OVERDUE when the dose is more than 60 min in the past', () => {
+    expect(getDoseStatus(t(10), NOON, [])).toBe(MedicationDoseStatus.OVERDUE);
   });
 
-  it('returns DUE when slot is 30 min before current time', () => {
-    // Current time: 12:00 (720 min), slot: 11:30 (690 min)
-    // |690 - 720| = 30 ≤ 60 → DUE, but also 690 <= 720-60=660? No, 690 > 660 → not OVERDUE
-    expect(getCellStatus(undefined, '11:30', 720, true)).toBe(MedicationDoseStatus.DUE);
+  it('returns OVERDUE when the dose is 61 min in the past', () => {
+    expect(getDoseStatus(t(11), t(12, 1), [])).toBe(MedicationDoseStatus.OVERDUE);
   });
 
-  it('returns DUE when slot is 60 min in the future', () => {
-    // Current time: 12:00 (720 min), slot: 13:00 (780 min)
-    // |780 - 720| = 60 ≤ 60 → DUE
-    expect(getCellStatus(undefined, '13:00', 720, true)).toBe(MedicationDoseStatus.DUE);
+  it('does not return OVERDUE when within the 60-min window', () => {
+    expect(getDoseStatus(t(11, 15), NOON, [])).not.toBe(MedicationDoseStatus.OVERDUE);
+  });
+
+  it('returns OVERDUE for a late-evening dose missed before midnight', () => {
+    expect(getDoseStatus(t(22, 0, -1), t(0, 30), [])).toBe(MedicationDoseStatus.OVERDUE);
   });
 });
 
 // ---------------------------------------------------------------------------
-// getCellStatus — PENDING
+// getDoseStatus — DUE
 // ---------------------------------------------------------------------------
 
-describe('getCellStatus — PENDING', () => {
-  it('returns PENDING when slot is more than 60 min in the future', () => {
-    // Current time: 12:00 (720 min), slot: 14:00 (840 min)
-    // 840 > 720 and |840 - 720| = 120 > 60 → PENDING
-    expect(getCellStatus(undefined, '14:00', 720, true)).toBe(MedicationDoseStatus.PENDING);
+describe('getDoseStatus — DUE', () => {
+  it('returns DUE at the dose time', () => {
+    expect(getDoseStatus(NOON, NOON, [])).toBe(MedicationDoseStatus.DUE);
   });
 
-  it('returns PENDING for early morning slots when current time is noon', () => {
-    // Current time: 12:00 (720), slot: 22:00 (1320)
-    // 1320 > 720 and |1320-720| = 600 > 60 → PENDING
-    expect(getCellStatus(undefined, '22:00', 720, true)).toBe(MedicationDoseStatus.PENDING);
+  it('returns DUE when the dose is 30 min in the past', () => {
+    expect(getDoseStatus(t(11, 30), NOON, [])).toBe(MedicationDoseStatus.DUE);
+  });
+
+  it('returns DUE when the dose is 60 min in the future', () => {
+    expect(getDoseStatus(t(13), NOON, [])).toBe(MedicationDoseStatus.DUE);
+  });
+
+  it('returns DUE for a dose just after midnight late in the evening', () => {
+    expect(getDoseStatus(t(0, 0, 1), t(23, 30), [])).toBe(MedicationDoseStatus.DUE);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getDoseStatus — PENDING
+// ---------------------------------------------------------------------------
+
+describe('getDoseStatus — PENDING', () => {
+  it('returns PENDING when the dose is more than 60 min in the future', () => {
+    expect(getDoseStatus(t(14), NOON, [])).toBe(MedicationDoseStatus.PENDING);
+  });
+
+  it('returns PENDING for tomorrow\'s early dose even though its time of day has passed', () => {
+    expect(getDoseStatus(t(8, 0, 1), NOON, [])).toBe(MedicationDoseStatus.PENDING);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getDoseStatus — priority rules (GIVEN takes precedence)
+// ---------------------------------------------------------------------------
+
+describe('getDoseStatus — GIVEN takes precedence over time-based status', () => {
+  it('returns GIVEN even if the dose would be DUE by current time', () => {
+    expect(getDoseStatus(NOON, NOON, given(t(12, 30)))).toBe(MedicationDoseStatus.GIVEN);
   });
 });
 
 // ---------------------------------------------------------------------------
-// getCellStatus — priority rules (GIVEN takes precedence)
+// Administration history
 // ---------------------------------------------------------------------------
 
-describe('getCellStatus — GIVEN takes precedence over time-based status', () => {
-  it('returns GIVEN even if slot would be DUE by current time', () => {
-    // lastGiven at 12:30, current at 12:00, slot at 12:00
-    // Slot <= lastGiven → GIVEN (not DUE)
-    const lastGiven = '2026-01-01T12:30:00';
-    expect(getCellStatus(lastGiven, '12:00', 720, true)).toBe(MedicationDoseStatus.GIVEN);
+describe('getDoseStatus — documented doses', () => {
+  const record = (
+    id: string,
+    scheduledAt: Date,
+    status: MedicationAdministration['status'],
+  ): MedicationAdministration => ({
+    id,
+    scheduledAt: scheduledAt.toISOString(),
+    timestamp: NOON.toISOString(),
+    status,
+    nurse: 'RN Test',
+  });
+
+  it('returns the outcome documented against the dose', () => {
+    expect(getDoseStatus(t(8), NOON, [record('a', t(8), 'HELD')])).toBe(MedicationDoseStatus.HELD);
+    expect(getDoseStatus(t(8), NOON, [record('a', t(8), 'REFUSED')])).toBe(MedicationDoseStatus.REFUSED);
+    expect(getDoseStatus(t(14), NOON, [record('a', t(14), 'NOT_GIVEN')])).toBe(
+      MedicationDoseStatus.NOT_GIVEN,
+    );
+  });
+
+  it('uses the latest record when a dose was documented twice', () => {
+    const history = [record('a', t(8), 'HELD'), record('b', t(8), 'GIVEN')];
+    expect(getDoseStatus(t(8), NOON, history)).toBe(MedicationDoseStatus.GIVEN);
+    expect(findDoseAdministration(history, t(8))?.id).toBe('b');
+  });
+
+  it('does not let a record for one dose cover an earlier one', () => {
+    // Today's 08:00 was given; yesterday's 20:00 was never documented.
+    expect(getDoseStatus(t(20, 0, -1), NOON, [record('a', t(8), 'GIVEN')])).toBe(
+      MedicationDoseStatus.OVERDUE,
+    );
+    expect(findDoseAdministration([record('a', t(8), 'GIVEN')], t(20, 0, -1))).toBeUndefined();
+  });
+});
+
+describe('getLastGiven', () => {
+  it('returns the latest GIVEN time, ignoring other outcomes', () => {
+    const history: MedicationAdministration[] = [
+      { id: 'a', scheduledAt: null, timestamp: t(8).toISOString(), status: 'GIVEN', nurse: 'RN Test' },
+      { id: 'b', scheduledAt: null, timestamp: t(10).toISOString(), status: 'GIVEN', nurse: 'RN Test' },
+      { id: 'c', scheduledAt: null, timestamp: NOON.toISOString(), status: 'HELD', nurse: 'RN Test' },
+    ];
+    expect(getLastGiven(history)).toEqual(t(10));
+  });
+
+  it('returns null without a GIVEN dose', () => {
+    expect(getLastGiven([])).toBeNull();
   });
 });
@@ -0,0 +1,234 @@
+import { describe, it, expect } from 'vitest'
+import {
+  formatDose,
+  formatFrequency,
+  formatRoute,
+  isOrderActiveAt,
+  normalizeMedication,
+  normalizeTime,
+  parseDose,
+  parseFrequency,
+  parseRoute,
+} from '@/services/medicationOrders'
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+describe('parseDose', () => {
+  it('reads an amount and unit, with or without a space', () => {
+    expect(parseDose('500 mg')).toEqual({ amount: 500, unit: 'mg' })
+    expect(parseDose('500mg')).toEqual({ amount: 500, unit: 'mg' })
+    expect(parseDose('0.5 g')).toEqual({ amount: 0.5, unit: 'g' })
+  })
+
+  it('normalises unit spellings', () => {
+    expect(parseDose('400 mcg')).toEqual({ amount: 400, unit: 'microgram' })
+    expect(parseDose('8 units')).toEqual({ amount: 8, unit: 'units' })
+    expect(parseDose('10 ML')).toEqual({ amount: 10, unit: 'mL' })
+    expect(parseDose('2 tabs')).toEqual({ amount: 2, unit: 'tablet' })
+  })
+
+  it('returns null without an amount or a known unit', () => {
+    expect(parseDose('as directed')).toBeNull()
+    expect(parseDose('2 spoonfuls')).toBeNull()
+  })
+})
+
+describe('parseRoute', () => {
+  it('maps names and abbreviations to route codes', () => {
+    expect(parseRoute('Oral')).toBe('PO')
+    expect(parseRoute('PO')).toBe('PO')
+    expect(parseRoute('Subcutaneous')).toBe('SC')
+    expect(parseRoute('intravenous')).toBe('IV')
+    expect(parseRoute('IV')).toBe('IV')
+  })
+
+  it('falls back to OTHER', () => {
+    expect(parseRoute('intrathecal')).toBe('OTHER')
+    expect(parseRoute('')).toBe('OTHER')
+  })
+})
+
+describe('parseFrequency', () => {
+  it('reads abbreviations and Cerner phrasing', () => {
+    expect(parseFrequency('BD')?.frequency).toEqual({ code: 'BD', intervalHours: 12 })
+    expect(parseFrequency('TWICE a day')?.frequency).toEqual({ code: 'BD', intervalHours: 12 })
+    expect(parseFrequency('QID')?.frequency).toEqual({ code: 'QDS', intervalHours: 6 })
+    expect(parseFrequency('ONCE a day')?.frequency).toEqual({ code: 'DAILY', intervalHours: 24 })
+    expect(parseFrequency('nocte')?.frequency).toEqual({ code: 'NOCTE', intervalHours: 24 })
+  })
+
+  it('reads fixed intervals', () => {
+    expect(parseFrequency('Q4H')?.frequency).toEqual({ code: 'INTERVAL', intervalHours: 4 })
+    expect(parseFrequency('6 hourly')?.frequency).toEqual({ code: 'INTERVAL', intervalHours: 6 })
+  })
+
+  it('reads a PRN minimum gap and maximum doses', () => {
+    expect(parseFrequency('PRN (up to 4 times daily)')).toEqual({
+      frequency: { code: 'PRN', intervalHours: null },
+      maxPrnDosesPer24h: 4,
+      comment: null,
+    })
+    expect(parseFrequency('4 hourly PRN')?.frequency).toEqual({ code: 'PRN', intervalHours: 4 })
+  })
+
+  it('keeps other bracketed qualifiers as a comment', () => {
+    expect(parseFrequency('THREE TIMES a day (with meals)')).toMatchObject({
+      frequency: { code: 'TDS' },
+      comment: 'with meals',
+    })
+    expect(parseFrequency('STAT (completed)')).toMatchObject({
+      frequency: { code: 'STAT', intervalHours: null },
+      comment: 'completed',
+    })
+  })
+
+  it('returns null when no frequency is named', () => {
+    expect(parseFrequency('as directed')).toBeNull()
+  })
+})
+
+describe('normalizeTime', () => {
+  it('pads times to HH:mm', () => {
+    expect(normalizeTime('0800')).toBe('08:00')
+    expect(normalizeTime('8:00')).toBe('08:00')
+    expect(normalizeTime('20:30')).toBe('20:30')
+  })
+
+  it('rejects text that is not a time of day', () => {
+    expect(normalizeTime('2500')).toBeNull()
+    expect(normalizeTime('noon')).toBeNull()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// normalizeMedication
+// ---------------------------------------------------------------------------
+
+describe('normalizeMedication', () => {
+  it('upgrades a legacy free-text entry', () => {
+    const med = normalizeMedication({
+      name: 'paracetamol',
+      dose: '1 g',
+      route: 'Oral',
+      frequency: 'PRN (up to 4 times daily)',
+      scheduled: false,
+      times: [],
+      lastGiven: '30-Dec-2025 22:00',
+    })
+
+    expect(med).toEqual({
+      name: 'paracetamol',
+      dose: { amount: 1, unit: 'g' },
+      route: 'PO',
+      frequency: { code: 'PRN', intervalHours: null },
+      scheduled: false,
+      times: [],
+      startAt: null,
+      stopAt: null,
+      maxPrnDosesPer24h: 4,
+      indication: null,
+      prescriber: undefined,
+      comment: undefined,
+      administrations: [
+        {
+          id: `imported-${new Date(2025, 11, 30, 22, 0).toISOString()}`,
+          scheduledAt: null,
+          timestamp: new Date(2025, 11, 30, 22, 0).toISOString(),
+          status: 'GIVEN',
+          nurse: '',
+        },
+      ],
+      status: 'active',
+    })
+  })
+
+  it('passes a structured order through unchanged', () => {
+    const legacy = normalizeMedication({
+      name: 'ramipril',
+      dose: '5 mg',
+      route: 'Oral',
+      frequency: 'TWICE a day',
+      times: ['0800', '2000'],
+      indication: 'Hypertension',
+      start: '28-Dec-2025 23:30',
+    })
+    expect(normalizeMedication({ ...legacy })).toEqual(legacy)
+    expect(legacy.startAt).toBe(new Date(2025, 11, 28, 23, 30).toISOString())
+  })
+
+  it('keeps text the model does not capture in the comment', () => {
+    const med = normalizeMedication({
+      name: 'calcium gluconate',
+      dose: '10 mL of 10%',
+      route: 'IV',
+      frequency: 'STAT (completed)',
+      scheduled: false,
+    })
+    expect(med.dose).toEqual({ amount: 10, unit: 'mL' })
+    expect(med.comment).toBe('of 10%; completed')
+  })
+
+  it('takes an unreadable frequency from the number of scheduled times', () => {
+    const med = normalizeMedication({
+      name: 'x',
+      dose: '1 tablet',
+      frequency: 'with breakfast and tea',
+      times: ['0800', '1700'],
+    })
+    expect(med.frequency).toEqual({ code: 'BD', intervalHours: 12 })
+    expect(med.scheduled).toBe(true)
+    expect(med.comment).toBe('with breakfast and tea')
+  })
+
+  it('marks PRN, STAT and once-only orders as unscheduled when not told', () => {
+    expect(normalizeMedication({ name: 'x', frequency: 'PRN' }).scheduled).toBe(false)
+    expect(normalizeMedication({ name: 'x', frequency: 'STAT' }).scheduled).toBe(false)
+    expect(normalizeMedication({ name: 'x', frequency: 'BD' }).scheduled).toBe(true)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Display and order state
+// ---------------------------------------------------------------------------
+
+describe('formatting', () => {
+  it('formats doses, pluralising counted units', () => {
+    expect(formatDose({ amount: 500, unit: 'mg' })).toBe('500 mg')
+    expect(formatDose({ amount: 2, unit: 'tablet' })).toBe('2 tablets')
+    expect(formatDose({ amount: 1, unit: 'tablet' })).toBe('1 tablet')
+    expect(formatDose(null)).toBe('—')
+  })
+
+  it('formats routes and frequencies as the MAR shows them', () => {
+    expect(formatRoute('PO')).toBe('Oral')
+    expect(formatRoute('SC')).toBe('Subcutaneous')
+    expect(
+      formatFrequency({ frequency: { code: 'BD', intervalHours: 12 }, maxPrnDosesPer24h: null }),
+    ).toBe('TWICE a day')
+    expect(
+      formatFrequency({
+        frequency: { code: 'INTERVAL', intervalHours: 4 },
+        maxPrnDosesPer24h: null,
+      }),
+    ).toBe('every 4 hours')
+    expect(
+      formatFrequency({ frequency: { code: 'PRN', intervalHours: 4 }, maxPrnDosesPer24h: 4 }),
+    ).toBe('PRN 4 hourly (up to 4 times daily)')
+  })
+})
+
+describe('isOrderActiveAt', () => {
+  const order = { startAt: '2026-03-01T08:00:00.000Z', stopAt: '2026-03-02T08:00:00.000Z' }
+
+  it('is active from the start until the stop time', () => {
+    expect(isOrderActiveAt(order, new Date('2026-03-01T07:59:00.000Z'))).toBe(false)
+    expect(isOrderActiveAt(order, new Date('2026-03-01T08:00:00.000Z'))).toBe(true)
+    expect(isOrderActiveAt(order, new Date('2026-03-02T08:00:00.000Z'))).toBe(false)
+  })
+
+  it('is always active without start or stop times', () => {
+    expect(isOrderActiveAt({ startAt: null, stopAt: null }, new Date(0))).toBe(true)
+  })
+})
@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest'
+import { calculateNews2, getNews2EscalationText } from '@/services/news2Calculator'
+import {
+  calculateQadds,
+  getChartForm,
+  getEscalationText,
+  getPatientChartVariant,
+} from '@/services/qaddsCalculator'
+import { evaluateAlerts } from '@/services/alertEngine'
+import type { VitalSign } from '@/types/patient'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** An adult's normal obs set (NEWS2 0); override individual fields as needed. */
+function normalVitals(overrides: Partial<VitalSign> = {}): VitalSign {
+  return {
+    datetime: '01-Mar-2026 08:00',
+    temp: '37.0',
+    hr: '75',
+    rr: '16',
+    bp_sys: '125',
+    bp_dia: '75',
+    spo2: '97',
+    avpu: 'Alert',
+    o2FlowRate: '0',
+    ...overrides,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Parameter scoring
+// ---------------------------------------------------------------------------
+describe('NEWS2 parameter scoring', () => {
+  it('Normal obs score 0', () => {
+    const result = calculateNews2(normalVitals())
+    expect(result.totalScore).toBe(0)
+    expect(result.clinicalRisk).toBe('Routine')
+    expect(result.missingParameters).toEqual([])
+  })
+
+  it('Scores respiratory rate at each boundary', () => {
+    const rr = (value: string) => calculateNews2(normalVitals({ rr: value })).subScores.rr.score
+    expect(rr('8')).toBe(3)
+    expect(rr('9')).toBe(1)
+    expect(rr('11')).toBe(1)
+    expect(rr('12')).toBe(0)
+    expect(rr('20')).toBe(0)
+    expect(rr('21')).toBe(2)
+    expect(rr('24')).toBe(2)
+    expect(rr('25')).toBe(3)
+  })
+
+  it('Scores pulse, systolic BP and temperature on the RCP tables', () => {
+    const result = calculateNews2(normalVitals({ hr: '112', bp_sys: '98', temp: '39.2' }))
+    expect(result.subScores.heartRate.score).toBe(2)
+    expect(result.subScores.systolicBP.score).toBe(2)
+    expect(result.subScores.temperature.score).toBe(2)
+    expect(calculateNews2(normalVitals({ bp_sys: '220' })).subScores.systolicBP.score).toBe(3)
+    expect(calculateNews2(normalVitals({ temp: '35.0' })).subScores.temperature.score).toBe(3)
+  })
+
+  it('Scores 2 for any supplemental oxygen', () => {
+    expect(calculateNews2(normalVitals({ o2FlowRate: '2' })).subScores.o2FlowRate.score).toBe(2)
+    expect(calculateNews2(normalVitals({ supplementalO2: true })).subScores.o2FlowRate.score).toBe(2)
+    expect(calculateNews2(normalVitals()).subScores.o2FlowRate.score).toBe(0)
+  })
+
+  it('Scores new confusion as 3', () => {
+    expect(calculateNews2(normalVitals({ avpu: 'C' })).subScores.consciousness.score).toBe(3)
+    expect(calculateNews2(normalVitals({ avpu: 'Changing Behaviour' })).subScores.consciousness.score).toBe(3)
+    expect(calculateNews2(normalVitals({ avpu: 'Voice' })).subScores.consciousness.score).toBe(3)
+  })
+
+  it('Lists parameters not charted as missing', () => {
+    const result = calculateNews2(normalVitals({ temp: '' }))
+    expect(result.missingParameters).toEqual(['temperature'])
+    expect(result.subScores.temperature.score).toBe(0)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// SpO₂ scales
+// ---------------------------------------------------------------------------
+describe('NEWS2 SpO₂ scales', () => {
+  it('Scale 1 scores saturations below 96', () => {
+    const spo2 = (value: string) => calculateNews2(normalVitals({ spo2: value })).subScores.spo2.score
+    expect(spo2('96')).toBe(0)
+    expect(spo2('95')).toBe(1)
+    expect(spo2('93')).toBe(2)
+    expect(spo2('91')).toBe(3)
+  })
+
+  it('Scale 2 does not score 88-92', () => {
+    const spo2 = (value: string) =>
+      calculateNews2(normalVitals({ spo2: value }), true).subScores.spo2.score
+    expect(spo2('88')).toBe(0)
+    expect(spo2('92')).toBe(0)
+    expect(spo2('86')).toBe(1)
+    expect(spo2('84')).toBe(2)
+    expect(spo2('83')).toBe(3)
+  })
+
+  it('Scale 2 scores saturations of 93 and above only on oxygen', () => {
+    expect(calculateNews2(normalVitals({ spo2: '97' }), true).subScores.spo2.score).toBe(0)
+    const onO2 = (value: string) =>
+      calculateNews2(normalVitals({ spo2: value, o2FlowRate: '2' }), true).subScores.spo2.score
+    expect(onO2('93')).toBe(1)
+    expect(onO2('95')).toBe(2)
+    expect(onO2('97')).toBe(3)
+  })
+
+  it('The NEWS2 scale 2 chart form scores on scale 2', () => {
+    const vitals = normalVitals({ spo2: '89' })
+    expect(calculateQadds(vitals, 'NEWS2-SCALE2').subScores.spo2.score).toBe(0)
+    expect(calculateQadds(vitals, 'NEWS2').subScores.spo2.score).toBe(3)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Response bands
+// ---------------------------------------------------------------------------
+describe('NEWS2 response bands', () => {
+  it('1-4 is low risk', () => {
+    expect(calculateNews2(normalVitals({ hr: '95' })).clinicalRisk).toBe('Low')
+    const four = calculateNews2(normalVitals({ hr: '112', rr: '22' }))
+    expect(four.totalScore).toBe(4)
+    expect(four.clinicalRisk).toBe('Low')
+  })
+
+  it('A 3 in any single parameter is a red score', () => {
+    const result = calculateNews2(normalVitals({ avpu: 'C' }))
+    expect(result.totalScore).toBe(3)
+    expect(result.redParameters).toEqual(['consciousness'])
+    expect(result.clinicalRisk).toBe('Moderate')
+  })
+
+  it('5-6 is high risk and 7 or more is an emergency', () => {
+    expect(calculateNews2(normalVitals({ hr: '112', rr: '22', o2FlowRate: '2' })).clinicalRisk).toBe('High')
+    const seven = calculateNews2(normalVitals({ hr: '135', rr: '22', o2FlowRate: '2' }))
+    expect(seven.totalScore).toBe(7)
+    expect(seven.clinicalRisk).toBe('Emergency')
+  })
+
+  it('Has no E zone', () => {
+    const result = calculateNews2(normalVitals({ rr: '40', hr: '160' }))
+    expect(result.hasEmergency).toBe(false)
+    expect(result.emergencyParameters).toEqual([])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Site setting
+// ---------------------------------------------------------------------------
+describe('NEWS2 as the site scoring system', () => {
+  const adult = { age: 63, dob: '07-Apr-1963', admission: '2026-03-01' }
+
+  it('Scores adults on the NEWS2 counterpart of their chart form', () => {
+    expect(getPatientChartVariant(adult, 'news2')).toBe('NEWS2')
+    expect(getPatientChartVariant({ ...adult, chartVariant: 'SW1171' }, 'news2')).toBe('NEWS2-SCALE2')
+    expect(getPatientChartVariant({ ...adult, chartVariant: 'NEWS2-SCALE2' }, 'qadds')).toBe('SW1171')
+  })
+
+  it('Keeps children on CEWT', () => {
+    const child = { age: 8, dob: '2018-01-01', admission: '2026-03-01' }
+    expect(getPatientChartVariant(child, 'news2')).toBe('CEWT-5-11Y')
+  })
+
+  it('NEWS2 chart forms call for an emergency response at 7', () => {
+    expect(getChartForm('NEWS2')).toMatchObject({ system: 'news2', emergencyScore: 7 })
+    expect(getChartForm('SW150')).toMatchObject({ system: 'qadds', emergencyScore: 8 })
+  })
+
+  it('Gives the RCP clinical response', () => {
+    expect(getEscalationText('High', 'stable', 'NEWS2')).toBe(getNews2EscalationText('High'))
+    expect(getNews2EscalationText('Emergency')).toContain('critical care competencies')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Alerts
+// ---------------------------------------------------------------------------
+describe('NEWS2 alerts', () => {
+  it('Raises no alert for a score of 0', () => {
+    expect(evaluateAlerts(normalVitals(), 'NEWS2')).toEqual([])
+  })
+
+  it('Raises a red score alert naming the parameter', () => {
+    const alerts = evaluateAlerts(normalVitals({ avpu: 'C' }), 'NEWS2')
+    expect(alerts[0].title).toContain('Red Score')
+    expect(alerts[0].parameters).toEqual(['Consciousness (AVPU)'])
+  })
+
+  it('Raises an emergency response alert at 7', () => {
+    const alerts = evaluateAlerts(normalVitals({ hr: '135', rr: '22', o2FlowRate: '2' }), 'NEWS2')
+    expect(alerts[0].ewsRange).toBe('>=8')
+    expect(alerts[0].title).toContain('NEWS2 Score 7+')
+  })
+})
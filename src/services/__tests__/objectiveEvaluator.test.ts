@@ -0,0 +1,274 @@
+/**
+ * @file objectiveEvaluator.test.ts
+ * @description Unit tests for scenario objective (competency checklist)
+ * scoring.
+ *
+ * Covers each objective kind, pass/late/fail/pending status, tier
+ * seniority, MET criteria on the chart form, cancelled MET-MEO plans, and
+ * generated descriptions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateObjectives, describeObjective, type ObjectiveInput } from '../objectiveEvaluator';
+import type {
+  LearnerAction,
+  LearnerActionPayloads,
+  LearnerActionType,
+  Patient,
+  ScenarioObjective,
+} from '../../types';
+import type { MetMeoOrder } from '../../types/meo';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const MRN = 'MRN-001';
+const START = new Date(2026, 2, 1, 8, 0);
+
+/** Sim time `minutes` after START, as ISO. */
+function at(minutes: number): string {
+  return new Date(START.getTime() + minutes * 60_000).toISOString();
+}
+
+function action<T extends LearnerActionType>(
+  minutes: number,
+  type: T,
+  payload: LearnerActionPayloads[T],
+): LearnerAction {
+  return {
+    sessionId: 'test',
+    type,
+    payload,
+    patientMrn: MRN,
+    wallTime: at(minutes),
+    simTime: at(minutes),
+  } as LearnerAction;
+}
+
+function makePatient(): Patient {
+  return {
+    mrn: MRN,
+    name: 'DOE, JANE',
+    dob: '1990-01-15',
+    age: 36,
+    gender: 'Female',
+    allergies: [],
+    location: 'Ward 3A',
+    attending: 'Dr. Smith',
+    admission: '2026-02-15',
+    medicalHistory: [],
+    // Newest first: Q-ADDS 14 (RR in E-zone) at T+60, 6 at T+30, 0 at T+0.
+    vitals: [
+      { datetime: '01-Mar-2026 09:00', rr: 36, spo2: 90, bp_sys: 85, bp_dia: 50, hr: 135, temp: 39, avpu: 'Alert' },
+      { datetime: '01-Mar-2026 08:30', rr: 24, spo2: 94, bp_sys: 105, bp_dia: 60, hr: 118, temp: 38.6, avpu: 'Alert' },
+      { datetime: '01-Mar-2026 08:00', rr: 16, spo2: 97, bp_sys: 125, bp_dia: 80, hr: 78, temp: 37, avpu: 'Alert' },
+    ],
+    fluidBalance: [],
+    medications: [],
+    orders: [],
+    results: {
+      haematology: [],
+      biochemistry: [],
+      bloodGas: [],
+      coagulation: [],
+      urinalysis: [],
+      cardiac: [],
+    },
+    notes: [],
+  };
+}
+
+function makeMetMeo(orderId: string, status: MetMeoOrder['status'] = 'ACTIVE'): MetMeoOrder {
+  return {
+    orderId,
+    patientMrn: MRN,
+    orderType: 'MET_MEO_PLAN',
+    triggerType: 'E_ZONE',
+    eZoneVitalSign: 'rr',
+    eZoneLowerBound: 8,
+    eZoneUpperBound: 36,
+    eZoneCavpuLevel: null,
+    rationale: 'Known chronic tachypnoea',
+    durationHours: 12,
+    authorisingClinicianName: 'Dr Reg',
+    authorisingClinicianRole: 'REGISTRAR',
+    signedAt: at(65),
+    expiresAt: at(65 + 12 * 60),
+    cancelledAt: null,
+    status,
+  };
+}
+
+/** Evaluate a single objective at `nowMinutes`. */
+function evaluate(
+  objective: ScenarioObjective,
+  nowMinutes: number,
+  overrides: Partial<ObjectiveInput> = {},
+) {
+  return evaluateObjectives({
+    objectives: [objective],
+    patient: makePatient(),
+    actions: [],
+    metMeoOrders: [],
+    sedationAssessments: [],
+    startedAt: START,
+    now: new Date(START.getTime() + nowMinutes * 60_000),
+    ...overrides,
+  })[0];
+}
+
+// ---------------------------------------------------------------------------
+// Status
+// ---------------------------------------------------------------------------
+
+describe('evaluateObjectives', () => {
+  const ack: ScenarioObjective = { id: 'ack', kind: 'acknowledge-alert', ewsRange: '6-7', withinMinutes: 5 };
+
+  it('is pending until the objective is triggered', () => {
+    expect(evaluate(ack, 20)).toMatchObject({ status: 'pending', triggeredAt: null });
+  });
+
+  it('passes when done within the time allowed', () => {
+    const actions = [
+      action(33, 'alert/acknowledged', { alertId: 'a', title: 'EW Score 6-7', ewsRange: '6-7', risk: 'High' }),
+    ];
+    expect(evaluate(ack, 40, { actions })).toEqual({
+      objective: ack,
+      description: 'Acknowledge "EW Score 6-7" alert within 5 min',
+      status: 'pass',
+      triggeredAt: at(30),
+      dueAt: at(35),
+      completedAt: at(33),
+    });
+  });
+
+  it('fails once the time allowed passes, then becomes late if done', () => {
+    expect(evaluate(ack, 34).status).toBe('pending');
+    expect(evaluate(ack, 36).status).toBe('fail');
+
+    const actions = [
+      action(38, 'alert/acknowledged', { alertId: 'a', title: 'EW Score 6-7', ewsRange: '6-7', risk: 'High' }),
+    ];
+    expect(evaluate(ack, 40, { actions })).toMatchObject({ status: 'late', completedAt: at(38) });
+  });
+
+  it('ignores acknowledgements of other alert ranges', () => {
+    const actions = [
+      action(33, 'alert/acknowledged', { alertId: 'a', title: 'EW Score 4-5', ewsRange: '4-5', risk: 'Moderate' }),
+    ];
+    expect(evaluate(ack, 40, { actions }).status).toBe('fail');
+  });
+
+  it('needs every named order, timed by the last one placed', () => {
+    const objective: ScenarioObjective = {
+      id: 'bloods',
+      kind: 'order',
+      names: ['lactate', 'blood culture'],
+      withinMinutes: 30,
+    };
+    const lactate = action(10, 'order/placed', { orderId: 'O1', name: 'Lactate', type: 'Laboratory', priority: 'STAT' });
+    const cultures = action(35, 'order/placed', {
+      orderId: 'O2',
+      name: 'Blood Culture',
+      type: 'Laboratory',
+      priority: 'STAT',
+    });
+
+    expect(evaluate(objective, 20, { actions: [lactate] }).status).toBe('pending');
+    expect(evaluate(objective, 40, { actions: [lactate, cultures] })).toMatchObject({
+      status: 'late',
+      triggeredAt: at(0),
+      completedAt: at(35),
+    });
+  });
+
+  it('accepts escalation to the required tier or higher', () => {
+    const objective: ScenarioObjective = { id: 'reg', kind: 'escalate', tier: 'Registrar', withinMinutes: 15 };
+    const rmo = action(32, 'escalation/documented', { tier: 'RMO', score: 6 });
+    const met = action(40, 'escalation/documented', { tier: 'MET', score: 6 });
+
+    expect(evaluate(objective, 50, { actions: [rmo] }).status).toBe('fail');
+    expect(evaluate(objective, 50, { actions: [rmo, met] })).toMatchObject({
+      status: 'pass',
+      triggeredAt: at(30),
+      completedAt: at(40),
+    });
+  });
+
+  it('triggers MET objectives on an E-zone parameter', () => {
+    const objective: ScenarioObjective = { id: 'met', kind: 'escalate', tier: 'MET', minScore: 8 };
+    expect(evaluate(objective, 50).triggeredAt).toBeNull();
+    expect(evaluate(objective, 70)).toMatchObject({ status: 'pending', triggeredAt: at(60) });
+  });
+
+  it('triggers on the MET criteria of the chart form scored on', () => {
+    // The T+30 set scores 6 on Q-ADDS but 7 (emergency risk) on NEWS2.
+    const objective: ScenarioObjective = { id: 'meo', kind: 'met-meo' };
+    expect(evaluate(objective, 40).triggeredAt).toBeNull();
+    expect(evaluate(objective, 40, { variant: 'NEWS2' }).triggeredAt).toBe(at(30));
+  });
+
+  it('counts a MET-MEO plan only while it has not been cancelled', () => {
+    const objective: ScenarioObjective = { id: 'meo', kind: 'met-meo', withinMinutes: 10 };
+    const ordered = action(65, 'meo/ordered', { orderId: 'M1', orderType: 'MET_MEO_PLAN', summary: '' });
+
+    expect(evaluate(objective, 70, { actions: [ordered], metMeoOrders: [makeMetMeo('M1')] }).status).toBe(
+      'pass',
+    );
+    expect(
+      evaluate(objective, 80, { actions: [ordered], metMeoOrders: [makeMetMeo('M1', 'CANCELLED')] }).status,
+    ).toBe('fail');
+  });
+
+  it('fails a withhold objective when a matching dose is given after the sedation score', () => {
+    const objective: ScenarioObjective = {
+      id: 'sedation',
+      kind: 'withhold-medication',
+      names: ['oxycodone', 'morphine'],
+      sedationScoreAtLeast: 2,
+    };
+    const sedationAssessments = [
+      { assessmentId: 's1', patientMrn: MRN, assessmentTime: at(10), score: 1 as const, comments: null },
+      { assessmentId: 's2', patientMrn: MRN, assessmentTime: at(20), score: 2 as const, comments: null },
+    ];
+    const given = (minutes: number, status: 'GIVEN' | 'HELD') =>
+      action(minutes, 'mar/administered', {
+        medicationName: 'Oxycodone 5 mg',
+        route: 'Oral',
+        scheduledTime: '08:00',
+        status,
+        nurse: 'RN Test',
+      });
+
+    expect(evaluate(objective, 30).status).toBe('pending');
+    expect(evaluate(objective, 30, { sedationAssessments, actions: [given(15, 'GIVEN'), given(25, 'HELD')] }))
+      .toMatchObject({ status: 'pass', triggeredAt: at(20), completedAt: null });
+    expect(evaluate(objective, 30, { sedationAssessments, actions: [given(25, 'GIVEN')] })).toMatchObject({
+      status: 'fail',
+      completedAt: at(25),
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// describeObjective
+// ---------------------------------------------------------------------------
+
+describe('describeObjective', () => {
+  it('prefers the scenario wording', () => {
+    expect(describeObjective({ id: 'x', kind: 'met-meo', description: 'Get a plan' })).toBe('Get a plan');
+  });
+
+  it('generates wording from the rule', () => {
+    expect(describeObjective({ id: 'x', kind: 'escalate', tier: 'MET', minScore: 8, withinMinutes: 5 })).toBe(
+      'Call MET within 5 min of EWS ≥ 8',
+    );
+    expect(describeObjective({ id: 'x', kind: 'escalate', withinMinutes: 10 })).toBe(
+      'Escalate to RMO within 10 min of escalation criteria',
+    );
+    expect(
+      describeObjective({ id: 'x', kind: 'withhold-medication', names: ['oxycodone'], sedationScoreAtLeast: 2 }),
+    ).toBe('Withhold oxycodone when sedation score ≥ 2');
+  });
+});
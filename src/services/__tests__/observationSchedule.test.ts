@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest'
+import { formatObsInterval, getObsSchedule } from '@/services/observationSchedule'
+import type { VitalSign } from '@/types/patient'
+import type { MetMeoOrder, ModifiedObsFrequencyOrder } from '@/types/meo'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** A normal adult obs set (score 0) charted at 08:00 on 01-Mar-2026 */
+function obs(overrides: Partial<VitalSign> = {}): VitalSign {
+  return {
+    datetime: '01-Mar-2026 08:00',
+    temp: '37.0',
+    hr: '75',
+    rr: '16',
+    bp_sys: '130',
+    bp_dia: '80',
+    spo2: '98',
+    avpu: 'Alert',
+    o2FlowRate: '0',
+    ...overrides,
+  }
+}
+
+/** Sim time on 01-Mar-2026 */
+function at(hours: number, minutes = 0): Date {
+  return new Date(2026, 2, 1, hours, minutes)
+}
+
+const MOF: ModifiedObsFrequencyOrder = {
+  orderId: 'mof-1',
+  patientMrn: 'MRN-001',
+  orderType: 'MODIFIED_OBS_FREQUENCY',
+  optionSelected: 'STABLE_EXPECTED',
+  frequencyHours: 6,
+  otherFreeText: null,
+  authorisingSmoName: 'Dr SMO',
+  signedAt: '2026-03-01T07:00:00.000Z',
+  cancelledAt: null,
+  status: 'ACTIVE',
+}
+
+const MET_MEO: MetMeoOrder = {
+  orderId: 'meo-1',
+  patientMrn: 'MRN-001',
+  orderType: 'MET_MEO_PLAN',
+  triggerType: 'EWS_GTE_8',
+  eZoneVitalSign: null,
+  eZoneLowerBound: null,
+  eZoneUpperBound: null,
+  eZoneCavpuLevel: null,
+  rationale: 'Chronic tachycardia',
+  durationHours: 12,
+  authorisingClinicianName: 'Dr Reg',
+  authorisingClinicianRole: 'REGISTRAR',
+  signedAt: '2026-03-01T07:00:00.000Z',
+  expiresAt: '2026-03-01T19:00:00.000Z',
+  cancelledAt: null,
+  status: 'ACTIVE',
+}
+
+// ---------------------------------------------------------------------------
+// Frequency from the score
+// ---------------------------------------------------------------------------
+describe('getObsSchedule', () => {
+  it('Returns null without dated observations', () => {
+    expect(getObsSchedule({ vitals: [], now: at(9) })).toBeNull()
+    expect(getObsSchedule({ vitals: [obs({ datetime: 'not charted' })], now: at(9) })).toBeNull()
+  })
+
+  it('Schedules 8 hourly obs after a Q-ADDS score of 0', () => {
+    const schedule = getObsSchedule({ vitals: [obs()], variant: 'SW150', now: at(9) })!
+    expect(schedule.dueAt).toBe(at(16).toISOString())
+    expect(schedule.minutesRemaining).toBe(420)
+    expect(schedule.overdue).toBe(false)
+    expect(schedule.basis).toBe('score')
+    expect(schedule.description).toBe('8 hourly (EWS 0)')
+  })
+
+  it('Shortens the interval as the score rises', () => {
+    // HR=100 scores 1, RR=31 scores 4, RR=31 + HR=110 scores 6, RR=5 is in the E zone
+    const interval = (v: Partial<VitalSign>) =>
+      getObsSchedule({ vitals: [obs(v)], variant: 'SW150', now: at(8) })!.intervalMinutes
+    expect(interval({ hr: '100' })).toBe(240)
+    expect(interval({ rr: '31' })).toBe(120)
+    expect(interval({ rr: '31', hr: '110' })).toBe(60)
+    expect(interval({ rr: '5' })).toBe(10)
+  })
+
+  it('Uses the deteriorating Q-ADDS frequency when the obs show a trend', () => {
+    // EWS 0 at 07:00, then HR=100 (EWS 1) at 08:00
+    const vitals = [obs({ hr: '100' }), obs({ datetime: '01-Mar-2026 07:00' })]
+    const schedule = getObsSchedule({ vitals, variant: 'SW150', now: at(8) })!
+    expect(schedule.intervalMinutes).toBe(60)
+    expect(schedule.description).toBe('1 hourly (EWS 1, deteriorating)')
+
+    // RR=31 + HR=110 (EWS 6) after EWS 0: ½ hourly
+    const high = [obs({ rr: '31', hr: '110' }), obs({ datetime: '01-Mar-2026 07:00' })]
+    expect(getObsSchedule({ vitals: high, variant: 'SW150', now: at(8) })!.intervalMinutes).toBe(30)
+  })
+
+  it('Follows the NEWS2 and CEWT frequencies on those charts', () => {
+    expect(getObsSchedule({ vitals: [obs()], variant: 'NEWS2', now: at(8) })!.intervalMinutes).toBe(720)
+    expect(getObsSchedule({ vitals: [obs()], variant: 'CEWT-12Y', now: at(8) })!.intervalMinutes).toBe(240)
+  })
+
+  it('Is overdue once the due time passes', () => {
+    const schedule = getObsSchedule({ vitals: [obs({ rr: '31' })], variant: 'SW150', now: at(10, 15) })!
+    expect(schedule.overdue).toBe(true)
+    expect(schedule.minutesRemaining).toBe(-15)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// MOF and MET-MEO orders
+// ---------------------------------------------------------------------------
+describe('getObsSchedule with orders', () => {
+  it('Uses the MOF frequency below the MET range', () => {
+    const schedule = getObsSchedule({ vitals: [obs({ hr: '100' })], variant: 'SW150', mofOrder: MOF, now: at(9) })!
+    expect(schedule.basis).toBe('mof')
+    expect(schedule.dueAt).toBe(at(14).toISOString())
+    expect(schedule.description).toBe('6 hourly (MOF order, Dr SMO)')
+  })
+
+  it('Ignores the MOF order in the MET range', () => {
+    const schedule = getObsSchedule({ vitals: [obs({ rr: '5' })], variant: 'SW150', mofOrder: MOF, now: at(8) })!
+    expect(schedule.basis).toBe('score')
+    expect(schedule.intervalMinutes).toBe(10)
+  })
+
+  it('Allows ½ hourly obs in the MET range under a MET-MEO plan', () => {
+    const schedule = getObsSchedule({ vitals: [obs({ rr: '5' })], variant: 'SW150', metMeoOrder: MET_MEO, now: at(8) })!
+    expect(schedule.basis).toBe('met-meo')
+    expect(schedule.description).toBe('½ hourly (MET-MEO plan)')
+  })
+
+  it('Keeps the score frequency under a MET-MEO plan below the MET range', () => {
+    const schedule = getObsSchedule({ vitals: [obs({ rr: '31' })], variant: 'SW150', metMeoOrder: MET_MEO, now: at(8) })!
+    expect(schedule.basis).toBe('score')
+    expect(schedule.intervalMinutes).toBe(120)
+  })
+})
+
+describe('formatObsInterval', () => {
+  it('Names minutely, half-hourly and hourly frequencies', () => {
+    expect(formatObsInterval(10)).toBe('10 minutely')
+    expect(formatObsInterval(30)).toBe('½ hourly')
+    expect(formatObsInterval(240)).toBe('4 hourly')
+    expect(formatObsInterval(90)).toBe('90 minutely')
+  })
+})
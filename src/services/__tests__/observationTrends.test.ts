@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import { detectTrends } from '@/services/observationTrends'
+import { evaluateAlerts } from '@/services/alertEngine'
+import type { VitalSign } from '@/types/patient'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** A normal adult obs set (score 0) charted at `time` on 01-Mar-2026 */
+function obs(time: string, overrides: Partial<VitalSign> = {}): VitalSign {
+  return {
+    datetime: `01-Mar-2026 ${time}`,
+    temp: '37.0',
+    hr: '75',
+    rr: '16',
+    bp_sys: '130',
+    bp_dia: '80',
+    spo2: '98',
+    avpu: 'Alert',
+    o2FlowRate: '0',
+    ...overrides,
+  }
+}
+
+const ids = (history: VitalSign[]) => detectTrends(history).map((t) => t.id)
+
+// ---------------------------------------------------------------------------
+// detectTrends
+// ---------------------------------------------------------------------------
+describe('detectTrends', () => {
+  it('Finds nothing for a single set or an unchanged patient', () => {
+    expect(detectTrends([obs('08:00')])).toEqual([])
+    expect(detectTrends([obs('12:00'), obs('08:00')])).toEqual([])
+  })
+
+  it('Reports a score higher than the last score', () => {
+    // HR=100 scores 1
+    const [trend] = detectTrends([obs('12:00', { hr: '100' }), obs('08:00')])
+    expect(trend).toEqual({ id: 'score-higher', label: 'Score higher than last score (0 → 1)', parameters: [] })
+  })
+
+  it('Reports a rise of 2 or more within 4 hours', () => {
+    // HR=110(2) at 12:00, after 0 at 09:00 and 1 at 11:00
+    const history = [obs('12:00', { hr: '110' }), obs('11:00', { hr: '100' }), obs('09:00')]
+    const rise = detectTrends(history).find((t) => t.id === 'score-rise')
+    expect(rise?.label).toBe('Score risen by 2 within 4 hours (0 → 2)')
+  })
+
+  it('Ignores a rise spread over more than 4 hours', () => {
+    const history = [obs('14:00', { hr: '110' }), obs('11:00', { hr: '100' }), obs('08:00')]
+    expect(ids(history)).not.toContain('score-rise')
+  })
+
+  it('Names NEW contributing and worse vital signs', () => {
+    // HR 100(1) -> 110(2) is worse; temp 38.5 is new
+    const trends = detectTrends([obs('12:00', { hr: '110', temp: '38.5' }), obs('08:00', { hr: '100' })])
+    expect(trends.find((t) => t.id === 'new-parameter')).toEqual({
+      id: 'new-parameter',
+      label: 'NEW contributing vital sign(s): Temperature',
+      parameters: ['temperature'],
+    })
+    expect(trends.find((t) => t.id === 'worse-parameter')?.parameters).toEqual(['heartRate'])
+  })
+
+  it('Does not count a parameter missing from the previous set as new', () => {
+    expect(ids([obs('12:00', { hr: '100' }), obs('08:00', { hr: '' })])).not.toContain('new-parameter')
+  })
+
+  it('Reports systolic BP falling more than 20% from the earliest reading', () => {
+    const history = [obs('16:00', { bp_sys: '110' }), obs('12:00', { bp_sys: '120' }), obs('08:00', { bp_sys: '140' })]
+    const fall = detectTrends(history).find((t) => t.id === 'sbp-fall')
+    expect(fall?.label).toBe('Systolic BP fallen 21% from baseline (140 → 110)')
+    expect(ids([obs('16:00', { bp_sys: '112' }), obs('08:00', { bp_sys: '140' })])).not.toContain('sbp-fall')
+  })
+
+  it('Reports RR trending up over three sets while the score is low', () => {
+    const history = [obs('12:00', { rr: '20' }), obs('10:00', { rr: '18' }), obs('08:00', { rr: '14' })]
+    const rr = detectTrends(history).find((t) => t.id === 'rr-rising')
+    expect(rr?.label).toBe('Respiratory rate trending up (14 → 18 → 20)')
+  })
+
+  it('Needs a steady rise of at least 4 breaths for the RR trend', () => {
+    expect(ids([obs('12:00', { rr: '18' }), obs('10:00', { rr: '17' }), obs('08:00', { rr: '16' })])).not.toContain(
+      'rr-rising',
+    )
+    expect(ids([obs('12:00', { rr: '20' }), obs('10:00', { rr: '14' }), obs('08:00', { rr: '16' })])).not.toContain(
+      'rr-rising',
+    )
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Alerts from observation history
+// ---------------------------------------------------------------------------
+describe('evaluateAlerts with history', () => {
+  it('Fills the deteriorating criteria with the trends met', () => {
+    const [alert] = evaluateAlerts([obs('12:00', { hr: '100' }), obs('08:00')], 'SW150')
+    expect(alert.ewsRange).toBe('1-3')
+    expect(alert.deterioratingCriteria).toEqual([
+      'Score higher than last score (0 → 1)',
+      'NEW contributing vital sign(s): Heart Rate',
+    ])
+  })
+
+  it('Keeps the standard criteria when no trend is met', () => {
+    const [alert] = evaluateAlerts([obs('12:00', { hr: '100' }), obs('08:00', { hr: '100' })], 'SW150')
+    expect(alert.deterioratingCriteria).toEqual([
+      'Concern patient is worse or not improving',
+      'NEW contributing vital sign(s)',
+      'Score higher than last score',
+    ])
+  })
+
+  it('Raises a trend alert while the score is still 0', () => {
+    const history = [obs('12:00', { rr: '20' }), obs('10:00', { rr: '18' }), obs('08:00', { rr: '14' })]
+    const alerts = evaluateAlerts(history, 'SW150')
+    expect(alerts).toHaveLength(1)
+    expect(alerts[0].ewsRange).toBe('trend')
+    expect(alerts[0].deterioratingCriteria).toEqual(['Respiratory rate trending up (14 → 18 → 20)'])
+  })
+
+  it('Adds the E zone and staff concern criteria to the trends', () => {
+    const alerts = evaluateAlerts([obs('12:00', { rr: '5', nurseConcern: true }), obs('08:00')], 'SW150')
+    const eAlert = alerts.find((a) => a.ewsRange === 'E')!
+    expect(eAlert.deterioratingCriteria[0]).toBe('Concern patient is worse or not improving')
+    expect(eAlert.deterioratingCriteria.at(-1)).toBe('E zone vital sign outside accepted range')
+    expect(eAlert.deterioratingCriteria).toContain('NEW contributing vital sign(s): Respiratory Rate')
+  })
+
+  it('Returns no alerts for an empty history', () => {
+    expect(evaluateAlerts([])).toEqual([])
+  })
+})
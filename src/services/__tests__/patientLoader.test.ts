@@ -61,6 +61,37 @@ describe('normalizePatientData – flat format', () => {
     });
     expect(patient.medicalHistory).toEqual([]);
   });
+
+  it('keeps a known chart form on a flat record', () => {
+    const patient = normalizePatientData({ mrn: 'MRN-003', name: 'LUNG, LES', chartVariant: 'SW1171' });
+    expect(patient.chartVariant).toBe('SW1171');
+  });
+
+  it('upgrades free-text medication orders on a flat record', () => {
+    const patient = normalizePatientData({
+      mrn: 'MRN-004',
+      name: 'SUGAR, SAM',
+      medications: [
+        {
+          name: 'insulin aspart',
+          dose: '8 units',
+          route: 'Subcutaneous',
+          frequency: 'THREE TIMES a day (with meals)',
+          scheduled: true,
+          times: ['0800', '1200', '1800'],
+        },
+      ],
+    });
+
+    expect(patient.medications[0]).toMatchObject({
+      dose: { amount: 8, unit: 'units' },
+      route: 'SC',
+      frequency: { code: 'TDS', intervalHours: 8 },
+      times: ['08:00', '12:00', '18:00'],
+      comment: 'with meals',
+      status: 'active',
+    });
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -148,8 +179,9 @@ describe('normalizePatientData – hierarchical format', () => {
     const patient = normalizePatientData(raw);
     expect(patient.medications).toHaveLength(1);
     expect(patient.medications[0].name).toBe('Metformin');
-    expect(patient.medications[0].dose).toBe('500mg');
+    expect(patient.medications[0].dose).toEqual({ amount: 500, unit: 'mg' });
     expect(patient.medications[0].route).toBe('PO');
+    expect(patient.medications[0].frequency).toEqual({ code: 'BD', intervalHours: 12 });
     expect(patient.medications[0].scheduled).toBe(true);
   });
 
@@ -243,6 +275,23 @@ describe('normalizePatientData – hierarchical format', () => {
     const patient = normalizePatientData(raw);
     expect(patient.age).toBe(72);
   });
+  it('passes the admission chart form through', () => {
+    const raw = {
+      demographics: { mrn: 'H-MRN-009', firstName: 'Cora', lastName: 'Heart' },
+      admission: { chartVariant: 'SW626' },
+    };
+
+    expect(normalizePatientData(raw).chartVariant).toBe('SW626');
+  });
+
+  it('drops an unknown chart form so the patient is scored on SW150', () => {
+    const raw = {
+      demographics: { mrn: 'H-MRN-010', firstName: 'Ivy', lastName: 'Unknown' },
+      admission: { chartVariant: 'SW999' },
+    };
+
+    expect(normalizePatientData(raw).chartVariant).toBeUndefined();
+  });
 });
 
 // ---------------------------------------------------------------------------
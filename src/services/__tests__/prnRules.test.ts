@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest'
+import type { MedicationAdministration } from '@/types/medications'
+import { checkPrnDose, getDueReassessments, getReassessDueAt } from '@/services/prnRules'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const NOW = new Date(2026, 2, 1, 12, 0)
+
+/** `hours` before NOW */
+function ago(hours: number): Date {
+  return new Date(NOW.getTime() - hours * 3_600_000)
+}
+
+function dose(
+  at: Date,
+  status: MedicationAdministration['status'] = 'GIVEN',
+): MedicationAdministration {
+  return {
+    id: at.toISOString(),
+    scheduledAt: null,
+    timestamp: at.toISOString(),
+    status,
+    nurse: 'RN Lee',
+  }
+}
+
+/** Paracetamol PRN 4 hourly, up to 4 times daily */
+const order = {
+  frequency: { code: 'PRN' as const, intervalHours: 4 },
+  maxPrnDosesPer24h: 4,
+}
+
+// ---------------------------------------------------------------------------
+// checkPrnDose
+// ---------------------------------------------------------------------------
+
+describe('checkPrnDose', () => {
+  it('allows a first dose', () => {
+    expect(checkPrnDose(order, [], NOW)).toEqual({
+      level: 'ok',
+      messages: [],
+      dosesLast24h: 0,
+      nextDoseAt: null,
+      maxClearsAt: null,
+    })
+  })
+
+  it('allows a dose once the minimum interval has elapsed', () => {
+    const check = checkPrnDose(order, [dose(ago(4))], NOW)
+    expect(check.level).toBe('ok')
+    expect(check.nextDoseAt).toEqual(NOW)
+  })
+
+  it('warns when the minimum interval has not elapsed', () => {
+    const check = checkPrnDose(order, [dose(ago(2.5))], NOW)
+    expect(check.level).toBe('warn')
+    expect(check.nextDoseAt).toEqual(new Date(2026, 2, 1, 13, 30))
+    expect(check.messages).toEqual([
+      'Last given 2 h 30 min ago; the minimum interval is 4 hours (next from 01-Mar-2026 13:30)',
+    ])
+  })
+
+  it('blocks a dose over the 24-hour maximum, clearing when the oldest counted dose ages out', () => {
+    const check = checkPrnDose(
+      order,
+      [dose(ago(22)), dose(ago(16)), dose(ago(10)), dose(ago(4))],
+      NOW,
+    )
+    expect(check.level).toBe('block')
+    expect(check.dosesLast24h).toBe(4)
+    expect(check.maxClearsAt).toEqual(new Date(2026, 2, 1, 14, 0))
+    expect(check.messages[0]).toBe(
+      '4 of a maximum 4 doses given in the last 24 hours; the next is allowed from 01-Mar-2026 14:00',
+    )
+  })
+
+  it('reports both rules when both are broken, blocking', () => {
+    const check = checkPrnDose(
+      order,
+      [dose(ago(20)), dose(ago(12)), dose(ago(6)), dose(ago(1))],
+      NOW,
+    )
+    expect(check.level).toBe('block')
+    expect(check.messages).toHaveLength(2)
+  })
+
+  it('counts only GIVEN doses within 24 hours, up to now', () => {
+    const check = checkPrnDose(
+      order,
+      [dose(ago(30)), dose(ago(8), 'REFUSED'), dose(ago(6)), dose(ago(-1))],
+      NOW,
+    )
+    expect(check.dosesLast24h).toBe(1)
+    expect(check.level).toBe('ok')
+  })
+
+  it('has no interval check without a minimum interval or maximum check without a maximum', () => {
+    const open = {
+      frequency: { code: 'PRN' as const, intervalHours: null },
+      maxPrnDosesPer24h: null,
+    }
+    const history = [dose(ago(3)), dose(ago(2)), dose(ago(1)), dose(ago(0.5)), dose(ago(0.25))]
+    expect(checkPrnDose(open, history, NOW)).toMatchObject({ level: 'ok', dosesLast24h: 5 })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Reassessment
+// ---------------------------------------------------------------------------
+
+describe('PRN reassessment', () => {
+  function prnDose(at: Date, reassessMinutes: number, postDoseScore: number | null = null) {
+    return {
+      ...dose(at),
+      prn: {
+        indication: 'Pain',
+        scale: 'PAIN' as const,
+        preDoseScore: 7,
+        postDoseScore,
+        reassessDueAt: getReassessDueAt(at, reassessMinutes).toISOString(),
+        reassessedAt: null,
+      },
+    }
+  }
+
+  it('falls due the set number of minutes after the dose', () => {
+    expect(getReassessDueAt(ago(1), 30)).toEqual(ago(0.5))
+  })
+
+  it('lists doses due and not yet reassessed, oldest first', () => {
+    const late = prnDose(ago(2), 30)
+    const due = prnDose(ago(1), 60)
+    const notYet = prnDose(ago(0.25), 30)
+    const done = prnDose(ago(3), 30, 3)
+    const scheduled = dose(ago(2))
+
+    expect(getDueReassessments([due, notYet, done, scheduled, late], NOW)).toEqual([late, due])
+  })
+})
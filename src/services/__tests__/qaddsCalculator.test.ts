@@ -7,14 +7,21 @@
  */
 
 import { describe, it, expect } from 'vitest'
-import type { VitalSign } from '@/types/patient'
+import type { AVPUScale, VitalSign } from '@/types/patient'
+import type { ClinicalRisk, PatientStatus, QaddsParameter } from '@/types/vitals'
 import {
+  CHART_FORMS,
   calculateQadds,
   calculateQaddsTrend,
   getScoreColor,
   getRiskColor,
   getColorHex,
+  getChartForm,
   getEscalationText,
+  getObservationFrequency,
+  getParameterLabel,
+  isOnOxygen,
+  parseValue,
   validateVitalsComplete,
 } from '@/services/qaddsCalculator'
 
@@ -41,6 +48,7 @@ function normalVitals(overrides: Partial<VitalSign> = {}): VitalSign {
 describe('RR scoring', () => {
   const cases: [string, number, number | 'E'][] = [
     ['RR=4 → E', 4, 'E'],
+    ['RR=5 → E', 5, 'E'],
     ['RR=8 → E', 8, 'E'],
     ['RR=9 → 1', 9, 1],
     ['RR=12 → 1', 12, 1],
@@ -69,6 +77,7 @@ describe('RR scoring', () => {
 // ---------------------------------------------------------------------------
 describe('SpO₂ Standard scoring', () => {
   const cases: [string, number, number | 'E'][] = [
+    ['SpO2=100 → 0', 100, 0],
     ['SpO2=99 → 0', 99, 0],
     ['SpO2=98 → 0', 98, 0],
     ['SpO2=95 → 0', 95, 0],
@@ -119,6 +128,60 @@ describe('SpO₂ Chronic Respiratory scoring', () => {
   })
 })
 
+// ---------------------------------------------------------------------------
+// Chart Forms — SW150 General Adult, SW626 Cardiac, SW1171 Chronic Hypoxia
+// ---------------------------------------------------------------------------
+describe('Chart forms', () => {
+  it('SW150 and SW626 score SpO₂ on the standard scale', () => {
+    for (const variant of ['SW150', 'SW626'] as const) {
+      expect(calculateQadds(normalVitals({ spo2: '89' }), variant).subScores.spo2.score).toBe(2)
+    }
+  })
+
+  it('SW1171 scores SpO₂ on the chronic scale', () => {
+    expect(calculateQadds(normalVitals({ spo2: '89' }), 'SW1171').subScores.spo2.score).toBe(0)
+    expect(calculateQadds(normalVitals({ spo2: '83' }), 'SW1171').subScores.spo2.score).toBe(4)
+  })
+
+  it('Other parameters score the same on every form', () => {
+    const vitals = normalVitals({ rr: '26', hr: '135', temp: '38.6', bp_sys: '95' })
+    const totals = (['SW150', 'SW626', 'SW1171'] as const).map(
+      (variant) => calculateQadds(vitals, variant).totalScore,
+    )
+    expect(totals).toEqual([9, 9, 9])
+  })
+
+  it('Original variant names map to their chart forms', () => {
+    expect(getChartForm().code).toBe('SW150')
+    expect(getChartForm('standard').code).toBe('SW150')
+    expect(getChartForm('chronic_respiratory').code).toBe('SW1171')
+  })
+
+  it('Only the cardiac form allows 24-hour MET-MEO plans and omits sepsis screening', () => {
+    expect(getChartForm('SW626')).toMatchObject({ metMeoMaxHours: 24, sepsisScreening: false })
+    expect(getChartForm('SW150')).toMatchObject({ metMeoMaxHours: 12, sepsisScreening: true })
+    expect(getChartForm('SW1171')).toMatchObject({ metMeoMaxHours: 12, sepsisScreening: true })
+  })
+
+  it('Each Q-ADDS and CEWT form has its own score tables; NEWS2 forms have none', () => {
+    for (const form of Object.values(CHART_FORMS)) {
+      if (form.system === 'news2') expect(form.thresholds).toBeNull()
+      else expect(Object.keys(form.thresholds ?? {})).toHaveLength(6)
+    }
+    expect(CHART_FORMS.SW1171.thresholds?.spo2).not.toBe(CHART_FORMS.SW150.thresholds?.spo2)
+    expect(CHART_FORMS.SW1171.thresholds?.rr).toBe(CHART_FORMS.SW150.thresholds?.rr)
+    expect(CHART_FORMS['CEWT-1-4Y'].thresholds?.temperature).toBe(
+      CHART_FORMS.SW150.thresholds?.temperature,
+    )
+  })
+
+  it('Names the tool each form scores on', () => {
+    expect(getChartForm('SW626').tool).toBe('Q-ADDS')
+    expect(getChartForm('CEWT-5-11Y').tool).toBe('CEWT')
+    expect(getChartForm('NEWS2-SCALE2').tool).toBe('NEWS2')
+  })
+})
+
 // ---------------------------------------------------------------------------
 // O₂ Delivery — Official: <2→0, 2-5→1, >5-11→2, >11-14→4, ≥15→E
 // ---------------------------------------------------------------------------
@@ -130,8 +193,10 @@ describe('O₂ Delivery scoring', () => {
     ['O2=2 → 1', 2, 1],
     ['O2=5 → 1', 5, 1],
     ['O2=5.1 → 2', 5.1, 2],
+    ['O2=6 → 2', 6, 2],
     ['O2=11 → 2', 11, 2],
     ['O2=11.1 → 4', 11.1, 4],
+    ['O2=12 → 4', 12, 4],
     ['O2=14 → 4', 14, 4],
     ['O2=15 → E', 15, 'E'],
     ['O2=20 → E', 20, 'E'],
@@ -150,6 +215,7 @@ describe('O₂ Delivery scoring', () => {
 describe('SBP scoring', () => {
   const cases: [string, number, number | 'E'][] = [
     ['SBP=50 → E', 50, 'E'],
+    ['SBP=59 → E', 59, 'E'],
     ['SBP=60 → E', 60, 'E'],
     ['SBP=79 → E', 79, 'E'],
     ['SBP=80 → 4', 80, 4],
@@ -160,6 +226,7 @@ describe('SBP scoring', () => {
     ['SBP=109 → 1', 109, 1],
     ['SBP=110 → 0', 110, 0],
     ['SBP=130 → 0', 130, 0],
+    ['SBP=140 → 0', 140, 0],
     ['SBP=159 → 0', 159, 0],
     ['SBP=160 → 1', 160, 1],
     ['SBP=169 → 1', 169, 1],
@@ -168,6 +235,7 @@ describe('SBP scoring', () => {
     ['SBP=199 → 2', 199, 2],
     ['SBP=200 → 4', 200, 4],
     ['SBP=220 → 4', 220, 4],
+    ['SBP=250 → 4', 250, 4],
   ]
 
   it.each(cases)('%s', (_label, sbp, expected) => {
@@ -183,6 +251,7 @@ describe('SBP scoring', () => {
 describe('HR scoring', () => {
   const cases: [string, number, number | 'E'][] = [
     ['HR=25 → E', 25, 'E'],
+    ['HR=30 → E', 30, 'E'],
     ['HR=39 → E', 39, 'E'],
     ['HR=40 → 2', 40, 2],
     ['HR=49 → 2', 49, 2],
@@ -199,6 +268,7 @@ describe('HR scoring', () => {
     ['HR=159 → 4', 159, 4],
     ['HR=160 → E', 160, 'E'],
     ['HR=180 → E', 180, 'E'],
+    ['HR=200 → E', 200, 'E'],
   ]
 
   it.each(cases)('%s', (_label, hr, expected) => {
@@ -229,6 +299,7 @@ describe('Temperature scoring', () => {
     ['Temp=39.4 → 2', 39.4, 2],
     ['Temp=39.5 → 2', 39.5, 2],
     ['Temp=40.0 → 2', 40.0, 2],
+    ['Temp=41.0 → 2', 41.0, 2],
   ]
 
   it.each(cases)('%s', (_label, temp, expected) => {
@@ -275,6 +346,26 @@ describe('CAVPU scoring', () => {
     expect(r.hasEmergency).toBe(true)
   })
 
+  // Loaded patient data is not checked against the scale
+  it('Surrounding whitespace is ignored', () => {
+    const r = calculateQadds(normalVitals({ avpu: ' Voice ' as AVPUScale }))
+    expect(r.subScores.consciousness).toEqual({
+      parameter: 'consciousness',
+      value: 'Voice',
+      score: 1,
+    })
+  })
+
+  it('An unrecognised response scores 0 but is still charted', () => {
+    const r = calculateQadds(normalVitals({ avpu: 'Drowsy' as AVPUScale }))
+    expect(r.subScores.consciousness).toEqual({
+      parameter: 'consciousness',
+      value: 'Drowsy',
+      score: 0,
+    })
+    expect(r.missingParameters).toEqual([])
+  })
+
   it('Single-letter abbreviations work', () => {
     expect(calculateQadds(normalVitals({ avpu: 'A' })).subScores.consciousness.score).toBe(0)
     expect(calculateQadds(normalVitals({ avpu: 'V' })).subScores.consciousness.score).toBe(1)
@@ -328,6 +419,30 @@ describe('Risk derivation', () => {
     expect(r.clinicalRisk).toBe('Emergency')
   })
 
+  const bands: [string, Partial<VitalSign>, number, ClinicalRisk][] = [
+    ['RR=9', { rr: '9' }, 1, 'Low'],
+    ['HR=40', { hr: '40' }, 2, 'Low'],
+    ['RR=9 + HR=110', { rr: '9', hr: '110' }, 3, 'Low'],
+    ['RR=31 + HR=100', { rr: '31', hr: '100' }, 5, 'Moderate'],
+    ['RR=31 + HR=110', { rr: '31', hr: '110' }, 6, 'High'],
+    ['RR=31 + HR=130', { rr: '31', hr: '130' }, 7, 'High'],
+    ['Temp=33 + HR=140 + SBP=80', { temp: '33.0', hr: '140', bp_sys: '80' }, 12, 'Emergency'],
+  ]
+
+  it.each(bands)('%s → total %i, %s', (_label, overrides, total, risk) => {
+    const r = calculateQadds(normalVitals(overrides))
+    expect(r.totalScore).toBe(total)
+    expect(r.clinicalRisk).toBe(risk)
+    expect(r.hasEmergency).toBe(false)
+  })
+
+  it('An E parameter escalates an otherwise Moderate total', () => {
+    // RR=5 → E (4) + HR=100 (1) = 5
+    const r = calculateQadds(normalVitals({ rr: '5', hr: '100' }))
+    expect(r.totalScore).toBe(5)
+    expect(r.clinicalRisk).toBe('Emergency')
+  })
+
   it('Nurse concern → Emergency', () => {
     const r = calculateQadds(normalVitals({ nurseConcern: true }))
     expect(r.hasEmergency).toBe(true)
@@ -351,11 +466,51 @@ describe('Total score aggregation', () => {
     expect(r.totalScore).toBe(4)
   })
 
+  it('Complete vitals score all 7 parameters', () => {
+    const r = calculateQadds(normalVitals())
+    expect(Object.keys(r.subScores).sort()).toEqual([
+      'consciousness',
+      'heartRate',
+      'o2FlowRate',
+      'rr',
+      'spo2',
+      'systolicBP',
+      'temperature',
+    ])
+    for (const [key, sub] of Object.entries(r.subScores)) {
+      expect(sub.parameter).toBe(key)
+      expect(sub.score).toBe(0)
+    }
+  })
+
+  it('A single E parameter on otherwise normal vitals', () => {
+    // HR=35 → E, everything else 0
+    const r = calculateQadds(normalVitals({ hr: '35' }))
+    expect(r.subScores.heartRate).toEqual({ parameter: 'heartRate', value: 35, score: 'E' })
+    expect(r.emergencyParameters).toEqual(['heartRate'])
+    expect(r.totalScore).toBe(4)
+    expect(r.clinicalRisk).toBe('Emergency')
+  })
+
+  it('Each E parameter adds 4', () => {
+    // RR=5, HR=30 and SBP=50 → E
+    const r = calculateQadds(normalVitals({ rr: '5', hr: '30', bp_sys: '50' }))
+    expect(r.totalScore).toBe(12)
+  })
+
   it('Multiple abnormal params sum correctly', () => {
     // RR=9(1) + HR=110(2) + Temp=38.5(2) = 5
     const r = calculateQadds(normalVitals({ rr: '9', hr: '110', temp: '38.5' }))
     expect(r.totalScore).toBe(5)
   })
+
+  it('Numeric vital values score the same as strings', () => {
+    // Temp=33(4) + HR=140(4) + SBP=80(4) = 12
+    const r = calculateQadds(normalVitals({ temp: 33, hr: 140, bp_sys: 80, o2FlowRate: 10 }))
+    expect(r.subScores.o2FlowRate).toEqual({ parameter: 'o2FlowRate', value: 10, score: 2 })
+    expect(r.totalScore).toBe(14)
+    expect(r.clinicalRisk).toBe('Emergency')
+  })
 })
 
 // ---------------------------------------------------------------------------
@@ -375,6 +530,95 @@ describe('Emergency parameter tracking', () => {
     expect(r.emergencyParameters).toContain('heartRate')
     expect(r.emergencyParameters.length).toBe(2)
   })
+
+  it('Every parameter has a display label', () => {
+    const params = Object.keys(calculateQadds(normalVitals()).subScores) as QaddsParameter[]
+    const labels = params.map(getParameterLabel)
+    expect(labels.every((label) => label.length > 0)).toBe(true)
+    expect(new Set(labels).size).toBe(7)
+  })
+
+  it('E params are labelled for display', () => {
+    const r = calculateQadds(normalVitals({ rr: '5', hr: '30', bp_sys: '50' }))
+    expect(r.emergencyParameters.map(getParameterLabel)).toEqual([
+      'Respiratory Rate',
+      'Systolic BP',
+      'Heart Rate',
+    ])
+    expect(r.clinicalRisk).toBe('Emergency')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Partial Charting
+// ---------------------------------------------------------------------------
+describe('Partial charting', () => {
+  it('Complete vitals → nothing missing', () => {
+    expect(calculateQadds(normalVitals()).missingParameters).toEqual([])
+  })
+
+  it('Uncharted parameters score 0 and are reported missing', () => {
+    const r = calculateQadds({ datetime: '01-Jan-2026 08:00' })
+    expect(r.totalScore).toBe(0)
+    expect(r.clinicalRisk).toBe('Routine')
+    expect(r.emergencyParameters).toEqual([])
+    expect(r.missingParameters).toEqual([
+      'rr',
+      'spo2',
+      'systolicBP',
+      'heartRate',
+      'temperature',
+      'consciousness',
+    ])
+  })
+
+  it('Blank O₂ delivery is room air, not missing', () => {
+    const r = calculateQadds(normalVitals({ o2FlowRate: undefined }))
+    expect(r.subScores.o2FlowRate).toEqual({ parameter: 'o2FlowRate', value: 0, score: 0 })
+    expect(r.missingParameters).toEqual([])
+  })
+
+  it('Unreadable values are not charted', () => {
+    const r = calculateQadds(normalVitals({ hr: 'n/a', temp: ' ' }))
+    expect(r.subScores.heartRate).toEqual({ parameter: 'heartRate', value: '', score: 0 })
+    expect(r.missingParameters).toEqual(['heartRate', 'temperature'])
+  })
+
+  it('A charted zero is scored, not missing', () => {
+    const r = calculateQadds(normalVitals({ hr: 0 }))
+    expect(r.subScores.heartRate.score).toBe('E')
+    expect(r.missingParameters).toEqual([])
+  })
+
+  it('Values with surrounding whitespace are read', () => {
+    const r = calculateQadds(normalVitals({ rr: ' 26 ', spo2: '91 ' }))
+    expect(r.subScores.rr.score).toBe(2)
+    expect(r.subScores.spo2.score).toBe(1)
+  })
+
+  it('Charted parameters still score when others are missing', () => {
+    const r = calculateQadds({ datetime: '01-Jan-2026 08:00', hr: 140, avpu: 'V' })
+    expect(r.subScores.heartRate.score).toBe(4)
+    expect(r.subScores.consciousness.score).toBe(1)
+    expect(r.totalScore).toBe(5)
+    expect(r.clinicalRisk).toBe('Moderate')
+  })
+})
+
+describe('Charted values', () => {
+  it('Parses numbers and numeric strings; blank or unreadable is not charted', () => {
+    expect(parseValue('37.2')).toBe(37.2)
+    expect(parseValue(88)).toBe(88)
+    expect(parseValue(' ')).toBeNull()
+    expect(parseValue(undefined)).toBeNull()
+    expect(parseValue('n/a')).toBeNull()
+  })
+
+  it('On O₂ with a flow charted or the supplemental O₂ flag set', () => {
+    expect(isOnOxygen(normalVitals({ o2FlowRate: '2' }))).toBe(true)
+    expect(isOnOxygen(normalVitals({ o2FlowRate: '0', supplementalO2: 'true' }))).toBe(true)
+    expect(isOnOxygen(normalVitals({ o2FlowRate: '0' }))).toBe(false)
+  })
 })
 
 // ---------------------------------------------------------------------------
@@ -393,6 +637,16 @@ describe('calculateQaddsTrend', () => {
     expect(trend[0].score.totalScore).toBe(0)
     expect(trend[1].score.totalScore).toBe(1) // RR=22 → 1
   })
+
+  it('No vital signs → empty trend', () => {
+    expect(calculateQaddsTrend([])).toEqual([])
+  })
+
+  it('Scores every set on the given chart form', () => {
+    const vitals = [normalVitals({ spo2: '89' }), normalVitals({ spo2: '85' })]
+    const scores = calculateQaddsTrend(vitals, 'SW1171').map((t) => t.score.totalScore)
+    expect(scores).toEqual([0, 2])
+  })
 })
 
 // ---------------------------------------------------------------------------
@@ -469,9 +723,64 @@ describe('getEscalationText', () => {
     expect(stab).not.toContain('Team Leader')
   })
 
+  it('Deteriorating pathway names who reviews within 30 minutes', () => {
+    expect(getEscalationText('Moderate', 'deteriorating')).toContain('RMO to review within 30 minutes')
+    expect(getEscalationText('High', 'deteriorating')).toContain('Registrar to review within 30 minutes')
+  })
+
+  it('Emergency text is the same whatever the status', () => {
+    const text = getEscalationText('Emergency')
+    expect(getEscalationText('Emergency', 'stable')).toBe(text)
+    expect(getEscalationText('Emergency', 'deteriorating')).toBe(text)
+  })
+
+  it('Routine cannot deteriorate and keeps 8th hourly observations', () => {
+    expect(getEscalationText('Routine', 'deteriorating')).toBe(
+      getEscalationText('Routine', 'stable'),
+    )
+    expect(getEscalationText('Routine')).toContain('8th hourly')
+  })
+
+  it('Stable pathway gives the minimum observation frequency for each level', () => {
+    expect(getEscalationText('Low', 'stable')).toContain('4th hourly')
+    expect(getEscalationText('Moderate', 'stable')).toContain('2nd hourly')
+    expect(getEscalationText('High', 'stable')).toContain('1 hourly')
+  })
+
+  it('Deteriorating High risk needs half-hourly observations and escalates to MET', () => {
+    const text = getEscalationText('High', 'deteriorating')
+    expect(text).toContain('\u00BD hourly')
+    expect(text).toContain('call MET or escalate to SMO')
+  })
+
   it('Default (no status) includes both pathways', () => {
     const text = getEscalationText('Moderate')
     expect(text).toContain('2nd hourly')
     expect(text).toContain('deteriorating')
   })
 })
+
+// ---------------------------------------------------------------------------
+// Observation Frequency
+// ---------------------------------------------------------------------------
+describe('getObservationFrequency', () => {
+  const cases: [ClinicalRisk, PatientStatus, string][] = [
+    ['Routine', 'stable', '8-hourly'],
+    ['Low', 'deteriorating', '1-hourly'],
+    ['Low', 'stable', '4-hourly'],
+    ['Moderate', 'deteriorating', '1-hourly'],
+    ['Moderate', 'stable', '2-hourly'],
+    ['High', 'deteriorating', 'Half-hourly'],
+    ['High', 'stable', '1-hourly'],
+    ['Emergency', 'deteriorating', '10-minutely'],
+    ['Emergency', 'stable', '10-minutely'],
+  ]
+
+  it.each(cases)('%s, %s → %s', (risk, status, expected) => {
+    expect(getObservationFrequency(risk, status)).toBe(expected)
+  })
+
+  it('Defaults to the stable pathway', () => {
+    expect(getObservationFrequency('High')).toBe('1-hourly')
+  })
+})
@@ -0,0 +1,379 @@
+/**
+ * @file scenarioEngine.test.ts
+ * @description Unit tests for the scripted scenario engine.
+ *
+ * Covers scenario validation and ordering, due-event scheduling against
+ * the simulation clock, conversion of events into patient updates, and
+ * branching in response to learner interventions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Patient } from '../../types';
+import {
+  normalizeScenario,
+  getDueEvents,
+  applyScenarioEvent,
+  formatChartDateTime,
+  matchesTrigger,
+  findTriggeredResponses,
+  applyScenarioResponse,
+} from '../scenarioEngine';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+/** Minimal patient with one existing observation set. */
+function makePatient(overrides: Partial<Patient> = {}): Patient {
+  return {
+    mrn: 'MRN-001',
+    name: 'DOE, JANE',
+    dob: '1990-01-15',
+    age: 36,
+    gender: 'Female',
+    allergies: [],
+    location: 'Ward 3A',
+    attending: 'Dr. Smith',
+    admission: '2026-02-15',
+    medicalHistory: [],
+    vitals: [{ datetime: '01-Mar-2026 07:00', hr: 80 }],
+    fluidBalance: [],
+    medications: [],
+    orders: [],
+    results: {
+      haematology: [],
+      biochemistry: [{ test: 'Lactate', value: '1.1', unit: 'mmol/L', range: '0.5-2.0', flag: '' }],
+      bloodGas: [],
+      coagulation: [],
+      urinalysis: [],
+      cardiac: [],
+    },
+    notes: [],
+    ...overrides,
+  };
+}
+
+const RAW_SCENARIO = {
+  id: 'test-scenario',
+  title: 'Test',
+  patientMrn: 'MRN-001',
+  events: [
+    { id: 'late', offsetMinutes: 20, type: 'vitals', vitals: { hr: 120 } },
+    { offsetMinutes: 0, type: 'vitals', vitals: { hr: 90 } },
+    { id: 'mid-a', offsetMinutes: 10, type: 'vitals', vitals: { hr: 100 } },
+    { id: 'mid-b', offsetMinutes: 10, type: 'vitals', vitals: { hr: 105 } },
+  ],
+};
+
+const START = new Date(2026, 2, 1, 8, 0);
+
+// ---------------------------------------------------------------------------
+// formatChartDateTime
+// ---------------------------------------------------------------------------
+
+describe('formatChartDateTime', () => {
+  it('formats as DD-Mon-YYYY HH:mm', () => {
+    expect(formatChartDateTime(new Date(2026, 0, 5, 9, 7))).toBe('05-Jan-2026 09:07');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// normalizeScenario
+// ---------------------------------------------------------------------------
+
+describe('normalizeScenario', () => {
+  it('sorts events by offset, keeping file order for ties', () => {
+    const scenario = normalizeScenario(RAW_SCENARIO);
+    expect(scenario.events.map((e) => e.id)).toEqual(['event-1', 'mid-a', 'mid-b', 'late']);
+  });
+
+  it('defaults the title to the scenario id', () => {
+    const scenario = normalizeScenario({ ...RAW_SCENARIO, title: undefined });
+    expect(scenario.title).toBe('test-scenario');
+  });
+
+  it('rejects a scenario without a patient MRN', () => {
+    expect(() => normalizeScenario({ id: 'x', events: [] })).toThrow(/patientMrn/);
+  });
+
+  it('rejects unknown event types and negative offsets', () => {
+    expect(() =>
+      normalizeScenario({ ...RAW_SCENARIO, events: [{ offsetMinutes: 0, type: 'explode' }] }),
+    ).toThrow(/unknown type/);
+    expect(() =>
+      normalizeScenario({ ...RAW_SCENARIO, events: [{ offsetMinutes: -5, type: 'vitals' }] }),
+    ).toThrow(/offsetMinutes/);
+  });
+
+  it('validates objectives and defaults their ids', () => {
+    const scenario = normalizeScenario({
+      ...RAW_SCENARIO,
+      objectives: [{ kind: 'order', names: ['Lactate'], withinMinutes: '30' }],
+    });
+    expect(scenario.objectives).toEqual([
+      { id: 'objective-0', kind: 'order', names: ['Lactate'], withinMinutes: 30 },
+    ]);
+
+    expect(() =>
+      normalizeScenario({ ...RAW_SCENARIO, objectives: [{ id: 'x', kind: 'dance' }] }),
+    ).toThrow(/unknown kind/);
+    expect(() =>
+      normalizeScenario({ ...RAW_SCENARIO, objectives: [{ id: 'x', kind: 'order', names: [] }] }),
+    ).toThrow(/names/);
+    expect(() =>
+      normalizeScenario({ ...RAW_SCENARIO, objectives: [{ id: 'x', kind: 'acknowledge-alert' }] }),
+    ).toThrow(/ewsRange/);
+  });
+
+  it('validates planted barcode scanning errors', () => {
+    const scenario = normalizeScenario({
+      ...RAW_SCENARIO,
+      bcma: {
+        wristbandMrn: 'RBWH000111',
+        substitutions: [{ medication: 'Hydroxyzine', name: 'Hydralazine', dose: 25 }],
+      },
+    });
+    expect(scenario.bcma).toEqual({
+      wristbandMrn: 'RBWH000111',
+      substitutions: [{ medication: 'Hydroxyzine', name: 'Hydralazine', dose: '25' }],
+    });
+    expect(normalizeScenario(RAW_SCENARIO).bcma).toBeUndefined();
+
+    expect(() => normalizeScenario({ ...RAW_SCENARIO, bcma: { wristbandMrn: '' } })).toThrow(
+      /wristbandMrn/,
+    );
+    expect(() =>
+      normalizeScenario({ ...RAW_SCENARIO, bcma: { substitutions: [{ medication: 'Hydroxyzine' }] } }),
+    ).toThrow(/substitution 0/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getDueEvents
+// ---------------------------------------------------------------------------
+
+describe('getDueEvents', () => {
+  const scenario = normalizeScenario(RAW_SCENARIO);
+
+  it('returns events whose offset has elapsed', () => {
+    const now = new Date(START.getTime() + 10 * 60_000);
+    const due = getDueEvents(scenario, START, now, []);
+    expect(due.map((d) => d.event.id)).toEqual(['event-1', 'mid-a', 'mid-b']);
+  });
+
+  it('skips events that have already fired', () => {
+    const now = new Date(START.getTime() + 30 * 60_000);
+    const due = getDueEvents(scenario, START, now, ['event-1', 'mid-a']);
+    expect(due.map((d) => d.event.id)).toEqual(['mid-b', 'late']);
+  });
+
+  it('stamps each event with its scheduled time, not the current time', () => {
+    const now = new Date(START.getTime() + 45 * 60_000);
+    const late = getDueEvents(scenario, START, now, []).find((d) => d.event.id === 'late');
+    expect(late?.scheduledAt.getTime()).toBe(START.getTime() + 20 * 60_000);
+  });
+
+  it('returns nothing before the scenario start', () => {
+    const now = new Date(START.getTime() - 60_000);
+    expect(getDueEvents(scenario, START, now, [])).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// applyScenarioEvent
+// ---------------------------------------------------------------------------
+
+describe('applyScenarioEvent', () => {
+  it('prepends vitals stamped with the scheduled time', () => {
+    const patient = makePatient();
+    const update = applyScenarioEvent(
+      patient,
+      { id: 'v', offsetMinutes: 0, type: 'vitals', vitals: { hr: 130, rr: 28 } },
+      START,
+    );
+    expect(update.vitals).toHaveLength(2);
+    expect(update.vitals?.[0]).toEqual({ hr: 130, rr: 28, datetime: '01-Mar-2026 08:00' });
+  });
+
+  it('replaces lab results with the same test name and appends new ones', () => {
+    const patient = makePatient();
+    const update = applyScenarioEvent(
+      patient,
+      {
+        id: 'labs',
+        offsetMinutes: 0,
+        type: 'labResults',
+        category: 'biochemistry',
+        results: [
+          { test: 'Lactate', value: '4.2', unit: 'mmol/L', range: '0.5-2.0', flag: 'H' },
+          { test: 'CRP', value: '180', unit: 'mg/L', range: '<5', flag: 'H' },
+        ],
+      },
+      START,
+    );
+    expect(update.results?.biochemistry.map((r) => `${r.test}=${r.value}`)).toEqual([
+      'Lactate=4.2',
+      'CRP=180',
+    ]);
+    expect(update.results?.haematology).toEqual([]);
+  });
+
+  it('appends notes and orders with generated ids', () => {
+    const patient = makePatient();
+    const noteUpdate = applyScenarioEvent(
+      patient,
+      {
+        id: 'n1',
+        offsetMinutes: 0,
+        type: 'note',
+        note: { type: 'Nursing', title: 'Note', author: 'RN', content: 'Rigors' },
+      },
+      START,
+    );
+    expect(noteUpdate.notes?.[0]).toMatchObject({ id: 'SCN-n1', datetime: '01-Mar-2026 08:00' });
+
+    const orderUpdate = applyScenarioEvent(
+      patient,
+      {
+        id: 'o1',
+        offsetMinutes: 0,
+        type: 'order',
+        order: { type: 'Laboratory', name: 'Urine MCS', status: 'Ordered', priority: 'Routine' },
+      },
+      START,
+    );
+    expect(orderUpdate.orders?.[0]).toMatchObject({ id: 'SCN-o1', ordered: '01-Mar-2026 08:00' });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Branching
+// ---------------------------------------------------------------------------
+
+/** Hypotensive patient charted every 10 minutes, with a fluid response. */
+const RAW_BRANCHING = {
+  id: 'hypotension',
+  patientMrn: 'MRN-001',
+  trajectory: {
+    intervalMinutes: 10,
+    parameters: {
+      bp_sys: { keyframes: [{ offsetMinutes: 0, value: 110 }, { offsetMinutes: 40, value: 70 }] },
+    },
+  },
+  responses: [
+    {
+      id: 'fluids',
+      trigger: { kind: 'medication', name: 'sodium chloride', route: 'IV' },
+      beforeMinutes: 30,
+      parameters: { bp_sys: { keyframes: [{ offsetMinutes: 20, value: 115 }] } },
+      cancelEvents: ['note-shock'],
+      events: [
+        {
+          id: 'better',
+          offsetMinutes: 5,
+          type: 'note',
+          note: { type: 'Nursing', title: 'Note', author: 'RN', content: 'Perfusing better' },
+        },
+      ],
+    },
+  ],
+  events: [
+    {
+      id: 'note-shock',
+      offsetMinutes: 35,
+      type: 'note',
+      note: { type: 'Nursing', title: 'Note', author: 'RN', content: 'Mottled peripheries' },
+    },
+  ],
+};
+
+const FLUIDS = {
+  kind: 'medication' as const,
+  patientMrn: 'MRN-001',
+  name: 'Sodium Chloride 0.9% 1000 mL',
+  route: 'iv',
+};
+
+describe('matchesTrigger', () => {
+  it('matches names case-insensitively as a substring', () => {
+    expect(matchesTrigger({ kind: 'medication', name: 'sodium chloride' }, FLUIDS)).toBe(true);
+    expect(matchesTrigger({ kind: 'medication', name: 'naloxone' }, FLUIDS)).toBe(false);
+  });
+
+  it('requires the route and order type when the trigger sets them', () => {
+    expect(matchesTrigger({ kind: 'medication', name: 'sodium', route: 'Oral' }, FLUIDS)).toBe(false);
+    const order = { kind: 'order' as const, patientMrn: 'MRN-001', name: 'Oxygen via NP', type: 'Nursing' as const };
+    expect(matchesTrigger({ kind: 'order', name: 'oxygen', type: 'Nursing' }, order)).toBe(true);
+    expect(matchesTrigger({ kind: 'order', name: 'oxygen', type: 'Medication' }, order)).toBe(false);
+    expect(matchesTrigger({ kind: 'medication', name: 'oxygen' }, order)).toBe(false);
+  });
+
+  it('fires an oxygen trigger when the flow rate goes up', () => {
+    const oxygen = { kind: 'oxygen' as const, patientMrn: 'MRN-001', flowRate: 6, previousFlowRate: 2 };
+    expect(matchesTrigger({ kind: 'oxygen' }, oxygen)).toBe(true);
+    expect(matchesTrigger({ kind: 'oxygen', minFlowRate: 6 }, oxygen)).toBe(true);
+    expect(matchesTrigger({ kind: 'oxygen', minFlowRate: 10 }, oxygen)).toBe(false);
+    expect(matchesTrigger({ kind: 'oxygen' }, { ...oxygen, flowRate: 2 })).toBe(false);
+    expect(matchesTrigger({ kind: 'oxygen' }, { ...oxygen, flowRate: 1 })).toBe(false);
+    expect(matchesTrigger({ kind: 'order', name: 'oxygen' }, oxygen)).toBe(false);
+    expect(matchesTrigger({ kind: 'oxygen' }, FLUIDS)).toBe(false);
+  });
+});
+
+describe('findTriggeredResponses', () => {
+  const scenario = normalizeScenario(RAW_BRANCHING);
+
+  it('fires within the response window only', () => {
+    expect(findTriggeredResponses(scenario, FLUIDS, 10, []).map((r) => r.id)).toEqual(['fluids']);
+    expect(findTriggeredResponses(scenario, FLUIDS, 31, [])).toEqual([]);
+  });
+
+  it('does not fire twice unless repeatable, or for another patient', () => {
+    expect(findTriggeredResponses(scenario, FLUIDS, 10, ['fluids'])).toEqual([]);
+    expect(findTriggeredResponses(scenario, { ...FLUIDS, patientMrn: 'OTHER' }, 10, [])).toEqual([]);
+  });
+
+  it('reads an oxygen trigger and rejects an invalid minimum flow', () => {
+    const response = { ...RAW_BRANCHING.responses[0], trigger: { kind: 'oxygen', minFlowRate: '6' } };
+    const scenario = normalizeScenario({ ...RAW_BRANCHING, responses: [response] });
+    expect(scenario.responses?.[0].trigger).toEqual({ kind: 'oxygen', minFlowRate: 6 });
+
+    const invalid = { ...response, trigger: { kind: 'oxygen', minFlowRate: 'lots' } };
+    expect(() => normalizeScenario({ ...RAW_BRANCHING, responses: [invalid] })).toThrow(/minFlowRate/);
+  });
+
+  it('rejects vitals changes in a scenario without a trajectory', () => {
+    expect(() => normalizeScenario({ ...RAW_BRANCHING, trajectory: undefined })).toThrow(
+      /no trajectory/,
+    );
+  });
+});
+
+describe('applyScenarioResponse', () => {
+  const scenario = normalizeScenario(RAW_BRANCHING);
+  const [fluids] = scenario.responses ?? [];
+  const branched = applyScenarioResponse(scenario, fluids, 10, ['trajectory-0', 'trajectory-10']);
+  const bpAt = (id: string) => {
+    const event = branched.events.find((e) => e.id === id);
+    return event?.type === 'vitals' ? event.vitals.bp_sys : undefined;
+  };
+
+  it('keeps fired obs and moves pending obs from the current value', () => {
+    expect(bpAt('trajectory-10')).toBe(100);
+    expect(bpAt('trajectory-20')).toBe(108);
+    expect(bpAt('trajectory-30')).toBe(115);
+    expect(bpAt('trajectory-40')).toBe(115);
+  });
+
+  it('cancels pending events and schedules the response events relative to the trigger', () => {
+    const ids = branched.events.map((e) => e.id);
+    expect(ids).not.toContain('note-shock');
+    const note = branched.events.find((e) => e.id === 'fluids:better');
+    expect(note?.offsetMinutes).toBe(15);
+  });
+
+  it('does not cancel events that have already fired', () => {
+    const late = applyScenarioResponse(scenario, fluids, 10, ['note-shock']);
+    expect(late.events.map((e) => e.id)).toContain('note-shock');
+  });
+});
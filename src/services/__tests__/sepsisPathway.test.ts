@@ -0,0 +1,279 @@
+import { describe, it, expect } from 'vitest'
+import {
+  SEPSIS_BUNDLE_MINUTES,
+  evaluateSepsisBundle,
+  getLatestLactate,
+  getObservedRedFlags,
+  getSepsisCriteria,
+  isScreenPositive,
+} from '@/services/sepsisPathway'
+import { evaluateAlerts } from '@/services/alertEngine'
+import type { LabResults, Patient, VitalSign } from '@/types/patient'
+import type { LearnerAction, LearnerActionPayloads, LearnerActionType } from '@/types/actionLog'
+import type { SepsisBundle } from '@/types/sepsis'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const MRN = 'MRN-001'
+const START = new Date(2026, 2, 1, 8, 0)
+
+/** Sim time `minutes` after START, as ISO */
+function at(minutes: number): string {
+  return new Date(START.getTime() + minutes * 60_000).toISOString()
+}
+
+function action<T extends LearnerActionType>(
+  minutes: number,
+  type: T,
+  payload: LearnerActionPayloads[T],
+  patientMrn: string = MRN,
+): LearnerAction {
+  return { sessionId: 'test', type, payload, patientMrn, wallTime: at(minutes), simTime: at(minutes) } as LearnerAction
+}
+
+function ordered(minutes: number, orderId: string, name: string): LearnerAction {
+  return action(minutes, 'order/placed', { orderId, name, type: 'Laboratory', priority: 'STAT' })
+}
+
+function given(
+  minutes: number,
+  medicationName: string,
+  status: 'GIVEN' | 'HELD' = 'GIVEN',
+  route = 'IV',
+): LearnerAction {
+  return action(minutes, 'mar/administered', {
+    medicationName,
+    route,
+    scheduledTime: '08:00',
+    status,
+    nurse: 'RN Test',
+  })
+}
+
+function emptyResults(overrides: Partial<LabResults> = {}): LabResults {
+  return { haematology: [], biochemistry: [], bloodGas: [], coagulation: [], urinalysis: [], cardiac: [], ...overrides }
+}
+
+function makePatient(overrides: Partial<Patient> = {}): Patient {
+  return {
+    mrn: MRN,
+    name: 'DOE, JANE',
+    dob: '1990-01-15',
+    age: 36,
+    gender: 'Female',
+    allergies: [],
+    location: 'Ward 3A',
+    attending: 'Dr. Smith',
+    admission: '2026-02-15',
+    medicalHistory: [],
+    vitals: [],
+    fluidBalance: [],
+    medications: [],
+    orders: [],
+    results: emptyResults(),
+    notes: [],
+    ...overrides,
+  }
+}
+
+/** A normal adult obs set; override individual fields as needed */
+function vitals(overrides: Partial<VitalSign> = {}): VitalSign {
+  return {
+    datetime: '01-Mar-2026 08:00',
+    temp: '37.0',
+    hr: '80',
+    rr: '16',
+    bp_sys: '125',
+    bp_dia: '75',
+    spo2: '97',
+    avpu: 'Alert',
+    o2FlowRate: '0',
+    ...overrides,
+  }
+}
+
+const BUNDLE: SepsisBundle = { bundleId: 'b1', patientMrn: MRN, screenId: 's1', startedAt: at(0) }
+
+// ---------------------------------------------------------------------------
+// Screening criteria
+// ---------------------------------------------------------------------------
+describe('getSepsisCriteria', () => {
+  it('Normal obs meet no criteria', () => {
+    expect(getSepsisCriteria(vitals())).toEqual([])
+  })
+
+  it('Scores each vital sign criterion at its boundary', () => {
+    const ids = (v: Partial<VitalSign>) => getSepsisCriteria(vitals(v)).map((c) => c.id)
+    expect(ids({ rr: '25' })).toEqual(['rr'])
+    expect(ids({ rr: '24' })).toEqual([])
+    expect(ids({ hr: '130' })).toEqual(['heartRate'])
+    expect(ids({ bp_sys: '89' })).toEqual(['systolicBP'])
+    expect(ids({ bp_sys: '90' })).toEqual([])
+    expect(ids({ temp: '38.5' })).toEqual(['temperature'])
+    expect(ids({ temp: '35.4' })).toEqual(['temperature'])
+    expect(ids({ spo2: '91', supplementalO2: true })).toEqual(['spo2'])
+    expect(ids({ spo2: '91' })).toEqual([])
+  })
+
+  it('Counts a lactate of 2 or more', () => {
+    expect(getSepsisCriteria(vitals(), 2.0)).toEqual([{ id: 'lactate', label: 'Lactate ≥ 2', value: '2' }])
+    expect(getSepsisCriteria(vitals(), 1.9)).toEqual([])
+  })
+
+  it('Ignores parameters not charted', () => {
+    expect(getSepsisCriteria(vitals({ bp_sys: '', temp: undefined }))).toEqual([])
+  })
+
+  it('Drives the sepsis prompt on the Discern alert', () => {
+    const alerts = evaluateAlerts(vitals({ rr: '26', hr: '131', temp: '38.9' }), 'SW150')
+    expect(alerts[0].showSepsisPrompt).toBe(true)
+  })
+})
+
+describe('getLatestLactate', () => {
+  it('Reads lactate from biochemistry', () => {
+    const results = emptyResults({
+      biochemistry: [{ test: 'Lactate', value: '4.2', unit: 'mmol/L', range: '0.5-2.0', flag: 'H' }],
+    })
+    expect(getLatestLactate(results)).toBe(4.2)
+  })
+
+  it('Falls back to the blood gas lactate', () => {
+    const results = emptyResults({ bloodGas: [{ test: 'Lactate (VBG)', value: '3.1', unit: 'mmol/L' }] })
+    expect(getLatestLactate(results)).toBe(3.1)
+  })
+
+  it('Skips a lactate dehydrogenase', () => {
+    const results = emptyResults({
+      biochemistry: [
+        { test: 'Lactate Dehydrogenase', value: '310', unit: 'U/L' },
+        { test: 'Lactate', value: '2.6', unit: 'mmol/L' },
+      ],
+    })
+    expect(getLatestLactate(results)).toBe(2.6)
+  })
+
+  it('Returns null when no lactate has resulted', () => {
+    expect(getLatestLactate(emptyResults())).toBeNull()
+    expect(getLatestLactate(emptyResults({ biochemistry: [{ test: 'Lactate', value: 'Pending', unit: '' }] }))).toBeNull()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Structured screen
+// ---------------------------------------------------------------------------
+describe('Structured screen', () => {
+  it('Pre-ticks the red flags the obs and lactate show', () => {
+    const flags = getObservedRedFlags(vitals({ avpu: 'V', bp_sys: '85', o2FlowRate: '4' }), 4.5)
+    expect(flags).toEqual(['consciousness', 'systolicBP', 'oxygen', 'lactate'])
+    expect(getObservedRedFlags(vitals())).toEqual([])
+  })
+
+  it('Is positive with suspected infection and any red flag', () => {
+    expect(isScreenPositive('URINARY', ['systolicBP'])).toBe(true)
+    expect(isScreenPositive('UNKNOWN', ['rash'])).toBe(true)
+    expect(isScreenPositive('URINARY', [])).toBe(false)
+    expect(isScreenPositive('NONE', ['systolicBP'])).toBe(false)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Bundle
+// ---------------------------------------------------------------------------
+describe('evaluateSepsisBundle', () => {
+  it('Starts with every element outstanding and a 60-minute clock', () => {
+    const progress = evaluateSepsisBundle({ bundle: BUNDLE, patient: makePatient(), actions: [], now: new Date(at(15)) })
+    expect(progress.elements.map((e) => e.completedAt)).toEqual([null, null, null, null])
+    expect(progress.dueAt).toBe(at(SEPSIS_BUNDLE_MINUTES))
+    expect(progress.minutesRemaining).toBe(45)
+    expect(progress.complete).toBe(false)
+    expect(progress.overdue).toBe(false)
+  })
+
+  it('Ticks off cultures and lactate from orders, antibiotics and fluids from the MAR', () => {
+    const actions = [
+      ordered(5, 'O1', 'Blood Culture'),
+      ordered(6, 'O2', 'Lactate'),
+      given(20, 'piperacillin-tazobactam'),
+      given(25, 'sodium chloride 0.9% 500 mL bolus'),
+    ]
+    const progress = evaluateSepsisBundle({ bundle: BUNDLE, patient: makePatient(), actions, now: new Date(at(30)) })
+    expect(progress.elements.map((e) => [e.id, e.completedAt, e.source])).toEqual([
+      ['bloodCultures', at(5), 'order'],
+      ['lactate', at(6), 'order'],
+      ['antibiotics', at(20), 'mar'],
+      ['fluidBolus', at(25), 'mar'],
+    ])
+    expect(progress.complete).toBe(true)
+  })
+
+  it('Counts antibiotics and fluids ordered as well as given', () => {
+    const actions = [ordered(10, 'O1', 'Ceftriaxone 2 g IV'), ordered(12, 'O2', 'Hartmann\'s 1 L bolus')]
+    const progress = evaluateSepsisBundle({ bundle: BUNDLE, patient: makePatient(), actions, now: new Date(at(30)) })
+    expect(progress.elements.find((e) => e.id === 'antibiotics')?.detail).toBe('Ceftriaxone 2 g IV')
+    expect(progress.elements.find((e) => e.id === 'fluidBolus')?.completedAt).toBe(at(12))
+  })
+
+  it('Does not count a compound sodium lactate bolus as a lactate', () => {
+    const actions = [ordered(10, 'O1', 'Compound sodium lactate 500 mL bolus')]
+    const progress = evaluateSepsisBundle({ bundle: BUNDLE, patient: makePatient(), actions, now: new Date(at(30)) })
+    expect(progress.elements.find((e) => e.id === 'lactate')?.completedAt).toBeNull()
+    expect(progress.elements.find((e) => e.id === 'fluidBolus')?.completedAt).toBe(at(10))
+  })
+
+  it('Counts only IV antibiotics', () => {
+    const actions = [
+      given(10, 'amoxicillin', 'GIVEN', 'PO'),
+      ordered(12, 'O1', 'Ciprofloxacin 500 mg PO'),
+    ]
+    const progress = evaluateSepsisBundle({ bundle: BUNDLE, patient: makePatient(), actions, now: new Date(at(30)) })
+    expect(progress.elements.find((e) => e.id === 'antibiotics')?.completedAt).toBeNull()
+  })
+
+  it('Counts only a crystalloid as the fluid bolus', () => {
+    const actions = [given(10, 'albumin 4% 250 mL bolus'), given(15, 'glucose 5% 1 L'), given(20, 'Plasmalyte 148 500 mL')]
+    const progress = evaluateSepsisBundle({ bundle: BUNDLE, patient: makePatient(), actions, now: new Date(at(30)) })
+    expect(progress.elements.find((e) => e.id === 'fluidBolus')).toMatchObject({
+      completedAt: at(20),
+      detail: 'Plasmalyte 148 500 mL',
+    })
+  })
+
+  it('Does not count a lactate dehydrogenase as a lactate', () => {
+    const actions = [ordered(10, 'O1', 'Lactate Dehydrogenase (LDH)')]
+    const progress = evaluateSepsisBundle({ bundle: BUNDLE, patient: makePatient(), actions, now: new Date(at(30)) })
+    expect(progress.elements.find((e) => e.id === 'lactate')?.completedAt).toBeNull()
+  })
+
+  it('Ignores held doses, cancelled orders and other patients', () => {
+    const patient = makePatient({
+      orders: [
+        { id: 'O1', type: 'Laboratory', name: 'Blood Culture', status: 'Cancelled', ordered: at(5), priority: 'STAT' },
+      ],
+    })
+    const actions = [
+      ordered(5, 'O1', 'Blood Culture'),
+      given(10, 'vancomycin', 'HELD'),
+      action(12, 'order/placed', { orderId: 'X', name: 'Lactate', type: 'Laboratory', priority: 'STAT' }, 'OTHER'),
+    ]
+    const progress = evaluateSepsisBundle({ bundle: BUNDLE, patient, actions, now: new Date(at(30)) })
+    expect(progress.elements.every((e) => e.completedAt === null)).toBe(true)
+  })
+
+  it('Counts treatment started in the hour before the screen', () => {
+    const actions = [ordered(-30, 'O1', 'Blood Culture'), ordered(-90, 'O2', 'Lactate')]
+    const progress = evaluateSepsisBundle({ bundle: BUNDLE, patient: makePatient(), actions, now: new Date(at(10)) })
+    expect(progress.elements[0].completedAt).toBe(at(-30))
+    expect(progress.elements[1].completedAt).toBeNull()
+  })
+
+  it('Is overdue after 60 minutes and marks late elements', () => {
+    const actions = [ordered(70, 'O1', 'Blood Culture')]
+    const progress = evaluateSepsisBundle({ bundle: BUNDLE, patient: makePatient(), actions, now: new Date(at(75)) })
+    expect(progress.overdue).toBe(true)
+    expect(progress.minutesRemaining).toBe(-15)
+    expect(progress.elements[0].late).toBe(true)
+  })
+})
@@ -0,0 +1,194 @@
+/**
+ * @file trajectoryGenerator.test.ts
+ * @description Unit tests for keyframe physiology trajectories.
+ *
+ * Covers curve interpolation, keyframe sampling, seeded jitter, expansion
+ * at the charting interval, and merging of generated obs into a
+ * scenario's event timeline.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  interpolate,
+  sampleKeyframes,
+  sampleTrajectory,
+  generateTrajectory,
+  normalizeTrajectory,
+} from '../trajectoryGenerator';
+import { normalizeScenario } from '../scenarioEngine';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const HR_KEYFRAMES = [
+  { offsetMinutes: 0, value: 88 },
+  { offsetMinutes: 30, value: 128 },
+];
+
+/** Raw trajectory JSON: HR and RR climbing over 30 minutes, obs every 10. */
+const RAW_TRAJECTORY = {
+  intervalMinutes: 10,
+  parameters: {
+    hr: { keyframes: HR_KEYFRAMES },
+    rr: { keyframes: [{ offsetMinutes: 30, value: 30 }, { offsetMinutes: 0, value: 16 }] },
+  },
+  avpu: [
+    { offsetMinutes: 0, value: 'Alert' },
+    { offsetMinutes: 20, value: 'Voice' },
+  ],
+};
+
+// ---------------------------------------------------------------------------
+// Interpolation
+// ---------------------------------------------------------------------------
+
+describe('interpolate', () => {
+  it('interpolates linearly', () => {
+    expect(interpolate(88, 128, 0.5, 'linear')).toBe(108);
+  });
+
+  it('holds the start value until the end of a step', () => {
+    expect(interpolate(88, 128, 0.99, 'step')).toBe(88);
+    expect(interpolate(88, 128, 1, 'step')).toBe(128);
+  });
+
+  it('rises slowly then accelerates on an exponential curve', () => {
+    const mid = interpolate(88, 128, 0.5, 'exponential');
+    expect(mid).toBeGreaterThan(88);
+    expect(mid).toBeLessThan(108);
+    expect(interpolate(88, 128, 1, 'exponential')).toBeCloseTo(128);
+  });
+});
+
+describe('sampleKeyframes', () => {
+  it('holds the first and last keyframe outside their range', () => {
+    const frames = [{ offsetMinutes: 10, value: 90 }, { offsetMinutes: 20, value: 110 }];
+    expect(sampleKeyframes(frames, 0)).toBe(90);
+    expect(sampleKeyframes(frames, 60)).toBe(110);
+  });
+
+  it('interpolates within the segment containing the offset', () => {
+    const frames = [
+      { offsetMinutes: 0, value: 100 },
+      { offsetMinutes: 10, value: 120 },
+      { offsetMinutes: 20, value: 80 },
+    ];
+    expect(sampleKeyframes(frames, 15)).toBe(100);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+describe('normalizeTrajectory', () => {
+  it('sorts keyframes by offset', () => {
+    const trajectory = normalizeTrajectory(RAW_TRAJECTORY);
+    expect(trajectory.parameters.rr?.keyframes.map((k) => k.value)).toEqual([16, 30]);
+  });
+
+  it('rejects a non-positive interval', () => {
+    expect(() => normalizeTrajectory({ ...RAW_TRAJECTORY, intervalMinutes: 0 })).toThrow(
+      /intervalMinutes/,
+    );
+  });
+
+  it('rejects unknown curves and empty keyframe lists', () => {
+    expect(() =>
+      normalizeTrajectory({ intervalMinutes: 5, parameters: { hr: { keyframes: HR_KEYFRAMES, curve: 'sine' } } }),
+    ).toThrow(/unknown curve/);
+    expect(() =>
+      normalizeTrajectory({ intervalMinutes: 5, parameters: { hr: { keyframes: [] } } }),
+    ).toThrow(/at least one keyframe/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Sampling & generation
+// ---------------------------------------------------------------------------
+
+describe('sampleTrajectory', () => {
+  it('rounds temperature to one decimal and other parameters to integers', () => {
+    const trajectory = normalizeTrajectory({
+      intervalMinutes: 5,
+      parameters: {
+        temp: { keyframes: [{ offsetMinutes: 0, value: 37 }, { offsetMinutes: 30, value: 39 }] },
+        hr: { keyframes: [{ offsetMinutes: 0, value: 88 }, { offsetMinutes: 30, value: 89 }] },
+      },
+    });
+    expect(sampleTrajectory(trajectory, 10)).toEqual({ temp: 37.7, hr: 88 });
+  });
+
+  it('applies jitter reproducibly for the same seed', () => {
+    const trajectory = normalizeTrajectory({
+      intervalMinutes: 5,
+      seed: 7,
+      parameters: { hr: { keyframes: HR_KEYFRAMES, jitter: 5 } },
+    });
+    const a = sampleTrajectory(trajectory, 15);
+    const b = sampleTrajectory(trajectory, 15);
+    expect(a).toEqual(b);
+    expect(Number(a.hr)).toBeGreaterThanOrEqual(103);
+    expect(Number(a.hr)).toBeLessThanOrEqual(113);
+  });
+
+  it('clamps jittered SpO2 at 100%', () => {
+    const trajectory = normalizeTrajectory({
+      intervalMinutes: 5,
+      parameters: { spo2: { keyframes: [{ offsetMinutes: 0, value: 100 }], jitter: 3 } },
+    });
+    for (let offset = 0; offset < 60; offset += 5) {
+      expect(Number(sampleTrajectory(trajectory, offset).spo2)).toBeLessThanOrEqual(100);
+    }
+  });
+
+  it('sets supplementalO2 from the generated flow rate', () => {
+    const trajectory = normalizeTrajectory({
+      intervalMinutes: 5,
+      parameters: {
+        o2FlowRate: { keyframes: [{ offsetMinutes: 0, value: 0 }, { offsetMinutes: 10, value: 4 }], curve: 'step' },
+      },
+    });
+    expect(sampleTrajectory(trajectory, 5)).toMatchObject({ o2FlowRate: 0, supplementalO2: false });
+    expect(sampleTrajectory(trajectory, 10)).toMatchObject({ o2FlowRate: 4, supplementalO2: true });
+  });
+});
+
+describe('generateTrajectory', () => {
+  it('charts obs at each interval up to the last keyframe', () => {
+    const samples = generateTrajectory(normalizeTrajectory(RAW_TRAJECTORY));
+    expect(samples.map((s) => s.offsetMinutes)).toEqual([0, 10, 20, 30]);
+    expect(samples.map((s) => s.vitals.hr)).toEqual([88, 101, 115, 128]);
+    expect(samples.map((s) => s.vitals.avpu)).toEqual(['Alert', 'Alert', 'Voice', 'Voice']);
+  });
+
+  it('honours explicit start and end offsets', () => {
+    const samples = generateTrajectory(
+      normalizeTrajectory({ ...RAW_TRAJECTORY, startOffsetMinutes: 5, endOffsetMinutes: 45 }),
+    );
+    expect(samples.map((s) => s.offsetMinutes)).toEqual([5, 15, 25, 35, 45]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Scenario integration
+// ---------------------------------------------------------------------------
+
+describe('normalizeScenario with a trajectory', () => {
+  it('expands the trajectory into vitals events, letting scripted obs win', () => {
+    const scenario = normalizeScenario({
+      id: 'traj',
+      patientMrn: 'MRN-001',
+      trajectory: RAW_TRAJECTORY,
+      events: [{ id: 'manual', offsetMinutes: 10, type: 'vitals', vitals: { hr: 150 } }],
+    });
+    expect(scenario.events.map((e) => e.id)).toEqual([
+      'trajectory-0',
+      'manual',
+      'trajectory-20',
+      'trajectory-30',
+    ]);
+    expect(scenario.trajectory?.intervalMinutes).toBe(10);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * @file wardCensus.test.ts
+ * @description Unit tests for the ward census summary.
+ *
+ * Covers latest Q-ADDS and risk, doses due and overdue, unsigned orders,
+ * active MET-MEO plans per patient, and ordering by location.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildWardCensus, type CensusInput } from '../wardCensus';
+import type {
+  LearnerAction,
+  LearnerActionPayloads,
+  LearnerActionType,
+  Medication,
+  Order,
+  Patient,
+} from '../../types';
+import type { MetMeoOrder } from '../../types/meo';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const NOW = new Date(2026, 2, 1, 10, 0);
+
+/** Sim time `minutes` relative to NOW, as ISO. */
+function at(minutes: number): string {
+  return new Date(NOW.getTime() + minutes * 60_000).toISOString();
+}
+
+function action<T extends LearnerActionType>(
+  patientMrn: string,
+  minutes: number,
+  type: T,
+  payload: LearnerActionPayloads[T],
+): LearnerAction {
+  return {
+    sessionId: 'test',
+    type,
+    payload,
+    patientMrn,
+    wallTime: at(minutes),
+    simTime: at(minutes),
+  } as LearnerAction;
+}
+
+function makeMedication(name: string, times: string[]): Medication {
+  return {
+    name,
+    dose: { amount: 1, unit: 'g' },
+    route: 'PO',
+    frequency: { code: 'QDS', intervalHours: 6 },
+    scheduled: true,
+    times,
+    startAt: null,
+    stopAt: null,
+    maxPrnDosesPer24h: null,
+    indication: null,
+    administrations: [],
+    status: 'active',
+  };
+}
+
+function makeOrder(id: string, overrides: Partial<Order> = {}): Order {
+  return {
+    id,
+    type: 'Laboratory',
+    name: 'FBC',
+    priority: 'Routine',
+    status: 'Ordered',
+    ordered: '01-Mar-2026 09:00',
+    orderedBy: 'Dr Test',
+    ...overrides,
+  } as Order;
+}
+
+function makePatient(mrn: string, overrides: Partial<Patient> = {}): Patient {
+  return {
+    mrn,
+    name: `PATIENT, ${mrn}`,
+    dob: '1990-01-15',
+    age: 36,
+    gender: 'Female',
+    allergies: [],
+    location: 'Ward 3A, Bed 1',
+    attending: 'Dr. Smith',
+    admission: '2026-02-15',
+    medicalHistory: [],
+    vitals: [],
+    fluidBalance: [],
+    medications: [],
+    orders: [],
+    results: {
+      haematology: [],
+      biochemistry: [],
+      bloodGas: [],
+      coagulation: [],
+      urinalysis: [],
+      cardiac: [],
+    },
+    notes: [],
+    ...overrides,
+  };
+}
+
+function makeMetMeo(patientMrn: string, orderId: string, overrides: Partial<MetMeoOrder> = {}): MetMeoOrder {
+  return {
+    orderId,
+    patientMrn,
+    orderType: 'MET_MEO_PLAN',
+    triggerType: 'E_ZONE',
+    eZoneVitalSign: 'rr',
+    eZoneLowerBound: 8,
+    eZoneUpperBound: 36,
+    eZoneCavpuLevel: null,
+    rationale: 'Known chronic tachypnoea',
+    durationHours: 12,
+    authorisingClinicianName: 'Dr Reg',
+    authorisingClinicianRole: 'REGISTRAR',
+    signedAt: at(-60),
+    expiresAt: at(11 * 60),
+    cancelledAt: null,
+    status: 'ACTIVE',
+    ...overrides,
+  };
+}
+
+function census(overrides: Partial<CensusInput>) {
+  return buildWardCensus({ patients: [], actions: [], metMeoOrders: {}, now: NOW, ...overrides });
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('buildWardCensus', () => {
+  it('scores the latest obs set and orders rows by location', () => {
+    const rows = census({
+      patients: [
+        makePatient('B', {
+          location: 'Ward 3A, Bed 10',
+          vitals: [
+            { datetime: '01-Mar-2026 09:00', rr: 36, spo2: 90, bp_sys: 85, bp_dia: 50, hr: 135, temp: 39, avpu: 'Alert' },
+            { datetime: '01-Mar-2026 08:00', rr: 16, spo2: 97, bp_sys: 125, bp_dia: 80, hr: 78, temp: 37, avpu: 'Alert' },
+          ],
+        }),
+        makePatient('A', { location: 'Ward 3A, Bed 2' }),
+      ],
+    });
+
+    expect(rows.map((r) => r.mrn)).toEqual(['A', 'B']);
+    expect(rows[0]).toMatchObject({ ewsScore: null, risk: null, hasEZone: false, lastObsAt: null });
+    expect(rows[1]).toMatchObject({
+      ewsScore: 14,
+      risk: 'Emergency',
+      hasEZone: true,
+      lastObsAt: '01-Mar-2026 09:00',
+    });
+  });
+
+  it('counts doses due now and overdue today, skipping those actioned', () => {
+    const patient = makePatient('A', {
+      medications: [
+        makeMedication('Paracetamol', ['0600', '1000', '1400']), // 06:00 overdue, 10:00 due
+        makeMedication('Metoprolol', ['0800', '1030']), // 08:00 given, 10:30 due
+        makeMedication('Insulin', ['1200']), // not yet due
+      ],
+    });
+    const [row] = census({
+      patients: [patient],
+      actions: [
+        action('A', -110, 'mar/administered', {
+          medicationName: 'Metoprolol',
+          route: 'Oral',
+          scheduledTime: '08:00',
+          status: 'GIVEN',
+          nurse: 'RN Test',
+        }),
+        // Another patient's action does not count.
+        action('B', -5, 'mar/administered', {
+          medicationName: 'Paracetamol',
+          route: 'Oral',
+          scheduledTime: '10:00',
+          status: 'GIVEN',
+          nurse: 'RN Test',
+        }),
+      ],
+    });
+
+    expect(row).toMatchObject({ medsDue: 2, medsOverdue: 1 });
+  });
+
+  it('counts orders not yet signed', () => {
+    const [row] = census({
+      patients: [
+        makePatient('A', {
+          orders: [
+            makeOrder('1'),
+            makeOrder('2', { status: 'Signed', signed: '01-Mar-2026 09:05' }),
+            makeOrder('3', { status: 'Cancelled' }),
+          ],
+        }),
+      ],
+    });
+    expect(row.unsignedOrders).toBe(1);
+  });
+
+  it("counts each patient's MET-MEO plans still in force", () => {
+    const rows = census({
+      patients: [
+        makePatient('A', { location: 'Bed 1' }),
+        makePatient('B', { location: 'Bed 2' }),
+        makePatient('C', { location: 'Bed 3' }),
+      ],
+      metMeoOrders: {
+        A: [makeMetMeo('A', 'M1'), makeMetMeo('A', 'M2', { status: 'CANCELLED', cancelledAt: at(-10) })],
+        B: [makeMetMeo('B', 'M3', { expiresAt: at(-1) })],
+      },
+    });
+
+    expect(rows.map((r) => r.activeMetMeoPlans)).toEqual([1, 0, 0]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * @file actionLog.ts
+ * @description Typed event bus for learner actions.
+ *
+ * Components publish a {@link LearnerAction} whenever the learner does
+ * something clinically meaningful; subscribers (the IndexedDB writer, the
+ * debrief) receive each action as it happens. The bus also keeps the
+ * current session's actions in memory so they can be read back without
+ * waiting on IndexedDB. On reload the actions recorded before it are put
+ * back from the audit trail (see `hydrateStores`).
+ *
+ * Store access (simulation clock, current patient) lives in
+ * `hooks/useActionLog.ts`; this module is plain data plumbing.
+ */
+
+import type { LearnerAction } from '../types/actionLog';
+
+// ---------------------------------------------------------------------------
+// Session
+// ---------------------------------------------------------------------------
+
+/** Identifier of this browser session, shared by every action it records. */
+export const SESSION_ID: string =
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `session-${Date.now()}`;
+
+// ---------------------------------------------------------------------------
+// Bus
+// ---------------------------------------------------------------------------
+
+type ActionListener = (action: LearnerAction) => void;
+
+const listeners = new Set<ActionListener>();
+
+let sessionActions: LearnerAction[] = [];
+
+/**
+ * Record an action and deliver it to every subscriber. A listener that
+ * throws is reported and skipped so it cannot block the others.
+ *
+ * @param action - The fully stamped action.
+ */
+export function publishAction(action: LearnerAction): void {
+  sessionActions = [...sessionActions, action];
+  for (const listener of listeners) {
+    try {
+      listener(action);
+    } catch (err) {
+      console.error('[actionLog] Listener failed:', err);
+    }
+  }
+}
+
+/**
+ * Listen for actions published from now on.
+ *
+ * @returns A function that removes the listener.
+ */
+export function subscribeActions(listener: ActionListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Actions published during this session, oldest first. */
+export function getSessionActions(): readonly LearnerAction[] {
+  return sessionActions;
+}
+
+/**
+ * Put back actions recorded before a reload, ahead of any published since.
+ * Subscribers are not notified; they read the actions when they mount.
+ *
+ * @param actions - Earlier actions, oldest first.
+ */
+export function restoreSessionActions(actions: readonly LearnerAction[]): void {
+  sessionActions = [...actions, ...sessionActions];
+}
+
+/** Forget the in-memory session actions (e.g. when a scenario restarts). */
+export function clearSessionActions(): void {
+  sessionActions = [];
+}
@@ -10,23 +10,53 @@
  *   - EW Score >=8   : MET Call Criteria Met (purple)
  *   - E zone trigger : MET Call Criteria Met (purple)
  *   - Nurse concern  : Staff concern escalation
+ *   - Trend          : Deteriorating trend below the score bands
+ *   - Overdue obs    : Next set of observations not charted when due
  *
  * Each alert includes deteriorating/stable actions, deteriorating criteria,
- * and an optional sepsis screening prompt per Queensland Health protocol.
+ * and an optional sepsis screening prompt per Queensland Health protocol,
+ * raised when any screening criterion in `sepsisPathway` is met. Given the
+ * observation history, the deteriorating criteria list the trends in
+ * `observationTrends` the latest set meets instead of the standard wording.
+ *
+ * On a NEWS2 chart the same alert tiers carry the RCP NEWS2 response
+ * instead: 1-4, 3 in a single parameter, 5-6 and 7 or more.
+ *
+ * Tiers that call for a medical review within a set time (EW Score 4-5 and
+ * 6-7, staff concern) carry a response deadline on the simulation clock.
+ * If no review is documented by then, `escalateAlert` raises the next tier.
+ *
+ * Given the patient's active orders, an active MET-MEO plan holds back MET
+ * call alerts while the set stays within the plan's accepted range, and an
+ * active MOF order holds back EW Score 1-3 alerts for a patient without a
+ * deteriorating trend. Each alert records the observation set that raised
+ * it, so evaluating the same set again does not repeat it.
  */
 
 import type { Patient, VitalSign } from '@/types/patient'
-import type {
-  QADDSResult,
-  QADDSRiskLevel,
-} from '@/types/news'
-import type { ChartVariant, ClinicalRisk, QaddsParameter } from '@/types/vitals'
-import { calculateQadds } from '@/services/qaddsCalculator'
+import type { ChartVariant, ClinicalRisk, QaddsScore, ScoringSystem } from '@/types/vitals'
+import type { EscalationTier } from '@/types/actionLog'
+import type { MetMeoOrder, ModifiedObsFrequencyOrder, NursingAssessment } from '@/types/meo'
+import { calculateQadds, getChartForm, getParameterLabel } from '@/services/qaddsCalculator'
+import { getSepsisCriteria } from '@/services/sepsisPathway'
+import { detectTrends, type ObservationTrend } from '@/services/observationTrends'
+import { parseChartDateTime } from '@/services/scenarioEngine'
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
+/** A clinician review documented against an alert */
+export interface AlertReview {
+  /** Name of the reviewing clinician */
+  reviewedBy: string
+  /** Level of the reviewing clinician */
+  tier: EscalationTier
+  /** Simulation time of the review (ISO) */
+  reviewedAt: string
+  notes: string | null
+}
+
 export interface AlertData {
   /** Unique alert identifier */
   id: string
@@ -43,15 +73,28 @@ export interface AlertData {
   /** Whether the alert has been acknowledged by the user */
   acknowledged: boolean
   /** EWS range that triggered this alert */
-  ewsRange: '1-3' | '4-5' | '6-7' | '>=8' | 'E' | 'nurse-concern'
+  ewsRange: '1-3' | '4-5' | '6-7' | '>=8' | 'E' | 'nurse-concern' | 'trend' | 'overdue-obs'
   /** Actions to take if patient is deteriorating */
   deterioratingActions: string
   /** Actions to take if patient is stable/improving */
   stableActions: string
-  /** The 3 deterioration criteria for classifying patient as deteriorating */
+  /**
+   * Criteria for classifying the patient as deteriorating: the standard 3,
+   * or those the observation trend met when evaluated with history
+   */
   deterioratingCriteria: string[]
   /** Whether to show the sepsis screening prompt */
   showSepsisPrompt: boolean
+  /** Simulation time (ISO) by which a review must be documented, or null if the tier sets none */
+  responseDeadline: string | null
+  /** The review documented against this alert, or null */
+  review: AlertReview | null
+  /** Id of the unreviewed alert this one escalated from, or null */
+  escalatedFrom: string | null
+  /** Id of the alert raised when this one escalated, or null */
+  escalatedTo: string | null
+  /** Charted date-time of the observation set that raised the alert, or null */
+  observationSet: string | null
 }
 
 // Backward-compatible alias for persistence layer
@@ -68,50 +111,6 @@ function createAlertId(): string {
   return `alert-${Date.now()}-${alertCounter}`
 }
 
-/** Human-readable label for a Q-ADDS parameter key. */
-function parameterLabel(param: QaddsParameter): string {
-  const labels: Record<string, string> = {
-    rr: 'Respiratory Rate',
-    spo2: 'SpO2',
-    o2FlowRate: 'O2 Flow Rate',
-    systolicBP: 'Systolic BP',
-    heartRate: 'Heart Rate',
-    temperature: 'Temperature',
-    consciousness: 'Consciousness (AVPU)',
-  }
-  return labels[param] ?? param
-}
-
-/**
- * Check whether any sepsis screening criterion is met.
- *
- * Criteria:
- * - RR >= 25
- * - HR >= 130
- * - SBP < 90
- * - Temperature < 35.5 or > 38.4
- * - SpO2 requires new O2 to stay > 91%
- */
-function checkSepsisCriteria(vitals: VitalSign): boolean {
-  const rr = Number(vitals.rr)
-  const hr = Number(vitals.hr)
-  const sbp = Number(vitals.bp_sys)
-  const temp = Number(vitals.temp)
-  const spo2 = Number(vitals.spo2)
-
-  if (!isNaN(rr) && rr >= 25) return true
-  if (!isNaN(hr) && hr >= 130) return true
-  if (!isNaN(sbp) && sbp < 90) return true
-  if (!isNaN(temp) && (temp < 35.5 || temp > 38.4)) return true
-
-  // SpO2 requires new supplemental O2 to stay above 91%
-  const hasSupplementalO2 =
-    vitals.supplementalO2 === true || vitals.supplementalO2 === 'true'
-  if (!isNaN(spo2) && spo2 <= 91 && hasSupplementalO2) return true
-
-  return false
-}
-
 /** Deterioration criteria for EWS >= 8 (aggregate score trigger). */
 const SCORE_DETERIORATING_CRITERIA: string[] = [
   'Concern patient is worse or not improving',
@@ -126,7 +125,7 @@ const E_ZONE_DETERIORATING_CRITERIA: string[] = [
   'E zone vital sign outside accepted range',
 ]
 
-/** Default deterioration criteria (used for EWS 1-3, 4-5, 6-7). */
+/** Default deterioration criteria (used for EWS 1-3, 4-5, 6-7 and trends). */
 const DEFAULT_DETERIORATING_CRITERIA: string[] = [
   'Concern patient is worse or not improving',
   'NEW contributing vital sign(s)',
@@ -183,6 +182,94 @@ const EWS_RANGE_CONTENT: Record<string, EwsRangeContent> = {
       'Initiate MET call. 10 minutely observations. Registrar to ensure Consultant notified. Registrar and Nurse escort for transfers.',
     stableActions: '\u00BD hourly observations (minimum).',
   },
+  'nurse-concern': {
+    title: 'Staff Member Concern \u2014 Clinical Review Required',
+    risk: 'High',
+    deterioratingActions:
+      'Notify Team Leader. Clinical review required regardless of Q-ADDS score.',
+    stableActions: 'Continue observations as ordered. Document concern.',
+  },
+  trend: {
+    title: 'Deteriorating Trend \u2014 Review Observations',
+    risk: 'Low',
+    deterioratingActions:
+      'Notify Team Leader. Review the observation trend on the Managing Deterioration graph page. 1 hourly observations.',
+    stableActions: 'Continue observations as ordered. Document the trend.',
+  },
+  'overdue-obs': {
+    title: 'Observations Overdue',
+    risk: 'Moderate',
+    deterioratingActions:
+      'Complete a full set of observations now. Notify Team Leader if they cannot be completed.',
+    stableActions: 'Chart observations at the ordered frequency.',
+  },
+}
+
+/**
+ * Alert content on a NEWS2 chart. Keyed by the Q-ADDS range of the matching
+ * response tier, so scenario objectives hold under either system.
+ */
+const NEWS2_RANGE_CONTENT: Partial<Record<AlertData['ewsRange'], EwsRangeContent>> = {
+  '1-3': {
+    title: 'NEWS2 Score 1-4',
+    risk: 'Low',
+    deterioratingActions:
+      'Inform registered nurse, who must assess the patient. Decide whether increased monitoring or escalation is required.',
+    stableActions: '4\u20136 hourly observations (minimum).',
+  },
+  '4-5': {
+    title: 'NEWS2 Red Score \u2014 3 in a Single Parameter',
+    risk: 'Moderate',
+    deterioratingActions:
+      'Registered nurse to inform the medical team caring for the patient, who will review and decide whether escalation of care is necessary.',
+    stableActions: '1 hourly observations (minimum).',
+  },
+  '6-7': {
+    title: 'NEWS2 Score 5-6 \u2014 Urgent Response',
+    risk: 'High',
+    deterioratingActions:
+      'Registered nurse to immediately inform the medical team. Urgent assessment by a clinician competent in the care of acutely ill patients. Provide care in an environment with monitoring facilities.',
+    stableActions: '1 hourly observations (minimum).',
+  },
+  '>=8': {
+    title: 'NEWS2 Score 7+ \u2014 Emergency Response',
+    risk: 'Emergency',
+    deterioratingActions:
+      'Immediately inform the medical team, at least at specialist registrar level. Emergency assessment by a team with critical care competencies. Consider transfer to level 2 or 3 care.',
+    stableActions: 'Continuous monitoring of vital signs.',
+  },
+  'nurse-concern': {
+    title: 'Staff Member Concern \u2014 Clinical Review Required',
+    risk: 'High',
+    deterioratingActions:
+      'Notify Team Leader. Clinical review required regardless of NEWS2 score.',
+    stableActions: 'Continue observations as ordered. Document concern.',
+  },
+}
+
+// ---------------------------------------------------------------------------
+// Escalation ladder
+// ---------------------------------------------------------------------------
+
+/** Review a tier requires, and where it escalates if none is documented in time. */
+export interface EscalationStep {
+  /** Minutes from the alert to the response deadline */
+  minutes: number
+  /** Clinician who should review */
+  reviewer: EscalationTier
+  /** Tier raised when the deadline passes without a review */
+  next: AlertData['ewsRange']
+}
+
+/**
+ * "Notify RMO to review within 30 minutes … If no review after 30 min →
+ * call Registrar", and so on up to a MET call. MET-range alerts call for
+ * the MET team straight away, so the ladder stops below them.
+ */
+const ESCALATION_STEPS: Partial<Record<AlertData['ewsRange'], EscalationStep>> = {
+  '4-5': { minutes: 30, reviewer: 'RMO', next: '6-7' },
+  '6-7': { minutes: 30, reviewer: 'Registrar', next: '>=8' },
+  'nurse-concern': { minutes: 30, reviewer: 'RMO', next: '6-7' },
 }
 
 /** Standard instruction message for all Discern Alerts. */
@@ -193,153 +280,408 @@ const ALERT_INSTRUCTION =
 const ADDITIONAL_CRITERIA_INSTRUCTION =
   'Select Additional Criteria button on Managing Deterioration page for required escalation and observation actions'
 
+/** Aggregate score band for a total Q-ADDS score, or null for a score of 0. */
+function aggregateRange(totalScore: number): AlertData['ewsRange'] | null {
+  if (totalScore >= 8) return '>=8'
+  if (totalScore >= 6) return '6-7'
+  if (totalScore >= 4) return '4-5'
+  if (totalScore >= 1) return '1-3'
+  return null
+}
+
+/** Alert tier for a NEWS2 result, by its clinical risk; null for a score of 0. */
+function news2Range(risk: ClinicalRisk): AlertData['ewsRange'] | null {
+  switch (risk) {
+    case 'Routine':
+      return null
+    case 'Low':
+      return '1-3'
+    case 'Moderate':
+      return '4-5'
+    case 'High':
+      return '6-7'
+    case 'Emergency':
+      return '>=8'
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
 
+/** Response tiers that call for a medical review: EW Score 4-5 and higher. */
+export const ESCALATION_RANGES: ReadonlySet<AlertData['ewsRange']> = new Set(['4-5', '6-7', '>=8'])
+
+/**
+ * Response tier a score falls in on its chart form, or null for a score of
+ * 0: by aggregate score on Q-ADDS and CEWT, by clinical risk on NEWS2. A
+ * score meets MET call criteria when its tier is `>=8`.
+ */
+export function getScoreRange(
+  score: QaddsScore,
+  variant?: ChartVariant,
+): AlertData['ewsRange'] | null {
+  return getChartForm(variant).system === 'news2'
+    ? news2Range(score.clinicalRisk)
+    : aggregateRange(score.totalScore)
+}
+
+/** Optional fields when building an alert with {@link createAlert}. */
+export interface CreateAlertOptions {
+  /** Parameter labels that triggered the alert (E-zone alerts) */
+  parameters?: string[]
+  /** Whether to show the sepsis screening prompt */
+  showSepsisPrompt?: boolean
+  /** Timestamp (epoch ms); defaults to now */
+  timestamp?: number
+  /** Scoring system whose response the alert carries; defaults to Q-ADDS */
+  system?: ScoringSystem
+  /** Deteriorating criteria met; defaults to the standard criteria for the range */
+  deterioratingCriteria?: string[]
+  /** Extra line shown under the instruction, e.g. when overdue obs were due */
+  detail?: string
+  /** Simulation time the alert is raised; sets the response deadline for tiers that have one */
+  raisedAt?: Date
+  /** Charted date-time of the observation set that raised the alert */
+  observationSet?: string
+}
+
+/**
+ * Build a Discern alert for an EWS range with the standard wording,
+ * actions, and deterioration criteria for that range. Used by
+ * {@link evaluateAlerts} and by the instructor console to fire alerts
+ * directly.
+ */
+export function createAlert(
+  ewsRange: AlertData['ewsRange'],
+  options: CreateAlertOptions = {},
+): AlertData {
+  const content =
+    (options.system === 'news2' && NEWS2_RANGE_CONTENT[ewsRange]) || EWS_RANGE_CONTENT[ewsRange]
+  const step = ESCALATION_STEPS[ewsRange]
+  const criteria =
+    options.deterioratingCriteria ??
+    (ewsRange === 'E'
+      ? E_ZONE_DETERIORATING_CRITERIA
+      : ewsRange === '>=8'
+        ? SCORE_DETERIORATING_CRITERIA
+        : DEFAULT_DETERIORATING_CRITERIA)
+
+  return {
+    id: createAlertId(),
+    title: content.title,
+    message: [
+      ALERT_INSTRUCTION,
+      ...(ewsRange === '4-5' ? [ADDITIONAL_CRITERIA_INSTRUCTION] : []),
+      ...(options.detail ? [options.detail] : []),
+    ].join('\n\n'),
+    risk: content.risk,
+    parameters: options.parameters ?? [],
+    timestamp: options.timestamp ?? Date.now(),
+    acknowledged: false,
+    ewsRange,
+    deterioratingActions: content.deterioratingActions,
+    stableActions: content.stableActions,
+    deterioratingCriteria: criteria,
+    showSepsisPrompt: options.showSepsisPrompt ?? false,
+    responseDeadline:
+      step && options.raisedAt
+        ? new Date(options.raisedAt.getTime() + step.minutes * 60_000).toISOString()
+        : null,
+    review: null,
+    escalatedFrom: null,
+    escalatedTo: null,
+    observationSet: options.observationSet ?? null,
+  }
+}
+
+/** The review an alert tier calls for and where it escalates, or null for tiers without one. */
+export function getEscalationStep(ewsRange: AlertData['ewsRange']): EscalationStep | null {
+  return ESCALATION_STEPS[ewsRange] ?? null
+}
+
+/** Whether an alert's response deadline is still open: set, not reviewed and not yet escalated. */
+export function isAwaitingReview(alert: AlertData): boolean {
+  return alert.responseDeadline !== null && alert.review === null && alert.escalatedTo === null
+}
+
+/**
+ * Raise the next tier for an alert whose response deadline passed without
+ * a documented review. The new alert is timed from `now`, so it carries its
+ * own deadline if its tier has one. Returns null for tiers without a step.
+ *
+ * @example
+ * ```ts
+ * const next = escalateAlert(alert, now)
+ * if (next) useAlertStore.getState().escalateAlert(mrn, alert.id, next)
+ * ```
+ */
+export function escalateAlert(
+  alert: AlertData,
+  now: Date,
+  system?: ScoringSystem,
+): AlertData | null {
+  const step = ESCALATION_STEPS[alert.ewsRange]
+  if (!step) return null
+  return {
+    ...createAlert(step.next, {
+      showSepsisPrompt: alert.showSepsisPrompt,
+      system,
+      raisedAt: now,
+      detail: `Escalated: no ${step.reviewer} review documented within ${step.minutes} minutes of the "${alert.title}" alert.`,
+    }),
+    escalatedFrom: alert.id,
+  }
+}
+
+/**
+ * Deteriorating criteria met by the latest set, or undefined to keep the
+ * standard wording when no trend was found. E-zone alerts always list the
+ * E zone criterion.
+ */
+function metCriteria(
+  ewsRange: AlertData['ewsRange'],
+  trends: ObservationTrend[],
+  nurseConcern: boolean,
+): string[] | undefined {
+  if (trends.length === 0) return undefined
+  return [
+    ...(nurseConcern ? [DEFAULT_DETERIORATING_CRITERIA[0]] : []),
+    ...trends.map((t) => t.label),
+    ...(ewsRange === 'E' ? [E_ZONE_DETERIORATING_CRITERIA[2]] : []),
+  ]
+}
+
+/** The patient's orders and alerts that {@link evaluateAlerts} takes into account. */
+export interface AlertContext {
+  /** The patient's active MET-MEO plan, if any */
+  metMeoOrder?: MetMeoOrder | null
+  /** The patient's active MOF order, if any */
+  mofOrder?: ModifiedObsFrequencyOrder | null
+  /** The latest nursing assessment; only counts if recorded under the active MET-MEO plan */
+  nursingAssessment?: NursingAssessment | null
+  /** Alerts already raised for the patient */
+  existing?: readonly AlertData[]
+  /** The patient's latest lactate in mmol/L, if resulted (see `getLatestLactate`) */
+  lactate?: number | null
+}
+
+/** CAVPU levels by initial, least to most impaired */
+const CAVPU_ORDER = ['A', 'C', 'V', 'P', 'U']
+
+/** The reading a MET-MEO plan's accepted range applies to */
+function eZoneValue(vitals: VitalSign, vitalSign: MetMeoOrder['eZoneVitalSign']): number | null {
+  const raw =
+    vitalSign === 'rr' ? vitals.rr : vitalSign === 'systolicBP' ? vitals.bp_sys : vitals.hr
+  if (raw == null || String(raw).trim() === '') return null
+  const n = Number(raw)
+  return Number.isNaN(n) ? null : n
+}
+
+/**
+ * Why a MET-range set needs a MET call despite an active MET-MEO plan: a
+ * trigger the plan does not cover, the E zone vital sign outside its
+ * accepted range, a deteriorating criterion for a score trigger, or a
+ * nursing assessment of deteriorating. Empty when the plan covers the set.
+ */
+function metMeoBreaches(
+  plan: MetMeoOrder,
+  vitals: VitalSign,
+  score: QaddsScore,
+  metScore: boolean,
+  trends: ObservationTrend[],
+  assessment: NursingAssessment | null,
+): string[] {
+  const breaches: string[] = []
+  const coversEZone = plan.triggerType !== 'EWS_GTE_8'
+  const coversScore = plan.triggerType !== 'E_ZONE'
+
+  if (assessment?.metMeoOrderId === plan.orderId && assessment.patientStatus === 'DETERIORATING') {
+    breaches.push('patient assessed as deteriorating')
+  }
+
+  for (const param of score.emergencyParameters) {
+    const label = getParameterLabel(param)
+    if (!coversEZone || param !== plan.eZoneVitalSign) {
+      breaches.push(`${label} in the E zone is not covered by the plan`)
+    } else if (param === 'consciousness') {
+      const accepted = CAVPU_ORDER.indexOf((plan.eZoneCavpuLevel ?? 'A').charAt(0))
+      if (CAVPU_ORDER.indexOf((vitals.avpu || 'A').charAt(0)) > accepted) {
+        breaches.push(`${label} ${vitals.avpu} is worse than the accepted ${plan.eZoneCavpuLevel}`)
+      }
+    } else {
+      const value = eZoneValue(vitals, plan.eZoneVitalSign)
+      const lower = plan.eZoneLowerBound ?? -Infinity
+      const upper = plan.eZoneUpperBound ?? Infinity
+      if (value !== null && (value < lower || value > upper)) {
+        breaches.push(
+          `${label} ${value} is outside the accepted range (${plan.eZoneLowerBound ?? ''}\u2013${plan.eZoneUpperBound ?? ''})`,
+        )
+      }
+    }
+  }
+
+  if (metScore) {
+    if (!coversScore) {
+      breaches.push(`EWS ${score.totalScore} is not covered by the plan`)
+    } else {
+      breaches.push(
+        ...trends
+          .filter((t) => t.id === 'score-higher' || t.id === 'new-parameter')
+          .map((t) => t.label),
+      )
+    }
+  }
+
+  return breaches
+}
+
 /**
- * Evaluate a single set of vital sign observations and return any alerts
- * that should be raised according to the Queensland Health Discern Alert
- * system.
+ * Evaluate vital sign observations and return any alerts that should be
+ * raised according to the Queensland Health Discern Alert system.
+ *
+ * Pass a single set, or the patient's observation history newest first to
+ * also detect trends against earlier sets (see `detectTrends`). Trends fill
+ * each alert's deteriorating criteria, and raise a trend alert on their own
+ * when the latest set scores 0.
  *
  * Alert priority (highest first):
- *   E-trigger -> Score >= 8 -> Score 6-7 -> Score 4-5 -> Score 1-3 -> Nurse concern
+ *   E-trigger -> Score >= 8 -> Score 6-7 -> Score 4-5 -> Score 1-3 -> Trend -> Nurse concern
  *
  * Multiple alerts can be generated simultaneously (e.g. an E-trigger alert
- * *and* a nurse concern alert).
+ * *and* a nurse concern alert). Response deadlines run from the date-time
+ * the latest set was charted.
+ *
+ * The variant is the patient's chart form: it sets the SpO₂ scale, and the
+ * sepsis screening prompt is only shown on forms that carry it (not SW626).
+ * On a NEWS2 chart the alert tier follows the NEWS2 response band, and
+ * parameters scoring 3 are listed on the alert.
+ *
+ * With an active MET-MEO plan in the context, no MET call alert is raised
+ * while the set stays within the plan. It is raised, naming the reason, if
+ * an E zone vital sign leaves the accepted range or is not the one the plan
+ * covers, the score meets a deteriorating criterion (score higher than last
+ * score, new contributing vital sign), or the latest nursing assessment
+ * under the plan is deteriorating. Alerts already in `existing` for the
+ * same observation set and tier are not raised again.
+ *
+ * @example
+ * ```ts
+ * const alerts = evaluateAlerts(patient.vitals, variant, {
+ *   metMeoOrder: getActiveMetMeo(mrn, now),
+ *   existing: getAlerts(mrn),
+ * })
+ * ```
  */
 export function evaluateAlerts(
-  vitals: VitalSign,
+  observations: VitalSign | readonly VitalSign[],
   variant?: ChartVariant,
+  context: AlertContext = {},
 ): AlertData[] {
+  const history: readonly VitalSign[] = Array.isArray(observations) ? observations : [observations]
+  const vitals = history[0]
+  if (!vitals) return []
+
   const score = calculateQadds(vitals, variant)
   const alerts: AlertData[] = []
   const now = Date.now()
-  const sepsisPrompt = checkSepsisCriteria(vitals)
+  const form = getChartForm(variant)
+  const sepsisPrompt = form.sepsisScreening && getSepsisCriteria(vitals, context.lactate ?? null).length > 0
+  const trends = detectTrends(history, variant)
+  const nurseConcern = vitals.nurseConcern === true
+  const raisedAt = parseChartDateTime(vitals.datetime) ?? undefined
+  const observationSet = vitals.datetime
 
   const hasEmergencyParams = score.emergencyParameters.length > 0
 
-  // --- E-trigger: any single parameter scored "E" -------------------------
-  if (hasEmergencyParams) {
-    const paramLabels = score.emergencyParameters.map(parameterLabel)
-    const content = EWS_RANGE_CONTENT['E']
-    alerts.push({
-      id: createAlertId(),
-      title: content.title,
-      message: ALERT_INSTRUCTION,
-      risk: content.risk,
-      parameters: paramLabels,
-      timestamp: now,
-      acknowledged: false,
-      ewsRange: 'E',
-      deterioratingActions: content.deterioratingActions,
-      stableActions: content.stableActions,
-      deterioratingCriteria: E_ZONE_DETERIORATING_CRITERIA,
-      showSepsisPrompt: sepsisPrompt,
-    })
-  }
-
-  // --- Aggregate score >= 8 (only if NOT already an E-trigger) -----------
-  if (score.totalScore >= 8 && !hasEmergencyParams) {
-    const content = EWS_RANGE_CONTENT['>=8']
-    alerts.push({
-      id: createAlertId(),
-      title: content.title,
-      message: ALERT_INSTRUCTION,
-      risk: content.risk,
-      parameters: [],
-      timestamp: now,
-      acknowledged: false,
-      ewsRange: '>=8',
-      deterioratingActions: content.deterioratingActions,
-      stableActions: content.stableActions,
-      deterioratingCriteria: SCORE_DETERIORATING_CRITERIA,
-      showSepsisPrompt: sepsisPrompt,
-    })
-  }
+  // --- MET-MEO plan: MET call alerts only when the set breaches it --------
+  const range = getScoreRange(score, variant)
+  const metScore = range === '>=8'
+  const breaches =
+    context.metMeoOrder && (hasEmergencyParams || metScore)
+      ? metMeoBreaches(
+          context.metMeoOrder,
+          vitals,
+          score,
+          metScore,
+          trends,
+          context.nursingAssessment ?? null,
+        )
+      : null
+  const metCovered = breaches !== null && breaches.length === 0
+  const metDetail = breaches?.length
+    ? `Escalate despite the MET-MEO plan: ${breaches.join('; ')}.`
+    : undefined
 
-  // --- Aggregate score 6-7 -----------------------------------------------
-  if (score.totalScore >= 6 && score.totalScore <= 7 && !hasEmergencyParams) {
-    const content = EWS_RANGE_CONTENT['6-7']
-    alerts.push({
-      id: createAlertId(),
-      title: content.title,
-      message: ALERT_INSTRUCTION,
-      risk: content.risk,
-      parameters: [],
-      timestamp: now,
-      acknowledged: false,
-      ewsRange: '6-7',
-      deterioratingActions: content.deterioratingActions,
-      stableActions: content.stableActions,
-      deterioratingCriteria: DEFAULT_DETERIORATING_CRITERIA,
-      showSepsisPrompt: sepsisPrompt,
-    })
-  }
-
-  // --- Aggregate score 4-5 -----------------------------------------------
-  if (score.totalScore >= 4 && score.totalScore <= 5 && !hasEmergencyParams) {
-    const content = EWS_RANGE_CONTENT['4-5']
-    const message = `${ALERT_INSTRUCTION}\n\n${ADDITIONAL_CRITERIA_INSTRUCTION}`
-    alerts.push({
-      id: createAlertId(),
-      title: content.title,
-      message,
-      risk: content.risk,
-      parameters: [],
-      timestamp: now,
-      acknowledged: false,
-      ewsRange: '4-5',
-      deterioratingActions: content.deterioratingActions,
-      stableActions: content.stableActions,
-      deterioratingCriteria: DEFAULT_DETERIORATING_CRITERIA,
-      showSepsisPrompt: sepsisPrompt,
-    })
+  // --- E-trigger: any single parameter scored "E" -------------------------
+  if (hasEmergencyParams && !metCovered) {
+    alerts.push(
+      createAlert('E', {
+        parameters: score.emergencyParameters.map(getParameterLabel),
+        showSepsisPrompt: sepsisPrompt,
+        timestamp: now,
+        raisedAt,
+        observationSet,
+        detail: metDetail,
+        deterioratingCriteria: metCriteria('E', trends, nurseConcern),
+      }),
+    )
   }
 
-  // --- Aggregate score 1-3 -----------------------------------------------
-  if (
-    score.totalScore >= 1 &&
-    score.totalScore <= 3 &&
-    !hasEmergencyParams
-  ) {
-    const content = EWS_RANGE_CONTENT['1-3']
-    alerts.push({
-      id: createAlertId(),
-      title: content.title,
-      message: ALERT_INSTRUCTION,
-      risk: content.risk,
-      parameters: [],
-      timestamp: now,
-      acknowledged: false,
-      ewsRange: '1-3',
-      deterioratingActions: content.deterioratingActions,
-      stableActions: content.stableActions,
-      deterioratingCriteria: DEFAULT_DETERIORATING_CRITERIA,
-      showSepsisPrompt: sepsisPrompt,
-    })
+  // --- Aggregate score bands (only if NOT already an E-trigger) ----------
+  if (!hasEmergencyParams) {
+    // Held back by the MET-MEO plan, or by an MOF order while there is no trend
+    const heldBack =
+      (range === '>=8' && metCovered) ||
+      (range === '1-3' && context.mofOrder != null && trends.length === 0)
+    if (range && !heldBack) {
+      alerts.push(
+        createAlert(range, {
+          parameters: score.redParameters?.map(getParameterLabel),
+          showSepsisPrompt: sepsisPrompt,
+          timestamp: now,
+          system: form.system,
+          raisedAt,
+          observationSet,
+          detail: range === '>=8' ? metDetail : undefined,
+          deterioratingCriteria: metCriteria(range, trends, nurseConcern),
+        }),
+      )
+    } else if (!range && trends.length > 0) {
+      // --- Trend below the score bands -----------------------------------
+      alerts.push(
+        createAlert('trend', {
+          showSepsisPrompt: sepsisPrompt,
+          timestamp: now,
+          system: form.system,
+          raisedAt,
+          observationSet,
+          deterioratingCriteria: metCriteria('trend', trends, nurseConcern),
+        }),
+      )
+    }
   }
 
   // --- Staff/nurse concern ------------------------------------------------
-  if (vitals.nurseConcern === true) {
-    alerts.push({
-      id: createAlertId(),
-      title: 'Staff Member Concern \u2014 Clinical Review Required',
-      message: ALERT_INSTRUCTION,
-      risk: 'High',
-      parameters: [],
-      timestamp: now,
-      acknowledged: false,
-      ewsRange: 'nurse-concern',
-      deterioratingActions:
-        'Notify Team Leader. Clinical review required regardless of Q-ADDS score.',
-      stableActions: 'Continue observations as ordered. Document concern.',
-      deterioratingCriteria: DEFAULT_DETERIORATING_CRITERIA,
-      showSepsisPrompt: sepsisPrompt,
-    })
+  if (nurseConcern) {
+    alerts.push(
+      createAlert('nurse-concern', {
+        showSepsisPrompt: sepsisPrompt,
+        timestamp: now,
+        system: form.system,
+        raisedAt,
+        observationSet,
+        deterioratingCriteria: metCriteria('nurse-concern', trends, nurseConcern),
+      }),
+    )
   }
 
-  return alerts
+  // --- Repeats for the same observation set ------------------------------
+  const existing = context.existing ?? []
+  return alerts.filter(
+    (alert) =>
+      !existing.some((e) => e.observationSet === observationSet && e.ewsRange === alert.ewsRange),
+  )
 }
 
 // ---------------------------------------------------------------------------
@@ -473,54 +815,54 @@ export function checkVitals(
  * Check a Q-ADDS EWS result against escalation thresholds (legacy alerts).
  */
 export function checkEWSScore(
-  score: QADDSResult,
+  score: QaddsScore,
   patientMrn: string,
 ): LegacyAlert[] {
   const newAlerts: LegacyAlert[] = []
   const now = new Date().toISOString()
   const riskMap: Record<
-    QADDSRiskLevel,
+    ClinicalRisk,
     { severity: AlertSeverity; type: AlertType } | null
   > = {
-    Normal: null,
+    Routine: null,
     Low: { severity: 'info', type: 'news_score_elevated' },
     Moderate: { severity: 'warning', type: 'news_score_elevated' },
     High: { severity: 'critical', type: 'news_score_critical' },
-    MET: { severity: 'critical', type: 'news_score_critical' },
+    Emergency: { severity: 'critical', type: 'news_score_critical' },
   }
 
-  const config = riskMap[score.riskLevel]
+  const config = riskMap[score.clinicalRisk]
   if (config) {
     newAlerts.push({
       id: generateLegacyAlertId(),
       type: config.type,
       severity: config.severity,
-      message: `Q-ADDS EWS ${score.totalScore} — ${score.riskLevel} risk. Escalation level ${score.escalationLevel}.`,
+      message: `Q-ADDS EWS ${score.totalScore} — ${score.clinicalRisk} risk.`,
       timestamp: now,
       acknowledged: false,
       patientMrn,
     })
   }
 
-  if (score.hasEZone) {
+  if (score.emergencyParameters.length > 0) {
     newAlerts.push({
       id: generateLegacyAlertId(),
       type: 'news_score_critical',
       severity: 'critical',
-      message: `MET Call Criteria Met — E-zone vital sign: ${score.eZoneParameters.join(', ')}`,
+      message: `MET Call Criteria Met — E-zone vital sign: ${score.emergencyParameters.map(getParameterLabel).join(', ')}`,
       timestamp: now,
       acknowledged: false,
       patientMrn,
     })
   }
 
-  const highParams = score.subScores.filter((s) => s.score === 4)
-  if (highParams.length > 0 && score.riskLevel !== 'High' && score.riskLevel !== 'MET') {
+  const highParams = Object.values(score.subScores).filter((s) => s.score === 4)
+  if (highParams.length > 0 && score.clinicalRisk !== 'High' && score.clinicalRisk !== 'Emergency') {
     newAlerts.push({
       id: generateLegacyAlertId(),
       type: 'news_score_elevated',
       severity: 'warning',
-      message: `Score 4 in: ${highParams.map((p) => p.parameter).join(', ')}. Requires increased monitoring.`,
+      message: `Score 4 in: ${highParams.map((p) => getParameterLabel(p.parameter)).join(', ')}. Requires increased monitoring.`,
       timestamp: now,
       acknowledged: false,
       patientMrn,
@@ -0,0 +1,220 @@
+/**
+ * Barcode Medication Administration (BCMA).
+ *
+ * Simulates the scan step of the Cerner MAR: the nurse scans the patient's
+ * wristband and the medication in hand, and the scan is checked against
+ * the order for the five rights — right patient, drug, dose, route and
+ * time. A wristband encodes the patient's MRN; a product barcode is a
+ * 13-digit code derived from the product's name, strength and route, so
+ * the same product always scans the same.
+ *
+ * Scenarios can plant errors for the scan to catch (see
+ * {@link ScenarioBcmaErrors}): a wristband with another patient's MRN, or
+ * a look-alike drug or wrong strength supplied in place of an order.
+ */
+
+import type {
+  BcmaScanEntry,
+  BcmaStop,
+  BcmaStopLevel,
+  MedicationOrder,
+  MedicationProduct,
+} from '@/types/medications'
+import type { ScenarioBcmaErrors } from '@/types/scenario'
+import { formatDose, formatRoute, parseDose, parseRoute } from '@/services/medicationOrders'
+import { DOSE_DUE_WINDOW_MINUTES } from '@/services/marSchedule'
+import { formatChartDateTime } from '@/services/scenarioEngine'
+
+/** The parts of an order the product is checked against */
+type ProductOrder = Pick<MedicationOrder, 'name' | 'dose' | 'route'>
+
+// ---------------------------------------------------------------------------
+// Barcodes
+// ---------------------------------------------------------------------------
+
+/** GS1 prefix the simulated product barcodes are issued under */
+const BARCODE_PREFIX = '930'
+
+/** Code printed on a wristband for the patient with `mrn` */
+export function getWristbandCode(mrn: string): string {
+  return mrn.trim().toUpperCase()
+}
+
+/** EAN-13 check digit for the first 12 digits */
+function checkDigit(digits: string): number {
+  const sum = [...digits].reduce((acc, d, i) => acc + Number(d) * (i % 2 === 0 ? 1 : 3), 0)
+  return (10 - (sum % 10)) % 10
+}
+
+/** The product's barcode: an EAN-13 derived from its name, strength and route */
+export function getProductBarcode(product: MedicationProduct): string {
+  const key = [product.name.trim().toLowerCase(), formatDose(product.dose), product.route].join('|')
+  // FNV-1a, folded into the nine digits after the prefix
+  let hash = 0x811c9dc5
+  for (let i = 0; i < key.length; i++) {
+    hash = Math.imul(hash ^ key.charCodeAt(i), 0x01000193) >>> 0
+  }
+  const digits = BARCODE_PREFIX + String(hash % 1_000_000_000).padStart(9, '0')
+  return digits + checkDigit(digits)
+}
+
+/** The product a medication order calls for */
+export function getOrderedProduct(order: ProductOrder): MedicationProduct {
+  return { name: order.name, dose: order.dose, route: order.route }
+}
+
+/**
+ * The product at the bedside for an order: the order's own, unless the
+ * scenario has planted a substitute for it.
+ */
+export function getSuppliedProduct(
+  order: ProductOrder,
+  errors?: ScenarioBcmaErrors,
+): MedicationProduct {
+  const name = order.name.toLowerCase()
+  const sub = errors?.substitutions?.find((s) => name.includes(s.medication.toLowerCase()))
+  if (!sub) return getOrderedProduct(order)
+  return {
+    name: sub.name,
+    dose: sub.dose !== undefined ? parseDose(sub.dose) : order.dose,
+    route: sub.route !== undefined ? parseRoute(sub.route) : order.route,
+  }
+}
+
+/** The wristband the patient is wearing, or the one planted in its place */
+export function getSuppliedWristband(mrn: string, errors?: ScenarioBcmaErrors): string {
+  return getWristbandCode(errors?.wristbandMrn ?? mrn)
+}
+
+/**
+ * Barcodes the scanner recognises, keyed by code: every ordered product
+ * and every substitute the scenario has planted.
+ */
+export function buildProductCatalogue(
+  medications: ReadonlyArray<ProductOrder>,
+  errors?: ScenarioBcmaErrors,
+): Map<string, MedicationProduct> {
+  const catalogue = new Map<string, MedicationProduct>()
+  for (const med of medications) {
+    for (const product of [getOrderedProduct(med), getSuppliedProduct(med, errors)]) {
+      catalogue.set(getProductBarcode(product), product)
+    }
+  }
+  return catalogue
+}
+
+// ---------------------------------------------------------------------------
+// Five rights
+// ---------------------------------------------------------------------------
+
+/** What was scanned: the wristband code and the medication barcode */
+export interface BcmaScan {
+  wristband: string
+  barcode: string
+}
+
+/** What the scan is checked against */
+export interface BcmaExpected {
+  patientMrn: string
+  order: ProductOrder
+  /** Scheduled time of the dose, or null for a PRN dose */
+  scheduledAt: Date | null
+}
+
+/** The simulated scanner at the bedside for one dose */
+export interface BcmaScanner {
+  /** Code on the wristband the patient is wearing */
+  wristband: string
+  /** Barcode on the medication at the bedside */
+  barcode: string
+  /** Scheduled time of the dose, or null for a PRN dose */
+  scheduledAt: Date | null
+  /** Check a scan for the five rights, returning the stops it raises */
+  verify: (scan: BcmaScan, entry: BcmaScanEntry) => BcmaStop[]
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+/**
+ * Check a scan against the order for the five rights. Returns the checks
+ * that failed; none means the scan matches.
+ *
+ * - Patient: the wristband must be this patient's (hard stop).
+ * - Drug: the barcode must be a known product with the ordered name (hard
+ *   stop). Dose and route are only checked once the drug is right.
+ * - Dose: a different strength in the same unit is a soft stop (the dose
+ *   may be made up from several units); a different unit is a hard stop.
+ * - Route: a product for a different route is a hard stop.
+ * - Time: scanning more than an hour either side of the scheduled time is
+ *   a soft stop.
+ */
+export function checkFiveRights(
+  scan: BcmaScan,
+  expected: BcmaExpected,
+  catalogue: ReadonlyMap<string, MedicationProduct>,
+  now: Date,
+): BcmaStop[] {
+  const stops: BcmaStop[] = []
+  const { order } = expected
+
+  const wristband = getWristbandCode(scan.wristband)
+  if (wristband !== getWristbandCode(expected.patientMrn)) {
+    stops.push({
+      right: 'patient',
+      level: 'hard',
+      message: wristband
+        ? `Wrong patient: wristband ${wristband}, chart ${getWristbandCode(expected.patientMrn)}`
+        : 'Wristband not scanned',
+    })
+  }
+
+  const barcode = scan.barcode.trim()
+  const product = catalogue.get(barcode)
+  if (!product) {
+    stops.push({
+      right: 'drug',
+      level: 'hard',
+      message: barcode ? `Barcode ${barcode} not recognised` : 'Medication not scanned',
+    })
+  } else if (!sameName(product.name, order.name)) {
+    stops.push({
+      right: 'drug',
+      level: 'hard',
+      message: `Wrong drug: scanned ${product.name}, ordered ${order.name}`,
+    })
+  } else {
+    if (product.dose && order.dose && formatDose(product.dose) !== formatDose(order.dose)) {
+      stops.push({
+        right: 'dose',
+        level: product.dose.unit === order.dose.unit ? 'soft' : 'hard',
+        message: `Dose differs: scanned ${formatDose(product.dose)}, ordered ${formatDose(order.dose)}`,
+      })
+    }
+    if (product.route !== order.route) {
+      stops.push({
+        right: 'route',
+        level: 'hard',
+        message: `Wrong route: scanned ${formatRoute(product.route)}, ordered ${formatRoute(order.route)}`,
+      })
+    }
+  }
+
+  if (expected.scheduledAt) {
+    const minutes = Math.round((now.getTime() - expected.scheduledAt.getTime()) / 60_000)
+    if (Math.abs(minutes) > DOSE_DUE_WINDOW_MINUTES) {
+      stops.push({
+        right: 'time',
+        level: 'soft',
+        message: `Not due: scheduled ${formatChartDateTime(expected.scheduledAt)}, ${Math.abs(minutes)} min ${minutes < 0 ? 'early' : 'late'}`,
+      })
+    }
+  }
+
+  return stops
+}
+
+/** The strictest stop raised, or null if the scan matched */
+export function getStopLevel(stops: readonly BcmaStop[]): BcmaStopLevel | null {
+  if (stops.some((s) => s.level === 'hard')) return 'hard'
+  return stops.length > 0 ? 'soft' : null
+}
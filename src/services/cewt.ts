@@ -0,0 +1,216 @@
+/**
+ * CEWT (Children's Early Warning Tool) age bands and paediatric escalation.
+ *
+ * Children are observed on the CEWT chart for their age band rather than on
+ * Q-ADDS. Normal respiratory rate, heart rate and systolic BP change with
+ * age, so each band has its own RR, HR and SBP score tables; SpO₂, O₂
+ * delivery, temperature and consciousness score as on the adult chart.
+ * Scoring itself still runs through {@link calculateQadds} on the child's
+ * CEWT chart form, so every score card, graph and alert takes the same
+ * result shape for children and adults.
+ *
+ * Band thresholds are built around the APLS normal ranges for each age
+ * (docs/cewt.md lists the source range beside each band's table); they are
+ * not a reproduction of the printed CEWT charts.
+ */
+
+import type {
+  CewtChartFormCode,
+  ChartFormCode,
+  ClinicalRisk,
+  PatientStatus,
+  QaddsSubScoreValue,
+  ThresholdBand,
+} from '@/types/vitals'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The RR, HR and SBP score tables for a chart. */
+export interface VitalThresholds {
+  rr: ThresholdBand[]
+  heartRate: ThresholdBand[]
+  systolicBP: ThresholdBand[]
+}
+
+/** One CEWT age band and its chart. */
+export interface CewtAgeBand {
+  code: CewtChartFormCode
+  label: string
+  /** Youngest age on this chart, in completed months. */
+  minMonths: number
+  thresholds: VitalThresholds
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Patients this age and over are observed on Q-ADDS, not CEWT. */
+export const PAEDIATRIC_AGE_LIMIT_YEARS = 16
+
+/**
+ * Build a score table from the upper bound of each band, lowest band first.
+ * Each band starts one above the previous band's upper bound.
+ */
+function bands(upperBounds: ReadonlyArray<readonly [number, QaddsSubScoreValue]>): ThresholdBand[] {
+  return upperBounds.map(([max, score], i) => ({
+    min: i === 0 ? -Infinity : upperBounds[i - 1][0] + 1,
+    max,
+    score,
+  }))
+}
+
+/** CEWT age bands, youngest first. */
+export const CEWT_AGE_BANDS: readonly CewtAgeBand[] = [
+  {
+    code: 'CEWT-0-3M',
+    label: 'CEWT 0–3 months',
+    minMonths: 0,
+    thresholds: {
+      rr: bands([[19, 'E'], [24, 2], [29, 1], [60, 0], [69, 1], [79, 2], [89, 4], [Infinity, 'E']]),
+      heartRate: bands([[89, 'E'], [99, 4], [109, 2], [164, 0], [174, 1], [184, 2], [199, 4], [Infinity, 'E']]),
+      systolicBP: bands([[49, 'E'], [59, 4], [64, 2], [69, 1], [94, 0], [104, 1], [114, 2], [Infinity, 4]]),
+    },
+  },
+  {
+    code: 'CEWT-4-11M',
+    label: 'CEWT 4–11 months',
+    minMonths: 4,
+    thresholds: {
+      rr: bands([[14, 'E'], [19, 2], [24, 1], [54, 0], [59, 1], [69, 2], [79, 4], [Infinity, 'E']]),
+      heartRate: bands([[79, 'E'], [89, 4], [99, 2], [159, 0], [169, 1], [179, 2], [189, 4], [Infinity, 'E']]),
+      systolicBP: bands([[54, 'E'], [64, 4], [69, 2], [74, 1], [104, 0], [114, 1], [124, 2], [Infinity, 4]]),
+    },
+  },
+  {
+    code: 'CEWT-1-4Y',
+    label: 'CEWT 1–4 years',
+    minMonths: 12,
+    thresholds: {
+      rr: bands([[14, 'E'], [17, 2], [19, 1], [39, 0], [44, 1], [49, 2], [59, 4], [Infinity, 'E']]),
+      heartRate: bands([[69, 'E'], [79, 4], [89, 2], [139, 0], [149, 1], [159, 2], [169, 4], [Infinity, 'E']]),
+      systolicBP: bands([[59, 'E'], [69, 4], [74, 2], [79, 1], [114, 0], [124, 1], [134, 2], [Infinity, 4]]),
+    },
+  },
+  {
+    code: 'CEWT-5-11Y',
+    label: 'CEWT 5–11 years',
+    minMonths: 60,
+    thresholds: {
+      rr: bands([[9, 'E'], [13, 2], [15, 1], [29, 0], [34, 1], [39, 2], [49, 4], [Infinity, 'E']]),
+      heartRate: bands([[59, 'E'], [69, 4], [74, 2], [129, 0], [139, 1], [149, 2], [159, 4], [Infinity, 'E']]),
+      systolicBP: bands([[64, 'E'], [74, 4], [79, 2], [89, 1], [124, 0], [134, 1], [144, 2], [Infinity, 4]]),
+    },
+  },
+  {
+    code: 'CEWT-12Y',
+    label: 'CEWT 12+ years',
+    minMonths: 144,
+    thresholds: {
+      rr: bands([[8, 'E'], [10, 2], [11, 1], [24, 0], [29, 1], [34, 2], [39, 4], [Infinity, 'E']]),
+      heartRate: bands([[49, 'E'], [54, 4], [59, 2], [114, 0], [124, 1], [139, 2], [149, 4], [Infinity, 'E']]),
+      systolicBP: bands([[74, 'E'], [84, 4], [89, 2], [99, 1], [139, 0], [149, 1], [159, 2], [Infinity, 4]]),
+    },
+  },
+]
+
+// ---------------------------------------------------------------------------
+// Age Bands
+// ---------------------------------------------------------------------------
+
+/**
+ * Age in completed months, or null if unknown. Ages under a year are counted
+ * from the date of birth, since `age` is whole years; an age of 0 with no
+ * usable date of birth is taken as not recorded.
+ */
+function ageInMonths(ageYears: number, dob: string | undefined, now: Date): number | null {
+  if (!Number.isFinite(ageYears) || ageYears < 0) return null
+  if (ageYears >= 1) return Math.floor(ageYears * 12)
+
+  const born = dob ? new Date(dob) : null
+  if (!born || Number.isNaN(born.getTime())) return ageYears > 0 ? Math.floor(ageYears * 12) : null
+  const months =
+    (now.getFullYear() - born.getFullYear()) * 12 +
+    (now.getMonth() - born.getMonth()) -
+    (now.getDate() < born.getDate() ? 1 : 0)
+  return Math.max(0, months)
+}
+
+/**
+ * The CEWT age band for a patient, or null for patients old enough for
+ * Q-ADDS (or whose age is not recorded).
+ *
+ * @param ageYears - Age in years (may be fractional)
+ * @param dob      - Date of birth, used to count months for infants
+ * @param now      - Date to count an infant's months to (default now)
+ */
+export function getCewtAgeBand(
+  ageYears: number,
+  dob?: string,
+  now: Date = new Date(),
+): CewtAgeBand | null {
+  const months = ageInMonths(ageYears, dob, now)
+  if (months === null || months >= PAEDIATRIC_AGE_LIMIT_YEARS * 12) return null
+  return [...CEWT_AGE_BANDS].reverse().find((band) => months >= band.minMonths) ?? null
+}
+
+/** RR, HR and SBP score tables for a CEWT chart, or null for a Q-ADDS chart. */
+export function getCewtThresholds(code: ChartFormCode): VitalThresholds | null {
+  return CEWT_AGE_BANDS.find((band) => band.code === code)?.thresholds ?? null
+}
+
+// ---------------------------------------------------------------------------
+// Escalation
+// ---------------------------------------------------------------------------
+
+/**
+ * Get the paediatric escalation instruction text for a clinical risk level,
+ * optionally differentiated by patient status. Follows the Q-ADDS risk
+ * tiers, escalating to the paediatric team, with parent or carer concern a
+ * reason for review at every tier.
+ */
+export function getCewtEscalationText(risk: ClinicalRisk, status?: PatientStatus): string {
+  if (risk === 'Emergency') {
+    return 'Initiate paediatric MET call. Continuous monitoring and 10 minutely observations. Paediatric Registrar to ensure Consultant notified and consider retrieval advice. Registrar and Nurse escort for transfers.'
+  }
+
+  if (status === 'deteriorating') {
+    switch (risk) {
+      case 'Routine':
+        return '4th hourly observations (minimum). Involve parents or carers in observations.'
+      case 'Low':
+        return 'Notify Team Leader. 1 hourly observations. Nurse escort for transfers.'
+      case 'Moderate':
+        return 'Notify Team Leader. Notify Paediatric RMO to review within 30 minutes. 1 hourly observations. Nurse escort for transfers. If no review after 30 min \u2192 call Paediatric Registrar.'
+      case 'High':
+        return 'Notify Team Leader. Notify Paediatric Registrar to review within 30 minutes. \u00BD hourly observations. Nurse escort for transfers. If no review after 30 min \u2192 call paediatric MET or escalate to Consultant.'
+    }
+  }
+
+  if (status === 'stable') {
+    switch (risk) {
+      case 'Routine':
+        return '4th hourly observations (minimum). Involve parents or carers in observations.'
+      case 'Low':
+        return '2nd hourly observations (minimum). Review if parent or carer is concerned.'
+      case 'Moderate':
+        return '1 hourly observations (minimum). Review if parent or carer is concerned.'
+      case 'High':
+        return '\u00BD hourly observations (minimum). Notify Paediatric Registrar.'
+    }
+  }
+
+  // Default (no status provided): combined text
+  switch (risk) {
+    case 'Routine':
+      return '4th hourly observations (minimum). Involve parents or carers in observations.'
+    case 'Low':
+      return '2nd hourly observations (minimum). If deteriorating or parent/carer concerned: Notify Team Leader. 1 hourly observations. Nurse escort for transfers.'
+    case 'Moderate':
+      return '1 hourly observations (minimum). If deteriorating: Notify Team Leader. Notify Paediatric RMO to review within 30 minutes. Nurse escort for transfers. If no review after 30 min \u2192 call Paediatric Registrar.'
+    case 'High':
+      return '\u00BD hourly observations (minimum). If deteriorating: Notify Team Leader. Notify Paediatric Registrar to review within 30 minutes. Nurse escort for transfers. If no review after 30 min \u2192 call paediatric MET or escalate to Consultant.'
+  }
+}
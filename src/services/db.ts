@@ -1,6 +1,100 @@
-import { openDB } from 'idb'
-import type { DBSchema, IDBPDatabase } from 'idb'
+/**
+ * IndexedDB repository.
+ *
+ * The one database behind the app: patients, the learner action audit
+ * trail, session snapshots, alert history, medication administrations and
+ * the saved state of the Zustand stores. Every object store and index is
+ * declared in {@link SimCernerDB}; schema changes are numbered steps in
+ * {@link MIGRATIONS}, run in order from the version the browser last opened.
+ *
+ * Records held by the older `simcerner-db` database are copied in the
+ * first time the repository opens, after which that database is deleted.
+ *
+ * Falls back to in-memory storage when IndexedDB is unavailable (private
+ * browsing, restricted iframes, tests); that data is lost on reload.
+ */
+
+import { deleteDB, openDB } from 'idb'
+import type {
+  DBSchema,
+  IDBPDatabase,
+  IDBPTransaction,
+  IndexKey,
+  IndexNames,
+  StoreKey,
+  StoreNames,
+  StoreValue,
+} from 'idb'
+import type { PersistStorage, StorageValue } from 'zustand/middleware'
+import { shallow } from 'zustand/shallow'
 import type { Patient } from '@/types/patient'
+import type { MedicationAdministration, PrnDoseDetails } from '@/types/medications'
+import { MedicationDoseStatus } from '@/types/medications'
+import type { LearnerAction, LearnerActionType } from '@/types/actionLog'
+import type { AlertData } from '@/services/alertEngine'
+
+// ---------------------------------------------------------------------------
+// Records
+// ---------------------------------------------------------------------------
+
+/** Session state snapshot */
+export interface PersistedSession {
+  /** Fixed key for the singleton session record */
+  id: string
+  /** Active view at time of save */
+  currentView: string
+  /** MRN of the selected patient (if any) */
+  currentPatientMrn: string | null
+  /** Simulation time */
+  simulationTime: string
+  /** ISO datetime of the save */
+  savedAt: string
+}
+
+/** An alert in the history, with the patient it was raised for */
+export interface PersistedAlert extends AlertData {
+  patientMrn: string
+}
+
+/** Medication administration event */
+export interface PersistedAdministration {
+  id: string
+  patientMrn: string
+  medicationName: string
+  /** ISO wall-clock time the administration was charted */
+  timestamp: string
+  /** ISO simulation time the administration was charted */
+  simTime: string
+  /** Nurse who administered */
+  nurse: string
+  status: string
+  /** Why the dose was held, refused or not given */
+  notes?: string
+  /** ISO time of the MAR dose actioned; absent in records written before it was kept */
+  scheduledAt?: string | null
+  site?: string
+  witness?: string
+  /** Why the dose was given despite a soft stop at the barcode scan */
+  overrideReason?: string
+  /** Indication, scores and reassessment of a PRN dose */
+  prn?: PrnDoseDetails
+}
+
+/** Snapshot of a Zustand store's persisted state */
+export interface PersistedStoreState {
+  /** Store name given to the `persist` middleware */
+  id: string
+  /** Version of the store's persisted shape when saved */
+  version: number
+  /** The persisted part of the store's state */
+  state: unknown
+  /** ISO datetime of the save */
+  savedAt: string
+}
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
 
 interface SimCernerDB extends DBSchema {
   patients: {
@@ -10,61 +104,786 @@ interface SimCernerDB extends DBSchema {
   }
   sessionLog: {
     key: number
-    value: {
-      timestamp: number
-      action: string
-      detail: string
+    value: LearnerAction
+    indexes: {
+      'by-session': string
+      'by-type': LearnerActionType
+      'by-mrn': string
+      'by-sim-time': string
+      'by-scenario-run': string
     }
   }
+  sessions: {
+    key: string
+    value: PersistedSession
+  }
+  alerts: {
+    key: string
+    value: PersistedAlert
+    indexes: { 'by-mrn': string }
+  }
+  administrations: {
+    key: string
+    value: PersistedAdministration
+    indexes: { 'by-mrn': string; 'by-sim-time': string }
+  }
+  storeState: {
+    key: string
+    value: PersistedStoreState
+  }
+}
+
+type StoreName = StoreNames<SimCernerDB>
+
+/** Key path of each object store, and of each of its indexes */
+const KEY_PATHS: { [S in StoreName]: string } = {
+  patients: 'mrn',
+  sessionLog: 'id',
+  sessions: 'id',
+  alerts: 'id',
+  administrations: 'id',
+  storeState: 'id',
 }
 
+const INDEX_KEY_PATHS: { [S in StoreName]: Record<IndexNames<SimCernerDB, S>, string> } = {
+  patients: { 'by-name': 'name' },
+  sessionLog: {
+    'by-session': 'sessionId',
+    'by-type': 'type',
+    'by-mrn': 'patientMrn',
+    'by-sim-time': 'simTime',
+    'by-scenario-run': 'scenarioRunId',
+  },
+  sessions: {},
+  alerts: { 'by-mrn': 'patientMrn' },
+  administrations: { 'by-mrn': 'patientMrn', 'by-sim-time': 'simTime' },
+  storeState: {},
+}
+
+// ---------------------------------------------------------------------------
+// Migrations
+// ---------------------------------------------------------------------------
+
+type UpgradeTransaction = IDBPTransaction<SimCernerDB, StoreName[], 'versionchange'>
+
+interface Migration {
+  /** Object store and index changes. Must be synchronous. */
+  schema: (db: IDBPDatabase<SimCernerDB>, tx: UpgradeTransaction) => void
+  /** Record changes, run after every step's schema changes, using only the upgrade transaction */
+  data?: (tx: UpgradeTransaction) => Promise<void>
+}
+
+/** Step N upgrades a database at version N - 1. Append steps; never edit one that has shipped. */
+const MIGRATIONS: Migration[] = [
+  // v1: patients
+  {
+    schema(db) {
+      db.createObjectStore('patients', { keyPath: 'mrn' }).createIndex('by-name', 'name')
+    },
+  },
+
+  // v2: the audit trail. v1 keyed the log on a millisecond timestamp, which
+  // collided for actions recorded in the same tick. Nothing ever wrote to
+  // it, so it is recreated rather than migrated.
+  {
+    schema(db) {
+      if (db.objectStoreNames.contains('sessionLog')) {
+        db.deleteObjectStore('sessionLog')
+      }
+      const log = db.createObjectStore('sessionLog', { keyPath: 'id', autoIncrement: true })
+      log.createIndex('by-session', 'sessionId')
+      log.createIndex('by-type', 'type')
+    },
+  },
+
+  // v3: the stores of the old `simcerner-db` database move here, and the
+  // audit trail gains patient, simulation time and scenario run indexes.
+  {
+    schema(db, tx) {
+      db.createObjectStore('sessions', { keyPath: 'id' })
+      db.createObjectStore('alerts', { keyPath: 'id' }).createIndex('by-mrn', 'patientMrn')
+      const administrations = db.createObjectStore('administrations', { keyPath: 'id' })
+      administrations.createIndex('by-mrn', 'patientMrn')
+      administrations.createIndex('by-sim-time', 'simTime')
+      db.createObjectStore('storeState', { keyPath: 'id' })
+
+      const log = tx.objectStore('sessionLog')
+      log.createIndex('by-mrn', 'patientMrn')
+      log.createIndex('by-sim-time', 'simTime')
+      log.createIndex('by-scenario-run', 'scenarioRunId')
+    },
+    // Actions logged before scenario runs were recorded belong to none.
+    async data(tx) {
+      let cursor = await tx.objectStore('sessionLog').openCursor()
+      while (cursor) {
+        if (cursor.value.scenarioRunId === undefined) {
+          await cursor.update({ ...cursor.value, scenarioRunId: null })
+        }
+        cursor = await cursor.continue()
+      }
+    },
+  },
+]
+
 const DB_NAME = 'simcerner'
-const DB_VERSION = 1
+const DB_VERSION = MIGRATIONS.length
+
+/**
+ * Upgrade a database at `oldVersion`: every step's schema changes, then
+ * each step's record changes in turn on the upgrade transaction. A failed
+ * record change aborts the upgrade, leaving the database as it was, and
+ * rejects with the step's error.
+ */
+async function migrate(
+  db: IDBPDatabase<SimCernerDB>,
+  oldVersion: number,
+  tx: UpgradeTransaction,
+): Promise<void> {
+  const steps = MIGRATIONS.slice(oldVersion)
+  for (const step of steps) step.schema(db, tx)
+  try {
+    for (const step of steps) await step.data?.(tx)
+  } catch (err) {
+    // The open rejects for the abort; that is where it is reported.
+    tx.done.catch(() => {})
+    try {
+      tx.abort()
+    } catch {
+      // A failed request has already aborted it.
+    }
+    throw err
+  }
+}
+
+/** The database the removed persistence layer wrote to */
+const LEGACY_DB_NAME = 'simcerner-db'
+
+/** Legacy administrations match a logged dose charted within this long of them */
+const LEGACY_MATCH_MS = 5_000
+
+/** The patient of each alert in a saved alert store snapshot, by alert id */
+function alertPatients(storeState: PersistedStoreState[]): Map<string, string> {
+  const patients = new Map<string, string>()
+  const snapshot = storeState.find((s) => s.id === 'alerts')?.state as
+    | { alerts?: Record<string, AlertData[]> }
+    | undefined
+  for (const [mrn, alerts] of Object.entries(snapshot?.alerts ?? {})) {
+    for (const alert of alerts) patients.set(alert.id, mrn)
+  }
+  return patients
+}
+
+/**
+ * The simulation time of a legacy administration: that of the dose logged
+ * to the audit trail with it, as the old database kept only the wall-clock
+ * time. Falls back to that wall-clock time when no logged dose matches, as
+ * for every dose charted before the audit trail was kept.
+ */
+function administeredSimTime(
+  record: Omit<PersistedAdministration, 'simTime'>,
+  actions: LearnerAction[],
+): string {
+  const charted = new Date(record.timestamp).getTime()
+  const logged = actions.find(
+    (a) =>
+      a.type === 'mar/administered' &&
+      a.patientMrn === record.patientMrn &&
+      a.payload.medicationName === record.medicationName &&
+      a.payload.status === record.status &&
+      a.payload.nurse === record.nurse &&
+      Math.abs(new Date(a.wallTime).getTime() - charted) <= LEGACY_MATCH_MS,
+  )
+  return logged?.simTime ?? record.timestamp
+}
+
+/**
+ * Copy the old database's records in, keeping any already here, then
+ * delete it. Does nothing when it does not exist.
+ *
+ * The old database did not record which patient an alert was for, nor the
+ * simulation time of an administration. An alert takes its patient from the
+ * saved alert store, and alerts it does not place are dropped rather than
+ * filed against the wrong patient. An administration takes its time from
+ * the dose logged to the audit trail, or else keeps the time it was charted.
+ */
+async function importLegacyDatabase(db: IDBPDatabase<SimCernerDB>): Promise<void> {
+  let legacy: IDBPDatabase
+  try {
+    legacy = await openDB(LEGACY_DB_NAME, undefined, {
+      // Opening creates a database that is not there; abort instead.
+      upgrade(_db, _oldVersion, _newVersion, tx) {
+        tx.done.catch(() => {})
+        tx.abort()
+      },
+    })
+  } catch {
+    return
+  }
+
+  const read = async <T>(store: string): Promise<T[]> =>
+    legacy.objectStoreNames.contains(store) ? legacy.getAll(store) : []
+
+  const patients = await read<Patient>('patients')
+  const sessions = await read<PersistedSession>('sessions')
+  const alerts = await read<AlertData>('alerts')
+  const administrations = await read<Omit<PersistedAdministration, 'simTime'>>('administrations')
+  const storeState = await read<PersistedStoreState>('storeState')
+  legacy.close()
+  const doses = await db.getAllFromIndex('sessionLog', 'by-type', 'mar/administered')
+  const patientOf = alertPatients(storeState)
+
+  const tx = db.transaction(
+    ['patients', 'sessions', 'alerts', 'administrations', 'storeState'],
+    'readwrite',
+  )
+  const copy = async <S extends Exclude<StoreName, 'sessionLog'>>(
+    store: S,
+    records: StoreValue<SimCernerDB, S>[],
+  ) => {
+    const target = tx.objectStore(store)
+    for (const record of records) {
+      if ((await target.getKey(keyOf(store, record))) === undefined) await target.put(record)
+    }
+  }
+  await copy('patients', patients)
+  await copy('sessions', sessions)
+  await copy(
+    'alerts',
+    alerts.flatMap((alert) => {
+      const patientMrn = patientOf.get(alert.id)
+      return patientMrn ? [{ ...alert, patientMrn }] : []
+    }),
+  )
+  await copy(
+    'administrations',
+    administrations.map((a) => ({ ...a, simTime: administeredSimTime(a, doses) })),
+  )
+  await copy('storeState', storeState)
+  await tx.done
+
+  await deleteDB(LEGACY_DB_NAME)
+}
+
+// ---------------------------------------------------------------------------
+// Connection
+// ---------------------------------------------------------------------------
 
 let dbPromise: Promise<IDBPDatabase<SimCernerDB>> | null = null
 
 function getDB() {
   if (!dbPromise) {
+    let migrationError: unknown
     dbPromise = openDB<SimCernerDB>(DB_NAME, DB_VERSION, {
-      upgrade(db) {
-        const patientStore = db.createObjectStore('patients', { keyPath: 'mrn' })
-        patientStore.createIndex('by-name', 'name')
-
-        db.createObjectStore('sessionLog', {
-          keyPath: 'timestamp',
+      upgrade(db, oldVersion, _newVersion, tx) {
+        // The open fails once the aborted upgrade settles; keep the cause for it.
+        migrate(db, oldVersion, tx).catch((err: unknown) => {
+          migrationError = err
         })
       },
-    })
+    }).then(
+      async (db) => {
+        await importLegacyDatabase(db).catch((err) => {
+          console.warn('[db] Failed to import the old database:', err)
+        })
+        return db
+      },
+      (err: unknown) => {
+        // Let the next call try the upgrade again.
+        dbPromise = null
+        console.error('[db] Failed to open the database:', migrationError ?? err)
+        throw migrationError ?? err
+      },
+    )
   }
   return dbPromise
 }
 
-export async function savePatient(patient: Patient): Promise<void> {
+let available: boolean | null = null
+
+/** Whether IndexedDB can be used here. Checked once. */
+function isAvailable(): boolean {
+  if (available !== null) return available
+
+  try {
+    available = typeof indexedDB !== 'undefined' && typeof indexedDB?.open === 'function'
+  } catch {
+    available = false
+  }
+
+  if (!available) {
+    console.warn('[db] IndexedDB not available — using in-memory fallback')
+  }
+  return available
+}
+
+// ---------------------------------------------------------------------------
+// Object store access
+// ---------------------------------------------------------------------------
+
+/** Records kept in memory when IndexedDB is unavailable, by store and key */
+const memory: { [S in StoreName]: Map<StoreKey<SimCernerDB, S>, StoreValue<SimCernerDB, S>> } = {
+  patients: new Map(),
+  sessionLog: new Map(),
+  sessions: new Map(),
+  alerts: new Map(),
+  administrations: new Map(),
+  storeState: new Map(),
+}
+
+/** Last key handed out for the in-memory audit trail */
+let memoryLogKey = 0
+
+/** The value at a record's key path */
+function field(record: object, path: string): unknown {
+  return (record as Record<string, unknown>)[path]
+}
+
+function keyOf<S extends StoreName>(store: S, value: StoreValue<SimCernerDB, S>) {
+  return field(value, KEY_PATHS[store]) as StoreKey<SimCernerDB, S>
+}
+
+/** In-memory records whose index key satisfies a test, in key order as IndexedDB returns them */
+function memoryIndex<S extends StoreName>(
+  store: S,
+  index: IndexNames<SimCernerDB, S>,
+  test: (key: unknown) => boolean,
+): StoreValue<SimCernerDB, S>[] {
+  const path = INDEX_KEY_PATHS[store][index]
+  return [...memory[store].values()]
+    .filter((value) => test(field(value, path)))
+    .sort((a, b) => {
+      const ka = field(a, path) as string | number
+      const kb = field(b, path) as string | number
+      return ka < kb ? -1 : ka > kb ? 1 : 0
+    })
+}
+
+async function put<S extends StoreName>(
+  store: S,
+  value: StoreValue<SimCernerDB, S>,
+): Promise<void> {
+  if (!isAvailable()) {
+    memory[store].set(keyOf(store, value), value)
+    return
+  }
   const db = await getDB()
-  await db.put('patients', patient)
+  await db.put(store, value)
+}
+
+async function get<S extends StoreName>(
+  store: S,
+  key: StoreKey<SimCernerDB, S>,
+): Promise<StoreValue<SimCernerDB, S> | undefined> {
+  if (!isAvailable()) return memory[store].get(key)
+  const db = await getDB()
+  return db.get(store, key)
+}
+
+async function getAll<S extends StoreName>(store: S): Promise<StoreValue<SimCernerDB, S>[]> {
+  if (!isAvailable()) return [...memory[store].values()]
+  const db = await getDB()
+  return db.getAll(store)
+}
+
+/** Records whose index key equals `key` */
+async function getAllFromIndex<S extends StoreName, I extends IndexNames<SimCernerDB, S>>(
+  store: S,
+  index: I,
+  key: IndexKey<SimCernerDB, S, I>,
+): Promise<StoreValue<SimCernerDB, S>[]> {
+  if (!isAvailable()) return memoryIndex(store, index, (k) => k === key)
+  const db = await getDB()
+  return db.getAllFromIndex(store, index, key)
+}
+
+/** Records whose index key lies between `from` and `to`, inclusive */
+async function getRangeFromIndex<S extends StoreName, I extends IndexNames<SimCernerDB, S>>(
+  store: S,
+  index: I,
+  from: IndexKey<SimCernerDB, S, I>,
+  to: IndexKey<SimCernerDB, S, I>,
+): Promise<StoreValue<SimCernerDB, S>[]> {
+  if (!isAvailable()) {
+    return memoryIndex(store, index, (k) => k !== undefined && k !== null && k >= from && k <= to)
+  }
+  const db = await getDB()
+  return db.getAllFromIndex(store, index, IDBKeyRange.bound(from, to))
+}
+
+async function remove<S extends StoreName>(store: S, key: StoreKey<SimCernerDB, S>): Promise<void> {
+  if (!isAvailable()) {
+    memory[store].delete(key)
+    return
+  }
+  const db = await getDB()
+  await db.delete(store, key)
+}
+
+async function clear(store: StoreName): Promise<void> {
+  if (!isAvailable()) {
+    memory[store].clear()
+    return
+  }
+  const db = await getDB()
+  await db.clear(store)
+}
+
+// ---------------------------------------------------------------------------
+// Patients
+// ---------------------------------------------------------------------------
+
+export async function savePatient(patient: Patient): Promise<void> {
+  await put('patients', patient)
 }
 
 export async function saveAllPatients(patients: Patient[]): Promise<void> {
+  if (!isAvailable()) {
+    for (const patient of patients) memory.patients.set(patient.mrn, patient)
+    return
+  }
   const db = await getDB()
   const tx = db.transaction('patients', 'readwrite')
   await Promise.all([...patients.map((p) => tx.store.put(p)), tx.done])
 }
 
 export async function getPatient(mrn: string): Promise<Patient | undefined> {
-  const db = await getDB()
-  return db.get('patients', mrn)
+  return get('patients', mrn)
 }
 
 export async function getAllPatients(): Promise<Patient[]> {
-  const db = await getDB()
-  return db.getAll('patients')
+  return getAll('patients')
 }
 
-export async function logAction(action: string, detail: string): Promise<void> {
+// ---------------------------------------------------------------------------
+// Audit trail
+// ---------------------------------------------------------------------------
+
+/** Append a learner action to the audit trail. Resolves to its new key. */
+export async function logAction(action: LearnerAction): Promise<number> {
+  // Let the store assign the key; an explicit undefined id is rejected.
+  const record = { ...action }
+  delete record.id
+
+  if (!isAvailable()) {
+    const id = ++memoryLogKey
+    memory.sessionLog.set(id, { ...record, id })
+    return id
+  }
   const db = await getDB()
-  await db.add('sessionLog', {
-    timestamp: Date.now(),
-    action,
-    detail,
+  return db.add('sessionLog', record)
+}
+
+/**
+ * Read the audit trail in recorded order, optionally limited to one
+ * browser session.
+ */
+export async function getSessionLog(sessionId?: string): Promise<LearnerAction[]> {
+  if (sessionId) return getAllFromIndex('sessionLog', 'by-session', sessionId)
+  return getAll('sessionLog')
+}
+
+/** Actions concerning one patient, in recorded order */
+export async function getPatientActions(patientMrn: string): Promise<LearnerAction[]> {
+  const actions = await getAllFromIndex('sessionLog', 'by-mrn', patientMrn)
+  return actions.sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+}
+
+/** Actions recorded during one scenario run, in recorded order */
+export async function getScenarioRunActions(scenarioRunId: string): Promise<LearnerAction[]> {
+  const actions = await getAllFromIndex('sessionLog', 'by-scenario-run', scenarioRunId)
+  return actions.sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+}
+
+/**
+ * Actions whose simulation time falls between two instants, inclusive,
+ * in simulation-time order.
+ */
+export async function getActionsBetween(from: Date, to: Date): Promise<LearnerAction[]> {
+  return getRangeFromIndex('sessionLog', 'by-sim-time', from.toISOString(), to.toISOString())
+}
+
+/** Delete every recorded learner action. */
+export async function clearSessionLog(): Promise<void> {
+  await clear('sessionLog')
+}
+
+// ---------------------------------------------------------------------------
+// Sessions
+// ---------------------------------------------------------------------------
+
+export async function saveSession(session: PersistedSession): Promise<void> {
+  await put('sessions', session)
+}
+
+/** The most recent session snapshot */
+export async function getSession(): Promise<PersistedSession | undefined> {
+  return get('sessions', 'current')
+}
+
+// ---------------------------------------------------------------------------
+// Alerts
+// ---------------------------------------------------------------------------
+
+export async function saveAlert(patientMrn: string, alert: AlertData): Promise<void> {
+  await put('alerts', { ...alert, patientMrn })
+}
+
+/** The alert history, optionally limited to one patient */
+export async function getAlertHistory(patientMrn?: string): Promise<PersistedAlert[]> {
+  if (patientMrn) return getAllFromIndex('alerts', 'by-mrn', patientMrn)
+  return getAll('alerts')
+}
+
+// ---------------------------------------------------------------------------
+// Administrations
+// ---------------------------------------------------------------------------
+
+export async function saveAdministration(admin: PersistedAdministration): Promise<void> {
+  await put('administrations', admin)
+}
+
+export async function getAllAdministrations(): Promise<PersistedAdministration[]> {
+  return getAll('administrations')
+}
+
+/**
+ * Save a dose documented on the MAR, keyed by its record ID. Saving it
+ * again (e.g. after a PRN reassessment) keeps the wall-clock time it was
+ * first charted.
+ */
+export async function saveMedicationAdministration(
+  patientMrn: string,
+  medicationName: string,
+  administration: MedicationAdministration,
+): Promise<void> {
+  const existing = await get('administrations', administration.id)
+  await put('administrations', {
+    id: administration.id,
+    patientMrn,
+    medicationName,
+    timestamp: existing?.timestamp ?? new Date().toISOString(),
+    simTime: administration.timestamp,
+    nurse: administration.nurse,
+    status: administration.status,
+    notes: administration.reason,
+    scheduledAt: administration.scheduledAt,
+    site: administration.site,
+    witness: administration.witness,
+    overrideReason: administration.overrideReason,
+    prn: administration.prn,
   })
 }
+
+/** One patient's administrations, in simulation-time order */
+export async function getAdministrations(patientMrn: string): Promise<PersistedAdministration[]> {
+  const administrations = await getAllFromIndex('administrations', 'by-mrn', patientMrn)
+  return administrations.sort((a, b) => a.simTime.localeCompare(b.simTime))
+}
+
+const ADMINISTRATION_STATUSES: ReadonlySet<string> = new Set([
+  MedicationDoseStatus.GIVEN,
+  MedicationDoseStatus.HELD,
+  MedicationDoseStatus.REFUSED,
+  MedicationDoseStatus.NOT_GIVEN,
+])
+
+/**
+ * A saved administration as a medication history record, or null if its
+ * status is not one a nurse documents.
+ */
+export function toMedicationAdministration(
+  record: PersistedAdministration,
+): MedicationAdministration | null {
+  if (!ADMINISTRATION_STATUSES.has(record.status)) return null
+  return {
+    id: record.id,
+    scheduledAt: record.scheduledAt ?? null,
+    timestamp: record.simTime,
+    status: record.status as MedicationAdministration['status'],
+    nurse: record.nurse,
+    ...(record.notes && { reason: record.notes }),
+    ...(record.site && { site: record.site }),
+    ...(record.witness && { witness: record.witness }),
+    ...(record.prn && { prn: record.prn }),
+    ...(record.overrideReason && { overrideReason: record.overrideReason }),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Store state
+// ---------------------------------------------------------------------------
+
+export async function saveStoreState(snapshot: PersistedStoreState): Promise<void> {
+  await put('storeState', snapshot)
+}
+
+/** A store's saved snapshot, by the name given to the `persist` middleware */
+export async function getStoreState(name: string): Promise<PersistedStoreState | undefined> {
+  return get('storeState', name)
+}
+
+/**
+ * Last snapshot read or written for each store, by name. A store is only
+ * written once it has been read, so state set before hydration cannot
+ * overwrite the saved snapshot.
+ */
+const storeSnapshots = new Map<string, StorageValue<unknown> | null>()
+
+/**
+ * Storage for the Zustand `persist` middleware, backed by the store state
+ * object store. Values are saved as-is (IndexedDB clones them, so `Date`
+ * fields survive) and only written when a field of the persisted state has
+ * changed since the last read or write.
+ *
+ * @example
+ * ```ts
+ * persist(creator, { name: 'clock', version: 1, storage: createStoreStorage() })
+ * ```
+ */
+export function createStoreStorage<S>(): PersistStorage<S, Promise<void>> {
+  return {
+    async getItem(name) {
+      try {
+        const record = await getStoreState(name)
+        const value = record ? { state: record.state as S, version: record.version } : null
+        storeSnapshots.set(name, value)
+        return value
+      } catch (err) {
+        console.warn(`[db] Failed to restore ${name} store:`, err)
+        storeSnapshots.set(name, null)
+        return null
+      }
+    },
+
+    async setItem(name, value) {
+      if (!storeSnapshots.has(name)) return
+      const last = storeSnapshots.get(name)
+      if (last && last.version === value.version && shallow(last.state, value.state)) return
+
+      storeSnapshots.set(name, value)
+      try {
+        await saveStoreState({
+          id: name,
+          version: value.version ?? 0,
+          state: value.state,
+          savedAt: new Date().toISOString(),
+        })
+      } catch (err) {
+        console.warn(`[db] Failed to save ${name} store:`, err)
+      }
+    },
+
+    async removeItem(name) {
+      storeSnapshots.set(name, null)
+      await remove('storeState', name)
+    },
+  }
+}
+
+/** Persisted state of a store that holds the patient roster */
+interface PatientRosterState {
+  patients: Record<string, Patient>
+}
+
+/** How a roster store's snapshot records its patients: by MRN, saved apart */
+type SavedRosterState<S> = Omit<S, 'patients'> & {
+  patientMrns?: string[]
+  /** The whole roster, as snapshots written before patients were saved apart held it */
+  patients?: Record<string, Patient>
+}
+
+/**
+ * Storage for a `persist` middleware whose state holds the patient roster.
+ * Each patient is saved as its own record in the patients object store and
+ * the snapshot keeps only their MRNs, so a change to one patient rewrites
+ * that patient alone rather than the whole roster. Otherwise behaves as
+ * {@link createStoreStorage}.
+ *
+ * @example
+ * ```ts
+ * persist(creator, { name: 'patients', version: 3, storage: createPatientStoreStorage() })
+ * ```
+ */
+export function createPatientStoreStorage<S extends PatientRosterState>(): PersistStorage<
+  S,
+  Promise<void>
+> {
+  return {
+    async getItem(name) {
+      try {
+        const record = await getStoreState(name)
+        let value: StorageValue<S> | null = null
+        if (record) {
+          const { patientMrns, ...saved } = record.state as SavedRosterState<S>
+          let patients = saved.patients ?? {}
+          if (patientMrns) {
+            const found = await Promise.all(patientMrns.map((mrn) => getPatient(mrn)))
+            patients = Object.fromEntries(
+              found.filter((p): p is Patient => p !== undefined).map((p) => [p.mrn, p]),
+            )
+          }
+          value = { state: { ...saved, patients } as unknown as S, version: record.version }
+        }
+        storeSnapshots.set(name, value)
+        return value
+      } catch (err) {
+        console.warn(`[db] Failed to restore ${name} store:`, err)
+        storeSnapshots.set(name, null)
+        return null
+      }
+    },
+
+    async setItem(name, value) {
+      if (!storeSnapshots.has(name)) return
+      const last = storeSnapshots.get(name) as StorageValue<S> | null
+      if (last && last.version === value.version && shallow(last.state, value.state)) return
+
+      storeSnapshots.set(name, value)
+      // Patients are compared by reference: the store replaces a patient it changes.
+      const before = last && last.version === value.version ? last.state.patients : {}
+      const { patients, ...rest } = value.state
+      try {
+        await Promise.all([
+          ...Object.values(patients)
+            .filter((patient) => before[patient.mrn] !== patient)
+            .map((patient) => put('patients', patient)),
+          ...Object.keys(before)
+            .filter((mrn) => !(mrn in patients))
+            .map((mrn) => remove('patients', mrn)),
+          saveStoreState({
+            id: name,
+            version: value.version ?? 0,
+            state: { ...rest, patientMrns: Object.keys(patients) },
+            savedAt: new Date().toISOString(),
+          }),
+        ])
+      } catch (err) {
+        console.warn(`[db] Failed to save ${name} store:`, err)
+      }
+    },
+
+    async removeItem(name) {
+      storeSnapshots.set(name, null)
+      await Promise.all([remove('storeState', name), clear('patients')])
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Bulk operations
+// ---------------------------------------------------------------------------
+
+/**
+ * Clear every object store except the audit trail, resetting the
+ * simulation to a clean state.
+ */
+export async function clearAll(): Promise<void> {
+  for (const name of storeSnapshots.keys()) storeSnapshots.set(name, null)
+  await Promise.all([
+    clear('patients'),
+    clear('sessions'),
+    clear('alerts'),
+    clear('administrations'),
+    clear('storeState'),
+  ])
+}
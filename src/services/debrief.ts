@@ -0,0 +1,486 @@
+/**
+ * @file debrief.ts
+ * @description Post-simulation debrief report builder.
+ *
+ * Merges a patient's charted observations, the Discern alerts those
+ * observations raise (replayed through `evaluateAlerts`), and the
+ * learner's recorded actions into a single simulation-time timeline, and
+ * derives the performance metrics facilitators debrief on:
+ * - Time from the first EW Score 4-5 or higher to a documented escalation
+ * - Time from the first E-zone trigger to a MET call or MET-MEO order
+ * - Scheduled MAR doses that went overdue
+ * - Alerts still unacknowledged
+ *
+ * Pure functions only; the debrief view gathers the inputs from the stores.
+ */
+
+import { ESCALATION_RANGES, evaluateAlerts, getScoreRange, type AlertData } from './alertEngine';
+import { calculateQadds, getChartForm, getPatientChartVariant } from './qaddsCalculator';
+import {
+  DOSE_DUE_WINDOW_MINUTES,
+  findDoseAdministration,
+  getScheduledDoses,
+  getUnslottedGivenAt,
+  timeToMinutes,
+} from './marSchedule';
+import { getStopLevel } from './bcma';
+import { parseChartDateTime } from './scenarioEngine';
+import type { Patient, VitalSign } from '../types';
+import type { ChartVariant, ClinicalRisk, QaddsScore } from '../types/vitals';
+import type { LearnerAction } from '../types/actionLog';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Source of a timeline entry. */
+export type DebriefEntryKind = 'physiology' | 'alert' | 'action';
+
+/** One row of the debrief timeline. */
+export interface DebriefTimelineEntry {
+  /** ISO-8601 simulation time. */
+  simTime: string;
+  kind: DebriefEntryKind;
+  title: string;
+  detail?: string;
+  /** Clinical risk, for physiology and alert rows. */
+  risk?: ClinicalRisk;
+}
+
+/** An observation set replayed through the scoring and alert engines. */
+export interface ReplayedObservation {
+  vitals: VitalSign;
+  /** ISO-8601 simulation time the set was charted. */
+  simTime: string;
+  score: QaddsScore;
+  /** Response tier the score falls in on the chart form (see `getScoreRange`). */
+  range: AlertData['ewsRange'] | null;
+  /** Alerts `evaluateAlerts` raises for the set. */
+  alerts: AlertData[];
+}
+
+/** A scheduled MAR dose and when it was actioned. */
+export interface ScheduledDose {
+  medicationName: string;
+  /** ISO-8601 simulation time the dose was scheduled for. */
+  scheduledAt: string;
+  /** ISO-8601 simulation time the dose was actioned, or null if never. */
+  actionedAt: string | null;
+}
+
+/** A scheduled dose that was not actioned within the MAR's due window. */
+export interface OverdueDose extends ScheduledDose {
+  /** Minutes past the scheduled time when actioned, or at the report end. */
+  minutesLate: number;
+}
+
+/** Performance metrics derived for the debrief. */
+export interface DebriefMetrics {
+  /** First observation set at EW Score 4-5 or higher (or any E-zone parameter). */
+  firstEwsTriggerAt: string | null;
+  /** First escalation documented at or after that trigger. */
+  escalationAt: string | null;
+  /** Minutes from trigger to escalation; null if either is missing. */
+  escalationMinutes: number | null;
+
+  /** First observation set with an E-zone parameter. */
+  firstEZoneAt: string | null;
+  /** First MET call or MET-MEO order at or after that trigger. */
+  metResponseAt: string | null;
+  /** Minutes from E-zone trigger to MET response; null if either is missing. */
+  metResponseMinutes: number | null;
+
+  overdueDoses: OverdueDose[];
+  unacknowledgedAlerts: AlertData[];
+}
+
+/** Complete debrief report for one patient. */
+export interface DebriefReport {
+  patientMrn: string;
+  patientName: string;
+  /** ISO-8601 simulation time the report window opens. */
+  from: string;
+  /** ISO-8601 simulation time the report window closes. */
+  to: string;
+  /** Timeline entries, oldest first. */
+  timeline: DebriefTimelineEntry[];
+  metrics: DebriefMetrics;
+}
+
+/** Inputs to {@link buildDebriefReport}. */
+export interface DebriefInput {
+  patient: Patient;
+  /** Recorded learner actions; those for other patients are ignored. */
+  actions: readonly LearnerAction[];
+  /** The patient's alerts from the alert store. */
+  alerts: readonly AlertData[];
+  /** Simulation time the report window opens. */
+  from: Date;
+  /** Simulation time the report window closes (normally "now"). */
+  to: Date;
+  /** Chart form to score on; defaults to the patient's own. */
+  variant?: ChartVariant;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const MINUTE_MS = 60_000;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Minutes between two ISO times, rounded to the nearest minute. */
+function minutesBetween(fromIso: string, toIso: string): number {
+  return Math.round((new Date(toIso).getTime() - new Date(fromIso).getTime()) / MINUTE_MS);
+}
+
+/** One-line summary of a vitals set. */
+function summariseVitals(v: VitalSign): string {
+  const parts: string[] = [];
+  if (v.rr !== undefined) parts.push(`RR ${v.rr}`);
+  if (v.spo2 !== undefined) parts.push(`SpO₂ ${v.spo2}%`);
+  if (v.o2FlowRate) parts.push(`O₂ ${v.o2FlowRate} L/min`);
+  if (v.bp_sys !== undefined) parts.push(`BP ${v.bp_sys}/${v.bp_dia ?? '-'}`);
+  if (v.hr !== undefined) parts.push(`HR ${v.hr}`);
+  if (v.temp !== undefined) parts.push(`T ${v.temp}`);
+  if (v.avpu) parts.push(v.avpu);
+  return parts.join(', ');
+}
+
+/**
+ * Title and detail for a learner action, as shown on the timeline.
+ */
+export function describeAction(action: LearnerAction): { title: string; detail?: string } {
+  switch (action.type) {
+    case 'view/changed':
+      return { title: `Opened ${action.payload.to}` };
+    case 'alert/acknowledged':
+      return { title: `Acknowledged alert: ${action.payload.title}` };
+    case 'alert/reviewed':
+      return {
+        title: `Documented ${action.payload.tier} review: ${action.payload.title}`,
+        detail: [action.payload.reviewedBy, action.payload.late ? 'after the deadline' : undefined]
+          .filter(Boolean)
+          .join(' — '),
+      };
+    case 'mar/administered': {
+      const { medicationName, route, scheduledTime, status, reason, nurse, prn, overrideReason } =
+        action.payload;
+      const title = `${medicationName} (${route}) ${status.toLowerCase().replace('_', ' ')}`;
+      const override = overrideReason && `Override: ${overrideReason}`;
+      if (prn) {
+        return {
+          title: `${title} PRN`,
+          detail: [
+            `For ${prn.indication}`,
+            `${prn.scale.toLowerCase()} ${prn.preDoseScore}`,
+            reason,
+            override,
+            nurse,
+          ]
+            .filter(Boolean)
+            .join(' — '),
+        };
+      }
+      return {
+        title,
+        detail: [`Due ${scheduledTime}`, reason, override, nurse].filter(Boolean).join(' — '),
+      };
+    }
+    case 'mar/scanned': {
+      const { medicationName, scheduledTime, entry, stops } = action.payload;
+      const level = getStopLevel(stops);
+      const typed = [
+        entry.wristband === 'typed' && 'wristband typed',
+        entry.barcode === 'typed' && 'barcode typed',
+      ];
+      return {
+        title: level
+          ? `${level === 'hard' ? 'Hard' : 'Soft'} stop scanning ${medicationName}`
+          : `Scanned ${medicationName} — five rights matched`,
+        detail: [
+          scheduledTime === 'PRN' ? 'PRN' : `Due ${scheduledTime}`,
+          ...typed,
+          ...stops.map((s) => s.message),
+        ]
+          .filter(Boolean)
+          .join(' — '),
+      };
+    }
+    case 'mar/prnReassessed': {
+      const { medicationName, scale, preDoseScore, postDoseScore, minutesAfterDose } = action.payload;
+      return {
+        title: `${medicationName} PRN reassessed`,
+        detail: `${scale.toLowerCase()} ${preDoseScore} → ${postDoseScore}, ${minutesAfterDose} min after the dose`,
+      };
+    }
+    case 'order/placed':
+      return {
+        title: `Ordered ${action.payload.name}`,
+        detail: `${action.payload.type}, ${action.payload.priority}`,
+      };
+    case 'order/signed':
+      return { title: `Signed order ${action.payload.name}`, detail: action.payload.type };
+    case 'meo/ordered':
+      return { title: 'Ordered MET-MEO', detail: action.payload.summary };
+    case 'meo/cancelled':
+      return {
+        title:
+          action.payload.orderType === 'MET_MEO_PLAN'
+            ? 'Cancelled MET-MEO plan'
+            : 'Cancelled modified obs frequency',
+      };
+    case 'meo/assessed':
+      return {
+        title: `Assessed patient as ${action.payload.status === 'DETERIORATING' ? 'deteriorating' : 'stable'} under MET-MEO`,
+      };
+    case 'escalation/documented':
+      return {
+        title: action.payload.tier === 'MET' ? 'Documented MET call' : `Documented ${action.payload.tier} notified`,
+        detail: `EWS ${action.payload.score}`,
+      };
+    case 'sedation/assessed':
+      return { title: `Sedation score ${action.payload.score}` };
+    case 'sepsis/screened':
+      return {
+        title: `Sepsis screen ${action.payload.positive ? 'positive' : 'negative'}`,
+        detail: action.payload.redFlags.length
+          ? `${action.payload.redFlags.length} red flag(s)`
+          : undefined,
+      };
+    case 'iview/signed':
+      return {
+        title: `Signed ${action.payload.entryCount} iView entr${action.payload.entryCount === 1 ? 'y' : 'ies'}`,
+        detail: action.payload.sectionIds.join(', '),
+      };
+  }
+}
+
+/** Whether an action counts as escalating a deteriorating patient. */
+function isEscalation(action: LearnerAction): boolean {
+  return (
+    action.type === 'escalation/documented' ||
+    (action.type === 'meo/ordered' && action.payload.orderType === 'MET_MEO_PLAN')
+  );
+}
+
+/** Whether an action counts as a MET response to an E-zone trigger. */
+function isMetResponse(action: LearnerAction): boolean {
+  return (
+    (action.type === 'escalation/documented' && action.payload.tier === 'MET') ||
+    (action.type === 'meo/ordered' && action.payload.orderType === 'MET_MEO_PLAN')
+  );
+}
+
+/** First action at or after `since` matching the predicate. */
+function firstActionAfter(
+  actions: readonly LearnerAction[],
+  since: string | null,
+  predicate: (action: LearnerAction) => boolean,
+): string | null {
+  if (!since) return null;
+  const sinceMs = new Date(since).getTime();
+  const match = actions.find((a) => new Date(a.simTime).getTime() >= sinceMs && predicate(a));
+  return match?.simTime ?? null;
+}
+
+/**
+ * Scheduled doses falling due within the window that were actioned late
+ * or not at all.
+ */
+function findOverdueDoses(
+  patient: Patient,
+  actions: readonly LearnerAction[],
+  from: Date,
+  to: Date,
+): OverdueDose[] {
+  const overdue: OverdueDose[] = [];
+  const toMs = to.getTime();
+
+  for (const dose of listScheduledDoses(patient, actions, from, to)) {
+    const slotMs = new Date(dose.scheduledAt).getTime();
+    const dueBy = slotMs + DOSE_DUE_WINDOW_MINUTES * MINUTE_MS;
+    const actionedMs = dose.actionedAt ? new Date(dose.actionedAt).getTime() : null;
+
+    if (actionedMs !== null && actionedMs <= dueBy) continue;
+    if (actionedMs === null && toMs <= dueBy) continue;
+
+    overdue.push({
+      ...dose,
+      minutesLate: Math.round(((actionedMs ?? toMs) - slotMs) / MINUTE_MS),
+    });
+  }
+
+  return overdue;
+}
+
+// ---------------------------------------------------------------------------
+// Report
+// ---------------------------------------------------------------------------
+
+/**
+ * Every scheduled dose falling due within the window while its order was
+ * active (see `getScheduledDoses`), oldest first. A dose counts as actioned
+ * by any MAR action (given, held, refused, not given) for the same
+ * medication and dose, by a record of the dose in the medication's
+ * administration history, or by a dose not tied to a slot that covers it on
+ * the MAR (see `getUnslottedGivenAt`).
+ */
+export function listScheduledDoses(
+  patient: Patient,
+  actions: readonly LearnerAction[],
+  from: Date,
+  to: Date,
+): ScheduledDose[] {
+  const doses: ScheduledDose[] = [];
+  const marActions = actions.filter(
+    (a): a is Extract<LearnerAction, { type: 'mar/administered' }> =>
+      a.type === 'mar/administered' && a.patientMrn === patient.mrn,
+  );
+
+  for (const med of patient.medications) {
+    for (const slot of getScheduledDoses(med, from, to)) {
+      const slotMinutes = slot.getHours() * 60 + slot.getMinutes();
+      const earliest = slot.getTime() - DOSE_DUE_WINDOW_MINUTES * MINUTE_MS;
+
+      const action = marActions.find((a) => {
+        if (a.payload.medicationName !== med.name) return false;
+        if (a.payload.scheduledAt) return a.payload.scheduledAt === slot.toISOString();
+        // Actions logged before the MAR recorded the dose date: match on time of day.
+        return (
+          timeToMinutes(a.payload.scheduledTime) === slotMinutes &&
+          new Date(a.simTime).getTime() >= earliest
+        );
+      });
+      const record = findDoseAdministration(med.administrations, slot);
+      const actionedAt =
+        action?.simTime ??
+        record?.timestamp ??
+        getUnslottedGivenAt(med.administrations, slot)?.toISOString() ??
+        null;
+
+      doses.push({ medicationName: med.name, scheduledAt: slot.toISOString(), actionedAt });
+    }
+  }
+
+  return doses.sort((a, b) => a.scheduledAt.localeCompare(b.scheduledAt));
+}
+
+/**
+ * Score each observation set charted within the window, oldest first, and
+ * the alerts `evaluateAlerts` raises for it given the sets charted before
+ * it, on the patient's own chart (CEWT for children) unless another variant
+ * is given. Sets whose date-time cannot be parsed are skipped.
+ */
+export function replayObservations(
+  patient: Patient,
+  from: Date,
+  to: Date,
+  variant: ChartVariant | undefined = getPatientChartVariant(patient, 'qadds', to),
+): ReplayedObservation[] {
+  // Vitals are stored newest-first; replay them oldest-first.
+  return patient.vitals
+    .map((vitals, index) => ({ vitals, index, at: parseChartDateTime(vitals.datetime) }))
+    .filter(
+      (o): o is { vitals: VitalSign; index: number; at: Date } =>
+        o.at !== null && o.at.getTime() >= from.getTime() && o.at.getTime() <= to.getTime(),
+    )
+    .sort((a, b) => a.at.getTime() - b.at.getTime())
+    .map(({ vitals, index, at }) => {
+      const score = calculateQadds(vitals, variant);
+      return {
+        vitals,
+        simTime: at.toISOString(),
+        score,
+        range: getScoreRange(score, variant),
+        alerts: evaluateAlerts(patient.vitals.slice(index), variant),
+      };
+    });
+}
+
+/**
+ * Build the debrief report for one patient over a simulation-time window.
+ *
+ * @example
+ * ```ts
+ * const report = buildDebriefReport({ patient, actions, alerts, from: startedAt, to: now });
+ * report.metrics.escalationMinutes; // e.g. 12
+ * ```
+ */
+export function buildDebriefReport(input: DebriefInput): DebriefReport {
+  const { patient, alerts, from, to } = input;
+  const variant = input.variant ?? getPatientChartVariant(patient, 'qadds', to);
+  const { tool } = getChartForm(variant);
+  const fromMs = from.getTime();
+  const toMs = to.getTime();
+  const inWindow = (ms: number) => ms >= fromMs && ms <= toMs;
+
+  const actions = input.actions
+    .filter((a) => a.patientMrn === patient.mrn && inWindow(new Date(a.simTime).getTime()))
+    .sort((a, b) => a.simTime.localeCompare(b.simTime));
+
+  const timeline: DebriefTimelineEntry[] = [];
+  let firstEwsTriggerAt: string | null = null;
+  let firstEZoneAt: string | null = null;
+
+  for (const { vitals, simTime, score, range, alerts: raised } of replayObservations(patient, from, to, variant)) {
+    const hasEZone = score.emergencyParameters.length > 0;
+
+    timeline.push({
+      simTime,
+      kind: 'physiology',
+      title: `Obs charted — ${tool} ${score.totalScore}${hasEZone ? ' (E)' : ''}`,
+      detail: summariseVitals(vitals),
+      risk: score.clinicalRisk,
+    });
+
+    for (const alert of raised) {
+      timeline.push({
+        simTime,
+        kind: 'alert',
+        title: alert.title,
+        detail: alert.parameters.length > 0 ? alert.parameters.join(', ') : undefined,
+        risk: alert.risk,
+      });
+    }
+
+    if (!firstEwsTriggerAt && ((range !== null && ESCALATION_RANGES.has(range)) || hasEZone)) {
+      firstEwsTriggerAt = simTime;
+    }
+    if (!firstEZoneAt && hasEZone) firstEZoneAt = simTime;
+  }
+
+  for (const action of actions) {
+    if (action.type === 'view/changed') continue;
+    timeline.push({ simTime: action.simTime, kind: 'action', ...describeAction(action) });
+  }
+
+  // Stable sort keeps physiology → alert → action order within a minute.
+  timeline.sort((a, b) => a.simTime.localeCompare(b.simTime));
+
+  const escalationAt = firstActionAfter(actions, firstEwsTriggerAt, isEscalation);
+  const metResponseAt = firstActionAfter(actions, firstEZoneAt, isMetResponse);
+
+  return {
+    patientMrn: patient.mrn,
+    patientName: patient.name,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    timeline,
+    metrics: {
+      firstEwsTriggerAt,
+      escalationAt,
+      escalationMinutes:
+        firstEwsTriggerAt && escalationAt ? minutesBetween(firstEwsTriggerAt, escalationAt) : null,
+      firstEZoneAt,
+      metResponseAt,
+      metResponseMinutes:
+        firstEZoneAt && metResponseAt ? minutesBetween(firstEZoneAt, metResponseAt) : null,
+      overdueDoses: findOverdueDoses(patient, actions, from, to),
+      unacknowledgedAlerts: alerts.filter((a) => !a.acknowledged),
+    },
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * @file instructorChannel.ts
+ * @description BroadcastChannel transport between the instructor console
+ * and the learner's tab.
+ *
+ * Both windows open the same named channel. Messages are structured-cloned
+ * by the browser, so Dates are sent as ISO strings and everything in a
+ * message must be plain data. When BroadcastChannel is unavailable the
+ * channel degrades to a no-op so the EMR still runs.
+ */
+
+import type { InstructorMessage } from '../types/instructor';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Name of the BroadcastChannel shared by learner and instructor windows. */
+export const INSTRUCTOR_CHANNEL_NAME = 'simcerner-instructor';
+
+/** Message types the channel accepts. */
+const MESSAGE_TYPES: ReadonlySet<string> = new Set([
+  'clock/start',
+  'clock/pause',
+  'clock/resume',
+  'clock/advance',
+  'vitals/inject',
+  'vitals/nurse-concern',
+  'alert/fire',
+  'note/add',
+  'status/request',
+  'status',
+]);
+
+// ---------------------------------------------------------------------------
+// Channel
+// ---------------------------------------------------------------------------
+
+/** A typed handle on the instructor channel. */
+export interface InstructorChannel {
+  /** Send a message to every other window on the channel. */
+  post: (message: InstructorMessage) => void;
+
+  /**
+   * Listen for messages from other windows.
+   * @returns A function that removes the listener.
+   */
+  subscribe: (listener: (message: InstructorMessage) => void) => () => void;
+
+  /** Close the channel. */
+  close: () => void;
+}
+
+/** Whether an incoming payload looks like an instructor channel message. */
+export function isInstructorMessage(data: unknown): data is InstructorMessage {
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    MESSAGE_TYPES.has(String((data as { type?: unknown }).type))
+  );
+}
+
+/**
+ * Open the instructor channel. Returns a no-op channel in environments
+ * without BroadcastChannel support.
+ */
+export function openInstructorChannel(): InstructorChannel {
+  if (typeof BroadcastChannel === 'undefined') {
+    return { post: () => {}, subscribe: () => () => {}, close: () => {} };
+  }
+
+  const channel = new BroadcastChannel(INSTRUCTOR_CHANNEL_NAME);
+
+  return {
+    post: (message) => channel.postMessage(message),
+    subscribe: (listener) => {
+      const handler = (event: MessageEvent) => {
+        if (isInstructorMessage(event.data)) listener(event.data);
+      };
+      channel.addEventListener('message', handler);
+      return () => channel.removeEventListener('message', handler);
+    },
+    close: () => channel.close(),
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * MAR Schedule.
+ *
+ * Lays out the Medication Administration Record against the simulation
+ * clock: the window shown (a 12-hour nursing shift, a day or three days),
+ * its columns, the doses of each scheduled medication that fall within it,
+ * and each dose's status. Everything works on date-times rather than time
+ * of day, so doses across midnight and on earlier days are placed and
+ * classified correctly.
+ */
+
+import {
+  MedicationDoseStatus,
+  type MedicationAdministration,
+  type MedicationOrder,
+} from '@/types/medications'
+import { isOrderActiveAt } from '@/services/medicationOrders'
+
+// ---------------------------------------------------------------------------
+// Windows
+// ---------------------------------------------------------------------------
+
+/** Length of the MAR window in hours */
+export type MarWindowHours = 12 | 24 | 72
+
+export const MAR_WINDOW_OPTIONS: ReadonlyArray<{ hours: MarWindowHours; label: string }> = [
+  { hours: 12, label: '12 hr shift' },
+  { hours: 24, label: '24 hr' },
+  { hours: 72, label: '72 hr' },
+]
+
+/** Hours the day and night shifts start */
+export const SHIFT_START_HOURS = [7, 19] as const
+
+/** Column width for each window length */
+const COLUMN_HOURS: Record<MarWindowHours, number> = { 12: 1, 24: 2, 72: 2 }
+
+export interface MarWindow {
+  /** First instant shown */
+  start: Date
+  /** First instant after the window */
+  end: Date
+  hours: MarWindowHours
+  /** Hours covered by each column */
+  columnHours: number
+}
+
+/** A copy of `date` moved by whole local hours, so 19:00 + 12 is 07:00 the next day across DST */
+function addHours(date: Date, hours: number): Date {
+  const moved = new Date(date)
+  moved.setHours(moved.getHours() + hours)
+  return moved
+}
+
+/**
+ * The MAR window of `hours` containing `anchor`, moved `offset` windows
+ * earlier (negative) or later. A 12-hour window is the nursing shift
+ * (07:00–19:00 or 19:00–07:00); a 24-hour window the calendar day; a
+ * 72-hour window the day before, the day and the day after.
+ *
+ * @example
+ * ```ts
+ * getMarWindow(new Date(2026, 2, 1, 3, 0), 12)
+ * // → 28-Feb 19:00 until 01-Mar 07:00
+ * ```
+ */
+export function getMarWindow(anchor: Date, hours: MarWindowHours, offset = 0): MarWindow {
+  let start = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate())
+  if (hours === 12) {
+    const [day, night] = SHIFT_START_HOURS
+    const hour = anchor.getHours()
+    start = addHours(start, hour >= night ? night : hour >= day ? day : night - 24)
+  } else if (hours === 72) {
+    start = addHours(start, -24)
+  }
+  start = addHours(start, offset * hours)
+
+  return { start, end: addHours(start, hours), hours, columnHours: COLUMN_HOURS[hours] }
+}
+
+/** Start time of each column in the window */
+export function getMarColumns(window: MarWindow): Date[] {
+  const columns: Date[] = []
+  for (let at = window.start; at < window.end; at = addHours(at, window.columnHours)) {
+    columns.push(at)
+  }
+  return columns
+}
+
+/** Index of the column containing `at`, or -1 if it is outside the window */
+export function getColumnIndex(columns: readonly Date[], window: MarWindow, at: Date): number {
+  if (at < window.start || at >= window.end) return -1
+  let index = 0
+  while (index + 1 < columns.length && columns[index + 1] <= at) index++
+  return index
+}
+
+// ---------------------------------------------------------------------------
+// Doses
+// ---------------------------------------------------------------------------
+
+/** A dose is due from this long before its time until this long after; then it is overdue */
+export const DOSE_DUE_WINDOW_MINUTES = 60
+
+const MINUTE_MS = 60_000
+
+/** Minutes since midnight of an "HH:mm" or "HHmm" time; null if it is not one */
+export function timeToMinutes(time: string): number | null {
+  const match = /^(\d{1,2}):?(\d{2})$/.exec(time.trim())
+  if (!match) return null
+  return Number(match[1]) * 60 + Number(match[2])
+}
+
+/**
+ * Date-times of a medication's scheduled doses from `from` (inclusive) to
+ * `to` (exclusive), oldest first, while its order is active. Unscheduled
+ * (PRN, STAT) medications have none.
+ */
+export function getScheduledDoses(
+  order: Pick<MedicationOrder, 'scheduled' | 'times' | 'startAt' | 'stopAt'>,
+  from: Date,
+  to: Date,
+): Date[] {
+  if (!order.scheduled) return []
+  const minutes = order.times
+    .map(timeToMinutes)
+    .filter((m): m is number => m !== null)
+    .sort((a, b) => a - b)
+
+  const doses: Date[] = []
+  const day = new Date(from.getFullYear(), from.getMonth(), from.getDate())
+  for (; day < to; day.setDate(day.getDate() + 1)) {
+    for (const m of minutes) {
+      const dose = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, m)
+      if (dose >= from && dose < to && isOrderActiveAt(order, dose)) doses.push(dose)
+    }
+  }
+  return doses
+}
+
+/**
+ * A medication's scheduled doses in the window, grouped by the column each
+ * falls in. A wide column (e.g. 2-hourly) can hold more than one dose, such
+ * as 08:00 and 09:00 doses; none is dropped.
+ */
+export function getDosesByColumn(
+  order: Pick<MedicationOrder, 'scheduled' | 'times' | 'startAt' | 'stopAt'>,
+  window: MarWindow,
+  columns: readonly Date[],
+): Date[][] {
+  const byColumn: Date[][] = columns.map(() => [])
+  for (const dose of getScheduledDoses(order, window.start, window.end)) {
+    const index = getColumnIndex(columns, window, dose)
+    if (index >= 0) byColumn[index].push(dose)
+  }
+  return byColumn
+}
+
+/**
+ * The record documenting the dose scheduled at `scheduledAt`, if any; the
+ * latest wins when a dose was documented more than once
+ */
+export function findDoseAdministration(
+  administrations: readonly MedicationAdministration[],
+  scheduledAt: Date,
+): MedicationAdministration | undefined {
+  const key = scheduledAt.toISOString()
+  for (let i = administrations.length - 1; i >= 0; i--) {
+    if (administrations[i].scheduledAt === key) return administrations[i]
+  }
+  return undefined
+}
+
+/** When the medication was last given, or null if it never has been */
+export function getLastGiven(administrations: readonly MedicationAdministration[]): Date | null {
+  let last: Date | null = null
+  for (const record of administrations) {
+    if (record.status !== MedicationDoseStatus.GIVEN) continue
+    const at = new Date(record.timestamp)
+    if (!last || at > last) last = at
+  }
+  return last
+}
+
+/**
+ * When a dose not tied to a slot (such as a last-given time from the patient
+ * file) covers the dose scheduled at `scheduledAt`: the last such dose, if
+ * it was given at or after the dose time; otherwise null
+ */
+export function getUnslottedGivenAt(
+  administrations: readonly MedicationAdministration[],
+  scheduledAt: Date,
+): Date | null {
+  const lastGiven = getLastGiven(administrations.filter((r) => r.scheduledAt === null))
+  return lastGiven && scheduledAt <= lastGiven ? lastGiven : null
+}
+
+/**
+ * Status of a scheduled dose at `now`, rebuilt from the administration
+ * history: the outcome documented against the dose if there is one, GIVEN
+ * if a dose not tied to a slot covers it ({@link getUnslottedGivenAt}), then
+ * DUE within {@link DOSE_DUE_WINDOW_MINUTES} either side of the dose time,
+ * OVERDUE after that, and PENDING before.
+ */
+export function getDoseStatus(
+  scheduledAt: Date,
+  now: Date,
+  administrations: readonly MedicationAdministration[],
+): MedicationDoseStatus {
+  const record = findDoseAdministration(administrations, scheduledAt)
+  if (record) return record.status
+
+  if (getUnslottedGivenAt(administrations, scheduledAt)) return MedicationDoseStatus.GIVEN
+
+  const minutesLate = (now.getTime() - scheduledAt.getTime()) / MINUTE_MS
+  if (minutesLate >= DOSE_DUE_WINDOW_MINUTES) return MedicationDoseStatus.OVERDUE
+  if (Math.abs(minutesLate) <= DOSE_DUE_WINDOW_MINUTES) return MedicationDoseStatus.DUE
+  return MedicationDoseStatus.PENDING
+}
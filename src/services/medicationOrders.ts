@@ -0,0 +1,387 @@
+/**
+ * Medication Orders.
+ *
+ * Reads medication orders into the structured {@link MedicationOrder} model
+ * and formats them for display. Patient files written before the model
+ * give dose, route and frequency as free text ("500 mg", "Oral", "PRN (up
+ * to 4 times daily)") and times as "HHmm"; {@link normalizeMedication}
+ * upgrades those, turns a single last-given time into the start of the
+ * administration history, and passes structured orders through unchanged,
+ * so it is safe to run on data already normalised.
+ */
+
+import type { Medication, MedicationStatus } from '@/types/patient'
+import {
+  MedicationDoseStatus,
+  MedicationRoute,
+  type DoseUnit,
+  type FrequencyCode,
+  type MedicationDose,
+  type MedicationAdministration,
+  type MedicationFrequency,
+  type MedicationOrder,
+} from '@/types/medications'
+import { parseChartDateTime } from '@/services/scenarioEngine'
+
+// ---------------------------------------------------------------------------
+// Vocabularies
+// ---------------------------------------------------------------------------
+
+/** Display label for each route, as the MAR shows it */
+export const ROUTE_LABELS: Record<MedicationRoute, string> = {
+  PO: 'Oral',
+  SL: 'Sublingual',
+  IV: 'IV',
+  IM: 'IM',
+  SC: 'Subcutaneous',
+  PR: 'Rectal',
+  INH: 'Inhaled',
+  NEB: 'Nebulised',
+  TOP: 'Topical',
+  TD: 'Transdermal',
+  NG: 'Nasogastric',
+  OTHER: 'Other',
+}
+
+/** Free-text routes, lower case, by the route they mean */
+const ROUTE_ALIASES: Record<string, MedicationRoute> = {
+  po: 'PO',
+  oral: 'PO',
+  orally: 'PO',
+  'by mouth': 'PO',
+  sl: 'SL',
+  sublingual: 'SL',
+  iv: 'IV',
+  intravenous: 'IV',
+  'iv infusion': 'IV',
+  'iv bolus': 'IV',
+  im: 'IM',
+  intramuscular: 'IM',
+  sc: 'SC',
+  subcut: 'SC',
+  subcutaneous: 'SC',
+  'sub-cut': 'SC',
+  pr: 'PR',
+  rectal: 'PR',
+  inh: 'INH',
+  inhaled: 'INH',
+  inhalation: 'INH',
+  neb: 'NEB',
+  nebulised: 'NEB',
+  nebulized: 'NEB',
+  top: 'TOP',
+  topical: 'TOP',
+  td: 'TD',
+  transdermal: 'TD',
+  ng: 'NG',
+  nasogastric: 'NG',
+  'ng tube': 'NG',
+}
+
+/** Free-text units, lower case, by the unit they mean */
+const UNIT_ALIASES: Record<string, DoseUnit> = {
+  mg: 'mg',
+  milligram: 'mg',
+  milligrams: 'mg',
+  g: 'g',
+  gm: 'g',
+  gram: 'g',
+  grams: 'g',
+  mcg: 'microgram',
+  ug: 'microgram',
+  µg: 'microgram',
+  microgram: 'microgram',
+  micrograms: 'microgram',
+  ml: 'mL',
+  l: 'L',
+  litre: 'L',
+  litres: 'L',
+  unit: 'units',
+  units: 'units',
+  iu: 'units',
+  mmol: 'mmol',
+  tab: 'tablet',
+  tabs: 'tablet',
+  tablet: 'tablet',
+  tablets: 'tablet',
+  cap: 'capsule',
+  caps: 'capsule',
+  capsule: 'capsule',
+  capsules: 'capsule',
+  puff: 'puff',
+  puffs: 'puff',
+  drop: 'drop',
+  drops: 'drop',
+  sachet: 'sachet',
+  sachets: 'sachet',
+  patch: 'patch',
+  patches: 'patch',
+}
+
+/** Units counted in whole items, pluralised for amounts other than 1 */
+const COUNTED_UNITS: Partial<Record<DoseUnit, string>> = {
+  tablet: 'tablets',
+  capsule: 'capsules',
+  puff: 'puffs',
+  drop: 'drops',
+  sachet: 'sachets',
+  patch: 'patches',
+}
+
+/** Display label and fixed interval of each frequency code */
+export const FREQUENCIES: Record<FrequencyCode, { label: string; intervalHours: number | null }> = {
+  STAT: { label: 'STAT', intervalHours: null },
+  ONCE: { label: 'ONCE only', intervalHours: null },
+  DAILY: { label: 'ONCE a day', intervalHours: 24 },
+  MANE: { label: 'ONCE a day (morning)', intervalHours: 24 },
+  NOCTE: { label: 'ONCE a day (night)', intervalHours: 24 },
+  BD: { label: 'TWICE a day', intervalHours: 12 },
+  TDS: { label: 'THREE TIMES a day', intervalHours: 8 },
+  QDS: { label: 'FOUR TIMES a day', intervalHours: 6 },
+  INTERVAL: { label: 'every', intervalHours: null },
+  WEEKLY: { label: 'ONCE a week', intervalHours: 168 },
+  PRN: { label: 'PRN', intervalHours: null },
+}
+
+/** Frequencies that are not given on a fixed daily schedule */
+const UNSCHEDULED: readonly FrequencyCode[] = ['STAT', 'ONCE', 'PRN']
+
+/** Regular frequency for a number of scheduled times a day */
+const BY_TIMES_A_DAY: Record<number, FrequencyCode> = { 1: 'DAILY', 2: 'BD', 3: 'TDS', 4: 'QDS' }
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** A frequency read from free text, with what else the text said */
+export interface ParsedFrequency {
+  frequency: MedicationFrequency
+  /** "up to 4 times daily", "max 4 doses" */
+  maxPrnDosesPer24h: number | null
+  /** Bracketed qualifiers that are not a PRN maximum, e.g. "with meals" */
+  comment: string | null
+}
+
+/** Route from free text ("Oral", "IV", "Subcutaneous"); OTHER if unrecognised */
+export function parseRoute(text: string): MedicationRoute {
+  const key = text.trim().toLowerCase()
+  if ((Object.values(MedicationRoute) as string[]).includes(text.trim())) {
+    return text.trim() as MedicationRoute
+  }
+  return ROUTE_ALIASES[key] ?? 'OTHER'
+}
+
+/** Dose from free text and whatever follows it ("10 mL of 10%" → 10 mL, "of 10%") */
+function readDose(text: string): { dose: MedicationDose | null; rest: string } {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([a-zA-Zµ]+)\b\s*(.*)$/.exec(text)
+  const unit = match ? UNIT_ALIASES[match[2].toLowerCase()] : undefined
+  if (!match || !unit) return { dose: null, rest: text.trim() }
+  return { dose: { amount: Number(match[1]), unit }, rest: match[3].trim() }
+}
+
+/** Dose from free text ("500mg", "8 units"); null if there is no amount and known unit */
+export function parseDose(text: string): MedicationDose | null {
+  return readDose(text).dose
+}
+
+/**
+ * Frequency from free text: abbreviations (BD, TDS, QDS, Q4H, PRN) and
+ * Cerner phrasing ("TWICE a day", "PRN (up to 3 times daily)"). Returns
+ * null when the text names no frequency.
+ */
+export function parseFrequency(text: string): ParsedFrequency | null {
+  const qualifiers = [...text.matchAll(/\(([^)]*)\)/g)].map((m) => m[1].trim())
+  const base = text.replace(/\([^)]*\)/g, ' ').toUpperCase()
+
+  const maxPattern = /(?:UP TO|MAX(?:IMUM)?)\s*(\d+)/i
+  const max = maxPattern.exec(text)
+  const comment = qualifiers.filter((q) => q && !maxPattern.test(q)).join('; ') || null
+
+  const every = /\bQ\s*(\d+)\s*H\b|EVERY\s*(\d+)\s*HOURS?|(\d+)\s*-?\s*HOURLY/.exec(base)
+  const intervalHours = every ? Number(every[1] ?? every[2] ?? every[3]) : null
+
+  let code: FrequencyCode | null = null
+  if (/\bPRN\b|AS REQUIRED|WHEN REQUIRED|AS NEEDED/.test(base)) code = 'PRN'
+  else if (/\bSTAT\b/.test(base)) code = 'STAT'
+  else if (/ONCE ONLY|SINGLE DOSE/.test(base)) code = 'ONCE'
+  else if (intervalHours) code = 'INTERVAL'
+  else if (/WEEKLY|ONCE A WEEK/.test(base)) code = 'WEEKLY'
+  else if (/\bQDS\b|\bQID\b|FOUR TIMES/.test(base)) code = 'QDS'
+  else if (/\bTDS\b|\bTID\b|THREE TIMES/.test(base)) code = 'TDS'
+  else if (/\bBD\b|\bBID\b|TWICE/.test(base)) code = 'BD'
+  else if (/\bMANE\b|MORNING/.test(base)) code = 'MANE'
+  else if (/\bNOCTE\b|NIGHT|BEDTIME/.test(base)) code = 'NOCTE'
+  else if (/\bDAILY\b|ONCE A DAY|\bOD\b/.test(base)) code = 'DAILY'
+  if (!code) return null
+
+  return {
+    frequency: {
+      code,
+      intervalHours:
+        code === 'INTERVAL' || code === 'PRN' ? intervalHours : FREQUENCIES[code].intervalHours,
+    },
+    maxPrnDosesPer24h: code === 'PRN' && max ? Number(max[1]) : null,
+    comment,
+  }
+}
+
+/** "0800" or "8:00" as "08:00"; null if not a time of day */
+export function normalizeTime(text: string): string | null {
+  const match = /^(\d{1,2}):?(\d{2})$/.exec(text.trim())
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null
+  return `${match[1].padStart(2, '0')}:${match[2]}`
+}
+
+function toStr(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() !== '' ? value : undefined
+}
+
+function toIso(value: unknown): string | null {
+  const text = toStr(value)
+  return (text && parseChartDateTime(text)?.toISOString()) || null
+}
+
+function isDose(value: unknown): value is MedicationDose {
+  return typeof value === 'object' && value !== null && 'amount' in value && 'unit' in value
+}
+
+function isFrequency(value: unknown): value is MedicationFrequency {
+  return typeof value === 'object' && value !== null && 'code' in value
+}
+
+/**
+ * The administration history of a medication entry; for entries that only
+ * record when the last dose was given, that dose as a GIVEN record not tied
+ * to a MAR slot
+ */
+function readAdministrations(raw: Record<string, unknown>): MedicationAdministration[] {
+  if (Array.isArray(raw.administrations)) return raw.administrations as MedicationAdministration[]
+  const timestamp = toIso(raw.lastGiven)
+  if (!timestamp) return []
+  return [
+    {
+      id: `imported-${timestamp}`,
+      scheduledAt: null,
+      timestamp,
+      status: MedicationDoseStatus.GIVEN,
+      nurse: toStr(raw.administeredBy) ?? '',
+    },
+  ]
+}
+
+/**
+ * A medication entry from a patient file or a saved session as a
+ * structured order. Legacy free-text dose, route and frequency are parsed;
+ * text that does not fit the model is kept in the order comment. A
+ * frequency that cannot be read is taken from the number of scheduled
+ * times, and a legacy `lastGiven`/`administeredBy` pair becomes the first
+ * administration record.
+ *
+ * @example
+ * ```ts
+ * normalizeMedication({ name: 'ramipril', dose: '5 mg', route: 'Oral', frequency: 'TWICE a day', times: ['0800', '2000'] })
+ * // → dose { amount: 5, unit: 'mg' }, route 'PO', frequency { code: 'BD', intervalHours: 12 }, times ['08:00', '20:00']
+ * ```
+ */
+export function normalizeMedication(raw: Record<string, unknown>): Medication {
+  const comments: string[] = []
+
+  let dose: MedicationDose | null = null
+  if (isDose(raw.dose) || raw.dose === null) {
+    dose = raw.dose
+  } else {
+    const read = readDose(String(raw.dose ?? ''))
+    dose = read.dose
+    if (read.rest) comments.push(read.rest)
+  }
+
+  const times = (Array.isArray(raw.times) ? raw.times : [])
+    .map((t) => normalizeTime(String(t)))
+    .filter((t): t is string => t !== null)
+
+  let frequency: MedicationFrequency
+  let maxPrnDosesPer24h = typeof raw.maxPrnDosesPer24h === 'number' ? raw.maxPrnDosesPer24h : null
+  if (isFrequency(raw.frequency)) {
+    frequency = raw.frequency
+  } else {
+    const text = String(raw.frequency ?? '')
+    const parsed = parseFrequency(text)
+    if (parsed) {
+      frequency = parsed.frequency
+      maxPrnDosesPer24h ??= parsed.maxPrnDosesPer24h
+      if (parsed.comment) comments.push(parsed.comment)
+    } else {
+      const code = BY_TIMES_A_DAY[times.length] ?? (raw.scheduled === false ? 'PRN' : 'ONCE')
+      frequency = { code, intervalHours: FREQUENCIES[code].intervalHours }
+      if (text.trim()) comments.push(text.trim())
+    }
+  }
+
+  const order: MedicationOrder = {
+    name: String(raw.name ?? ''),
+    dose,
+    route: parseRoute(String(raw.route ?? '')),
+    frequency,
+    scheduled:
+      typeof raw.scheduled === 'boolean' ? raw.scheduled : !UNSCHEDULED.includes(frequency.code),
+    times,
+    startAt: toIso(raw.startAt ?? raw.start ?? raw.startDate),
+    stopAt: toIso(raw.stopAt ?? raw.stop ?? raw.stopDate),
+    maxPrnDosesPer24h,
+    indication: toStr(raw.indication) ?? null,
+    prescriber: toStr(raw.prescriber),
+    comment: toStr(raw.comment) ?? (comments.join('; ') || undefined),
+  }
+
+  return {
+    ...order,
+    administrations: readAdministrations(raw),
+    status: (toStr(raw.status) as MedicationStatus | undefined) ?? 'active',
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Display
+// ---------------------------------------------------------------------------
+
+/** "500 mg", "2 tablets"; an em dash when the dose is not recorded */
+export function formatDose(dose: MedicationDose | null): string {
+  if (!dose) return '—'
+  const unit = dose.amount !== 1 ? (COUNTED_UNITS[dose.unit] ?? dose.unit) : dose.unit
+  return `${dose.amount} ${unit}`
+}
+
+/** "Oral", "IV", "Subcutaneous" */
+export function formatRoute(route: MedicationRoute): string {
+  return ROUTE_LABELS[route] ?? route
+}
+
+/** "TWICE a day", "every 4 hours", "PRN 4 hourly (up to 4 times daily)" */
+export function formatFrequency(
+  order: Pick<MedicationOrder, 'frequency' | 'maxPrnDosesPer24h'>,
+): string {
+  const { code, intervalHours } = order.frequency
+  if (code === 'INTERVAL') {
+    return intervalHours === 1 ? 'every hour' : `every ${intervalHours} hours`
+  }
+  if (code === 'PRN') {
+    const gap = intervalHours ? ` ${intervalHours} hourly` : ''
+    const max = order.maxPrnDosesPer24h ? ` (up to ${order.maxPrnDosesPer24h} times daily)` : ''
+    return `PRN${gap}${max}`
+  }
+  return FREQUENCIES[code].label
+}
+
+// ---------------------------------------------------------------------------
+// Order state
+// ---------------------------------------------------------------------------
+
+/** Whether an order has started and not yet stopped at a given time */
+export function isOrderActiveAt(
+  order: Pick<MedicationOrder, 'startAt' | 'stopAt'>,
+  at: Date,
+): boolean {
+  if (order.startAt && at.getTime() < new Date(order.startAt).getTime()) return false
+  if (order.stopAt && at.getTime() >= new Date(order.stopAt).getTime()) return false
+  return true
+}
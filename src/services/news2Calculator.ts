@@ -0,0 +1,251 @@
+/**
+ * NEWS2 (National Early Warning Score 2) Score Calculator.
+ *
+ * Implements the Royal College of Physicians NEWS2 (2017) for sites that
+ * observe adults on NEWS2 rather than Q-ADDS. Each of 7 parameters scores
+ * 0–3; there is no E zone. A score of 3 in any single parameter (a "red
+ * score") calls for an urgent ward-based response on its own.
+ *
+ * Results use the Q-ADDS result shape so every view and the alert engine
+ * take them unchanged, and {@link calculateQadds} dispatches here for the
+ * NEWS2 chart forms. The NEWS2 response bands map onto the clinical risk
+ * tiers as follows:
+ *
+ * | NEWS2                    | Clinical risk |
+ * |--------------------------|---------------|
+ * | 0                        | Routine       |
+ * | 1–4                      | Low           |
+ * | 3 in a single parameter  | Moderate      |
+ * | 5–6                      | High          |
+ * | 7 or more                | Emergency     |
+ *
+ * Source: Royal College of Physicians. National Early Warning Score (NEWS)
+ * 2: Standardising the assessment of acute-illness severity in the NHS.
+ * London: RCP, 2017.
+ */
+
+import type { VitalSign } from '@/types/patient'
+import type {
+  ClinicalRisk,
+  QaddsParameter,
+  QaddsScore,
+  QaddsSubScore,
+  QaddsSubScoreValue,
+  QaddsSubScores,
+  ThresholdBand,
+} from '@/types/vitals'
+import { isOnOxygen, parseValue } from '@/services/qaddsCalculator'
+
+// ---------------------------------------------------------------------------
+// Threshold Tables
+// ---------------------------------------------------------------------------
+
+/**
+ * Respiratory Rate (breaths/min):
+ *   ≤8 → 3, 9-11 → 1, 12-20 → 0, 21-24 → 2, ≥25 → 3
+ */
+const RR_THRESHOLDS: ThresholdBand[] = [
+  { min: -Infinity, max: 8, score: 3 },
+  { min: 9, max: 11, score: 1 },
+  { min: 12, max: 20, score: 0 },
+  { min: 21, max: 24, score: 2 },
+  { min: 25, max: Infinity, score: 3 },
+]
+
+/**
+ * SpO₂ Scale 1:
+ *   ≤91 → 3, 92-93 → 2, 94-95 → 1, ≥96 → 0
+ */
+const SPO2_SCALE1_THRESHOLDS: ThresholdBand[] = [
+  { min: -Infinity, max: 91, score: 3 },
+  { min: 92, max: 93, score: 2 },
+  { min: 94, max: 95, score: 1 },
+  { min: 96, max: Infinity, score: 0 },
+]
+
+/**
+ * SpO₂ Scale 2 (target 88-92%, hypercapnic respiratory failure):
+ *   ≤83 → 3, 84-85 → 2, 86-87 → 1, 88-92 → 0, ≥93 on air → 0,
+ *   93-94 on O₂ → 1, 95-96 on O₂ → 2, ≥97 on O₂ → 3
+ */
+const SPO2_SCALE2_THRESHOLDS: ThresholdBand[] = [
+  { min: -Infinity, max: 83, score: 3 },
+  { min: 84, max: 85, score: 2 },
+  { min: 86, max: 87, score: 1 },
+  { min: 88, max: 92, score: 0 },
+]
+
+/** SpO₂ Scale 2 above target while on supplemental O₂. */
+const SPO2_SCALE2_ON_O2_THRESHOLDS: ThresholdBand[] = [
+  { min: 93, max: 94, score: 1 },
+  { min: 95, max: 96, score: 2 },
+  { min: 97, max: Infinity, score: 3 },
+]
+
+/**
+ * Systolic Blood Pressure (mmHg):
+ *   ≤90 → 3, 91-100 → 2, 101-110 → 1, 111-219 → 0, ≥220 → 3
+ */
+const SBP_THRESHOLDS: ThresholdBand[] = [
+  { min: -Infinity, max: 90, score: 3 },
+  { min: 91, max: 100, score: 2 },
+  { min: 101, max: 110, score: 1 },
+  { min: 111, max: 219, score: 0 },
+  { min: 220, max: Infinity, score: 3 },
+]
+
+/**
+ * Pulse (beats/min):
+ *   ≤40 → 3, 41-50 → 1, 51-90 → 0, 91-110 → 1, 111-130 → 2, ≥131 → 3
+ */
+const HR_THRESHOLDS: ThresholdBand[] = [
+  { min: -Infinity, max: 40, score: 3 },
+  { min: 41, max: 50, score: 1 },
+  { min: 51, max: 90, score: 0 },
+  { min: 91, max: 110, score: 1 },
+  { min: 111, max: 130, score: 2 },
+  { min: 131, max: Infinity, score: 3 },
+]
+
+/**
+ * Temperature (°C):
+ *   ≤35.0 → 3, 35.1-36.0 → 1, 36.1-38.0 → 0, 38.1-39.0 → 1, ≥39.1 → 2
+ */
+const TEMP_THRESHOLDS: ThresholdBand[] = [
+  { min: -Infinity, max: 35.0, score: 3 },
+  { min: 35.1, max: 36.0, score: 1 },
+  { min: 36.1, max: 38.0, score: 0 },
+  { min: 38.1, max: 39.0, score: 1 },
+  { min: 39.1, max: Infinity, score: 2 },
+]
+
+/**
+ * ACVPU consciousness: Alert → 0; new Confusion, Voice, Pain or
+ * Unresponsive → 3. The Q-ADDS "Changing Behaviour" level is new confusion.
+ */
+const CONSCIOUSNESS_SCORES: Record<string, 0 | 3> = {
+  Alert: 0,
+  A: 0,
+  'Changing Behaviour': 3,
+  C: 3,
+  Voice: 3,
+  V: 3,
+  Pain: 3,
+  P: 3,
+  Unresponsive: 3,
+  U: 3,
+}
+
+// ---------------------------------------------------------------------------
+// Scoring Functions
+// ---------------------------------------------------------------------------
+
+function lookupScore(thresholds: ThresholdBand[], value: number): QaddsSubScoreValue {
+  return thresholds.find((band) => value >= band.min && value <= band.max)?.score ?? 0
+}
+
+function scoreNumericParam(
+  parameter: QaddsParameter,
+  rawValue: string | number | undefined,
+  thresholds: ThresholdBand[],
+): QaddsSubScore {
+  const numVal = parseValue(rawValue)
+  if (numVal === null) return { parameter, value: '', score: 0 }
+  return { parameter, value: numVal, score: lookupScore(thresholds, numVal) }
+}
+
+/**
+ * Score SpO₂ on scale 1, or on scale 2 for patients with a prescribed 88-92%
+ * target. On scale 2, saturations of 93% and above only score while on O₂.
+ */
+function scoreSpo2(vitals: VitalSign, scale2: boolean, onOxygen: boolean): QaddsSubScore {
+  if (!scale2) return scoreNumericParam('spo2', vitals.spo2, SPO2_SCALE1_THRESHOLDS)
+
+  const sub = scoreNumericParam('spo2', vitals.spo2, SPO2_SCALE2_THRESHOLDS)
+  if (typeof sub.value === 'number' && sub.value >= 93 && onOxygen) {
+    return { ...sub, score: lookupScore(SPO2_SCALE2_ON_O2_THRESHOLDS, sub.value) }
+  }
+  return sub
+}
+
+/** Air or oxygen: 2 for any supplemental O₂, regardless of flow. */
+function scoreAirOrOxygen(vitals: VitalSign, onOxygen: boolean): QaddsSubScore {
+  return { parameter: 'o2FlowRate', value: parseValue(vitals.o2FlowRate) ?? 0, score: onOxygen ? 2 : 0 }
+}
+
+function scoreConsciousness(avpu: string | undefined): QaddsSubScore {
+  const normalised = (avpu ?? '').trim()
+  if (normalised === '') return { parameter: 'consciousness', value: '', score: 0 }
+  return { parameter: 'consciousness', value: normalised, score: CONSCIOUSNESS_SCORES[normalised] ?? 0 }
+}
+
+/** Map the NEWS2 aggregate and red-score rule onto the clinical risk tiers. */
+function deriveRisk(totalScore: number, hasRedScore: boolean): ClinicalRisk {
+  if (totalScore >= 7) return 'Emergency'
+  if (totalScore >= 5) return 'High'
+  if (hasRedScore) return 'Moderate'
+  if (totalScore >= 1) return 'Low'
+  return 'Routine'
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Calculate the NEWS2 score for a single set of vital sign observations.
+ *
+ * Parameters not charted score 0 and are listed in `missingParameters`.
+ * NEWS2 has no E zone, so `emergencyParameters` is always empty; any
+ * parameter scoring 3 is listed in `redParameters` instead.
+ *
+ * @param vitals - The vital sign observation set to score
+ * @param scale2 - Score SpO₂ on scale 2 (default scale 1)
+ */
+export function calculateNews2(vitals: VitalSign, scale2 = false): QaddsScore {
+  const onOxygen = isOnOxygen(vitals)
+
+  const subScores: QaddsSubScores = {
+    rr: scoreNumericParam('rr', vitals.rr, RR_THRESHOLDS),
+    spo2: scoreSpo2(vitals, scale2, onOxygen),
+    o2FlowRate: scoreAirOrOxygen(vitals, onOxygen),
+    systolicBP: scoreNumericParam('systolicBP', vitals.bp_sys, SBP_THRESHOLDS),
+    heartRate: scoreNumericParam('heartRate', vitals.hr, HR_THRESHOLDS),
+    temperature: scoreNumericParam('temperature', vitals.temp, TEMP_THRESHOLDS),
+    consciousness: scoreConsciousness(vitals.avpu),
+  }
+
+  const allScores = Object.values(subScores)
+  const redParameters = allScores.filter((s) => s.score === 3).map((s) => s.parameter)
+  const totalScore = allScores.reduce((sum, s) => sum + Number(s.score), 0)
+
+  return {
+    totalScore,
+    hasEmergency: false,
+    emergencyParameters: [],
+    redParameters,
+    clinicalRisk: deriveRisk(totalScore, redParameters.length > 0),
+    subScores,
+    missingParameters: allScores.filter((s) => s.value === '').map((s) => s.parameter),
+  }
+}
+
+/**
+ * Get the NEWS2 clinical response for a clinical risk tier (RCP NEWS2
+ * chart 4). Unlike Q-ADDS, the response does not differ for stable and
+ * deteriorating patients.
+ */
+export function getNews2EscalationText(risk: ClinicalRisk): string {
+  switch (risk) {
+    case 'Routine':
+      return '12 hourly observations (minimum). Continue routine NEWS monitoring.'
+    case 'Low':
+      return '4–6 hourly observations (minimum). Inform registered nurse, who must assess the patient and decide whether increased monitoring or escalation is required.'
+    case 'Moderate':
+      return '1 hourly observations (minimum). Registered nurse to inform the medical team caring for the patient, who will review and decide whether escalation of care is necessary.'
+    case 'High':
+      return '1 hourly observations (minimum). Registered nurse to immediately inform the medical team caring for the patient and request urgent assessment by a clinician competent in the care of acutely ill patients. Provide care in an environment with monitoring facilities.'
+    case 'Emergency':
+      return 'Continuous monitoring of vital signs. Registered nurse to immediately inform the medical team, at least at specialist registrar level. Emergency assessment by a team with critical care competencies, including advanced airway skills. Consider transfer to level 2 or 3 care.'
+  }
+}
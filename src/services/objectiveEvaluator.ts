@@ -0,0 +1,278 @@
+/**
+ * @file objectiveEvaluator.ts
+ * @description Scores a scenario's objectives into a competency checklist.
+ *
+ * Each {@link ScenarioObjective} is checked against the learner action log,
+ * the patient's replayed observations, and MET-MEO state (MET-MEO orders
+ * and sedation assessments from `useMeoStore`), and given a status:
+ * - `pass`    — done within the time allowed (or, for a withhold
+ *               objective, nothing matching was given once triggered)
+ * - `late`    — done, but after the time allowed
+ * - `fail`    — time allowed has passed without it being done, or a
+ *               withheld medication was given
+ * - `pending` — not yet triggered, or still within the time allowed
+ *
+ * A failed objective becomes `late` if the learner does it afterwards.
+ */
+
+import { ESCALATION_RANGES, createAlert, type AlertData } from './alertEngine';
+import { replayObservations } from './debrief';
+import type { Patient } from '../types';
+import type { ChartVariant } from '../types/vitals';
+import type { EscalationTier, LearnerAction } from '../types/actionLog';
+import type { MetMeoOrder, SedationAssessment } from '../types/meo';
+import type { ScenarioObjective } from '../types/scenario';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Checklist status of an objective. */
+export type ObjectiveStatus = 'pass' | 'late' | 'fail' | 'pending';
+
+/** Result of checking one objective. */
+export interface ObjectiveResult {
+  objective: ScenarioObjective;
+  /** Checklist wording. */
+  description: string;
+  status: ObjectiveStatus;
+  /** ISO-8601 sim time the objective was triggered, or null if not yet. */
+  triggeredAt: string | null;
+  /** ISO-8601 sim time the objective was due by, if time-limited. */
+  dueAt: string | null;
+  /** ISO-8601 sim time the objective was met (or breached, for withhold). */
+  completedAt: string | null;
+}
+
+/** Inputs to {@link evaluateObjectives}. */
+export interface ObjectiveInput {
+  objectives: readonly ScenarioObjective[];
+  patient: Patient;
+  /** Recorded learner actions; those for other patients are ignored. */
+  actions: readonly LearnerAction[];
+  /** The patient's MET-MEO plan orders from `useMeoStore`. */
+  metMeoOrders: readonly MetMeoOrder[];
+  /** The patient's sedation assessments from `useMeoStore`. */
+  sedationAssessments: readonly SedationAssessment[];
+  /** Simulation time the scenario started. */
+  startedAt: Date;
+  /** Current simulation time. */
+  now: Date;
+  /** Chart form to score on; defaults to the patient's own. */
+  variant?: ChartVariant;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Seniority of escalation tiers; a higher tier satisfies a lower one. */
+const TIER_RANK: Record<EscalationTier, number> = { RMO: 1, Registrar: 2, MET: 3 };
+
+const MINUTE_MS = 60_000;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Case-insensitive substring match of any of `names` in `value`. */
+function matchesAny(value: string, names: readonly string[]): boolean {
+  const lower = value.toLowerCase();
+  return names.some((n) => lower.includes(n.toLowerCase()));
+}
+
+/** Checklist wording generated from an objective's rule. */
+export function describeObjective(objective: ScenarioObjective): string {
+  if (objective.description) return objective.description;
+  const within =
+    'withinMinutes' in objective && objective.withinMinutes !== undefined
+      ? ` within ${objective.withinMinutes} min`
+      : '';
+
+  switch (objective.kind) {
+    case 'acknowledge-alert':
+      return `Acknowledge "${createAlert(objective.ewsRange).title}" alert${within}`;
+    case 'order':
+      return `Order ${objective.names.join(' and ')}${within}`;
+    case 'escalate':
+      return `${objective.tier === 'MET' ? 'Call MET' : `Escalate to ${objective.tier ?? 'RMO'}`}${within} of ${objective.minScore !== undefined ? `EWS ≥ ${objective.minScore}` : 'escalation criteria'}`;
+    case 'met-meo':
+      return `Order a MET-MEO plan${within} of MET criteria`;
+    case 'withhold-medication':
+      return `Withhold ${objective.names.join(', ')} when sedation score ≥ ${objective.sedationScoreAtLeast}`;
+  }
+}
+
+/** Status of a time-limited "do this" objective. */
+function timedStatus(
+  triggeredAt: string | null,
+  dueAt: string | null,
+  completedAt: string | null,
+  now: Date,
+): ObjectiveStatus {
+  if (!triggeredAt) return 'pending';
+  if (completedAt) return dueAt && completedAt > dueAt ? 'late' : 'pass';
+  return dueAt && now.toISOString() > dueAt ? 'fail' : 'pending';
+}
+
+/** First action at or after `since` matching the predicate. */
+function firstAfter(
+  actions: readonly LearnerAction[],
+  since: string,
+  predicate: (action: LearnerAction) => boolean,
+): LearnerAction | undefined {
+  return actions.find((a) => a.simTime >= since && predicate(a));
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+/**
+ * Check every objective against what has happened so far.
+ *
+ * @example
+ * ```ts
+ * const results = evaluateObjectives({
+ *   objectives: scenario.objectives ?? [],
+ *   patient, actions, metMeoOrders, sedationAssessments,
+ *   startedAt: new Date(startedAt), now: currentTime,
+ * });
+ * ```
+ */
+export function evaluateObjectives(input: ObjectiveInput): ObjectiveResult[] {
+  const { objectives, patient, metMeoOrders, sedationAssessments, startedAt, now, variant } = input;
+  const startIso = startedAt.toISOString();
+  const nowIso = now.toISOString();
+
+  const actions = input.actions
+    .filter((a) => a.patientMrn === patient.mrn && a.simTime >= startIso && a.simTime <= nowIso)
+    .sort((a, b) => a.simTime.localeCompare(b.simTime));
+  const observations = replayObservations(patient, startedAt, now, variant);
+
+  /** Sim time of the first obs set matching the predicate. */
+  const firstObs = (predicate: (o: (typeof observations)[number]) => boolean) =>
+    observations.find(predicate)?.simTime ?? null;
+
+  return objectives.map((objective): ObjectiveResult => {
+    let triggeredAt: string | null = null;
+    let completedAt: string | null = null;
+
+    switch (objective.kind) {
+      case 'acknowledge-alert': {
+        const range: AlertData['ewsRange'] = objective.ewsRange;
+        triggeredAt = firstObs((o) => o.alerts.some((a) => a.ewsRange === range));
+        if (triggeredAt) {
+          completedAt =
+            firstAfter(
+              actions,
+              triggeredAt,
+              (a) => a.type === 'alert/acknowledged' && a.payload.ewsRange === range,
+            )?.simTime ?? null;
+        }
+        break;
+      }
+
+      case 'order': {
+        triggeredAt = startIso;
+        // Met once every named order has been placed; timed by the last.
+        const placed = objective.names.map(
+          (name) =>
+            firstAfter(actions, startIso, (a) => a.type === 'order/placed' && matchesAny(a.payload.name, [name]))
+              ?.simTime,
+        );
+        completedAt = placed.every((t): t is string => t !== undefined)
+          ? placed.reduce((latest, t) => (t > latest ? t : latest))
+          : null;
+        break;
+      }
+
+      case 'escalate': {
+        const { minScore } = objective;
+        const required = TIER_RANK[objective.tier ?? 'RMO'];
+        // Without a minimum score, from EW Score 4-5 on the chart form.
+        triggeredAt = firstObs(
+          (o) =>
+            (minScore !== undefined
+              ? o.score.totalScore >= minScore
+              : o.range !== null && ESCALATION_RANGES.has(o.range)) ||
+            o.score.emergencyParameters.length > 0,
+        );
+        if (triggeredAt) {
+          completedAt =
+            firstAfter(
+              actions,
+              triggeredAt,
+              (a) => a.type === 'escalation/documented' && TIER_RANK[a.payload.tier] >= required,
+            )?.simTime ?? null;
+        }
+        break;
+      }
+
+      case 'met-meo': {
+        triggeredAt = firstObs(
+          (o) => o.range === '>=8' || o.score.emergencyParameters.length > 0,
+        );
+        // Only plans still on record as active or expired count; a cancelled
+        // plan was withdrawn.
+        const standing = new Set(
+          metMeoOrders.filter((o) => o.status !== 'CANCELLED').map((o) => o.orderId),
+        );
+        if (triggeredAt) {
+          completedAt =
+            firstAfter(
+              actions,
+              triggeredAt,
+              (a) =>
+                a.type === 'meo/ordered' &&
+                a.payload.orderType === 'MET_MEO_PLAN' &&
+                standing.has(a.payload.orderId),
+            )?.simTime ?? null;
+        }
+        break;
+      }
+
+      case 'withhold-medication': {
+        const threshold = objective.sedationScoreAtLeast;
+        triggeredAt =
+          sedationAssessments
+            .filter((s) => s.score >= threshold && s.assessmentTime >= startIso && s.assessmentTime <= nowIso)
+            .map((s) => s.assessmentTime)
+            .sort()[0] ?? null;
+        if (triggeredAt) {
+          completedAt =
+            firstAfter(
+              actions,
+              triggeredAt,
+              (a) =>
+                a.type === 'mar/administered' &&
+                a.payload.status === 'GIVEN' &&
+                matchesAny(a.payload.medicationName, objective.names),
+            )?.simTime ?? null;
+        }
+        return {
+          objective,
+          description: describeObjective(objective),
+          status: !triggeredAt ? 'pending' : completedAt ? 'fail' : 'pass',
+          triggeredAt,
+          dueAt: null,
+          completedAt,
+        };
+      }
+    }
+
+    const dueAt =
+      triggeredAt && objective.withinMinutes !== undefined
+        ? new Date(new Date(triggeredAt).getTime() + objective.withinMinutes * MINUTE_MS).toISOString()
+        : null;
+
+    return {
+      objective,
+      description: describeObjective(objective),
+      status: timedStatus(triggeredAt, dueAt, completedAt, now),
+      triggeredAt,
+      dueAt,
+      completedAt,
+    };
+  });
+}
@@ -0,0 +1,171 @@
+/**
+ * Observation Schedule.
+ *
+ * Works out when a patient's next full set of observations is due, from:
+ *
+ *   - The last set's score: the minimum frequency for its risk tier on the
+ *     patient's chart (Q-ADDS graded response, CEWT, or NEWS2 chart 4); on
+ *     Q-ADDS, the deteriorating frequency when the obs show a trend
+ *   - An active Modified Observation Frequency (MOF) order, which replaces
+ *     the score frequency while the patient is below the MET range
+ *   - An active MET-MEO plan, under which a patient in the MET range who is
+ *     not deteriorating needs ½ hourly obs instead of 10 minutely
+ *
+ * The due time runs from the date-time the last set was charted, so the
+ * schedule follows the simulation clock rather than wall time.
+ */
+
+import type { VitalSign } from '@/types/patient'
+import type { ChartForm, ChartVariant, ClinicalRisk, PatientStatus } from '@/types/vitals'
+import type { MetMeoOrder, ModifiedObsFrequencyOrder } from '@/types/meo'
+import { calculateQadds, getChartForm, getObservationFrequency } from '@/services/qaddsCalculator'
+import { detectTrends } from '@/services/observationTrends'
+import { parseChartDateTime } from '@/services/scenarioEngine'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** What set the observation frequency */
+export type ObsFrequencyBasis = 'score' | 'mof' | 'met-meo'
+
+export interface ObsSchedule {
+  /** ISO datetime the last set was charted */
+  lastObsAt: string
+  /** ISO datetime the next set is due */
+  dueAt: string
+  intervalMinutes: number
+  /** Whole minutes until due; negative once overdue */
+  minutesRemaining: number
+  overdue: boolean
+  basis: ObsFrequencyBasis
+  /** Frequency and what set it, e.g. "2 hourly (EWS 4)" */
+  description: string
+}
+
+// ---------------------------------------------------------------------------
+// Frequencies
+// ---------------------------------------------------------------------------
+
+/** Minimum frequency by chart; CEWT and NEWS2 have no separate deteriorating frequency */
+const CEWT_INTERVAL_MINUTES: Record<ClinicalRisk, number> = {
+  Routine: 240,
+  Low: 120,
+  Moderate: 60,
+  High: 30,
+  Emergency: 10,
+}
+
+/** NEWS2 "4–6 hourly" is taken at its shortest; "continuous" as 10 minutely */
+const NEWS2_INTERVAL_MINUTES: Record<ClinicalRisk, number> = {
+  Routine: 720,
+  Low: 240,
+  Moderate: 60,
+  High: 60,
+  Emergency: 10,
+}
+
+/** Frequency under an active MET-MEO plan while the patient is in the MET range */
+export const MET_MEO_INTERVAL_MINUTES = 30
+
+/** Minutes between sets for a Q-ADDS frequency: "4-hourly", "Half-hourly", "10-minutely" */
+function frequencyToMinutes(frequency: string): number {
+  if (frequency === 'Half-hourly') return 30
+  const [count, unit] = frequency.split('-')
+  return Number(count) * (unit === 'hourly' ? 60 : 1)
+}
+
+/**
+ * Minimum observation interval for a risk tier on a chart form. On Q-ADDS
+ * this is the graded response frequency (see `getObservationFrequency`),
+ * shorter for a deteriorating patient; CEWT and NEWS2 have one frequency
+ * per tier.
+ */
+export function getObsIntervalMinutes(
+  form: ChartForm,
+  risk: ClinicalRisk,
+  status: PatientStatus = 'stable',
+): number {
+  if (form.paediatric) return CEWT_INTERVAL_MINUTES[risk]
+  if (form.system === 'news2') return NEWS2_INTERVAL_MINUTES[risk]
+  return frequencyToMinutes(getObservationFrequency(risk, status))
+}
+
+/** "10 minutely", "½ hourly", "4 hourly" */
+export function formatObsInterval(minutes: number): string {
+  if (minutes === 30) return '½ hourly'
+  if (minutes < 60 || minutes % 60 !== 0) return `${minutes} minutely`
+  return `${minutes / 60} hourly`
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export interface ObsScheduleInput {
+  /** Observation history, newest first */
+  vitals: readonly VitalSign[]
+  variant?: ChartVariant
+  /** The patient's active MOF order, if any */
+  mofOrder?: ModifiedObsFrequencyOrder | null
+  /** The patient's active MET-MEO plan, if any */
+  metMeoOrder?: MetMeoOrder | null
+  now: Date
+}
+
+/**
+ * When the next set of observations is due. Returns null when the patient
+ * has no observations, or the last set's date-time cannot be read.
+ *
+ * @example
+ * ```ts
+ * const schedule = getObsSchedule({ vitals: patient.vitals, variant, mofOrder, now })
+ * if (schedule?.overdue) raiseOverdueAlert()
+ * ```
+ */
+export function getObsSchedule({
+  vitals,
+  variant,
+  mofOrder = null,
+  metMeoOrder = null,
+  now,
+}: ObsScheduleInput): ObsSchedule | null {
+  const latest = vitals[0]
+  const lastObsAt = latest ? parseChartDateTime(latest.datetime) : null
+  if (!latest || !lastObsAt) return null
+
+  const score = calculateQadds(latest, variant)
+  const form = getChartForm(variant)
+  const inMetRange = score.clinicalRisk === 'Emergency'
+  const status: PatientStatus = detectTrends(vitals, variant).length > 0 ? 'deteriorating' : 'stable'
+
+  let basis: ObsFrequencyBasis = 'score'
+  let intervalMinutes = getObsIntervalMinutes(form, score.clinicalRisk, status)
+  let reason = score.hasEmergency ? 'E zone' : `EWS ${score.totalScore}`
+  if (status === 'deteriorating' && intervalMinutes < getObsIntervalMinutes(form, score.clinicalRisk)) {
+    reason += ', deteriorating'
+  }
+
+  if (inMetRange && metMeoOrder) {
+    basis = 'met-meo'
+    intervalMinutes = MET_MEO_INTERVAL_MINUTES
+    reason = 'MET-MEO plan'
+  } else if (!inMetRange && mofOrder) {
+    basis = 'mof'
+    intervalMinutes = mofOrder.frequencyHours * 60
+    reason = `MOF order, ${mofOrder.authorisingSmoName}`
+  }
+
+  const due = new Date(lastObsAt.getTime() + intervalMinutes * 60_000)
+  const minutesRemaining = Math.floor((due.getTime() - now.getTime()) / 60_000)
+
+  return {
+    lastObsAt: lastObsAt.toISOString(),
+    dueAt: due.toISOString(),
+    intervalMinutes,
+    minutesRemaining,
+    overdue: now.getTime() > due.getTime(),
+    basis,
+    description: `${formatObsInterval(intervalMinutes)} (${reason})`,
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Observation Trend Detection.
+ *
+ * Compares a patient's latest observation set with the sets charted before
+ * it and reports the deterioration criteria the trend meets:
+ *
+ *   - Score higher than last score
+ *   - EWS risen by 2 or more within 4 hours
+ *   - NEW contributing vital sign(s): scored 0 on the previous set
+ *   - Any vital sign(s) worse: already contributing, now scoring higher
+ *   - Systolic BP fallen more than 20% from baseline (the earliest SBP charted)
+ *   - Respiratory rate trending up over three sets while the total is still low
+ *
+ * Each finding carries the wording shown in the Deteriorating row of a
+ * Discern alert. Scores come from `calculateQadds`, so the same trends hold
+ * on Q-ADDS, CEWT and NEWS2 charts.
+ */
+
+import type { VitalSign } from '@/types/patient'
+import type { ChartVariant, QaddsParameter, QaddsScore, QaddsSubScoreValue } from '@/types/vitals'
+import { calculateQadds, getParameterLabel } from '@/services/qaddsCalculator'
+import { parseChartDateTime } from '@/services/scenarioEngine'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ObservationTrendId =
+  | 'score-higher'
+  | 'score-rise'
+  | 'new-parameter'
+  | 'worse-parameter'
+  | 'sbp-fall'
+  | 'rr-rising'
+
+export interface ObservationTrend {
+  id: ObservationTrendId
+  /** Criterion wording with the values that met it, e.g. "Score higher than last score (2 → 4)" */
+  label: string
+  /** Parameters involved, for the parameter criteria */
+  parameters: QaddsParameter[]
+}
+
+// ---------------------------------------------------------------------------
+// Thresholds
+// ---------------------------------------------------------------------------
+
+/** Rise in total score that counts as a trend within {@link SCORE_RISE_WINDOW_HOURS} */
+export const SCORE_RISE_THRESHOLD = 2
+export const SCORE_RISE_WINDOW_HOURS = 4
+
+/** Fraction of the baseline systolic BP the latest reading must fall by */
+export const SBP_FALL_FRACTION = 0.2
+
+/** RR must rise over this many consecutive sets, by at least {@link RR_RISE_MIN} in total */
+export const RR_TREND_SETS = 3
+export const RR_RISE_MIN = 4
+
+/** Highest total score at which a rising RR is reported on its own */
+export const RR_TREND_MAX_SCORE = 3
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ARROW = '\u2192'
+
+function toNumber(value: string | number | undefined): number | null {
+  if (value == null || String(value).trim() === '') return null
+  const n = Number(value)
+  return Number.isNaN(n) ? null : n
+}
+
+/** Sub-score as a number; an E-zone score ranks above 4 */
+function rank(score: QaddsSubScoreValue): number {
+  return score === 'E' ? 5 : score
+}
+
+function labels(parameters: QaddsParameter[]): string {
+  return parameters.map(getParameterLabel).join(', ')
+}
+
+/** Parameters whose sub-score rose since the previous set, split into new and worse */
+function parameterChanges(latest: QaddsScore, previous: QaddsScore) {
+  const added: QaddsParameter[] = []
+  const worse: QaddsParameter[] = []
+  for (const sub of Object.values(latest.subScores)) {
+    if (latest.missingParameters.includes(sub.parameter)) continue
+    if (previous.missingParameters.includes(sub.parameter)) continue
+    const before = rank(previous.subScores[sub.parameter].score)
+    const now = rank(sub.score)
+    if (now <= before) continue
+    if (before === 0) added.push(sub.parameter)
+    else worse.push(sub.parameter)
+  }
+  return { added, worse }
+}
+
+/** Lowest total charted within the rise window before the latest set, or null */
+function windowLow(history: readonly VitalSign[], scores: QaddsScore[]): number | null {
+  const latestAt = parseChartDateTime(history[0].datetime)
+  if (!latestAt) return null
+  const since = latestAt.getTime() - SCORE_RISE_WINDOW_HOURS * 3_600_000
+
+  let low: number | null = null
+  for (let i = 1; i < history.length; i++) {
+    const at = parseChartDateTime(history[i].datetime)
+    if (!at || at.getTime() > latestAt.getTime() || at.getTime() < since) continue
+    low = low === null ? scores[i].totalScore : Math.min(low, scores[i].totalScore)
+  }
+  return low
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Detect deterioration trends in an observation history, newest first.
+ * Returns an empty list for fewer than two sets.
+ *
+ * @example
+ * ```ts
+ * detectTrends(patient.vitals, 'SW150').map((t) => t.label)
+ * // ['Score higher than last score (1 → 4)', 'NEW contributing vital sign(s): Heart Rate']
+ * ```
+ */
+export function detectTrends(history: readonly VitalSign[], variant?: ChartVariant): ObservationTrend[] {
+  if (history.length < 2) return []
+
+  const scores = history.map((v) => calculateQadds(v, variant))
+  const [latest, previous] = scores
+  const trends: ObservationTrend[] = []
+
+  // --- Total score ---------------------------------------------------------
+  if (latest.totalScore > previous.totalScore) {
+    trends.push({
+      id: 'score-higher',
+      label: `Score higher than last score (${previous.totalScore} ${ARROW} ${latest.totalScore})`,
+      parameters: [],
+    })
+  }
+
+  const low = windowLow(history, scores)
+  if (low !== null && latest.totalScore - low >= SCORE_RISE_THRESHOLD) {
+    trends.push({
+      id: 'score-rise',
+      label: `Score risen by ${latest.totalScore - low} within ${SCORE_RISE_WINDOW_HOURS} hours (${low} ${ARROW} ${latest.totalScore})`,
+      parameters: [],
+    })
+  }
+
+  // --- Individual parameters -----------------------------------------------
+  const { added, worse } = parameterChanges(latest, previous)
+  if (added.length > 0) {
+    trends.push({ id: 'new-parameter', label: `NEW contributing vital sign(s): ${labels(added)}`, parameters: added })
+  }
+  if (worse.length > 0) {
+    trends.push({ id: 'worse-parameter', label: `Any vital sign(s) worse: ${labels(worse)}`, parameters: worse })
+  }
+
+  // --- Systolic BP against baseline ----------------------------------------
+  const latestSbp = toNumber(history[0].bp_sys)
+  const baselineSbp = history
+    .slice(1)
+    .map((v) => toNumber(v.bp_sys))
+    .filter((n): n is number => n !== null)
+    .at(-1)
+  if (latestSbp !== null && baselineSbp && latestSbp < baselineSbp * (1 - SBP_FALL_FRACTION)) {
+    const fall = Math.round(((baselineSbp - latestSbp) / baselineSbp) * 100)
+    trends.push({
+      id: 'sbp-fall',
+      label: `Systolic BP fallen ${fall}% from baseline (${baselineSbp} ${ARROW} ${latestSbp})`,
+      parameters: ['systolicBP'],
+    })
+  }
+
+  // --- Respiratory rate creeping up while the score is low -----------------
+  const rates = history.slice(0, RR_TREND_SETS).map((v) => toNumber(v.rr))
+  if (
+    latest.totalScore <= RR_TREND_MAX_SCORE &&
+    rates.length === RR_TREND_SETS &&
+    rates.every((r, i) => r !== null && (i === 0 || r < (rates[i - 1] as number)))
+  ) {
+    const oldestFirst = (rates as number[]).reverse()
+    if (oldestFirst[oldestFirst.length - 1] - oldestFirst[0] >= RR_RISE_MIN) {
+      trends.push({
+        id: 'rr-rising',
+        label: `Respiratory rate trending up (${oldestFirst.join(` ${ARROW} `)})`,
+        parameters: ['rr'],
+      })
+    }
+  }
+
+  return trends
+}
@@ -15,8 +15,6 @@ import type {
   Patient,
   VitalSign,
   FluidBalanceEntry,
-  Medication,
-  MedicationStatus,
   Order,
   OrderStatus,
   OrderPriority,
@@ -24,7 +22,9 @@ import type {
   LabResults,
   ClinicalNote,
   AVPUScale,
+  ChartVariant,
 } from '../types';
+import { normalizeMedication } from './medicationOrders';
 
 // ---------------------------------------------------------------------------
 // Logger (structured console logging)
@@ -93,6 +93,21 @@ function toStr(v: unknown): string | undefined {
   return v == null ? undefined : String(v);
 }
 
+const CHART_VARIANTS: readonly string[] = [
+  'standard',
+  'chronic_respiratory',
+  'SW150',
+  'SW626',
+  'SW1171',
+  'NEWS2',
+  'NEWS2-SCALE2',
+];
+
+/** A known adult chart variant, or `undefined` (General Adult). */
+function toChartVariant(v: unknown): ChartVariant | undefined {
+  return typeof v === 'string' && CHART_VARIANTS.includes(v) ? (v as ChartVariant) : undefined;
+}
+
 // ---------------------------------------------------------------------------
 // Raw format interfaces (loosely typed incoming JSON)
 // ---------------------------------------------------------------------------
@@ -112,6 +127,7 @@ interface RawHierarchicalPatient {
     location?: string;
     attendingPhysician?: string;
     admissionDate?: string;
+    chartVariant?: string;
   };
   medicalHistory?: string[];
   vitalSigns?: Array<Record<string, unknown>>;
@@ -257,6 +273,7 @@ export function normalizePatientData(raw: unknown): Patient {
     patient.location = h.admission.location ?? '';
     patient.attending = h.admission.attendingPhysician ?? '';
     patient.admission = h.admission.admissionDate ?? '';
+    patient.chartVariant = toChartVariant(h.admission.chartVariant);
   }
 
   // Medical history
@@ -293,18 +310,9 @@ export function normalizePatientData(raw: unknown): Patient {
 
   // Medications
   if (Array.isArray(h.medications)) {
-    patient.medications = h.medications.map<Medication>((med) => ({
-      name: String(med.name ?? ''),
-      dose: String(med.dose ?? ''),
-      route: String(med.route ?? ''),
-      frequency: String(med.frequency ?? ''),
-      scheduled: !String(med.frequency ?? '').includes('PRN'),
-      times: [],
-      lastGiven: toStr(med.administeredTime),
-      prescriber: toStr(med.prescriber),
-      administeredBy: toStr(med.administeredBy),
-      status: (toStr(med.status) as MedicationStatus) ?? 'active',
-    }));
+    patient.medications = h.medications.map((med) =>
+      normalizeMedication({ ...med, lastGiven: med.lastGiven ?? med.administeredTime }),
+    );
   }
 
   // Orders
@@ -402,22 +410,46 @@ export function getDefaultPatients(): Record<string, Patient> {
     medications: [
       {
         name: 'ramipril',
-        dose: '5 mg',
-        route: 'Oral',
-        frequency: 'TWICE a day',
+        dose: { amount: 5, unit: 'mg' },
+        route: 'PO',
+        frequency: { code: 'BD', intervalHours: 12 },
         scheduled: true,
-        times: ['0800', '2000'],
-        lastGiven: '31-Dec-2025 08:00',
+        times: ['08:00', '20:00'],
+        startAt: null,
+        stopAt: null,
+        maxPrnDosesPer24h: null,
+        indication: 'Hypertension',
+        administrations: [
+          {
+            id: 'ADM001',
+            scheduledAt: null,
+            timestamp: new Date(2025, 11, 31, 8, 0).toISOString(),
+            status: 'GIVEN',
+            nurse: 'RN J. Carter',
+          },
+        ],
         status: 'active',
       },
       {
         name: 'paracetamol',
-        dose: '1 g',
-        route: 'Oral',
-        frequency: 'PRN (up to 4 times daily)',
+        dose: { amount: 1, unit: 'g' },
+        route: 'PO',
+        frequency: { code: 'PRN', intervalHours: 4 },
         scheduled: false,
         times: [],
-        lastGiven: '30-Dec-2025 22:00',
+        startAt: null,
+        stopAt: null,
+        maxPrnDosesPer24h: 4,
+        indication: 'Pain or fever',
+        administrations: [
+          {
+            id: 'ADM002',
+            scheduledAt: null,
+            timestamp: new Date(2025, 11, 30, 22, 0).toISOString(),
+            status: 'GIVEN',
+            nurse: 'RN J. Carter',
+          },
+        ],
         status: 'active',
       },
     ],
@@ -519,9 +551,13 @@ function ensureRequiredArrays(partial: Partial<Patient>): Patient {
     medicalHistory: Array.isArray(partial.medicalHistory) ? partial.medicalHistory : [],
     vitals: partial.vitals ?? [],
     fluidBalance: partial.fluidBalance ?? [],
-    medications: partial.medications ?? [],
+    // Upgrades free-text dose, route and frequency to structured orders.
+    medications: (partial.medications ?? []).map((med) =>
+      normalizeMedication(med as unknown as Record<string, unknown>),
+    ),
     orders: partial.orders ?? [],
     results: partial.results ?? { ...EMPTY_RESULTS },
     notes: partial.notes ?? [],
+    ...(toChartVariant(partial.chartVariant) && { chartVariant: partial.chartVariant }),
   };
 }
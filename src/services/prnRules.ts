@@ -0,0 +1,140 @@
+/**
+ * PRN Rules.
+ *
+ * Checks an as-needed (PRN) dose against its order before it is given: the
+ * minimum interval since the last dose and the maximum number of doses in
+ * 24 hours, both measured on the simulation clock. Also tracks the
+ * post-dose reassessment each PRN dose is due.
+ */
+
+import type { MedicationAdministration, MedicationOrder, PrnScoreScale } from '@/types/medications'
+import { formatChartDateTime } from '@/services/scenarioEngine'
+
+const MINUTE_MS = 60_000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+// ---------------------------------------------------------------------------
+// Scores and reassessment
+// ---------------------------------------------------------------------------
+
+export const PRN_SCORE_SCALES: Record<PrnScoreScale, { label: string; max: number }> = {
+  PAIN: { label: 'Pain (0–10)', max: 10 },
+  SEDATION: { label: 'Sedation (0–3)', max: 3 },
+}
+
+/** Minutes after a PRN dose its effect is reassessed, unless the site sets otherwise */
+export const DEFAULT_PRN_REASSESS_MINUTES = 30
+
+/** Reassessment times a site can choose from */
+export const PRN_REASSESS_OPTIONS = [15, 30, 45, 60] as const
+
+/** When a dose given at `givenAt` falls due for reassessment */
+export function getReassessDueAt(givenAt: Date, reassessMinutes: number): Date {
+  return new Date(givenAt.getTime() + reassessMinutes * MINUTE_MS)
+}
+
+/** PRN doses given but not yet reassessed whose reassessment has fallen due, oldest first */
+export function getDueReassessments(
+  administrations: readonly MedicationAdministration[],
+  now: Date,
+): MedicationAdministration[] {
+  const due = (r: MedicationAdministration) => r.prn?.reassessDueAt ?? ''
+  return administrations
+    .filter(
+      (r) =>
+        r.prn &&
+        r.prn.postDoseScore === null &&
+        new Date(r.prn.reassessDueAt).getTime() <= now.getTime(),
+    )
+    .sort((a, b) => due(a).localeCompare(due(b)))
+}
+
+// ---------------------------------------------------------------------------
+// Dose checks
+// ---------------------------------------------------------------------------
+
+/**
+ * Outcome of checking a PRN dose: `ok` to give, `warn` to give only with a
+ * documented reason (the minimum interval has not elapsed), or `block`
+ * (the 24-hour maximum would be exceeded).
+ */
+export type PrnCheckLevel = 'ok' | 'warn' | 'block'
+
+export interface PrnDoseCheck {
+  level: PrnCheckLevel
+  /** Why the dose is blocked or needs a reason; empty when `ok` */
+  messages: string[]
+  /** Doses given in the 24 hours up to now */
+  dosesLast24h: number
+  /** When the minimum interval next allows a dose; null without an interval or an earlier dose */
+  nextDoseAt: Date | null
+  /** When the 24-hour maximum next allows a dose; null unless it has been reached */
+  maxClearsAt: Date | null
+}
+
+/**
+ * Check giving a PRN dose at `now` against the order's minimum interval
+ * (`frequency.intervalHours`) and 24-hour maximum (`maxPrnDosesPer24h`),
+ * counting the GIVEN doses in its administration history.
+ *
+ * @example
+ * ```ts
+ * // Paracetamol PRN 4 hourly, up to 4 times daily; last given 2 hours ago
+ * checkPrnDose(order, administrations, now)
+ * // → { level: 'warn', messages: ['Last given 2 hours ago; the minimum interval is 4 hours …'], … }
+ * ```
+ */
+export function checkPrnDose(
+  order: Pick<MedicationOrder, 'frequency' | 'maxPrnDosesPer24h'>,
+  administrations: readonly MedicationAdministration[],
+  now: Date,
+): PrnDoseCheck {
+  const given = administrations
+    .filter((r) => r.status === 'GIVEN')
+    .map((r) => new Date(r.timestamp))
+    .filter((at) => at.getTime() <= now.getTime())
+    .sort((a, b) => a.getTime() - b.getTime())
+
+  const inLast24h = given.filter((at) => now.getTime() - at.getTime() < DAY_MS)
+  const messages: string[] = []
+  let level: PrnCheckLevel = 'ok'
+
+  let maxClearsAt: Date | null = null
+  const max = order.maxPrnDosesPer24h
+  if (max !== null && inLast24h.length >= max) {
+    // The window frees up when the dose that fills it ages out.
+    maxClearsAt = new Date(inLast24h[inLast24h.length - max].getTime() + DAY_MS)
+    messages.push(
+      `${inLast24h.length} of a maximum ${max} doses given in the last 24 hours; ` +
+        `the next is allowed from ${formatChartDateTime(maxClearsAt)}`,
+    )
+    level = 'block'
+  }
+
+  let nextDoseAt: Date | null = null
+  const lastGiven = given.length ? given[given.length - 1] : null
+  const intervalHours = order.frequency.intervalHours
+  if (lastGiven && intervalHours) {
+    nextDoseAt = new Date(lastGiven.getTime() + intervalHours * 60 * MINUTE_MS)
+    if (now < nextDoseAt) {
+      messages.push(
+        `Last given ${formatElapsed(now.getTime() - lastGiven.getTime())} ago; ` +
+          `the minimum interval is ${intervalHours} ${intervalHours === 1 ? 'hour' : 'hours'} ` +
+          `(next from ${formatChartDateTime(nextDoseAt)})`,
+      )
+      if (level === 'ok') level = 'warn'
+    }
+  }
+
+  return { level, messages, dosesLast24h: inLast24h.length, nextDoseAt, maxClearsAt }
+}
+
+/** "45 min", "2 hours", "3 h 20 min" */
+function formatElapsed(ms: number): string {
+  const minutes = Math.floor(ms / MINUTE_MS)
+  if (minutes < 60) return `${minutes} min`
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  if (rest) return `${hours} h ${rest} min`
+  return hours === 1 ? '1 hour' : `${hours} hours`
+}
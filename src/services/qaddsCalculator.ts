@@ -5,6 +5,14 @@
  * facilities. Each of 7 physiological parameters is scored 0–4 or "E"
  * (Emergency). An "E" on any single parameter triggers an immediate MET call.
  *
+ * This is the single scoring engine for the app: score cards, flowsheets,
+ * the trend graph, SBAR, the census, and the alert engine all score through
+ * {@link calculateQadds}, so they cannot disagree. Children are scored on
+ * the CEWT chart for their age band (see ./cewt), which swaps in age-banded
+ * RR, HR and SBP tables; {@link getPatientChartVariant} picks the chart.
+ * Sites on NEWS2 score adults on the NEWS2 chart forms, which dispatch to
+ * ./news2Calculator.
+ *
  * Thresholds compiled from the official Queensland Health Q-ADDS observation
  * chart and published academic sources:
  * - Flenady et al. (2023) Collegian
@@ -13,7 +21,7 @@
  * - QAS Adult Deterioration Assessment CPP
  */
 
-import type { VitalSign } from '@/types/patient'
+import type { Patient, VitalSign } from '@/types/patient'
 import type {
   QaddsParameter,
   QaddsSubScoreValue,
@@ -23,20 +31,27 @@ import type {
   QaddsScoreTrend,
   ClinicalRisk,
   ChartVariant,
+  ChartForm,
+  ChartFormCode,
+  ChartThresholds,
+  CewtChartFormCode,
   PatientStatus,
+  QaddsColorCode,
+  ScoringSystem,
+  ThresholdBand,
 } from '@/types/vitals'
-import type { QaddsColorCode } from '@/types/news'
+import {
+  CEWT_AGE_BANDS,
+  getCewtAgeBand,
+  getCewtEscalationText,
+  getCewtThresholds,
+} from '@/services/cewt'
+import { calculateNews2, getNews2EscalationText } from '@/services/news2Calculator'
 
 // ---------------------------------------------------------------------------
 // Threshold Tables
 // ---------------------------------------------------------------------------
 
-interface ThresholdBand {
-  min: number
-  max: number
-  score: QaddsSubScoreValue
-}
-
 /**
  * Respiratory Rate (breaths/min):
  *   ≤8 → E, 9-12 → 1, 13-20 → 0, 21-24 → 1, 25-30 → 2, 31-35 → 4, ≥36 → E
@@ -64,13 +79,12 @@ const SPO2_STANDARD_THRESHOLDS: ThresholdBand[] = [
 ]
 
 /**
- * SpO₂ — Chronic Hypoxia/Hypercapnia:
- *   ≥88 (on air) or ≥93 (on O₂) → 0, 86-87 → 1, 84-85 → 2, ≤83 → 4
+ * SpO₂ — Chronic Hypoxia/Hypercapnia (SW1171):
+ *   ≥88 → 0, 86-87 → 1, 84-85 → 2, ≤83 → 4
  * No E zone for SpO₂.
  *
- * Note: The on-air vs on-O₂ distinction for the "0" zone is handled in the
- * scoring function itself. These thresholds represent the on-air variant;
- * the function adjusts the zero-threshold when supplemental O₂ is detected.
+ * 88-92% is always score 0, on air or on O₂. At ≥93% on supplemental O₂ the
+ * chart prompts to wean O₂; the prompt does not affect the score.
  */
 const SPO2_CHRONIC_THRESHOLDS: ThresholdBand[] = [
   { min: -Infinity, max: 83, score: 4 },
@@ -157,14 +171,170 @@ const CONSCIOUSNESS_MAP: Record<string, QaddsSubScoreValue> = {
   U: 'E',
 }
 
-const THRESHOLD_MAP: Record<string, ThresholdBand[]> = {
+/** Display labels for each Q-ADDS parameter. */
+const PARAMETER_LABELS: Record<QaddsParameter, string> = {
+  rr: 'Respiratory Rate',
+  spo2: 'SpO2',
+  o2FlowRate: 'O2 Flow Rate',
+  systolicBP: 'Systolic BP',
+  heartRate: 'Heart Rate',
+  temperature: 'Temperature',
+  consciousness: 'Consciousness (AVPU)',
+}
+
+/** Score tables on the SW150 General Adult and SW626 Cardiac chart forms. */
+const ADULT_THRESHOLDS: ChartThresholds = {
   rr: RR_THRESHOLDS,
+  spo2: SPO2_STANDARD_THRESHOLDS,
   o2FlowRate: O2_FLOW_THRESHOLDS,
   systolicBP: SBP_THRESHOLDS,
   heartRate: HR_THRESHOLDS,
   temperature: TEMP_THRESHOLDS,
 }
 
+// ---------------------------------------------------------------------------
+// Chart Forms
+// ---------------------------------------------------------------------------
+
+/**
+ * CEWT chart form for an age band: the band's RR, HR and SBP tables, and
+ * the adult tables for the rest. The sepsis screening prompt uses adult
+ * criteria, so it is not shown on paediatric charts.
+ */
+function cewtForm(code: CewtChartFormCode): ChartForm {
+  return {
+    code,
+    label: CEWT_AGE_BANDS.find((band) => band.code === code)?.label ?? code,
+    tool: 'CEWT',
+    system: 'qadds',
+    thresholds: { ...ADULT_THRESHOLDS, ...getCewtThresholds(code) },
+    emergencyScore: 8,
+    paediatric: true,
+    chronicSpo2: false,
+    sepsisScreening: false,
+    metMeoMaxHours: 12,
+  }
+}
+
+/**
+ * Observation chart forms, each with its own score tables. Six of the seven
+ * parameters score identically on the Q-ADDS forms; only SpO₂ differs
+ * (SW1171). The cardiac form drops the sepsis screening prompt and allows
+ * longer MET-MEO plans. The CEWT forms score RR, HR and SBP on their age
+ * band's tables, and the NEWS2 forms score on NEWS2 with SpO₂ scale 1 or 2.
+ */
+export const CHART_FORMS: Readonly<Record<ChartFormCode, ChartForm>> = {
+  SW150: {
+    code: 'SW150',
+    label: 'SW150 General Adult',
+    tool: 'Q-ADDS',
+    system: 'qadds',
+    thresholds: ADULT_THRESHOLDS,
+    emergencyScore: 8,
+    paediatric: false,
+    chronicSpo2: false,
+    sepsisScreening: true,
+    metMeoMaxHours: 12,
+  },
+  SW626: {
+    code: 'SW626',
+    label: 'SW626 Cardiac',
+    tool: 'Q-ADDS',
+    system: 'qadds',
+    thresholds: ADULT_THRESHOLDS,
+    emergencyScore: 8,
+    paediatric: false,
+    chronicSpo2: false,
+    sepsisScreening: false,
+    metMeoMaxHours: 24,
+  },
+  SW1171: {
+    code: 'SW1171',
+    label: 'SW1171 Chronic Hypoxia/Hypercapnia',
+    tool: 'Q-ADDS',
+    system: 'qadds',
+    thresholds: { ...ADULT_THRESHOLDS, spo2: SPO2_CHRONIC_THRESHOLDS },
+    emergencyScore: 8,
+    paediatric: false,
+    chronicSpo2: true,
+    sepsisScreening: true,
+    metMeoMaxHours: 12,
+  },
+  'CEWT-0-3M': cewtForm('CEWT-0-3M'),
+  'CEWT-4-11M': cewtForm('CEWT-4-11M'),
+  'CEWT-1-4Y': cewtForm('CEWT-1-4Y'),
+  'CEWT-5-11Y': cewtForm('CEWT-5-11Y'),
+  'CEWT-12Y': cewtForm('CEWT-12Y'),
+  NEWS2: {
+    code: 'NEWS2',
+    label: 'NEWS2 SpO₂ Scale 1',
+    tool: 'NEWS2',
+    system: 'news2',
+    thresholds: null,
+    emergencyScore: 7,
+    paediatric: false,
+    chronicSpo2: false,
+    sepsisScreening: true,
+    metMeoMaxHours: 12,
+  },
+  'NEWS2-SCALE2': {
+    code: 'NEWS2-SCALE2',
+    label: 'NEWS2 SpO₂ Scale 2 (hypercapnic respiratory failure)',
+    tool: 'NEWS2',
+    system: 'news2',
+    thresholds: null,
+    emergencyScore: 7,
+    paediatric: false,
+    chronicSpo2: true,
+    sepsisScreening: true,
+    metMeoMaxHours: 12,
+  },
+}
+
+/**
+ * Look up the chart form for a variant. `standard` is SW150 and
+ * `chronic_respiratory` is SW1171; no variant means SW150.
+ */
+export function getChartForm(variant: ChartVariant = 'standard'): ChartForm {
+  switch (variant) {
+    case 'standard':
+      return CHART_FORMS.SW150
+    case 'chronic_respiratory':
+      return CHART_FORMS.SW1171
+    default:
+      return CHART_FORMS[variant]
+  }
+}
+
+/**
+ * The chart a patient is scored on: the CEWT chart for their age band if
+ * they are a child, otherwise their own chart form under the site's scoring
+ * system. A form from the other system is swapped for its counterpart, so
+ * SW1171 and NEWS2 scale 2 stand in for each other. An infant's age in
+ * months is counted to `now`, so a baby moves up an age band as the
+ * simulation clock passes a month birthday.
+ *
+ * @param patient - Patient age, date of birth and chart form
+ * @param system  - The site's scoring system for adults (default Q-ADDS)
+ * @param now     - Current simulation time (default admission, for callers
+ *                  without a clock)
+ */
+export function getPatientChartVariant(
+  patient: Pick<Patient, 'age' | 'dob' | 'admission' | 'chartVariant'>,
+  system: ScoringSystem = 'qadds',
+  now?: Date,
+): ChartVariant | undefined {
+  const admitted = new Date(patient.admission)
+  const at = now ?? (Number.isNaN(admitted.getTime()) ? undefined : admitted)
+  const child = getCewtAgeBand(patient.age, patient.dob, at)
+  if (child) return child.code
+
+  const form = getChartForm(patient.chartVariant)
+  if (form.system === system) return patient.chartVariant
+  if (system === 'news2') return form.chronicSpo2 ? 'NEWS2-SCALE2' : 'NEWS2'
+  return form.chronicSpo2 ? 'SW1171' : 'SW150'
+}
+
 // ---------------------------------------------------------------------------
 // Scoring Functions
 // ---------------------------------------------------------------------------
@@ -179,43 +349,40 @@ function lookupScore(thresholds: ThresholdBand[], value: number): QaddsSubScoreV
   return 0
 }
 
+/**
+ * Parse a charted value, or null if the parameter was not charted. Shared
+ * by the NEWS2 calculator and the sepsis screen.
+ */
+export function parseValue(rawValue: string | number | undefined): number | null {
+  if (rawValue === undefined || String(rawValue).trim() === '') return null
+  const numVal = typeof rawValue === 'string' ? parseFloat(rawValue) : rawValue
+  return Number.isNaN(numVal) ? null : numVal
+}
+
+/** Whether the patient is on supplemental O₂ (flow charted, or flagged). */
+export function isOnOxygen(vitals: VitalSign): boolean {
+  const flow = parseValue(vitals.o2FlowRate)
+  return (flow !== null && flow > 0) || vitals.supplementalO2 === true || vitals.supplementalO2 === 'true'
+}
+
+/** Sub-score for a parameter not charted in the observation set. */
+function notCharted(parameter: QaddsParameter): QaddsSubScore {
+  return { parameter, value: '', score: 0 }
+}
+
 function scoreNumericParam(
   parameter: QaddsParameter,
   rawValue: string | number | undefined,
+  thresholds: ThresholdBand[],
 ): QaddsSubScore {
-  const numVal = typeof rawValue === 'string' ? parseFloat(rawValue) : (rawValue ?? 0)
-  const thresholds = THRESHOLD_MAP[parameter]
-  if (!thresholds) {
-    return { parameter, value: numVal, score: 0 }
-  }
+  const numVal = parseValue(rawValue)
+  if (numVal === null) return notCharted(parameter)
   return { parameter, value: numVal, score: lookupScore(thresholds, numVal) }
 }
 
-/**
- * Score SpO₂ with support for chart variant.
- *
- * Chronic respiratory patients use lower target ranges (88-92% = score 0).
- * Standard patients use higher targets (≥92 = score 0).
- * No E zone for SpO₂ in any variant.
- */
-function scoreSpo2(
-  rawValue: string | number | undefined,
-  variant: ChartVariant,
-): QaddsSubScore {
-  const numVal = typeof rawValue === 'string' ? parseFloat(rawValue) : (rawValue ?? 0)
-
-  if (variant === 'chronic_respiratory') {
-    // Chronic respiratory patients: 88-92% is ALWAYS score 0 regardless of O₂
-    // status. The only difference is a UI-level "Wean O₂" prompt when ≥93% on
-    // supplemental O₂ — this does not affect the score.
-    return { parameter: 'spo2', value: numVal, score: lookupScore(SPO2_CHRONIC_THRESHOLDS, numVal) }
-  }
-
-  return { parameter: 'spo2', value: numVal, score: lookupScore(SPO2_STANDARD_THRESHOLDS, numVal) }
-}
-
 function scoreConsciousness(avpu: string | undefined): QaddsSubScore {
-  const normalised = (avpu ?? 'Alert').trim()
+  const normalised = (avpu ?? '').trim()
+  if (normalised === '') return notCharted('consciousness')
   const score = CONSCIOUSNESS_MAP[normalised] ?? 0
   return { parameter: 'consciousness', value: normalised, score }
 }
@@ -243,19 +410,29 @@ function numericScore(s: QaddsSubScoreValue): number {
 /**
  * Calculate the full Q-ADDS score for a single set of vital sign observations.
  *
+ * Parameters not charted score 0 and are listed in `missingParameters`, so a
+ * partial obs set still scores; O₂ delivery left blank is taken as room air.
+ * Each parameter scores on the chart form's own table (so on a CEWT chart
+ * RR, HR and SBP score on the age band's tables), and a NEWS2 chart scores
+ * with {@link calculateNews2}; the result has the same shape either way.
+ *
  * @param vitals   - The vital sign observation set to score
- * @param variant  - Chart variant: 'standard' (default) or 'chronic_respiratory'
+ * @param variant  - Chart variant (default SW150 General Adult)
  */
 export function calculateQadds(
   vitals: VitalSign,
   variant: ChartVariant = 'standard',
 ): QaddsScore {
-  const rr = scoreNumericParam('rr', vitals.rr)
-  const spo2 = scoreSpo2(vitals.spo2, variant)
-  const o2FlowRate = scoreNumericParam('o2FlowRate', vitals.o2FlowRate)
-  const systolicBP = scoreNumericParam('systolicBP', vitals.bp_sys)
-  const heartRate = scoreNumericParam('heartRate', vitals.hr)
-  const temperature = scoreNumericParam('temperature', vitals.temp)
+  const form = getChartForm(variant)
+  const limits = form.thresholds
+  if (!limits) return calculateNews2(vitals, form.chronicSpo2)
+
+  const rr = scoreNumericParam('rr', vitals.rr, limits.rr)
+  const spo2 = scoreNumericParam('spo2', vitals.spo2, limits.spo2)
+  const o2FlowRate = scoreNumericParam('o2FlowRate', vitals.o2FlowRate ?? 0, limits.o2FlowRate)
+  const systolicBP = scoreNumericParam('systolicBP', vitals.bp_sys, limits.systolicBP)
+  const heartRate = scoreNumericParam('heartRate', vitals.hr, limits.heartRate)
+  const temperature = scoreNumericParam('temperature', vitals.temp, limits.temperature)
   const consciousness = scoreConsciousness(vitals.avpu)
 
   const subScores: QaddsSubScores = {
@@ -277,6 +454,7 @@ export function calculateQadds(
 
   const totalScore = allScores.reduce((sum, s) => sum + numericScore(s.score), 0)
   const clinicalRisk = deriveRisk(totalScore, hasEmergency)
+  const missingParameters = allScores.filter((s) => s.value === '').map((s) => s.parameter)
 
   return {
     totalScore,
@@ -284,15 +462,23 @@ export function calculateQadds(
     emergencyParameters,
     clinicalRisk,
     subScores,
+    missingParameters,
   }
 }
 
+/**
+ * Human-readable label for a Q-ADDS parameter key.
+ */
+export function getParameterLabel(param: QaddsParameter): string {
+  return PARAMETER_LABELS[param]
+}
+
 /**
  * Calculate Q-ADDS scores for an array of vitals, returning trend data
  * suitable for plotting score over time.
  *
  * @param vitals  - Array of vital sign observations (typically in chronological order)
- * @param variant - Chart variant: 'standard' (default) or 'chronic_respiratory'
+ * @param variant - Chart variant (default SW150 General Adult)
  */
 export function calculateQaddsTrend(
   vitals: VitalSign[],
@@ -367,9 +553,19 @@ export function getColorHex(color: QaddsColorCode): string {
  * differentiated by patient status (stable vs deteriorating).
  *
  * When status is not provided, returns a combined default text covering both
- * stable and deteriorating pathways.
+ * stable and deteriorating pathways. On a CEWT chart the paediatric
+ * escalation text is returned instead, and on a NEWS2 chart the NEWS2
+ * clinical response.
  */
-export function getEscalationText(risk: ClinicalRisk, status?: PatientStatus): string {
+export function getEscalationText(
+  risk: ClinicalRisk,
+  status?: PatientStatus,
+  variant?: ChartVariant,
+): string {
+  const form = getChartForm(variant)
+  if (form.paediatric) return getCewtEscalationText(risk, status)
+  if (form.system === 'news2') return getNews2EscalationText(risk)
+
   if (risk === 'Emergency') {
     return 'Initiate MET call. 10 minutely observations. Registrar to ensure SMO notified. Registrar and Nurse escort for transfers.'
   }
@@ -414,6 +610,34 @@ export function getEscalationText(risk: ClinicalRisk, status?: PatientStatus): s
   }
 }
 
+/**
+ * Get the minimum observation frequency for a clinical risk level, per the
+ * Q-ADDS graded response table (docs/q-adds.md section 5.2).
+ *
+ * | Risk      | Deteriorating | Stable/Improving |
+ * |-----------|---------------|------------------|
+ * | Routine   | -             | 8-hourly         |
+ * | Low       | 1-hourly      | 4-hourly         |
+ * | Moderate  | 1-hourly      | 2-hourly         |
+ * | High      | Half-hourly   | 1-hourly         |
+ * | Emergency | 10-minutely   | 10-minutely      |
+ */
+export function getObservationFrequency(risk: ClinicalRisk, status?: PatientStatus): string {
+  const deteriorating = status === 'deteriorating'
+  switch (risk) {
+    case 'Routine':
+      return '8-hourly'
+    case 'Low':
+      return deteriorating ? '1-hourly' : '4-hourly'
+    case 'Moderate':
+      return deteriorating ? '1-hourly' : '2-hourly'
+    case 'High':
+      return deteriorating ? 'Half-hourly' : '1-hourly'
+    case 'Emergency':
+      return '10-minutely'
+  }
+}
+
 /**
  * Validate that all 7 Q-ADDS parameters have values in a vital sign observation.
  *
@@ -0,0 +1,606 @@
+/**
+ * @file scenarioEngine.ts
+ * @description Scripted scenario engine for the SimCerner EMR.
+ *
+ * Loads scenario timelines from `public/scenarios/`, validates and sorts
+ * their events, works out which events are due at a given simulation
+ * time, and converts each event into a partial patient update suitable
+ * for `usePatientStore.updatePatient`.
+ *
+ * All functions here are pure apart from the fetch-based loaders; the
+ * clock subscription that drives them lives in {@link useScenarioRunner}.
+ */
+
+import type { Patient, LabResult } from '../types';
+import type {
+  ScenarioDefinition,
+  ScenarioEvent,
+  ScenarioVitalsEvent,
+  ScenarioTrajectory,
+  ScenarioTrigger,
+  ScenarioResponse,
+  ScenarioIntervention,
+  ScenarioObjective,
+  ScenarioBcmaErrors,
+  TrajectoryKeyframe,
+} from '../types/scenario';
+import {
+  normalizeTrajectory,
+  generateTrajectory,
+  sampleKeyframes,
+  trajectoryEndOffset,
+} from './trajectoryGenerator';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Shape of the scenario manifest (`public/scenarios/scenario-list.json`). */
+export interface ScenarioManifest {
+  scenarios: string[];
+}
+
+/** A scenario event paired with the simulation time it was scheduled for. */
+export interface DueScenarioEvent {
+  event: ScenarioEvent;
+  scheduledAt: Date;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Id prefix for vitals events generated from a trajectory. */
+const TRAJECTORY_EVENT_PREFIX = 'trajectory-';
+
+/** Event types the engine knows how to apply. */
+const EVENT_TYPES: ReadonlySet<string> = new Set(['vitals', 'labResults', 'note', 'order']);
+
+/** Objective kinds the evaluator knows how to check. */
+const OBJECTIVE_KINDS: ReadonlySet<string> = new Set([
+  'acknowledge-alert',
+  'order',
+  'escalate',
+  'met-meo',
+  'withhold-medication',
+]);
+
+/** Three-letter month abbreviations used in chart date-times. */
+const MONTHS = [
+  'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
+  'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec',
+] as const;
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+/** Pad a number to two digits. */
+function pad2(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/**
+ * Format a Date in the chart's "DD-Mon-YYYY HH:mm" style, matching the
+ * date-times used throughout the patient JSON files.
+ */
+export function formatChartDateTime(d: Date): string {
+  return `${pad2(d.getDate())}-${MONTHS[d.getMonth()]}-${d.getFullYear()} ${pad2(d.getHours())}:${pad2(d.getMinutes())}`;
+}
+
+/**
+ * Parse a chart date-time ("DD-Mon-YYYY HH:mm", optionally with seconds
+ * and a zone suffix such as "AEST", which is ignored) as local time.
+ * Falls back to `Date` parsing for ISO strings.
+ *
+ * @returns The parsed date, or null if the text is not a date-time.
+ */
+export function parseChartDateTime(text: string): Date | null {
+  const match = /^(\d{1,2})-([A-Za-z]{3})-(\d{4})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?/.exec(text.trim());
+  if (match) {
+    const [, day, mon, year, hours, minutes, seconds] = match;
+    const month = MONTHS.findIndex((m) => m.toLowerCase() === mon.toLowerCase());
+    if (month < 0) return null;
+    return new Date(Number(year), month, Number(day), Number(hours), Number(minutes), Number(seconds ?? 0));
+  }
+  const parsed = new Date(text);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+// ---------------------------------------------------------------------------
+// Loading & Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetch the list of available scenario files.
+ *
+ * @returns Filenames relative to `/scenarios/`, or an empty list if the
+ *          manifest is missing.
+ */
+export async function loadScenarioManifest(): Promise<string[]> {
+  const response = await fetch('scenarios/scenario-list.json');
+  if (!response.ok) return [];
+  const manifest = (await response.json()) as ScenarioManifest;
+  return Array.isArray(manifest.scenarios) ? manifest.scenarios : [];
+}
+
+/**
+ * Fetch and normalise a single scenario file.
+ *
+ * @param filename - Filename relative to the `/scenarios/` directory.
+ * @throws If the fetch fails or the scenario is invalid.
+ */
+export async function loadScenario(filename: string): Promise<ScenarioDefinition> {
+  const response = await fetch(`scenarios/${filename}`);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+  return normalizeScenario(await response.json());
+}
+
+/** Validate a single raw event, defaulting its id from its index. */
+function normalizeEvent(rawEvent: unknown, idx: number, context: string): ScenarioEvent {
+  const e = (rawEvent ?? {}) as Record<string, unknown>;
+  const offset = Number(e.offsetMinutes);
+  if (!EVENT_TYPES.has(String(e.type))) {
+    throw new Error(`normalizeScenario: ${context} ${idx} has unknown type "${String(e.type)}"`);
+  }
+  if (!Number.isFinite(offset) || offset < 0) {
+    throw new Error(`normalizeScenario: ${context} ${idx} has invalid offsetMinutes`);
+  }
+  return {
+    ...e,
+    id: typeof e.id === 'string' && e.id ? e.id : `event-${idx}`,
+    offsetMinutes: offset,
+  } as ScenarioEvent;
+}
+
+/** Validate a raw response rule and its nested events and keyframes. */
+function normalizeResponse(
+  rawResponse: unknown,
+  idx: number,
+  trajectory: ScenarioTrajectory | undefined,
+): ScenarioResponse {
+  const r = (rawResponse ?? {}) as Record<string, unknown>;
+  const id = typeof r.id === 'string' && r.id ? r.id : `response-${idx}`;
+  const trigger = r.trigger as Record<string, unknown> | undefined;
+  if (trigger?.kind === 'oxygen') {
+    if (trigger.minFlowRate !== undefined && !(Number(trigger.minFlowRate) >= 0)) {
+      throw new Error(`normalizeScenario: response "${id}" has an invalid minFlowRate`);
+    }
+  } else if (
+    !trigger ||
+    (trigger.kind !== 'medication' && trigger.kind !== 'order') ||
+    typeof trigger.name !== 'string' ||
+    !trigger.name
+  ) {
+    throw new Error(
+      `normalizeScenario: response "${id}" needs an oxygen trigger, or a medication or order trigger with a name`,
+    );
+  }
+
+  let parameters: ScenarioResponse['parameters'];
+  let avpu: ScenarioResponse['avpu'];
+  if (r.parameters !== undefined || r.avpu !== undefined) {
+    if (!trajectory) {
+      throw new Error(`normalizeScenario: response "${id}" changes vitals but the scenario has no trajectory`);
+    }
+    // Reuse trajectory validation for the response's keyframes.
+    const parsed = normalizeTrajectory({
+      intervalMinutes: trajectory.intervalMinutes,
+      parameters: r.parameters,
+      avpu: r.avpu,
+    });
+    parameters = parsed.parameters;
+    avpu = parsed.avpu;
+  }
+
+  return {
+    ...(r as Partial<ScenarioResponse>),
+    id,
+    trigger:
+      trigger.kind === 'oxygen' && trigger.minFlowRate !== undefined
+        ? { kind: 'oxygen', minFlowRate: Number(trigger.minFlowRate) }
+        : (trigger as ScenarioTrigger),
+    parameters,
+    avpu,
+    cancelEvents: Array.isArray(r.cancelEvents) ? r.cancelEvents.map(String) : undefined,
+    events: Array.isArray(r.events)
+      ? r.events.map((e, eventIdx) => normalizeEvent(e, eventIdx, `response "${id}" event`))
+      : undefined,
+  };
+}
+
+/** Validate a raw objective, defaulting its id from its index. */
+function normalizeObjective(rawObjective: unknown, idx: number): ScenarioObjective {
+  const o = (rawObjective ?? {}) as Record<string, unknown>;
+  const id = typeof o.id === 'string' && o.id ? o.id : `objective-${idx}`;
+  if (!OBJECTIVE_KINDS.has(String(o.kind))) {
+    throw new Error(`normalizeScenario: objective "${id}" has unknown kind "${String(o.kind)}"`);
+  }
+  if (o.withinMinutes !== undefined && !(Number(o.withinMinutes) >= 0)) {
+    throw new Error(`normalizeScenario: objective "${id}" has invalid withinMinutes`);
+  }
+  if (
+    (o.kind === 'order' || o.kind === 'withhold-medication') &&
+    (!Array.isArray(o.names) || o.names.length === 0)
+  ) {
+    throw new Error(`normalizeScenario: objective "${id}" needs a non-empty names list`);
+  }
+  if (o.kind === 'acknowledge-alert' && typeof o.ewsRange !== 'string') {
+    throw new Error(`normalizeScenario: objective "${id}" needs an ewsRange`);
+  }
+  return {
+    ...o,
+    id,
+    ...(o.withinMinutes !== undefined ? { withinMinutes: Number(o.withinMinutes) } : {}),
+    ...(Array.isArray(o.names) ? { names: o.names.map(String) } : {}),
+  } as ScenarioObjective;
+}
+
+/** Validate the planted barcode scanning errors. */
+function normalizeBcmaErrors(rawErrors: unknown): ScenarioBcmaErrors {
+  if (!rawErrors || typeof rawErrors !== 'object') {
+    throw new Error('normalizeScenario: bcma is not an object');
+  }
+  const b = rawErrors as Record<string, unknown>;
+  if (b.wristbandMrn !== undefined && (typeof b.wristbandMrn !== 'string' || !b.wristbandMrn)) {
+    throw new Error('normalizeScenario: bcma wristbandMrn must be a non-empty string');
+  }
+  if (b.substitutions !== undefined && !Array.isArray(b.substitutions)) {
+    throw new Error('normalizeScenario: bcma substitutions must be an array');
+  }
+  const substitutions = (b.substitutions as unknown[] | undefined)?.map((rawSub, idx) => {
+    const s = (rawSub ?? {}) as Record<string, unknown>;
+    if (typeof s.medication !== 'string' || !s.medication || typeof s.name !== 'string' || !s.name) {
+      throw new Error(`normalizeScenario: bcma substitution ${idx} needs a medication and name`);
+    }
+    return {
+      medication: s.medication,
+      name: s.name,
+      ...(s.dose !== undefined ? { dose: String(s.dose) } : {}),
+      ...(s.route !== undefined ? { route: String(s.route) } : {}),
+    };
+  });
+  return {
+    ...(typeof b.wristbandMrn === 'string' ? { wristbandMrn: b.wristbandMrn } : {}),
+    ...(substitutions ? { substitutions } : {}),
+  };
+}
+
+/** Sort events by offset, keeping the given order for ties. */
+function sortEvents(events: ScenarioEvent[]): ScenarioEvent[] {
+  return events
+    .map((event, idx) => ({ event, idx }))
+    .sort((a, b) => a.event.offsetMinutes - b.event.offsetMinutes || a.idx - b.idx)
+    .map(({ event }) => event);
+}
+
+/**
+ * Append the trajectory's generated vitals events to `events`, skipping
+ * offsets that already have a scripted vitals event and ids in `skipIds`.
+ */
+function withTrajectoryEvents(
+  events: ScenarioEvent[],
+  trajectory: ScenarioTrajectory,
+  skipIds: ReadonlySet<string> = new Set(),
+): ScenarioEvent[] {
+  const scriptedVitals = new Set(
+    events
+      .filter((e) => e.type === 'vitals' && !isTrajectoryEvent(e))
+      .map((e) => e.offsetMinutes),
+  );
+  const generated: ScenarioVitalsEvent[] = [];
+  for (const sample of generateTrajectory(trajectory)) {
+    const id = `${TRAJECTORY_EVENT_PREFIX}${sample.offsetMinutes}`;
+    if (scriptedVitals.has(sample.offsetMinutes) || skipIds.has(id)) continue;
+    generated.push({ id, offsetMinutes: sample.offsetMinutes, type: 'vitals', vitals: sample.vitals });
+  }
+  return [...events, ...generated];
+}
+
+/** Whether an event was generated from the scenario trajectory. */
+function isTrajectoryEvent(event: ScenarioEvent): boolean {
+  return event.id.startsWith(TRAJECTORY_EVENT_PREFIX);
+}
+
+/**
+ * Validate raw scenario JSON and return a scenario whose events all have
+ * ids and are sorted by offset (stable for events sharing an offset).
+ * A `trajectory`, if present, is expanded into vitals events with ids of
+ * the form `trajectory-<offset>`; scripted vitals events win at offsets
+ * where both exist.
+ *
+ * @param raw - Untyped JSON payload from a scenario file.
+ * @throws If required fields are missing or an event is malformed.
+ */
+export function normalizeScenario(raw: unknown): ScenarioDefinition {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('normalizeScenario: input is not an object');
+  }
+
+  const data = raw as Record<string, unknown>;
+  if (typeof data.id !== 'string' || typeof data.patientMrn !== 'string') {
+    throw new Error('normalizeScenario: scenario requires id and patientMrn');
+  }
+  if (!Array.isArray(data.events)) {
+    throw new Error(`normalizeScenario: scenario "${data.id}" has no events array`);
+  }
+
+  const scripted = data.events.map((e, idx) => normalizeEvent(e, idx, 'event'));
+  const trajectory =
+    data.trajectory === undefined ? undefined : normalizeTrajectory(data.trajectory);
+  const responses = Array.isArray(data.responses)
+    ? data.responses.map((r, idx) => normalizeResponse(r, idx, trajectory))
+    : undefined;
+  const objectives = Array.isArray(data.objectives)
+    ? data.objectives.map((o, idx) => normalizeObjective(o, idx))
+    : undefined;
+  const bcma = data.bcma === undefined ? undefined : normalizeBcmaErrors(data.bcma);
+
+  return {
+    id: data.id,
+    title: typeof data.title === 'string' ? data.title : data.id,
+    description: typeof data.description === 'string' ? data.description : undefined,
+    patientMrn: data.patientMrn,
+    startTime: typeof data.startTime === 'string' ? data.startTime : undefined,
+    trajectory,
+    responses,
+    objectives,
+    bcma,
+    events: sortEvents(trajectory ? withTrajectoryEvents(scripted, trajectory) : scripted),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Scheduling
+// ---------------------------------------------------------------------------
+
+/**
+ * Return the events that have become due by `now` and have not yet fired.
+ * Rewinding the clock never "un-fires" an event.
+ *
+ * @param scenario  - The running scenario.
+ * @param startedAt - Simulation time the scenario started.
+ * @param now       - Current simulation time.
+ * @param firedIds  - Ids of events already applied.
+ */
+export function getDueEvents(
+  scenario: ScenarioDefinition,
+  startedAt: Date,
+  now: Date,
+  firedIds: ReadonlySet<string> | readonly string[],
+): DueScenarioEvent[] {
+  const fired = firedIds instanceof Set ? firedIds : new Set(firedIds);
+  const elapsedMinutes = (now.getTime() - startedAt.getTime()) / 60_000;
+
+  return scenario.events
+    .filter((e) => e.offsetMinutes <= elapsedMinutes && !fired.has(e.id))
+    .map((event) => ({
+      event,
+      scheduledAt: new Date(startedAt.getTime() + event.offsetMinutes * 60_000),
+    }));
+}
+
+// ---------------------------------------------------------------------------
+// Application
+// ---------------------------------------------------------------------------
+
+/** Merge incoming lab results into a discipline, replacing by test name. */
+function mergeLabResults(existing: LabResult[], incoming: LabResult[]): LabResult[] {
+  const merged = [...existing];
+  for (const result of incoming) {
+    const idx = merged.findIndex((r) => r.test === result.test);
+    if (idx >= 0) merged[idx] = result;
+    else merged.push(result);
+  }
+  return merged;
+}
+
+/**
+ * Convert a scenario event into a partial patient update.
+ *
+ * Vitals are prepended (the chart stores observations newest first);
+ * notes and orders are appended.
+ *
+ * @param patient     - Current patient record.
+ * @param event       - The event to apply.
+ * @param scheduledAt - Simulation time the event was scheduled for.
+ * @returns Fields to merge via `updatePatient`.
+ */
+export function applyScenarioEvent(
+  patient: Patient,
+  event: ScenarioEvent,
+  scheduledAt: Date,
+): Partial<Patient> {
+  const stamp = formatChartDateTime(scheduledAt);
+
+  switch (event.type) {
+    case 'vitals':
+      return { vitals: [{ ...event.vitals, datetime: stamp }, ...patient.vitals] };
+
+    case 'labResults':
+      return {
+        results: {
+          ...patient.results,
+          [event.category]: mergeLabResults(patient.results[event.category] ?? [], event.results),
+        },
+      };
+
+    case 'note':
+      return {
+        notes: [
+          ...patient.notes,
+          { ...event.note, id: event.note.id ?? `SCN-${event.id}`, datetime: event.note.datetime ?? stamp },
+        ],
+      };
+
+    case 'order':
+      return {
+        orders: [
+          ...patient.orders,
+          { ...event.order, id: event.order.id ?? `SCN-${event.id}`, ordered: event.order.ordered ?? stamp },
+        ],
+      };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Branching
+// ---------------------------------------------------------------------------
+
+/** Whether a learner intervention satisfies a response trigger. */
+export function matchesTrigger(trigger: ScenarioTrigger, intervention: ScenarioIntervention): boolean {
+  if (trigger.kind === 'oxygen' || intervention.kind === 'oxygen') {
+    return (
+      trigger.kind === 'oxygen' &&
+      intervention.kind === 'oxygen' &&
+      intervention.flowRate > intervention.previousFlowRate &&
+      intervention.flowRate >= (trigger.minFlowRate ?? 0)
+    );
+  }
+  if (trigger.kind !== intervention.kind) return false;
+  if (!intervention.name.toLowerCase().includes(trigger.name.toLowerCase())) return false;
+
+  if (trigger.kind === 'medication' && trigger.route) {
+    const route = intervention.kind === 'medication' ? intervention.route : undefined;
+    return route?.toLowerCase() === trigger.route.toLowerCase();
+  }
+  if (trigger.kind === 'order' && trigger.type) {
+    return intervention.kind === 'order' && intervention.type === trigger.type;
+  }
+  return true;
+}
+
+/**
+ * Responses that fire for an intervention at the given scenario offset.
+ *
+ * @param scenario     - The running scenario.
+ * @param intervention - What the learner just did.
+ * @param offset       - Minutes since the scenario started.
+ * @param triggeredIds - Ids of responses that have already fired.
+ */
+export function findTriggeredResponses(
+  scenario: ScenarioDefinition,
+  intervention: ScenarioIntervention,
+  offset: number,
+  triggeredIds: readonly string[],
+): ScenarioResponse[] {
+  if (intervention.patientMrn !== scenario.patientMrn) return [];
+
+  return (scenario.responses ?? []).filter(
+    (r) =>
+      (r.repeatable || !triggeredIds.includes(r.id)) &&
+      offset >= (r.afterMinutes ?? 0) &&
+      offset <= (r.beforeMinutes ?? Infinity) &&
+      matchesTrigger(r.trigger, intervention),
+  );
+}
+
+/** Shift relative keyframes to absolute scenario offsets. */
+function shiftKeyframes<T extends { offsetMinutes: number }>(frames: readonly T[], offset: number): T[] {
+  return frames.map((k) => ({ ...k, offsetMinutes: k.offsetMinutes + offset }));
+}
+
+/**
+ * Replace each affected parameter's course after `offset` with the
+ * response's keyframes, starting from the value the parameter has now.
+ * The trajectory is extended if the new keyframes run past its end.
+ */
+function branchTrajectory(
+  trajectory: ScenarioTrajectory,
+  response: ScenarioResponse,
+  offset: number,
+): ScenarioTrajectory {
+  const parameters = { ...trajectory.parameters };
+  let lastOffset = offset;
+
+  for (const [param, change] of Object.entries(response.parameters ?? {})) {
+    if (!change) continue;
+    const key = param as keyof typeof parameters;
+    const current = parameters[key];
+    const shifted = shiftKeyframes(change.keyframes, offset);
+    const history: TrajectoryKeyframe[] = current
+      ? current.keyframes.filter((k) => k.offsetMinutes < offset)
+      : [];
+    // Start from the current value unless the response sets one immediately.
+    if (current && !shifted.some((k) => k.offsetMinutes === offset)) {
+      history.push({
+        offsetMinutes: offset,
+        value: sampleKeyframes(current.keyframes, offset, current.curve),
+      });
+    }
+    parameters[key] = {
+      ...current,
+      curve: change.curve ?? current?.curve,
+      keyframes: [...history, ...shifted],
+    };
+    lastOffset = Math.max(lastOffset, ...shifted.map((k) => k.offsetMinutes));
+  }
+
+  let avpu = trajectory.avpu;
+  if (response.avpu) {
+    const shifted = shiftKeyframes(response.avpu, offset);
+    avpu = [...(trajectory.avpu ?? []).filter((k) => k.offsetMinutes < offset), ...shifted];
+    lastOffset = Math.max(lastOffset, ...shifted.map((k) => k.offsetMinutes));
+  }
+
+  // Never chart fewer obs than before the branch.
+  return {
+    ...trajectory,
+    parameters,
+    avpu,
+    endOffsetMinutes: Math.max(trajectoryEndOffset(trajectory), lastOffset),
+  };
+}
+
+/**
+ * Branch a running scenario in response to a learner intervention.
+ *
+ * Fired events are kept as history. Pending events named in
+ * `cancelEvents` are dropped, the response's own events are scheduled
+ * relative to `offset`, and pending trajectory obs are regenerated from
+ * the branched trajectory.
+ *
+ * @param scenario - The running scenario.
+ * @param response - The response that fired.
+ * @param offset   - Minutes since the scenario started.
+ * @param firedIds - Ids of events already applied.
+ * @returns The branched scenario.
+ */
+export function applyScenarioResponse(
+  scenario: ScenarioDefinition,
+  response: ScenarioResponse,
+  offset: number,
+  firedIds: readonly string[],
+): ScenarioDefinition {
+  const fired = new Set(firedIds);
+  const cancelled = new Set(response.cancelEvents ?? []);
+  const trajectory =
+    scenario.trajectory && (response.parameters || response.avpu)
+      ? branchTrajectory(scenario.trajectory, response, offset)
+      : scenario.trajectory;
+
+  // Suffix repeated firings so their event ids stay unique.
+  const firing = scenario.events.filter((e) => e.id.startsWith(`${response.id}:`)).length;
+  const suffix = firing > 0 && response.repeatable ? `#${firing}` : '';
+  const added = (response.events ?? []).map((e) => ({
+    ...e,
+    id: `${response.id}:${e.id}${suffix}`,
+    offsetMinutes: offset + e.offsetMinutes,
+  }));
+
+  const regenerate = trajectory !== undefined && trajectory !== scenario.trajectory;
+  const kept = scenario.events.filter((e) => {
+    if (fired.has(e.id)) return true;
+    if (cancelled.has(e.id)) return false;
+    return !(regenerate && isTrajectoryEvent(e));
+  });
+  const events = [...kept, ...added];
+
+  return {
+    ...scenario,
+    trajectory,
+    events: sortEvents(regenerate ? withTrajectoryEvents(events, trajectory, fired) : events),
+  };
+}
@@ -0,0 +1,348 @@
+/**
+ * Adult sepsis pathway: screening criteria, structured screen and one-hour
+ * bundle tracking.
+ *
+ * Screening criteria are scored from the latest observation set and the
+ * latest lactate result; any criterion met raises the "Could it be
+ * sepsis?" prompt on the Discern alert. The structured screen then records
+ * the suspected infection source and red flags, pre-ticking the red flags
+ * the observations and lactate already show. Suspected infection with any
+ * red flag is a positive screen and starts the sepsis bundle.
+ *
+ * The bundle (blood cultures, lactate, IV antibiotics, fluid bolus) is due
+ * within 60 minutes of the positive screen. Elements are ticked off from
+ * what the learner actually did — orders placed and doses given on the
+ * MAR — never from a checkbox.
+ *
+ * Pure functions only; the sepsis pathway components gather the inputs
+ * from the stores.
+ */
+
+import type { LabResults, Patient, VitalSign } from '@/types/patient'
+import type { LearnerAction } from '@/types/actionLog'
+import { MedicationRoute } from '@/types/medications'
+import { isOnOxygen, parseValue } from '@/services/qaddsCalculator'
+import type {
+  InfectionSource,
+  SepsisBundle,
+  SepsisBundleElementId,
+  SepsisCriterion,
+  SepsisRedFlagId,
+} from '@/types/sepsis'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Progress of one bundle element */
+export interface SepsisBundleElementStatus {
+  id: SepsisBundleElementId
+  label: string
+  /** ISO simulation time the element was done, or null if not yet */
+  completedAt: string | null
+  /** Whether an order or a MAR administration completed it */
+  source: 'order' | 'mar' | null
+  /** Name of the order or medication that completed it */
+  detail: string | null
+  /** Done after the bundle was due */
+  late: boolean
+}
+
+/** Progress of a sepsis bundle at a point in time */
+export interface SepsisBundleProgress {
+  elements: SepsisBundleElementStatus[]
+  /** ISO simulation time the bundle is due by */
+  dueAt: string
+  /** Whole minutes until the bundle is due; negative once overdue */
+  minutesRemaining: number
+  /** Every element is done */
+  complete: boolean
+  /** Not complete and past due */
+  overdue: boolean
+}
+
+/** Inputs to {@link evaluateSepsisBundle} */
+export interface SepsisBundleInput {
+  bundle: SepsisBundle
+  patient: Patient
+  /** Recorded learner actions; those for other patients are ignored */
+  actions: readonly LearnerAction[]
+  /** Current simulation time */
+  now: Date
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Minutes from a positive screen to complete the bundle */
+export const SEPSIS_BUNDLE_MINUTES = 60
+
+/**
+ * Minutes before the screen from which orders and doses count towards the
+ * bundle, since treatment often starts while the screen is being completed.
+ */
+const BUNDLE_LOOKBACK_MINUTES = 60
+
+/** Lactate (mmol/L) at or above which lactate is a criterion and red flag */
+const LACTATE_THRESHOLD = 2
+
+const MINUTE_MS = 60_000
+
+/** Infection source options for the structured screen */
+export const INFECTION_SOURCES: { value: InfectionSource; label: string }[] = [
+  { value: 'RESPIRATORY', label: 'Respiratory (pneumonia)' },
+  { value: 'URINARY', label: 'Urinary tract' },
+  { value: 'ABDOMINAL', label: 'Abdominal' },
+  { value: 'SKIN_SOFT_TISSUE', label: 'Skin / soft tissue / wound' },
+  { value: 'DEVICE_LINE', label: 'Indwelling device or line' },
+  { value: 'CNS', label: 'Central nervous system' },
+  { value: 'UNKNOWN', label: 'Infection suspected, source unknown' },
+  { value: 'NONE', label: 'Infection not suspected' },
+]
+
+/** Red flags for the structured screen, in display order */
+export const SEPSIS_RED_FLAGS: { id: SepsisRedFlagId; label: string }[] = [
+  { id: 'consciousness', label: 'New confusion or altered conscious state' },
+  { id: 'systolicBP', label: 'Systolic BP < 90 mmHg' },
+  { id: 'heartRate', label: 'Heart rate ≥ 130' },
+  { id: 'rr', label: 'Respiratory rate ≥ 25' },
+  { id: 'oxygen', label: 'Needs oxygen to keep SpO₂ ≥ 92%' },
+  { id: 'lactate', label: 'Lactate ≥ 2 mmol/L' },
+  { id: 'rash', label: 'Non-blanching rash, mottled, ashen or cyanotic' },
+  { id: 'urineOutput', label: 'No urine output in 18 hours' },
+  { id: 'chemotherapy', label: 'Chemotherapy within the last 6 weeks' },
+]
+
+/** Consciousness levels that are a red flag */
+const ALTERED_CONSCIOUSNESS = ['C', 'V', 'P', 'U', 'Changing Behaviour', 'Voice', 'Pain', 'Unresponsive']
+
+/**
+ * Crystalloids that count as a fluid bolus. A colloid, blood product or
+ * maintenance fluid does not, even when charted as a bolus.
+ */
+const CRYSTALLOID_NAMES = [
+  /sodium chloride 0\.9/i,
+  /0\.9\s*% sodium chloride/i,
+  /normal saline/i,
+  /hartmann/i,
+  /compound sodium lactate/i,
+  /plasma-?lyte/i,
+  /ringer/i,
+]
+
+/** Antibiotic names that count towards the bundle, when given IV */
+const ANTIBIOTIC_NAMES = [
+  'piperacillin',
+  'tazocin',
+  'ceftriaxone',
+  'cefazolin',
+  'cefepime',
+  'ceftazidime',
+  'flucloxacillin',
+  'benzylpenicillin',
+  'ampicillin',
+  'amoxicillin',
+  'gentamicin',
+  'vancomycin',
+  'meropenem',
+  'azithromycin',
+  'metronidazole',
+  'clindamycin',
+  'ciprofloxacin',
+  'antibiotic',
+].map((name) => new RegExp(name, 'i'))
+
+/**
+ * A lactate test or order. Anchored to the start of the name so that
+ * lactate dehydrogenase (LDH) and a compound sodium lactate bolus do not
+ * count.
+ */
+const LACTATE_TEST = /^(?:serum |venous |arterial )?lactate\b(?!\s+dehydrogenase)/i
+
+/** An order name giving the intravenous route, e.g. "Ceftriaxone 2 g IV" */
+const IV_ORDER = /\b(?:IV|intravenous)\b/i
+
+/**
+ * Bundle elements, the names that complete them, and where those names are
+ * looked for. Where a `route` is set, a dose only counts if given by that
+ * route and an order only if its name gives it.
+ */
+const BUNDLE_ELEMENTS: {
+  id: SepsisBundleElementId
+  label: string
+  names: RegExp[]
+  route?: typeof MedicationRoute.INTRAVENOUS
+  fromMar: boolean
+}[] = [
+  { id: 'bloodCultures', label: 'Blood cultures', names: [/blood culture/i], fromMar: false },
+  { id: 'lactate', label: 'Lactate', names: [LACTATE_TEST, /blood gas/i], fromMar: false },
+  {
+    id: 'antibiotics',
+    label: 'IV antibiotics',
+    names: ANTIBIOTIC_NAMES,
+    route: MedicationRoute.INTRAVENOUS,
+    fromMar: true,
+  },
+  { id: 'fluidBolus', label: 'Fluid bolus', names: CRYSTALLOID_NAMES, fromMar: true },
+]
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Whether any of `names` matches `value` */
+function matchesAny(value: string, names: readonly RegExp[]): boolean {
+  return names.some((n) => n.test(value))
+}
+
+// ---------------------------------------------------------------------------
+// Screening
+// ---------------------------------------------------------------------------
+
+/**
+ * Latest lactate in mmol/L from the biochemistry results (or, failing
+ * that, the blood gas), or null if none has resulted.
+ */
+export function getLatestLactate(results: LabResults | undefined): number | null {
+  for (const category of [results?.biochemistry, results?.bloodGas]) {
+    const result = category?.find((r) => LACTATE_TEST.test(r.test))
+    const value = result ? parseFloat(result.value) : NaN
+    if (!Number.isNaN(value)) return value
+  }
+  return null
+}
+
+/**
+ * Sepsis screening criteria met by an observation set and lactate.
+ *
+ * Criteria:
+ * - RR >= 25
+ * - HR >= 130
+ * - SBP < 90
+ * - Temperature < 35.5 or > 38.4
+ * - SpO2 requires new O2 to stay > 91%
+ * - Lactate >= 2 mmol/L
+ *
+ * @param vitals  - The observation set to screen
+ * @param lactate - Latest lactate in mmol/L, if resulted
+ */
+export function getSepsisCriteria(vitals: VitalSign, lactate: number | null = null): SepsisCriterion[] {
+  const rr = parseValue(vitals.rr)
+  const hr = parseValue(vitals.hr)
+  const sbp = parseValue(vitals.bp_sys)
+  const temp = parseValue(vitals.temp)
+  const spo2 = parseValue(vitals.spo2)
+  const criteria: SepsisCriterion[] = []
+
+  if (rr !== null && rr >= 25) criteria.push({ id: 'rr', label: 'RR ≥ 25', value: `${rr}` })
+  if (hr !== null && hr >= 130) criteria.push({ id: 'heartRate', label: 'HR ≥ 130', value: `${hr}` })
+  if (sbp !== null && sbp < 90) criteria.push({ id: 'systolicBP', label: 'SBP < 90', value: `${sbp}` })
+  if (temp !== null && (temp < 35.5 || temp > 38.4)) {
+    criteria.push({ id: 'temperature', label: 'Temp < 35.5 or > 38.4', value: `${temp}` })
+  }
+
+  // SpO2 requires new supplemental O2 to stay above 91%
+  const hasSupplementalO2 = vitals.supplementalO2 === true || vitals.supplementalO2 === 'true'
+  if (spo2 !== null && spo2 <= 91 && hasSupplementalO2) {
+    criteria.push({ id: 'spo2', label: 'SpO₂ ≤ 91% needing new O₂', value: `${spo2}` })
+  }
+
+  if (lactate !== null && lactate >= LACTATE_THRESHOLD) {
+    criteria.push({ id: 'lactate', label: 'Lactate ≥ 2', value: `${lactate}` })
+  }
+  return criteria
+}
+
+/**
+ * Red flags already shown by an observation set and lactate, for the
+ * structured screen to pre-tick. Rash, urine output and chemotherapy can
+ * only be assessed by the nurse.
+ */
+export function getObservedRedFlags(vitals: VitalSign, lactate: number | null = null): SepsisRedFlagId[] {
+  const rr = parseValue(vitals.rr)
+  const hr = parseValue(vitals.hr)
+  const sbp = parseValue(vitals.bp_sys)
+  const flags: SepsisRedFlagId[] = []
+
+  if (vitals.avpu && ALTERED_CONSCIOUSNESS.includes(vitals.avpu)) flags.push('consciousness')
+  if (sbp !== null && sbp < 90) flags.push('systolicBP')
+  if (hr !== null && hr >= 130) flags.push('heartRate')
+  if (rr !== null && rr >= 25) flags.push('rr')
+  if (isOnOxygen(vitals)) flags.push('oxygen')
+  if (lactate !== null && lactate >= LACTATE_THRESHOLD) flags.push('lactate')
+  return flags
+}
+
+/** A screen is positive when infection is suspected and any red flag is present */
+export function isScreenPositive(infectionSource: InfectionSource, redFlags: readonly SepsisRedFlagId[]): boolean {
+  return infectionSource !== 'NONE' && redFlags.length > 0
+}
+
+// ---------------------------------------------------------------------------
+// Bundle
+// ---------------------------------------------------------------------------
+
+/**
+ * Check the sepsis bundle against what has been ordered and given.
+ *
+ * Blood cultures and lactate are done once ordered; antibiotics and the
+ * fluid bolus once ordered or given on the MAR. Orders later cancelled do
+ * not count.
+ *
+ * @example
+ * ```ts
+ * const progress = evaluateSepsisBundle({ bundle, patient, actions, now: currentTime })
+ * if (progress.overdue) showWarning()
+ * ```
+ */
+export function evaluateSepsisBundle(input: SepsisBundleInput): SepsisBundleProgress {
+  const { bundle, patient, now } = input
+  const started = new Date(bundle.startedAt).getTime()
+  const dueAt = new Date(started + SEPSIS_BUNDLE_MINUTES * MINUTE_MS).toISOString()
+  const since = new Date(started - BUNDLE_LOOKBACK_MINUTES * MINUTE_MS).toISOString()
+  const nowIso = now.toISOString()
+
+  const cancelled = new Set(patient.orders.filter((o) => o.status === 'Cancelled').map((o) => o.id))
+  const actions = input.actions
+    .filter((a) => a.patientMrn === patient.mrn && a.simTime >= since && a.simTime <= nowIso)
+    .sort((a, b) => a.simTime.localeCompare(b.simTime))
+
+  const elements = BUNDLE_ELEMENTS.map((element): SepsisBundleElementStatus => {
+    const done = actions.find(
+      (a) =>
+        (a.type === 'order/placed' &&
+          !cancelled.has(a.payload.orderId) &&
+          matchesAny(a.payload.name, element.names) &&
+          (!element.route || IV_ORDER.test(a.payload.name))) ||
+        (element.fromMar &&
+          a.type === 'mar/administered' &&
+          a.payload.status === 'GIVEN' &&
+          matchesAny(a.payload.medicationName, element.names) &&
+          (!element.route || a.payload.route === element.route)),
+    )
+
+    return {
+      id: element.id,
+      label: element.label,
+      completedAt: done?.simTime ?? null,
+      source: done ? (done.type === 'order/placed' ? 'order' : 'mar') : null,
+      detail:
+        done?.type === 'order/placed'
+          ? done.payload.name
+          : done?.type === 'mar/administered'
+            ? done.payload.medicationName
+            : null,
+      late: !!done && done.simTime > dueAt,
+    }
+  })
+
+  const complete = elements.every((e) => e.completedAt !== null)
+  return {
+    elements,
+    dueAt,
+    minutesRemaining: Math.ceil((new Date(dueAt).getTime() - now.getTime()) / MINUTE_MS),
+    complete,
+    overdue: !complete && nowIso > dueAt,
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * @file trajectoryGenerator.ts
+ * @description Keyframe-driven physiology generator for scripted scenarios.
+ *
+ * A scenario trajectory declares a few keyframes per vital sign parameter
+ * (e.g. HR 88 at T+0, 128 at T+30) with a curve and optional jitter. This
+ * module validates those trajectories, samples them at any offset, and
+ * expands them into observation sets at the charting interval. Once
+ * charted, the sets score like any other, so learners see the sub-scores
+ * change as the scenario runs.
+ */
+
+import type { VitalSign } from '../types';
+import type {
+  TrajectoryCurve,
+  TrajectoryParameter,
+  TrajectoryKeyframe,
+  ParameterTrajectory,
+  AvpuKeyframe,
+  ScenarioTrajectory,
+} from '../types/scenario';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A generated observation set at a scenario offset. */
+export interface TrajectorySample {
+  offsetMinutes: number;
+  vitals: Omit<VitalSign, 'datetime'>;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const CURVES: ReadonlySet<string> = new Set(['linear', 'exponential', 'step']);
+
+/** Parameters in a fixed order so jitter draws are reproducible. */
+const PARAMETERS: readonly TrajectoryParameter[] = [
+  'temp', 'hr', 'rr', 'bp_sys', 'bp_dia', 'spo2', 'o2FlowRate',
+];
+
+/** Physiologically possible bounds applied after jitter. */
+const PARAMETER_BOUNDS: Record<TrajectoryParameter, [number, number]> = {
+  temp: [25, 45],
+  hr: [0, 300],
+  rr: [0, 80],
+  bp_sys: [0, 300],
+  bp_dia: [0, 200],
+  spo2: [0, 100],
+  o2FlowRate: [0, 60],
+};
+
+/** Steepness of the exponential curve; higher values accelerate later. */
+const EXPONENTIAL_K = 3;
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/** Validate and sort a keyframe list. */
+function normalizeKeyframes<T extends { offsetMinutes: number }>(
+  raw: unknown,
+  label: string,
+  isValue: (v: unknown) => boolean,
+): T[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error(`normalizeTrajectory: ${label} requires at least one keyframe`);
+  }
+  return raw
+    .map((k, idx) => {
+      const frame = k as Record<string, unknown>;
+      const offset = Number(frame.offsetMinutes);
+      if (!Number.isFinite(offset) || offset < 0 || !isValue(frame.value)) {
+        throw new Error(`normalizeTrajectory: ${label} keyframe ${idx} is invalid`);
+      }
+      return { ...frame, offsetMinutes: offset } as unknown as T;
+    })
+    .sort((a, b) => a.offsetMinutes - b.offsetMinutes);
+}
+
+/**
+ * Validate raw trajectory JSON and return a trajectory with sorted
+ * keyframes.
+ *
+ * @param raw - Untyped `trajectory` object from a scenario file.
+ * @throws If the interval, a curve, or any keyframe is invalid.
+ */
+export function normalizeTrajectory(raw: unknown): ScenarioTrajectory {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('normalizeTrajectory: trajectory is not an object');
+  }
+
+  const data = raw as Record<string, unknown>;
+  const interval = Number(data.intervalMinutes);
+  if (!Number.isFinite(interval) || interval <= 0) {
+    throw new Error('normalizeTrajectory: intervalMinutes must be a positive number');
+  }
+
+  const rawParams = (data.parameters ?? {}) as Record<string, unknown>;
+  const parameters: ScenarioTrajectory['parameters'] = {};
+  for (const param of PARAMETERS) {
+    const p = rawParams[param] as Record<string, unknown> | undefined;
+    if (!p) continue;
+    if (p.curve !== undefined && !CURVES.has(String(p.curve))) {
+      throw new Error(`normalizeTrajectory: ${param} has unknown curve "${String(p.curve)}"`);
+    }
+    parameters[param] = {
+      ...(p as Partial<ParameterTrajectory>),
+      keyframes: normalizeKeyframes<TrajectoryKeyframe>(
+        p.keyframes,
+        param,
+        (v) => typeof v === 'number' && Number.isFinite(v),
+      ),
+    };
+  }
+
+  return {
+    ...(data as Partial<ScenarioTrajectory>),
+    intervalMinutes: interval,
+    parameters,
+    avpu:
+      data.avpu === undefined
+        ? undefined
+        : normalizeKeyframes<AvpuKeyframe>(data.avpu, 'avpu', (v) => typeof v === 'string'),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Interpolation
+// ---------------------------------------------------------------------------
+
+/**
+ * Interpolate between two values at fraction `t` (0–1) along the curve.
+ */
+export function interpolate(from: number, to: number, t: number, curve: TrajectoryCurve): number {
+  const clamped = Math.min(1, Math.max(0, t));
+  switch (curve) {
+    case 'step':
+      return clamped >= 1 ? to : from;
+    case 'exponential':
+      return from + (to - from) * (Math.expm1(EXPONENTIAL_K * clamped) / Math.expm1(EXPONENTIAL_K));
+    case 'linear':
+    default:
+      return from + (to - from) * clamped;
+  }
+}
+
+/**
+ * Value of a keyframed parameter at `offset`, before jitter and rounding.
+ * Holds the first keyframe before it and the last keyframe after it.
+ */
+export function sampleKeyframes(
+  keyframes: readonly TrajectoryKeyframe[],
+  offset: number,
+  curve: TrajectoryCurve = 'linear',
+): number {
+  const first = keyframes[0];
+  if (offset <= first.offsetMinutes) return first.value;
+
+  for (let i = 1; i < keyframes.length; i++) {
+    const prev = keyframes[i - 1];
+    const next = keyframes[i];
+    if (offset < next.offsetMinutes) {
+      const t = (offset - prev.offsetMinutes) / (next.offsetMinutes - prev.offsetMinutes);
+      return interpolate(prev.value, next.value, t, curve);
+    }
+  }
+  return keyframes[keyframes.length - 1].value;
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so jittered trajectories replay
+ * identically for the same seed.
+ */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Round to a fixed number of decimal places. */
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// ---------------------------------------------------------------------------
+// Sampling
+// ---------------------------------------------------------------------------
+
+/**
+ * Generate the observation set a trajectory prescribes at `offset`.
+ *
+ * @param trajectory - A normalised trajectory.
+ * @param offset     - Minutes after scenario start.
+ */
+export function sampleTrajectory(
+  trajectory: ScenarioTrajectory,
+  offset: number,
+): Omit<VitalSign, 'datetime'> {
+  const random = seededRandom((trajectory.seed ?? 1) * 100_003 + Math.round(offset * 60));
+  const vitals: Omit<VitalSign, 'datetime'> = {};
+
+  for (const param of PARAMETERS) {
+    const spec = trajectory.parameters[param];
+    if (!spec) continue;
+
+    let value = sampleKeyframes(spec.keyframes, offset, spec.curve);
+    const noise = (random() * 2 - 1) * (spec.jitter ?? 0);
+    value += noise;
+
+    const [min, max] = PARAMETER_BOUNDS[param];
+    const decimals = spec.decimals ?? (param === 'temp' ? 1 : 0);
+    vitals[param] = round(Math.min(max, Math.max(min, value)), decimals);
+  }
+
+  if (trajectory.parameters.o2FlowRate) {
+    vitals.supplementalO2 = Number(vitals.o2FlowRate) > 0;
+  }
+
+  if (trajectory.avpu && trajectory.avpu.length > 0) {
+    const current = [...trajectory.avpu].reverse().find((k) => k.offsetMinutes <= offset);
+    vitals.avpu = (current ?? trajectory.avpu[0]).value;
+  }
+
+  return vitals;
+}
+
+/**
+ * Last offset at which a trajectory charts observations: the explicit
+ * `endOffsetMinutes`, or else the latest keyframe.
+ */
+export function trajectoryEndOffset(trajectory: ScenarioTrajectory): number {
+  if (trajectory.endOffsetMinutes !== undefined) return trajectory.endOffsetMinutes;
+  return Math.max(
+    trajectory.startOffsetMinutes ?? 0,
+    ...Object.values(trajectory.parameters).flatMap((p) => p?.keyframes.map((k) => k.offsetMinutes) ?? []),
+    ...(trajectory.avpu ?? []).map((k) => k.offsetMinutes),
+  );
+}
+
+/** Offsets at which a trajectory charts observations. */
+function trajectoryOffsets(trajectory: ScenarioTrajectory): number[] {
+  const start = trajectory.startOffsetMinutes ?? 0;
+  const end = trajectoryEndOffset(trajectory);
+
+  const offsets: number[] = [];
+  for (let offset = start; offset <= end; offset += trajectory.intervalMinutes) {
+    offsets.push(offset);
+  }
+  return offsets;
+}
+
+/**
+ * Expand a trajectory into observation sets at its charting interval.
+ *
+ * @param trajectory - A normalised trajectory.
+ * @returns Samples in ascending offset order.
+ */
+export function generateTrajectory(trajectory: ScenarioTrajectory): TrajectorySample[] {
+  return trajectoryOffsets(trajectory).map((offsetMinutes) => ({
+    offsetMinutes,
+    vitals: sampleTrajectory(trajectory, offsetMinutes),
+  }));
+}
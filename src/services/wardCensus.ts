@@ -0,0 +1,128 @@
+/**
+ * @file wardCensus.ts
+ * @description Ward census (Patient List) summary builder.
+ *
+ * Summarises every loaded patient into one row for the ward census:
+ * location, latest Q-ADDS total and clinical risk on the patient's own
+ * chart (CEWT for children), MAR doses due now or overdue, unsigned orders, and active
+ * MET-MEO plans. Team leaders use the census to see at a glance which
+ * patient needs attention next.
+ *
+ * Pure functions only; the census view gathers the inputs from the stores.
+ */
+
+import { calculateQadds, getPatientChartVariant } from './qaddsCalculator';
+import { listScheduledDoses } from './debrief';
+import { DOSE_DUE_WINDOW_MINUTES } from './marSchedule';
+import type { Gender, Patient, ScoringSystem } from '../types';
+import type { ClinicalRisk } from '../types/vitals';
+import type { LearnerAction } from '../types/actionLog';
+import type { MetMeoOrder } from '../types/meo';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One patient's row on the ward census. */
+export interface CensusRow {
+  mrn: string;
+  name: string;
+  location: string;
+  age: number;
+  gender: Gender;
+  /** Chart date-time of the latest obs set, or null if none charted. */
+  lastObsAt: string | null;
+  /** Latest early warning score total, or null if no obs charted. */
+  ewsScore: number | null;
+  risk: ClinicalRisk | null;
+  /** Whether any parameter of the latest obs set is in the E-zone. */
+  hasEZone: boolean;
+  /** Scheduled doses within their due window and not yet actioned. */
+  medsDue: number;
+  /** Scheduled doses past their due window today and not actioned. */
+  medsOverdue: number;
+  /** Orders placed but not yet signed. */
+  unsignedOrders: number;
+  /** MET-MEO plans ordered for the patient, not cancelled or expired. */
+  activeMetMeoPlans: number;
+}
+
+/** Inputs to {@link buildWardCensus}. */
+export interface CensusInput {
+  patients: readonly Patient[];
+  /** Recorded learner actions for all patients. */
+  actions: readonly LearnerAction[];
+  /** MET-MEO plan orders from `useMeoStore`, by patient MRN. */
+  metMeoOrders: Readonly<Record<string, readonly MetMeoOrder[]>>;
+  /** Current simulation time. */
+  now: Date;
+  /** The site's scoring system for adults (default Q-ADDS). */
+  scoringSystem?: ScoringSystem;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const MINUTE_MS = 60_000;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Summarise one patient for the census. */
+function buildCensusRow(patient: Patient, input: CensusInput): CensusRow {
+  const { actions, metMeoOrders, now, scoringSystem } = input;
+  const latest = patient.vitals[0];
+  const score = latest ? calculateQadds(latest, getPatientChartVariant(patient, scoringSystem, now)) : null;
+
+  // Today's doses up to the end of the current due window.
+  const dayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const windowMs = DOSE_DUE_WINDOW_MINUTES * MINUTE_MS;
+  const overdueBefore = now.getTime() - windowMs;
+  let medsDue = 0;
+  let medsOverdue = 0;
+  for (const dose of listScheduledDoses(patient, actions, dayStart, new Date(now.getTime() + windowMs))) {
+    if (dose.actionedAt) continue;
+    if (new Date(dose.scheduledAt).getTime() < overdueBefore) medsOverdue += 1;
+    else medsDue += 1;
+  }
+
+  return {
+    mrn: patient.mrn,
+    name: patient.name,
+    location: patient.location,
+    age: patient.age,
+    gender: patient.gender,
+    lastObsAt: latest?.datetime ?? null,
+    ewsScore: score?.totalScore ?? null,
+    risk: score?.clinicalRisk ?? null,
+    hasEZone: (score?.emergencyParameters.length ?? 0) > 0,
+    medsDue,
+    medsOverdue,
+    unsignedOrders: patient.orders.filter((o) => !o.signed && o.status !== 'Cancelled').length,
+    activeMetMeoPlans: (metMeoOrders[patient.mrn] ?? []).filter(
+      (o) => o.status === 'ACTIVE' && o.expiresAt > now.toISOString(),
+    ).length,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Census
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the ward census, one row per patient, ordered by location.
+ *
+ * @example
+ * ```ts
+ * const rows = buildWardCensus({
+ *   patients: Object.values(patients), actions, metMeoOrders, now: currentTime,
+ * });
+ * ```
+ */
+export function buildWardCensus(input: CensusInput): CensusRow[] {
+  return input.patients
+    .map((patient) => buildCensusRow(patient, input))
+    .sort((a, b) => a.location.localeCompare(b.location, undefined, { numeric: true }));
+}
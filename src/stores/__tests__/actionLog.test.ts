@@ -0,0 +1,138 @@
+/**
+ * @file actionLog.test.ts
+ * @description Tests for recording learner actions on the action bus.
+ *
+ * Covers clock and patient stamping, delivery to subscribers, listener
+ * isolation, and the in-memory session buffer.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useClockStore } from '../clockStore';
+import { usePatientStore } from '../patientStore';
+import { recordAction } from '../../hooks/useActionLog';
+import {
+  SESSION_ID,
+  subscribeActions,
+  getSessionActions,
+  clearSessionActions,
+} from '../../services/actionLog';
+import type { LearnerAction, Patient } from '../../types';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const MRN = 'MRN-001';
+const SIM_NOW = new Date(2026, 2, 1, 9, 30);
+
+function makePatient(): Patient {
+  return {
+    mrn: MRN,
+    name: 'DOE, JANE',
+    dob: '1990-01-15',
+    age: 36,
+    gender: 'Female',
+    allergies: [],
+    location: 'Ward 3A',
+    attending: 'Dr. Smith',
+    admission: '2026-02-15',
+    medicalHistory: [],
+    vitals: [],
+    fluidBalance: [],
+    medications: [],
+    orders: [],
+    results: {
+      haematology: [],
+      biochemistry: [],
+      bloodGas: [],
+      coagulation: [],
+      urinalysis: [],
+      cardiac: [],
+    },
+    notes: [],
+  };
+}
+
+beforeEach(() => {
+  const patient = makePatient();
+  usePatientStore.setState({ patients: { [MRN]: patient }, currentPatient: patient });
+  useClockStore.setState({ currentTime: SIM_NOW });
+  clearSessionActions();
+});
+
+// ---------------------------------------------------------------------------
+// recordAction
+// ---------------------------------------------------------------------------
+
+describe('recordAction', () => {
+  it('stamps the session, open patient, and both clocks', () => {
+    const before = Date.now();
+    const action = recordAction('order/signed', { orderId: 'ORD001', name: 'FBC', type: 'Laboratory' });
+
+    expect(action.sessionId).toBe(SESSION_ID);
+    expect(action.patientMrn).toBe(MRN);
+    expect(action.simTime).toBe(SIM_NOW.toISOString());
+    expect(new Date(action.wallTime).getTime()).toBeGreaterThanOrEqual(before);
+    expect(action.payload).toEqual({ orderId: 'ORD001', name: 'FBC', type: 'Laboratory' });
+  });
+
+  it('uses an explicit patient over the open one', () => {
+    expect(recordAction('view/changed', { from: 'a', to: 'b' }, 'OTHER').patientMrn).toBe('OTHER');
+    expect(recordAction('view/changed', { from: 'b', to: 'c' }, null).patientMrn).toBeNull();
+  });
+
+  it('records no patient when none is open', () => {
+    usePatientStore.setState({ currentPatient: null });
+    expect(recordAction('view/changed', { from: 'a', to: 'b' }).patientMrn).toBeNull();
+  });
+
+  it('follows the simulation clock rather than the wall clock', () => {
+    useClockStore.getState().advanceMinutes(45);
+    const action = recordAction('view/changed', { from: 'a', to: 'b' });
+    expect(action.simTime).toBe(new Date(SIM_NOW.getTime() + 45 * 60_000).toISOString());
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Action bus
+// ---------------------------------------------------------------------------
+
+describe('action bus', () => {
+  it('delivers recorded actions to subscribers until they unsubscribe', () => {
+    const received: LearnerAction[] = [];
+    const unsubscribe = subscribeActions((a) => received.push(a));
+
+    const first = recordAction('iview/signed', { entryCount: 3, sectionIds: ['vitals'] });
+    unsubscribe();
+    recordAction('iview/signed', { entryCount: 1, sectionIds: ['pain'] });
+
+    expect(received).toEqual([first]);
+  });
+
+  it('keeps delivering when a listener throws', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const received: LearnerAction[] = [];
+    const unsubscribeBad = subscribeActions(() => {
+      throw new Error('boom');
+    });
+    const unsubscribeGood = subscribeActions((a) => received.push(a));
+
+    recordAction('view/changed', { from: 'a', to: 'b' });
+
+    expect(received).toHaveLength(1);
+    expect(errorSpy).toHaveBeenCalled();
+    unsubscribeBad();
+    unsubscribeGood();
+    errorSpy.mockRestore();
+  });
+
+  it('buffers the session actions oldest first', () => {
+    recordAction('order/placed', { orderId: 'ORD001', name: 'FBC', type: 'Laboratory', priority: 'Urgent' });
+    recordAction('order/signed', { orderId: 'ORD001', name: 'FBC', type: 'Laboratory' });
+
+    expect(getSessionActions().map((a) => a.type)).toEqual(['order/placed', 'order/signed']);
+
+    clearSessionActions();
+    expect(getSessionActions()).toEqual([]);
+  });
+});
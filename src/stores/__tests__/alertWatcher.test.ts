@@ -0,0 +1,163 @@
+/**
+ * @file alertWatcher.test.ts
+ * @description Tests for raising Discern alerts for every patient on the ward.
+ *
+ * Covers alerts for a patient who is not the one on screen, response
+ * deadlines running from when the set was charted, no repeats for the same
+ * set, and evaluating again when the chart form or a MET-MEO plan changes.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useAlertStore } from '../alertStore';
+import { useMeoStore } from '../meoStore';
+import { usePatientStore } from '../patientStore';
+import { useSettingsStore } from '../settingsStore';
+import { raiseVitalsAlerts, type AlertInputs } from '../../hooks/useAlertWatcher';
+import type { Patient, VitalSign } from '../../types';
+import type { MetMeoOrder } from '../../types/meo';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const MRN = 'MRN-001';
+const NOW = new Date(2026, 2, 1, 9, 5);
+
+/** A set charted at 09:00 scoring 4 on Q-ADDS (RR 31) */
+const MODERATE: VitalSign = {
+  datetime: '01-Mar-2026 09:00',
+  temp: 37,
+  hr: 75,
+  rr: 31,
+  bp_sys: 120,
+  spo2: 98,
+  avpu: 'A',
+  o2FlowRate: 0,
+};
+
+function makePatient(vitals: VitalSign[]): Patient {
+  return {
+    mrn: MRN,
+    name: 'DOE, JANE',
+    dob: '1958-01-15',
+    age: 68,
+    gender: 'Female',
+    allergies: [],
+    location: 'Ward 3A',
+    attending: 'Dr. Smith',
+    admission: '2026-02-28',
+    medicalHistory: [],
+    vitals,
+    fluidBalance: [],
+    medications: [],
+    orders: [],
+    results: {
+      haematology: [],
+      biochemistry: [],
+      bloodGas: [],
+      coagulation: [],
+      urinalysis: [],
+      cardiac: [],
+    },
+    notes: [],
+  };
+}
+
+/** Chart `vitals` for the patient, who is not the one on screen */
+function chart(vitals: VitalSign[]): void {
+  usePatientStore.setState({ patients: { [MRN]: makePatient(vitals) }, currentPatient: null });
+}
+
+let evaluated: Map<string, AlertInputs>;
+
+beforeEach(() => {
+  evaluated = new Map();
+  useAlertStore.setState({ alerts: {}, activeAlerts: {} });
+  useMeoStore.setState({ metMeoOrders: {}, mofOrders: {}, nursingAssessments: {} });
+  useSettingsStore.setState({ scoringSystem: 'qadds' });
+  chart([]);
+});
+
+// ---------------------------------------------------------------------------
+// Watcher
+// ---------------------------------------------------------------------------
+
+describe('raiseVitalsAlerts', () => {
+  it('raises an alert for a patient not on screen, with a deadline from the charted time', () => {
+    chart([MODERATE]);
+
+    expect(raiseVitalsAlerts(NOW, evaluated)).toEqual([MRN]);
+    const [alert] = useAlertStore.getState().getAlerts(MRN);
+    expect(alert).toMatchObject({
+      ewsRange: '4-5',
+      observationSet: MODERATE.datetime,
+      responseDeadline: new Date(2026, 2, 1, 9, 30).toISOString(),
+    });
+    expect(useAlertStore.getState().getActiveAlert(MRN)?.id).toBe(alert.id);
+  });
+
+  it('does not raise an alert for the same set again', () => {
+    chart([MODERATE]);
+    raiseVitalsAlerts(NOW, evaluated);
+
+    chart([MODERATE]);
+    expect(raiseVitalsAlerts(NOW, evaluated)).toEqual([]);
+    expect(raiseVitalsAlerts(NOW)).toEqual([]);
+    expect(useAlertStore.getState().getAlerts(MRN)).toHaveLength(1);
+  });
+
+  it('raises an alert for each new set charted', () => {
+    chart([MODERATE]);
+    raiseVitalsAlerts(NOW, evaluated);
+
+    chart([{ ...MODERATE, datetime: '01-Mar-2026 09:10', hr: 110 }, MODERATE]);
+    raiseVitalsAlerts(NOW, evaluated);
+    const ranges = useAlertStore.getState().getAlerts(MRN).map((a) => a.ewsRange);
+    expect(ranges).toEqual(['4-5', '6-7']);
+  });
+
+  it('evaluates again when the chart form changes', () => {
+    // SpO₂ 84 scores 2 on the chronic hypoxia chart, 4 on the general adult chart
+    const hypoxic = { ...MODERATE, rr: 16, spo2: 84 };
+    usePatientStore.setState({
+      patients: { [MRN]: { ...makePatient([hypoxic]), chartVariant: 'SW1171' } },
+    });
+    raiseVitalsAlerts(NOW, evaluated);
+
+    usePatientStore.getState().updatePatient(MRN, { chartVariant: 'SW150' });
+    raiseVitalsAlerts(NOW, evaluated);
+    const ranges = useAlertStore.getState().getAlerts(MRN).map((a) => a.ewsRange);
+    expect(ranges).toEqual(['1-3', '4-5']);
+  });
+
+  it('holds back a MET call covered by an active MET-MEO plan', () => {
+    const plan: MetMeoOrder = {
+      orderId: 'plan-1',
+      patientMrn: MRN,
+      orderType: 'MET_MEO_PLAN',
+      triggerType: 'E_ZONE',
+      eZoneVitalSign: 'heartRate',
+      eZoneLowerBound: 30,
+      eZoneUpperBound: 100,
+      eZoneCavpuLevel: null,
+      rationale: 'Known bradycardia on beta blockade',
+      durationHours: 12,
+      authorisingClinicianName: 'Dr Jones',
+      authorisingClinicianRole: 'REGISTRAR',
+      signedAt: new Date(2026, 2, 1, 8, 0).toISOString(),
+      expiresAt: new Date(2026, 2, 1, 20, 0).toISOString(),
+      cancelledAt: null,
+      status: 'ACTIVE',
+    };
+    useMeoStore.getState().addMetMeoOrder(plan);
+    chart([{ ...MODERATE, rr: 16, hr: 35 }]);
+
+    raiseVitalsAlerts(NOW, evaluated);
+    expect(useAlertStore.getState().getAlerts(MRN)).toEqual([]);
+
+    // Cancelling the plan brings the MET call for the same set
+    useMeoStore.getState().cancelMetMeoOrder(MRN, plan.orderId);
+    raiseVitalsAlerts(NOW, evaluated);
+    expect(useAlertStore.getState().getAlerts(MRN).map((a) => a.ewsRange)).toEqual(['E']);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * @file escalationTimers.test.ts
+ * @description Tests for alert response deadlines on the simulation clock.
+ *
+ * Covers escalating unreviewed alerts as their deadline passes, documented
+ * reviews stopping the timer, deadlines missed while the clock jumped or
+ * the session was closed, and each alert escalating only once.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useAlertStore } from '../alertStore';
+import { usePatientStore } from '../patientStore';
+import { escalateUnreviewedAlerts } from '../../hooks/useEscalationTimers';
+import { createAlert } from '../../services/alertEngine';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const MRN = 'MRN-001';
+const RAISED = new Date(2026, 2, 1, 9, 0);
+
+/** Sim time `minutes` after the alert was raised */
+function at(minutes: number): Date {
+  return new Date(RAISED.getTime() + minutes * 60_000);
+}
+
+beforeEach(() => {
+  useAlertStore.getState().clearAlerts();
+  usePatientStore.setState({ patients: {} });
+});
+
+// ---------------------------------------------------------------------------
+// Escalation
+// ---------------------------------------------------------------------------
+
+describe('escalateUnreviewedAlerts', () => {
+  it('escalates an unreviewed alert as its deadline passes', () => {
+    const alert = createAlert('4-5', { raisedAt: RAISED });
+    useAlertStore.getState().addAlerts(MRN, [alert]);
+
+    expect(escalateUnreviewedAlerts(at(29))).toEqual([]);
+    const [raisedId] = escalateUnreviewedAlerts(at(31));
+
+    const alerts = useAlertStore.getState().getAlerts(MRN);
+    expect(alerts).toHaveLength(2);
+    expect(alerts[0].escalatedTo).toBe(raisedId);
+    expect(alerts[1]).toMatchObject({ id: raisedId, ewsRange: '6-7', escalatedFrom: alert.id });
+    expect(useAlertStore.getState().getActiveAlert(MRN)?.id).toBe(raisedId);
+  });
+
+  it('does not escalate a reviewed alert', () => {
+    const alert = createAlert('4-5', { raisedAt: RAISED });
+    useAlertStore.getState().addAlerts(MRN, [alert]);
+    useAlertStore.getState().documentReview(MRN, alert.id, {
+      reviewedBy: 'Dr Jones',
+      tier: 'RMO',
+      reviewedAt: at(20).toISOString(),
+      notes: null,
+    });
+
+    expect(escalateUnreviewedAlerts(at(31))).toEqual([]);
+    expect(useAlertStore.getState().getAlerts(MRN)[0].review?.reviewedBy).toBe('Dr Jones');
+  });
+
+  it('escalates each alert once, up the ladder to a MET call', () => {
+    useAlertStore.getState().addAlerts(MRN, [createAlert('4-5', { raisedAt: RAISED })]);
+
+    escalateUnreviewedAlerts(at(31));
+    expect(escalateUnreviewedAlerts(at(40))).toEqual([]);
+    escalateUnreviewedAlerts(at(62));
+
+    const ranges = useAlertStore.getState().getAlerts(MRN).map((a) => a.ewsRange);
+    expect(ranges).toEqual(['4-5', '6-7', '>=8']);
+  });
+
+  it('escalates a deadline that passed before the last check', () => {
+    useAlertStore.getState().addAlerts(MRN, [createAlert('4-5', { raisedAt: RAISED })]);
+    expect(escalateUnreviewedAlerts(at(50))).toHaveLength(1);
+  });
+
+  it('keeps another pending alert in the dialog', () => {
+    const pending = createAlert('nurse-concern');
+    useAlertStore.getState().addAlerts(MRN, [createAlert('6-7', { raisedAt: RAISED }), pending]);
+    useAlertStore.getState().setActiveAlert(MRN, pending);
+
+    escalateUnreviewedAlerts(at(31));
+    expect(useAlertStore.getState().getActiveAlert(MRN)?.id).toBe(pending.id);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * @file instructorSync.test.ts
+ * @description Tests for applying instructor console commands to the
+ * learner's stores.
+ *
+ * Covers clock control, injected vitals, staff concern, fired alerts (built
+ * on the learner's clock and scoring system), added notes, and the status
+ * snapshot broadcast back to the console.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useClockStore } from '../clockStore';
+import { usePatientStore } from '../patientStore';
+import { useAlertStore } from '../alertStore';
+import { useSettingsStore } from '../settingsStore';
+import { applyInstructorCommand, buildLearnerStatus } from '../../hooks/useInstructorSync';
+import { createAlert } from '../../services/alertEngine';
+import type { Patient } from '../../types';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const MRN = 'MRN-001';
+const NOW = new Date(2026, 2, 1, 9, 30);
+
+function makePatient(): Patient {
+  return {
+    mrn: MRN,
+    name: 'DOE, JANE',
+    dob: '1990-01-15',
+    age: 36,
+    gender: 'Female',
+    allergies: [],
+    location: 'Ward 3A',
+    attending: 'Dr. Smith',
+    admission: '2026-02-15',
+    medicalHistory: [],
+    vitals: [{ datetime: '01-Mar-2026 09:00', hr: 88, rr: 18 }],
+    fluidBalance: [],
+    medications: [],
+    orders: [],
+    results: {
+      haematology: [],
+      biochemistry: [],
+      bloodGas: [],
+      coagulation: [],
+      urinalysis: [],
+      cardiac: [],
+    },
+    notes: [],
+  };
+}
+
+beforeEach(() => {
+  const patient = makePatient();
+  usePatientStore.setState({ patients: { [MRN]: patient }, currentPatient: patient });
+  useClockStore.setState({ currentTime: NOW, isRunning: false, isPaused: false });
+  useAlertStore.setState({ alerts: {}, activeAlerts: {} });
+  useSettingsStore.setState({ scoringSystem: 'qadds' });
+});
+
+// ---------------------------------------------------------------------------
+// Commands
+// ---------------------------------------------------------------------------
+
+describe('applyInstructorCommand', () => {
+  it('controls the simulation clock', () => {
+    applyInstructorCommand({ type: 'clock/start' });
+    expect(useClockStore.getState().isRunning).toBe(true);
+
+    applyInstructorCommand({ type: 'clock/pause' });
+    expect(useClockStore.getState().isPaused).toBe(true);
+
+    applyInstructorCommand({ type: 'clock/resume' });
+    expect(useClockStore.getState().isPaused).toBe(false);
+
+    applyInstructorCommand({ type: 'clock/advance', minutes: 15 });
+    expect(useClockStore.getState().currentTime.getTime()).toBe(NOW.getTime() + 15 * 60_000);
+  });
+
+  it('charts injected vitals at the learner clock time', () => {
+    applyInstructorCommand({ type: 'vitals/inject', patientMrn: MRN, vitals: { hr: 140, rr: 30 } });
+    const { currentPatient } = usePatientStore.getState();
+    expect(currentPatient?.vitals).toHaveLength(2);
+    expect(currentPatient?.vitals[0]).toEqual({ hr: 140, rr: 30, datetime: '01-Mar-2026 09:30' });
+  });
+
+  it('sets staff concern on the latest vitals only', () => {
+    applyInstructorCommand({ type: 'vitals/inject', patientMrn: MRN, vitals: { hr: 100 } });
+    applyInstructorCommand({ type: 'vitals/nurse-concern', patientMrn: MRN, nurseConcern: true });
+    const vitals = usePatientStore.getState().patients[MRN].vitals;
+    expect(vitals[0].nurseConcern).toBe(true);
+    expect(vitals[1].nurseConcern).toBeUndefined();
+  });
+
+  it('shows a fired alert immediately', () => {
+    applyInstructorCommand({ type: 'alert/fire', patientMrn: MRN, ewsRange: '>=8', showSepsisPrompt: true });
+    const [alert] = useAlertStore.getState().alerts[MRN];
+    expect(alert).toMatchObject({ ewsRange: '>=8', title: createAlert('>=8').title, showSepsisPrompt: true });
+    expect(useAlertStore.getState().getActiveAlert(MRN)).toEqual(alert);
+  });
+
+  it('times a fired alert\'s response deadline from the learner clock', () => {
+    applyInstructorCommand({ type: 'alert/fire', patientMrn: MRN, ewsRange: '4-5', showSepsisPrompt: false });
+    const [alert] = useAlertStore.getState().alerts[MRN];
+    expect(alert.responseDeadline).toBe(new Date(2026, 2, 1, 10, 0).toISOString());
+  });
+
+  it('words a fired alert for the site\'s scoring system', () => {
+    useSettingsStore.setState({ scoringSystem: 'news2' });
+    applyInstructorCommand({ type: 'alert/fire', patientMrn: MRN, ewsRange: '6-7', showSepsisPrompt: false });
+    const [alert] = useAlertStore.getState().alerts[MRN];
+    expect(alert.title).toBe(createAlert('6-7', { system: 'news2' }).title);
+    expect(alert.title).not.toBe(createAlert('6-7').title);
+  });
+
+  it('adds a note stamped with the learner clock time', () => {
+    applyInstructorCommand({
+      type: 'note/add',
+      patientMrn: MRN,
+      note: { type: 'Nursing', title: 'Update', author: 'SIM FACILITATOR', content: 'Family at bedside' },
+    });
+    const [note] = usePatientStore.getState().patients[MRN].notes;
+    expect(note).toMatchObject({ content: 'Family at bedside', datetime: '01-Mar-2026 09:30' });
+    expect(note.id).toBeTruthy();
+  });
+
+  it('ignores commands for a patient who is not loaded', () => {
+    const before = usePatientStore.getState().patients;
+    applyInstructorCommand({ type: 'vitals/inject', patientMrn: 'UNKNOWN', vitals: { hr: 50 } });
+    expect(usePatientStore.getState().patients).toBe(before);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Status
+// ---------------------------------------------------------------------------
+
+describe('buildLearnerStatus', () => {
+  it('reports the clock, patients, and latest vitals', () => {
+    const status = buildLearnerStatus();
+    expect(status.clock.currentTime).toBe(NOW.toISOString());
+    expect(status.currentPatientMrn).toBe(MRN);
+    expect(status.patients).toEqual([
+      { mrn: MRN, name: 'DOE, JANE', latestVitals: makePatient().vitals[0] },
+    ]);
+  });
+});
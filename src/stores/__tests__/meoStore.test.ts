@@ -14,6 +14,9 @@ import type {
   SedationAssessment,
 } from '@/types/meo'
 
+const MRN = 'PAH599806'
+const OTHER_MRN = 'RBWH789456'
+
 // ---------------------------------------------------------------------------
 // Helpers — factory functions for creating test data
 // ---------------------------------------------------------------------------
@@ -23,6 +26,7 @@ function makeMetMeoOrder(overrides: Partial<MetMeoOrder> = {}): MetMeoOrder {
   const expiresAt = new Date(Date.now() + 12 * 60 * 60 * 1000).toISOString() // +12h
   return {
     orderId: 'met-001',
+    patientMrn: MRN,
     orderType: 'MET_MEO_PLAN',
     triggerType: 'EWS_GTE_8',
     eZoneVitalSign: null,
@@ -56,6 +60,7 @@ function makeExpiredMetMeoOrder(overrides: Partial<MetMeoOrder> = {}): MetMeoOrd
 function makeMofOrder(overrides: Partial<ModifiedObsFrequencyOrder> = {}): ModifiedObsFrequencyOrder {
   return {
     orderId: 'mof-001',
+    patientMrn: MRN,
     orderType: 'MODIFIED_OBS_FREQUENCY',
     optionSelected: 'LONG_STAY_RESPITE',
     frequencyHours: 8,
@@ -71,6 +76,7 @@ function makeMofOrder(overrides: Partial<ModifiedObsFrequencyOrder> = {}): Modif
 function makeNursingAssessment(overrides: Partial<NursingAssessment> = {}): NursingAssessment {
   return {
     assessmentId: 'na-001',
+    patientMrn: MRN,
     metMeoOrderId: 'met-001',
     assessmentTime: new Date().toISOString(),
     patientStatus: 'STABLE',
@@ -85,6 +91,7 @@ function makeNursingAssessment(overrides: Partial<NursingAssessment> = {}): Nurs
 function makeSedationAssessment(overrides: Partial<SedationAssessment> = {}): SedationAssessment {
   return {
     assessmentId: 'sa-001',
+    patientMrn: MRN,
     assessmentTime: new Date().toISOString(),
     score: 0,
     comments: null,
@@ -104,20 +111,20 @@ beforeEach(() => {
 // Initial state
 // ---------------------------------------------------------------------------
 describe('Initial state', () => {
-  it('has empty metMeoOrders array', () => {
-    expect(useMeoStore.getState().metMeoOrders).toEqual([])
+  it('has no metMeoOrders for any patient', () => {
+    expect(useMeoStore.getState().metMeoOrders).toEqual({})
   })
 
-  it('has empty mofOrders array', () => {
-    expect(useMeoStore.getState().mofOrders).toEqual([])
+  it('has no mofOrders for any patient', () => {
+    expect(useMeoStore.getState().mofOrders).toEqual({})
   })
 
-  it('has empty nursingAssessments array', () => {
-    expect(useMeoStore.getState().nursingAssessments).toEqual([])
+  it('has no nursingAssessments for any patient', () => {
+    expect(useMeoStore.getState().nursingAssessments).toEqual({})
   })
 
-  it('has empty sedationAssessments array', () => {
-    expect(useMeoStore.getState().sedationAssessments).toEqual([])
+  it('has no sedationAssessments for any patient', () => {
+    expect(useMeoStore.getState().sedationAssessments).toEqual({})
   })
 
   it('has showMeoDialog set to false', () => {
@@ -143,8 +150,8 @@ describe('MetMeo order management', () => {
       useMeoStore.getState().addMetMeoOrder(order)
 
       const state = useMeoStore.getState()
-      expect(state.metMeoOrders).toHaveLength(1)
-      expect(state.metMeoOrders[0]).toEqual(order)
+      expect(state.metMeoOrders[MRN]).toHaveLength(1)
+      expect(state.metMeoOrders[MRN][0]).toEqual(order)
     })
 
     it('appends multiple orders preserving insertion order', () => {
@@ -155,18 +162,18 @@ describe('MetMeo order management', () => {
       useMeoStore.getState().addMetMeoOrder(order2)
 
       const state = useMeoStore.getState()
-      expect(state.metMeoOrders).toHaveLength(2)
-      expect(state.metMeoOrders[0].orderId).toBe('met-001')
-      expect(state.metMeoOrders[1].orderId).toBe('met-002')
+      expect(state.metMeoOrders[MRN]).toHaveLength(2)
+      expect(state.metMeoOrders[MRN][0].orderId).toBe('met-001')
+      expect(state.metMeoOrders[MRN][1].orderId).toBe('met-002')
     })
 
     it('does not affect other state slices', () => {
       useMeoStore.getState().addMetMeoOrder(makeMetMeoOrder())
 
       const state = useMeoStore.getState()
-      expect(state.mofOrders).toEqual([])
-      expect(state.nursingAssessments).toEqual([])
-      expect(state.sedationAssessments).toEqual([])
+      expect(state.mofOrders).toEqual({})
+      expect(state.nursingAssessments).toEqual({})
+      expect(state.sedationAssessments).toEqual({})
       expect(state.showMeoDialog).toBe(false)
     })
   })
@@ -176,9 +183,9 @@ describe('MetMeo order management', () => {
       const order = makeMetMeoOrder({ orderId: 'met-cancel' })
       useMeoStore.getState().addMetMeoOrder(order)
 
-      useMeoStore.getState().cancelMetMeoOrder('met-cancel')
+      useMeoStore.getState().cancelMetMeoOrder(MRN, 'met-cancel')
 
-      const cancelled = useMeoStore.getState().metMeoOrders[0]
+      const cancelled = useMeoStore.getState().metMeoOrders[MRN][0]
       expect(cancelled.status).toBe('CANCELLED')
     })
 
@@ -188,10 +195,10 @@ describe('MetMeo order management', () => {
       expect(order.cancelledAt).toBeNull()
 
       const beforeCancel = new Date().toISOString()
-      useMeoStore.getState().cancelMetMeoOrder('met-cancel')
+      useMeoStore.getState().cancelMetMeoOrder(MRN, 'met-cancel')
       const afterCancel = new Date().toISOString()
 
-      const cancelled = useMeoStore.getState().metMeoOrders[0]
+      const cancelled = useMeoStore.getState().metMeoOrders[MRN][0]
       expect(cancelled.cancelledAt).not.toBeNull()
       expect(cancelled.cancelledAt! >= beforeCancel).toBe(true)
       expect(cancelled.cancelledAt! <= afterCancel).toBe(true)
@@ -203,9 +210,9 @@ describe('MetMeo order management', () => {
       useMeoStore.getState().addMetMeoOrder(order1)
       useMeoStore.getState().addMetMeoOrder(order2)
 
-      useMeoStore.getState().cancelMetMeoOrder('met-cancel')
+      useMeoStore.getState().cancelMetMeoOrder(MRN, 'met-cancel')
 
-      const orders = useMeoStore.getState().metMeoOrders
+      const orders = useMeoStore.getState().metMeoOrders[MRN]
       expect(orders[0].status).toBe('ACTIVE')
       expect(orders[0].cancelledAt).toBeNull()
       expect(orders[1].status).toBe('CANCELLED')
@@ -215,9 +222,9 @@ describe('MetMeo order management', () => {
       const order = makeMetMeoOrder({ orderId: 'met-001' })
       useMeoStore.getState().addMetMeoOrder(order)
 
-      useMeoStore.getState().cancelMetMeoOrder('nonexistent')
+      useMeoStore.getState().cancelMetMeoOrder(MRN, 'nonexistent')
 
-      const orders = useMeoStore.getState().metMeoOrders
+      const orders = useMeoStore.getState().metMeoOrders[MRN]
       expect(orders).toHaveLength(1)
       expect(orders[0].status).toBe('ACTIVE')
     })
@@ -228,13 +235,13 @@ describe('MetMeo order management', () => {
       const order = makeMetMeoOrder({ orderId: 'met-active' })
       useMeoStore.getState().addMetMeoOrder(order)
 
-      const active = useMeoStore.getState().getActiveMetMeo()
+      const active = useMeoStore.getState().getActiveMetMeo(MRN, new Date())
       expect(active).not.toBeNull()
       expect(active!.orderId).toBe('met-active')
     })
 
     it('returns null when no orders exist', () => {
-      const active = useMeoStore.getState().getActiveMetMeo()
+      const active = useMeoStore.getState().getActiveMetMeo(MRN, new Date())
       expect(active).toBeNull()
     })
 
@@ -242,7 +249,7 @@ describe('MetMeo order management', () => {
       const order = makeMetMeoOrder({ orderId: 'met-c', status: 'CANCELLED', cancelledAt: new Date().toISOString() })
       useMeoStore.getState().addMetMeoOrder(order)
 
-      const active = useMeoStore.getState().getActiveMetMeo()
+      const active = useMeoStore.getState().getActiveMetMeo(MRN, new Date())
       expect(active).toBeNull()
     })
 
@@ -250,7 +257,7 @@ describe('MetMeo order management', () => {
       const expired = makeExpiredMetMeoOrder()
       useMeoStore.getState().addMetMeoOrder(expired)
 
-      const active = useMeoStore.getState().getActiveMetMeo()
+      const active = useMeoStore.getState().getActiveMetMeo(MRN, new Date())
       expect(active).toBeNull()
     })
 
@@ -267,7 +274,7 @@ describe('MetMeo order management', () => {
       useMeoStore.getState().addMetMeoOrder(expiredOrder)
       useMeoStore.getState().addMetMeoOrder(activeOrder)
 
-      const active = useMeoStore.getState().getActiveMetMeo()
+      const active = useMeoStore.getState().getActiveMetMeo(MRN, new Date())
       expect(active).not.toBeNull()
       expect(active!.orderId).toBe('met-active')
     })
@@ -280,17 +287,30 @@ describe('MetMeo order management', () => {
       })
       useMeoStore.getState().addMetMeoOrder(expiredStatus)
 
-      const active = useMeoStore.getState().getActiveMetMeo()
+      const active = useMeoStore.getState().getActiveMetMeo(MRN, new Date())
       expect(active).toBeNull()
     })
 
     it('reflects cancellation — returns null after the only active order is cancelled', () => {
       const order = makeMetMeoOrder({ orderId: 'met-sole' })
       useMeoStore.getState().addMetMeoOrder(order)
-      expect(useMeoStore.getState().getActiveMetMeo()).not.toBeNull()
+      expect(useMeoStore.getState().getActiveMetMeo(MRN, new Date())).not.toBeNull()
+
+      useMeoStore.getState().cancelMetMeoOrder(MRN, 'met-sole')
+      expect(useMeoStore.getState().getActiveMetMeo(MRN, new Date())).toBeNull()
+    })
+
+    it('judges expiry against the simulation time, not the wall clock', () => {
+      const simStart = new Date(2026, 2, 1, 8, 0)
+      const order = makeMetMeoOrder({
+        orderId: 'met-sim',
+        signedAt: simStart.toISOString(),
+        expiresAt: new Date(2026, 2, 1, 20, 0).toISOString(),
+      })
+      useMeoStore.getState().addMetMeoOrder(order)
 
-      useMeoStore.getState().cancelMetMeoOrder('met-sole')
-      expect(useMeoStore.getState().getActiveMetMeo()).toBeNull()
+      expect(useMeoStore.getState().getActiveMetMeo(MRN, new Date(2026, 2, 1, 19, 59))?.orderId).toBe('met-sim')
+      expect(useMeoStore.getState().getActiveMetMeo(MRN, new Date(2026, 2, 1, 20, 0))).toBeNull()
     })
   })
 })
@@ -305,8 +325,8 @@ describe('MOF order management', () => {
       useMeoStore.getState().addMofOrder(order)
 
       const state = useMeoStore.getState()
-      expect(state.mofOrders).toHaveLength(1)
-      expect(state.mofOrders[0]).toEqual(order)
+      expect(state.mofOrders[MRN]).toHaveLength(1)
+      expect(state.mofOrders[MRN][0]).toEqual(order)
     })
 
     it('appends multiple MOF orders preserving insertion order', () => {
@@ -317,17 +337,17 @@ describe('MOF order management', () => {
       useMeoStore.getState().addMofOrder(order2)
 
       const state = useMeoStore.getState()
-      expect(state.mofOrders).toHaveLength(2)
-      expect(state.mofOrders[0].orderId).toBe('mof-001')
-      expect(state.mofOrders[1].orderId).toBe('mof-002')
+      expect(state.mofOrders[MRN]).toHaveLength(2)
+      expect(state.mofOrders[MRN][0].orderId).toBe('mof-001')
+      expect(state.mofOrders[MRN][1].orderId).toBe('mof-002')
     })
 
     it('does not affect metMeoOrders or other state', () => {
       useMeoStore.getState().addMofOrder(makeMofOrder())
 
       const state = useMeoStore.getState()
-      expect(state.metMeoOrders).toEqual([])
-      expect(state.nursingAssessments).toEqual([])
+      expect(state.metMeoOrders).toEqual({})
+      expect(state.nursingAssessments).toEqual({})
     })
   })
 
@@ -336,9 +356,9 @@ describe('MOF order management', () => {
       const order = makeMofOrder({ orderId: 'mof-cancel' })
       useMeoStore.getState().addMofOrder(order)
 
-      useMeoStore.getState().cancelMofOrder('mof-cancel')
+      useMeoStore.getState().cancelMofOrder(MRN, 'mof-cancel')
 
-      const cancelled = useMeoStore.getState().mofOrders[0]
+      const cancelled = useMeoStore.getState().mofOrders[MRN][0]
       expect(cancelled.status).toBe('CANCELLED')
     })
 
@@ -347,10 +367,10 @@ describe('MOF order management', () => {
       useMeoStore.getState().addMofOrder(order)
 
       const beforeCancel = new Date().toISOString()
-      useMeoStore.getState().cancelMofOrder('mof-cancel')
+      useMeoStore.getState().cancelMofOrder(MRN, 'mof-cancel')
       const afterCancel = new Date().toISOString()
 
-      const cancelled = useMeoStore.getState().mofOrders[0]
+      const cancelled = useMeoStore.getState().mofOrders[MRN][0]
       expect(cancelled.cancelledAt).not.toBeNull()
       expect(cancelled.cancelledAt! >= beforeCancel).toBe(true)
       expect(cancelled.cancelledAt! <= afterCancel).toBe(true)
@@ -362,9 +382,9 @@ describe('MOF order management', () => {
       useMeoStore.getState().addMofOrder(order1)
       useMeoStore.getState().addMofOrder(order2)
 
-      useMeoStore.getState().cancelMofOrder('mof-cancel')
+      useMeoStore.getState().cancelMofOrder(MRN, 'mof-cancel')
 
-      const orders = useMeoStore.getState().mofOrders
+      const orders = useMeoStore.getState().mofOrders[MRN]
       expect(orders[0].status).toBe('ACTIVE')
       expect(orders[0].cancelledAt).toBeNull()
       expect(orders[1].status).toBe('CANCELLED')
@@ -374,9 +394,9 @@ describe('MOF order management', () => {
       const order = makeMofOrder({ orderId: 'mof-001' })
       useMeoStore.getState().addMofOrder(order)
 
-      useMeoStore.getState().cancelMofOrder('nonexistent')
+      useMeoStore.getState().cancelMofOrder(MRN, 'nonexistent')
 
-      expect(useMeoStore.getState().mofOrders[0].status).toBe('ACTIVE')
+      expect(useMeoStore.getState().mofOrders[MRN][0].status).toBe('ACTIVE')
     })
   })
 
@@ -385,13 +405,13 @@ describe('MOF order management', () => {
       const order = makeMofOrder({ orderId: 'mof-active' })
       useMeoStore.getState().addMofOrder(order)
 
-      const active = useMeoStore.getState().getActiveMof()
+      const active = useMeoStore.getState().getActiveMof(MRN)
       expect(active).not.toBeNull()
       expect(active!.orderId).toBe('mof-active')
     })
 
     it('returns null when no MOF orders exist', () => {
-      const active = useMeoStore.getState().getActiveMof()
+      const active = useMeoStore.getState().getActiveMof(MRN)
       expect(active).toBeNull()
     })
 
@@ -403,7 +423,7 @@ describe('MOF order management', () => {
       })
       useMeoStore.getState().addMofOrder(order)
 
-      const active = useMeoStore.getState().getActiveMof()
+      const active = useMeoStore.getState().getActiveMof(MRN)
       expect(active).toBeNull()
     })
 
@@ -418,7 +438,7 @@ describe('MOF order management', () => {
       useMeoStore.getState().addMofOrder(cancelledOrder)
       useMeoStore.getState().addMofOrder(activeOrder)
 
-      const active = useMeoStore.getState().getActiveMof()
+      const active = useMeoStore.getState().getActiveMof(MRN)
       expect(active).not.toBeNull()
       expect(active!.orderId).toBe('mof-active')
     })
@@ -426,10 +446,10 @@ describe('MOF order management', () => {
     it('reflects cancellation — returns null after the only active order is cancelled', () => {
       const order = makeMofOrder({ orderId: 'mof-sole' })
       useMeoStore.getState().addMofOrder(order)
-      expect(useMeoStore.getState().getActiveMof()).not.toBeNull()
+      expect(useMeoStore.getState().getActiveMof(MRN)).not.toBeNull()
 
-      useMeoStore.getState().cancelMofOrder('mof-sole')
-      expect(useMeoStore.getState().getActiveMof()).toBeNull()
+      useMeoStore.getState().cancelMofOrder(MRN, 'mof-sole')
+      expect(useMeoStore.getState().getActiveMof(MRN)).toBeNull()
     })
   })
 })
@@ -545,8 +565,8 @@ describe('Nursing assessment management', () => {
     useMeoStore.getState().addNursingAssessment(assessment)
 
     const state = useMeoStore.getState()
-    expect(state.nursingAssessments).toHaveLength(1)
-    expect(state.nursingAssessments[0]).toEqual(assessment)
+    expect(state.nursingAssessments[MRN]).toHaveLength(1)
+    expect(state.nursingAssessments[MRN][0]).toEqual(assessment)
   })
 
   it('adds multiple assessments preserving insertion order', () => {
@@ -556,7 +576,7 @@ describe('Nursing assessment management', () => {
     useMeoStore.getState().addNursingAssessment(a1)
     useMeoStore.getState().addNursingAssessment(a2)
 
-    const assessments = useMeoStore.getState().nursingAssessments
+    const assessments = useMeoStore.getState().nursingAssessments[MRN]
     expect(assessments).toHaveLength(2)
     expect(assessments[0].assessmentId).toBe('na-001')
     expect(assessments[1].assessmentId).toBe('na-002')
@@ -575,7 +595,7 @@ describe('Nursing assessment management', () => {
 
     useMeoStore.getState().addNursingAssessment(assessment)
 
-    const stored = useMeoStore.getState().nursingAssessments[0]
+    const stored = useMeoStore.getState().nursingAssessments[MRN][0]
     expect(stored.assessmentId).toBe('na-detailed')
     expect(stored.metMeoOrderId).toBe('met-001')
     expect(stored.patientStatus).toBe('DETERIORATING')
@@ -589,9 +609,9 @@ describe('Nursing assessment management', () => {
     useMeoStore.getState().addNursingAssessment(makeNursingAssessment())
 
     const state = useMeoStore.getState()
-    expect(state.metMeoOrders).toEqual([])
-    expect(state.mofOrders).toEqual([])
-    expect(state.sedationAssessments).toEqual([])
+    expect(state.metMeoOrders).toEqual({})
+    expect(state.mofOrders).toEqual({})
+    expect(state.sedationAssessments).toEqual({})
   })
 })
 
@@ -604,8 +624,8 @@ describe('Sedation assessment management', () => {
     useMeoStore.getState().addSedationAssessment(assessment)
 
     const state = useMeoStore.getState()
-    expect(state.sedationAssessments).toHaveLength(1)
-    expect(state.sedationAssessments[0]).toEqual(assessment)
+    expect(state.sedationAssessments[MRN]).toHaveLength(1)
+    expect(state.sedationAssessments[MRN][0]).toEqual(assessment)
   })
 
   it('adds multiple sedation assessments preserving insertion order', () => {
@@ -617,7 +637,7 @@ describe('Sedation assessment management', () => {
     useMeoStore.getState().addSedationAssessment(s2)
     useMeoStore.getState().addSedationAssessment(s3)
 
-    const assessments = useMeoStore.getState().sedationAssessments
+    const assessments = useMeoStore.getState().sedationAssessments[MRN]
     expect(assessments).toHaveLength(3)
     expect(assessments[0].score).toBe(0)
     expect(assessments[1].score).toBe(2)
@@ -633,7 +653,7 @@ describe('Sedation assessment management', () => {
 
     useMeoStore.getState().addSedationAssessment(assessment)
 
-    const stored = useMeoStore.getState().sedationAssessments[0]
+    const stored = useMeoStore.getState().sedationAssessments[MRN][0]
     expect(stored.assessmentId).toBe('sa-detailed')
     expect(stored.score).toBe(1)
     expect(stored.comments).toBe('Mild sedation, easy to rouse')
@@ -644,9 +664,9 @@ describe('Sedation assessment management', () => {
     useMeoStore.getState().addSedationAssessment(makeSedationAssessment())
 
     const state = useMeoStore.getState()
-    expect(state.metMeoOrders).toEqual([])
-    expect(state.mofOrders).toEqual([])
-    expect(state.nursingAssessments).toEqual([])
+    expect(state.metMeoOrders).toEqual({})
+    expect(state.mofOrders).toEqual({})
+    expect(state.nursingAssessments).toEqual({})
   })
 })
 
@@ -666,10 +686,10 @@ describe('Store reset', () => {
 
     // Verify populated
     let state = useMeoStore.getState()
-    expect(state.metMeoOrders).toHaveLength(1)
-    expect(state.mofOrders).toHaveLength(1)
-    expect(state.nursingAssessments).toHaveLength(1)
-    expect(state.sedationAssessments).toHaveLength(1)
+    expect(state.metMeoOrders[MRN]).toHaveLength(1)
+    expect(state.mofOrders[MRN]).toHaveLength(1)
+    expect(state.nursingAssessments[MRN]).toHaveLength(1)
+    expect(state.sedationAssessments[MRN]).toHaveLength(1)
     expect(state.showMeoDialog).toBe(true)
 
     // Reset
@@ -677,12 +697,48 @@ describe('Store reset', () => {
 
     // Verify reset
     state = useMeoStore.getState()
-    expect(state.metMeoOrders).toEqual([])
-    expect(state.mofOrders).toEqual([])
-    expect(state.nursingAssessments).toEqual([])
-    expect(state.sedationAssessments).toEqual([])
+    expect(state.metMeoOrders).toEqual({})
+    expect(state.mofOrders).toEqual({})
+    expect(state.nursingAssessments).toEqual({})
+    expect(state.sedationAssessments).toEqual({})
     expect(state.showMeoDialog).toBe(false)
     expect(state.showMetMeoForm).toBe(false)
     expect(state.showMofForm).toBe(false)
   })
 })
+
+// ---------------------------------------------------------------------------
+// Per-patient isolation
+// ---------------------------------------------------------------------------
+describe('Per-patient isolation', () => {
+  it('files orders and assessments under their patient MRN', () => {
+    useMeoStore.getState().addMetMeoOrder(makeMetMeoOrder({ orderId: 'met-a' }))
+    useMeoStore.getState().addMetMeoOrder(makeMetMeoOrder({ orderId: 'met-b', patientMrn: OTHER_MRN }))
+    useMeoStore.getState().addSedationAssessment(makeSedationAssessment({ patientMrn: OTHER_MRN, score: 2 }))
+
+    const state = useMeoStore.getState()
+    expect(state.metMeoOrders[MRN].map((o) => o.orderId)).toEqual(['met-a'])
+    expect(state.metMeoOrders[OTHER_MRN].map((o) => o.orderId)).toEqual(['met-b'])
+    expect(state.sedationAssessments[MRN]).toBeUndefined()
+    expect(state.sedationAssessments[OTHER_MRN]).toHaveLength(1)
+  })
+
+  it("does not return another patient's active orders", () => {
+    useMeoStore.getState().addMetMeoOrder(makeMetMeoOrder({ patientMrn: OTHER_MRN }))
+    useMeoStore.getState().addMofOrder(makeMofOrder({ patientMrn: OTHER_MRN }))
+
+    expect(useMeoStore.getState().getActiveMetMeo(MRN, new Date())).toBeNull()
+    expect(useMeoStore.getState().getActiveMof(MRN)).toBeNull()
+    expect(useMeoStore.getState().getActiveMetMeo(OTHER_MRN, new Date())).not.toBeNull()
+  })
+
+  it("cancels only within the named patient's orders", () => {
+    useMeoStore.getState().addMetMeoOrder(makeMetMeoOrder({ orderId: 'met-shared' }))
+    useMeoStore.getState().addMetMeoOrder(makeMetMeoOrder({ orderId: 'met-shared', patientMrn: OTHER_MRN }))
+
+    useMeoStore.getState().cancelMetMeoOrder(OTHER_MRN, 'met-shared')
+
+    expect(useMeoStore.getState().metMeoOrders[MRN][0].status).toBe('ACTIVE')
+    expect(useMeoStore.getState().metMeoOrders[OTHER_MRN][0].status).toBe('CANCELLED')
+  })
+})
@@ -0,0 +1,366 @@
+/**
+ * @file persistence.test.ts
+ * @description Tests for saving the Zustand stores and restoring them on
+ * reload.
+ *
+ * Covers restoring each store's snapshot (upgrading older patient
+ * snapshots) and the action bus, writing changes once restored (each
+ * patient on its own), leaving snapshots alone until then, and skipping
+ * writes when the persisted state is unchanged. Runs on the in-memory
+ * fallback, as jsdom has no IndexedDB.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useAlertStore } from '../alertStore';
+import { useClockStore } from '../clockStore';
+import { useMeoStore } from '../meoStore';
+import { usePatientStore } from '../patientStore';
+import { useScenarioStore } from '../scenarioStore';
+import { useSepsisStore } from '../sepsisStore';
+import { useSessionStore } from '../sessionStore';
+import { hydrateStores } from '../hydrate';
+import {
+  clearAll,
+  clearSessionLog,
+  getPatient,
+  getStoreState,
+  logAction,
+  saveMedicationAdministration,
+  savePatient,
+  saveStoreState,
+} from '../../services/db';
+import { clearSessionActions, getSessionActions } from '../../services/actionLog';
+import { normalizeScenario } from '../../services/scenarioEngine';
+import { createAlert } from '../../services/alertEngine';
+import { normalizeMedication } from '../../services/medicationOrders';
+import type { Order, Patient } from '../../types';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const MRN = 'MRN-001';
+const SIM_TIME = new Date(2026, 2, 1, 9, 30);
+
+function makePatient(): Patient {
+  return {
+    mrn: MRN,
+    name: 'DOE, JANE',
+    dob: '1990-01-15',
+    age: 36,
+    gender: 'Female',
+    allergies: [],
+    location: 'Ward 3A',
+    attending: 'Dr. Smith',
+    admission: '2026-02-15',
+    medicalHistory: [],
+    vitals: [{ datetime: '01-Mar-2026 09:00', hr: 88, rr: 18 }],
+    fluidBalance: [],
+    medications: [],
+    orders: [],
+    results: {
+      haematology: [],
+      biochemistry: [],
+      bloodGas: [],
+      coagulation: [],
+      urinalysis: [],
+      cardiac: [],
+    },
+    notes: [],
+  };
+}
+
+function makeOrder(): Order {
+  return {
+    id: 'order-1',
+    name: 'Full Blood Count',
+    type: 'Laboratory',
+    priority: 'Urgent',
+    status: 'Ordered',
+    ordered: '2026-03-01T09:30:00.000Z',
+  };
+}
+
+/** Save a snapshot as if written before the reload. */
+function saved(id: string, state: unknown, version = 1): Promise<void> {
+  return saveStoreState({ id, version, state, savedAt: '2026-03-01T09:30:00.000Z' });
+}
+
+/** Let pending storage writes settle. */
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+beforeEach(async () => {
+  usePatientStore.setState({ patients: {}, currentPatient: null });
+  useClockStore.setState({ currentTime: new Date(), isRunning: false, playbackSpeed: 1 });
+  useSessionStore.setState({ currentView: 'search' });
+  useAlertStore.getState().clearAlerts();
+  useMeoStore.setState({ sedationAssessments: {} });
+  useScenarioStore.getState().stopScenario();
+  useSepsisStore.setState({ screens: {}, bundles: {} });
+  await flush();
+  await clearAll();
+  await clearSessionLog();
+  clearSessionActions();
+});
+
+// ---------------------------------------------------------------------------
+// Restoring
+// ---------------------------------------------------------------------------
+
+describe('hydrateStores', () => {
+  it('restores the roster, selected patient, alerts, clock and view', async () => {
+    const patient = makePatient();
+    const alert = createAlert('4-5');
+    await saved('patients', { patients: { [MRN]: patient }, currentPatientMrn: MRN });
+    await saved('alerts', { alerts: { [MRN]: [alert] }, activeAlerts: { [MRN]: alert } });
+    await saved('clock', { currentTime: SIM_TIME, playbackSpeed: 5 });
+    await saved('session', { currentView: 'mar', isAuthenticated: true, userName: 'RN Lee' });
+
+    await hydrateStores();
+
+    const patients = usePatientStore.getState();
+    expect(patients.patients[MRN]).toEqual(patient);
+    expect(patients.currentPatient).toBe(patients.patients[MRN]);
+    expect(useAlertStore.getState().getActiveAlert(MRN)?.id).toBe(alert.id);
+    expect(useClockStore.getState().currentTime).toEqual(SIM_TIME);
+    expect(useClockStore.getState().playbackSpeed).toBe(5);
+    expect(useClockStore.getState().isRunning).toBe(false);
+    expect(useSessionStore.getState().currentView).toBe('mar');
+  });
+
+  it('upgrades free-text medications saved by version 1 of the patient store', async () => {
+    const patient = {
+      ...makePatient(),
+      medications: [
+        { name: 'ramipril', dose: '5 mg', route: 'Oral', frequency: 'TWICE a day', scheduled: true, times: ['0800'], status: 'active' },
+      ],
+    };
+    await saved('patients', { patients: { [MRN]: patient }, currentPatientMrn: MRN }, 1);
+
+    await hydrateStores();
+
+    expect(usePatientStore.getState().patients[MRN].medications[0]).toMatchObject({
+      dose: { amount: 5, unit: 'mg' },
+      route: 'PO',
+      frequency: { code: 'BD', intervalHours: 12 },
+      times: ['08:00'],
+    });
+  });
+
+  it('turns the last-given time saved by version 2 into an administration record', async () => {
+    const patient = {
+      ...makePatient(),
+      medications: [
+        {
+          name: 'ramipril',
+          dose: { amount: 5, unit: 'mg' },
+          route: 'PO',
+          frequency: { code: 'BD', intervalHours: 12 },
+          scheduled: true,
+          times: ['08:00'],
+          lastGiven: '01-Mar-2026 08:05',
+          administeredBy: 'RN Lee',
+          status: 'active',
+        },
+      ],
+    };
+    await saved('patients', { patients: { [MRN]: patient }, currentPatientMrn: MRN }, 2);
+
+    await hydrateStores();
+
+    const med = usePatientStore.getState().patients[MRN].medications[0];
+    expect(med.administrations).toEqual([
+      expect.objectContaining({
+        scheduledAt: null,
+        timestamp: new Date(2026, 2, 1, 8, 5).toISOString(),
+        status: 'GIVEN',
+        nurse: 'RN Lee',
+      }),
+    ]);
+    expect(med).not.toHaveProperty('lastGiven');
+  });
+
+  it('restores doses in the administrations audit that the snapshot missed', async () => {
+    const ramipril = normalizeMedication({ name: 'ramipril', dose: '5 mg', frequency: 'BD', times: ['0800'] });
+    const charted = {
+      id: 'dose-1',
+      scheduledAt: new Date(2026, 2, 1, 8, 0).toISOString(),
+      timestamp: SIM_TIME.toISOString(),
+      status: 'GIVEN' as const,
+      nurse: 'RN Lee',
+      overrideReason: 'Dose confirmed with pharmacy',
+    };
+    const missed = { ...charted, id: 'dose-2', scheduledAt: new Date(2026, 2, 1, 20, 0).toISOString() };
+    const patient = { ...makePatient(), medications: [{ ...ramipril, administrations: [charted] }] };
+    await saved('patients', { patients: { [MRN]: patient }, currentPatientMrn: MRN }, 3);
+    await saveMedicationAdministration(MRN, 'ramipril', charted);
+    await saveMedicationAdministration(MRN, 'ramipril', missed);
+
+    await hydrateStores();
+
+    const med = usePatientStore.getState().patients[MRN].medications[0];
+    expect(med.administrations).toEqual([charted, missed]);
+  });
+
+  it('restores patients saved on their own', async () => {
+    const patient = { ...makePatient(), orders: [makeOrder()] };
+    await savePatient(patient);
+    await savePatient({ ...makePatient(), mrn: 'MRN-OLD' });
+    await saved('patients', { patientMrns: [MRN], currentPatientMrn: MRN }, 3);
+
+    await hydrateStores();
+
+    expect(usePatientStore.getState().patients).toEqual({ [MRN]: patient });
+    expect(usePatientStore.getState().currentPatient?.mrn).toBe(MRN);
+  });
+
+  it('restores a running scenario and sepsis bundles', async () => {
+    const scenario = normalizeScenario({
+      id: 'sepsis-1',
+      title: 'Evolving sepsis',
+      patientMrn: MRN,
+      events: [
+        { id: 'e1', offsetMinutes: 0, type: 'vitals', vitals: { hr: 110 } },
+        { id: 'e2', offsetMinutes: 30, type: 'vitals', vitals: { hr: 125 } },
+      ],
+    });
+    await saved('scenario', {
+      scenario,
+      runId: 'run-1',
+      startedAt: SIM_TIME.toISOString(),
+      firedEventIds: ['e1'],
+      triggeredResponseIds: [],
+      status: 'running',
+    });
+    const bundle = { bundleId: 'b1', patientMrn: MRN, screenId: 's1', startedAt: SIM_TIME.toISOString() };
+    await saved('sepsis', { screens: {}, bundles: { [MRN]: [bundle] } });
+
+    await hydrateStores();
+
+    expect(useScenarioStore.getState()).toMatchObject({ runId: 'run-1', firedEventIds: ['e1'], status: 'running' });
+    expect(useScenarioStore.getState().scenario?.id).toBe('sepsis-1');
+    expect(useSepsisStore.getState().getBundle(MRN)).toEqual(bundle);
+    expect(useSepsisStore.getState().showScreenForm).toBe(false);
+  });
+
+  it('puts the actions recorded before the reload back on the action bus', async () => {
+    await logAction({
+      sessionId: 'earlier-session',
+      type: 'order/placed',
+      patientMrn: MRN,
+      wallTime: '2026-03-01T09:30:00.000Z',
+      simTime: SIM_TIME.toISOString(),
+      scenarioRunId: null,
+      payload: { orderId: 'order-1', name: 'Lactate', type: 'Laboratory', priority: 'Urgent' },
+    });
+
+    await hydrateStores();
+
+    expect(getSessionActions()).toEqual([
+      expect.objectContaining({ sessionId: 'earlier-session', type: 'order/placed', patientMrn: MRN }),
+    ]);
+  });
+
+  it('keeps the initial state of stores with no snapshot', async () => {
+    await hydrateStores();
+    expect(usePatientStore.getState().patients).toEqual({});
+    expect(useSessionStore.getState().currentView).toBe('search');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Saving
+// ---------------------------------------------------------------------------
+
+describe('Saving store state', () => {
+  it('writes changes once the store has been restored', async () => {
+    await hydrateStores();
+    usePatientStore.getState().setPatients({ [MRN]: makePatient() });
+    usePatientStore.getState().addOrder(MRN, makeOrder());
+    useMeoStore.getState().addSedationAssessment({
+      assessmentId: 'sed-1',
+      patientMrn: MRN,
+      assessmentTime: SIM_TIME.toISOString(),
+      score: 1,
+      comments: null,
+    });
+    await flush();
+
+    const patients = await getStoreState('patients');
+    expect(patients?.version).toBe(3);
+    expect(patients?.state).toEqual({ patientMrns: [MRN], currentPatientMrn: null });
+    expect((await getPatient(MRN))?.orders).toHaveLength(1);
+    expect((await getStoreState('meo'))?.state).toMatchObject({
+      sedationAssessments: { [MRN]: [{ assessmentId: 'sed-1' }] },
+    });
+  });
+
+  it('writes doses documented on the MAR with the medication', async () => {
+    await hydrateStores();
+    const ramipril = normalizeMedication({ name: 'ramipril', dose: '5 mg', frequency: 'BD', times: ['0800'] });
+    usePatientStore.getState().setPatients({ [MRN]: { ...makePatient(), medications: [ramipril] } });
+    const record = {
+      id: 'dose-1',
+      scheduledAt: new Date(2026, 2, 1, 8, 0).toISOString(),
+      timestamp: SIM_TIME.toISOString(),
+      status: 'HELD' as const,
+      reason: 'Patient NPO / fasting',
+      nurse: 'RN Lee',
+    };
+    usePatientStore.getState().recordAdministration(MRN, 'ramipril', record);
+    await flush();
+
+    expect((await getPatient(MRN))?.medications[0].administrations).toEqual([record]);
+  });
+
+  it('rewrites only the patients that changed', async () => {
+    await hydrateStores();
+    const other = { ...makePatient(), mrn: 'MRN-002' };
+    usePatientStore.getState().setPatients({ [MRN]: makePatient(), [other.mrn]: other });
+    await flush();
+    const before = await getPatient(other.mrn);
+
+    usePatientStore.getState().addOrder(MRN, makeOrder());
+    await flush();
+
+    expect((await getPatient(MRN))?.orders).toHaveLength(1);
+    expect(await getPatient(other.mrn)).toBe(before);
+  });
+
+
+
+  it('leaves the snapshot alone until the store has been restored', async () => {
+    // A fresh page: no store has been restored yet.
+    vi.resetModules();
+    const persistence = await import('../../services/db');
+    const { useSessionStore: freshSessionStore } = await import('../sessionStore');
+    await persistence.saveStoreState({
+      id: 'session',
+      version: 1,
+      state: { currentView: 'mar', isAuthenticated: true, userName: 'RN Lee' },
+      savedAt: '2026-03-01T09:30:00.000Z',
+    });
+
+    freshSessionStore.getState().setCurrentView('orders');
+    await flush();
+
+    expect((await persistence.getStoreState('session'))?.state).toMatchObject({
+      currentView: 'mar',
+    });
+  });
+
+  it('does not rewrite a store when only unsaved fields change', async () => {
+    await hydrateStores();
+    usePatientStore.getState().setPatients({ [MRN]: makePatient() });
+    await flush();
+    const before = await getStoreState('patients');
+
+    usePatientStore.getState().setLoading(true);
+    usePatientStore.getState().setLoading(false);
+    await flush();
+
+    expect(await getStoreState('patients')).toBe(before);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Sepsis Store Tests
+ *
+ * Validates the Zustand store for the adult sepsis pathway: filing screens
+ * by patient, starting a bundle on a positive screen, and the screen form
+ * visibility flag.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { useSepsisStore } from '@/stores/sepsisStore'
+import type { SepsisScreen } from '@/types/sepsis'
+
+const MRN = 'PAH599806'
+const OTHER_MRN = 'RBWH789456'
+
+function makeScreen(overrides: Partial<SepsisScreen> = {}): SepsisScreen {
+  return {
+    screenId: 'screen-001',
+    patientMrn: MRN,
+    screenedAt: '2026-03-01T08:00:00.000Z',
+    criteria: [{ id: 'rr', label: 'RR ≥ 25', value: '28' }],
+    lactate: null,
+    infectionSource: 'URINARY',
+    redFlags: ['rr'],
+    positive: true,
+    screenedBy: 'RN Test',
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  useSepsisStore.setState({ screens: {}, bundles: {}, showScreenForm: false })
+})
+
+describe('useSepsisStore', () => {
+  it('Files screens under the patient', () => {
+    useSepsisStore.getState().addScreen(makeScreen())
+    useSepsisStore.getState().addScreen(makeScreen({ screenId: 'screen-002', patientMrn: OTHER_MRN }))
+    expect(useSepsisStore.getState().screens[MRN]).toHaveLength(1)
+    expect(useSepsisStore.getState().screens[OTHER_MRN]).toHaveLength(1)
+  })
+
+  it('Starts a bundle timed from a positive screen', () => {
+    useSepsisStore.getState().addScreen(makeScreen())
+    expect(useSepsisStore.getState().getBundle(MRN)).toMatchObject({
+      patientMrn: MRN,
+      screenId: 'screen-001',
+      startedAt: '2026-03-01T08:00:00.000Z',
+    })
+    expect(useSepsisStore.getState().getBundle(OTHER_MRN)).toBeNull()
+  })
+
+  it('Does not start a bundle on a negative screen', () => {
+    useSepsisStore.getState().addScreen(makeScreen({ positive: false, infectionSource: 'NONE' }))
+    expect(useSepsisStore.getState().getBundle(MRN)).toBeNull()
+  })
+
+  it('Does not restart the bundle clock on a repeat positive screen', () => {
+    useSepsisStore.getState().addScreen(makeScreen())
+    useSepsisStore.getState().addScreen(makeScreen({ screenId: 'screen-002', screenedAt: '2026-03-01T08:30:00.000Z' }))
+    expect(useSepsisStore.getState().bundles[MRN]).toHaveLength(1)
+    expect(useSepsisStore.getState().getBundle(MRN)?.screenId).toBe('screen-001')
+  })
+
+  it('Opens and closes the screen form', () => {
+    useSepsisStore.getState().openScreenForm()
+    expect(useSepsisStore.getState().showScreenForm).toBe(true)
+    useSepsisStore.getState().closeScreenForm()
+    expect(useSepsisStore.getState().showScreenForm).toBe(false)
+  })
+})
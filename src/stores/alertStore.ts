@@ -4,48 +4,148 @@
  * Holds the current set of Q-ADDS alerts generated by the alert engine,
  * tracks which alert is actively displayed in the AlertDialog, and
  * provides actions for acknowledging and clearing alerts.
+ *
+ * Alerts are keyed by patient MRN: each patient has their own alert list
+ * and their own pending dialog, which is shown while their chart is open.
+ *
+ * Reviews documented against an alert, and escalations raised when a
+ * response deadline passes without one, are recorded on the alert itself.
+ *
+ * Alerts and pending dialogs are saved to IndexedDB and restored on reload
+ * (see `hydrateStores`).
  */
 
 import { create } from 'zustand'
-import type { AlertData } from '@/services/alertEngine'
+import { persist } from 'zustand/middleware'
+import { createStoreStorage } from '@/services/db'
+import type { AlertData, AlertReview } from '@/services/alertEngine'
 
 interface AlertState {
-  /** All current alerts (acknowledged and unacknowledged) */
-  alerts: AlertData[]
-  /** The alert currently displayed in the AlertDialog, or null */
-  activeAlert: AlertData | null
-
-  /** Append new alerts to the store */
-  addAlerts: (alerts: AlertData[]) => void
-  /** Mark a specific alert as acknowledged by its id */
-  acknowledgeAlert: (id: string) => void
-  /** Remove all alerts from the store */
-  clearAlerts: () => void
-  /** Set the alert to display in the AlertDialog (or null to close) */
-  setActiveAlert: (alert: AlertData | null) => void
+  /** All current alerts (acknowledged and unacknowledged) by patient MRN */
+  alerts: Record<string, AlertData[]>
+  /** The alert to display in the AlertDialog for each patient MRN */
+  activeAlerts: Record<string, AlertData>
+
+  /** Append new alerts to a patient's list */
+  addAlerts: (patientMrn: string, alerts: AlertData[]) => void
+  /** Mark one of a patient's alerts as acknowledged by its id */
+  acknowledgeAlert: (patientMrn: string, id: string) => void
+  /** Remove a patient's alerts, or every patient's when no MRN is given */
+  clearAlerts: (patientMrn?: string) => void
+  /** Set the alert to display in a patient's AlertDialog (or null to close) */
+  setActiveAlert: (patientMrn: string, alert: AlertData | null) => void
+  /** Record the clinician review of one of a patient's alerts */
+  documentReview: (patientMrn: string, id: string, review: AlertReview) => void
+  /**
+   * Mark one of a patient's alerts escalated and add the alert it escalated
+   * to, which replaces it in the dialog if it was pending
+   */
+  escalateAlert: (patientMrn: string, id: string, escalated: AlertData) => void
+
+  /** Returns the patient's alerts */
+  getAlerts: (patientMrn: string) => AlertData[]
+  /** Returns the alert pending display for the patient, or null */
+  getActiveAlert: (patientMrn: string) => AlertData | null
 }
 
-export const useAlertStore = create<AlertState>()((set) => ({
-  alerts: [],
-  activeAlert: null,
+/** The part of the alert store saved to IndexedDB */
+type PersistedAlertState = Pick<AlertState, 'alerts' | 'activeAlerts'>
 
-  addAlerts: (newAlerts) =>
-    set((state) => ({
-      alerts: [...state.alerts, ...newAlerts],
-    })),
+/** Shared empty list, so selectors for a patient with no alerts stay stable */
+const NO_ALERTS: AlertData[] = []
 
-  acknowledgeAlert: (id) =>
-    set((state) => ({
-      alerts: state.alerts.map((a) =>
-        a.id === id ? { ...a, acknowledged: true } : a,
+/** Apply a change to one of a patient's alerts, in the list and the dialog */
+function patchAlert(
+  state: Pick<AlertState, 'alerts' | 'activeAlerts'>,
+  patientMrn: string,
+  id: string,
+  patch: Partial<AlertData>,
+): Pick<AlertState, 'alerts' | 'activeAlerts'> {
+  const active = state.activeAlerts[patientMrn]
+  return {
+    alerts: {
+      ...state.alerts,
+      [patientMrn]: (state.alerts[patientMrn] ?? NO_ALERTS).map((a) =>
+        a.id === id ? { ...a, ...patch } : a,
       ),
-      activeAlert:
-        state.activeAlert?.id === id
-          ? { ...state.activeAlert, acknowledged: true }
-          : state.activeAlert,
-    })),
+    },
+    activeAlerts:
+      active?.id === id
+        ? { ...state.activeAlerts, [patientMrn]: { ...active, ...patch } }
+        : state.activeAlerts,
+  }
+}
+
+/** Copy of an MRN-keyed map without the given patient */
+function without<T>(byPatient: Record<string, T>, patientMrn: string): Record<string, T> {
+  const next = { ...byPatient }
+  delete next[patientMrn]
+  return next
+}
+
+export const useAlertStore = create<AlertState>()(
+  persist(
+    (set, get) => ({
+      alerts: {},
+      activeAlerts: {},
+
+      addAlerts: (patientMrn, newAlerts) =>
+        set((state) => ({
+          alerts: {
+            ...state.alerts,
+            [patientMrn]: [...(state.alerts[patientMrn] ?? NO_ALERTS), ...newAlerts],
+          },
+        })),
+
+      acknowledgeAlert: (patientMrn, id) =>
+        set((state) => patchAlert(state, patientMrn, id, { acknowledged: true })),
+
+      clearAlerts: (patientMrn) =>
+        set((state) =>
+          patientMrn === undefined
+            ? { alerts: {}, activeAlerts: {} }
+            : {
+                alerts: without(state.alerts, patientMrn),
+                activeAlerts: without(state.activeAlerts, patientMrn),
+              },
+        ),
+
+      setActiveAlert: (patientMrn, alert) =>
+        set((state) => ({
+          activeAlerts: alert
+            ? { ...state.activeAlerts, [patientMrn]: alert }
+            : without(state.activeAlerts, patientMrn),
+        })),
+
+      documentReview: (patientMrn, id, review) =>
+        set((state) => patchAlert(state, patientMrn, id, { review })),
+
+      escalateAlert: (patientMrn, id, escalated) =>
+        set((state) => {
+          const patched = patchAlert(state, patientMrn, id, { escalatedTo: escalated.id })
+          const active = state.activeAlerts[patientMrn]
+          return {
+            alerts: {
+              ...patched.alerts,
+              [patientMrn]: [...(patched.alerts[patientMrn] ?? NO_ALERTS), escalated],
+            },
+            activeAlerts:
+              !active || active.id === id
+                ? { ...patched.activeAlerts, [patientMrn]: escalated }
+                : patched.activeAlerts,
+          }
+        }),
 
-  clearAlerts: () => set({ alerts: [], activeAlert: null }),
+      getAlerts: (patientMrn) => get().alerts[patientMrn] ?? NO_ALERTS,
 
-  setActiveAlert: (alert) => set({ activeAlert: alert }),
-}))
+      getActiveAlert: (patientMrn) => get().activeAlerts[patientMrn] ?? null,
+    }),
+    {
+      name: 'alerts',
+      version: 1,
+      storage: createStoreStorage<PersistedAlertState>(),
+      skipHydration: true,
+      partialize: (state) => ({ alerts: state.alerts, activeAlerts: state.activeAlerts }),
+    },
+  ),
+)
@@ -6,9 +6,15 @@
  * configurable playback speeds (1×, 2×, 5×, 10×). The clock drives
  * time-dependent features such as medication due-times on the MAR,
  * vital sign observation windows, and Q-ADDS EWS escalation timers.
+ *
+ * The simulation time and playback speed are saved to IndexedDB and
+ * restored on reload (see `hydrateStores`). The clock comes back stopped,
+ * so a refresh never runs the scenario on without the learner.
  */
 
 import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { createStoreStorage } from '../services/db';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -78,6 +84,9 @@ export interface ClockActions {
 /** Combined clock store type. */
 export type ClockStore = ClockState & ClockActions;
 
+/** The part of the clock store saved to IndexedDB. */
+type PersistedClockState = Pick<ClockState, 'currentTime' | 'playbackSpeed'>;
+
 /**
  * Zustand store for the simulation clock.
  *
@@ -87,36 +96,50 @@ export type ClockStore = ClockState & ClockActions;
  * const start = useClockStore(s => s.start);
  * ```
  */
-export const useClockStore = create<ClockStore>((set, get) => ({
-  // -- initial state --------------------------------------------------------
-  currentTime: new Date(),
-  isRunning: false,
-  playbackSpeed: 1 as PlaybackSpeed,
-  isPaused: false,
-
-  // -- actions --------------------------------------------------------------
-
-  setTime: (time) => set({ currentTime: time }),
-
-  start: () => set({ isRunning: true, isPaused: false }),
-
-  stop: () => set({ isRunning: false, isPaused: false }),
-
-  pause: () => set({ isPaused: true }),
-
-  resume: () => set({ isPaused: false }),
-
-  setPlaybackSpeed: (speed) => set({ playbackSpeed: speed }),
-
-  advanceMinutes: (minutes) => {
-    const { currentTime } = get();
-    const next = new Date(currentTime.getTime() + minutes * 60_000);
-    set({ currentTime: next });
-  },
-
-  advanceHours: (hours) => {
-    const { currentTime } = get();
-    const next = new Date(currentTime.getTime() + hours * 3_600_000);
-    set({ currentTime: next });
-  },
-}));
+export const useClockStore = create<ClockStore>()(
+  persist(
+    (set, get) => ({
+      // -- initial state ----------------------------------------------------
+      currentTime: new Date(),
+      isRunning: false,
+      playbackSpeed: 1 as PlaybackSpeed,
+      isPaused: false,
+
+      // -- actions ----------------------------------------------------------
+
+      setTime: (time) => set({ currentTime: time }),
+
+      start: () => set({ isRunning: true, isPaused: false }),
+
+      stop: () => set({ isRunning: false, isPaused: false }),
+
+      pause: () => set({ isPaused: true }),
+
+      resume: () => set({ isPaused: false }),
+
+      setPlaybackSpeed: (speed) => set({ playbackSpeed: speed }),
+
+      advanceMinutes: (minutes) => {
+        const { currentTime } = get();
+        const next = new Date(currentTime.getTime() + minutes * 60_000);
+        set({ currentTime: next });
+      },
+
+      advanceHours: (hours) => {
+        const { currentTime } = get();
+        const next = new Date(currentTime.getTime() + hours * 3_600_000);
+        set({ currentTime: next });
+      },
+    }),
+    {
+      name: 'clock',
+      version: 1,
+      storage: createStoreStorage<PersistedClockState>(),
+      skipHydration: true,
+      partialize: (state) => ({
+        currentTime: state.currentTime,
+        playbackSpeed: state.playbackSpeed,
+      }),
+    },
+  ),
+);
@@ -0,0 +1,94 @@
+/**
+ * @file hydrate.ts
+ * @description Restores the persisted Zustand stores from IndexedDB.
+ *
+ * The patient, MEO, alert, clock, session, scenario and sepsis stores save
+ * their state through the `persist` middleware (see `createStoreStorage`)
+ * but skip hydration on creation. {@link hydrateStores} restores them
+ * together, and a store writes nothing until it has been restored, so the
+ * learner window calls it once before the app mounts and other windows (the
+ * instructor console) leave the saved state alone.
+ *
+ * Each store's snapshot carries a version. A store that changes the shape
+ * it persists bumps its `version` and adds a `migrate` step; a snapshot
+ * from another version without one is dropped rather than loaded.
+ *
+ * Each dose documented on the MAR is also saved to the administrations
+ * audit in IndexedDB. Once the stores are restored, any dose in the audit
+ * that the patient snapshot missed (e.g. the page closed before the
+ * snapshot was written) is put back into its medication's history.
+ *
+ * The learner actions recorded before the reload are read back from the
+ * audit trail onto the action bus, so the debrief, objectives, ward census
+ * and sepsis bundle see the whole simulation rather than only what has
+ * happened since.
+ */
+
+import { useAlertStore } from './alertStore';
+import { useClockStore } from './clockStore';
+import { useMeoStore } from './meoStore';
+import { usePatientStore } from './patientStore';
+import { useScenarioStore } from './scenarioStore';
+import { useSepsisStore } from './sepsisStore';
+import { useSessionStore } from './sessionStore';
+import { restoreSessionActions } from '../services/actionLog';
+import { getAdministrations, getSessionLog, toMedicationAdministration } from '../services/db';
+
+/** Stores saved to IndexedDB and restored on reload. */
+const PERSISTED_STORES = [
+  usePatientStore,
+  useMeoStore,
+  useAlertStore,
+  useClockStore,
+  useSessionStore,
+  useScenarioStore,
+  useSepsisStore,
+] as const;
+
+/**
+ * Restore every persisted store from its saved snapshot. Stores with no
+ * snapshot keep their initial state.
+ *
+ * @example
+ * ```ts
+ * await hydrateStores();
+ * if (Object.keys(usePatientStore.getState().patients).length === 0) loadRoster();
+ * ```
+ */
+export async function hydrateStores(): Promise<void> {
+  await Promise.all(PERSISTED_STORES.map((store) => store.persist.rehydrate()));
+  await restoreAdministrations();
+  await restoreActions();
+}
+
+/** Put the actions in the audit trail back on the action bus. */
+async function restoreActions(): Promise<void> {
+  try {
+    restoreSessionActions(await getSessionLog());
+  } catch (err) {
+    console.warn('[hydrate] Failed to read the audit trail:', err);
+  }
+}
+
+/**
+ * Add doses from the administrations audit that are missing from the
+ * restored medication histories, in simulation-time order.
+ */
+async function restoreAdministrations(): Promise<void> {
+  const { patients, recordAdministration } = usePatientStore.getState();
+  for (const patient of Object.values(patients)) {
+    let records;
+    try {
+      records = await getAdministrations(patient.mrn);
+    } catch (err) {
+      console.warn(`[hydrate] Failed to read administrations for ${patient.mrn}:`, err);
+      continue;
+    }
+    for (const record of records) {
+      const medication = patient.medications.find((m) => m.name === record.medicationName);
+      if (!medication || medication.administrations.some((a) => a.id === record.id)) continue;
+      const administration = toMedicationAdministration(record);
+      if (administration) recordAdministration(patient.mrn, medication.name, administration);
+    }
+  }
+}
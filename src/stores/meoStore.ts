@@ -4,9 +4,17 @@
  * Holds MET-MEO Plan orders, Modified Observation Frequency orders,
  * nursing assessments, sedation assessments, and dialog visibility flags.
  * Provides actions for creating, cancelling, and querying orders.
+ *
+ * Orders and assessments are keyed by patient MRN so that switching
+ * patients never shows another patient's plan or sedation scores.
+ *
+ * Orders and assessments are saved to IndexedDB and restored on reload
+ * (see `hydrateStores`); dialog flags are not.
  */
 
 import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { createStoreStorage } from '@/services/db'
 import type {
   MetMeoOrder,
   ModifiedObsFrequencyOrder,
@@ -15,28 +23,28 @@ import type {
 } from '@/types/meo'
 
 interface MeoState {
-  /** All MET-MEO Plan orders (active, expired, and cancelled) */
-  metMeoOrders: MetMeoOrder[]
-  /** All Modified Observation Frequency orders (active and cancelled) */
-  mofOrders: ModifiedObsFrequencyOrder[]
+  /** MET-MEO Plan orders (active, expired, and cancelled) by patient MRN */
+  metMeoOrders: Record<string, MetMeoOrder[]>
+  /** Modified Observation Frequency orders (active and cancelled) by patient MRN */
+  mofOrders: Record<string, ModifiedObsFrequencyOrder[]>
 
-  /** Nursing assessments recorded under active MET-MEO plans */
-  nursingAssessments: NursingAssessment[]
-  /** Sedation assessments */
-  sedationAssessments: SedationAssessment[]
+  /** Nursing assessments recorded under active MET-MEO plans, by patient MRN */
+  nursingAssessments: Record<string, NursingAssessment[]>
+  /** Sedation assessments by patient MRN */
+  sedationAssessments: Record<string, SedationAssessment[]>
 
   /** Dialog visibility flags */
   showMeoDialog: boolean
   showMetMeoForm: boolean
   showMofForm: boolean
 
-  /** Order actions */
+  /** Order actions — orders are filed under their `patientMrn` */
   addMetMeoOrder: (order: MetMeoOrder) => void
-  cancelMetMeoOrder: (orderId: string) => void
+  cancelMetMeoOrder: (patientMrn: string, orderId: string) => void
   addMofOrder: (order: ModifiedObsFrequencyOrder) => void
-  cancelMofOrder: (orderId: string) => void
+  cancelMofOrder: (patientMrn: string, orderId: string) => void
 
-  /** Assessment actions */
+  /** Assessment actions — assessments are filed under their `patientMrn` */
   addNursingAssessment: (assessment: NursingAssessment) => void
   addSedationAssessment: (assessment: SedationAssessment) => void
 
@@ -48,92 +56,139 @@ interface MeoState {
   openMofForm: () => void
   closeMofForm: () => void
 
-  /** Returns the first active, non-expired MET-MEO Plan order, or null */
-  getActiveMetMeo: () => MetMeoOrder | null
-  /** Returns the first active MOF order, or null */
-  getActiveMof: () => ModifiedObsFrequencyOrder | null
+  /** Returns the patient's first active MET-MEO Plan order not expired at simulation time `now`, or null */
+  getActiveMetMeo: (patientMrn: string, now: Date) => MetMeoOrder | null
+  /** Returns the patient's first active MOF order, or null */
+  getActiveMof: (patientMrn: string) => ModifiedObsFrequencyOrder | null
+}
+
+/** The part of the MEO store saved to IndexedDB */
+type PersistedMeoState = Pick<
+  MeoState,
+  'metMeoOrders' | 'mofOrders' | 'nursingAssessments' | 'sedationAssessments'
+>
+
+/** Shared empty list, so selectors for a patient with no records stay stable */
+const NONE: never[] = []
+
+/** A patient's records from one of the MRN-keyed maps */
+export function forPatient<T>(byPatient: Record<string, T[]>, patientMrn: string | undefined): T[] {
+  return (patientMrn && byPatient[patientMrn]) || NONE
+}
+
+/** Append a record to its patient's list */
+function append<T extends { patientMrn: string }>(
+  byPatient: Record<string, T[]>,
+  record: T,
+): Record<string, T[]> {
+  return { ...byPatient, [record.patientMrn]: [...forPatient(byPatient, record.patientMrn), record] }
+}
+
+/** Mark one of a patient's orders cancelled */
+function cancel<T extends { orderId: string; status: string; cancelledAt: string | null }>(
+  byPatient: Record<string, T[]>,
+  patientMrn: string,
+  orderId: string,
+): Record<string, T[]> {
+  const orders = byPatient[patientMrn]
+  if (!orders) return byPatient
+  return {
+    ...byPatient,
+    [patientMrn]: orders.map((o) =>
+      o.orderId === orderId
+        ? { ...o, status: 'CANCELLED' as const, cancelledAt: new Date().toISOString() }
+        : o,
+    ),
+  }
 }
 
-export const useMeoStore = create<MeoState>()((set, get) => ({
-  metMeoOrders: [],
-  mofOrders: [],
-  nursingAssessments: [],
-  sedationAssessments: [],
-  showMeoDialog: false,
-  showMetMeoForm: false,
-  showMofForm: false,
-
-  // ---------------------------------------------------------------------------
-  // Order actions
-  // ---------------------------------------------------------------------------
-
-  addMetMeoOrder: (order) =>
-    set((state) => ({
-      metMeoOrders: [...state.metMeoOrders, order],
-    })),
-
-  cancelMetMeoOrder: (orderId) =>
-    set((state) => ({
-      metMeoOrders: state.metMeoOrders.map((o) =>
-        o.orderId === orderId
-          ? { ...o, status: 'CANCELLED' as const, cancelledAt: new Date().toISOString() }
-          : o,
-      ),
-    })),
-
-  addMofOrder: (order) =>
-    set((state) => ({
-      mofOrders: [...state.mofOrders, order],
-    })),
-
-  cancelMofOrder: (orderId) =>
-    set((state) => ({
-      mofOrders: state.mofOrders.map((o) =>
-        o.orderId === orderId
-          ? { ...o, status: 'CANCELLED' as const, cancelledAt: new Date().toISOString() }
-          : o,
-      ),
-    })),
-
-  // ---------------------------------------------------------------------------
-  // Assessment actions
-  // ---------------------------------------------------------------------------
-
-  addNursingAssessment: (assessment) =>
-    set((state) => ({
-      nursingAssessments: [...state.nursingAssessments, assessment],
-    })),
-
-  addSedationAssessment: (assessment) =>
-    set((state) => ({
-      sedationAssessments: [...state.sedationAssessments, assessment],
-    })),
-
-  // ---------------------------------------------------------------------------
-  // Dialog actions
-  // ---------------------------------------------------------------------------
-
-  openMeoDialog: () => set({ showMeoDialog: true }),
-  closeMeoDialog: () => set({ showMeoDialog: false }),
-  openMetMeoForm: () => set({ showMetMeoForm: true }),
-  closeMetMeoForm: () => set({ showMetMeoForm: false }),
-  openMofForm: () => set({ showMofForm: true }),
-  closeMofForm: () => set({ showMofForm: false }),
-
-  // ---------------------------------------------------------------------------
-  // Computed helpers
-  // ---------------------------------------------------------------------------
-
-  getActiveMetMeo: () => {
-    const now = new Date().toISOString()
-    return (
-      get().metMeoOrders.find(
-        (o) => o.status === 'ACTIVE' && o.expiresAt > now,
-      ) ?? null
-    )
-  },
-
-  getActiveMof: () => {
-    return get().mofOrders.find((o) => o.status === 'ACTIVE') ?? null
-  },
-}))
+export const useMeoStore = create<MeoState>()(
+  persist(
+    (set, get) => ({
+      metMeoOrders: {},
+      mofOrders: {},
+      nursingAssessments: {},
+      sedationAssessments: {},
+      showMeoDialog: false,
+      showMetMeoForm: false,
+      showMofForm: false,
+
+      // ---------------------------------------------------------------------------
+      // Order actions
+      // ---------------------------------------------------------------------------
+
+      addMetMeoOrder: (order) =>
+        set((state) => ({
+          metMeoOrders: append(state.metMeoOrders, order),
+        })),
+
+      cancelMetMeoOrder: (patientMrn, orderId) =>
+        set((state) => ({
+          metMeoOrders: cancel(state.metMeoOrders, patientMrn, orderId),
+        })),
+
+      addMofOrder: (order) =>
+        set((state) => ({
+          mofOrders: append(state.mofOrders, order),
+        })),
+
+      cancelMofOrder: (patientMrn, orderId) =>
+        set((state) => ({
+          mofOrders: cancel(state.mofOrders, patientMrn, orderId),
+        })),
+
+      // ---------------------------------------------------------------------------
+      // Assessment actions
+      // ---------------------------------------------------------------------------
+
+      addNursingAssessment: (assessment) =>
+        set((state) => ({
+          nursingAssessments: append(state.nursingAssessments, assessment),
+        })),
+
+      addSedationAssessment: (assessment) =>
+        set((state) => ({
+          sedationAssessments: append(state.sedationAssessments, assessment),
+        })),
+
+      // ---------------------------------------------------------------------------
+      // Dialog actions
+      // ---------------------------------------------------------------------------
+
+      openMeoDialog: () => set({ showMeoDialog: true }),
+      closeMeoDialog: () => set({ showMeoDialog: false }),
+      openMetMeoForm: () => set({ showMetMeoForm: true }),
+      closeMetMeoForm: () => set({ showMetMeoForm: false }),
+      openMofForm: () => set({ showMofForm: true }),
+      closeMofForm: () => set({ showMofForm: false }),
+
+      // ---------------------------------------------------------------------------
+      // Computed helpers
+      // ---------------------------------------------------------------------------
+
+      getActiveMetMeo: (patientMrn, now) => {
+        return (
+          forPatient(get().metMeoOrders, patientMrn).find(
+            (o) => o.status === 'ACTIVE' && new Date(o.expiresAt) > now,
+          ) ?? null
+        )
+      },
+
+      getActiveMof: (patientMrn) => {
+        return forPatient(get().mofOrders, patientMrn).find((o) => o.status === 'ACTIVE') ?? null
+      },
+    }),
+    {
+      name: 'meo',
+      version: 1,
+      storage: createStoreStorage<PersistedMeoState>(),
+      skipHydration: true,
+      partialize: (state) => ({
+        metMeoOrders: state.metMeoOrders,
+        mofOrders: state.mofOrders,
+        nursingAssessments: state.nursingAssessments,
+        sedationAssessments: state.sedationAssessments,
+      }),
+    },
+  ),
+)
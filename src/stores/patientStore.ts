@@ -6,10 +6,18 @@
  * patient, loading/error flags, and mutation actions for orders and
  * patient updates. All components that need patient data should consume
  * this store via the {@link usePatientStore} hook.
+ *
+ * The roster and the selected patient are saved to IndexedDB and restored
+ * on reload (see `hydrateStores`), so orders, documented doses and other
+ * changes made during a scenario survive a refresh. Each patient is saved
+ * on its own, so a change rewrites only the patient it touches.
  */
 
 import { create } from 'zustand';
-import type { Patient, Order, OrderStatus } from '../types';
+import { persist } from 'zustand/middleware';
+import { createPatientStoreStorage } from '../services/db';
+import { normalizeMedication } from '../services/medicationOrders';
+import type { Patient, Order, OrderStatus, MedicationAdministration } from '../types';
 
 // ---------------------------------------------------------------------------
 // State Shape
@@ -44,6 +52,13 @@ export interface PatientActions {
    */
   setCurrentPatient: (patient: Patient) => void;
 
+  /**
+   * Switch the current context to another loaded patient, taking their
+   * latest record from the roster. Does nothing for an unknown MRN.
+   * @param mrn - MRN of the patient to focus on.
+   */
+  selectPatient: (mrn: string) => void;
+
   /** Deselect the current patient. */
   clearCurrentPatient: () => void;
 
@@ -62,6 +77,35 @@ export interface PatientActions {
    */
   signOrder: (mrn: string, orderId: string) => void;
 
+  /**
+   * Append a dose to a medication's administration history.
+   * Also updates the patient in the roster map.
+   * @param mrn            - Target patient MRN.
+   * @param medicationName - Name of the medication the dose belongs to.
+   * @param administration - The documented dose.
+   */
+  recordAdministration: (
+    mrn: string,
+    medicationName: string,
+    administration: MedicationAdministration,
+  ) => void;
+
+  /**
+   * Merge changes into a dose already in a medication's administration
+   * history (e.g. a PRN reassessment). Also updates the patient in the
+   * roster map.
+   * @param mrn              - Target patient MRN.
+   * @param medicationName   - Name of the medication the dose belongs to.
+   * @param administrationId - ID of the administration record.
+   * @param updates          - Fields to merge into the record.
+   */
+  updateAdministration: (
+    mrn: string,
+    medicationName: string,
+    administrationId: string,
+    updates: Partial<MedicationAdministration>,
+  ) => void;
+
   /**
    * Merge partial patient data into an existing patient record.
    * @param mrn     - Target patient MRN.
@@ -89,6 +133,13 @@ export interface PatientActions {
 /** Combined patient store type. */
 export type PatientStore = PatientState & PatientActions;
 
+/** The part of the patient store saved to IndexedDB. */
+interface PersistedPatientState {
+  patients: Record<string, Patient>;
+  /** MRN of the selected patient, restored from the roster. */
+  currentPatientMrn: string | null;
+}
+
 /**
  * Zustand store for patient data.
  *
@@ -98,71 +149,160 @@ export type PatientStore = PatientState & PatientActions;
  * const setCurrent = usePatientStore(s => s.setCurrentPatient);
  * ```
  */
-export const usePatientStore = create<PatientStore>((set, get) => ({
-  // -- initial state --------------------------------------------------------
-  patients: {},
-  currentPatient: null,
-  loading: false,
-  error: null,
-
-  // -- actions --------------------------------------------------------------
-
-  setPatients: (patients) => set({ patients, error: null }),
-
-  setCurrentPatient: (patient) => set({ currentPatient: patient }),
-
-  clearCurrentPatient: () => set({ currentPatient: null }),
-
-  addOrder: (mrn, order) => {
-    const { patients, currentPatient } = get();
-    const target = patients[mrn];
-    if (!target) return;
-
-    const updatedOrders = [...target.orders, order];
-    const updatedPatient: Patient = { ...target, orders: updatedOrders };
-
-    set({
-      patients: { ...patients, [mrn]: updatedPatient },
-      currentPatient:
-        currentPatient?.mrn === mrn ? updatedPatient : currentPatient,
-    });
-  },
-
-  signOrder: (mrn, orderId) => {
-    const { patients, currentPatient } = get();
-    const target = patients[mrn];
-    if (!target) return;
-
-    const signedStatus: OrderStatus = 'Signed';
-    const updatedOrders = target.orders.map((o) =>
-      o.id === orderId
-        ? { ...o, status: signedStatus, signed: new Date().toISOString() }
-        : o,
-    );
-    const updatedPatient: Patient = { ...target, orders: updatedOrders };
-
-    set({
-      patients: { ...patients, [mrn]: updatedPatient },
-      currentPatient:
-        currentPatient?.mrn === mrn ? updatedPatient : currentPatient,
-    });
-  },
-
-  updatePatient: (mrn, updates) => {
-    const { patients, currentPatient } = get();
-    const target = patients[mrn];
-    if (!target) return;
-
-    const updatedPatient: Patient = { ...target, ...updates };
-
-    set({
-      patients: { ...patients, [mrn]: updatedPatient },
-      currentPatient:
-        currentPatient?.mrn === mrn ? updatedPatient : currentPatient,
-    });
-  },
-
-  setLoading: (loading) => set({ loading }),
-
-  setError: (error) => set({ error }),
-}));
+export const usePatientStore = create<PatientStore>()(
+  persist(
+    (set, get) => ({
+      // -- initial state ----------------------------------------------------
+      patients: {},
+      currentPatient: null,
+      loading: false,
+      error: null,
+
+      // -- actions ----------------------------------------------------------
+
+      setPatients: (patients) => set({ patients, error: null }),
+
+      setCurrentPatient: (patient) => set({ currentPatient: patient }),
+
+      selectPatient: (mrn) => {
+        const target = get().patients[mrn];
+        if (target) set({ currentPatient: target });
+      },
+
+      clearCurrentPatient: () => set({ currentPatient: null }),
+
+      addOrder: (mrn, order) => {
+        const { patients, currentPatient } = get();
+        const target = patients[mrn];
+        if (!target) return;
+
+        const updatedOrders = [...target.orders, order];
+        const updatedPatient: Patient = { ...target, orders: updatedOrders };
+
+        set({
+          patients: { ...patients, [mrn]: updatedPatient },
+          currentPatient:
+            currentPatient?.mrn === mrn ? updatedPatient : currentPatient,
+        });
+      },
+
+      signOrder: (mrn, orderId) => {
+        const { patients, currentPatient } = get();
+        const target = patients[mrn];
+        if (!target) return;
+
+        const signedStatus: OrderStatus = 'Signed';
+        const updatedOrders = target.orders.map((o) =>
+          o.id === orderId
+            ? { ...o, status: signedStatus, signed: new Date().toISOString() }
+            : o,
+        );
+        const updatedPatient: Patient = { ...target, orders: updatedOrders };
+
+        set({
+          patients: { ...patients, [mrn]: updatedPatient },
+          currentPatient:
+            currentPatient?.mrn === mrn ? updatedPatient : currentPatient,
+        });
+      },
+
+      recordAdministration: (mrn, medicationName, administration) => {
+        const { patients, currentPatient } = get();
+        const target = patients[mrn];
+        if (!target) return;
+
+        const updatedMedications = target.medications.map((m) =>
+          m.name === medicationName
+            ? { ...m, administrations: [...m.administrations, administration] }
+            : m,
+        );
+        const updatedPatient: Patient = { ...target, medications: updatedMedications };
+
+        set({
+          patients: { ...patients, [mrn]: updatedPatient },
+          currentPatient:
+            currentPatient?.mrn === mrn ? updatedPatient : currentPatient,
+        });
+      },
+
+      updateAdministration: (mrn, medicationName, administrationId, updates) => {
+        const { patients, currentPatient } = get();
+        const target = patients[mrn];
+        if (!target) return;
+
+        const updatedMedications = target.medications.map((m) =>
+          m.name === medicationName
+            ? {
+                ...m,
+                administrations: m.administrations.map((a) =>
+                  a.id === administrationId ? { ...a, ...updates } : a,
+                ),
+              }
+            : m,
+        );
+        const updatedPatient: Patient = { ...target, medications: updatedMedications };
+
+        set({
+          patients: { ...patients, [mrn]: updatedPatient },
+          currentPatient:
+            currentPatient?.mrn === mrn ? updatedPatient : currentPatient,
+        });
+      },
+
+      updatePatient: (mrn, updates) => {
+        const { patients, currentPatient } = get();
+        const target = patients[mrn];
+        if (!target) return;
+
+        const updatedPatient: Patient = { ...target, ...updates };
+
+        set({
+          patients: { ...patients, [mrn]: updatedPatient },
+          currentPatient:
+            currentPatient?.mrn === mrn ? updatedPatient : currentPatient,
+        });
+      },
+
+      setLoading: (loading) => set({ loading }),
+
+      setError: (error) => set({ error }),
+    }),
+    {
+      name: 'patients',
+      version: 3,
+      storage: createPatientStoreStorage<PersistedPatientState>(),
+      skipHydration: true,
+      partialize: (state) => ({
+        patients: state.patients,
+        currentPatientMrn: state.currentPatient?.mrn ?? null,
+      }),
+      // v1 saved medications with free-text dose, route and frequency, and
+      // v2 only the last-given time rather than the administration history.
+      migrate: (persisted, version) => {
+        const state = persisted as PersistedPatientState;
+        if (version >= 3) return state;
+        const patients = Object.fromEntries(
+          Object.entries(state.patients).map(([mrn, patient]) => [
+            mrn,
+            {
+              ...patient,
+              medications: patient.medications.map((med) =>
+                normalizeMedication(med as unknown as Record<string, unknown>),
+              ),
+            },
+          ]),
+        );
+        return { ...state, patients };
+      },
+      merge: (persisted, current) => {
+        if (!persisted) return current;
+        const { patients, currentPatientMrn } = persisted as PersistedPatientState;
+        return {
+          ...current,
+          patients,
+          currentPatient: (currentPatientMrn && patients[currentPatientMrn]) || null,
+        };
+      },
+    },
+  ),
+);
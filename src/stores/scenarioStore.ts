@@ -0,0 +1,161 @@
+/**
+ * @file scenarioStore.ts
+ * @description Zustand store for the scripted scenario runner.
+ *
+ * Tracks which scenario is loaded, the simulation time it started at,
+ * and which of its events have already been applied to the patient.
+ * The {@link useScenarioRunner} hook reads this store on every clock
+ * tick to decide which events are due.
+ *
+ * The loaded scenario and its progress are saved to IndexedDB and restored
+ * on reload (see `hydrateStores`), so a running scenario carries on from
+ * where it was.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { createStoreStorage } from '../services/db';
+import type { ScenarioDefinition, ScenarioRunStatus } from '../types/scenario';
+
+// ---------------------------------------------------------------------------
+// State Shape
+// ---------------------------------------------------------------------------
+
+/** Read-only state slice of the scenario store. */
+export interface ScenarioState {
+  /** The loaded scenario, or null if none. */
+  scenario: ScenarioDefinition | null;
+
+  /** Id of this run of the scenario, stamped on the actions recorded during it. */
+  runId: string | null;
+
+  /** ISO-8601 simulation time at which the scenario was started. */
+  startedAt: string | null;
+
+  /** Ids of events that have already been applied. */
+  firedEventIds: string[];
+
+  /** Ids of intervention responses that have fired, in order. */
+  triggeredResponseIds: string[];
+
+  /** Current runner status. */
+  status: ScenarioRunStatus;
+}
+
+/** Mutation actions exposed by the scenario store. */
+export interface ScenarioActions {
+  /**
+   * Begin running a scenario from the given simulation time.
+   * @param scenario  - The normalised scenario definition.
+   * @param startedAt - Simulation time treated as T+0.
+   */
+  startScenario: (scenario: ScenarioDefinition, startedAt: Date) => void;
+
+  /**
+   * Record events as applied. Marks the run completed once every
+   * event has fired.
+   * @param eventIds - Ids of the events just applied.
+   */
+  markEventsFired: (eventIds: string[]) => void;
+
+  /**
+   * Replace the running scenario with a branched copy after a response
+   * fires. Fired events and start time are preserved.
+   * @param scenario   - The branched scenario definition.
+   * @param responseId - Id of the response that caused the branch.
+   */
+  branchScenario: (scenario: ScenarioDefinition, responseId: string) => void;
+
+  /** Stop the running scenario and discard its progress. */
+  stopScenario: () => void;
+}
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
+
+/** Combined scenario store type. */
+export type ScenarioStore = ScenarioState & ScenarioActions;
+
+/** The part of the scenario store saved to IndexedDB. */
+type PersistedScenarioState = ScenarioState;
+
+/**
+ * Zustand store for scenario runner state.
+ *
+ * @example
+ * ```tsx
+ * const status = useScenarioStore(s => s.status);
+ * const stop = useScenarioStore(s => s.stopScenario);
+ * ```
+ */
+export const useScenarioStore = create<ScenarioStore>()(
+  persist(
+    (set, get) => ({
+      // -- initial state ----------------------------------------------------
+      scenario: null,
+      runId: null,
+      startedAt: null,
+      firedEventIds: [],
+      triggeredResponseIds: [],
+      status: 'idle',
+
+      // -- actions ----------------------------------------------------------
+
+      startScenario: (scenario, startedAt) =>
+        set({
+          scenario,
+          runId: crypto.randomUUID(),
+          startedAt: startedAt.toISOString(),
+          firedEventIds: [],
+          triggeredResponseIds: [],
+          status: scenario.events.length > 0 ? 'running' : 'completed',
+        }),
+
+      markEventsFired: (eventIds) => {
+        const { scenario, firedEventIds } = get();
+        if (!scenario) return;
+
+        const fired = [...firedEventIds, ...eventIds.filter((id) => !firedEventIds.includes(id))];
+        set({
+          firedEventIds: fired,
+          status: fired.length >= scenario.events.length ? 'completed' : 'running',
+        });
+      },
+
+      branchScenario: (scenario, responseId) => {
+        const { firedEventIds, triggeredResponseIds } = get();
+        const fired = new Set(firedEventIds);
+        set({
+          scenario,
+          triggeredResponseIds: [...triggeredResponseIds, responseId],
+          status: scenario.events.every((e) => fired.has(e.id)) ? 'completed' : 'running',
+        });
+      },
+
+      stopScenario: () =>
+        set({
+          scenario: null,
+          runId: null,
+          startedAt: null,
+          firedEventIds: [],
+          triggeredResponseIds: [],
+          status: 'idle',
+        }),
+    }),
+    {
+      name: 'scenario',
+      version: 1,
+      storage: createStoreStorage<PersistedScenarioState>(),
+      skipHydration: true,
+      partialize: (state) => ({
+        scenario: state.scenario,
+        runId: state.runId,
+        startedAt: state.startedAt,
+        firedEventIds: state.firedEventIds,
+        triggeredResponseIds: state.triggeredResponseIds,
+        status: state.status,
+      }),
+    },
+  ),
+);
@@ -0,0 +1,86 @@
+/**
+ * Zustand store for the adult sepsis pathway.
+ *
+ * Holds completed sepsis screens, the sepsis bundles positive screens have
+ * started, and the screen form's visibility flag. Bundle progress is not
+ * stored; it is derived from orders and MAR administrations by
+ * `evaluateSepsisBundle` whenever it is shown.
+ *
+ * Screens and bundles are keyed by patient MRN so that switching patients
+ * never shows another patient's screen or bundle clock.
+ *
+ * Screens and bundles are saved to IndexedDB and restored on reload (see
+ * `hydrateStores`); the dialog flag is not.
+ */
+
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { createStoreStorage } from '@/services/db'
+import { forPatient } from '@/stores/meoStore'
+import type { SepsisBundle, SepsisScreen } from '@/types/sepsis'
+
+interface SepsisState {
+  /** Completed sepsis screens by patient MRN, oldest first */
+  screens: Record<string, SepsisScreen[]>
+  /** Sepsis bundles by patient MRN, oldest first */
+  bundles: Record<string, SepsisBundle[]>
+
+  /** Dialog visibility flag */
+  showScreenForm: boolean
+
+  /**
+   * File a completed screen under its `patientMrn`. A positive screen starts
+   * a bundle, timed from the screen, unless the patient already has one.
+   */
+  addScreen: (screen: SepsisScreen) => void
+
+  /** Dialog actions */
+  openScreenForm: () => void
+  closeScreenForm: () => void
+
+  /** Returns the patient's current sepsis bundle, or null */
+  getBundle: (patientMrn: string) => SepsisBundle | null
+}
+
+/** The part of the sepsis store saved to IndexedDB */
+type PersistedSepsisState = Pick<SepsisState, 'screens' | 'bundles'>
+
+export const useSepsisStore = create<SepsisState>()(
+  persist(
+    (set, get) => ({
+      screens: {},
+      bundles: {},
+      showScreenForm: false,
+
+      addScreen: (screen) =>
+        set((state) => {
+          const screens = {
+            ...state.screens,
+            [screen.patientMrn]: [...forPatient(state.screens, screen.patientMrn), screen],
+          }
+          const existing = forPatient(state.bundles, screen.patientMrn)
+          if (!screen.positive || existing.length > 0) return { screens }
+
+          const bundle: SepsisBundle = {
+            bundleId: crypto.randomUUID(),
+            patientMrn: screen.patientMrn,
+            screenId: screen.screenId,
+            startedAt: screen.screenedAt,
+          }
+          return { screens, bundles: { ...state.bundles, [screen.patientMrn]: [bundle] } }
+        }),
+
+      openScreenForm: () => set({ showScreenForm: true }),
+      closeScreenForm: () => set({ showScreenForm: false }),
+
+      getBundle: (patientMrn) => forPatient(get().bundles, patientMrn).at(-1) ?? null,
+    }),
+    {
+      name: 'sepsis',
+      version: 1,
+      storage: createStoreStorage<PersistedSepsisState>(),
+      skipHydration: true,
+      partialize: (state) => ({ screens: state.screens, bundles: state.bundles }),
+    },
+  ),
+)
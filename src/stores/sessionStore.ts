@@ -5,9 +5,14 @@
  * Tracks the current view, search query, and authentication state.
  * Lightweight store that drives top-level navigation and the
  * patient search workflow.
+ *
+ * The view, user and sign-in state are saved to IndexedDB and restored on
+ * reload (see `hydrateStores`); the search query is not.
  */
 
 import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { createStoreStorage } from '../services/db';
 
 // ---------------------------------------------------------------------------
 // State Shape
@@ -62,6 +67,9 @@ export interface SessionActions {
 /** Combined session store type. */
 export type SessionStore = SessionState & SessionActions;
 
+/** The part of the session store saved to IndexedDB. */
+type PersistedSessionState = Omit<SessionState, 'searchQuery'>;
+
 /**
  * Zustand store for session / UI state.
  *
@@ -71,20 +79,35 @@ export type SessionStore = SessionState & SessionActions;
  * const setView = useSessionStore(s => s.setCurrentView);
  * ```
  */
-export const useSessionStore = create<SessionStore>((set) => ({
-  // -- initial state --------------------------------------------------------
-  currentView: 'search',
-  searchQuery: '',
-  isAuthenticated: false,
-  userName: '',
-
-  // -- actions --------------------------------------------------------------
-
-  setCurrentView: (view) => set({ currentView: view }),
-
-  setSearchQuery: (query) => set({ searchQuery: query }),
-
-  setAuthenticated: (authenticated) => set({ isAuthenticated: authenticated }),
-
-  setUserName: (name) => set({ userName: name }),
-}));
+export const useSessionStore = create<SessionStore>()(
+  persist(
+    (set) => ({
+      // -- initial state ----------------------------------------------------
+      currentView: 'search',
+      searchQuery: '',
+      isAuthenticated: false,
+      userName: '',
+
+      // -- actions ----------------------------------------------------------
+
+      setCurrentView: (view) => set({ currentView: view }),
+
+      setSearchQuery: (query) => set({ searchQuery: query }),
+
+      setAuthenticated: (authenticated) => set({ isAuthenticated: authenticated }),
+
+      setUserName: (name) => set({ userName: name }),
+    }),
+    {
+      name: 'session',
+      version: 1,
+      storage: createStoreStorage<PersistedSessionState>(),
+      skipHydration: true,
+      partialize: (state) => ({
+        currentView: state.currentView,
+        isAuthenticated: state.isAuthenticated,
+        userName: state.userName,
+      }),
+    },
+  ),
+);
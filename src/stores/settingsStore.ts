@@ -0,0 +1,115 @@
+/**
+ * @file settingsStore.ts
+ * @description Zustand store for site-level settings in the SimCerner EMR.
+ *
+ * Holds settings that apply to the whole app at a site rather than to one
+ * patient or session: the early warning system adults are scored on
+ * (Q-ADDS or NEWS2) and how long after a PRN dose its effect is
+ * reassessed. Settings are kept in localStorage so a site configures them
+ * once per browser.
+ */
+
+import { create } from 'zustand';
+import type { ScoringSystem } from '../types';
+import { DEFAULT_PRN_REASSESS_MINUTES, PRN_REASSESS_OPTIONS } from '../services/prnRules';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** localStorage key for the site's scoring system. */
+const SCORING_SYSTEM_KEY = 'simcerner-scoring-system';
+
+/** localStorage key for the PRN reassessment time. */
+const PRN_REASSESS_MINUTES_KEY = 'simcerner-prn-reassess-minutes';
+
+/** Read the stored PRN reassessment time, defaulting to 30 minutes. */
+function loadPrnReassessMinutes(): number {
+  try {
+    const stored = Number(localStorage.getItem(PRN_REASSESS_MINUTES_KEY));
+    return (PRN_REASSESS_OPTIONS as readonly number[]).includes(stored)
+      ? stored
+      : DEFAULT_PRN_REASSESS_MINUTES;
+  } catch {
+    return DEFAULT_PRN_REASSESS_MINUTES;
+  }
+}
+
+/** Read the stored scoring system, defaulting to Q-ADDS. */
+function loadScoringSystem(): ScoringSystem {
+  try {
+    return localStorage.getItem(SCORING_SYSTEM_KEY) === 'news2' ? 'news2' : 'qadds';
+  } catch {
+    return 'qadds';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// State Shape
+// ---------------------------------------------------------------------------
+
+/** Read-only state slice of the settings store. */
+export interface SettingsState {
+  /** Early warning system adults are scored on across the app. */
+  scoringSystem: ScoringSystem;
+
+  /** Minutes after a PRN dose that its effect falls due for reassessment. */
+  prnReassessMinutes: number;
+}
+
+/** Mutation actions exposed by the settings store. */
+export interface SettingsActions {
+  /**
+   * Switch the site's scoring system and remember it.
+   * @param system - 'qadds' or 'news2'.
+   */
+  setScoringSystem: (system: ScoringSystem) => void;
+
+  /**
+   * Set when PRN doses fall due for reassessment and remember it.
+   * @param minutes - Minutes after the dose.
+   */
+  setPrnReassessMinutes: (minutes: number) => void;
+}
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
+
+/** Combined settings store type. */
+export type SettingsStore = SettingsState & SettingsActions;
+
+/**
+ * Zustand store for site-level settings.
+ *
+ * @example
+ * ```tsx
+ * const system = useSettingsStore(s => s.scoringSystem);
+ * const variant = getPatientChartVariant(patient, system);
+ * ```
+ */
+export const useSettingsStore = create<SettingsStore>((set) => ({
+  // -- initial state --------------------------------------------------------
+  scoringSystem: loadScoringSystem(),
+  prnReassessMinutes: loadPrnReassessMinutes(),
+
+  // -- actions --------------------------------------------------------------
+
+  setScoringSystem: (system) => {
+    try {
+      localStorage.setItem(SCORING_SYSTEM_KEY, system);
+    } catch {
+      // Storage unavailable (private mode); the setting lasts this session.
+    }
+    set({ scoringSystem: system });
+  },
+
+  setPrnReassessMinutes: (minutes) => {
+    try {
+      localStorage.setItem(PRN_REASSESS_MINUTES_KEY, String(minutes));
+    } catch {
+      // Storage unavailable (private mode); the setting lasts this session.
+    }
+    set({ prnReassessMinutes: minutes });
+  },
+}));
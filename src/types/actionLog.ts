@@ -0,0 +1,159 @@
+/**
+ * @file actionLog.ts
+ * @description Learner action audit trail types for the SimCerner EMR.
+ *
+ * Every clinically meaningful learner action (navigating, acknowledging an
+ * alert, giving a dose, placing or signing an order, ordering a MET-MEO
+ * plan, screening for sepsis, signing iView documentation) is recorded as
+ * a {@link LearnerAction} stamped with both the wall-clock and
+ * simulation-clock time, then persisted to IndexedDB for debriefing.
+ */
+
+import type { OrderType, OrderPriority } from './patient';
+import type { BcmaScanEntry, BcmaStop, MedicationDoseStatus, PrnScoreScale } from './medications';
+import type { MEOOrderType } from './metmeo';
+import type { NursingAssessment, SedationLevel } from './meo';
+import type { InfectionSource, SepsisRedFlagId } from './sepsis';
+
+// ---------------------------------------------------------------------------
+// Action Payloads
+// ---------------------------------------------------------------------------
+
+/** Clinician or team a deterioration was escalated to. */
+export type EscalationTier = 'RMO' | 'Registrar' | 'MET';
+
+/** Payload recorded for each kind of learner action, keyed by type. */
+export interface LearnerActionPayloads {
+  /** The learner switched views. */
+  'view/changed': { from: string; to: string };
+
+  /** The learner acknowledged a Discern alert. */
+  'alert/acknowledged': { alertId: string; title: string; ewsRange: string; risk: string };
+
+  /** The learner documented the clinician review an alert called for. */
+  'alert/reviewed': {
+    alertId: string;
+    title: string;
+    ewsRange: string;
+    reviewedBy: string;
+    tier: EscalationTier;
+    /** Whether the review was documented after the response deadline. */
+    late: boolean;
+  };
+
+  /** A dose was actioned on the MAR (given, held, refused, not given). */
+  'mar/administered': {
+    medicationName: string;
+    route: string;
+    /** "HH:mm" of the dose on the MAR, or "PRN" for an as-needed dose. */
+    scheduledTime: string;
+    /** ISO-8601 date-time of the dose on the MAR; absent in actions logged before it was recorded. */
+    scheduledAt?: string;
+    status: MedicationDoseStatus;
+    reason?: string;
+    nurse: string;
+    /** PRN doses: what the dose was given for and the score before it. */
+    prn?: { indication: string; scale: PrnScoreScale; preDoseScore: number };
+    /** Why the dose was given despite a soft stop at the barcode scan. */
+    overrideReason?: string;
+  };
+
+  /** A dose's wristband and medication barcode were scanned on the MAR. */
+  'mar/scanned': {
+    medicationName: string;
+    /** "HH:mm" of the dose on the MAR, or "PRN" for an as-needed dose. */
+    scheduledTime: string;
+    /** ISO-8601 date-time of the dose on the MAR, or null for an as-needed dose. */
+    scheduledAt: string | null;
+    wristband: string;
+    barcode: string;
+    /** Whether each code was scanned or typed; typing the chart MRN gets past a wrong wristband. */
+    entry: BcmaScanEntry;
+    /** Name of the product scanned, or null if the barcode was not recognised. */
+    scannedProduct: string | null;
+    /** Five-rights checks that failed; empty when the scan matched the order. */
+    stops: BcmaStop[];
+  };
+
+  /** A PRN dose's effect was reassessed on the MAR. */
+  'mar/prnReassessed': {
+    medicationName: string;
+    scale: PrnScoreScale;
+    preDoseScore: number;
+    postDoseScore: number;
+    /** Minutes from the dose to the reassessment. */
+    minutesAfterDose: number;
+  };
+
+  /** An order was added in Orders. */
+  'order/placed': { orderId: string; name: string; type: OrderType; priority: OrderPriority };
+
+  /** An order was signed in Orders. */
+  'order/signed': { orderId: string; name: string; type: OrderType };
+
+  /** A MET-MEO plan or modified observation frequency order was placed. */
+  'meo/ordered': { orderId: string; orderType: MEOOrderType; summary: string };
+
+  /** A MET-MEO plan or modified observation frequency order was cancelled. */
+  'meo/cancelled': { orderId: string; orderType: MEOOrderType };
+
+  /** A nursing assessment was recorded under a MET-MEO plan. */
+  'meo/assessed': { metMeoOrderId: string | null; status: NursingAssessment['patientStatus'] };
+
+  /** The learner documented escalating a deteriorating patient. */
+  'escalation/documented': { tier: EscalationTier; score: number };
+
+  /** A sedation score was recorded. */
+  'sedation/assessed': { score: SedationLevel };
+
+  /** A structured sepsis screen was completed. */
+  'sepsis/screened': {
+    screenId: string;
+    positive: boolean;
+    infectionSource: InfectionSource;
+    redFlags: SepsisRedFlagId[];
+  };
+
+  /** iView documentation was signed. */
+  'iview/signed': { entryCount: number; sectionIds: string[] };
+}
+
+/** Discriminator for learner actions. */
+export type LearnerActionType = keyof LearnerActionPayloads;
+
+// ---------------------------------------------------------------------------
+// Action Record
+// ---------------------------------------------------------------------------
+
+/** Fields common to every recorded learner action. */
+interface LearnerActionBase {
+  /** Auto-increment key assigned by IndexedDB; absent before saving. */
+  id?: number;
+
+  /** Identifier of the browser session the action belongs to. */
+  sessionId: string;
+
+  /** MRN of the patient open at the time, if any. */
+  patientMrn: string | null;
+
+  /** ISO-8601 wall-clock time the action happened. */
+  wallTime: string;
+
+  /** ISO-8601 simulation-clock time the action happened. */
+  simTime: string;
+
+  /** Scenario run in progress at the time, if any. */
+  scenarioRunId: string | null;
+}
+
+/**
+ * A recorded learner action. Narrowing on `type` narrows `payload`.
+ *
+ * @example
+ * ```ts
+ * if (action.type === 'order/signed') console.log(action.payload.name);
+ * ```
+ */
+export type LearnerAction = {
+  [T in LearnerActionType]: LearnerActionBase & { type: T; payload: LearnerActionPayloads[T] };
+}[LearnerActionType];
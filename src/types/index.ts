@@ -7,8 +7,8 @@
  * single entry point:
  *
  * ```ts
- * import type { Patient, VitalSign, QADDSResult } from './types';
- * import { MedicationDoseStatus, QADDS_THRESHOLDS } from './types';
+ * import type { Patient, VitalSign, QaddsScore } from './types';
+ * import { MedicationDoseStatus, VITAL_PARAMETERS } from './types';
  * ```
  */
 
@@ -46,11 +46,25 @@ export { VITAL_PARAMETERS } from './vitals';
 
 // Medication administration types
 export type {
+  AdministrationStatus,
+  BcmaEntryMethod,
+  BcmaScanEntry,
+  BcmaStop,
+  BcmaStopLevel,
+  DoseUnit,
+  FiveRight,
+  FrequencyCode,
+  MedicationDose,
+  MedicationFrequency,
+  MedicationOrder,
   MedicationAdministration,
+  MedicationProduct,
+  PrnDoseDetails,
+  PrnScoreScale,
   MARTimeSlot,
   TherapeuticClass,
 } from './medications';
-export { MedicationDoseStatus } from './medications';
+export { MedicationDoseStatus, MedicationRoute } from './medications';
 
 // iView (Interactive View) clinical documentation
 export type {
@@ -63,26 +77,26 @@ export type {
   IViewToolbarConfig,
 } from './iview';
 
-// Q-ADDS scoring — new canonical types
+// Q-ADDS scoring
 export type {
-  QADDSScore,
-  QADDSSubScore,
-  QADDSResult,
-  QADDSRiskLevel,
-  QADDSScoreThresholdBand,
+  ClinicalRisk,
+  QaddsParameter,
+  QaddsSubScoreValue,
+  QaddsSubScore,
+  QaddsSubScores,
+  QaddsScore,
+  QaddsScoreTrend,
+  QaddsColorCode,
   ChartVariant,
-  EscalationLevel,
-  ParameterThresholds,
-  ScoreThresholds,
-  ClinicalRiskThresholds,
-} from './news';
-
-// Q-ADDS scoring — new canonical constants
-export {
-  QADDS_THRESHOLDS,
-  QADDS_RISK_THRESHOLDS,
-  AVPU_NUMERIC_MAP,
-} from './news';
+  QaddsChartFormCode,
+  CewtChartFormCode,
+  News2ChartFormCode,
+  ChartFormCode,
+  ScoringSystem,
+  ChartForm,
+  ChartThresholds,
+  ThresholdBand,
+} from './vitals';
 
 // MET-MEO workflow types
 export type {
@@ -99,14 +113,54 @@ export type {
   METCallCriteria,
 } from './metmeo';
 
-// Backward-compatible aliases (NEWS2 -> Q-ADDS)
+// Sepsis pathway
 export type {
-  ClinicalRisk,
-  NEWS2SubScore,
-  NEWS2Result,
-  ScoreThresholdBand,
-} from './news';
-export {
-  NEWS2_THRESHOLDS,
-  CLINICAL_RISK_THRESHOLDS,
-} from './news';
+  SepsisCriterionId,
+  SepsisCriterion,
+  InfectionSource,
+  SepsisRedFlagId,
+  SepsisScreen,
+  SepsisBundleElementId,
+  SepsisBundle,
+} from './sepsis';
+
+// Scripted scenario timelines
+export type {
+  ScenarioEventType,
+  ScenarioVitalsEvent,
+  ScenarioLabResultsEvent,
+  ScenarioNoteEvent,
+  ScenarioOrderEvent,
+  ScenarioEvent,
+  TrajectoryCurve,
+  TrajectoryParameter,
+  TrajectoryKeyframe,
+  ParameterTrajectory,
+  AvpuKeyframe,
+  ScenarioTrajectory,
+  ScenarioIntervention,
+  ScenarioTrigger,
+  ScenarioResponse,
+  ScenarioObjectiveRule,
+  ScenarioObjectiveKind,
+  ScenarioObjective,
+  ScenarioBcmaSubstitution,
+  ScenarioBcmaErrors,
+  ScenarioDefinition,
+  ScenarioRunStatus,
+} from './scenario';
+
+// Instructor console messaging
+export type {
+  InstructorCommand,
+  LearnerStatus,
+  InstructorMessage,
+} from './instructor';
+
+// Learner action audit trail
+export type {
+  EscalationTier,
+  LearnerActionPayloads,
+  LearnerActionType,
+  LearnerAction,
+} from './actionLog';
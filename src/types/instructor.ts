@@ -0,0 +1,76 @@
+/**
+ * @file instructor.ts
+ * @description Message types for the instructor console.
+ *
+ * The instructor console (`/instructor`) runs in a second browser window
+ * and talks to the learner's tab over a BroadcastChannel. The console
+ * sends {@link InstructorCommand}s; the learner tab applies them to its
+ * stores and replies with {@link LearnerStatus} snapshots so the console
+ * can show what the learner is seeing. Everything stays on the local
+ * machine, so the console works offline.
+ */
+
+import type { VitalSign, ClinicalNote } from './patient';
+import type { AlertData } from '../services/alertEngine';
+
+// ---------------------------------------------------------------------------
+// Commands (instructor → learner)
+// ---------------------------------------------------------------------------
+
+/** Commands the instructor console can send to the learner tab. */
+export type InstructorCommand =
+  | { type: 'clock/start' }
+  | { type: 'clock/pause' }
+  | { type: 'clock/resume' }
+  | { type: 'clock/advance'; minutes: number }
+  /** Chart a vitals set; the learner tab stamps it with its clock time. */
+  | { type: 'vitals/inject'; patientMrn: string; vitals: Omit<VitalSign, 'datetime'> }
+  /** Set or clear `nurseConcern` on the patient's latest vitals set. */
+  | { type: 'vitals/nurse-concern'; patientMrn: string; nurseConcern: boolean }
+  /**
+   * Raise a Discern alert on the learner's screen. The learner tab builds it
+   * for the patient's chart form, raised at its clock time.
+   */
+  | {
+      type: 'alert/fire';
+      patientMrn: string;
+      ewsRange: AlertData['ewsRange'];
+      showSepsisPrompt: boolean;
+    }
+  /** Add a clinical note; `id` and `datetime` are filled in by the learner tab. */
+  | {
+      type: 'note/add';
+      patientMrn: string;
+      note: Omit<ClinicalNote, 'id' | 'datetime'>;
+    }
+  /** Ask the learner tab to broadcast its current status. */
+  | { type: 'status/request' };
+
+// ---------------------------------------------------------------------------
+// Status (learner → instructor)
+// ---------------------------------------------------------------------------
+
+/** Snapshot of the learner tab, broadcast whenever it changes. */
+export interface LearnerStatus {
+  type: 'status';
+
+  /** Simulation clock state; `currentTime` is ISO-8601. */
+  clock: {
+    currentTime: string;
+    isRunning: boolean;
+    isPaused: boolean;
+    playbackSpeed: number;
+  };
+
+  /** Patients loaded in the learner tab. */
+  patients: Array<{ mrn: string; name: string; latestVitals: VitalSign | null }>;
+
+  /** MRN of the patient the learner has open, if any. */
+  currentPatientMrn: string | null;
+
+  /** View the learner is on (sessionStore.currentView). */
+  currentView: string;
+}
+
+/** Any message sent on the instructor channel. */
+export type InstructorMessage = InstructorCommand | LearnerStatus;
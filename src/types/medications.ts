@@ -2,11 +2,155 @@
  * @file medications.ts
  * @description Medication administration types for the SimCerner EMR application.
  *
- * Covers medication statuses, administration records, MAR (Medication
- * Administration Record) time-slot rendering, and therapeutic classification
- * used by the medication views and administration workflows.
+ * Covers structured medication orders, medication statuses, administration
+ * records, MAR (Medication Administration Record) time-slot rendering, and
+ * therapeutic classification used by the medication views and
+ * administration workflows.
  */
 
+// ---------------------------------------------------------------------------
+// Medication Orders
+// ---------------------------------------------------------------------------
+
+/**
+ * Route of administration, stored as its standard abbreviation.
+ */
+export const MedicationRoute = {
+  ORAL: 'PO',
+  SUBLINGUAL: 'SL',
+  INTRAVENOUS: 'IV',
+  INTRAMUSCULAR: 'IM',
+  SUBCUTANEOUS: 'SC',
+  RECTAL: 'PR',
+  INHALED: 'INH',
+  NEBULISED: 'NEB',
+  TOPICAL: 'TOP',
+  TRANSDERMAL: 'TD',
+  NASOGASTRIC: 'NG',
+  OTHER: 'OTHER',
+} as const;
+
+export type MedicationRoute = typeof MedicationRoute[keyof typeof MedicationRoute];
+
+/** Unit a dose is prescribed in. */
+export type DoseUnit =
+  | 'mg'
+  | 'g'
+  | 'microgram'
+  | 'mL'
+  | 'L'
+  | 'units'
+  | 'mmol'
+  | 'tablet'
+  | 'capsule'
+  | 'puff'
+  | 'drop'
+  | 'sachet'
+  | 'patch';
+
+/** A prescribed dose, e.g. `{ amount: 500, unit: 'mg' }`. */
+export interface MedicationDose {
+  amount: number;
+  unit: DoseUnit;
+}
+
+/**
+ * How often a medication is given.
+ *
+ * | Code     | Meaning                                   |
+ * |----------|-------------------------------------------|
+ * | STAT     | Immediately, once                         |
+ * | ONCE     | Once only, at a set time                  |
+ * | DAILY    | Once a day                                |
+ * | MANE     | Once a day, in the morning                |
+ * | NOCTE    | Once a day, at night                      |
+ * | BD       | Twice a day                               |
+ * | TDS      | Three times a day                         |
+ * | QDS      | Four times a day                          |
+ * | INTERVAL | Every `intervalHours` hours               |
+ * | WEEKLY   | Once a week                               |
+ * | PRN      | When required                             |
+ */
+export type FrequencyCode =
+  | 'STAT'
+  | 'ONCE'
+  | 'DAILY'
+  | 'MANE'
+  | 'NOCTE'
+  | 'BD'
+  | 'TDS'
+  | 'QDS'
+  | 'INTERVAL'
+  | 'WEEKLY'
+  | 'PRN';
+
+/** A frequency code and the hours between doses it implies. */
+export interface MedicationFrequency {
+  code: FrequencyCode;
+
+  /**
+   * Hours between doses: the schedule for regular orders, the minimum gap
+   * for PRN orders. Null for STAT and once-only orders, and PRN orders
+   * with no minimum gap.
+   */
+  intervalHours: number | null;
+}
+
+/**
+ * A structured medication order, as prescribed.
+ *
+ * @example
+ * ```ts
+ * const order: MedicationOrder = {
+ *   name: 'paracetamol',
+ *   dose: { amount: 1, unit: 'g' },
+ *   route: MedicationRoute.ORAL,
+ *   frequency: { code: 'PRN', intervalHours: 4 },
+ *   scheduled: false,
+ *   times: [],
+ *   startAt: '2025-12-29T08:00:00.000Z',
+ *   stopAt: null,
+ *   maxPrnDosesPer24h: 4,
+ *   indication: 'Pain or fever',
+ * };
+ * ```
+ */
+export interface MedicationOrder {
+  /** Drug name (generic or brand). */
+  name: string;
+
+  /** Dose per administration; null if it could not be read from a legacy order. */
+  dose: MedicationDose | null;
+
+  route: MedicationRoute;
+
+  frequency: MedicationFrequency;
+
+  /** Whether the medication follows a fixed schedule. */
+  scheduled: boolean;
+
+  /** Scheduled administration times as HH:mm strings. */
+  times: string[];
+
+  /** ISO-8601 date-time the order starts, or null if open from admission. */
+  startAt: string | null;
+
+  /** ISO-8601 date-time the order stops, or null if ongoing. */
+  stopAt: string | null;
+
+  /** Most PRN doses allowed in any 24 hours, or null if not limited. */
+  maxPrnDosesPer24h: number | null;
+
+  /** Why the medication is prescribed. */
+  indication: string | null;
+
+  /** Name of the prescribing clinician. */
+  prescriber?: string;
+
+  /** Order comment: instructions the structured fields do not capture. */
+  comment?: string;
+}
+
 // ---------------------------------------------------------------------------
 // Medication Status
 // ---------------------------------------------------------------------------
@@ -42,22 +186,116 @@ export type MedicationDoseStatus = typeof MedicationDoseStatus[keyof typeof Medi
 // Administration Records
 // ---------------------------------------------------------------------------
 
+/** Outcome a nurse documents against a dose. */
+export type AdministrationStatus =
+  | typeof MedicationDoseStatus.GIVEN
+  | typeof MedicationDoseStatus.HELD
+  | typeof MedicationDoseStatus.REFUSED
+  | typeof MedicationDoseStatus.NOT_GIVEN;
+
+/** Scale a PRN dose's effect is measured on: numeric pain (0–10) or sedation (0–3). */
+export type PrnScoreScale = 'PAIN' | 'SEDATION';
+
+/**
+ * What was recorded with a PRN dose: why it was given, the score before
+ * it, and the post-dose reassessment.
+ */
+export interface PrnDoseDetails {
+  /** What the dose was given for (e.g. "Pain — post-operative wound"). */
+  indication: string;
+
+  /** Scale the pre- and post-dose scores are on. */
+  scale: PrnScoreScale;
+
+  /** Score before the dose. */
+  preDoseScore: number;
+
+  /** Score at reassessment, or null until reassessed. */
+  postDoseScore: number | null;
+
+  /** ISO-8601 simulation date-time the reassessment falls due. */
+  reassessDueAt: string;
+
+  /** ISO-8601 simulation date-time of the reassessment, or null until done. */
+  reassessedAt: string | null;
+}
+
 /**
- * Record of a single medication administration event, capturing who
- * gave the dose, when, and any associated notes.
+ * Record of a single medication administration event, capturing what
+ * was done with a dose, who documented it, when, and why.
  */
 export interface MedicationAdministration {
-  /** ISO-8601 date-time when the dose was administered. */
+  /** Unique identifier of the record. */
+  id: string;
+
+  /**
+   * ISO-8601 date-time of the scheduled MAR dose this record answers, or
+   * null for doses not tied to one (PRN doses, or a last-given time carried
+   * over from the patient data).
+   */
+  scheduledAt: string | null;
+
+  /** ISO-8601 simulation date-time when the dose was administered or documented. */
   timestamp: string;
 
-  /** Resulting status of the administration attempt. */
-  status: MedicationDoseStatus;
+  /** Outcome of the administration attempt. */
+  status: AdministrationStatus;
 
   /** Name of the nurse who performed the administration. */
   nurse: string;
 
-  /** Free-text notes (e.g. reason held, injection site, patient response). */
-  notes?: string;
+  /** Why the dose was held, refused or not given. */
+  reason?: string;
+
+  /** Administration site (e.g. "Left deltoid", "Abdomen — right lower quadrant"). */
+  site?: string;
+
+  /** Second nurse who witnessed the administration, where one is required. */
+  witness?: string;
+
+  /** Indication, scores and reassessment for a PRN dose. */
+  prn?: PrnDoseDetails;
+
+  /** Why the dose was given despite a soft stop at the barcode scan. */
+  overrideReason?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Barcode Medication Administration
+// ---------------------------------------------------------------------------
+
+/** One of the five rights checked when a dose is scanned. */
+export type FiveRight = 'patient' | 'drug' | 'dose' | 'route' | 'time';
+
+/**
+ * How a failed check is enforced: a `hard` stop blocks the dose, a `soft`
+ * stop allows it once the nurse documents why.
+ */
+export type BcmaStopLevel = 'hard' | 'soft';
+
+/** A five-rights check that failed at the barcode scan. */
+export interface BcmaStop {
+  right: FiveRight;
+  level: BcmaStopLevel;
+  /** What did not match, e.g. "Wrong drug: scanned Hydralazine, ordered Hydroxyzine". */
+  message: string;
+}
+
+/** How a code reached the scan: read by the scanner, or typed by hand. */
+export type BcmaEntryMethod = 'scanned' | 'typed';
+
+/** How each code of a scan was entered. */
+export interface BcmaScanEntry {
+  wristband: BcmaEntryMethod;
+  barcode: BcmaEntryMethod;
+}
+
+/** A medication product as identified by its barcode. */
+export interface MedicationProduct {
+  name: string;
+  /** Strength per unit dispensed; null if the product has none (e.g. a cream). */
+  dose: MedicationDose | null;
+  route: MedicationRoute;
 }
 
 // ---------------------------------------------------------------------------
@@ -74,6 +312,8 @@ export interface MedicationAdministration {
  *   time: '08:00',
  *   status: MedicationDoseStatus.GIVEN,
  *   administration: {
+ *     id: 'a1b2c3',
+ *     scheduledAt: '2026-02-17T08:00:00',
  *     timestamp: '2026-02-17T08:05:00',
  *     status: MedicationDoseStatus.GIVEN,
  *     nurse: 'RN J. Carter',
@@ -25,6 +25,8 @@
  */
 export interface MetMeoOrder {
   orderId: string
+  /** MRN of the patient the order applies to */
+  patientMrn: string
   orderType: 'MET_MEO_PLAN'
   triggerType: 'EWS_GTE_8' | 'E_ZONE' | 'BOTH'
 
@@ -63,6 +65,8 @@ export interface MetMeoOrder {
  */
 export interface ModifiedObsFrequencyOrder {
   orderId: string
+  /** MRN of the patient the order applies to */
+  patientMrn: string
   orderType: 'MODIFIED_OBS_FREQUENCY'
 
   optionSelected: 'LONG_STAY_RESPITE' | 'STABLE_EXPECTED' | 'REDUCE_DISTRESS_ARP' | 'OTHER'
@@ -94,6 +98,8 @@ export type MeoOrder = MetMeoOrder | ModifiedObsFrequencyOrder
  */
 export interface NursingAssessment {
   assessmentId: string
+  /** MRN of the patient assessed */
+  patientMrn: string
   metMeoOrderId: string | null
   assessmentTime: string
   patientStatus: 'STABLE' | 'DETERIORATING'
@@ -122,6 +128,8 @@ export type SedationLevel = 0 | 1 | 2 | 3
 
 export interface SedationAssessment {
   assessmentId: string
+  /** MRN of the patient assessed */
+  patientMrn: string
   assessmentTime: string
   score: SedationLevel
   comments: string | null
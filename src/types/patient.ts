@@ -8,6 +8,9 @@
  * used across different views of the application.
  */
 
+import type { MedicationAdministration, MedicationOrder } from './medications';
+import type { ChartVariant } from './vitals';
+
 // ---------------------------------------------------------------------------
 // Demographics & Identity
 // ---------------------------------------------------------------------------
@@ -204,35 +207,11 @@ export type MedicationStatus =
 
 /**
  * A single medication entry on the patient's Medication Administration
- * Record (MAR).
+ * Record (MAR): the order and its administration state.
  */
-export interface Medication {
-  /** Drug name (generic or brand). */
-  name: string;
-
-  /** Dose as a display string, e.g. "500 mg", "10 units". */
-  dose: string;
-
-  /** Route of administration, e.g. "PO", "IV", "SC", "IM". */
-  route: string;
-
-  /** Dosing frequency, e.g. "QDS", "BD", "STAT", "PRN". */
-  frequency: string;
-
-  /** Whether the medication follows a fixed schedule. */
-  scheduled: boolean;
-
-  /** Scheduled administration times as HH:mm strings. */
-  times: string[];
-
-  /** ISO-8601 date-time when the medication was last administered. */
-  lastGiven?: string;
-
-  /** Name of the prescribing clinician. */
-  prescriber?: string;
-
-  /** Name of the nurse who last administered the dose. */
-  administeredBy?: string;
+export interface Medication extends MedicationOrder {
+  /** Every dose documented against this order, oldest first. */
+  administrations: MedicationAdministration[];
 
   /** Current order status. */
   status: MedicationStatus;
@@ -459,4 +438,7 @@ export interface Patient extends PatientDemographics {
 
   /** Clinical documentation / notes. */
   notes: ClinicalNote[];
+
+  /** Q-ADDS chart the patient is observed on; SW150 General Adult if unset. */
+  chartVariant?: ChartVariant;
 }
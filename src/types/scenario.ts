@@ -0,0 +1,380 @@
+/**
+ * @file scenario.ts
+ * @description Scripted scenario timeline types for the SimCerner EMR.
+ *
+ * A scenario is a JSON timeline (see `public/scenarios/`) that schedules
+ * new vital sign sets, lab results, clinical notes, and orders at
+ * simulated offsets from the moment the scenario is started. The scenario
+ * runner replays these events against the simulation clock so a patient
+ * can deteriorate (or recover) without an instructor typing values by hand.
+ */
+
+import type {
+  VitalSign,
+  LabResult,
+  LabResults,
+  ClinicalNote,
+  Order,
+  OrderType,
+  AVPUScale,
+} from './patient';
+import type { SedationLevel } from './meo';
+import type { EscalationTier } from './actionLog';
+import type { AlertData } from '../services/alertEngine';
+
+// ---------------------------------------------------------------------------
+// Scenario Events
+// ---------------------------------------------------------------------------
+
+/** Kinds of event a scenario timeline can schedule. */
+export type ScenarioEventType = 'vitals' | 'labResults' | 'note' | 'order';
+
+/** Fields shared by every scheduled scenario event. */
+interface ScenarioEventBase {
+  /** Unique event identifier within the scenario. */
+  id: string;
+
+  /** Minutes after scenario start at which the event fires. */
+  offsetMinutes: number;
+
+  /** Optional facilitator-facing description of the event. */
+  label?: string;
+}
+
+/**
+ * Charts a new set of observations. The `datetime` is stamped by the
+ * runner from the scheduled simulation time.
+ */
+export interface ScenarioVitalsEvent extends ScenarioEventBase {
+  type: 'vitals';
+  vitals: Omit<VitalSign, 'datetime'>;
+}
+
+/**
+ * Releases lab results into a discipline. A result replaces any existing
+ * result with the same test name; otherwise it is appended.
+ */
+export interface ScenarioLabResultsEvent extends ScenarioEventBase {
+  type: 'labResults';
+  category: keyof LabResults;
+  results: LabResult[];
+}
+
+/** Adds a clinical note. `id` and `datetime` are generated if omitted. */
+export interface ScenarioNoteEvent extends ScenarioEventBase {
+  type: 'note';
+  note: Omit<ClinicalNote, 'id' | 'datetime'> & Partial<Pick<ClinicalNote, 'id' | 'datetime'>>;
+}
+
+/** Places an order. `id` and `ordered` are generated if omitted. */
+export interface ScenarioOrderEvent extends ScenarioEventBase {
+  type: 'order';
+  order: Omit<Order, 'id' | 'ordered'> & Partial<Pick<Order, 'id' | 'ordered'>>;
+}
+
+/** Discriminated union of all scheduled scenario events. */
+export type ScenarioEvent =
+  | ScenarioVitalsEvent
+  | ScenarioLabResultsEvent
+  | ScenarioNoteEvent
+  | ScenarioOrderEvent;
+
+// ---------------------------------------------------------------------------
+// Physiology Trajectories
+// ---------------------------------------------------------------------------
+
+/**
+ * Shape of the curve between two keyframes.
+ * - `linear`      — straight-line interpolation.
+ * - `exponential` — slow at first, accelerating towards the next keyframe.
+ * - `step`        — holds the previous keyframe value until the next one.
+ */
+export type TrajectoryCurve = 'linear' | 'exponential' | 'step';
+
+/** Numeric vital sign fields a trajectory can drive. */
+export type TrajectoryParameter =
+  | 'temp'
+  | 'hr'
+  | 'rr'
+  | 'bp_sys'
+  | 'bp_dia'
+  | 'spo2'
+  | 'o2FlowRate';
+
+/** A target value for a parameter at a given scenario offset. */
+export interface TrajectoryKeyframe {
+  /** Minutes after scenario start. */
+  offsetMinutes: number;
+
+  /** Parameter value at that offset. */
+  value: number;
+}
+
+/** Keyframed trajectory for a single numeric parameter. */
+export interface ParameterTrajectory {
+  /** Keyframes, sorted by offset after normalisation. */
+  keyframes: TrajectoryKeyframe[];
+
+  /** Curve used between keyframes (default `linear`). */
+  curve?: TrajectoryCurve;
+
+  /** Maximum random deviation (±) added to each generated value. */
+  jitter?: number;
+
+  /** Decimal places to round to (default 1 for `temp`, otherwise 0). */
+  decimals?: number;
+}
+
+/** A consciousness level that applies from the given offset onwards. */
+export interface AvpuKeyframe {
+  offsetMinutes: number;
+  value: AVPUScale;
+}
+
+/**
+ * Keyframed physiology for a scenario. The engine samples the trajectory
+ * every `intervalMinutes` and charts each sample as a vitals event, so a
+ * deterioration can be described with a handful of keyframes rather than
+ * dozens of handwritten observation rows.
+ *
+ * @example
+ * ```json
+ * {
+ *   "intervalMinutes": 5,
+ *   "parameters": {
+ *     "hr": { "keyframes": [{ "offsetMinutes": 0, "value": 88 }, { "offsetMinutes": 30, "value": 128 }], "curve": "exponential", "jitter": 2 }
+ *   }
+ * }
+ * ```
+ */
+export interface ScenarioTrajectory {
+  /** Observation charting frequency in minutes. */
+  intervalMinutes: number;
+
+  /** First charted offset (default 0). */
+  startOffsetMinutes?: number;
+
+  /** Last charted offset (default: the latest keyframe). */
+  endOffsetMinutes?: number;
+
+  /** Seed for the jitter generator so replays are reproducible. */
+  seed?: number;
+
+  /** Per-parameter keyframes. Parameters left out are not charted. */
+  parameters: Partial<Record<TrajectoryParameter, ParameterTrajectory>>;
+
+  /** Consciousness changes; always stepped. */
+  avpu?: AvpuKeyframe[];
+}
+
+// ---------------------------------------------------------------------------
+// Intervention Responses
+// ---------------------------------------------------------------------------
+
+/**
+ * A learner action the scenario can react to: a dose recorded as GIVEN on
+ * the MAR, an order signed in Orders, or an O₂ flow rate charted in iView
+ * (with the flow it replaces, in L/min).
+ */
+export type ScenarioIntervention =
+  | { kind: 'medication'; patientMrn: string; name: string; route?: string }
+  | { kind: 'order'; patientMrn: string; name: string; type?: OrderType }
+  | { kind: 'oxygen'; patientMrn: string; flowRate: number; previousFlowRate: number };
+
+/**
+ * Condition that fires a response. Names match case-insensitively as a
+ * substring of the medication or order name (e.g. "naloxone" matches
+ * "Naloxone 400 microgram"); `route` (a route code such as "IV" or "PO")
+ * and `type` must match exactly when set. An `oxygen` trigger fires when
+ * the charted O₂ flow rate goes up, to at least `minFlowRate` L/min when
+ * set.
+ */
+export type ScenarioTrigger =
+  | { kind: 'medication'; name: string; route?: string }
+  | { kind: 'order'; name: string; type?: OrderType }
+  | { kind: 'oxygen'; minFlowRate?: number };
+
+/**
+ * Branching rule that changes the scenario when a learner intervenes.
+ * All offsets inside a response are relative to the moment it fires.
+ *
+ * @example
+ * ```json
+ * {
+ *   "id": "fluid-bolus",
+ *   "trigger": { "kind": "medication", "name": "sodium chloride", "route": "IV" },
+ *   "parameters": { "bp_sys": { "keyframes": [{ "offsetMinutes": 15, "value": 108 }] } },
+ *   "cancelEvents": ["note-hypotension"]
+ * }
+ * ```
+ */
+export interface ScenarioResponse {
+  /** Unique response identifier within the scenario. */
+  id: string;
+
+  /** What the learner must do for the response to fire. */
+  trigger: ScenarioTrigger;
+
+  /** Earliest scenario offset (minutes) at which the response can fire. */
+  afterMinutes?: number;
+
+  /** Latest scenario offset (minutes) at which the response can fire. */
+  beforeMinutes?: number;
+
+  /** Allow the response to fire more than once (default false). */
+  repeatable?: boolean;
+
+  /**
+   * New trajectory keyframes per parameter. The parameter moves from its
+   * current value towards these keyframes, replacing the rest of its
+   * scripted course. Requires the scenario to have a trajectory.
+   */
+  parameters?: Partial<Record<TrajectoryParameter, Pick<ParameterTrajectory, 'keyframes' | 'curve'>>>;
+
+  /** Consciousness changes, replacing any later scripted changes. */
+  avpu?: AvpuKeyframe[];
+
+  /** Ids of pending events that no longer happen. */
+  cancelEvents?: string[];
+
+  /** Extra events to schedule, e.g. a note that the patient looks better. */
+  events?: ScenarioEvent[];
+}
+
+// ---------------------------------------------------------------------------
+// Objectives
+// ---------------------------------------------------------------------------
+
+/**
+ * What an objective expects of the learner. `withinMinutes` is measured on
+ * the simulation clock from the objective's trigger:
+ * - `acknowledge-alert`: the first obs set raising an alert in `ewsRange`
+ * - `order`: the scenario start
+ * - `escalate`: the first obs set scoring `minScore` (default: EW Score 4-5
+ *   or higher on the chart form) or with an E-zone parameter; `tier` accepts
+ *   that tier or higher (RMO < Registrar < MET)
+ * - `met-meo`: the first obs set meeting MET criteria on the chart form
+ *   (EWS ≥ 8 on Q-ADDS, emergency risk on NEWS2) or with an E-zone parameter
+ * - `withhold-medication`: the first sedation score of `sedationScoreAtLeast`
+ *   or more; giving any matching medication after it fails the objective
+ *
+ * Order and medication names match case-insensitively as substrings.
+ */
+export type ScenarioObjectiveRule =
+  | { kind: 'acknowledge-alert'; ewsRange: AlertData['ewsRange']; withinMinutes?: number }
+  | { kind: 'order'; names: string[]; withinMinutes?: number }
+  | { kind: 'escalate'; tier?: EscalationTier; minScore?: number; withinMinutes?: number }
+  | { kind: 'met-meo'; withinMinutes?: number }
+  | { kind: 'withhold-medication'; names: string[]; sedationScoreAtLeast: SedationLevel };
+
+/** Kinds of scenario objective. */
+export type ScenarioObjectiveKind = ScenarioObjectiveRule['kind'];
+
+/**
+ * An expected learner action, checked automatically against the action
+ * log to build the competency checklist.
+ *
+ * @example
+ * ```json
+ * { "id": "ack-6-7", "kind": "acknowledge-alert", "ewsRange": "6-7", "withinMinutes": 5 }
+ * ```
+ */
+export type ScenarioObjective = ScenarioObjectiveRule & {
+  /** Unique objective identifier within the scenario. */
+  id: string;
+
+  /** Checklist wording; generated from the rule when omitted. */
+  description?: string;
+};
+
+// ---------------------------------------------------------------------------
+// Barcode Scanning Errors
+// ---------------------------------------------------------------------------
+
+/**
+ * A product at the bedside in place of an ordered medication: a look-alike
+ * drug, the wrong strength or the wrong formulation. `medication` matches
+ * the order name case-insensitively as a substring; `dose` and `route` are
+ * written as on a chart ("25 mg", "PO") and default to the order's.
+ *
+ * @example
+ * ```json
+ * { "medication": "Hydroxyzine", "name": "Hydralazine", "dose": "25 mg" }
+ * ```
+ */
+export interface ScenarioBcmaSubstitution {
+  medication: string;
+  name: string;
+  dose?: string;
+  route?: string;
+}
+
+/** Deliberate errors planted for the learner's barcode scan to catch. */
+export interface ScenarioBcmaErrors {
+  /** MRN on the wristband the patient is wearing, e.g. another patient's. */
+  wristbandMrn?: string;
+
+  /** Products supplied in place of ordered medications. */
+  substitutions?: ScenarioBcmaSubstitution[];
+}
+
+// ---------------------------------------------------------------------------
+// Scenario Definition
+// ---------------------------------------------------------------------------
+
+/**
+ * A complete scripted scenario loaded from `public/scenarios/*.json`.
+ *
+ * @example
+ * ```json
+ * {
+ *   "id": "sepsis-deterioration",
+ *   "title": "Urosepsis — progressive deterioration",
+ *   "patientMrn": "RBWH789456",
+ *   "startTime": "2021-04-07T16:30:00",
+ *   "events": [
+ *     { "id": "obs-0", "offsetMinutes": 0, "type": "vitals", "vitals": { "hr": 96 } }
+ *   ]
+ * }
+ * ```
+ */
+export interface ScenarioDefinition {
+  /** Unique scenario identifier. */
+  id: string;
+
+  /** Display title shown in the scenario picker. */
+  title: string;
+
+  /** Facilitator-facing summary of the scenario. */
+  description?: string;
+
+  /** MRN of the patient the scenario drives. */
+  patientMrn: string;
+
+  /**
+   * Simulation date-time the clock is set to when the scenario starts.
+   * When omitted the scenario starts from the current clock time.
+   */
+  startTime?: string;
+
+  /**
+   * Optional keyframed physiology. Normalisation expands it into vitals
+   * events, skipping any offset that already has a scripted vitals event.
+   */
+  trajectory?: ScenarioTrajectory;
+
+  /** Rules that branch the scenario in response to learner interventions. */
+  responses?: ScenarioResponse[];
+
+  /** Expected learner actions, scored on the competency checklist. */
+  objectives?: ScenarioObjective[];
+
+  /** Errors planted for the barcode scan on the MAR to catch. */
+  bcma?: ScenarioBcmaErrors;
+
+  /** Scheduled events, sorted by `offsetMinutes` after normalisation. */
+  events: ScenarioEvent[];
+}
+
+/** Lifecycle status of the scenario runner. */
+export type ScenarioRunStatus = 'idle' | 'running' | 'completed';
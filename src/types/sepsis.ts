@@ -0,0 +1,95 @@
+/**
+ * Adult sepsis pathway types.
+ *
+ * The pathway runs in three steps:
+ *
+ *   1. Screening criteria — scored automatically from the latest vital
+ *      signs and lactate. Any criterion met prompts "Could it be sepsis?".
+ *
+ *   2. Structured screen — the nurse records the suspected infection source
+ *      and the red flags present. Suspected infection plus any red flag is a
+ *      positive screen.
+ *
+ *   3. Sepsis bundle — a positive screen starts a 60-minute clock to take
+ *      blood cultures, measure lactate, give IV antibiotics and give a
+ *      fluid bolus.
+ */
+
+// ---------------------------------------------------------------------------
+// Screening Criteria
+// ---------------------------------------------------------------------------
+
+/** A screening criterion scored from the observations or lactate */
+export type SepsisCriterionId = 'rr' | 'heartRate' | 'systolicBP' | 'temperature' | 'spo2' | 'lactate'
+
+/** A screening criterion that is met, with the value that met it */
+export interface SepsisCriterion {
+  id: SepsisCriterionId
+  /** Criterion wording, e.g. "RR ≥ 25" */
+  label: string
+  /** Charted value that met it, as displayed */
+  value: string
+}
+
+// ---------------------------------------------------------------------------
+// Structured Screen
+// ---------------------------------------------------------------------------
+
+/** Suspected source of infection, or NONE if infection is not suspected */
+export type InfectionSource =
+  | 'RESPIRATORY'
+  | 'URINARY'
+  | 'ABDOMINAL'
+  | 'SKIN_SOFT_TISSUE'
+  | 'DEVICE_LINE'
+  | 'CNS'
+  | 'UNKNOWN'
+  | 'NONE'
+
+/** Sepsis red flags */
+export type SepsisRedFlagId =
+  | 'consciousness'
+  | 'systolicBP'
+  | 'heartRate'
+  | 'rr'
+  | 'oxygen'
+  | 'lactate'
+  | 'rash'
+  | 'urineOutput'
+  | 'chemotherapy'
+
+/** A completed structured sepsis screen */
+export interface SepsisScreen {
+  screenId: string
+  /** MRN of the patient screened */
+  patientMrn: string
+  /** ISO datetime (simulation time) the screen was completed */
+  screenedAt: string
+  /** Screening criteria met at the time of the screen */
+  criteria: SepsisCriterion[]
+  /** Latest lactate in mmol/L at the time of the screen, or null if none resulted */
+  lactate: number | null
+  infectionSource: InfectionSource
+  redFlags: SepsisRedFlagId[]
+  /** Suspected infection and at least one red flag */
+  positive: boolean
+  screenedBy: string
+}
+
+// ---------------------------------------------------------------------------
+// Sepsis Bundle
+// ---------------------------------------------------------------------------
+
+/** An element of the one-hour sepsis bundle */
+export type SepsisBundleElementId = 'bloodCultures' | 'lactate' | 'antibiotics' | 'fluidBolus'
+
+/** A sepsis bundle started by a positive screen */
+export interface SepsisBundle {
+  bundleId: string
+  /** MRN of the patient the bundle applies to */
+  patientMrn: string
+  /** The positive screen that started the bundle */
+  screenId: string
+  /** ISO datetime (simulation time) the bundle clock started */
+  startedAt: string
+}
@@ -128,13 +128,13 @@ export const VITAL_PARAMETERS: readonly VitalParameter[] = [
 ] as const;
 
 // ---------------------------------------------------------------------------
-// Q-ADDS Scoring Types (legacy aliases maintained for compatibility)
+// Q-ADDS Scoring Types
 // ---------------------------------------------------------------------------
 
 /** Q-ADDS clinical risk classification. */
 export type ClinicalRisk = 'Routine' | 'Low' | 'Moderate' | 'High' | 'Emergency';
 
-/** Q-ADDS scored parameters (legacy naming). */
+/** Q-ADDS scored parameters. */
 export type QaddsParameter =
   | 'rr'
   | 'spo2'
@@ -164,6 +164,10 @@ export interface QaddsScore {
   emergencyParameters: QaddsParameter[];
   clinicalRisk: ClinicalRisk;
   subScores: QaddsSubScores;
+  /** Parameters not charted in this set; they score 0 and show blank. */
+  missingParameters: QaddsParameter[];
+  /** NEWS2 only: parameters scoring 3, each calling for an urgent response on its own. */
+  redParameters?: QaddsParameter[];
 }
 
 /** Q-ADDS score paired with timestamp (for trend graph). */
@@ -172,13 +176,83 @@ export interface QaddsScoreTrend {
   score: QaddsScore;
 }
 
-/** Observation chart variant. */
-export type ChartVariant =
-  | 'standard'
-  | 'chronic_respiratory'
-  | 'SW150'
-  | 'SW626'
-  | 'SW1171';
+/**
+ * Observation chart variant: a chart form code, or one of the original
+ * names `standard` (SW150) and `chronic_respiratory` (SW1171).
+ */
+export type ChartVariant = 'standard' | 'chronic_respiratory' | ChartFormCode;
+
+/** Queensland Health Q-ADDS (adult) chart form code. */
+export type QaddsChartFormCode = 'SW150' | 'SW626' | 'SW1171';
+
+/**
+ * CEWT (Children's Early Warning Tool) chart, one per age band. Children are
+ * put on the chart for their age automatically; it is never chosen by hand.
+ */
+export type CewtChartFormCode =
+  | 'CEWT-0-3M'
+  | 'CEWT-4-11M'
+  | 'CEWT-1-4Y'
+  | 'CEWT-5-11Y'
+  | 'CEWT-12Y';
+
+/** RCP NEWS2 chart, on SpO₂ scale 1 or scale 2 (hypercapnic respiratory failure). */
+export type News2ChartFormCode = 'NEWS2' | 'NEWS2-SCALE2';
+
+/** Any observation chart form the scoring engine knows. */
+export type ChartFormCode = QaddsChartFormCode | CewtChartFormCode | News2ChartFormCode;
+
+/**
+ * Early warning system a site uses for adults: Queensland Q-ADDS, or RCP
+ * NEWS2 for UK students and interstate partner sites. Children are scored
+ * on CEWT under either.
+ */
+export type ScoringSystem = 'qadds' | 'news2';
+
+/** Score bands for one parameter: each band's inclusive range and score. */
+export interface ThresholdBand {
+  min: number;
+  max: number;
+  score: QaddsSubScoreValue;
+}
+
+/** A chart form's score tables for the numeric parameters. */
+export interface ChartThresholds {
+  rr: ThresholdBand[];
+  spo2: ThresholdBand[];
+  o2FlowRate: ThresholdBand[];
+  systolicBP: ThresholdBand[];
+  heartRate: ThresholdBand[];
+  temperature: ThresholdBand[];
+}
+
+/** How a chart form differs from the others (docs/q-adds.md section 2). */
+export interface ChartForm {
+  code: ChartFormCode;
+  label: string;
+  /** Name of the tool the chart scores on, as shown on score cards (e.g. "CEWT"). */
+  tool: string;
+  /** Early warning system the chart belongs to. */
+  system: ScoringSystem;
+  /**
+   * Score tables the chart is scored on, or null on the NEWS2 charts, which
+   * score on the NEWS2 calculator's own tables.
+   */
+  thresholds: ChartThresholds | null;
+  /** Aggregate score that calls for an emergency (MET) response. */
+  emergencyScore: number;
+  /** Whether this is a paediatric (CEWT) chart with age-banded RR, HR and SBP. */
+  paediatric: boolean;
+  /** Whether SpO₂ scores on the chronic hypoxia/hypercapnia scale (NEWS2 scale 2). */
+  chronicSpo2: boolean;
+  /** Whether the chart carries the sepsis screening prompt. */
+  sepsisScreening: boolean;
+  /** Longest MET-MEO plan the chart allows, in hours. */
+  metMeoMaxHours: number;
+}
+
+/** Q-ADDS chart colour for a sub-score. */
+export type QaddsColorCode = 'white' | 'yellow' | 'orange' | 'red' | 'purple';
 
 /** Patient clinical status for escalation pathway. */
 export type PatientStatus = 'deteriorating' | 'stable';